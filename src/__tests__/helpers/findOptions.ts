@@ -0,0 +1,18 @@
+import { FindOperator } from 'typeorm';
+
+/**
+ * Evaluate a find option value (equality, Not or In) against a column value
+ */
+export function satisfies(value: unknown, condition: unknown): boolean {
+  if (!(condition instanceof FindOperator)) return value === condition;
+  if (condition.type === 'not') return !satisfies(value, condition.child ?? condition.value);
+  if (condition.type === 'in') return (condition.value as unknown[]).includes(value);
+  throw new Error(`Unexpected operator: ${condition.type}`);
+}
+
+/**
+ * Whether a fake table row matches the where options of a find, count or update call
+ */
+export function matchesWhere(row: object, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([key, condition]) => satisfies((row as any)[key], condition));
+}
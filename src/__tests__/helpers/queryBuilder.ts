@@ -0,0 +1,44 @@
+/**
+ * Builder methods that return the query builder itself
+ */
+const CHAIN_METHODS = [
+  'select', 'addSelect', 'from', 'innerJoin', 'innerJoinAndSelect', 'leftJoin', 'leftJoinAndSelect',
+  'leftJoinAndMapOne', 'where', 'andWhere', 'orWhere', 'having', 'andHaving', 'groupBy', 'addGroupBy',
+  'orderBy', 'addOrderBy', 'skip', 'take', 'limit', 'offset', 'setParameter', 'setParameters', 'setLock',
+  'update', 'set', 'insert', 'into', 'values', 'orIgnore', 'orUpdate', 'returning', 'delete',
+];
+
+type Handler = (...args: any[]) => any;
+
+/**
+ * Create a chainable fake of a TypeORM query builder for service unit tests.
+ *
+ * Chain methods return the builder; a handler given for one is called with its arguments
+ * so the test can record clauses, parameters and values. Handlers for any other method
+ * (execute, getMany, getRawMany, ...) are used as they are, and those not given resolve
+ * to empty results.
+ */
+export function fakeQueryBuilder(handlers: Record<string, Handler> = {}): any {
+  const builder: any = {
+    execute: async () => ({ affected: 0, raw: [] }),
+    getOne: async () => null,
+    getMany: async () => [],
+    getRawOne: async () => undefined,
+    getRawMany: async () => [],
+    getCount: async () => 0,
+    getManyAndCount: async () => [[], 0],
+  };
+
+  for (const method of CHAIN_METHODS) {
+    builder[method] = (...args: any[]) => {
+      handlers[method]?.(...args);
+      return builder;
+    };
+  }
+
+  for (const [method, handler] of Object.entries(handlers)) {
+    if (!CHAIN_METHODS.includes(method)) builder[method] = handler;
+  }
+
+  return builder;
+}
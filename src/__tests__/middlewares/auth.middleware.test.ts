@@ -0,0 +1,75 @@
+import { canReviewProduct } from '../../middlewares/auth.middleware';
+import { OrderItem } from '../../entities/orderItems.entity';
+import { OrderStatus } from '../../entities/order.entity';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../service/product.service');
+jest.mock('../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('canReviewProduct', () => {
+  let orders: { orderedById: number; status: OrderStatus; productId: number }[];
+  let res: any;
+  let next: jest.Mock;
+
+  const request = (productId: number) => ({ user: { id: 5 }, body: { productId: String(productId) } }) as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    orders = [];
+    res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+    next = jest.fn();
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === OrderItem) {
+        return {
+          // Purchased item of the user's orders whose status is one of :statuses
+          createQueryBuilder: () => {
+            const params: Record<string, any> = {};
+            const addParams = (_clause: string, parameters: Record<string, any>) => Object.assign(params, parameters);
+            return fakeQueryBuilder({
+              where: addParams,
+              andWhere: addParams,
+              getOne: async () => orders.find((order) =>
+                order.orderedById === params.userId
+                && order.productId === params.productId
+                && params.statuses.includes(order.status)) ?? null,
+            });
+          },
+        };
+      }
+      return { findOne: async () => null };
+    });
+  });
+
+  it('lets a customer review a product from a delivered order', async () => {
+    orders = [{ orderedById: 5, status: OrderStatus.DELIVERED, productId: 11 }];
+
+    await canReviewProduct(request(11), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('lets a customer review a product from a confirmed order', async () => {
+    orders = [{ orderedById: 5, status: OrderStatus.CONFIRMED, productId: 11 }];
+
+    await canReviewProduct(request(11), res, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects a product the customer only has in a cancelled order', async () => {
+    orders = [{ orderedById: 5, status: OrderStatus.CANCELLED, productId: 11 }];
+
+    await canReviewProduct(request(11), res, next);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
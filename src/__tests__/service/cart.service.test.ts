@@ -0,0 +1,58 @@
+import { CartService } from '../../service/cart.service';
+import { Product } from '../../entities/product.entity';
+import { Cart } from '../../entities/cart.entity';
+import { VendorStatus } from '../../entities/vendorKyc.enum';
+import AppDataSource from '../../config/db.config';
+
+jest.mock('../../service/deal.service');
+jest.mock('../../service/stockReservation.service');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('CartService - vendor status on add to cart', () => {
+  let cartService: CartService;
+  let product: Partial<Product>;
+  let saveCart: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    product = {
+      id: 1,
+      name: 'Kettle',
+      basePrice: 1500,
+      stock: 10,
+      hasVariants: false,
+      vendor: { id: 10, status: VendorStatus.APPROVED } as any,
+    };
+    saveCart = jest.fn(async (cart: any) => cart);
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === Product) return { findOne: async () => product };
+      if (entity === Cart) return { findOne: async () => ({ id: 1, userId: 5, items: [] }), save: saveCart };
+      return { create: (data: any) => ({ ...data }), save: async (row: any) => row };
+    });
+
+    cartService = new CartService();
+    (cartService as any).stockReservationService.getAvailableStock.mockResolvedValue(10);
+  });
+
+  it('adds a product of an approved vendor', async () => {
+    const cart = await cartService.addToCart(5, { productId: 1, quantity: 2 });
+
+    expect(cart.items).toEqual([expect.objectContaining({ quantity: 2, price: 1500 })]);
+  });
+
+  it.each([VendorStatus.SUSPENDED, VendorStatus.PENDING])('rejects a product of a %s vendor', async (status) => {
+    product.vendor!.status = status;
+
+    await expect(cartService.addToCart(5, { productId: 1, quantity: 1 })).rejects.toMatchObject({
+      status: 400,
+      message: 'This product is not available from its vendor right now',
+    });
+    expect(saveCart).not.toHaveBeenCalled();
+  });
+});
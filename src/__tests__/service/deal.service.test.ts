@@ -0,0 +1,131 @@
+import { DealService } from '../../service/deal.service';
+import { Deal } from '../../entities/deal.entity';
+import { DealProductLimit } from '../../entities/dealProductLimit.entity';
+import { OrderItem } from '../../entities/orderItems.entity';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn().mockReturnValue({}),
+  },
+}));
+
+describe('DealService - deal limits', () => {
+  let dealService: DealService;
+  let manager: any;
+  let deal: Partial<Deal>;
+  let limits: Partial<DealProductLimit>[];
+  // Units already bought at the deal price, in orders that were not cancelled
+  let sold: { dealId: number; productId: number; userId: number; quantity: number }[];
+  let lock: string | undefined;
+
+  // SELECT dealId, productId, SUM(quantity) ... [AND order.orderedById = :userId] GROUP BY dealId, productId
+  const soldQuery = () => {
+    const params: Record<string, any> = {};
+    const addParams = (_clause: string, parameters: Record<string, any> = {}) => Object.assign(params, parameters);
+
+    return fakeQueryBuilder({
+      where: addParams,
+      andWhere: addParams,
+      getRawMany: async () => {
+        const totals = new Map<string, { dealId: number; productId: number; quantity: number }>();
+        for (const row of sold.filter((row) => params.userId === undefined || row.userId === params.userId)) {
+          const key = `${row.dealId}:${row.productId}`;
+          const total = totals.get(key) || { dealId: row.dealId, productId: row.productId, quantity: 0 };
+          total.quantity += row.quantity;
+          totals.set(key, total);
+        }
+        return [...totals.values()].map((total) => ({ ...total, quantity: String(total.quantity) }));
+      },
+    });
+  };
+
+  const assertDealLimits = (userId: number, quantity: number, productId = 1) =>
+    dealService.assertDealLimits(userId, [{ dealId: 1, productId, quantity }], manager);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    deal = { id: 1, name: 'Dashain Flash Sale', perCustomerLimit: null };
+    limits = [];
+    sold = [];
+    lock = undefined;
+
+    manager = {
+      getRepository: (entity: any) => {
+        if (entity === Deal) {
+          return {
+            createQueryBuilder: () => fakeQueryBuilder({
+              setLock: (mode: string) => { lock = mode; },
+              getMany: async () => [deal],
+            }),
+          };
+        }
+        if (entity === DealProductLimit) return { find: async () => limits };
+        if (entity === OrderItem) return { createQueryBuilder: soldQuery };
+        return {};
+      },
+    };
+
+    dealService = new DealService();
+  });
+
+  it('allows any quantity when the deal has no limits', async () => {
+    await expect(assertDealLimits(5, 50)).resolves.toBeUndefined();
+  });
+
+  it('counts the customer\'s earlier deal purchases towards the per-customer limit', async () => {
+    deal.perCustomerLimit = 3;
+    sold = [{ dealId: 1, productId: 1, userId: 5, quantity: 2 }, { dealId: 1, productId: 1, userId: 6, quantity: 3 }];
+
+    await expect(assertDealLimits(5, 1)).resolves.toBeUndefined();
+    await expect(assertDealLimits(5, 2)).rejects.toMatchObject({
+      status: 400,
+      message: 'The "Dashain Flash Sale" deal allows 3 unit(s) of each product per customer; you can buy 1 more',
+    });
+  });
+
+  it('applies the per-customer limit to each product separately', async () => {
+    deal.perCustomerLimit = 2;
+    sold = [{ dealId: 1, productId: 1, userId: 5, quantity: 2 }];
+
+    await expect(assertDealLimits(5, 2, 2)).resolves.toBeUndefined();
+  });
+
+  it('adds up lines of the same product, such as several variants', async () => {
+    deal.perCustomerLimit = 2;
+
+    await expect(dealService.assertDealLimits(5, [
+      { dealId: 1, productId: 1, quantity: 1 },
+      { dealId: 1, productId: 1, quantity: 2 },
+    ], manager)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('caps the units sold at the deal price across all customers', async () => {
+    limits = [{ dealId: 1, productId: 1, stockLimit: 10 }];
+    sold = [{ dealId: 1, productId: 1, userId: 6, quantity: 7 }];
+
+    await expect(assertDealLimits(5, 3)).resolves.toBeUndefined();
+    await expect(assertDealLimits(5, 4)).rejects.toMatchObject({
+      status: 400,
+      message: 'Only 3 unit(s) left at the "Dashain Flash Sale" deal price',
+    });
+  });
+
+  it('reports a product sold out at the deal price', async () => {
+    limits = [{ dealId: 1, productId: 1, stockLimit: 10 }];
+    sold = [{ dealId: 1, productId: 1, userId: 6, quantity: 10 }];
+
+    await expect(assertDealLimits(5, 1)).rejects.toMatchObject({
+      message: 'This product is sold out at the "Dashain Flash Sale" deal price',
+    });
+  });
+
+  it('locks the deal rows only when asked to, inside the order transaction', async () => {
+    await assertDealLimits(5, 1);
+    expect(lock).toBeUndefined();
+
+    await dealService.assertDealLimits(5, [{ dealId: 1, productId: 1, quantity: 1 }], manager, true);
+    expect(lock).toBe('pessimistic_write');
+  });
+});
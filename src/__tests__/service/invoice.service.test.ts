@@ -0,0 +1,134 @@
+import { InvoiceService } from '../../service/invoice.service';
+import { PromoService } from '../../service/promo.service';
+import { Order, OrderStatus } from '../../entities/order.entity';
+import { Invoice, InvoiceType } from '../../entities/invoice.entity';
+import { InvoiceSequence } from '../../entities/invoiceSequence.entity';
+import { PromoRedemption } from '../../entities/promoRedemption.entity';
+import { PromoType } from '../../entities/promo.entity';
+import { VendorOrderStatus } from '../../entities/vendorOrder.entity';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../service/promo.service');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('InvoiceService - invoice amounts', () => {
+  let invoiceService: InvoiceService;
+  let order: Partial<Order>;
+  let redemption: Partial<PromoRedemption> | null;
+  let invoices: Partial<Invoice>[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    invoices = [];
+    redemption = null;
+
+    // Vendor 1 sells 2 x 500, vendor 2 sells 1 x 500; each ships for 100
+    order = {
+      id: 1,
+      status: OrderStatus.CONFIRMED,
+      orderedById: 5,
+      totalPrice: 1700,
+      shippingFee: 200,
+      serviceCharge: 25,
+      orderItems: [
+        { id: 11, vendorId: 1, productId: 101, price: 500, quantity: 2 },
+        { id: 12, vendorId: 2, productId: 102, price: 500, quantity: 1 },
+      ] as Order['orderItems'],
+      vendorOrders: [
+        { id: 21, vendorId: 1, shippingFee: 100, status: VendorOrderStatus.CONFIRMED },
+        { id: 22, vendorId: 2, shippingFee: 100, status: VendorOrderStatus.CONFIRMED },
+      ] as Order['vendorOrders'],
+    };
+
+    const sequences = new Map<string, InvoiceSequence>();
+    const manager: any = {
+      createQueryBuilder: () => fakeQueryBuilder({
+        values: ({ series }: { series: string }) => {
+          if (!sequences.has(series)) sequences.set(series, { series, lastNumber: 0 } as InvoiceSequence);
+        },
+      }),
+      findOne: async (entity: any, { where }: any) =>
+        (entity === InvoiceSequence ? sequences.get(where.series) : null),
+      create: (_entity: any, data: any) => ({ ...data }),
+      save: async (row: any) => {
+        if ('invoiceNumber' in row) invoices.push(row);
+        return row;
+      },
+    };
+    (AppDataSource.transaction as jest.Mock).mockImplementation(async (callback) => callback(manager));
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === Order) return { findOne: async () => order };
+      if (entity === PromoRedemption) return { findOne: async () => redemption };
+      return { findOne: async () => null };
+    });
+
+    invoiceService = new InvoiceService();
+  });
+
+  it('invoices the customer for the stored order total, with VAT extracted from it', async () => {
+    const { invoice } = await invoiceService.getCustomerInvoice(1);
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: 'INV-000001',
+      type: InvoiceType.CUSTOMER,
+      subtotal: 1500,
+      discount: 0,
+      shippingFee: 200,
+      serviceCharge: 0,
+      total: 1700,
+      taxableAmount: 1504.42,
+      vatAmount: 195.58,
+    });
+  });
+
+  it('takes the discount from the promo redemption of the order', async () => {
+    order.totalPrice = 1550;
+    redemption = { orderId: 1, discountAmount: 150, promo: { applyOn: PromoType.LINE_TOTAL } as PromoRedemption['promo'] };
+
+    const { invoice } = await invoiceService.getCustomerInvoice(1);
+
+    expect(invoice).toMatchObject({ subtotal: 1500, discount: 150, shippingFee: 200, total: 1550 });
+  });
+
+  it('refuses to issue an invoice when the stored amounts do not add up to the order total', async () => {
+    order.totalPrice = 1600;
+
+    await expect(invoiceService.getCustomerInvoice(1)).rejects.toMatchObject({ status: 500 });
+    expect(invoices).toHaveLength(0);
+  });
+
+  it('gives a vendor invoice the discount allocated to its own items', async () => {
+    order.totalPrice = 1550;
+    redemption = { orderId: 1, discountAmount: 150, promo: { applyOn: PromoType.LINE_TOTAL } as PromoRedemption['promo'] };
+    (PromoService.prototype.allocateOrderDiscount as jest.Mock).mockResolvedValue(new Map([[11, 100], [12, 50]]));
+
+    const { invoice } = await invoiceService.getVendorInvoice(1, 1);
+
+    expect(invoice).toMatchObject({
+      invoiceNumber: 'VINV-1-000001',
+      type: InvoiceType.VENDOR,
+      vendorId: 1,
+      subtotal: 1000,
+      discount: 100,
+      shippingFee: 100,
+      total: 1000,
+    });
+  });
+
+  it('splits a shipping promo over the vendor invoices by shipping fee', async () => {
+    order.totalPrice = 1580;
+    redemption = { orderId: 1, discountAmount: 120, promo: { applyOn: PromoType.SHIPPING } as PromoRedemption['promo'] };
+
+    const { invoice } = await invoiceService.getVendorInvoice(1, 2);
+
+    expect(invoice).toMatchObject({ subtotal: 500, discount: 60, shippingFee: 100, total: 540 });
+    expect(PromoService.prototype.allocateOrderDiscount).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,230 @@
+import { NotificationService } from '../../service/notification.service';
+import { Notification, NotificationTarget, NotificationType } from '../../entities/notification.entity';
+import { NotificationReceipt } from '../../entities/notificationReceipt.entity';
+import { User, UserRole } from '../../entities/user.entity';
+import { Vendor } from '../../entities/vendor.entity';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../services/notification/NotificationDispatcher');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+    query: jest.fn(),
+  },
+}));
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+
+describe('NotificationService - inbox', () => {
+  let notificationService: NotificationService;
+  let notifications: Partial<Notification>[];
+  let receipts: Partial<NotificationReceipt>[];
+  let lastSelected: string[];
+
+  const admin = Object.assign(new User(), { id: 1, role: UserRole.ADMIN });
+  const staff = Object.assign(new User(), { id: 2, role: UserRole.STAFF });
+  const customer = Object.assign(new User(), { id: 3, role: UserRole.USER });
+  const otherCustomer = Object.assign(new User(), { id: 4, role: UserRole.USER });
+  const vendor = Object.assign(new Vendor(), { id: 10 });
+  const otherVendor = Object.assign(new Vendor(), { id: 20 });
+
+  // Applies the inbox query to the in-memory tables: audience, the reader's receipt and the receipt filters
+  const inboxQuery = () => {
+    let audience: Record<string, unknown> = {};
+    let readerColumn: 'userId' | 'vendorId';
+    let readerId: number;
+    const clauses: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    const rows = () => notifications
+      .filter((row) => Object.entries(audience).every(([key, value]) => (row as any)[key] === value))
+      .map((row) => ({
+        ...row,
+        receipt: receipts.find((receipt) => receipt.notificationId === row.id && receipt[readerColumn] === readerId),
+      }))
+      .filter((row) => clauses.every((clause) => {
+        const receiptFilter = clause.match(/^receipt\.(\w+) IS (NOT )?NULL$/);
+        if (receiptFilter) {
+          const value = (row.receipt as any)?.[receiptFilter[1]] ?? null;
+          return receiptFilter[2] ? value !== null : value === null;
+        }
+        if (clause === 'notification.id = :id') return row.id === params.id;
+        if (clause === 'notification.type = :type') return row.type === params.type;
+        throw new Error(`Unexpected clause: ${clause}`);
+      }));
+
+    return fakeQueryBuilder({
+      leftJoinAndMapOne: (_property: string, _entity: any, _alias: string, condition: string, parameters: { readerId: number }) => {
+        readerColumn = condition.includes('receipt.vendorId') ? 'vendorId' : 'userId';
+        readerId = parameters.readerId;
+      },
+      where: (where: Record<string, unknown>) => { audience = where; },
+      andWhere: (clause: string, parameters: Record<string, unknown> = {}) => {
+        clauses.push(clause);
+        Object.assign(params, parameters);
+      },
+      getOne: async () => rows()[0] ?? null,
+      getCount: async () => rows().length,
+      getManyAndCount: async () => [rows(), rows().length],
+      getQueryAndParameters: () => {
+        lastSelected = rows().map((row) => row.id!);
+        return ['SELECT unread', [readerId]];
+      },
+    });
+  };
+
+  // INSERT ... ON CONFLICT ("notificationId", <reader>) DO UPDATE, keyed like the partial unique indexes
+  const upsert = (values: Partial<NotificationReceipt>, columns: string[], conflict: string[]) => {
+    const existing = receipts.find((receipt) => conflict.every((key) => (receipt as any)[key] === (values as any)[key]));
+    if (!existing) {
+      receipts.push({ ...values });
+      return;
+    }
+    for (const column of columns) {
+      (existing as any)[column] = (values as any)[column];
+    }
+  };
+
+  const receiptQuery = () => {
+    let values: Partial<NotificationReceipt>;
+
+    return fakeQueryBuilder({
+      values: (row: Partial<NotificationReceipt>) => { values = row; },
+      orUpdate: (columns: string[], conflict: string[]) => upsert(values, columns, conflict),
+    });
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    notifications = [
+      { id: id(1), target: NotificationTarget.ADMIN, type: NotificationType.ORDER_PLACED, title: 'New Order Placed' },
+      { id: id(2), target: NotificationTarget.VENDOR, vendorId: 10, type: NotificationType.ORDER_PLACED, title: 'New Order Received' },
+      { id: id(3), target: NotificationTarget.VENDOR, vendorId: 20, type: NotificationType.PRODUCT_REVIEW, title: 'New Product Review' },
+      { id: id(4), target: NotificationTarget.USER, createdById: 3, type: NotificationType.ORDER_STATUS_UPDATED, title: 'Order Status Updated' },
+      { id: id(5), target: NotificationTarget.VENDOR, vendorId: 10, type: NotificationType.PRODUCT_QUESTION, title: 'New Product Question' },
+    ];
+    receipts = [];
+    lastSelected = [];
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) => {
+      if (entity === Notification) return { createQueryBuilder: inboxQuery };
+      if (entity === NotificationReceipt) return { createQueryBuilder: receiptQuery };
+      return {};
+    });
+
+    // markAllAsRead upserts a read receipt for each notification its SELECT returned
+    (AppDataSource.query as jest.Mock).mockImplementation(async (sql: string, parameters: number[]) => {
+      const column = sql.includes('"vendorId"') ? 'vendorId' : 'userId';
+      const readerId = parameters[parameters.length - 1];
+      for (const notificationId of lastSelected) {
+        upsert({ notificationId, [column]: readerId, readAt: new Date() }, ['readAt'], ['notificationId', column]);
+      }
+      return lastSelected.map((notificationId) => ({ notificationId }));
+    });
+
+    notificationService = new NotificationService();
+  });
+
+  describe('ownership', () => {
+    it('lists only the notifications addressed to the recipient', async () => {
+      const inbox = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: false });
+
+      expect(inbox.notifications.map((notification) => notification.id)).toEqual([id(2), id(5)]);
+      expect(inbox.total).toBe(2);
+    });
+
+    it("reports another recipient's notification as not found", async () => {
+      await expect(notificationService.getNotificationById(vendor, id(3))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.getNotificationById(vendor, id(1))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.getNotificationById(otherCustomer, id(4))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.getNotificationById(customer, 'not-a-uuid')).rejects.toMatchObject({ status: 404 });
+
+      await expect(notificationService.getNotificationById(customer, id(4))).resolves.toMatchObject({ id: id(4), isRead: false });
+    });
+
+    it("does not change another recipient's notification", async () => {
+      await expect(notificationService.markAsRead(otherVendor, id(2))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.archive(otherVendor, id(2))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.delete(otherVendor, id(2))).rejects.toMatchObject({ status: 404 });
+
+      expect(receipts).toHaveLength(0);
+    });
+  });
+
+  describe('read state', () => {
+    it('keeps read state per recipient of a shared notification', async () => {
+      const read = await notificationService.markAsRead(admin, id(1));
+
+      expect(read).toMatchObject({ isRead: true, readAt: expect.any(Date) });
+      expect(receipts).toEqual([expect.objectContaining({ notificationId: id(1), userId: 1 })]);
+      await expect(notificationService.getNotificationById(admin, id(1))).resolves.toMatchObject({ isRead: true });
+      await expect(notificationService.getNotificationById(staff, id(1))).resolves.toMatchObject({ isRead: false });
+      await expect(notificationService.getUnreadCount(staff)).resolves.toBe(1);
+    });
+
+    it('keeps the first read time when a notification is read again', async () => {
+      const first = await notificationService.markAsRead(vendor, id(2));
+      const again = await notificationService.markAsRead(vendor, id(2));
+
+      expect(again.readAt).toEqual(first.readAt);
+      expect(receipts).toHaveLength(1);
+    });
+
+    it('counts unread notifications outside the archive', async () => {
+      await expect(notificationService.getUnreadCount(vendor)).resolves.toBe(2);
+
+      await notificationService.markAsRead(vendor, id(2));
+      await expect(notificationService.getUnreadCount(vendor)).resolves.toBe(1);
+
+      await notificationService.archive(vendor, id(5));
+      await expect(notificationService.getUnreadCount(vendor)).resolves.toBe(0);
+    });
+
+    it('marks every unread notification of the recipient as read', async () => {
+      await notificationService.markAsRead(vendor, id(2));
+
+      await expect(notificationService.markAllAsRead(vendor)).resolves.toBe(1);
+      expect(receipts).toEqual([
+        expect.objectContaining({ notificationId: id(2), vendorId: 10 }),
+        expect.objectContaining({ notificationId: id(5), vendorId: 10 }),
+      ]);
+      await expect(notificationService.getUnreadCount(otherVendor)).resolves.toBe(1);
+    });
+
+    it('filters the inbox by read state', async () => {
+      await notificationService.markAsRead(vendor, id(5));
+
+      const unread = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: false, status: 'unread' });
+      const read = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: false, status: 'read' });
+
+      expect(unread.notifications.map((notification) => notification.id)).toEqual([id(2)]);
+      expect(read.notifications.map((notification) => notification.id)).toEqual([id(5)]);
+    });
+  });
+
+  describe('archive and delete', () => {
+    it('moves archived notifications out of the inbox until they are unarchived', async () => {
+      await notificationService.archive(vendor, id(2));
+
+      const inbox = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: false });
+      const archive = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: true });
+      expect(inbox.notifications.map((notification) => notification.id)).toEqual([id(5)]);
+      expect(archive.notifications).toEqual([expect.objectContaining({ id: id(2), archivedAt: expect.any(Date) })]);
+
+      await notificationService.unarchive(vendor, id(2));
+      const restored = await notificationService.getNotifications(vendor, { page: 1, limit: 20, archived: false });
+      expect(restored.total).toBe(2);
+    });
+
+    it("deletes a shared notification from the recipient's inbox only", async () => {
+      await notificationService.delete(admin, id(1));
+
+      await expect(notificationService.getNotificationById(admin, id(1))).rejects.toMatchObject({ status: 404 });
+      await expect(notificationService.getNotificationById(staff, id(1))).resolves.toMatchObject({ id: id(1) });
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { OrderService } from '../../service/order.service';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../../entities/order.entity';
+import { OrderItem } from '../../entities/orderItems.entity';
+import { Product } from '../../entities/product.entity';
+import { StockReservation, ReservationStatus } from '../../entities/stockReservation.entity';
+import { StockMovement, StockMovementReason } from '../../entities/stockMovement.entity';
+import { CartItem } from '../../entities/cartItem.entity';
+import { VendorOrder } from '../../entities/vendorOrder.entity';
+import { NotificationTarget } from '../../entities/notification.entity';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+import { matchesWhere } from '../helpers/findOptions';
+
+jest.mock('../../service/cart.service');
+jest.mock('../../service/payment.service');
+jest.mock('../../service/promo.service');
+jest.mock('../../service/vendor.service');
+jest.mock('../../service/deal.service');
+jest.mock('../../service/shipping.service');
+jest.mock('../../service/invoice.service');
+jest.mock('../../services/notification/NotificationDispatcher');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+    getTreeRepository: jest.fn(),
+  },
+}));
+
+describe('OrderService - online payment outcome', () => {
+  let orderService: OrderService;
+  let db: {
+    order: Partial<Order>;
+    product: { id: number; stock: number; status?: string };
+    reservations: { orderId: number; status: ReservationStatus }[];
+    movements: any[];
+  };
+  let vendorOrderUpdate: jest.Mock;
+  let processRefund: jest.Mock;
+  let saveInApp: jest.Mock;
+
+  const orderItems = [{ id: 1, orderId: 1, productId: 11, variantId: null, quantity: 3 }];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    db = {
+      order: { id: 1, paymentMethod: PaymentMethod.ESEWA, paymentStatus: PaymentStatus.UNPAID, status: OrderStatus.PENDING },
+      product: { id: 11, stock: 10 },
+      reservations: [{ orderId: 1, status: ReservationStatus.ACTIVE }],
+      movements: [],
+    };
+
+    const reservationRepository = {
+      update: async (criteria: any, changes: any) => {
+        const rows = db.reservations.filter((row) => row.orderId === criteria.orderId && row.status === criteria.status);
+        rows.forEach((row) => Object.assign(row, changes));
+        return { affected: rows.length };
+      },
+    };
+
+    const manager: any = {
+      // UPDATE orders ... WHERE id = :orderId AND "paymentStatus" <> 'PAID', applied atomically like Postgres
+      createQueryBuilder: () => {
+        let changes: Partial<Order>;
+        let paid: PaymentStatus;
+        return fakeQueryBuilder({
+          set: (values: Partial<Order>) => { changes = values; },
+          andWhere: (_clause: string, params: { paid: PaymentStatus }) => { paid = params.paid; },
+          execute: async () => {
+            if (db.order.paymentStatus === paid) return { affected: 0 };
+            Object.assign(db.order, changes);
+            return { affected: 1 };
+          },
+        });
+      },
+      find: jest.fn(async (entity) => (entity === OrderItem ? orderItems : [])),
+      save: jest.fn(async (entity, rows) => {
+        if (entity === StockMovement) db.movements.push(...rows);
+        return rows;
+      }),
+      getRepository: (entity: any) => {
+        if (entity === StockReservation) {
+          return reservationRepository;
+        }
+        if (entity === Product) {
+          return {
+            findOne: async () => ({ ...db.product }),
+            save: async (product: any) => Object.assign(db.product, product),
+          };
+        }
+        if (entity === CartItem) {
+          return { delete: jest.fn() };
+        }
+        return {};
+      },
+    };
+
+    // Yield before running so concurrent callbacks interleave; roll the fake tables back when the callback throws
+    (AppDataSource.transaction as jest.Mock).mockImplementation(async (callback) => {
+      await new Promise((resolve) => setImmediate(resolve));
+      const snapshot = JSON.parse(JSON.stringify(db));
+      try {
+        return await callback(manager);
+      } catch (error) {
+        Object.assign(db, snapshot);
+        throw error;
+      }
+    });
+
+    vendorOrderUpdate = jest.fn();
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === Order) {
+        return {
+          findOne: async () => ({ ...db.order, orderItems }),
+          update: async (where: Record<string, unknown>, changes: Partial<Order>) => {
+            if (!matchesWhere(db.order, where)) return { affected: 0 };
+            Object.assign(db.order, changes);
+            return { affected: 1 };
+          },
+        };
+      }
+      if (entity === VendorOrder) return { update: vendorOrderUpdate };
+      if (entity === StockReservation) return reservationRepository;
+      return {};
+    });
+    (AppDataSource.getTreeRepository as jest.Mock).mockReturnValue({});
+
+    orderService = new OrderService();
+    processRefund = jest.fn(async (orderId: number) => ({ id: 7, orderId, amount: 1500 }));
+    (orderService as any).refundPaymentService = { processRefund };
+    saveInApp = (orderService as any).notificationDispatcher.saveInApp;
+  });
+
+  it('marks the order paid, commits its reservations and deducts stock', async () => {
+    const confirmed = await orderService.confirmPaidOrder(1, 'TXN-1');
+
+    expect(confirmed).toBe(true);
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.PAID, status: OrderStatus.CONFIRMED, mTransactionId: 'TXN-1' });
+    expect(db.reservations[0].status).toBe(ReservationStatus.COMMITTED);
+    expect(db.product.stock).toBe(7);
+    expect(db.movements).toEqual([expect.objectContaining({ productId: 11, delta: -3, balanceAfter: 7, reason: StockMovementReason.SALE })]);
+    expect(vendorOrderUpdate).toHaveBeenCalledWith({ orderId: 1 }, { status: OrderStatus.CONFIRMED });
+  });
+
+  it('deducts stock once when payment callbacks for the order arrive together', async () => {
+    const results = await Promise.all([
+      orderService.confirmPaidOrder(1),
+      orderService.confirmPaidOrder(1),
+      orderService.confirmPaidOrder(1),
+    ]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(db.product.stock).toBe(7);
+    expect(db.movements).toHaveLength(1);
+    expect(vendorOrderUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores a repeated callback for an order that is already paid', async () => {
+    db.order.paymentStatus = PaymentStatus.PAID;
+
+    await expect(orderService.confirmPaidOrder(1)).resolves.toBe(false);
+    expect(db.product.stock).toBe(10);
+    expect(db.movements).toHaveLength(0);
+  });
+
+  it('records the payment, cancels and refunds the order when the stock was sold in the meantime', async () => {
+    db.product.stock = 2;
+
+    await expect(orderService.confirmPaidOrder(1, 'TXN-1')).rejects.toMatchObject({ status: 409 });
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.PAID, status: OrderStatus.CANCELLED, mTransactionId: 'TXN-1' });
+    expect(db.reservations[0].status).toBe(ReservationStatus.RELEASED);
+    expect(db.product.stock).toBe(2);
+    expect(db.movements).toHaveLength(0);
+    expect(vendorOrderUpdate).toHaveBeenCalledWith({ orderId: 1 }, { status: OrderStatus.CANCELLED });
+    expect(processRefund).toHaveBeenCalledWith(1, undefined, expect.stringContaining('Insufficient stock'));
+    expect(saveInApp).toHaveBeenCalledWith([
+      expect.objectContaining({ target: NotificationTarget.ADMIN, orderId: 1, message: expect.stringContaining('Refund #7') }),
+    ]);
+  });
+
+  it('still alerts the admins when the refund of a sold out order fails', async () => {
+    db.product.stock = 2;
+    processRefund.mockRejectedValue(new Error('Refund failed: gateway timeout'));
+
+    await expect(orderService.confirmPaidOrder(1)).rejects.toMatchObject({ status: 409 });
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.PAID, status: OrderStatus.CANCELLED });
+    expect(saveInApp).toHaveBeenCalledWith([
+      expect.objectContaining({ target: NotificationTarget.ADMIN, message: expect.stringContaining('gateway timeout') }),
+    ]);
+  });
+
+  it('cancels an unpaid order and releases its reservation when the payment is cancelled', async () => {
+    await orderService.handlePaymentCancel(1);
+
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.UNPAID, status: OrderStatus.CANCELLED });
+    expect(db.reservations[0].status).toBe(ReservationStatus.RELEASED);
+    expect(vendorOrderUpdate).toHaveBeenCalledWith({ orderId: 1 }, { status: OrderStatus.CANCELLED });
+  });
+
+  it('does not cancel an order that was paid before the cancel callback arrived', async () => {
+    await orderService.confirmPaidOrder(1);
+    vendorOrderUpdate.mockClear();
+
+    await orderService.handlePaymentCancel(1);
+    await orderService.esewaFailed(1);
+
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.PAID, status: OrderStatus.CONFIRMED });
+    expect(db.reservations[0].status).toBe(ReservationStatus.COMMITTED);
+    expect(vendorOrderUpdate).not.toHaveBeenCalled();
+  });
+
+  it('does not cancel a paid order when a late payment verification fails', async () => {
+    db.order.paymentStatus = PaymentStatus.PAID;
+    db.order.status = OrderStatus.CONFIRMED;
+    ((orderService as any).paymentService.verifyPayment as jest.Mock).mockResolvedValue(false);
+
+    const order = await orderService.verifyPayment(1, 'TXN-1', {});
+
+    expect(order.status).toBe(OrderStatus.CONFIRMED);
+    expect(db.order).toMatchObject({ paymentStatus: PaymentStatus.PAID, status: OrderStatus.CONFIRMED });
+    expect(vendorOrderUpdate).not.toHaveBeenCalled();
+  });
+
+  it('does not cancel a cash on delivery order through the payment cancel callback', async () => {
+    db.order = { id: 1, paymentMethod: PaymentMethod.CASH_ON_DELIVERY, paymentStatus: PaymentStatus.UNPAID, status: OrderStatus.CONFIRMED };
+
+    await orderService.handlePaymentCancel(1);
+
+    expect(db.order.status).toBe(OrderStatus.CONFIRMED);
+    expect(db.reservations[0].status).toBe(ReservationStatus.ACTIVE);
+  });
+});
@@ -0,0 +1,93 @@
+import { OrderService } from '../../service/order.service';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../../entities/order.entity';
+import { Promo } from '../../entities/promo.entity';
+import { PromoRedemption } from '../../entities/promoRedemption.entity';
+import { IPromoEvaluation } from '../../interface/promo.interface';
+import AppDataSource from '../../config/db.config';
+import { matchesWhere } from '../helpers/findOptions';
+
+jest.mock('../../service/cart.service');
+jest.mock('../../service/payment.service');
+jest.mock('../../service/vendor.service');
+jest.mock('../../service/deal.service');
+jest.mock('../../service/shipping.service');
+jest.mock('../../service/invoice.service');
+jest.mock('../../services/notification/NotificationDispatcher');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+    getTreeRepository: jest.fn(),
+  },
+}));
+
+describe('OrderService - promo redemption on new orders', () => {
+  let orderService: OrderService;
+  let orders: Partial<Order>[];
+  let redemptions: Partial<PromoRedemption>[];
+
+  const promo = { id: 1, promoCode: 'WELCOME', isValid: true, firstOrderOnly: true } as Promo;
+  const evaluation: IPromoEvaluation = { promo, discountAmount: 100, eligibleSubtotal: 1000 };
+
+  const newOrder = (paymentMethod: PaymentMethod) => ({
+    orderedById: 5,
+    paymentMethod,
+    paymentStatus: PaymentStatus.UNPAID,
+    status: paymentMethod === PaymentMethod.CASH_ON_DELIVERY ? OrderStatus.CONFIRMED : OrderStatus.PENDING,
+    orderItems: [],
+  }) as unknown as Order;
+
+  const saveNewOrder = (order: Order) => (orderService as any).saveNewOrder(order, evaluation);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    orders = [];
+    redemptions = [];
+
+    const manager: any = {
+      findOne: async (entity: any) => (entity === Promo ? { ...promo } : null),
+      count: async (_entity: any, { where }: { where: Record<string, unknown> }) => orders.filter((row) => matchesWhere(row, where)).length,
+      create: (_entity: any, data: any) => ({ ...data }),
+      save: async (row: any) => {
+        if ('promoId' in row) {
+          redemptions.push(row);
+        } else {
+          row.id = orders.length + 1;
+          orders.push(row);
+        }
+        return row;
+      },
+    };
+
+    (AppDataSource.transaction as jest.Mock).mockImplementation(async (callback) => callback(manager));
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({});
+    (AppDataSource.getTreeRepository as jest.Mock).mockReturnValue({});
+
+    orderService = new OrderService();
+  });
+
+  it('redeems a first-order promo on a cash on delivery order, which is saved confirmed', async () => {
+    const saved = await saveNewOrder(newOrder(PaymentMethod.CASH_ON_DELIVERY));
+
+    expect(saved.status).toBe(OrderStatus.CONFIRMED);
+    expect(redemptions).toEqual([expect.objectContaining({ promoId: 1, userId: 5, orderId: saved.id, discountAmount: 100 })]);
+  });
+
+  it('redeems a first-order promo on an online payment order', async () => {
+    await saveNewOrder(newOrder(PaymentMethod.ESEWA));
+
+    expect(redemptions).toHaveLength(1);
+  });
+
+  it('rejects a first-order promo once the customer has an earlier order', async () => {
+    orders = [{ id: 1, orderedById: 5, status: OrderStatus.DELIVERED }];
+
+    await expect(saveNewOrder(newOrder(PaymentMethod.CASH_ON_DELIVERY))).rejects.toMatchObject({
+      status: 400,
+      message: 'Promo code is only valid on your first order',
+    });
+    expect(redemptions).toHaveLength(0);
+  });
+});
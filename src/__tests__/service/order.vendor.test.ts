@@ -0,0 +1,50 @@
+import { OrderService } from '../../service/order.service';
+import { CartItem } from '../../entities/cartItem.entity';
+import { VendorStatus } from '../../entities/vendorKyc.enum';
+import AppDataSource from '../../config/db.config';
+
+jest.mock('../../service/cart.service');
+jest.mock('../../service/payment.service');
+jest.mock('../../service/vendor.service');
+jest.mock('../../service/deal.service');
+jest.mock('../../service/shipping.service');
+jest.mock('../../service/invoice.service');
+jest.mock('../../services/notification/NotificationDispatcher');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+    getTreeRepository: jest.fn(),
+  },
+}));
+
+describe('OrderService - vendor status on new orders', () => {
+  let orderService: OrderService;
+
+  const item = (name: string, status: VendorStatus) => ({
+    quantity: 1,
+    product: { id: 1, name, vendor: { id: 10, status } },
+  }) as unknown as CartItem;
+
+  const validateVendors = (items: CartItem[]) => (orderService as any).validateVendors(items);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({});
+    (AppDataSource.getTreeRepository as jest.Mock).mockReturnValue({});
+
+    orderService = new OrderService();
+  });
+
+  it('accepts items of approved vendors', () => {
+    expect(() => validateVendors([item('Kettle', VendorStatus.APPROVED), item('Toaster', VendorStatus.APPROVED)])).not.toThrow();
+  });
+
+  it.each([VendorStatus.SUSPENDED, VendorStatus.PENDING])('rejects an item of a %s vendor left in the cart', (status) => {
+    expect(() => validateVendors([item('Kettle', VendorStatus.APPROVED), item('Toaster', status)])).toThrow(
+      expect.objectContaining({ status: 400, message: 'Toaster is not available from its vendor right now' }),
+    );
+  });
+});
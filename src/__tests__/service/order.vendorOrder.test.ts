@@ -0,0 +1,114 @@
+import { OrderService } from '../../service/order.service';
+import { Order, OrderStatus, PaymentMethod, PaymentStatus } from '../../entities/order.entity';
+import { VendorOrder, VendorOrderStatus } from '../../entities/vendorOrder.entity';
+import AppDataSource from '../../config/db.config';
+
+jest.mock('../../service/cart.service');
+jest.mock('../../service/payment.service');
+jest.mock('../../service/vendor.service');
+jest.mock('../../service/deal.service');
+jest.mock('../../service/shipping.service');
+jest.mock('../../service/invoice.service');
+jest.mock('../../services/notification/NotificationDispatcher');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+    getTreeRepository: jest.fn(),
+  },
+}));
+
+describe('OrderService - parent status derived from vendor sub-orders', () => {
+  let orderService: OrderService;
+  let order: Partial<Order>;
+  let vendorOrders: Partial<VendorOrder>[];
+
+  const vendorOrder = (vendorId: number, status: VendorOrderStatus) => ({ id: vendorId, orderId: 1, vendorId, status });
+
+  const update = (vendorId: number, status: VendorOrderStatus) =>
+    orderService.updateVendorOrderStatus(vendorId, 1, { status } as any);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    order = {
+      id: 1,
+      status: OrderStatus.CONFIRMED,
+      paymentMethod: PaymentMethod.CASH_ON_DELIVERY,
+      paymentStatus: PaymentStatus.UNPAID,
+      orderedBy: { id: 5, email: 'customer@example.com' } as any,
+    };
+    vendorOrders = [vendorOrder(10, VendorOrderStatus.CONFIRMED), vendorOrder(20, VendorOrderStatus.CONFIRMED)];
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === VendorOrder) {
+        return {
+          findOne: async ({ where }: any) => vendorOrders.find((row) => row.vendorId === where.vendorId) ?? null,
+          save: async (row: any) => row,
+        };
+      }
+      if (entity === Order) {
+        return {
+          findOne: async () => ({ ...order, vendorOrders }),
+          save: async (row: any) => Object.assign(order, row),
+        };
+      }
+      return {};
+    });
+    (AppDataSource.getTreeRepository as jest.Mock).mockReturnValue({});
+
+    orderService = new OrderService();
+    jest.spyOn(orderService as any, 'getVendorOrderDetails').mockResolvedValue({});
+  });
+
+  it('delays the order with a delayed share, then ships it with the first share that leaves a vendor', async () => {
+    await update(10, VendorOrderStatus.DELAYED);
+    expect(order.status).toBe(OrderStatus.DELAYED);
+
+    const { parentOrder } = await update(20, VendorOrderStatus.SHIPPED);
+    expect(parentOrder).toMatchObject({ status: OrderStatus.SHIPPED });
+    expect(vendorOrders[1].shippedAt).toBeInstanceOf(Date);
+  });
+
+  it('delivers the order and captures cash on delivery once every share is delivered', async () => {
+    vendorOrders = [vendorOrder(10, VendorOrderStatus.SHIPPED), vendorOrder(20, VendorOrderStatus.SHIPPED)];
+    order.status = OrderStatus.SHIPPED;
+
+    const first = await update(10, VendorOrderStatus.DELIVERED);
+    expect(first.parentOrder).toBeNull();
+    expect(order.status).toBe(OrderStatus.SHIPPED);
+
+    await update(20, VendorOrderStatus.DELIVERED);
+    expect(order).toMatchObject({ status: OrderStatus.DELIVERED, paymentStatus: PaymentStatus.PAID });
+    expect(order.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('ignores a cancelled share unless every share is cancelled', async () => {
+    vendorOrders = [vendorOrder(10, VendorOrderStatus.SHIPPED), vendorOrder(20, VendorOrderStatus.CONFIRMED)];
+    order.status = OrderStatus.SHIPPED;
+
+    await update(20, VendorOrderStatus.CANCELLED);
+    await update(10, VendorOrderStatus.DELIVERED);
+    expect(order.status).toBe(OrderStatus.DELIVERED);
+  });
+
+  it('cancels the order when every share is cancelled', async () => {
+    await update(10, VendorOrderStatus.CANCELLED);
+    expect(order.status).toBe(OrderStatus.CONFIRMED);
+
+    await update(20, VendorOrderStatus.CANCELLED);
+    expect(order.status).toBe(OrderStatus.CANCELLED);
+  });
+
+  it('rejects a transition the sub-order cannot make', async () => {
+    await expect(update(10, VendorOrderStatus.DELIVERED)).rejects.toMatchObject({
+      status: 400,
+      message: 'Invalid status transition from CONFIRMED to DELIVERED',
+    });
+  });
+
+  it('rejects an update from a vendor without a share in the order', async () => {
+    await expect(update(30, VendorOrderStatus.SHIPPED)).rejects.toMatchObject({ status: 404 });
+  });
+});
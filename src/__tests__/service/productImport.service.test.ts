@@ -0,0 +1,143 @@
+import { ProductImportService } from '../../service/productImport.service';
+import { ProductImportJob, ProductImportStatus } from '../../entities/productImportJob.entity';
+import { Product } from '../../entities/product.entity';
+import { Subcategory } from '../../entities/subcategory.entity';
+import { QueueService } from '../../services/queue/QueueService';
+import { PRODUCT_IMPORT } from '../../config/constants';
+import AppDataSource from '../../config/db.config';
+import { matchesWhere } from '../helpers/findOptions';
+
+jest.mock('../../service/product.service');
+jest.mock('../../services/queue/QueueService', () => ({
+  QueueService: { getInstance: jest.fn() },
+}));
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+
+const HEADER = 'ID,Name,Description,Base Price,Stock,Has Variants,Subcategory ID,Weight';
+const csv = (...rows: string[]) => ({ buffer: Buffer.from([HEADER, ...rows].join('\n')), originalname: 'products.csv' });
+
+describe('ProductImportService - product sheet import', () => {
+  let productImportService: ProductImportService;
+  let productService: { createProduct: jest.Mock; updateProduct: jest.Mock };
+  let jobs: Partial<ProductImportJob>[];
+  let addProductImportJob: jest.Mock;
+
+  const subcategory = { id: 3, category: { id: 1 } } as Subcategory;
+  const existing = { id: 7, vendorId: 10, name: 'Kettle', variants: [], subcategory } as unknown as Product;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobs = [];
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === ProductImportJob) {
+        return {
+          create: (data: any) => ({ ...data }),
+          save: async (job: any) => {
+            job.id = jobs.length + 1;
+            jobs.push(job);
+            return job;
+          },
+          update: async (where: any, changes: any) => {
+            const matched = jobs.filter((job) => matchesWhere(job, typeof where === 'number' ? { id: where } : where));
+            matched.forEach((job) => Object.assign(job, changes));
+            return { affected: matched.length };
+          },
+          findOneByOrFail: async ({ id }: { id: number }) => jobs.find((job) => job.id === id),
+        };
+      }
+      if (entity === Product) {
+        return { find: async () => [existing] };
+      }
+      if (entity === Subcategory) {
+        return { find: async () => [subcategory] };
+      }
+      return { find: async () => [] };
+    });
+
+    addProductImportJob = jest.fn().mockResolvedValue(true);
+    (QueueService.getInstance as jest.Mock).mockReturnValue({ addProductImportJob });
+
+    productImportService = new ProductImportService();
+    productService = (productImportService as any).productService;
+    productService.createProduct.mockImplementation(async () => ({ id: 8, variants: [] }));
+    productService.updateProduct.mockImplementation(async (_vendorId, _isAdmin, id) => ({ id, variants: [] }));
+  });
+
+  it('creates new products and updates existing ones when upsert is on', async () => {
+    const { report } = await productImportService.importProducts(10, csv(
+      '7,Kettle,Steel kettle,1500,4,No,3,1',
+      ',Toaster,Two slices,2500,2,No,3,2',
+    ), { dryRun: false, upsert: true });
+
+    expect(report).toMatchObject({ products: 2, created: 1, updated: 1, failed: 0 });
+    expect(productService.updateProduct).toHaveBeenCalledWith(
+      10, false, 7, expect.objectContaining({ name: 'Kettle', basePrice: '1500' }), 1, 3, expect.anything());
+    expect(productService.createProduct).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Toaster', stock: '2' }), 1, 3, 10, expect.anything());
+  });
+
+  it('reports existing products without updating them when upsert is off', async () => {
+    const { report } = await productImportService.importProducts(10, csv(
+      '7,Kettle,Steel kettle,1500,4,No,3,1',
+    ), { dryRun: false, upsert: false });
+
+    expect(report).toMatchObject({ updated: 0, failed: 1 });
+    expect(report!.results[0].errors).toEqual([
+      { row: 2, field: 'ID', message: 'Product 7 already exists; enable upsert to update it' },
+    ]);
+    expect(productService.updateProduct).not.toHaveBeenCalled();
+  });
+
+  it('validates every row on a dry run without saving any product', async () => {
+    const { report } = await productImportService.importProducts(10, csv(
+      '7,Kettle,Steel kettle,1500,4,No,3,1',
+      ',Toaster,Two slices,2500,2,No,3,2',
+      ',Blender,,abc,1,No,3,1',
+    ), { dryRun: true, upsert: true });
+
+    expect(report).toMatchObject({ dryRun: true, created: 1, updated: 1, failed: 1 });
+    expect(report!.results[2].errors).toContainEqual(expect.objectContaining({ row: 4, field: 'Base Price' }));
+    expect(productService.createProduct).not.toHaveBeenCalled();
+    expect(productService.updateProduct).not.toHaveBeenCalled();
+  });
+
+  it('queues large files on the product import queue', async () => {
+    const rows = Array.from({ length: PRODUCT_IMPORT.BACKGROUND_ROW_THRESHOLD + 1 }, (_, index) =>
+      `,Product ${index},Description,100,1,No,3,1`);
+
+    const { report, job } = await productImportService.importProducts(10, csv(...rows), { dryRun: false, upsert: false });
+
+    expect(report).toBeUndefined();
+    expect(job).toMatchObject({ id: 1, status: ProductImportStatus.PENDING });
+    expect(addProductImportJob).toHaveBeenCalledWith({ importJobId: 1 });
+    expect(productService.createProduct).not.toHaveBeenCalled();
+  });
+
+  it('runs a queued job in-process when the queue is not available', async () => {
+    addProductImportJob.mockResolvedValue(false);
+    const rows = Array.from({ length: PRODUCT_IMPORT.BACKGROUND_ROW_THRESHOLD + 1 }, (_, index) =>
+      `,Product ${index},Description,100,1,No,3,1`);
+
+    await productImportService.importProducts(10, csv(...rows), { dryRun: true, upsert: false });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(jobs[0]).toMatchObject({ status: ProductImportStatus.COMPLETED, report: expect.objectContaining({ created: rows.length }) });
+  });
+
+  it('runs a job again after its worker stopped mid-run, but not once it has finished', async () => {
+    jobs = [{ id: 1, vendorId: 10, status: ProductImportStatus.PROCESSING, totalRows: 1, dryRun: false, upsert: true, groups: [] }];
+
+    await productImportService.runJob(1);
+    expect(jobs[0].status).toBe(ProductImportStatus.COMPLETED);
+
+    const { completedAt } = jobs[0];
+    await productImportService.runJob(1);
+    expect(jobs[0].completedAt).toBe(completedAt);
+  });
+});
@@ -0,0 +1,237 @@
+import { PromoService } from '../../service/promo.service';
+import { Promo, PromoType } from '../../entities/promo.entity';
+import { PromoRedemption } from '../../entities/promoRedemption.entity';
+import { Subcategory } from '../../entities/subcategory.entity';
+import { DiscountType } from '../../entities/product.enum';
+import { IPromoLine } from '../../interface/promo.interface';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('PromoService - promo rules', () => {
+  let promoService: PromoService;
+  let promo: Partial<Promo>;
+  let redemptionCounts: { total: number; user: number };
+  let previousOrders: number;
+  let mockManager: any;
+
+  const lines: IPromoLine[] = [
+    { productId: 1, vendorId: 10, subcategoryId: 100, lineTotal: 1200 },
+    { productId: 2, vendorId: 20, subcategoryId: 200, lineTotal: 800 },
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    promo = {
+      id: 1,
+      promoCode: 'SAVE10',
+      isValid: true,
+      applyOn: PromoType.LINE_TOTAL,
+      discountType: DiscountType.PERCENTAGE,
+      discountPercentage: 10,
+      discountAmount: null,
+      maxDiscount: null,
+      minOrderValue: null,
+      usageLimit: null,
+      perUserLimit: null,
+      firstOrderOnly: false,
+      startsAt: null,
+      endsAt: null,
+      categories: [],
+      vendors: [],
+      products: [],
+    } as unknown as Partial<Promo>;
+    redemptionCounts = { total: 0, user: 0 };
+    previousOrders = 0;
+
+    // Counts redemptions for the whole promo, or for one customer once a userId filter is added
+    const redemptionQuery = () => {
+      let perUser = false;
+      return fakeQueryBuilder({
+        andWhere: (clause: string) => {
+          if (clause.includes('userId')) perUser = true;
+        },
+        getCount: async () => (perUser ? redemptionCounts.user : redemptionCounts.total),
+      });
+    };
+
+    mockManager = {
+      findOne: jest.fn(async () => ({ ...promo })),
+      count: jest.fn(async () => previousOrders),
+      create: jest.fn((entity, data) => ({ ...data })),
+      save: jest.fn(async (data) => ({ id: 3, ...data })),
+      getRepository: jest.fn((entity) => (entity === PromoRedemption ? { createQueryBuilder: redemptionQuery } : {})),
+    };
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) => {
+      if (entity === Promo) {
+        return { findOne: jest.fn(async () => ({ ...promo })), manager: mockManager };
+      }
+      if (entity === Subcategory) {
+        return { find: jest.fn(async () => [{ id: 200 }]) };
+      }
+      return {};
+    });
+
+    promoService = new PromoService();
+  });
+
+  describe('evaluatePromo', () => {
+    it('discounts a percentage of the subtotal', async () => {
+      const { discountAmount, eligibleSubtotal } = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      expect(eligibleSubtotal).toBe(2000);
+      expect(discountAmount).toBe(200);
+    });
+
+    it('caps the discount at maxDiscount', async () => {
+      promo.maxDiscount = 120;
+
+      const { discountAmount } = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      expect(discountAmount).toBe(120);
+    });
+
+    it('never discounts more than the amount it applies to', async () => {
+      promo.discountType = DiscountType.FLAT;
+      promo.discountAmount = 500;
+      promo.applyOn = PromoType.SHIPPING;
+
+      const { discountAmount } = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      expect(discountAmount).toBe(150);
+    });
+
+    it('rejects orders below the minimum spend', async () => {
+      promo.minOrderValue = 2500;
+
+      await expect(promoService.evaluatePromo('SAVE10', 5, lines, 150)).rejects.toMatchObject({
+        status: 400,
+        message: 'Promo code requires a minimum order of Rs 2500',
+      });
+    });
+
+    it('discounts only items in the promo scope', async () => {
+      promo.vendors = [{ id: 10 }] as any;
+
+      const { discountAmount, eligibleSubtotal } = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      expect(eligibleSubtotal).toBe(1200);
+      expect(discountAmount).toBe(120);
+    });
+
+    it('matches scoped categories through their subcategories', async () => {
+      promo.categories = [{ id: 7 }] as any;
+
+      const { eligibleSubtotal } = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      expect(eligibleSubtotal).toBe(800);
+    });
+
+    it('rejects a scoped promo when no item is in scope', async () => {
+      promo.products = [{ id: 99 }] as any;
+
+      await expect(promoService.evaluatePromo('SAVE10', 5, lines, 150)).rejects.toMatchObject({
+        status: 400,
+        message: 'Promo code does not apply to the items in your order',
+      });
+    });
+  });
+
+  describe('usage rules', () => {
+    it('rejects promos outside their validity window', async () => {
+      promo.startsAt = new Date(Date.now() + 60 * 60 * 1000);
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).rejects.toMatchObject({ message: 'Promo code is not active yet' });
+
+      promo.startsAt = null;
+      promo.endsAt = new Date(Date.now() - 60 * 60 * 1000);
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).rejects.toMatchObject({ message: 'Promo code has expired' });
+    });
+
+    it('enforces the total and per-customer usage limits', async () => {
+      promo.usageLimit = 100;
+      promo.perUserLimit = 1;
+
+      redemptionCounts = { total: 100, user: 0 };
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).rejects.toMatchObject({ message: 'Promo code usage limit has been reached' });
+
+      redemptionCounts = { total: 40, user: 1 };
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).rejects.toMatchObject({ message: 'You have already used this promo code' });
+
+      redemptionCounts = { total: 40, user: 0 };
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).resolves.toMatchObject({ id: 1 });
+    });
+
+    it('limits first-order promos to customers without earlier orders', async () => {
+      promo.firstOrderOnly = true;
+      previousOrders = 1;
+
+      await expect(promoService.checkPromoForUser('SAVE10', 5)).rejects.toMatchObject({
+        message: 'Promo code is only valid on your first order',
+      });
+    });
+  });
+
+  describe('recordRedemption', () => {
+    it('re-checks the usage limit under a row lock before recording', async () => {
+      promo.usageLimit = 1;
+      const evaluation = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      // Another checkout used the last redemption after this one was evaluated
+      redemptionCounts.total = 1;
+
+      await expect(promoService.recordRedemption(mockManager, evaluation, 5, 42)).rejects.toMatchObject({
+        message: 'Promo code usage limit has been reached',
+      });
+      expect(mockManager.findOne).toHaveBeenCalledWith(Promo, expect.objectContaining({ lock: { mode: 'pessimistic_write' } }));
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+
+    it('records the evaluated discount against the order', async () => {
+      const evaluation = await promoService.evaluatePromo('SAVE10', 5, lines, 150);
+
+      const redemption = await promoService.recordRedemption(mockManager, evaluation, 5, 42);
+
+      expect(redemption).toMatchObject({ promoId: 1, userId: 5, orderId: 42, discountAmount: 200 });
+    });
+  });
+
+  describe('allocateOrderDiscount', () => {
+    const orderItems = [
+      { id: 1, productId: 1, vendorId: 10, price: '600.00', quantity: 2, product: { subcategoryId: 100 } },
+      { id: 2, productId: 2, vendorId: 20, price: '800.00', quantity: 1, product: { subcategoryId: 200 } },
+      { id: 3, productId: 3, vendorId: 10, price: '400.00', quantity: 1, product: { subcategoryId: 100 } },
+    ];
+    const allocate = (discountAmount: number) => promoService.allocateOrderDiscount(42, {
+      findOne: async () => ({ orderId: 42, discountAmount: String(discountAmount), promo }),
+      find: async () => orderItems,
+    } as any);
+
+    it('splits the discount over the items by line total', async () => {
+      const discounts = await allocate(200);
+
+      expect([...discounts]).toEqual([[1, 100], [2, 66.67], [3, 33.33]]);
+    });
+
+    it('splits a scoped discount over the items in scope only', async () => {
+      promo.vendors = [{ id: 10 }] as any;
+
+      const discounts = await allocate(160);
+
+      expect([...discounts]).toEqual([[1, 120], [3, 40]]);
+    });
+
+    it('leaves items undiscounted when the promo applied to shipping', async () => {
+      promo.applyOn = PromoType.SHIPPING;
+
+      await expect(allocate(150)).resolves.toEqual(new Map());
+    });
+  });
+});
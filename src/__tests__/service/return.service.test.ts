@@ -0,0 +1,301 @@
+import { ReturnService } from '../../service/return.service';
+import { ReturnRequest, ReturnStatus } from '../../entities/returnRequest.entity';
+import { Refund, RefundStatus } from '../../entities/refund.entity';
+import { Order } from '../../entities/order.entity';
+import { PaymentService } from '../../services/payment/PaymentService';
+import { OrderService } from '../../service/order.service';
+import { PromoService } from '../../service/promo.service';
+import { APIError } from '../../utils/ApiError.utils';
+import AppDataSource from '../../config/db.config';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../service/order.service');
+jest.mock('../../service/promo.service');
+jest.mock('../../services/payment/PaymentService');
+jest.mock('../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('ReturnService', () => {
+  let returnService: ReturnService;
+  let stored: any;
+  let refunds: Partial<Refund>[];
+  let discounts: Map<number, number>;
+  let processRefund: jest.Mock;
+  let restoreStock: jest.Mock;
+
+  // Conditional updates apply to the single stored row, as Postgres would apply them atomically
+  const matches = (criteria: any) => Object.entries(criteria).every(([key, value]) => stored[key] === value);
+  const update = async (criteria: any, changes: any) => {
+    const where = typeof criteria === 'number' ? { id: criteria } : criteria;
+    if (!matches(where)) return { affected: 0 };
+    Object.assign(stored, changes);
+    return { affected: 1 };
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    stored = {
+      id: 5,
+      orderId: 1,
+      status: ReturnStatus.RECEIVED,
+      reason: 'Damaged',
+      updatedAt: new Date(),
+      items: [
+        { orderItemId: 1, price: 250, quantity: 2, orderItem: { id: 1, productId: 11, quantity: 2 } },
+        { orderItemId: 2, price: 99.995, quantity: 1, orderItem: { id: 2, productId: 12, quantity: 3 } },
+      ],
+    };
+    refunds = [];
+    discounts = new Map();
+
+    const returnRepository = {
+      findOne: jest.fn(async () => ({ ...stored, items: stored.items })),
+      update: jest.fn(update),
+      createQueryBuilder: jest.fn(() => {
+        const claim: any = {};
+        return fakeQueryBuilder({
+          set: (changes: any) => { claim.changes = changes; },
+          andWhere: (brackets: any) => {
+            // Evaluate the RECEIVED / stale REFUNDING condition through the Brackets callback
+            const conditions: any[] = [];
+            const collector: any = {
+              where: (_sql: string, params: any) => { conditions.push(params); return collector; },
+              orWhere: (_sql: string, params: any) => { conditions.push(params); return collector; },
+            };
+            brackets.whereFactory(collector);
+            claim.allowed = stored.status === conditions[0].received
+              || (stored.status === conditions[1].refunding && stored.updatedAt < conditions[1].staleBefore);
+          },
+          execute: async () => {
+            if (!claim.allowed) return { affected: 0 };
+            Object.assign(stored, claim.changes, { updatedAt: new Date() });
+            return { affected: 1 };
+          },
+        });
+      }),
+    };
+    const refundRepository = {
+      // The return's refund that has not failed, as the partial unique index allows only one
+      findOne: jest.fn(async ({ where }: any) =>
+        refunds.find((refund) => refund.returnRequestId === where.returnRequestId && refund.status !== RefundStatus.FAILED) ?? null),
+    };
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity) => {
+      if (entity === ReturnRequest) return returnRepository;
+      if (entity === Refund) return refundRepository;
+      if (entity === Order) return { findOne: async () => null };
+      return {};
+    });
+
+    // Roll the stored row back when the callback throws
+    (AppDataSource.transaction as jest.Mock).mockImplementation(async (callback) => {
+      const snapshot = { ...stored };
+      try {
+        return await callback({ update: (_entity: any, criteria: any, changes: any) => update(criteria, changes) });
+      } catch (error) {
+        stored = snapshot;
+        throw error;
+      }
+    });
+
+    processRefund = jest.fn(async (_orderId: number, amount: number) => {
+      // Let a concurrent call run while the gateway is being called
+      await new Promise((resolve) => setImmediate(resolve));
+      const refund = { id: 9, amount, status: RefundStatus.COMPLETED, returnRequestId: 5 };
+      refunds.push(refund);
+      return refund;
+    });
+    (PaymentService as jest.MockedClass<typeof PaymentService>).mockImplementation(() => ({ processRefund }) as any);
+    (PromoService as jest.MockedClass<typeof PromoService>).mockImplementation(() => ({
+      allocateOrderDiscount: async () => discounts,
+    }) as any);
+    restoreStock = jest.fn();
+    (OrderService as jest.MockedClass<typeof OrderService>).mockImplementation(() => ({ restoreStock }) as any);
+
+    returnService = new ReturnService();
+  });
+
+  describe('refundReturn', () => {
+    it('refunds the returned items and marks the request refunded', async () => {
+      const request = await returnService.refundReturn(5, 3, 'CASH-9');
+
+      expect(processRefund).toHaveBeenCalledWith(1, 600, 'Return #5: Damaged', {
+        processedById: 3,
+        reference: 'CASH-9',
+        returnRequestId: 5,
+      });
+      expect(request.status).toBe(ReturnStatus.REFUNDED);
+      expect(stored.status).toBe(ReturnStatus.REFUNDED);
+      expect(stored.refundId).toBe(9);
+    });
+
+    it("refunds the items net of their share of the order's promo discount", async () => {
+      // 60 of the promo discount fell on order item 1 (2 units), 30 on order item 2 (3 units)
+      discounts = new Map([[1, 60], [2, 30]]);
+
+      await returnService.refundReturn(5, 3);
+
+      expect(processRefund.mock.calls[0][1]).toBe(600 - 60 - 10);
+    });
+
+    it('pays out only once when two refunds of the same return race', async () => {
+      const results = await Promise.allSettled([
+        returnService.refundReturn(5, 3),
+        returnService.refundReturn(5, 4),
+      ]);
+
+      expect(processRefund).toHaveBeenCalledTimes(1);
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+      expect(rejected.reason).toBeInstanceOf(APIError);
+      expect(rejected.reason.status).toBe(409);
+    });
+
+    it('refuses a retry while a refund is in progress', async () => {
+      stored.status = ReturnStatus.REFUNDING;
+
+      await expect(returnService.refundReturn(5, 3)).rejects.toMatchObject({ status: 409 });
+      expect(processRefund).not.toHaveBeenCalled();
+    });
+
+    it('takes over a claim left behind by a stopped process', async () => {
+      stored.status = ReturnStatus.REFUNDING;
+      stored.updatedAt = new Date(Date.now() - 60 * 60 * 1000);
+
+      await returnService.refundReturn(5, 3);
+
+      expect(processRefund).toHaveBeenCalledTimes(1);
+      expect(stored.status).toBe(ReturnStatus.REFUNDED);
+    });
+
+    it('records the refund a stopped process already paid out instead of paying again', async () => {
+      stored.status = ReturnStatus.REFUNDING;
+      stored.updatedAt = new Date(Date.now() - 60 * 60 * 1000);
+      refunds = [{ id: 8, returnRequestId: 5, status: RefundStatus.COMPLETED }];
+
+      const request = await returnService.refundReturn(5, 3);
+
+      expect(processRefund).not.toHaveBeenCalled();
+      expect(request).toMatchObject({ status: ReturnStatus.REFUNDED, refundId: 8 });
+      expect(stored).toMatchObject({ status: ReturnStatus.REFUNDED, refundId: 8 });
+    });
+
+    it('refuses to take over a claim whose refund awaits reconciliation', async () => {
+      stored.status = ReturnStatus.REFUNDING;
+      stored.updatedAt = new Date(Date.now() - 60 * 60 * 1000);
+      refunds = [{ id: 8, returnRequestId: 5, status: RefundStatus.RECONCILIATION_REQUIRED }];
+
+      await expect(returnService.refundReturn(5, 3)).rejects.toMatchObject({
+        status: 409,
+        message: 'Refund #8 of this return is RECONCILIATION_REQUIRED; reconcile it with the gateway first',
+      });
+      expect(processRefund).not.toHaveBeenCalled();
+      expect(stored.status).toBe(ReturnStatus.REFUNDING);
+    });
+
+    it('releases the claim when the refund fails so it can be retried', async () => {
+      processRefund.mockImplementationOnce(async () => {
+        refunds.push({ id: 8, returnRequestId: 5, status: RefundStatus.FAILED });
+        throw new APIError(502, 'Refund failed: gateway down');
+      });
+
+      await expect(returnService.refundReturn(5, 3)).rejects.toMatchObject({ status: 502 });
+      expect(stored.status).toBe(ReturnStatus.RECEIVED);
+
+      await returnService.refundReturn(5, 3);
+      expect(stored.status).toBe(ReturnStatus.REFUNDED);
+    });
+
+    it('keeps the claim when the gateway outcome of the refund is unknown', async () => {
+      processRefund.mockImplementationOnce(async () => {
+        refunds.push({ id: 8, returnRequestId: 5, status: RefundStatus.RECONCILIATION_REQUIRED });
+        throw new APIError(502, 'Refund could not be confirmed: eSewa API error: timeout');
+      });
+
+      await expect(returnService.refundReturn(5, 3)).rejects.toMatchObject({ status: 502 });
+      expect(stored.status).toBe(ReturnStatus.REFUNDING);
+    });
+
+    it('rejects requests whose goods have not been received', async () => {
+      stored.status = ReturnStatus.APPROVED;
+
+      await expect(returnService.refundReturn(5, 3)).rejects.toMatchObject({ status: 400 });
+      expect(processRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reviewReturnRequest', () => {
+    beforeEach(() => {
+      stored.status = ReturnStatus.REQUESTED;
+    });
+
+    it('records the decision and the reviewer', async () => {
+      const request = await returnService.reviewReturnRequest(5, { status: ReturnStatus.APPROVED, note: 'Send it back' }, { vendorId: 10 });
+
+      expect(request).toMatchObject({ status: ReturnStatus.APPROVED, reviewNote: 'Send it back', reviewedByVendorId: 10 });
+      expect(stored).toMatchObject({ status: ReturnStatus.APPROVED, reviewedAt: expect.any(Date) });
+    });
+
+    it('lets only one of two concurrent reviews take effect', async () => {
+      const results = await Promise.allSettled([
+        returnService.reviewReturnRequest(5, { status: ReturnStatus.APPROVED }, { vendorId: 10 }),
+        returnService.reviewReturnRequest(5, { status: ReturnStatus.REJECTED }, { userId: 1 }),
+      ]);
+
+      expect(results[0].status).toBe('fulfilled');
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: { status: 409 } });
+      expect(stored.status).toBe(ReturnStatus.APPROVED);
+    });
+
+    it('does not review a request the customer cancelled in the meantime', async () => {
+      const results = await Promise.allSettled([
+        returnService.cancelReturnRequest(7, 5),
+        returnService.reviewReturnRequest(5, { status: ReturnStatus.APPROVED }, { vendorId: 10 }),
+      ]);
+
+      expect(results[1]).toMatchObject({ status: 'rejected', reason: { status: 409 } });
+      expect(stored.status).toBe(ReturnStatus.CANCELLED);
+    });
+  });
+
+  describe('receiveReturn', () => {
+    beforeEach(() => {
+      stored.status = ReturnStatus.APPROVED;
+    });
+
+    it('restocks the returned items in the transaction that marks the request received', async () => {
+      await returnService.receiveReturn(5, { vendorId: 10 });
+
+      expect(stored.status).toBe(ReturnStatus.RECEIVED);
+      const [items, context, manager] = restoreStock.mock.calls[0];
+      expect(items).toEqual([
+        expect.objectContaining({ productId: 11, orderId: 1, quantity: 2 }),
+        expect.objectContaining({ productId: 12, orderId: 1, quantity: 1 }),
+      ]);
+      expect(context).toMatchObject({ note: 'Return request #5' });
+      expect(manager).toBeDefined();
+    });
+
+    it('leaves the request approved when restocking fails', async () => {
+      restoreStock.mockRejectedValueOnce(new APIError(404, 'Product not found for order item ID: 2'));
+
+      await expect(returnService.receiveReturn(5, { vendorId: 10 })).rejects.toMatchObject({ status: 404 });
+      expect(stored.status).toBe(ReturnStatus.APPROVED);
+    });
+
+    it('restocks once when the goods are received twice at the same time', async () => {
+      const results = await Promise.allSettled([
+        returnService.receiveReturn(5, { vendorId: 10 }),
+        returnService.receiveReturn(5, { userId: 1 }),
+      ]);
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(restoreStock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
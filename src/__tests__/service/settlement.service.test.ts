@@ -0,0 +1,227 @@
+import { SettlementService } from '../../service/settlement.service';
+import { CommissionRate } from '../../entities/commissionRate.entity';
+import { VendorLedgerEntry } from '../../entities/vendorLedgerEntry.entity';
+import { Payout } from '../../entities/payout.entity';
+import { Vendor } from '../../entities/vendor.entity';
+import { OrderItem } from '../../entities/orderItems.entity';
+import { ReturnRequest } from '../../entities/returnRequest.entity';
+import { LedgerEntryType } from '../../entities/settlement.enum';
+import { RETURNS, SETTLEMENT } from '../../config/constants';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../config/db.config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('SettlementService', () => {
+  let settlementService: SettlementService;
+  let deliveredItems: any[];
+  let refundedReturns: any[];
+  let refundedItems: any[];
+  let commissionEntries: Partial<VendorLedgerEntry>[];
+  let rates: Partial<CommissionRate>[];
+  let ledger: Partial<VendorLedgerEntry>[];
+  let vendors: Partial<Vendor>[];
+  let payouts: Partial<Payout>[];
+
+  // Inserted ledger entries land in the in-memory ledger
+  const queryBuilder = (results: { getRawMany?: () => any[]; getMany?: () => any[] }) => fakeQueryBuilder({
+    values: (rows: Partial<VendorLedgerEntry>[]) => ledger.push(...rows.map((row) => ({ payoutId: null, ...row }))),
+    execute: async () => ({}),
+    getRawMany: async () => results.getRawMany?.() ?? [],
+    getMany: async () => results.getMany?.() ?? [],
+  });
+
+  const entriesOf = (vendorId: number) => ledger.filter((entry) => entry.vendorId === vendorId);
+
+  beforeEach(() => {
+    deliveredItems = [];
+    refundedReturns = [];
+    refundedItems = [];
+    commissionEntries = [];
+    rates = [];
+    ledger = [];
+    vendors = [];
+    payouts = [];
+
+    const manager: any = {
+      create: (_entity: any, data: any) => ({ ...data }),
+      save: async (entity: any) => {
+        if (entity.vendorId && !entity.id) {
+          Object.assign(entity, { id: payouts.length + 1 });
+          payouts.push(entity);
+        }
+        return entity;
+      },
+      // Claims open entries for a payout, like UPDATE ... WHERE "payoutId" IS NULL
+      update: async (_entity: any, criteria: any, changes: any) => {
+        ledger
+          .filter((entry) => entry.vendorId === criteria.vendorId && entry.payoutId == null && entry.availableAt! <= new Date())
+          .forEach((entry) => Object.assign(entry, changes));
+      },
+      delete: async () => ({}),
+      createQueryBuilder: () => {
+        let payoutId: number;
+        return fakeQueryBuilder({
+          where: (_clause: string, params: { payoutId: number }) => { payoutId = params.payoutId; },
+          getRawOne: async () => ({
+            amount: ledger.filter((entry) => entry.payoutId === payoutId).reduce((sum, entry) => sum + Number(entry.amount), 0),
+          }),
+        });
+      },
+    };
+
+    const dataSource: any = {
+      getRepository: (entity: any) => {
+        if (entity === OrderItem) {
+          return { createQueryBuilder: () => queryBuilder({ getRawMany: () => deliveredItems }) };
+        }
+        if (entity === ReturnRequest) {
+          return { createQueryBuilder: () => queryBuilder({ getMany: () => refundedReturns }) };
+        }
+        if (entity === CommissionRate) {
+          return { find: async () => rates };
+        }
+        if (entity === VendorLedgerEntry) {
+          return {
+            find: async () => commissionEntries,
+            createQueryBuilder: (alias?: string) => queryBuilder({
+              getRawMany: () => {
+                if (alias === 'sale') return refundedItems;
+                // Vendors whose available open balance reaches the minimum payout
+                const due = new Map<number, number>();
+                for (const entry of ledger.filter((row) => row.payoutId == null && row.availableAt! <= new Date())) {
+                  due.set(entry.vendorId!, (due.get(entry.vendorId!) ?? 0) + Number(entry.amount));
+                }
+                return [...due].filter(([, amount]) => amount >= SETTLEMENT.MIN_PAYOUT_AMOUNT).map(([vendorId]) => ({ vendorId }));
+              },
+            }),
+          };
+        }
+        if (entity === Vendor) {
+          return { find: async () => vendors };
+        }
+        return {};
+      },
+      transaction: async (callback: any) => callback(manager),
+    };
+
+    settlementService = new SettlementService(dataSource);
+  });
+
+  describe('syncLedger', () => {
+    it('credits delivered items less the most specific commission rate', async () => {
+      const deliveredAt = new Date('2025-01-10T00:00:00Z');
+      rates = [
+        { vendorId: null, categoryId: 3, rate: 12 },
+        { vendorId: 10, categoryId: 3, rate: 8 },
+        { vendorId: 20, categoryId: null, rate: 5 },
+      ];
+      deliveredItems = [
+        { id: 1, vendorId: 10, orderId: 100, price: '500.00', quantity: 2, categoryId: 3, deliveredAt },
+        { id: 2, vendorId: 20, orderId: 100, price: '300.00', quantity: 1, categoryId: 3, deliveredAt },
+        { id: 3, vendorId: 30, orderId: 100, price: '200.00', quantity: 1, categoryId: null, deliveredAt },
+      ];
+
+      const result = await settlementService.syncLedger();
+
+      expect(result).toEqual({ sales: 3, refunds: 0 });
+      expect(entriesOf(10)).toEqual([
+        expect.objectContaining({ type: LedgerEntryType.SALE, amount: 1000, orderItemId: 1 }),
+        expect.objectContaining({ type: LedgerEntryType.COMMISSION, amount: -80, commissionRate: 8 }),
+      ]);
+      expect(entriesOf(20)[1]).toMatchObject({ amount: -15, commissionRate: 5 });
+      expect(entriesOf(30)[1]).toMatchObject({ amount: -(200 * SETTLEMENT.DEFAULT_COMMISSION_RATE / 100) });
+      expect(entriesOf(10)[0].availableAt).toEqual(new Date(deliveredAt.getTime() + RETURNS.WINDOW_DAYS * DAY_MS));
+    });
+
+    it('debits a refunded return and gives back the commission charged on the sale', async () => {
+      refundedReturns = [{
+        id: 4,
+        vendorId: 10,
+        orderId: 100,
+        items: [
+          { orderItemId: 1, price: '500.00', quantity: 1 },
+          { orderItemId: 2, price: '100.00', quantity: 2 },
+        ],
+      }];
+      commissionEntries = [
+        { orderItemId: 1, commissionRate: 8 },
+        { orderItemId: 2, commissionRate: 15 },
+      ];
+
+      const result = await settlementService.syncLedger();
+
+      expect(result).toEqual({ sales: 0, refunds: 1 });
+      expect(entriesOf(10)).toEqual([
+        expect.objectContaining({ type: LedgerEntryType.REFUND, amount: -700, returnRequestId: 4 }),
+        expect.objectContaining({ type: LedgerEntryType.COMMISSION_REFUND, amount: 70, returnRequestId: 4 }),
+      ]);
+    });
+
+    it('debits a refund made outside the returns flow from each vendor by its share of the order', async () => {
+      // Half of a 1200 order refunded: every credited item bears half of its sale
+      const refund = { refundId: 7, orderId: 100, refundAmount: '600.00', orderTotal: '1200.00' };
+      refundedItems = [
+        { ...refund, vendorId: 10, saleAmount: '800.00', commissionRate: '10.00' },
+        { ...refund, vendorId: 10, saleAmount: '200.00', commissionRate: '20.00' },
+        { ...refund, vendorId: 20, saleAmount: '150.00', commissionRate: null },
+      ];
+
+      const result = await settlementService.syncLedger();
+
+      expect(result).toEqual({ sales: 0, refunds: 1 });
+      expect(entriesOf(10)).toEqual([
+        expect.objectContaining({ type: LedgerEntryType.REFUND, amount: -500, refundId: 7, orderId: 100 }),
+        expect.objectContaining({ type: LedgerEntryType.COMMISSION_REFUND, amount: 60, refundId: 7 }),
+      ]);
+      expect(entriesOf(20)).toEqual([
+        expect.objectContaining({ type: LedgerEntryType.REFUND, amount: -75, refundId: 7 }),
+        expect.objectContaining({ type: LedgerEntryType.COMMISSION_REFUND, amount: 75 * SETTLEMENT.DEFAULT_COMMISSION_RATE / 100 }),
+      ]);
+    });
+
+    it('never debits more than a vendor was credited', async () => {
+      refundedItems = [{ refundId: 8, orderId: 101, refundAmount: '1300.00', orderTotal: '1200.00', vendorId: 10, saleAmount: '1000.00', commissionRate: '10.00' }];
+
+      await settlementService.syncLedger();
+
+      expect(entriesOf(10).map((entry) => entry.amount)).toEqual([-1000, 100]);
+    });
+  });
+
+  describe('generatePayoutBatch', () => {
+    const past = new Date(Date.now() - DAY_MS);
+    const future = new Date(Date.now() + DAY_MS);
+    const bankDetails = { accountName: 'Shop', bankName: 'Bank', accountNumber: '0011' };
+
+    it('settles available balances net of commission and refunds, holding entries still in the return window', async () => {
+      ledger = [
+        { vendorId: 10, type: LedgerEntryType.SALE, amount: 1000, availableAt: past, payoutId: null },
+        { vendorId: 10, type: LedgerEntryType.COMMISSION, amount: -100, availableAt: past, payoutId: null },
+        { vendorId: 10, type: LedgerEntryType.REFUND, amount: -200, availableAt: past, payoutId: null },
+        { vendorId: 10, type: LedgerEntryType.COMMISSION_REFUND, amount: 20, availableAt: past, payoutId: null },
+        { vendorId: 10, type: LedgerEntryType.SALE, amount: 400, availableAt: future, payoutId: null },
+      ];
+      vendors = [{ id: 10, ...bankDetails }];
+
+      const batch = await settlementService.generatePayoutBatch();
+
+      expect(batch).toMatchObject({ totalAmount: 720, payoutCount: 1 });
+      expect(payouts).toEqual([expect.objectContaining({ vendorId: 10, amount: 720, accountNumber: '0011' })]);
+      expect(ledger.filter((entry) => entry.payoutId == null)).toEqual([expect.objectContaining({ amount: 400 })]);
+    });
+
+    it('carries over balances below the minimum and of vendors without bank details', async () => {
+      ledger = [
+        { vendorId: 10, type: LedgerEntryType.SALE, amount: SETTLEMENT.MIN_PAYOUT_AMOUNT - 1, availableAt: past, payoutId: null },
+        { vendorId: 20, type: LedgerEntryType.SALE, amount: SETTLEMENT.MIN_PAYOUT_AMOUNT + 1, availableAt: past, payoutId: null },
+      ];
+      vendors = [{ id: 20, accountName: 'Shop', bankName: null as any, accountNumber: '0022' }];
+
+      await expect(settlementService.generatePayoutBatch()).resolves.toBeNull();
+      expect(payouts).toHaveLength(0);
+    });
+  });
+});
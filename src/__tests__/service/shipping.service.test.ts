@@ -0,0 +1,129 @@
+import { ShippingService } from '../../service/shipping.service';
+import { ShippingZone } from '../../entities/shippingZone.entity';
+import { ShippingVendorRate } from '../../entities/shippingVendorRate.entity';
+import { Province } from '../../entities/address.entity';
+import { IShippingLine } from '../../interface/shipping.interface';
+import { SHIPPING } from '../../config/constants';
+
+jest.mock('../../config/db.config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+
+describe('ShippingService - calculateQuote', () => {
+  let shippingService: ShippingService;
+  let zones: Partial<ShippingZone>[];
+  let overrides: Partial<ShippingVendorRate>[];
+
+  const valley = {
+    id: 1,
+    name: 'Kathmandu Valley',
+    districts: [{ name: 'Kathmandu' }, { name: 'Lalitpur' }, { name: 'Bhaktapur' }],
+    provinces: [],
+    baseFee: 150,
+    localFee: 80,
+    perKgFee: 0,
+    perItemFee: 0,
+    freeShippingThreshold: null,
+    isActive: true,
+  } as unknown as ShippingZone;
+
+  const line = (vendorId: number, vendorDistrict: string, fields: Partial<IShippingLine> = {}): IShippingLine =>
+    ({ vendorId, vendorDistrict, unitPrice: 500, quantity: 1, weight: 0, ...fields });
+
+  beforeEach(() => {
+    zones = [valley];
+    overrides = [];
+
+    const dataSource: any = {
+      getRepository: (entity: any) => {
+        if (entity === ShippingZone) return { find: async () => zones };
+        if (entity === ShippingVendorRate) {
+          return { find: async () => overrides };
+        }
+        return {};
+      },
+    };
+    shippingService = new ShippingService(dataSource);
+  });
+
+  it('charges the local fee when the vendor ships from inside the destination zone', async () => {
+    const quote = await shippingService.calculateQuote({ district: 'Lalitpur' }, [line(1, 'Kathmandu')]);
+
+    expect(quote.shippingFee).toBe(80);
+    expect(quote.vendors[0]).toMatchObject({ zoneId: 1, isLocal: true, baseFee: 80 });
+  });
+
+  it('charges the zone base fee when the vendor ships from outside the zone', async () => {
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [line(1, 'Kaski')]);
+
+    expect(quote.shippingFee).toBe(150);
+    expect(quote.vendors[0]).toMatchObject({ isLocal: false, baseFee: 150 });
+  });
+
+  it('matches the zone by province when the district is not listed', async () => {
+    zones = [{ ...valley, id: 2, name: 'Gandaki', districts: [], provinces: [Province.GANDAKI], baseFee: 250 }];
+
+    const quote = await shippingService.calculateQuote({ district: 'Syangja', province: Province.GANDAKI }, [line(1, 'Kathmandu')]);
+
+    expect(quote.vendors[0]).toMatchObject({ zoneId: 2, fee: 250 });
+  });
+
+  it('falls back to the default fees outside every zone', async () => {
+    const quote = await shippingService.calculateQuote({ district: 'Jhapa' }, [line(1, 'Jhapa'), line(2, 'Morang')]);
+
+    expect(quote.vendors.map((vendor) => vendor.fee)).toEqual([SHIPPING.DEFAULT_LOCAL_FEE, SHIPPING.DEFAULT_FEE]);
+  });
+
+  it('adds weight and item surcharges to the base fee', async () => {
+    zones = [{ ...valley, perKgFee: 20, perItemFee: 10 }];
+
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [line(1, 'Kaski', { quantity: 3, weight: 1.5 })]);
+
+    expect(quote.vendors[0]).toMatchObject({ baseFee: 150, weightSurcharge: 90, itemSurcharge: 20, fee: 260 });
+  });
+
+  it('prefers the vendor override for the zone over the vendor-wide override', async () => {
+    overrides = [
+      { vendorId: 1, zoneId: null, baseFee: 300, localFee: null, perKgFee: null, perItemFee: null, freeShippingThreshold: 1000 },
+      { vendorId: 1, zoneId: 1, baseFee: 120, localFee: null, perKgFee: null, perItemFee: null, freeShippingThreshold: null },
+    ];
+
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [line(1, 'Kaski')]);
+
+    expect(quote.vendors[0]).toMatchObject({ baseFee: 120, freeShippingThreshold: 1000, fee: 120 });
+  });
+
+  it('ships free once the vendor subtotal reaches the threshold', async () => {
+    zones = [{ ...valley, freeShippingThreshold: 1000 }];
+
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [line(1, 'Kaski', { quantity: 2 })]);
+
+    expect(quote.vendors[0]).toMatchObject({ subtotal: 1000, freeShippingApplied: true, fee: 0 });
+  });
+
+  it('charges the base fee once for vendors in the same district', async () => {
+    zones = [{ ...valley, perItemFee: 10 }];
+    overrides = [{ vendorId: 2, zoneId: null, baseFee: 180, localFee: null, perKgFee: null, perItemFee: null, freeShippingThreshold: null }];
+
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [
+      line(1, 'Kaski', { quantity: 2 }),
+      line(2, 'kaski'),
+      line(3, 'Chitwan'),
+    ]);
+
+    expect(quote.vendors.map(({ vendorId, baseFee, fee }) => ({ vendorId, baseFee, fee }))).toEqual([
+      { vendorId: 1, baseFee: 0, fee: 10 },
+      { vendorId: 2, baseFee: 180, fee: 180 },
+      { vendorId: 3, baseFee: 150, fee: 150 },
+    ]);
+    expect(quote.shippingFee).toBe(340);
+  });
+
+  it('charges the district base fee on a vendor that does not ship free', async () => {
+    overrides = [{ vendorId: 1, zoneId: null, baseFee: 200, localFee: null, perKgFee: null, perItemFee: null, freeShippingThreshold: 500 }];
+
+    const quote = await shippingService.calculateQuote({ district: 'Kathmandu' }, [line(1, 'Kaski'), line(2, 'Kaski')]);
+
+    expect(quote.vendors.map((vendor) => vendor.fee)).toEqual([0, 150]);
+    expect(quote.shippingFee).toBe(150);
+  });
+});
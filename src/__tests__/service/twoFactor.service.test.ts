@@ -0,0 +1,204 @@
+import bcrypt from 'bcryptjs';
+import { createHash } from 'crypto';
+import { TwoFactorService } from '../../service/twoFactor.service';
+import { TwoFactorAuth } from '../../entities/twoFactorAuth.entity';
+import { TwoFactorChallenge } from '../../entities/twoFactorChallenge.entity';
+import { User } from '../../entities/user.entity';
+import { Vendor } from '../../entities/vendor.entity';
+import { hotp, totpStep } from '../../utils/totp.utils';
+import { TWO_FACTOR } from '../../config/constants';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+jest.mock('../../services/email/EmailService');
+jest.mock('../../config/db.config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+
+const SECRET = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP';
+const hashRecoveryCode = (code: string) => createHash('sha256').update(code.replace(/[^A-Z2-7]/g, '')).digest('hex');
+
+describe('TwoFactorService - second factor', () => {
+  let twoFactorService: TwoFactorService;
+  let stored: Partial<TwoFactorAuth>;
+  let usedChallenges: Map<string, Date>;
+
+  const vendor = Object.assign(new Vendor(), { id: 10, email: 'vendor@example.com' });
+  const session = { kind: 'vendor' } as any;
+
+  // UPDATE two_factor_auth ... WHERE id = :id AND <code still unused> RETURNING ..., applied atomically like Postgres
+  const updateQuery = () => {
+    let changes: Record<string, any> = {};
+    const params: Record<string, any> = {};
+    const addParams = (_clause: string, parameters: Record<string, any>) => Object.assign(params, parameters);
+
+    return fakeQueryBuilder({
+      set: (values: Record<string, any>) => { changes = values; },
+      where: addParams,
+      andWhere: addParams,
+      execute: async () => {
+        if ('step' in params && !(stored.lastUsedStep == null || stored.lastUsedStep < params.step)) return { affected: 0, raw: [] };
+        if ('hash' in params && !stored.recoveryCodes!.includes(params.hash)) return { affected: 0, raw: [] };
+        if ('emailCode' in params && stored.emailCode !== params.emailCode) return { affected: 0, raw: [] };
+        if ('max' in params && stored.failedAttempts! < params.max) return { affected: 0, raw: [] };
+
+        const { recoveryCodes, failedAttempts, ...rest } = changes;
+        Object.assign(stored, rest);
+        if (recoveryCodes) stored.recoveryCodes = stored.recoveryCodes!.filter((code) => code !== params.hash);
+        if (failedAttempts !== undefined) {
+          stored.failedAttempts = typeof failedAttempts === 'function' ? stored.failedAttempts! + 1 : failedAttempts;
+        }
+        return { affected: 1, raw: [{ failedAttempts: stored.failedAttempts }] };
+      },
+    });
+  };
+
+  // INSERT INTO two_factor_challenges ... ON CONFLICT DO NOTHING RETURNING jti
+  const challengeInsert = () => {
+    let row: { jti: string; expiresAt: Date };
+
+    return fakeQueryBuilder({
+      values: (values: { jti: string; expiresAt: Date }) => { row = values; },
+      execute: async () => {
+        if (usedChallenges.has(row.jti)) return { raw: [] };
+        usedChallenges.set(row.jti, row.expiresAt);
+        return { raw: [{ jti: row.jti }] };
+      },
+    });
+  };
+
+  const challenge = async () => (await twoFactorService.createLoginChallenge(vendor, session))!.challengeToken;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usedChallenges = new Map();
+
+    const dataSource: any = {
+      getRepository: (entity: any) => {
+        if (entity === TwoFactorAuth) {
+          return {
+            // Yield before reading so concurrent requests all see the row before either updates it
+            findOne: async () => {
+              await new Promise((resolve) => setImmediate(resolve));
+              return { ...stored, recoveryCodes: [...stored.recoveryCodes!] };
+            },
+            update: async (_id: number, changes: Partial<TwoFactorAuth>) => Object.assign(stored, changes),
+            createQueryBuilder: updateQuery,
+          };
+        }
+        if (entity === TwoFactorChallenge) {
+          return {
+            existsBy: async ({ jti }: { jti: string }) => usedChallenges.has(jti),
+            delete: async () => ({ affected: 0 }),
+            createQueryBuilder: challengeInsert,
+          };
+        }
+        if (entity === Vendor) {
+          return { findOneBy: async () => vendor };
+        }
+        if (entity === User) {
+          return { findOneBy: async () => null };
+        }
+        return {};
+      },
+    };
+
+    twoFactorService = new TwoFactorService(dataSource);
+    stored = {
+      id: 1,
+      vendorId: 10,
+      secret: (twoFactorService as any).encrypt(SECRET),
+      enabledAt: new Date(),
+      lastUsedStep: null,
+      recoveryCodes: [hashRecoveryCode('AAAAA-BBBBB'), hashRecoveryCode('CCCCC-DDDDD')],
+      emailCode: null,
+      emailCodeExpire: null,
+      failedAttempts: 0,
+      lockedUntil: null,
+    };
+  });
+
+  it('completes a login with an app code', async () => {
+    const code = hotp(SECRET, totpStep());
+
+    await expect(twoFactorService.completeLogin(await challenge(), { method: 'totp', code })).resolves.toMatchObject({ account: vendor });
+    expect(stored.lastUsedStep).toBe(totpStep());
+  });
+
+  it('accepts an app code once when it is submitted twice at the same time', async () => {
+    const code = hotp(SECRET, totpStep());
+
+    const results = await Promise.allSettled([
+      twoFactorService.completeLogin(await challenge(), { method: 'totp', code }),
+      twoFactorService.completeLogin(await challenge(), { method: 'totp', code }),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: { status: 401 } });
+  });
+
+  it('consumes a recovery code once when it is submitted twice at the same time', async () => {
+    const results = await Promise.allSettled([
+      twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'aaaaa-bbbbb' }),
+      twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'AAAAA-BBBBB' }),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(stored.recoveryCodes).toEqual([hashRecoveryCode('CCCCC-DDDDD')]);
+  });
+
+  it('consumes an emailed code once when it is submitted twice at the same time', async () => {
+    stored.emailCode = await bcrypt.hash('123456', 4);
+    stored.emailCodeExpire = new Date(Date.now() + 60 * 1000);
+
+    const results = await Promise.allSettled([
+      twoFactorService.completeLogin(await challenge(), { method: 'email', code: '123456' }),
+      twoFactorService.completeLogin(await challenge(), { method: 'email', code: '123456' }),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(stored.emailCode).toBeNull();
+  });
+
+  it('counts wrong codes towards the lock', async () => {
+    await expect(twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'EEEEE-FFFFF' }))
+      .rejects.toMatchObject({ status: 401, message: 'Invalid verification code' });
+    expect(stored.failedAttempts).toBe(1);
+    expect(stored.recoveryCodes).toHaveLength(2);
+  });
+
+  it('locks the second step when the last allowed wrong codes are submitted at the same time', async () => {
+    stored.failedAttempts = TWO_FACTOR.MAX_FAILED_ATTEMPTS - 2;
+
+    const results = await Promise.allSettled([
+      twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'EEEEE-FFFFF' }),
+      twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'GGGGG-HHHHH' }),
+    ]);
+
+    expect(results.every((result) => result.status === 'rejected')).toBe(true);
+    expect(stored.lockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(stored.failedAttempts).toBe(0);
+    await expect(twoFactorService.completeLogin(await challenge(), { method: 'recovery', code: 'AAAAA-BBBBB' }))
+      .rejects.toMatchObject({ status: 429 });
+  });
+
+  it('completes a single login per challenge token', async () => {
+    const challengeToken = await challenge();
+
+    await twoFactorService.completeLogin(challengeToken, { method: 'recovery', code: 'AAAAA-BBBBB' });
+
+    await expect(twoFactorService.completeLogin(challengeToken, { method: 'recovery', code: 'CCCCC-DDDDD' }))
+      .rejects.toMatchObject({ status: 401, message: 'Login session expired, please log in again' });
+    expect(stored.recoveryCodes).toEqual([hashRecoveryCode('CCCCC-DDDDD')]);
+  });
+
+  it('lets only one of concurrent logins with the same challenge token through', async () => {
+    const challengeToken = await challenge();
+
+    const results = await Promise.allSettled([
+      twoFactorService.completeLogin(challengeToken, { method: 'recovery', code: 'AAAAA-BBBBB' }),
+      twoFactorService.completeLogin(challengeToken, { method: 'recovery', code: 'CCCCC-DDDDD' }),
+    ]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+    expect(usedChallenges.size).toBe(1);
+  });
+});
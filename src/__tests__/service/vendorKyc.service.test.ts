@@ -0,0 +1,99 @@
+import { VendorKycService } from '../../service/vendorKyc.service';
+import { Vendor } from '../../entities/vendor.entity';
+import { VendorKycDocument } from '../../entities/vendorKycDocument.entity';
+import { VendorKycAudit } from '../../entities/vendorKycAudit.entity';
+import { KycAuditAction, KycDocumentStatus, KycDocumentType, VendorStatus } from '../../entities/vendorKyc.enum';
+
+jest.mock('../../services/cache/CacheService');
+jest.mock('../../utils/nodemailer.utils');
+jest.mock('../../config/db.config', () => ({ __esModule: true, default: {} }));
+jest.mock('../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+
+describe('VendorKycService - vendor approval', () => {
+  let vendorKycService: VendorKycService;
+  let vendor: Partial<Vendor>;
+  let documents: Partial<VendorKycDocument>[];
+  let audits: Partial<VendorKycAudit>[];
+
+  const document = (type: KycDocumentType, status = KycDocumentStatus.APPROVED) => ({ vendorId: 10, type, status });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    vendor = { id: 10, email: 'vendor@example.com', isVerified: true, isApproved: false, status: VendorStatus.PENDING };
+    documents = [document(KycDocumentType.TAX), document(KycDocumentType.CHEQUE)];
+    audits = [];
+
+    const manager: any = {
+      update: async (_entity: any, _id: number, changes: Partial<Vendor>) => Object.assign(vendor, changes),
+      insert: async (_entity: any, audit: Partial<VendorKycAudit>) => audits.push(audit),
+    };
+    const dataSource: any = {
+      getRepository: (entity: any) => {
+        if (entity === Vendor) return { findOne: async () => ({ ...vendor }) };
+        if (entity === VendorKycDocument) return { find: async () => documents };
+        return {};
+      },
+      transaction: async (callback: (manager: any) => Promise<void>) => callback(manager),
+    };
+
+    vendorKycService = new VendorKycService(dataSource);
+  });
+
+  it('approves a verified vendor once all their documents are approved', async () => {
+    await vendorKycService.approveVendor(10, 1);
+
+    expect(vendor).toMatchObject({ status: VendorStatus.APPROVED, isApproved: true });
+    expect(audits).toEqual([expect.objectContaining({ vendorId: 10, action: KycAuditAction.VENDOR_APPROVED, actorId: 1 })]);
+  });
+
+  it('does not approve a vendor whose email is not verified', async () => {
+    vendor.isVerified = false;
+
+    await expect(vendorKycService.approveVendor(10, 1)).rejects.toMatchObject({ status: 400, message: 'Vendor must be verified' });
+    expect(vendor.status).toBe(VendorStatus.PENDING);
+  });
+
+  it('does not approve a vendor with a required document missing', async () => {
+    documents = [document(KycDocumentType.TAX)];
+
+    await expect(vendorKycService.approveVendor(10, 1)).rejects.toMatchObject({
+      status: 400,
+      message: 'Documents not submitted: Cheque photo',
+    });
+    expect(vendor.isApproved).toBe(false);
+  });
+
+  it('does not approve a vendor with a document still pending or rejected', async () => {
+    documents = [
+      document(KycDocumentType.TAX, KycDocumentStatus.REJECTED),
+      document(KycDocumentType.CHEQUE),
+      document(KycDocumentType.CITIZENSHIP, KycDocumentStatus.PENDING),
+    ];
+
+    await expect(vendorKycService.approveVendor(10, 1)).rejects.toMatchObject({
+      status: 400,
+      message: 'Documents not approved yet: Tax documents, Citizenship documents',
+    });
+    expect(audits).toHaveLength(0);
+  });
+
+  it('does not approve a suspended vendor, who has to be reinstated', async () => {
+    vendor.status = VendorStatus.SUSPENDED;
+
+    await expect(vendorKycService.approveVendor(10, 1)).rejects.toMatchObject({
+      status: 400,
+      message: 'Vendor is suspended; reinstate them instead',
+    });
+  });
+
+  it('only suspends approved vendors', async () => {
+    await expect(vendorKycService.suspendVendor(10, 1, 'Fake listings')).rejects.toMatchObject({
+      status: 400,
+      message: 'Only approved vendors can be suspended',
+    });
+
+    vendor.status = VendorStatus.APPROVED;
+    await vendorKycService.suspendVendor(10, 1, 'Fake listings');
+    expect(vendor).toMatchObject({ status: VendorStatus.SUSPENDED, isApproved: false, suspensionReason: 'Fake listings' });
+  });
+});
@@ -0,0 +1,45 @@
+import { PriceHelper } from '../../utils/helpers/PriceHelper';
+import { Product } from '../../entities/product.entity';
+import { Variant } from '../../entities/variant.entity';
+import { DiscountType } from '../../entities/product.enum';
+import { Deal, DealStatus } from '../../entities/deal.entity';
+
+const product = (fields: Partial<Product> = {}) =>
+  ({ basePrice: 1000, discount: 0, discountType: DiscountType.PERCENTAGE, ...fields }) as Product;
+
+const variant = (fields: Partial<Variant> = {}) =>
+  ({ basePrice: 800, discount: 0, discountType: DiscountType.PERCENTAGE, ...fields }) as Variant;
+
+const liveDeal = { discountPercentage: 10, status: DealStatus.ENABLED, startsAt: null, endsAt: null } as unknown as Deal;
+
+describe('PriceHelper.getUnitPrice', () => {
+  it('applies the percentage discount of a plain product', () => {
+    expect(PriceHelper.getUnitPrice(product({ discount: 15 }))).toBe(850);
+  });
+
+  it('applies the flat discount of a plain product', () => {
+    expect(PriceHelper.getUnitPrice(product({ discount: 120, discountType: DiscountType.FLAT }))).toBe(880);
+  });
+
+  it('applies the discount of the selected variant rather than that of the product', () => {
+    const discounted = product({ discount: 50 });
+
+    expect(PriceHelper.getUnitPrice(discounted, variant({ discount: 25 }))).toBe(600);
+    expect(PriceHelper.getUnitPrice(discounted, variant({ discount: 100, discountType: DiscountType.FLAT }))).toBe(700);
+    expect(PriceHelper.getUnitPrice(discounted, variant())).toBe(800);
+  });
+
+  it('takes a live deal off the discounted variant price', () => {
+    expect(PriceHelper.getUnitPrice(product({ deal: liveDeal }), variant({ discount: 25 }))).toBe(540);
+  });
+
+  it('ignores a deal that has not started yet', () => {
+    const scheduled = { ...liveDeal, status: DealStatus.SCHEDULED, startsAt: new Date(Date.now() + 60 * 60 * 1000) } as Deal;
+
+    expect(PriceHelper.getUnitPrice(product({ deal: scheduled }), variant({ discount: 25 }))).toBe(600);
+  });
+
+  it('never prices an item below zero', () => {
+    expect(PriceHelper.getUnitPrice(product(), variant({ discount: 900, discountType: DiscountType.FLAT }))).toBe(0);
+  });
+});
@@ -0,0 +1,115 @@
+import { ProductFilterHelper } from '../../utils/helpers/ProductFilterHelper';
+import { IProductFacetFilters, IProductQueryParams } from '../../interface/product.interface';
+import { fakeQueryBuilder } from '../helpers/queryBuilder';
+
+describe('ProductFilterHelper', () => {
+  describe('parseFacetFilters', () => {
+    const parse = (params: Partial<IProductQueryParams>) => ProductFilterHelper.parseFacetFilters({ page: 1, limit: 20, ...params });
+
+    it('lists in-stock products only unless asked otherwise', () => {
+      expect(parse({})).toEqual({
+        minPrice: undefined,
+        maxPrice: undefined,
+        minRating: undefined,
+        attributes: {},
+        inStock: true,
+        discounted: false,
+      });
+      expect(parse({ inStock: 'false' }).inStock).toBe(false);
+    });
+
+    it('parses prices, rating and lowercased attribute values', () => {
+      const filters = parse({
+        minPrice: '100',
+        maxPrice: '500',
+        minRating: '4',
+        attributes: { color: 'Red,blue', size: ['M', 'm'] },
+        discounted: 'true',
+      });
+
+      expect(filters).toMatchObject({
+        minPrice: 100,
+        maxPrice: 500,
+        minRating: 4,
+        attributes: { color: ['red', 'blue'], size: ['m'] },
+        discounted: true,
+      });
+    });
+
+    it('rejects invalid price, rating and attribute filters', () => {
+      expect(() => parse({ minPrice: '500', maxPrice: '100' })).toThrow('Minimum price cannot be greater than maximum price');
+      expect(() => parse({ minRating: '6' })).toThrow('Minimum rating must be a number between 1 and 5');
+      expect(() => parse({ attributes: { 'color"; --': 'red' } })).toThrow('Invalid attribute name');
+    });
+  });
+
+  describe('applyFacetFilters', () => {
+    const filters: IProductFacetFilters = {
+      minPrice: 100,
+      maxPrice: 500,
+      minRating: 4,
+      attributes: { color: ['red'], size: ['m'] },
+      inStock: true,
+      discounted: true,
+    };
+
+    const apply = (exclude?: Parameters<typeof ProductFilterHelper.applyFacetFilters>[2], excludeAttribute?: string) => {
+      const clauses: string[] = [];
+      const params: Record<string, unknown> = {};
+      const qb = fakeQueryBuilder({
+        andWhere: (clause: string, parameters?: Record<string, unknown>) => {
+          clauses.push(clause);
+          Object.assign(params, parameters);
+        },
+        setParameter: (name: string, value: unknown) => { params[name] = value; },
+      });
+
+      ProductFilterHelper.applyFacetFilters(qb, filters, exclude, excludeAttribute);
+      return { clauses, params };
+    };
+
+    it('filters the listing by every facet', () => {
+      const { clauses, params } = apply();
+
+      expect(clauses).toEqual([
+        `${ProductFilterHelper.effectivePriceSql} >= :minPrice`,
+        `${ProductFilterHelper.effectivePriceSql} <= :maxPrice`,
+        `${ProductFilterHelper.averageRatingSql} >= :minRating`,
+        ProductFilterHelper.inStockSql,
+        ProductFilterHelper.discountedSql,
+        expect.stringContaining('LOWER(v."attributes" ->> :attributeName0) IN (:...attributeValues0) AND LOWER(v."attributes" ->> :attributeName1)'),
+      ]);
+      expect(params).toEqual({
+        minPrice: 100,
+        maxPrice: 500,
+        minRating: 4,
+        attributeName0: 'color',
+        attributeValues0: ['red'],
+        attributeName1: 'size',
+        attributeValues1: ['m'],
+      });
+    });
+
+    it('counts a facet with every filter except its own', () => {
+      expect(apply('price').clauses).not.toContain(`${ProductFilterHelper.effectivePriceSql} >= :minPrice`);
+      expect(apply('rating').params).not.toHaveProperty('minRating');
+      expect(apply('inStock').clauses).not.toContain(ProductFilterHelper.inStockSql);
+      expect(apply('discounted').clauses).not.toContain(ProductFilterHelper.discountedSql);
+    });
+
+    it('counts one attribute with the other selected attributes still applied', () => {
+      const { params } = apply('attributes', 'color');
+
+      expect(params).toMatchObject({ attributeName0: 'size', attributeValues0: ['m'] });
+      expect(Object.values(params)).not.toContain('color');
+    });
+  });
+
+  describe('effectivePriceSql', () => {
+    it('prices variants after their own discount, like PriceHelper.getUnitPrice', () => {
+      expect(ProductFilterHelper.effectivePriceSql).toContain(`SELECT MIN(GREATEST(0, v."basePrice" - CASE
+    WHEN v."discountType" = 'FLAT' THEN v."discount"
+    ELSE v."basePrice" * v."discount" / 100.0`);
+    });
+  });
+});
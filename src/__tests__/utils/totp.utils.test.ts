@@ -0,0 +1,69 @@
+import {
+  base32Decode,
+  base32Encode,
+  generateTotpSecret,
+  hotp,
+  totpProvisioningUri,
+  totpStep,
+  verifyTotp,
+} from '../../utils/totp.utils';
+
+// RFC 6238 test secret "12345678901234567890" (SHA-1)
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+
+describe('totp.utils', () => {
+  describe('base32', () => {
+    it('encodes the RFC 4648 test vectors without padding', () => {
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+      expect(base32Encode(Buffer.from('f'))).toBe('MY');
+    });
+
+    it('decodes what it encodes, ignoring case, spaces and padding', () => {
+      const bytes = Buffer.from([0, 1, 2, 253, 254, 255, 42]);
+      const encoded = base32Encode(bytes);
+
+      expect(base32Decode(encoded)).toEqual(bytes);
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+    });
+
+    it('generates 160-bit secrets', () => {
+      expect(base32Decode(generateTotpSecret())).toHaveLength(20);
+    });
+  });
+
+  describe('codes', () => {
+    it('matches the RFC 6238 SHA-1 vectors (last 6 digits)', () => {
+      expect(hotp(RFC_SECRET, totpStep(59 * 1000))).toBe('287082');
+      expect(hotp(RFC_SECRET, totpStep(1111111109 * 1000))).toBe('081804');
+      expect(hotp(RFC_SECRET, totpStep(1234567890 * 1000))).toBe('005924');
+    });
+
+    it('accepts codes within the window and returns their time step', () => {
+      const time = 1111111109 * 1000;
+      const previous = hotp(RFC_SECRET, totpStep(time) - 1);
+
+      expect(verifyTotp(RFC_SECRET, '081804', 1, time)).toBe(totpStep(time));
+      expect(verifyTotp(RFC_SECRET, previous, 1, time)).toBe(totpStep(time) - 1);
+      expect(verifyTotp(RFC_SECRET, previous, 0, time)).toBeNull();
+    });
+
+    it('rejects wrong and malformed codes', () => {
+      const time = 59 * 1000;
+
+      expect(verifyTotp(RFC_SECRET, '287083', 1, time)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, '28708', 1, time)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, time)).toBeNull();
+    });
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const provisioningUri = totpProvisioningUri('Dajuvai', 'admin@example.com', 'JBSWY3DPEHPK3PXP');
+    const uri = new URL(provisioningUri);
+
+    expect(provisioningUri.startsWith('otpauth://totp/Dajuvai%3Aadmin%40example.com?')).toBe(true);
+    expect(uri.searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+    expect(uri.searchParams.get('issuer')).toBe('Dajuvai');
+    expect(uri.searchParams.get('digits')).toBe('6');
+    expect(uri.searchParams.get('period')).toBe('30');
+  });
+});
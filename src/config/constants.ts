@@ -124,15 +124,39 @@ export const CACHE_TTL = {
 } as const;
 
 /**
- * Email templates
+ * Email templates, stored in src/template/email/<name>/v<version>.html
  */
 export const EMAIL_TEMPLATES = {
-  WELCOME: 'welcome',
   VERIFICATION: 'verification',
   PASSWORD_RESET: 'password-reset',
   ORDER_CONFIRMATION: 'order-confirmation',
-  ORDER_SHIPPED: 'order-shipped',
-  ORDER_DELIVERED: 'order-delivered',
+  VENDOR_NEW_ORDER: 'vendor-new-order',
+  ORDER_STATUS_UPDATE: 'order-status-update',
+  ORDER_CANCELLED: 'order-cancelled',
+  TWO_FACTOR_CODE: 'two-factor-code',
+} as const;
+
+/**
+ * Two-factor authentication for admin, staff and vendor logins
+ */
+export const TWO_FACTOR = {
+  ISSUER: process.env.TWO_FACTOR_ISSUER || 'Dajuvai', // name shown in authenticator apps
+  CHALLENGE_TTL: '10m', // time to finish a login after the password step
+  TOTP_WINDOW: 1, // 30-second steps accepted either side of the current one
+  RECOVERY_CODE_COUNT: 10,
+  EMAIL_CODE_TTL_MINUTES: 10,
+  EMAIL_CODE_RESEND_SECONDS: 60,
+  MAX_FAILED_ATTEMPTS: 5, // wrong codes before the account's second step is locked
+  LOCK_MINUTES: 15,
+} as const;
+
+/**
+ * Email delivery retries, on the Bull email queue or in-process without Redis
+ */
+export const EMAIL_DELIVERY = {
+  ATTEMPTS: 3,
+  BACKOFF_DELAY: 2000, // ms before the first retry, doubled for each next one
+  TIMEOUT: 10000, // ms per attempt
 } as const;
 
 /**
@@ -176,6 +200,127 @@ export const DISCOUNT = {
   MAX: 100, // percentage
 } as const;
 
+/**
+ * Fallback shipping fees for destinations not covered by any shipping zone
+ */
+export const SHIPPING = {
+  DEFAULT_LOCAL_FEE: 100, // vendor ships within the customer's own district
+  DEFAULT_FEE: 200,
+} as const;
+
+/**
+ * Return (RMA) configuration
+ */
+export const RETURNS = {
+  WINDOW_DAYS: Number(process.env.RETURN_WINDOW_DAYS) || 7, // days after delivery a return can be requested
+} as const;
+
+/**
+ * Refund configuration
+ */
+export const REFUNDS = {
+  PENDING_TIMEOUT_MINUTES: Number(process.env.REFUND_PENDING_TIMEOUT_MINUTES) || 30, // gateway calls time out after 10 seconds; also frees stuck return refund claims
+  RECONCILE_CRON: '*/15 * * * *', // every 15 minutes; flags refunds stuck in PENDING for reconciliation
+} as const;
+
+/**
+ * Stock reservation configuration
+ */
+export const STOCK_RESERVATION = {
+  TTL_MINUTES: Number(process.env.STOCK_RESERVATION_TTL_MINUTES) || 15, // matches the unpaid online order cancellation window
+} as const;
+
+/**
+ * Bulk product import configuration
+ */
+export const PRODUCT_IMPORT = {
+  MAX_ROWS: 5000,
+  BACKGROUND_ROW_THRESHOLD: Number(process.env.PRODUCT_IMPORT_BACKGROUND_ROWS) || 100, // larger files are imported as a background job
+  ALLOWED_EXTENSIONS: ['.xlsx', '.csv'],
+} as const;
+
+/**
+ * Product full-text search configuration
+ */
+export const PRODUCT_SEARCH = {
+  TEXT_SEARCH_CONFIG: 'english', // PostgreSQL text search configuration, must match the products search trigger
+  TRIGRAM_THRESHOLD: 0.4, // minimum word similarity for a misspelled term to match a product name; set on every database connection
+  HIGHLIGHT_START: '<mark>',
+  HIGHLIGHT_END: '</mark>',
+} as const;
+
+/**
+ * Review moderation configuration
+ */
+export const REVIEW_MODERATION = {
+  MAX_PHOTOS: 5,
+  // Words that send a review to the moderation queue; matched as whole words, case-insensitively
+  BANNED_WORDS: ['fuck', 'fucking', 'shit', 'bitch', 'bastard', 'asshole', 'dick', 'cunt', 'slut', 'whore', 'motherfucker'],
+  MAX_REPEATED_CHARACTERS: 6, // e.g. "!!!!!!" or "sooooooo"
+  MAX_UPPERCASE_RATIO: 0.7, // share of capital letters in reviews of 20+ letters
+} as const;
+
+/**
+ * Product listing statistics (best-selling, trending, top-rated sorts)
+ */
+export const PRODUCT_STATS = {
+  BEST_SELLING_WINDOW_DAYS: Number(process.env.BEST_SELLING_WINDOW_DAYS) || 30,
+  TRENDING_WINDOW_DAYS: 14,
+  TRENDING_HALF_LIFE_DAYS: 3, // a sale counts half as much for trending after this many days
+  BAYESIAN_MIN_REVIEWS: 5, // reviews needed before a product's own average outweighs the store average
+  REFRESH_CRON: '*/15 * * * *',
+} as const;
+
+/**
+ * Vendor settlement and payout configuration
+ */
+export const SETTLEMENT = {
+  DEFAULT_COMMISSION_RATE: Number(process.env.DEFAULT_COMMISSION_RATE) || 10, // percent, when no vendor or category rate applies
+  PAYOUT_CYCLE: process.env.PAYOUT_CYCLE === 'biweekly' ? 'biweekly' : 'weekly',
+  MIN_PAYOUT_AMOUNT: Number(process.env.MIN_PAYOUT_AMOUNT) || 500, // smaller balances carry over to the next cycle
+  LEDGER_SYNC_CRON: '30 * * * *', // hourly; credits delivered items and debits refunds
+  PAYOUT_CRON: '0 3 * * 1', // Mondays 03:00; biweekly cycles skip every other run
+} as const;
+
+/**
+ * Vendor KYC review configuration
+ */
+export const VENDOR_KYC = {
+  RESUBMIT_TOKEN_EXPIRY: 7 * 24 * 60 * 60 * 1000, // 7 days to re-upload rejected documents
+  RESUBMIT_URL: process.env.VENDOR_KYC_RESUBMIT_URL || `${process.env.FRONTEND_URL || ''}/vendor/kyc/resubmit`,
+} as const;
+
+/**
+ * Real-time notification delivery (Server-Sent Events)
+ */
+export const NOTIFICATION_STREAM = {
+  REDIS_CHANNEL: 'notifications:new', // fan-out across app instances
+  HEARTBEAT_INTERVAL: 25 * 1000, // keeps proxies from closing idle streams
+  RETRY_INTERVAL: 5 * 1000, // browser reconnect delay sent to EventSource
+  MAX_REPLAY: 50, // notifications re-sent to a client reconnecting with Last-Event-ID
+} as const;
+
+/**
+ * Search autocomplete configuration
+ */
+export const SEARCH_SUGGESTIONS = {
+  MIN_QUERY_LENGTH: 2,
+  DEFAULT_LIMIT: 5, // suggestions per section
+  MAX_LIMIT: 10,
+  CACHE_TTL: 5 * 60, // seconds; suggestions tolerate slightly stale popularity
+  POPULARITY_WEIGHT: 0.1, // score added per log of units sold, on top of name similarity
+} as const;
+
+/**
+ * Tax invoice configuration
+ */
+export const INVOICE = {
+  VAT_RATE: Number(process.env.VAT_RATE) || 0.13, // Nepal VAT; order prices are VAT inclusive
+  CUSTOMER_PREFIX: 'INV',
+  VENDOR_PREFIX: 'VINV',
+  NUMBER_PADDING: 6,
+} as const;
+
 /**
  * Session configuration
  */
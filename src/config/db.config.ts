@@ -23,8 +23,39 @@ import { Promo } from "../entities/promo.entity";
 import { Variant } from "../entities/variant.entity";
 import { HomeCategory } from "../entities/home.category";
 import { Notification } from "../entities/notification.entity";
+import { NotificationReceipt } from "../entities/notificationReceipt.entity";
+import { NotificationPreference } from "../entities/notificationPreference.entity";
+import { EmailLog } from "../entities/emailLog.entity";
+import { TwoFactorAuth } from "../entities/twoFactorAuth.entity";
+import { TwoFactorChallenge } from "../entities/twoFactorChallenge.entity";
 import { Session } from "../entities/session.entity";
+import { Refund } from "../entities/refund.entity";
+import { ReturnRequest } from "../entities/returnRequest.entity";
+import { ReturnRequestItem } from "../entities/returnRequestItem.entity";
+import { VendorOrder } from "../entities/vendorOrder.entity";
+import { ShippingZone } from "../entities/shippingZone.entity";
+import { ShippingVendorRate } from "../entities/shippingVendorRate.entity";
+import { Invoice } from "../entities/invoice.entity";
+import { InvoiceSequence } from "../entities/invoiceSequence.entity";
+import { PromoRedemption } from "../entities/promoRedemption.entity";
+import { DealProductLimit } from "../entities/dealProductLimit.entity";
+import { StockReservation } from "../entities/stockReservation.entity";
+import { StockMovement } from "../entities/stockMovement.entity";
+import { ProductImportJob } from "../entities/productImportJob.entity";
+import { ProductStats } from "../entities/productStats.entity";
+import { ProductQuestion } from "../entities/productQuestion.entity";
+import { ProductAnswer } from "../entities/productAnswer.entity";
+import { ProductQuestionVote } from "../entities/productQuestionVote.entity";
+import { ReviewHelpfulVote } from "../entities/reviewHelpfulVote.entity";
+import { ReviewDispute } from "../entities/reviewDispute.entity";
+import { CommissionRate } from "../entities/commissionRate.entity";
+import { VendorLedgerEntry } from "../entities/vendorLedgerEntry.entity";
+import { PayoutBatch } from "../entities/payoutBatch.entity";
+import { Payout } from "../entities/payout.entity";
+import { VendorKycDocument } from "../entities/vendorKycDocument.entity";
+import { VendorKycAudit } from "../entities/vendorKycAudit.entity";
 import logger from "./logger.config";
+import { PRODUCT_SEARCH } from "./constants";
 
 config()
 
@@ -94,7 +125,11 @@ const AppDataSource = new DataSource({
   logger: process.env.NODE_ENV !== 'test' ? new DatabaseLogger() as any : undefined,
   maxQueryExecutionTime: process.env.NODE_ENV === 'production' ? 500 : 100, // Log slow queries
   entities: [User, Category, Subcategory, Product, Vendor, Brand, Cart, CartItem, Wishlist, WishlistItem, Review, Deal, Address, Order, OrderItem,
-    Banner, Contact, District, HomePageSection, Promo, Variant, HomeCategory, Notification, Session],
+    Banner, Contact, District, HomePageSection, Promo, Variant, HomeCategory, Notification, Session, Refund,
+    ReturnRequest, ReturnRequestItem, VendorOrder, ShippingZone, ShippingVendorRate,
+    Invoice, InvoiceSequence, PromoRedemption, DealProductLimit, StockReservation, StockMovement, ProductImportJob, ProductStats,
+    ProductQuestion, ProductAnswer, ProductQuestionVote, ReviewHelpfulVote, ReviewDispute,
+    CommissionRate, VendorLedgerEntry, PayoutBatch, Payout, VendorKycDocument, VendorKycAudit, NotificationReceipt, NotificationPreference, EmailLog, TwoFactorAuth, TwoFactorChallenge],
   migrations: [__dirname.includes('dist') ? 'dist/migrations/*.js' : 'src/migrations/*.ts'],
   migrationsRun: process.env.NODE_ENV !== 'test', // Don't run migrations in test environment
   extra: {
@@ -102,6 +137,9 @@ const AppDataSource = new DataSource({
     min: 5,
     idleTimeoutMillis: 30000,
     connectionTimeoutMillis: 10000, // Increased from 2s to 10s to prevent timeout errors
+
+    // Threshold of the pg_trgm `<%` operator that product search matches misspelled names with
+    options: `-c pg_trgm.word_similarity_threshold=${PRODUCT_SEARCH.TRIGRAM_THRESHOLD}`,
   },
   ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
 });
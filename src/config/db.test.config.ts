@@ -1,5 +1,6 @@
 import { DataSource } from "typeorm";
 import { config } from "dotenv";
+import { PRODUCT_SEARCH } from "./constants";
 import { User } from "../entities/user.entity";
 import { Subcategory } from "../entities/subcategory.entity";
 import { Category } from "../entities/category.entity";
@@ -23,7 +24,37 @@ import { Promo } from "../entities/promo.entity";
 import { Variant } from "../entities/variant.entity";
 import { HomeCategory } from "../entities/home.category";
 import { Notification } from "../entities/notification.entity";
+import { NotificationReceipt } from "../entities/notificationReceipt.entity";
+import { NotificationPreference } from "../entities/notificationPreference.entity";
+import { EmailLog } from "../entities/emailLog.entity";
+import { TwoFactorAuth } from "../entities/twoFactorAuth.entity";
+import { TwoFactorChallenge } from "../entities/twoFactorChallenge.entity";
 import { Session } from "../entities/session.entity";
+import { Refund } from "../entities/refund.entity";
+import { ReturnRequest } from "../entities/returnRequest.entity";
+import { ReturnRequestItem } from "../entities/returnRequestItem.entity";
+import { VendorOrder } from "../entities/vendorOrder.entity";
+import { ShippingZone } from "../entities/shippingZone.entity";
+import { ShippingVendorRate } from "../entities/shippingVendorRate.entity";
+import { Invoice } from "../entities/invoice.entity";
+import { InvoiceSequence } from "../entities/invoiceSequence.entity";
+import { PromoRedemption } from "../entities/promoRedemption.entity";
+import { DealProductLimit } from "../entities/dealProductLimit.entity";
+import { StockReservation } from "../entities/stockReservation.entity";
+import { StockMovement } from "../entities/stockMovement.entity";
+import { ProductImportJob } from "../entities/productImportJob.entity";
+import { ProductStats } from "../entities/productStats.entity";
+import { ProductQuestion } from "../entities/productQuestion.entity";
+import { ProductAnswer } from "../entities/productAnswer.entity";
+import { ProductQuestionVote } from "../entities/productQuestionVote.entity";
+import { ReviewHelpfulVote } from "../entities/reviewHelpfulVote.entity";
+import { ReviewDispute } from "../entities/reviewDispute.entity";
+import { CommissionRate } from "../entities/commissionRate.entity";
+import { VendorLedgerEntry } from "../entities/vendorLedgerEntry.entity";
+import { PayoutBatch } from "../entities/payoutBatch.entity";
+import { Payout } from "../entities/payout.entity";
+import { VendorKycDocument } from "../entities/vendorKycDocument.entity";
+import { VendorKycAudit } from "../entities/vendorKycAudit.entity";
 
 config({ path: '.env.test' });
 
@@ -62,7 +93,37 @@ const TestDataSource = new DataSource({
     Variant, 
     HomeCategory, 
     Notification, 
-    Session
+    Session,
+    Refund,
+    ReturnRequest,
+    ReturnRequestItem,
+    VendorOrder,
+    ShippingZone,
+    ShippingVendorRate,
+    Invoice,
+    InvoiceSequence,
+    PromoRedemption,
+    DealProductLimit,
+    StockReservation,
+    StockMovement,
+    ProductImportJob,
+    ProductStats,
+    ProductQuestion,
+    ProductAnswer,
+    ProductQuestionVote,
+    ReviewHelpfulVote,
+    ReviewDispute,
+    CommissionRate,
+    VendorLedgerEntry,
+    PayoutBatch,
+    Payout,
+    VendorKycDocument,
+    VendorKycAudit,
+    NotificationReceipt,
+    NotificationPreference,
+    EmailLog,
+    TwoFactorAuth,
+    TwoFactorChallenge
   ],
   migrations: [],
   migrationsRun: false,
@@ -71,6 +132,9 @@ const TestDataSource = new DataSource({
     min: 2,
     idleTimeoutMillis: 30000,
     connectionTimeoutMillis: 10000,
+
+    // Threshold of the pg_trgm `<%` operator that product search matches misspelled names with
+    options: `-c pg_trgm.word_similarity_threshold=${PRODUCT_SEARCH.TRIGRAM_THRESHOLD}`,
   },
   ssl: false, // No SSL for test database
 });
@@ -50,6 +50,7 @@ const envSchema = z.object({
   ESEWA_MERCHANT: z.string().min(1, 'ESEWA_MERCHANT is required'),
   SECRET_KEY: z.string().min(1, 'SECRET_KEY (eSewa) is required'),
   ESEWA_PAYMENT_URL: z.string().url('ESEWA_PAYMENT_URL must be a valid URL'),
+  ESEWA_REFUND_URL: z.string().url('ESEWA_REFUND_URL must be a valid URL').optional(),
 
   // Frontend Configuration
   FRONTEND_URL: z.string().url('FRONTEND_URL must be a valid URL'),
@@ -59,6 +60,23 @@ const envSchema = z.object({
 
   // Optional: Pagination Configuration
   PAGE_LIMIT: z.string().regex(/^\d+$/).transform(Number).default('20'),
+
+  // Optional: Returns Configuration
+  RETURN_WINDOW_DAYS: z.string().regex(/^\d+$/).transform(Number).optional(),
+  VAT_RATE: z.string().regex(/^0?\.\d+$/).transform(Number).optional(),
+
+  // Optional: Minutes stock is held for a pending online payment
+  STOCK_RESERVATION_TTL_MINUTES: z.string().regex(/^\d+$/).transform(Number).optional(),
+
+  // Optional: Import files with more rows than this run as a background job
+  PRODUCT_IMPORT_BACKGROUND_ROWS: z.string().regex(/^\d+$/).transform(Number).optional(),
+
+  // Optional: Days of sales counted for the best-selling sort
+  BEST_SELLING_WINDOW_DAYS: z.string().regex(/^\d+$/).transform(Number).optional(),
+
+  // Optional: Two-factor authentication; secrets are encrypted with a key derived from JWT_SECRET if unset
+  TWO_FACTOR_ENCRYPTION_KEY: z.string().min(32, 'TWO_FACTOR_ENCRYPTION_KEY must be at least 32 characters').optional(),
+  TWO_FACTOR_ISSUER: z.string().min(1).optional(),
 });
 
 export type EnvConfig = z.infer<typeof envSchema>;
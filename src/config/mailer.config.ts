@@ -0,0 +1,20 @@
+import nodemailer from 'nodemailer';
+import { config } from 'dotenv';
+
+config(); // Load environment variables from .env
+
+/**
+ * Gmail SMTP transporter shared by every outgoing email
+ */
+export const transporter = nodemailer.createTransport({
+  service: 'Gmail',
+  auth: {
+    user: process.env.USER_EMAIL, // Your Gmail email address
+    pass: process.env.PASS_EMAIL, // App password or actual password (prefer app password for security)
+  },
+});
+
+/**
+ * Sender address of outgoing emails
+ */
+export const MAIL_FROM = `<${process.env.USER_EMAIL}>`;
@@ -6,6 +6,7 @@ import { AuthProvider, User } from "../entities/user.entity";
 import AppDataSource from "./db.config";
 import jwt from "jsonwebtoken";
 import { APIError } from "../utils/ApiError.utils";
+import { TwoFactorService } from "../service/twoFactor.service";
 
 // Lazy getter for User repository to avoid accessing AppDataSource before initialization
 // This ensures the repository is only accessed when needed, not at module load time
@@ -130,6 +131,9 @@ passport.use(
                 }
 
 
+                // Admins and staff must log in with their password and second factor
+                TwoFactorService.assertSocialLoginAllowed(user);
+
                 // Generate JWT for session
                 const token = jwt.sign(
                     {
@@ -200,6 +204,9 @@ passport.use(
                         await userDB.save(user);
                     }
                 }
+                // Admins and staff must log in with their password and second factor
+                TwoFactorService.assertSocialLoginAllowed(user);
+
                 // Generate JWT for session
                 const token = jwt.sign(
                     {
@@ -0,0 +1,185 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest, VendorAuthRequest } from '../middlewares/auth.middleware';
+import { BrandService } from '../service/brand.service';
+import {
+    AdminBrandQueryInput,
+    BrandQueryInput,
+    CreateBrandInput,
+    MergeBrandInput,
+    RequestBrandInput,
+    ReviewBrandInput,
+    UpdateBrandInput,
+} from '../utils/zod_validations/brand.zod';
+
+/**
+ * @class BrandController
+ * @description Handles HTTP requests for brands: public brand pages, admin brand management
+ * and vendor brand requests.
+ */
+export class BrandController {
+    private brandService: BrandService;
+
+    constructor() {
+        this.brandService = new BrandService();
+    }
+
+    /**
+     * Parse the brand ID from route params
+     */
+    private parseBrandId(id: string): number {
+        const brandId = parseInt(id, 10);
+        if (isNaN(brandId)) {
+            throw new APIError(400, 'Invalid brand ID');
+        }
+        return brandId;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc List approved brands with product counts
+     * @route GET /brands?page=&limit=&search=&verified=
+     * @access Public
+     */
+    async getBrands(req: Request<{}, {}, {}, BrandQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.brandService.getBrands(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get an approved brand by slug or ID with its product count
+     * @route GET /brands/:idOrSlug
+     * @access Public
+     */
+    async getBrand(req: Request<{ idOrSlug: string }>, res: Response): Promise<void> {
+        try {
+            const brand = await this.brandService.getPublicBrand(req.params.idOrSlug);
+            res.status(200).json({ success: true, data: brand });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc List all brands, including pending and rejected requests
+     * @route GET /brands/admin?status=&page=&limit=&search=&verified=
+     * @access Admin | Staff
+     */
+    async getAdminBrands(req: AuthRequest<{}, {}, {}, AdminBrandQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.brandService.getBrands(req.query, true);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Create a brand with an optional logo
+     * @route POST /brands
+     * @access Admin | Staff
+     */
+    async createBrand(req: AuthRequest<{}, {}, CreateBrandInput>, res: Response): Promise<void> {
+        try {
+            const brand = await this.brandService.createBrand(req.body, req.file);
+            res.status(201).json({ success: true, data: brand });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Update, rename or verify a brand, optionally replacing its logo
+     * @route PUT /brands/:id
+     * @access Admin | Staff
+     */
+    async updateBrand(req: AuthRequest<{ id: string }, {}, UpdateBrandInput>, res: Response): Promise<void> {
+        try {
+            const brand = await this.brandService.updateBrand(this.parseBrandId(req.params.id), req.body, req.file);
+            res.status(200).json({ success: true, data: brand });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Approve or reject a vendor's brand request
+     * @route PUT /brands/:id/review
+     * @access Admin | Staff
+     */
+    async reviewBrand(req: AuthRequest<{ id: string }, {}, ReviewBrandInput>, res: Response): Promise<void> {
+        try {
+            const brand = await this.brandService.reviewBrand(this.parseBrandId(req.params.id), req.body);
+            res.status(200).json({ success: true, data: brand });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Merge a brand into another brand
+     * @route POST /brands/:id/merge
+     * @access Admin | Staff
+     */
+    async mergeBrand(req: AuthRequest<{ id: string }, {}, MergeBrandInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.brandService.mergeBrands(this.parseBrandId(req.params.id), req.body.targetBrandId);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete a brand without products
+     * @route DELETE /brands/:id
+     * @access Admin | Staff
+     */
+    async deleteBrand(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.brandService.deleteBrand(this.parseBrandId(req.params.id));
+            res.status(200).json({ success: true, message: 'Brand deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Request a new brand, pending admin approval
+     * @route POST /brands/requests
+     * @access Vendor
+     */
+    async requestBrand(req: VendorAuthRequest<{}, {}, RequestBrandInput>, res: Response): Promise<void> {
+        try {
+            const brand = await this.brandService.requestBrand(req.vendor!.id, req.body);
+            res.status(201).json({ success: true, data: brand });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get the authenticated vendor's brand requests
+     * @route GET /brands/requests/mine
+     * @access Vendor
+     */
+    async getVendorRequests(req: VendorAuthRequest, res: Response): Promise<void> {
+        try {
+            const brands = await this.brandService.getVendorRequests(req.vendor!.id);
+            res.status(200).json({ success: true, data: brands });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -134,6 +134,31 @@ export class DealController {
         }
     }
 
+    /**
+     * @method getLiveDeals
+     * @route GET /api/deal/live
+     * @description Retrieves deals that are live now and those scheduled to start, with countdown data.
+     * @param {Request} req - Express request object.
+     * @param {Response} res - Express response object.
+     * @returns {Promise<void>} Responds with live and upcoming deals and the server time.
+     * @access Public
+     */
+    async getLiveDeals(req: Request, res: Response): Promise<void> {
+        try {
+            const deals = await this.dealService.getLiveAndUpcomingDeals();
+            res.status(200).json({ success: true, data: deals });
+        } catch (error) {
+            // Handle known API errors
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                // Log unexpected errors
+                console.error('Get live deals error:', error);
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
    /**
      * @method deleteDeal
      * @route DELETE /api/deals/:id
@@ -0,0 +1,78 @@
+import { Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { EmailLogService } from '../service/emailLog.service';
+import { EmailLogQueryInput } from '../utils/zod_validations/emailLog.zod';
+
+/**
+ * @class EmailLogController
+ * @description Handles admin HTTP requests for browsing the email outbox and resending emails.
+ */
+export class EmailLogController {
+    private emailLogService: EmailLogService;
+
+    constructor() {
+        this.emailLogService = new EmailLogService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, 'Invalid email ID');
+        }
+        return parsed;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Get logged emails, newest first
+     * @route GET /email-logs
+     * @access Admin
+     */
+    async getEmailLogs(req: AuthRequest<{}, {}, {}, EmailLogQueryInput>, res: Response): Promise<void> {
+        try {
+            const emails = await this.emailLogService.getEmailLogs(req.query);
+            res.status(200).json({ success: true, data: emails });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get a logged email with its variables and a preview of its body
+     * @route GET /email-logs/:id
+     * @access Admin
+     */
+    async getEmailLogById(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const email = await this.emailLogService.getEmailLogById(this.parseId(req.params.id));
+            res.status(200).json({ success: true, data: email });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Resend a logged email
+     * @route POST /email-logs/:id/resend
+     * @access Admin
+     */
+    async resendEmail(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const email = await this.emailLogService.resendEmail(this.parseId(req.params.id), req.user!.id);
+            res.status(202).json({ success: true, data: email });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -1,57 +1,169 @@
-import { Request, Response } from "express";
+import { Response } from "express";
 import { CombinedAuthRequest } from "../middlewares/auth.middleware";
 import { NotificationService } from "../service/notification.service";
 import { APIError } from "../utils/ApiError.utils";
+import { NotificationStreamService } from "../services/notification/NotificationStreamService";
+import { NotificationPreferenceService } from "../service/notificationPreference.service";
+import { NotificationInboxQueryInput, UpdateNotificationPreferencesInput } from "../utils/zod_validations/notification.zod";
 
 export class NotificationController {
     private notificationService: NotificationService;
+    private preferenceService: NotificationPreferenceService;
 
     constructor() {
         this.notificationService = new NotificationService()
+        this.preferenceService = new NotificationPreferenceService();
     }
 
-    async getNotificationController(req: CombinedAuthRequest, res: Response) {
+    private authEntityOf(req: CombinedAuthRequest<any, any, any, any>) {
+        const authEntity = req.user || req.vendor;
+
+        if (!authEntity) {
+            throw new APIError(401, "Authentication required");
+        }
+        return authEntity;
+    }
+
+    private handleError(error: unknown, res: Response) {
+        console.log(error)
+        if (error instanceof APIError) {
+            res.status(error.status).json({
+                success: false,
+                msg: error.message
+            })
+        } else {
+            res.status(500).json({
+                success: false,
+                msg: "Internal server error"
+            })
+        }
+    }
+
+    /**
+     * GET /api/notification?page=&limit=&type=&status=&archived=&from=&to=
+     * Paginated inbox of the authenticated user or vendor, with their own read state.
+     *
+     * @access Admin | Staff | Vendor | Customer
+     */
+    async getNotificationController(req: CombinedAuthRequest<{}, {}, {}, NotificationInboxQueryInput>, res: Response) {
         try {
-            const user = req.user;
-            const vendor = req.vendor;
+            const notifications = await this.notificationService.getNotifications(this.authEntityOf(req), req.query);
 
-            if (!user && !vendor) {
-                throw new APIError(401, "Authentication required");
-            }
+            res.status(200).json({
+                success: true,
+                data: notifications
+            })
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
 
-            const notification = await this.notificationService.getNotifications(user || vendor);
+    /**
+     * GET /api/notification/unread-count
+     *
+     * @access Admin | Staff | Vendor | Customer
+     */
+    async getUnreadCountController(req: CombinedAuthRequest, res: Response) {
+        try {
+            const count = await this.notificationService.getUnreadCount(this.authEntityOf(req));
 
             res.status(200).json({
                 success: true,
-                data: notification
+                data: { count }
             })
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
 
+    /**
+     * GET /api/notification/preferences
+     * Channels (email, in-app, SMS) the customer or vendor receives each event on.
+     *
+     * @access Vendor | Customer
+     */
+    async getPreferencesController(req: CombinedAuthRequest, res: Response) {
+        try {
+            const owner = NotificationPreferenceService.ownerOf(this.authEntityOf(req));
+            const preferences = await this.preferenceService.getPreferences(owner);
+
+            res.status(200).json({
+                success: true,
+                data: preferences
+            })
         } catch (error) {
-            console.log(error)
-            if (error instanceof APIError) {
-                res.status(error.status).json({
-                    success: false,
-                    msg: error.message
-                })
-            } else {
-                res.status(500).json({
-                    success: false,
-                    msg: "Internal server error"
-                })
-            }
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * PUT /api/notification/preferences
+     *
+     * @access Vendor | Customer
+     */
+    async updatePreferencesController(req: CombinedAuthRequest<{}, {}, UpdateNotificationPreferencesInput>, res: Response) {
+        try {
+            const owner = NotificationPreferenceService.ownerOf(this.authEntityOf(req));
+            const preferences = await this.preferenceService.updatePreferences(owner, req.body);
+
+            res.status(200).json({
+                success: true,
+                msg: "preferences updated",
+                data: preferences
+            })
+        } catch (error) {
+            this.handleError(error, res);
         }
     }
 
-    async markReadController(req: Request<{ id: string }, {}, {}, {}>, res: Response) {
+    /**
+     * GET /api/notification/stream
+     * Streams new notifications to the authenticated user or vendor over Server-Sent Events.
+     * A reconnecting client sending Last-Event-ID first receives the notifications it missed.
+     *
+     * @access Admin | Staff | Vendor | Customer
+     */
+    async streamNotificationsController(req: CombinedAuthRequest, res: Response) {
         try {
-            const id = req.params.id;
-            const notificationExists = await this.notificationService.getNotificationById(id);
+            const authEntity = this.authEntityOf(req);
 
-            if (!notificationExists) {
-                throw new APIError(404, "Invalid notification id")
+            const recipient = NotificationStreamService.recipientOf(authEntity);
+            if (!recipient) {
+                throw new APIError(403, "Invalid or unauthorized role");
             }
 
-            const notification = await this.notificationService.markAsRead(id)
+            const missed = await this.notificationService.getMissedNotifications(authEntity, req.get("Last-Event-ID"));
+
+            const unsubscribe = NotificationStreamService.getInstance().subscribe(recipient, res, missed);
+            req.on("close", unsubscribe);
+
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * PATCH /api/notification/read-all
+     *
+     * @access Admin | Staff | Vendor | Customer
+     */
+    async markAllReadController(req: CombinedAuthRequest, res: Response) {
+        try {
+            const marked = await this.notificationService.markAllAsRead(this.authEntityOf(req));
+
+            res.status(200).json({
+                success: true,
+                msg: "all marked as read",
+                data: { marked }
+            })
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    async markReadController(req: CombinedAuthRequest<{ id: string }>, res: Response) {
+        try {
+            const notification = await this.notificationService.markAsRead(this.authEntityOf(req), req.params.id);
 
             res.status(200).json({
                 success: true,
@@ -59,49 +171,61 @@ export class NotificationController {
                 data: notification
             })
         } catch (error) {
-            console.log(error)
-            if (error instanceof APIError) {
-                res.status(error.status).json({
-                    success: false,
-                    msg: error.message
-                })
-            } else {
-                res.status(500).json({
-                    success: false,
-                    msg: "Internal server error"
-                })
-            }
+            this.handleError(error, res);
+        }
+    }
+
+    async archiveController(req: CombinedAuthRequest<{ id: string }>, res: Response) {
+        try {
+            const notification = await this.notificationService.archive(this.authEntityOf(req), req.params.id);
+
+            res.status(200).json({
+                success: true,
+                msg: "archived",
+                data: notification
+            })
+        } catch (error) {
+            this.handleError(error, res);
         }
     }
 
+    async unarchiveController(req: CombinedAuthRequest<{ id: string }>, res: Response) {
+        try {
+            const notification = await this.notificationService.unarchive(this.authEntityOf(req), req.params.id);
+
+            res.status(200).json({
+                success: true,
+                msg: "moved to inbox",
+                data: notification
+            })
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
 
-    async getNotificationByIdController(req: Request<{ id: string }, {}, {}, {}>, res: Response) {
+    async deleteController(req: CombinedAuthRequest<{ id: string }>, res: Response) {
         try {
-            const id = req.params.id;
+            await this.notificationService.delete(this.authEntityOf(req), req.params.id);
 
-            const notification = await this.notificationService.getNotificationById(id);
+            res.status(200).json({
+                success: true,
+                msg: "deleted"
+            })
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
 
-            if (!notification) {
-                throw new APIError(404, "Notification does not exists")
-            }
+    async getNotificationByIdController(req: CombinedAuthRequest<{ id: string }>, res: Response) {
+        try {
+            const notification = await this.notificationService.getNotificationById(this.authEntityOf(req), req.params.id);
 
             res.status(200).json({
                 success: true,
                 data: notification
             })
         } catch (error) {
-            console.log(error)
-            if (error instanceof APIError) {
-                res.status(error.status).json({
-                    success: false,
-                    msg: error.message
-                })
-            } else {
-                res.status(500).json({
-                    success: false,
-                    msg: "Internal server error"
-                })
-            }
+            this.handleError(error, res);
         }
     }
-}
\ No newline at end of file
+}
@@ -1,20 +1,26 @@
 import { Request, Response } from 'express';
 import { OrderService } from '../service/order.service';
 import { AuthRequest, CombinedAuthRequest, VendorAuthRequest } from '../middlewares/auth.middleware';
-import { IOrderCreateRequest, IShippingAddressRequest, IUpdateOrderStatusRequest } from '../interface/order.interface';
+import { IOrderCreateRequest, IReconcileRefundRequest, IRefundOrderRequest, IShippingAddressRequest, IUpdateOrderStatusRequest, IUpdateVendorOrderStatusRequest } from '../interface/order.interface';
 import { APIError } from '../utils/ApiError.utils';
 import { UserRole } from '../entities/user.entity';
 import { findUserByEmail, findUserById, getUserByIdService } from '../service/user.service';
 import { sendCustomerOrderEmail, sendVendorOrderEmail } from '../utils/nodemailer.utils';
 import { VendorService } from '../service/vendor.service';
 import { PaymentService } from '../service/payment.service';
+import { PaymentService as RefundPaymentService } from '../services/payment/PaymentService';
+import { RefundStatus } from '../entities/refund.entity';
 import { PaymentMethod } from '../entities/order.entity';
 import AppDataSource from '../config/db.config';
 import { Vendor } from '../entities/vendor.entity';
 import { In, Repository } from 'typeorm';
 import { NotificationService } from '../service/notification.service';
+import { InvoiceService } from '../service/invoice.service';
+import { IInvoiceDocument } from '../interface/invoice.interface';
 import { PaginationHelper } from '../utils/helpers/PaginationHelper';
 import { ResponseBuilder } from '../utils/helpers/ResponseBuilder';
+import { NotificationDispatcher } from '../services/notification/NotificationDispatcher';
+import { NotificationEvent } from '../entities/notificationPreference.enum';
 
 
 /**
@@ -27,6 +33,9 @@ export class OrderController {
     private paymentService: PaymentService;
     private vendorRepository: Repository<Vendor>;
     private notificationService: NotificationService;
+    private refundPaymentService: RefundPaymentService;
+    private invoiceService: InvoiceService;
+    private notificationDispatcher: NotificationDispatcher;
 
     constructor() {
         this.paymentService = new PaymentService();
@@ -34,6 +43,33 @@ export class OrderController {
         this.vendorService = new VendorService();
         this.vendorRepository = AppDataSource.getRepository(Vendor);
         this.notificationService = new NotificationService()
+        this.invoiceService = new InvoiceService();
+        this.notificationDispatcher = new NotificationDispatcher();
+    }
+
+    /**
+     * Refund orchestration needs gateway configuration, so it is only built on first use
+     */
+    private getRefundPaymentService(): RefundPaymentService {
+        if (!this.refundPaymentService) {
+            this.refundPaymentService = new RefundPaymentService();
+        }
+        return this.refundPaymentService;
+    }
+
+    /**
+     * Respond with an invoice as JSON (?format=json) or as an HTML page, optionally as a download
+     */
+    private sendInvoice(req: Request, res: Response, document: IInvoiceDocument): void {
+        if (req.query.format === 'json') {
+            res.status(200).json({ success: true, data: document });
+            return;
+        }
+
+        if (req.query.download === 'true') {
+            res.setHeader('Content-Disposition', `attachment; filename="${document.invoice.invoiceNumber}.html"`);
+        }
+        res.status(200).type('html').send(this.invoiceService.renderInvoice(document));
     }
 
     /**
@@ -91,23 +127,32 @@ export class OrderController {
                     where: { id: In(uniqueVendorIds) },
                     relations: ["district"],
                 });
+                const invoice = await this.invoiceService.getCustomerInvoiceAttachment(order.id);
+
                 // send customer email
-                await sendCustomerOrderEmail(
-                    useremail,
-                    order.id,
-                    order.orderItems.map((item) => {
-                        const vendor = vendors.find((v) => v.id === item.vendorId);
-                        return {
-                            name: item?.product?.name,
-                            sku: item.variant?.sku || null,
-                            quantity: item.quantity,
-                            price: item.price,
-                            variantAttributes: item.variant?.attributes || null,
-                            vendorDistrict: vendor?.district?.name || null,
-                        };
-                    }),
-                    userDistrict
-                );
+                await this.notificationDispatcher.dispatch({
+                    event: NotificationEvent.ORDER_PLACED,
+                    recipient: { userId: userexists.id },
+                    email: () => sendCustomerOrderEmail(
+                        useremail,
+                        order.id,
+                        order.orderItems.map((item) => {
+                            const vendor = vendors.find((v) => v.id === item.vendorId);
+                            return {
+                                name: item?.product?.name,
+                                sku: item.variant?.sku || null,
+                                quantity: item.quantity,
+                                price: item.price,
+                                variantAttributes: item.variant?.attributes || null,
+                                vendorDistrict: vendor?.district?.name || null,
+                            };
+                        }),
+                        userDistrict,
+                        undefined,
+                        invoice
+                    ),
+                    sms: `Your order #${order.id} has been placed.`,
+                });
 
                 const orderItems = order.orderItems;
 
@@ -147,21 +192,26 @@ export class OrderController {
                     console.log(userexists.address.localAddress);
                     console.log(userexists.address.landmark);
 
-                    await sendVendorOrderEmail(
-                        vendor.email,
-                        order.paymentMethod,
-                        order.id,
-                        itemsForVendor,
-                        {
-                            name: userexists.fullName,
-                            phone: userexists.phoneNumber,
-                            email: userexists.email,
-                            city: userexists.address.city,
-                            district: userexists.address.district,
-                            localAddress: userexists.address.localAddress,
-                            landmark: userexists.address.landmark,
-                        }
-                    );
+                    await this.notificationDispatcher.dispatch({
+                        event: NotificationEvent.ORDER_PLACED,
+                        recipient: { vendorId: vendor.id },
+                        email: () => sendVendorOrderEmail(
+                            vendor.email,
+                            order.paymentMethod,
+                            order.id,
+                            itemsForVendor,
+                            {
+                                name: userexists.fullName,
+                                phone: userexists.phoneNumber,
+                                email: userexists.email,
+                                city: userexists.address.city,
+                                district: userexists.address.district,
+                                localAddress: userexists.address.localAddress,
+                                landmark: userexists.address.landmark,
+                            }
+                        ),
+                        sms: `New order #${order.id}: ${itemsForVendor.length} item(s) to prepare.`,
+                    });
                 }
             }
 
@@ -494,6 +544,150 @@ export class OrderController {
         }
     }
 
+    /**
+     * @desc Refund an order fully or partially
+     * Delivered orders are refunded through their return request (POST /api/order/returns/admin/:id/refund) instead.
+     * @route POST /orders/admin/:orderId/refund
+     * @access Admin
+     * @param req.params.orderId Order ID
+     * @param req.body {IRefundOrderRequest} Amount (optional, defaults to remaining balance), reason and settlement reference
+     * @returns The refund record
+     */
+    async refundOrder(req: AuthRequest<{ orderId: string }, {}, IRefundOrderRequest>, res: Response): Promise<void> {
+        try {
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const { amount, reason, reference } = req.body;
+
+            const refund = await this.getRefundPaymentService().processRefund(orderId, amount, reason, {
+                processedById: req.user?.id,
+                reference,
+            });
+
+            res.status(201).json({ success: true, data: refund });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @desc Record the gateway outcome of a refund awaiting reconciliation
+     * @route POST /orders/admin/refunds/:refundId/reconcile
+     * @access Admin
+     * @param req.params.refundId Refund ID
+     * @param req.body {IReconcileRefundRequest} Confirmed outcome, gateway reference and note
+     * @returns The reconciled refund record
+     */
+    async reconcileRefund(req: AuthRequest<{ refundId: string }, {}, IReconcileRefundRequest>, res: Response): Promise<void> {
+        try {
+            const refundId = parseInt(req.params.refundId, 10);
+            if (isNaN(refundId)) {
+                throw new APIError(400, 'Invalid refund ID');
+            }
+
+            const { status, reference, note } = req.body;
+
+            const refund = await this.getRefundPaymentService().reconcileRefund(refundId, RefundStatus[status], {
+                processedById: req.user?.id,
+                reference,
+                note,
+            });
+
+            res.status(200).json({ success: true, data: refund });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @desc Get refund history for an order
+     * @route GET /orders/admin/:orderId/refunds
+     * @access Admin or Staff
+     * @param req.params.orderId Order ID
+     * @returns List of refund attempts, newest first
+     */
+    async getOrderRefunds(req: AuthRequest<{ orderId: string }>, res: Response): Promise<void> {
+        try {
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const refunds = await this.getRefundPaymentService().getRefunds(orderId);
+            res.status(200).json({ success: true, data: refunds });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @desc Get the tax invoice of one of the customer's orders
+     * @route GET /orders/:orderId/invoice?format=json&download=true
+     * @access Authenticated User
+     * @param req.params.orderId Order ID
+     * @returns Invoice as an HTML page, or as JSON when format=json
+     */
+    async getCustomerInvoice(req: AuthRequest<{ orderId: string }>, res: Response): Promise<void> {
+        try {
+            if (!req.user) {
+                throw new APIError(401, 'User not authenticated');
+            }
+
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const document = await this.invoiceService.getCustomerInvoice(orderId, req.user.id);
+            this.sendInvoice(req, res, document);
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @desc Get the customer tax invoice of any order
+     * @route GET /orders/admin/:orderId/invoice?format=json&download=true
+     * @access Admin or Staff
+     * @param req.params.orderId Order ID
+     */
+    async getOrderInvoice(req: AuthRequest<{ orderId: string }>, res: Response): Promise<void> {
+        try {
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const document = await this.invoiceService.getCustomerInvoice(orderId);
+            this.sendInvoice(req, res, document);
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
     /**
      * @desc Search orders by order ID
      * @route GET /orders/search?orderId=
@@ -653,6 +847,71 @@ export class OrderController {
         }
     }
 
+    /**
+     * @desc Get the tax invoice for the vendor's sub-order
+     * @route GET /orders/vendor/:orderId/invoice?format=json&download=true
+     * @access Vendor
+     * @param req.params.orderId Order ID
+     * @returns Invoice covering only the vendor's items
+     */
+    async getVendorInvoice(req: VendorAuthRequest<{ orderId: string }>, res: Response): Promise<void> {
+        try {
+            if (!req.vendor) {
+                throw new APIError(401, 'Vendor not authenticated');
+            }
+
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const document = await this.invoiceService.getVendorInvoice(orderId, req.vendor.id);
+            this.sendInvoice(req, res, document);
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @desc Update the vendor's own sub-order (status and shipment tracking)
+     * @route PUT /orders/vendor/:orderId/status
+     * @access Vendor
+     * @param req.params.orderId Order ID
+     * @param req.body {IUpdateVendorOrderStatusRequest} New status, tracking number and courier
+     * @returns Vendor view of the order including the updated sub-order
+     */
+    async updateVendorOrderStatus(req: VendorAuthRequest<{ orderId: string }, {}, IUpdateVendorOrderStatusRequest>, res: Response): Promise<void> {
+        try {
+            if (!req.vendor) {
+                throw new APIError(401, 'Vendor not authenticated');
+            }
+
+            const orderId = parseInt(req.params.orderId, 10);
+            if (isNaN(orderId)) {
+                throw new APIError(400, 'Invalid order ID');
+            }
+
+            const { order, parentOrder } = await this.orderService.updateVendorOrderStatus(req.vendor.id, orderId, req.body);
+
+            // Notify only when the overall order status moved
+            if (parentOrder) {
+                await this.notificationService.notifyOrderStatusUpdated(parentOrder);
+            }
+
+            res.status(200).json({ success: true, data: order });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
     /**
      * @desc Get order history for authenticated customer
      * @route GET /orders/customer/history
@@ -798,11 +1057,11 @@ export class OrderController {
             const { promoCode } = req.body as { promoCode: string };
             let userId = req.user?.id;
             const promo = await this.orderService.checkAvailablePromocode(promoCode, userId);
-            if (promo) {
-                return res.status(200).json({ success: true, data: promo })
-            }
-            return res.status(400).json({ success: false, msg: "Promo code not found" })
+            return res.status(200).json({ success: true, data: promo })
         } catch (err) {
+            if (err instanceof APIError) {
+                return res.status(err.status).json({ success: false, msg: err.message })
+            }
             console.log(err)
             res.status(500).json({ success: false, msg: "Internal server error" })
         }
@@ -126,7 +126,7 @@ export class ProductController {
 
 
     async updateProduct(
-        req: VendorAuthRequest<{ id: string; categoryId: string; subcategoryId: string }, {}, Partial<ProductInterface>, {}>,
+        req: CombinedAuthRequest<{ id: string; categoryId: string; subcategoryId: string }, {}, Partial<ProductInterface>, {}>,
         res: Response
     ): Promise<void> {
         try {
@@ -151,7 +151,8 @@ export class ProductController {
                 Number(productId),
                 data,
                 categoryId,
-                subcategoryId
+                subcategoryId,
+                { actor: req.vendor ? { vendorId: req.vendor.id } : { userId: req.user?.id } }
             );
 
             logger.info('Product updated successfully', { productId, vendorId: req.vendor?.id });
@@ -228,6 +229,7 @@ export class ProductController {
                 {
                     requestId,
                     timestamp: new Date().toISOString(),
+                    facets: result.facets,
                 }
             );
 
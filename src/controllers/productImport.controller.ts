@@ -0,0 +1,93 @@
+import { Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { VendorAuthRequest } from '../middlewares/auth.middleware';
+import { ProductImportService } from '../service/productImport.service';
+import { ProductImportInput } from '../utils/zod_validations/productImport.zod';
+
+/**
+ * @class ProductImportController
+ * @description Handles bulk product import uploads and import job status for vendors.
+ */
+export class ProductImportController {
+    private productImportService: ProductImportService;
+
+    constructor() {
+        this.productImportService = new ProductImportService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string, label: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, `Invalid ${label} ID`);
+        }
+        return parsed;
+    }
+
+    /**
+     * Vendors can only import into and view jobs of their own account
+     */
+    private assertOwnAccount(req: VendorAuthRequest<{ vendorId: string }>): number {
+        const vendorId = this.parseId(req.params.vendorId, 'vendor');
+        if (req.vendor!.id !== vendorId) {
+            throw new APIError(403, 'You can only import products for your own account');
+        }
+        return vendorId;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Import products from an .xlsx or .csv file in the export layout
+     * @route POST /vendors/:vendorId/products/import
+     * @access Vendor
+     * @param req.file Uploaded file (field "file")
+     * @param req.body {ProductImportInput} dryRun and upsert flags
+     * @returns The per-row report, or 202 with the background job for large files
+     */
+    async importProducts(req: VendorAuthRequest<{ vendorId: string }, {}, ProductImportInput>, res: Response): Promise<void> {
+        try {
+            const vendorId = this.assertOwnAccount(req);
+            const { report, job } = await this.productImportService.importProducts(vendorId, req.file, {
+                dryRun: req.body.dryRun === true,
+                upsert: req.body.upsert === true,
+            });
+
+            if (job) {
+                res.status(202).json({
+                    success: true,
+                    message: 'Import queued; check the job for its report',
+                    data: { jobId: job.id, status: job.status, totalRows: job.totalRows, dryRun: job.dryRun },
+                });
+                return;
+            }
+
+            res.status(200).json({ success: true, data: report });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get the status and report of a background import job
+     * @route GET /vendors/:vendorId/products/import/:jobId
+     * @access Vendor
+     */
+    async getImportJob(req: VendorAuthRequest<{ vendorId: string; jobId: string }>, res: Response): Promise<void> {
+        try {
+            const vendorId = this.assertOwnAccount(req);
+            const job = await this.productImportService.getJob(vendorId, this.parseId(req.params.jobId, 'import job'));
+            res.status(200).json({ success: true, data: job });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest, VendorAuthRequest } from '../middlewares/auth.middleware';
+import { ProductQuestionService } from '../service/productQuestion.service';
+import {
+    AdminQuestionQueryInput,
+    AnswerQuestionInput,
+    AskQuestionInput,
+    ModerateQuestionInput,
+    QuestionQueryInput,
+} from '../utils/zod_validations/productQuestion.zod';
+
+/**
+ * @class ProductQuestionController
+ * @description Handles HTTP requests for product questions and answers: public listing,
+ * asking, vendor and customer answers, upvotes and admin moderation.
+ */
+export class ProductQuestionController {
+    private questionService: ProductQuestionService;
+
+    constructor() {
+        this.questionService = new ProductQuestionService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string, label: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, `Invalid ${label} ID`);
+        }
+        return parsed;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc List a product's published questions with their answers
+     * @route GET /questions/products/:productId?page=&limit=&sort=
+     * @access Public
+     */
+    async getProductQuestions(req: Request<{ productId: string }, {}, {}, QuestionQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.getProductQuestions(this.parseId(req.params.productId, 'product'), req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Ask a question about a product
+     * @route POST /questions
+     * @access Authenticated user
+     */
+    async askQuestion(req: AuthRequest<{}, {}, AskQuestionInput>, res: Response): Promise<void> {
+        try {
+            const question = await this.questionService.askQuestion(req.user!.id, req.body);
+            res.status(201).json({ success: true, data: question });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Answer a question as a customer who bought the product
+     * @route POST /questions/:id/answers
+     * @access Authenticated user
+     */
+    async answerAsCustomer(req: AuthRequest<{ id: string }, {}, AnswerQuestionInput>, res: Response): Promise<void> {
+        try {
+            const answer = await this.questionService.answerAsCustomer(req.user!.id, this.parseId(req.params.id, 'question'), req.body);
+            res.status(201).json({ success: true, data: answer });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Answer a question about one of the vendor's products
+     * @route POST /questions/:id/vendor-answers
+     * @access Vendor
+     */
+    async answerAsVendor(req: VendorAuthRequest<{ id: string }, {}, AnswerQuestionInput>, res: Response): Promise<void> {
+        try {
+            const answer = await this.questionService.answerAsVendor(req.vendor!.id, this.parseId(req.params.id, 'question'), req.body);
+            res.status(201).json({ success: true, data: answer });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Upvote a question
+     * @route POST /questions/:id/upvote
+     * @access Authenticated user
+     */
+    async upvoteQuestion(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.upvoteQuestion(req.user!.id, this.parseId(req.params.id, 'question'));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Remove an upvote from a question
+     * @route DELETE /questions/:id/upvote
+     * @access Authenticated user
+     */
+    async removeQuestionUpvote(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.removeQuestionUpvote(req.user!.id, this.parseId(req.params.id, 'question'));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Upvote an answer
+     * @route POST /questions/answers/:answerId/upvote
+     * @access Authenticated user
+     */
+    async upvoteAnswer(req: AuthRequest<{ answerId: string }>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.upvoteAnswer(req.user!.id, this.parseId(req.params.answerId, 'answer'));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Remove an upvote from an answer
+     * @route DELETE /questions/answers/:answerId/upvote
+     * @access Authenticated user
+     */
+    async removeAnswerUpvote(req: AuthRequest<{ answerId: string }>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.removeAnswerUpvote(req.user!.id, this.parseId(req.params.answerId, 'answer'));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc List questions of all statuses with all their answers for moderation
+     * @route GET /questions/admin?status=&productId=&page=&limit=
+     * @access Admin | Staff
+     */
+    async getQuestionsForModeration(req: AuthRequest<{}, {}, {}, AdminQuestionQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.questionService.getQuestionsForModeration(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Publish or hide a question
+     * @route PUT /questions/:id/moderate
+     * @access Admin | Staff
+     */
+    async moderateQuestion(req: AuthRequest<{ id: string }, {}, ModerateQuestionInput>, res: Response): Promise<void> {
+        try {
+            const question = await this.questionService.moderateQuestion(this.parseId(req.params.id, 'question'), req.body);
+            res.status(200).json({ success: true, data: question });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Publish or hide an answer
+     * @route PUT /questions/answers/:answerId/moderate
+     * @access Admin | Staff
+     */
+    async moderateAnswer(req: AuthRequest<{ answerId: string }, {}, ModerateQuestionInput>, res: Response): Promise<void> {
+        try {
+            const answer = await this.questionService.moderateAnswer(this.parseId(req.params.answerId, 'answer'), req.body);
+            res.status(200).json({ success: true, data: answer });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete a question with its answers
+     * @route DELETE /questions/:id
+     * @access Admin | Staff
+     */
+    async deleteQuestion(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.questionService.deleteQuestion(this.parseId(req.params.id, 'question'));
+            res.status(200).json({ success: true, message: 'Question deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete an answer
+     * @route DELETE /questions/answers/:answerId
+     * @access Admin | Staff
+     */
+    async deleteAnswer(req: AuthRequest<{ answerId: string }>, res: Response): Promise<void> {
+        try {
+            await this.questionService.deleteAnswer(this.parseId(req.params.answerId, 'answer'));
+            res.status(200).json({ success: true, message: 'Answer deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
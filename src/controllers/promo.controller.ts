@@ -1,6 +1,6 @@
 import { Request, Response } from "express";
 import { PromoService } from "../service/promo.service";
-import { CreatePromoCodeInput, createPromoSchema, DeletePromoCodeInput } from '../utils/zod_validations/promo.zod';
+import { CreatePromoCodeInput, createPromoSchema, DeletePromoCodeInput, UpdatePromoCodeInput } from '../utils/zod_validations/promo.zod';
 import { APIError } from "../utils/ApiError.utils";
 
 
@@ -48,6 +48,47 @@ export class PromoController {
 
     }
 
+    async updatePromo(req: Request<{ id: string }>, res: Response) {
+        try {
+            const id = parseInt(req.params.id, 10);
+            if (isNaN(id)) {
+                throw new APIError(400, "Invalid promo id")
+            }
+
+            const promoData: UpdatePromoCodeInput = req.body;
+            const promoCode = await this.promoService.updatePromo(id, promoData);
+
+            res.status(200).json({ success: true, promocode: promoCode })
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                console.error('promo code update error:', error);
+                res.status(500).json({ success: false, message: 'Internal Server Error' });
+            }
+        }
+    }
+
+    async getPromoUsage(req: Request<{ id: string }>, res: Response) {
+        try {
+            const id = parseInt(req.params.id, 10);
+            if (isNaN(id)) {
+                throw new APIError(400, "Invalid promo id")
+            }
+
+            const usage = await this.promoService.getPromoUsage(id);
+
+            res.status(200).json({ success: true, data: usage })
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                console.error('promo usage report error:', error);
+                res.status(500).json({ success: false, message: 'Internal Server Error' });
+            }
+        }
+    }
+
     async deletePromo(req: Request, res: Response) {
         try {
 
@@ -0,0 +1,220 @@
+import { Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest, VendorAuthRequest } from '../middlewares/auth.middleware';
+import { ReturnService } from '../service/return.service';
+import { ReturnStatus } from '../entities/returnRequest.entity';
+import { ICreateReturnRequest, IRefundReturnRequest, IReviewReturnRequest } from '../interface/return.interface';
+
+/**
+ * @class ReturnController
+ * @description Handles HTTP requests for the return (RMA) workflow:
+ * customer requests, vendor/admin review, receipt of goods and refunds.
+ */
+export class ReturnController {
+    private returnService: ReturnService;
+
+    constructor() {
+        this.returnService = new ReturnService();
+    }
+
+    /**
+     * Parse the return request ID from route params
+     */
+    private parseReturnId(id: string): number {
+        const returnId = parseInt(id, 10);
+        if (isNaN(returnId)) {
+            throw new APIError(400, 'Invalid return request ID');
+        }
+        return returnId;
+    }
+
+    /**
+     * Validate an optional status filter from the query string
+     */
+    private parseStatus(status?: string): ReturnStatus | undefined {
+        if (!status) {
+            return undefined;
+        }
+        if (!Object.values(ReturnStatus).includes(status as ReturnStatus)) {
+            throw new APIError(400, 'Invalid return status');
+        }
+        return status as ReturnStatus;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Request a return for items of a delivered order
+     * @route POST /order/returns
+     * @access Customer
+     * @param req.body {ICreateReturnRequest} Order ID, reason, comments and items to return
+     * @returns One return request per vendor involved
+     */
+    async createReturnRequest(req: AuthRequest<{}, {}, ICreateReturnRequest>, res: Response): Promise<void> {
+        try {
+            const requests = await this.returnService.createReturnRequest(req.user!.id, req.body);
+            res.status(201).json({ success: true, data: requests });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get the authenticated customer's return requests
+     * @route GET /order/returns
+     * @access Customer
+     */
+    async getCustomerReturns(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            const requests = await this.returnService.getCustomerReturns(req.user!.id);
+            res.status(200).json({ success: true, data: requests });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get one of the authenticated customer's return requests
+     * @route GET /order/returns/:id
+     * @access Customer
+     */
+    async getCustomerReturnById(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.getCustomerReturnById(req.user!.id, this.parseReturnId(req.params.id));
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Cancel a return request that has not been reviewed yet
+     * @route PUT /order/returns/:id/cancel
+     * @access Customer
+     */
+    async cancelReturnRequest(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.cancelReturnRequest(req.user!.id, this.parseReturnId(req.params.id));
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get return requests for the authenticated vendor
+     * @route GET /order/returns/vendor?status=
+     * @access Vendor
+     */
+    async getVendorReturns(req: VendorAuthRequest<{}, {}, {}, { status?: string }>, res: Response): Promise<void> {
+        try {
+            const requests = await this.returnService.getVendorReturns(req.vendor!.id, this.parseStatus(req.query.status));
+            res.status(200).json({ success: true, data: requests });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Approve or reject a return request for the vendor's items
+     * @route PUT /order/returns/vendor/:id/review
+     * @access Vendor
+     */
+    async vendorReviewReturn(req: VendorAuthRequest<{ id: string }, {}, IReviewReturnRequest>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.reviewReturnRequest(
+                this.parseReturnId(req.params.id),
+                req.body,
+                { vendorId: req.vendor!.id }
+            );
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Mark the vendor's returned goods as received and restock them
+     * @route PUT /order/returns/vendor/:id/receive
+     * @access Vendor
+     */
+    async vendorReceiveReturn(req: VendorAuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.receiveReturn(this.parseReturnId(req.params.id), { vendorId: req.vendor!.id });
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get all return requests
+     * @route GET /order/returns/admin?status=
+     * @access Admin or Staff
+     */
+    async getAllReturns(req: AuthRequest<{}, {}, {}, { status?: string }>, res: Response): Promise<void> {
+        try {
+            const requests = await this.returnService.getAllReturns(this.parseStatus(req.query.status));
+            res.status(200).json({ success: true, data: requests });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Approve or reject any return request
+     * @route PUT /order/returns/admin/:id/review
+     * @access Admin or Staff
+     */
+    async adminReviewReturn(req: AuthRequest<{ id: string }, {}, IReviewReturnRequest>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.reviewReturnRequest(
+                this.parseReturnId(req.params.id),
+                req.body,
+                { userId: req.user!.id }
+            );
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Mark returned goods as received and restock them
+     * @route PUT /order/returns/admin/:id/receive
+     * @access Admin or Staff
+     */
+    async adminReceiveReturn(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.receiveReturn(this.parseReturnId(req.params.id), { userId: req.user!.id });
+            res.status(200).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Refund the value of received return goods
+     * @route POST /order/returns/admin/:id/refund
+     * @access Admin
+     * @param req.body {IRefundReturnRequest} Settlement reference for manual refunds
+     */
+    async refundReturn(req: AuthRequest<{ id: string }, {}, IRefundReturnRequest>, res: Response): Promise<void> {
+        try {
+            const request = await this.returnService.refundReturn(
+                this.parseReturnId(req.params.id),
+                req.user!.id,
+                req.body.reference
+            );
+            res.status(201).json({ success: true, data: request });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -1,10 +1,19 @@
 import { Request, Response } from 'express';
 import { DataSource } from 'typeorm';
 import { APIError } from '../utils/ApiError.utils';
-import { AuthRequest } from '../middlewares/auth.middleware';
+import { AuthRequest, VendorAuthRequest } from '../middlewares/auth.middleware';
 import { ReviewService } from '../service/review.service';
 import { ICreateReviewRequest } from '../interface/review.interface';
-import { UpdateReviewInput } from '../utils/zod_validations/review.zod';
+import {
+    AdminReviewQueryInput,
+    DisputeQueryInput,
+    ModerateReviewInput,
+    ReportReviewInput,
+    ResolveDisputeInput,
+    ReviewQueryInput,
+    UpdateReviewInput,
+    VendorReplyInput,
+} from '../utils/zod_validations/review.zod';
 import AppDataSource from '../config/db.config';
 
 /**
@@ -27,7 +36,8 @@ export class ReviewController {
      * @method createReview
      * @route POST /reviews
      * @description Creates a new product review submitted by an authenticated user.
-     * Associates the review with the authenticated user’s ID.
+     * Associates the review with the authenticated user’s ID. Photos are optional ("photos" file field);
+     * reviews flagged by the content check are held for moderation.
      * @param {AuthRequest<{}, {}, ICreateReviewRequest>} req - Authenticated request with review data in the body.
      * @param {Response} res - HTTP response object.
      * @returns {Promise<void>} Responds with the created review or appropriate error.
@@ -36,7 +46,8 @@ export class ReviewController {
     async createReview(req: AuthRequest<{}, {}, ICreateReviewRequest, {}>, res: Response) {
         try {
             // Create review through service layer with user ID from authenticated request
-            const review = await this.reviewService.createReview(req.body, req.user!.id);
+            const photos = (req.files as Express.Multer.File[] | undefined) || [];
+            const review = await this.reviewService.createReview(req.body, req.user!.id, photos);
 
             // Return created review with 201 status
             res.status(201).json({ success: true, data: review });
@@ -56,23 +67,23 @@ export class ReviewController {
 
     /**
      * @method getReviewsByProductId
-     * @route GET /reviews/product/:productId
-     * @description Retrieves all reviews for a specific product identified by its ID.
-     * Includes aggregated review data and statistics.
+     * @route GET /reviews/:productId?page=&limit=&sort=
+     * @description Retrieves the approved reviews for a specific product identified by its ID.
+     * Includes aggregated review data and statistics. Sorted by newest, most helpful or rating.
      * @param {Request<{ productId: string }>} req - Request with product ID in route parameters.
      * @param {Response} res - HTTP response object.
      * @returns {Promise<void>} Responds with product reviews and review statistics.
      * @access Public
      */
-    async getReviewsByProductId(req: Request<{ productId: string }, {}, {}, { page: number }>, res: Response) {
+    async getReviewsByProductId(req: Request<{ productId: string }, {}, {}, ReviewQueryInput>, res: Response) {
         try {
-            const page = req.query.page;
+            const { page, limit, sort } = req.query;
 
             // Extract product ID from route parameters
             const { productId } = req.params;
 
             // Fetch reviews for the specified product
-            const result = await this.reviewService.getReviewsByProductId(Number(productId), page);
+            const result = await this.reviewService.getReviewsByProductId(Number(productId), page, limit, sort);
 
             // Return reviews data with success status
             res.status(200).json({ success: true, data: result });
@@ -175,4 +186,207 @@ export class ReviewController {
             });
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * @method getModerationQueue
+     * @route GET /reviews/admin/queue?status=&productId=&page=&limit=
+     * @description Lists reviews awaiting moderation (or of another status), oldest first.
+     * @access Admin | Staff
+     */
+    async getModerationQueue(req: AuthRequest<{}, {}, {}, AdminReviewQueryInput>, res: Response) {
+        try {
+            const result = await this.reviewService.getModerationQueue(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method moderateReview
+     * @route PUT /reviews/:id/moderate
+     * @description Approves or rejects a review.
+     * @access Admin | Staff
+     */
+    async moderateReview(req: AuthRequest<{ id: string }, {}, ModerateReviewInput>, res: Response) {
+        try {
+            const review = await this.reviewService.moderateReview(this.parseReviewId(req.params.id), req.body);
+            res.status(200).json({ success: true, data: review });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method markHelpful
+     * @route POST /reviews/:id/helpful
+     * @description Marks a review as helpful; one vote per user.
+     * @access Authenticated
+     */
+    async markHelpful(req: AuthRequest<{ id: string }>, res: Response) {
+        try {
+            const result = await this.reviewService.markHelpful(req.user!.id, this.parseReviewId(req.params.id));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method unmarkHelpful
+     * @route DELETE /reviews/:id/helpful
+     * @description Removes the user's helpful vote from a review.
+     * @access Authenticated
+     */
+    async unmarkHelpful(req: AuthRequest<{ id: string }>, res: Response) {
+        try {
+            const result = await this.reviewService.unmarkHelpful(req.user!.id, this.parseReviewId(req.params.id));
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method replyToReview
+     * @route PUT /reviews/:id/reply
+     * @description Adds or edits the vendor's public reply to a review of their product.
+     * @access Vendor
+     */
+    async replyToReview(req: VendorAuthRequest<{ id: string }, {}, VendorReplyInput>, res: Response) {
+        try {
+            const review = await this.reviewService.replyToReview(req.vendor!.id, this.parseReviewId(req.params.id), req.body);
+            res.status(200).json({ success: true, data: review });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method deleteReply
+     * @route DELETE /reviews/:id/reply
+     * @description Removes the vendor's reply from a review.
+     * @access Vendor
+     */
+    async deleteReply(req: VendorAuthRequest<{ id: string }>, res: Response) {
+        try {
+            await this.reviewService.deleteReply(req.vendor!.id, this.parseReviewId(req.params.id));
+            res.status(200).json({ success: true, message: 'Reply deleted successfully' });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method reportReview
+     * @route POST /reviews/:id/report
+     * @description Reports a review of the vendor's product to the admin dispute queue.
+     * @access Vendor
+     */
+    async reportReview(req: VendorAuthRequest<{ id: string }, {}, ReportReviewInput>, res: Response) {
+        try {
+            const dispute = await this.reviewService.reportReview(req.vendor!.id, this.parseReviewId(req.params.id), req.body);
+            res.status(201).json({ success: true, data: dispute });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method getVendorDisputes
+     * @route GET /reviews/vendor/disputes?status=&page=&limit=
+     * @description Lists the disputes raised by the vendor with their outcome.
+     * @access Vendor
+     */
+    async getVendorDisputes(req: VendorAuthRequest<{}, {}, {}, DisputeQueryInput>, res: Response) {
+        try {
+            const result = await this.reviewService.getVendorDisputes(req.vendor!.id, req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method getDisputeQueue
+     * @route GET /reviews/admin/disputes?status=&page=&limit=
+     * @description Lists open review disputes (or of another status), oldest first.
+     * @access Admin | Staff
+     */
+    async getDisputeQueue(req: AuthRequest<{}, {}, {}, DisputeQueryInput>, res: Response) {
+        try {
+            const result = await this.reviewService.getDisputeQueue(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * @method resolveDispute
+     * @route PUT /reviews/disputes/:disputeId/resolve
+     * @description Upholds (rejecting the review) or dismisses a review dispute.
+     * @access Admin | Staff
+     */
+    async resolveDispute(req: AuthRequest<{ disputeId: string }, {}, ResolveDisputeInput>, res: Response) {
+        try {
+            const disputeId = parseInt(req.params.disputeId, 10);
+            if (isNaN(disputeId)) {
+                throw new APIError(400, 'Invalid dispute ID');
+            }
+
+            const dispute = await this.reviewService.resolveDispute(disputeId, req.user!.id, req.body);
+            res.status(200).json({ success: true, data: dispute });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    private parseReviewId(id: string): number {
+        const reviewId = parseInt(id, 10);
+        if (isNaN(reviewId)) {
+            throw new APIError(400, 'Invalid review ID');
+        }
+        return reviewId;
+    }
+}
@@ -0,0 +1,44 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { SearchService } from '../service/search.service';
+import { SearchSuggestionQueryInput } from '../utils/zod_validations/search.zod';
+
+/**
+ * @class SearchController
+ * @description Handles HTTP requests for search autocomplete.
+ */
+export class SearchController {
+    private searchService: SearchService;
+
+    constructor() {
+        this.searchService = new SearchService();
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Get autocomplete suggestions for a partial search query
+     * @route GET /api/search/suggestions?q=&limit=
+     * @access Public
+     */
+    async getSuggestions(
+        req: Request<{}, {}, {}, SearchSuggestionQueryInput>,
+        res: Response
+    ): Promise<void> {
+        try {
+            const suggestions = await this.searchService.getSuggestions({
+                q: req.query.q,
+                limit: req.query.limit,
+            });
+            res.status(200).json({ success: true, data: suggestions });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
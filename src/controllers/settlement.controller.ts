@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { SettlementService } from '../service/settlement.service';
+import {
+    CreateCommissionRateInput,
+    MarkPayoutPaidInput,
+    PayoutBatchQueryInput,
+    UpdateCommissionRateInput,
+} from '../utils/zod_validations/settlement.zod';
+
+/**
+ * @class SettlementController
+ * @description Handles admin HTTP requests for commission rates, payout batches and payouts.
+ * Vendor balance and statement endpoints live on the vendor dashboard.
+ */
+export class SettlementController {
+    private settlementService: SettlementService;
+
+    constructor() {
+        this.settlementService = new SettlementService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string, label: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, `Invalid ${label} ID`);
+        }
+        return parsed;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Get all commission rates
+     * @route GET /settlements/commission-rates
+     * @access Admin | Staff
+     */
+    async getCommissionRates(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            const rates = await this.settlementService.getCommissionRates();
+            res.status(200).json({ success: true, data: rates });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Create a vendor, category or vendor-in-category commission rate
+     * @route POST /settlements/commission-rates
+     * @access Admin
+     */
+    async createCommissionRate(req: AuthRequest<{}, {}, CreateCommissionRateInput>, res: Response): Promise<void> {
+        try {
+            const rate = await this.settlementService.createCommissionRate(req.body);
+            res.status(201).json({ success: true, data: rate });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Change a commission rate
+     * @route PUT /settlements/commission-rates/:id
+     * @access Admin
+     */
+    async updateCommissionRate(req: AuthRequest<{ id: string }, {}, UpdateCommissionRateInput>, res: Response): Promise<void> {
+        try {
+            const rate = await this.settlementService.updateCommissionRate(this.parseId(req.params.id, 'commission rate'), req.body);
+            res.status(200).json({ success: true, data: rate });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete a commission rate
+     * @route DELETE /settlements/commission-rates/:id
+     * @access Admin
+     */
+    async deleteCommissionRate(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.settlementService.deleteCommissionRate(this.parseId(req.params.id, 'commission rate'));
+            res.status(200).json({ success: true, message: 'Commission rate deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Generate a payout batch now instead of waiting for the payout cycle
+     * @route POST /settlements/batches
+     * @access Admin
+     */
+    async generatePayoutBatch(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            const batch = await this.settlementService.generatePayoutBatch();
+            if (!batch) {
+                res.status(200).json({ success: true, data: null, message: 'No vendor balance is due for payout' });
+                return;
+            }
+            res.status(201).json({ success: true, data: batch });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get payout batches
+     * @route GET /settlements/batches?status=&page=&limit=
+     * @access Admin | Staff
+     */
+    async getPayoutBatches(req: AuthRequest<{}, {}, {}, PayoutBatchQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.settlementService.getPayoutBatches(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get a payout batch with its payouts
+     * @route GET /settlements/batches/:id
+     * @access Admin | Staff
+     */
+    async getPayoutBatchById(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const batch = await this.settlementService.getPayoutBatchById(this.parseId(req.params.id, 'payout batch'));
+            res.status(200).json({ success: true, data: batch });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Approve a payout batch for transfer
+     * @route PUT /settlements/batches/:id/approve
+     * @access Admin
+     */
+    async approvePayoutBatch(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const batch = await this.settlementService.approvePayoutBatch(this.parseId(req.params.id, 'payout batch'), req.user!.id);
+            res.status(200).json({ success: true, data: batch });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Mark a payout as paid with the bank transfer reference
+     * @route PUT /settlements/payouts/:id/paid
+     * @access Admin
+     */
+    async markPayoutPaid(req: AuthRequest<{ id: string }, {}, MarkPayoutPaidInput>, res: Response): Promise<void> {
+        try {
+            const payout = await this.settlementService.markPayoutPaid(this.parseId(req.params.id, 'payout'), req.user!.id, req.body);
+            res.status(200).json({ success: true, data: payout });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -0,0 +1,178 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { ShippingService } from '../service/shipping.service';
+import { IShippingQuoteRequest, IShippingVendorRateRequest, IShippingZoneRequest } from '../interface/shipping.interface';
+
+/**
+ * @class ShippingController
+ * @description Handles HTTP requests for shipping zones, per-vendor rate overrides and shipping quotes.
+ */
+export class ShippingController {
+    private shippingService: ShippingService;
+
+    constructor() {
+        this.shippingService = new ShippingService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string, label: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, `Invalid ${label} ID`);
+        }
+        return parsed;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Create a shipping zone
+     * @route POST /shipping/zones
+     * @access Admin | Staff
+     */
+    async createZone(req: AuthRequest<{}, {}, IShippingZoneRequest>, res: Response): Promise<void> {
+        try {
+            const zone = await this.shippingService.createZone(req.body);
+            res.status(201).json({ success: true, data: zone });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get all shipping zones
+     * @route GET /shipping/zones
+     * @access Admin | Staff
+     */
+    async getZones(req: AuthRequest, res: Response): Promise<void> {
+        try {
+            const zones = await this.shippingService.getZones();
+            res.status(200).json({ success: true, data: zones });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get a shipping zone with its districts and vendor overrides
+     * @route GET /shipping/zones/:id
+     * @access Admin | Staff
+     */
+    async getZoneById(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            const zone = await this.shippingService.getZoneById(this.parseId(req.params.id, 'zone'));
+            res.status(200).json({ success: true, data: zone });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Update a shipping zone
+     * @route PUT /shipping/zones/:id
+     * @access Admin | Staff
+     */
+    async updateZone(req: AuthRequest<{ id: string }, {}, Partial<IShippingZoneRequest>>, res: Response): Promise<void> {
+        try {
+            const zone = await this.shippingService.updateZone(this.parseId(req.params.id, 'zone'), req.body);
+            res.status(200).json({ success: true, data: zone });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete a shipping zone
+     * @route DELETE /shipping/zones/:id
+     * @access Admin
+     */
+    async deleteZone(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.shippingService.deleteZone(this.parseId(req.params.id, 'zone'));
+            res.status(200).json({ success: true, message: 'Shipping zone deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get vendor shipping overrides
+     * @route GET /shipping/vendor-rates?vendorId=
+     * @access Admin | Staff
+     */
+    async getVendorRates(req: AuthRequest<{}, {}, {}, { vendorId?: string }>, res: Response): Promise<void> {
+        try {
+            const vendorId = req.query.vendorId ? this.parseId(req.query.vendorId, 'vendor') : undefined;
+            const rates = await this.shippingService.getVendorRates(vendorId);
+            res.status(200).json({ success: true, data: rates });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Create a vendor shipping override
+     * @route POST /shipping/vendor-rates
+     * @access Admin | Staff
+     */
+    async createVendorRate(req: AuthRequest<{}, {}, IShippingVendorRateRequest>, res: Response): Promise<void> {
+        try {
+            const rate = await this.shippingService.createVendorRate(req.body);
+            res.status(201).json({ success: true, data: rate });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Update a vendor shipping override
+     * @route PUT /shipping/vendor-rates/:id
+     * @access Admin | Staff
+     */
+    async updateVendorRate(req: AuthRequest<{ id: string }, {}, Partial<IShippingVendorRateRequest>>, res: Response): Promise<void> {
+        try {
+            const rate = await this.shippingService.updateVendorRate(this.parseId(req.params.id, 'shipping override'), req.body);
+            res.status(200).json({ success: true, data: rate });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Delete a vendor shipping override
+     * @route DELETE /shipping/vendor-rates/:id
+     * @access Admin
+     */
+    async deleteVendorRate(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.shippingService.deleteVendorRate(this.parseId(req.params.id, 'shipping override'));
+            res.status(200).json({ success: true, message: 'Shipping override deleted successfully' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Quote the shipping fee for items going to an address
+     * @route POST /shipping/quote
+     * @access Public
+     * @returns Total shipping fee and the fee of each vendor shipment
+     */
+    async getQuote(req: Request<{}, {}, IShippingQuoteRequest>, res: Response): Promise<void> {
+        try {
+            const quote = await this.shippingService.getQuote(req.body);
+            res.status(200).json({ success: true, data: quote });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
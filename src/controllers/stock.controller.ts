@@ -0,0 +1,72 @@
+import { Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { CombinedAuthRequest } from '../middlewares/auth.middleware';
+import { StockMovementService } from '../service/stockMovement.service';
+import { StockMovementQueryInput, StockReconciliationQueryInput } from '../utils/zod_validations/stock.zod';
+
+/**
+ * @class StockController
+ * @description Handles HTTP requests for the stock movement ledger:
+ * per-product movement history and the stock reconciliation report.
+ */
+export class StockController {
+    private stockMovementService: StockMovementService;
+
+    constructor() {
+        this.stockMovementService = new StockMovementService();
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Get the stock movement history of a product
+     * @route GET /api/stock/products/:productId/movements?page=&limit=&variantId=&reason=
+     * @access Admin | Staff | Vendor (own products)
+     */
+    async getProductMovements(
+        req: CombinedAuthRequest<{ productId: string }, {}, {}, StockMovementQueryInput>,
+        res: Response
+    ): Promise<void> {
+        try {
+            const productId = parseInt(req.params.productId, 10);
+            if (isNaN(productId)) {
+                throw new APIError(400, 'Invalid product ID');
+            }
+
+            const history = await this.stockMovementService.getProductMovements(
+                productId,
+                req.query,
+                req.vendor ? { vendorId: req.vendor.id } : {},
+            );
+            res.status(200).json({ success: true, data: history });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Compare current stock with the stock ledger
+     * @route GET /api/stock/reconciliation?vendorId=&productId=&mismatchedOnly=
+     * @access Admin | Staff | Vendor (own products)
+     */
+    async getReconciliation(
+        req: CombinedAuthRequest<{}, {}, {}, StockReconciliationQueryInput>,
+        res: Response
+    ): Promise<void> {
+        try {
+            const report = await this.stockMovementService.getReconciliation({
+                ...req.query,
+                vendorId: req.vendor ? req.vendor.id : req.query.vendorId,
+            });
+            res.status(200).json({ success: true, data: report });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -0,0 +1,195 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest, CombinedAuthRequest } from '../middlewares/auth.middleware';
+import { TwoFactorService } from '../service/twoFactor.service';
+import { sendLoginSession } from '../utils/loginSession.utils';
+import {
+    TwoFactorChallengeInput,
+    TwoFactorCodeInput,
+    TwoFactorConfirmInput,
+    TwoFactorLoginInput,
+} from '../utils/zod_validations/twoFactor.zod';
+
+/**
+ * @class TwoFactorController
+ * @description Handles two-factor enrollment, the second step of admin, staff and vendor logins, and admin resets.
+ */
+export class TwoFactorController {
+    private twoFactorService: TwoFactorService;
+
+    constructor() {
+        this.twoFactorService = new TwoFactorService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, 'Invalid account ID');
+        }
+        return parsed;
+    }
+
+    private account(req: CombinedAuthRequest<any, any, any, any>) {
+        const account = req.vendor ?? req.user;
+        if (!account) {
+            throw new APIError(401, 'Unauthorized');
+        }
+        return account;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Complete a login with an app, recovery or emailed code
+     * @route POST /auth/2fa/login/verify
+     * @access Public (challenge token)
+     */
+    async verifyLogin(req: Request<{}, {}, TwoFactorLoginInput>, res: Response): Promise<void> {
+        try {
+            const { challengeToken, ...input } = req.body;
+            const { account, session, recoveryCodes } = await this.twoFactorService.completeLogin(challengeToken, input as TwoFactorCodeInput);
+            sendLoginSession(res, session, account, recoveryCodes ? { recoveryCodes } : {});
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Email a one-time login code
+     * @route POST /auth/2fa/login/email-code
+     * @access Public (challenge token)
+     */
+    async sendLoginEmailCode(req: Request<{}, {}, TwoFactorChallengeInput>, res: Response): Promise<void> {
+        try {
+            await this.twoFactorService.sendLoginEmailCode(req.body.challengeToken);
+            res.status(200).json({ success: true, message: 'A login code has been sent to your email' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Start enrollment for an admin or staff login that requires two-factor
+     * @route POST /auth/2fa/login/enroll
+     * @access Public (challenge token)
+     */
+    async startLoginEnrollment(req: Request<{}, {}, TwoFactorChallengeInput>, res: Response): Promise<void> {
+        try {
+            const enrollment = await this.twoFactorService.startLoginEnrollment(req.body.challengeToken);
+            res.status(200).json({ success: true, data: enrollment });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get the two-factor state of the logged-in account
+     * @route GET /auth/2fa
+     * @access Admin | Staff | Vendor
+     */
+    async getStatus(req: CombinedAuthRequest, res: Response): Promise<void> {
+        try {
+            const status = await this.twoFactorService.getStatus(this.account(req));
+            res.status(200).json({ success: true, data: status });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Start enrollment with a new authenticator secret
+     * @route POST /auth/2fa/enroll
+     * @access Admin | Staff | Vendor
+     */
+    async startEnrollment(req: CombinedAuthRequest, res: Response): Promise<void> {
+        try {
+            const enrollment = await this.twoFactorService.startEnrollment(this.account(req));
+            res.status(200).json({ success: true, data: enrollment });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Turn two-factor on with the first code from the authenticator app
+     * @route POST /auth/2fa/enroll/confirm
+     * @access Admin | Staff | Vendor
+     */
+    async confirmEnrollment(req: CombinedAuthRequest<{}, {}, TwoFactorConfirmInput>, res: Response): Promise<void> {
+        try {
+            const recoveryCodes = await this.twoFactorService.confirmEnrollment(this.account(req), req.body.code);
+            res.status(200).json({
+                success: true,
+                message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+                data: { recoveryCodes },
+            });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Replace the recovery codes
+     * @route POST /auth/2fa/recovery-codes
+     * @access Admin | Staff | Vendor
+     */
+    async regenerateRecoveryCodes(req: CombinedAuthRequest<{}, {}, TwoFactorCodeInput>, res: Response): Promise<void> {
+        try {
+            const recoveryCodes = await this.twoFactorService.regenerateRecoveryCodes(this.account(req), req.body);
+            res.status(200).json({ success: true, data: { recoveryCodes } });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Turn two-factor off
+     * @route DELETE /auth/2fa
+     * @access Vendor
+     */
+    async disable(req: CombinedAuthRequest<{}, {}, TwoFactorCodeInput>, res: Response): Promise<void> {
+        try {
+            await this.twoFactorService.disable(this.account(req), req.body);
+            res.status(200).json({ success: true, message: 'Two-factor authentication disabled' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Reset a user's two-factor
+     * @route DELETE /auth/2fa/users/:id
+     * @access Admin
+     */
+    async resetUser(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.twoFactorService.reset({ userId: this.parseId(req.params.id) });
+            res.status(200).json({ success: true, message: 'Two-factor authentication reset' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Reset a vendor's two-factor
+     * @route DELETE /auth/2fa/vendors/:id
+     * @access Admin
+     */
+    async resetVendor(req: AuthRequest<{ id: string }>, res: Response): Promise<void> {
+        try {
+            await this.twoFactorService.reset({ vendorId: this.parseId(req.params.id) });
+            res.status(200).json({ success: true, message: 'Two-factor authentication reset' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
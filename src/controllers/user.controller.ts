@@ -8,9 +8,11 @@ import { signupSchema, loginSchema, verificationTokenSchema, verifyTokenSchema,
 import { APIError } from '../utils/ApiError.utils';
 import { AuthProvider, User, UserRole } from '../entities/user.entity';
 import { AuthRequest, CombinedAuthRequest, isVendor } from '../middlewares/auth.middleware';
-import { sendVerificationEmail } from '../utils/nodemailer.utils';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../utils/nodemailer.utils';
 import AppDataSource from '../config/db.config';
 import { VendorService } from '../service/vendor.service';
+import { TwoFactorService } from '../service/twoFactor.service';
+import { sendLoginSession } from '../utils/loginSession.utils';
 import { PaginationHelper } from '../utils/helpers/PaginationHelper';
 import { ResponseBuilder } from '../utils/helpers/ResponseBuilder';
 import logger from '../config/logger.config';
@@ -50,6 +52,7 @@ class TokenUtils {
 export class UserController {
     private readonly jwtSecret: string;
     private vendorService: VendorService;
+    private twoFactorService: TwoFactorService;
     private googleClient: OAuth2Client;
 
     /**
@@ -59,6 +62,7 @@ export class UserController {
     constructor() {
         this.jwtSecret = process.env.JWT_SECRET || 'your_jwt_secret';
         this.vendorService = new VendorService();
+        this.twoFactorService = new TwoFactorService();
         this.googleClient = new OAuth2Client(process.env.GOOGLE_CLIENT_ID);
     }
 
@@ -180,32 +184,15 @@ export class UserController {
                 return;
             }
 
-            // Sign JWT token for 7 days
-            const token = jwt.sign(
-                { id: user.id, email: user.email, role: user.role },
-                process.env.JWT_SECRET || 'your_jwt_secret',
-                { expiresIn: '7d' }
-            );
-
-            // Set token cookie
-            res.cookie('token', token, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === 'production',
-                maxAge: 7 * 24 * 60 * 60 * 1000 // 7 days
-            });
+            // Admins always need a second factor; the session is issued by POST /auth/2fa/login/verify
+            const challenge = await this.twoFactorService.createLoginChallenge(user, 'admin');
+            if (challenge) {
+                res.status(200).json({ success: true, message: 'Two-factor authentication required', data: challenge });
+                return;
+            }
 
-            // Send success response with user data and token
-            res.status(200).json({
-                success: true,
-                message: 'Admin logged in successfully',
-                token,
-                data: {
-                    id: user.id,
-                    username: user.username,
-                    email: user.email,
-                    role: user.role, token
-                }
-            });
+            // Sign JWT token for 7 days, set its cookie and send user data
+            sendLoginSession(res, 'admin', user);
         } catch (error) {
             // Handle API and internal errors
             if (error instanceof APIError) {
@@ -608,27 +595,15 @@ export class UserController {
                 throw new APIError(401, "Invalid credentials");
             }
 
-            // Generate JWT
-            const token = jwt.sign(
-                { id: user.id, email: user.email, role: user.role },
-                this.jwtSecret,
-                { expiresIn: "2h" }
-            );
-
-            // Set cookie
-            res.cookie("token", token, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === "production",
-                sameSite: "strict",
-                maxAge: 2 * 60 * 60 * 1000,
-            });
+            // Admins and staff need a second factor; the session is issued by POST /auth/2fa/login/verify
+            const challenge = await this.twoFactorService.createLoginChallenge(user, "user");
+            if (challenge) {
+                res.status(200).json({ success: true, message: "Two-factor authentication required", data: challenge });
+                return;
+            }
 
-            // Response
-            res.status(200).json({
-                success: true,
-                token,
-                data: { userId: user.id, email: user.email, role: user.role },
-            });
+            // Generate JWT, set cookie and respond
+            sendLoginSession(res, "user", user);
 
         } catch (error) {
             if (error instanceof APIError) {
@@ -713,6 +688,9 @@ export class UserController {
                 }
             }
 
+            // Admins and staff must log in with their password and second factor
+            TwoFactorService.assertSocialLoginAllowed(user);
+
             // Generate JWT
             const token = jwt.sign(
                 { id: user.id, email: user.email, role: user.role },
@@ -1001,7 +979,7 @@ export class UserController {
             await (isVendor ? saveVendor(vendor) : saveUser(user));
 
             // Send an email to the user or vendor with the reset token and instructions
-            await sendVerificationEmail(entity.email, 'Reset Password', token);
+            await sendPasswordResetEmail(entity.email, token);
 
             // Respond with 202 Accepted indicating the reset email has been sent successfully
             res.status(202).json({
@@ -3,8 +3,12 @@ import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
 import { DataSource } from 'typeorm';
 import { AuthRequest, VendorAuthRequest, isVendor } from '../middlewares/auth.middleware';
-import { sendVerificationEmail } from '../utils/nodemailer.utils';
+import { sendPasswordResetEmail, sendVerificationEmail } from '../utils/nodemailer.utils';
 import { VendorService } from '../service/vendor.service';
+import { VendorKycService } from '../service/vendorKyc.service';
+import { TwoFactorService } from '../service/twoFactor.service';
+import { sendLoginSession } from '../utils/loginSession.utils';
+import { VendorStatus } from '../entities/vendorKyc.enum';
 import {
     IVendorSignupRequest,
     IVendorLoginRequest,
@@ -57,7 +61,9 @@ class TokenUtils {
 export class VendorController {
     private readonly jwtSecret: string;
     private readonly vendorService: VendorService;
+    private readonly vendorKycService: VendorKycService;
     private districtService: DistrictService;
+    private twoFactorService: TwoFactorService;
 
     /**
      * Initializes the controller with a JWT secret and VendorService instance.
@@ -65,7 +71,9 @@ export class VendorController {
     constructor(dataSource?: DataSource) {
         this.jwtSecret = process.env.JWT_SECRET || 'your_jwt_secret';
         this.vendorService = new VendorService(dataSource);
+        this.vendorKycService = new VendorKycService(dataSource);
         this.districtService = new DistrictService(dataSource);
+        this.twoFactorService = new TwoFactorService(dataSource);
     }
 
     /**
@@ -395,6 +403,10 @@ export class VendorController {
                 throw new APIError(403, 'Please verify your email before logging in');
             }
 
+            if (vendor.status === VendorStatus.SUSPENDED) {
+                throw new APIError(403, `Your vendor account has been suspended${vendor.suspensionReason ? `: ${vendor.suspensionReason}` : ''}`);
+            }
+
             if (!vendor.isApproved) {
                 throw new APIError(403, "Your account is not yet approved. You can only login once an admin approves you as a vendor.");
             }
@@ -404,25 +416,15 @@ export class VendorController {
                 throw new APIError(401, 'Invalid credentials');
             }
 
-            /* Generate JWT and set cookie */
-            const token = jwt.sign(
-                { id: vendor.id, email: vendor.email, businessName: vendor.businessName },
-                this.jwtSecret,
-                { expiresIn: '2h' }
-            );
-            res.cookie('vendorToken', token, {
-                httpOnly: true,
-                secure: process.env.NODE_ENV === 'production',
-                sameSite: 'strict',
-                maxAge: 2 * 60 * 60 * 1000,
-            });
+            /* Vendors with two-factor enabled finish at POST /auth/2fa/login/verify */
+            const challenge = await this.twoFactorService.createLoginChallenge(vendor, 'vendor');
+            if (challenge) {
+                res.status(200).json({ success: true, message: 'Two-factor authentication required', data: challenge });
+                return;
+            }
 
-            /* Send success response */
-            res.status(200).json({
-                success: true,
-                vendor: { id: vendor.id, email: vendor.email, businessName: vendor.businessName },
-                token,
-            });
+            /* Generate JWT, set cookie and send success response */
+            sendLoginSession(res, 'vendor', vendor);
         } catch (error) {
             if (error instanceof APIError) {
                 res.status(error.status).json({ success: false, message: error.message });
@@ -540,7 +542,7 @@ export class VendorController {
             await this.vendorService.saveVendor(vendor);
 
             // Send reset email
-            await sendVerificationEmail(vendor.email, 'Reset Password', token);
+            await sendPasswordResetEmail(vendor.email, token);
 
             res.status(202).json({
                 success: true,
@@ -734,27 +736,28 @@ export class VendorController {
     }
 
 
+    /**
+     * PUT /api/vendors/approve/:id
+     * Approves a verified vendor once all their KYC documents are approved.
+     *
+     * @param req {AuthRequest<{ id: string }>} - Path param with vendor ID
+     * @param res {Response} - Express response object
+     * @returns {Promise<void>} - 200 OK on approval, 400 if documents are missing or not approved
+     * @access Admin | Staff
+     */
     async approveVendor(req: AuthRequest<{ id: string }>, res: Response) {
         try {
-            const vendorId = req.params.id;
-
-            const isValid = await this.vendorService.findVendorById(Number(vendorId))
-
-            if (!isValid.isVerified) {
-                throw new APIError(400, "Vendor must be verified")
+            const vendorId = parseInt(req.params.id, 10);
+            if (isNaN(vendorId)) {
+                throw new APIError(400, 'Invalid vendor ID');
             }
 
-            const approveVendor = await this.vendorService.approveVendor(Number(vendorId));
+            await this.vendorKycService.approveVendor(vendorId, req.user!.id);
 
-            if (approveVendor.affected && approveVendor.affected > 0) {
-                await sendVerificationEmail(isValid.email, "You account has been approved")
-                res.status(200).json({
-                    success: true,
-                    message: "Vendor approved ✅ "
-                })
-            } else {
-                throw new APIError(400, "Approval failed")
-            }
+            res.status(200).json({
+                success: true,
+                message: "Vendor approved ✅ "
+            })
 
         } catch (error) {
             if (error instanceof APIError) {
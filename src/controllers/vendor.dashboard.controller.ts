@@ -1,6 +1,8 @@
 import { stat } from "fs";
 import { VendorAuthRequest } from "../middlewares/auth.middleware";
 import { VendorDashBoardService } from "../service/vendor.dashboard.service"
+import { SettlementService } from "../service/settlement.service";
+import { StatementQueryInput, VendorPayoutQueryInput } from "../utils/zod_validations/settlement.zod";
 import { APIError } from "../utils/ApiError.utils";
 import { Response } from 'express';
 import { throwDeprecation } from "process";
@@ -11,6 +13,7 @@ import { throwDeprecation } from "process";
  */
 export class VendorDashboardController {
     private dashboardService = new VendorDashBoardService();
+    private settlementService = new SettlementService();
 
     /**
      * Retrieves dashboard statistics for the authenticated vendor.
@@ -228,4 +231,78 @@ export class VendorDashboardController {
             }
         }
     }
+
+    /**
+     * Retrieves the authenticated vendor's settlement balance: available for the next payout,
+     * held for the return window, in generated payouts and paid out.
+     *
+     * @param req - VendorAuthRequest containing authenticated vendor information
+     * @param res - Express response object to send JSON response
+     */
+    async getBalance(req: VendorAuthRequest, res: Response): Promise<void> {
+        try {
+            const vendor = req.vendor;
+            if (!vendor || !vendor.id) {
+                throw new APIError(401, 'Unauthorized');
+            }
+
+            const balance = await this.settlementService.getVendorBalance(vendor.id);
+            res.status(200).json({ success: true, data: balance });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * Retrieves the authenticated vendor's statement: sales, commission and refund ledger entries
+     * in a date range with totals per entry type.
+     *
+     * @param req - VendorAuthRequest with from, to, type, page and limit query params
+     * @param res - Express response object to send JSON response
+     */
+    async getStatement(req: VendorAuthRequest<{}, {}, {}, StatementQueryInput>, res: Response): Promise<void> {
+        try {
+            const vendor = req.vendor;
+            if (!vendor || !vendor.id) {
+                throw new APIError(401, 'Unauthorized');
+            }
+
+            const statement = await this.settlementService.getVendorStatement(vendor.id, req.query);
+            res.status(200).json({ success: true, data: statement });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
+
+    /**
+     * Retrieves the authenticated vendor's payouts with their status and transfer reference.
+     *
+     * @param req - VendorAuthRequest with status, page and limit query params
+     * @param res - Express response object to send JSON response
+     */
+    async getPayouts(req: VendorAuthRequest<{}, {}, {}, VendorPayoutQueryInput>, res: Response): Promise<void> {
+        try {
+            const vendor = req.vendor;
+            if (!vendor || !vendor.id) {
+                throw new APIError(401, 'Unauthorized');
+            }
+
+            const payouts = await this.settlementService.getVendorPayouts(vendor.id, req.query);
+            res.status(200).json({ success: true, data: payouts });
+        } catch (error) {
+            if (error instanceof APIError) {
+                res.status(error.status).json({ success: false, message: error.message });
+            } else {
+                res.status(500).json({ success: false, message: 'Internal server error' });
+            }
+        }
+    }
 }
@@ -0,0 +1,144 @@
+import { Request, Response } from 'express';
+import { APIError } from '../utils/ApiError.utils';
+import { AuthRequest } from '../middlewares/auth.middleware';
+import { VendorKycService } from '../service/vendorKyc.service';
+import { KycDocumentType } from '../entities/vendorKyc.enum';
+import {
+    KycQueueQueryInput,
+    ReinstateVendorInput,
+    ResubmitKycDocumentsInput,
+    ReviewKycDocumentInput,
+    SuspendVendorInput,
+} from '../utils/zod_validations/vendorKyc.zod';
+
+/**
+ * @class VendorKycController
+ * @description Handles HTTP requests for vendor KYC document review, suspension and reinstatement.
+ * Approving a vendor stays on `PUT /api/vendors/approve/:id`.
+ */
+export class VendorKycController {
+    private vendorKycService: VendorKycService;
+
+    constructor() {
+        this.vendorKycService = new VendorKycService();
+    }
+
+    /**
+     * Parse a numeric ID from route params
+     */
+    private parseId(id: string, label: string): number {
+        const parsed = parseInt(id, 10);
+        if (isNaN(parsed)) {
+            throw new APIError(400, `Invalid ${label} ID`);
+        }
+        return parsed;
+    }
+
+    private parseDocumentType(type: string): KycDocumentType {
+        const documentType = type.toUpperCase() as KycDocumentType;
+        if (!Object.values(KycDocumentType).includes(documentType)) {
+            throw new APIError(400, `Document type must be one of ${Object.values(KycDocumentType).join(', ')}`);
+        }
+        return documentType;
+    }
+
+    private handleError(error: unknown, res: Response): void {
+        if (error instanceof APIError) {
+            res.status(error.status).json({ success: false, message: error.message });
+        } else {
+            res.status(500).json({ success: false, message: 'Internal server error' });
+        }
+    }
+
+    /**
+     * @desc Get documents waiting for KYC review, oldest first
+     * @route GET /vendors/kyc/queue?page=&limit=
+     * @access Admin | Staff
+     */
+    async getReviewQueue(req: AuthRequest<{}, {}, {}, KycQueueQueryInput>, res: Response): Promise<void> {
+        try {
+            const result = await this.vendorKycService.getReviewQueue(req.query);
+            res.status(200).json({ success: true, data: result });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Get a vendor's documents, their review status and the KYC audit trail
+     * @route GET /vendors/kyc/:vendorId
+     * @access Admin | Staff
+     */
+    async getVendorKyc(req: AuthRequest<{ vendorId: string }>, res: Response): Promise<void> {
+        try {
+            const kyc = await this.vendorKycService.getVendorKyc(this.parseId(req.params.vendorId, 'vendor'));
+            res.status(200).json({ success: true, data: kyc });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Approve or reject one of a vendor's documents
+     * @route PUT /vendors/kyc/:vendorId/documents/:type
+     * @access Admin | Staff
+     */
+    async reviewDocument(req: AuthRequest<{ vendorId: string; type: string }, {}, ReviewKycDocumentInput>, res: Response): Promise<void> {
+        try {
+            const document = await this.vendorKycService.reviewDocument(
+                this.parseId(req.params.vendorId, 'vendor'),
+                this.parseDocumentType(req.params.type),
+                req.user!.id,
+                req.body,
+            );
+            res.status(200).json({ success: true, data: document });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Re-upload rejected documents with the token from the rejection email
+     * @route POST /vendors/kyc/resubmit
+     * @access Public
+     */
+    async resubmitDocuments(req: Request<{}, {}, ResubmitKycDocumentsInput>, res: Response): Promise<void> {
+        try {
+            const documents = await this.vendorKycService.resubmitDocuments(req.body);
+            res.status(200).json({ success: true, data: documents, message: 'Documents submitted for review' });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Suspend an approved vendor and hide their products
+     * @route PUT /vendors/kyc/:vendorId/suspend
+     * @access Admin
+     */
+    async suspendVendor(req: AuthRequest<{ vendorId: string }, {}, SuspendVendorInput>, res: Response): Promise<void> {
+        try {
+            const vendor = await this.vendorKycService.suspendVendor(this.parseId(req.params.vendorId, 'vendor'), req.user!.id, req.body.reason);
+            res.status(200).json({
+                success: true,
+                data: { id: vendor.id, status: vendor.status, suspensionReason: vendor.suspensionReason, suspendedAt: vendor.suspendedAt },
+            });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+
+    /**
+     * @desc Reinstate a suspended vendor
+     * @route PUT /vendors/kyc/:vendorId/reinstate
+     * @access Admin
+     */
+    async reinstateVendor(req: AuthRequest<{ vendorId: string }, {}, ReinstateVendorInput>, res: Response): Promise<void> {
+        try {
+            const vendor = await this.vendorKycService.reinstateVendor(this.parseId(req.params.vendorId, 'vendor'), req.user!.id, req.body);
+            res.status(200).json({ success: true, data: { id: vendor.id, status: vendor.status } });
+        } catch (error) {
+            this.handleError(error, res);
+        }
+    }
+}
@@ -1,5 +1,12 @@
-import { Entity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+import { Entity, PrimaryGeneratedColumn, Column, OneToMany, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, Index } from 'typeorm';
 import { Product } from './product.entity';
+import { Vendor } from './vendor.entity';
+
+export enum BrandStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    REJECTED = 'REJECTED',
+}
 
 @Entity('brands')
 export class Brand {
@@ -9,9 +16,48 @@ export class Brand {
     @Column({ unique: true })
     name: string;
 
+    @Column({ type: 'varchar', length: 120, unique: true })
+    slug: string;
+
+    @Column({ type: 'text', nullable: true })
+    description?: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    logo?: string | null;
+
+    // Cloudinary public ID of the logo, used to delete it on replace
+    @Column({ type: 'varchar', nullable: true })
+    logoPublicId?: string | null;
+
+    // Set by admins for official brands
+    @Column({ type: 'boolean', default: false })
+    isVerified: boolean;
+
+    // Brands requested by vendors start PENDING and are hidden until approved
+    @Column({ type: 'enum', enum: BrandStatus, default: BrandStatus.APPROVED })
+    @Index()
+    status: BrandStatus;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'requestedByVendorId' })
+    requestedByVendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    requestedByVendorId?: number | null;
+
+    // Admin note shown to the vendor, e.g. why a request was rejected
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    reviewNote?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    reviewedAt?: Date | null;
+
     @OneToMany(() => Product, product => product.brand)
     products: Product[];
 
+    // Not persisted: number of products of this brand, set for listings
+    productCount?: number;
+
     @CreateDateColumn()
     created_at: Date;
 
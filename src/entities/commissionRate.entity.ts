@@ -0,0 +1,49 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Vendor } from './vendor.entity';
+import { Category } from './category.entity';
+
+// Transformer to convert decimal strings to numbers
+const decimalTransformer = {
+    to: (value: number | null | undefined): string | null => {
+        return value !== null && value !== undefined ? value.toString() : null;
+    },
+    from: (value: string | null | undefined): number | null => {
+        return value !== null && value !== undefined ? parseFloat(value) : null;
+    }
+};
+
+/**
+ * Commission percentage charged on a vendor's sales.
+ * A vendor and category rate wins over a vendor-wide rate, which wins over a category rate;
+ * sales matching none use SETTLEMENT.DEFAULT_COMMISSION_RATE.
+ */
+@Entity('commission_rates')
+@Index(['vendorId', 'categoryId'], { unique: true })
+export class CommissionRate {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    vendorId?: number | null;
+
+    @ManyToOne(() => Category, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'categoryId' })
+    category?: Category | null;
+
+    @Column({ nullable: true })
+    categoryId?: number | null;
+
+    // Percentage of the item total, e.g. 12.5
+    @Column('decimal', { precision: 5, scale: 2, transformer: decimalTransformer })
+    rate: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -1,10 +1,17 @@
 import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { User } from "./user.entity";
 import { Product } from "./product.entity";
+import { DealProductLimit } from "./dealProductLimit.entity";
 
 export enum DealStatus {
+    // Live: prices are discounted while inside the startsAt/endsAt window
     ENABLED = 'ENABLED',
+    // Switched off by an admin; never changed automatically
     DISABLED = 'DISABLED',
+    // Waiting for startsAt; enabled automatically
+    SCHEDULED = 'SCHEDULED',
+    // Past endsAt; set automatically
+    EXPIRED = 'EXPIRED',
 }
 
 @Entity('deals')
@@ -21,9 +28,23 @@ export class Deal {
     @Column({ type: 'enum', enum: DealStatus, default: DealStatus.DISABLED })
     status: DealStatus;
 
+    @Column({ type: 'timestamp', nullable: true })
+    startsAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    endsAt: Date;
+
+    // Units of each deal product a single customer may buy at the deal price; null means unlimited
+    @Column({ type: 'int', nullable: true })
+    perCustomerLimit: number;
+
     @OneToMany(() => Product, (product) => product.deal)
     products: Product[];
 
+    // Optional per-product caps on units sold at the deal price
+    @OneToMany(() => DealProductLimit, (limit) => limit.deal)
+    productLimits: DealProductLimit[];
+
     @ManyToOne(() => User, { onDelete: 'SET NULL' })
     @JoinColumn({ name: 'createdById' })
     createdBy: User;
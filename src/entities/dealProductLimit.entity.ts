@@ -0,0 +1,28 @@
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, Unique } from "typeorm";
+import { Deal } from "./deal.entity";
+import { Product } from "./product.entity";
+
+@Entity('deal_product_limits')
+@Unique(['dealId', 'productId'])
+export class DealProductLimit {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Deal, (deal) => deal.productLimits, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'dealId' })
+    deal: Deal;
+
+    @Column()
+    dealId: number;
+
+    @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'productId' })
+    product: Product;
+
+    @Column()
+    productId: number;
+
+    // Units that can be sold at the deal price across all customers
+    @Column({ type: 'int' })
+    stockLimit: number;
+}
@@ -0,0 +1,73 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from './user.entity';
+import { IInvoiceAttachment } from '../interface/invoice.interface';
+
+export enum EmailStatus {
+    QUEUED = 'QUEUED',
+    SENT = 'SENT',
+    FAILED = 'FAILED',
+}
+
+/**
+ * One outgoing email: the template version and variables it is rendered from, and its delivery state.
+ * Sensitive variables (one-time tokens and codes) are stored masked.
+ * Logged before it is queued, so an email that never goes out can be found and resent.
+ */
+@Entity('email_logs')
+@Index(['status', 'createdAt'])
+@Index(['to'])
+export class EmailLog {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ type: 'varchar', length: 50 })
+    template: string;
+
+    @Column({ type: 'integer' })
+    templateVersion: number;
+
+    @Column({ type: 'varchar', length: 255 })
+    to: string;
+
+    @Column({ type: 'varchar', length: 255 })
+    subject: string;
+
+    @Column({ type: 'jsonb' })
+    variables: Record<string, unknown>;
+
+    @Column({ type: 'jsonb', nullable: true })
+    attachments?: IInvoiceAttachment[] | null;
+
+    @Column({ type: 'enum', enum: EmailStatus, default: EmailStatus.QUEUED })
+    status: EmailStatus;
+
+    @Column({ type: 'integer', default: 0 })
+    attempts: number;
+
+    @Column({ type: 'text', nullable: true })
+    lastError?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    sentAt?: Date | null;
+
+    // Original email when this one is an admin resend
+    @ManyToOne(() => EmailLog, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'resentFromId' })
+    resentFrom?: EmailLog | null;
+
+    @Column({ nullable: true })
+    resentFromId?: number | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'resentById' })
+    resentBy?: User | null;
+
+    @Column({ nullable: true })
+    resentById?: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
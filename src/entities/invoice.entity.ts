@@ -0,0 +1,79 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Order } from "./order.entity";
+import { Vendor } from "./vendor.entity";
+import { VendorOrder } from "./vendorOrder.entity";
+
+export enum InvoiceType {
+    CUSTOMER = "CUSTOMER", // whole order, issued to the customer
+    VENDOR = "VENDOR",     // one vendor's sub-order
+}
+
+/**
+ * A tax invoice issued for an order or a vendor sub-order.
+ * Amounts are snapshotted at issue time so a reprint always matches the original.
+ */
+@Entity('invoices')
+@Index(['orderId', 'type'])
+export class Invoice {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    invoiceNumber: string;
+
+    @Column({
+        type: "enum",
+        enum: InvoiceType,
+    })
+    type: InvoiceType;
+
+    @ManyToOne(() => Order, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column()
+    orderId: number;
+
+    @ManyToOne(() => VendorOrder, { nullable: true, onDelete: "CASCADE" })
+    @JoinColumn({ name: 'vendorOrderId' })
+    vendorOrder: VendorOrder;
+
+    @Column({ nullable: true, unique: true })
+    vendorOrderId: number;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: "CASCADE" })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column({ nullable: true })
+    vendorId: number;
+
+    @Column('decimal', { precision: 10, scale: 2 })
+    subtotal: number;
+
+    @Column('decimal', { precision: 10, scale: 2, default: 0 })
+    discount: number;
+
+    @Column('decimal', { precision: 8, scale: 2, default: 0 })
+    shippingFee: number;
+
+    @Column('decimal', { precision: 8, scale: 2, default: 0 })
+    serviceCharge: number;
+
+    // Total excluding VAT
+    @Column('decimal', { precision: 10, scale: 2 })
+    taxableAmount: number;
+
+    @Column('decimal', { precision: 5, scale: 4 })
+    vatRate: number;
+
+    @Column('decimal', { precision: 10, scale: 2 })
+    vatAmount: number;
+
+    // Amount payable, VAT inclusive
+    @Column('decimal', { precision: 10, scale: 2 })
+    total: number;
+
+    @CreateDateColumn()
+    issuedAt: Date;
+}
@@ -0,0 +1,15 @@
+import { Column, Entity, PrimaryColumn } from "typeorm";
+
+/**
+ * Last number issued in an invoice series.
+ * The row is locked while issuing so numbers stay sequential without gaps.
+ */
+@Entity('invoice_sequences')
+export class InvoiceSequence {
+    // e.g. "INV" for customer invoices, "VINV-12" for vendor 12
+    @PrimaryColumn()
+    series: string;
+
+    @Column({ default: 0 })
+    lastNumber: number;
+}
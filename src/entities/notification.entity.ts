@@ -10,10 +10,15 @@ import {
 import { Vendor } from "./vendor.entity";
 import { User } from "./user.entity";
 import { Order } from "./order.entity";
+import type { NotificationReceipt } from "./notificationReceipt.entity";
 
 export enum NotificationType {
     ORDER_PLACED = "ORDER_PLACED",
     ORDER_STATUS_UPDATED = "ORDER_STATUS_UPDATED",
+    PRODUCT_QUESTION = "PRODUCT_QUESTION",
+    PRODUCT_REVIEW = "PRODUCT_REVIEW",
+    REVIEW_DISPUTE = "REVIEW_DISPUTE",
+    REVIEW_REPLY = "REVIEW_REPLY",
     GENERAL = "GENERAL"
 }
 
@@ -51,10 +56,6 @@ export class Notification {
     })
     target: NotificationTarget;
 
-    //  Mark if the notification is read or not
-    @Column({ default: false })
-    isRead: boolean;
-
     // //  Link to related page (e.g. /orders/123)
     // @Column({ nullable: true })
     // link: string;
@@ -88,4 +89,7 @@ export class Notification {
 
     @UpdateDateColumn()
     updatedAt: Date;
+
+    //  The reading recipient's receipt, when loaded for an inbox (read state is per recipient)
+    receipt?: NotificationReceipt | null;
 }
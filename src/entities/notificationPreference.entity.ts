@@ -0,0 +1,48 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from './user.entity';
+import { Vendor } from './vendor.entity';
+import { NotificationEvent } from './notificationPreference.enum';
+
+/**
+ * The channels a customer or vendor receives one event on (exactly one of user and vendor is set).
+ * Events without a row use the default channels.
+ */
+@Entity('notification_preferences')
+@Index(['userId', 'event'], { unique: true, where: '"userId" IS NOT NULL' })
+@Index(['vendorId', 'event'], { unique: true, where: '"vendorId" IS NOT NULL' })
+export class NotificationPreference {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user?: User | null;
+
+    @Column({ nullable: true })
+    userId?: number | null;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    vendorId?: number | null;
+
+    @Column({ type: 'enum', enum: NotificationEvent })
+    event: NotificationEvent;
+
+    @Column({ default: true })
+    email: boolean;
+
+    @Column({ default: true })
+    inApp: boolean;
+
+    @Column({ default: false })
+    sms: boolean;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,14 @@
+// Events a customer or vendor chooses their channels for
+export enum NotificationEvent {
+    ORDER_PLACED = 'ORDER_PLACED',
+    ORDER_STATUS_CHANGED = 'ORDER_STATUS_CHANGED',
+    PROMO = 'PROMO',
+    PRICE_DROP = 'PRICE_DROP',
+    REVIEW_REPLY = 'REVIEW_REPLY',
+}
+
+export enum NotificationChannel {
+    EMAIL = 'EMAIL',
+    IN_APP = 'IN_APP',
+    SMS = 'SMS',
+}
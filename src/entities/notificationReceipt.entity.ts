@@ -0,0 +1,52 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Notification } from './notification.entity';
+import { User } from './user.entity';
+import { Vendor } from './vendor.entity';
+
+/**
+ * One recipient's state of a notification: read, archived or deleted from their inbox.
+ * The recipient is a user (admin, staff or customer) or a vendor; exactly one of the two is set.
+ *
+ * Receipts are created on the first action, so a notification without one is unread.
+ */
+@Entity('notification_receipts')
+@Index(['notificationId', 'userId'], { unique: true, where: '"userId" IS NOT NULL' })
+@Index(['notificationId', 'vendorId'], { unique: true, where: '"vendorId" IS NOT NULL' })
+export class NotificationReceipt {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Notification, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'notificationId' })
+    notification: Notification;
+
+    @Column({ type: 'uuid' })
+    notificationId: string;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user?: User | null;
+
+    @Column({ nullable: true })
+    userId?: number | null;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    vendorId?: number | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    readAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    archivedAt?: Date | null;
+
+    // Deleted from this recipient's inbox only; others still see the notification
+    @Column({ type: 'timestamp', nullable: true })
+    deletedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -2,6 +2,8 @@ import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMa
 import { User } from "./user.entity";
 import { Address } from "./address.entity";
 import { OrderItem } from "./orderItems.entity";
+import { Refund } from "./refund.entity";
+import { VendorOrder } from "./vendorOrder.entity";
 
 
 export enum OrderStatus {
@@ -17,6 +19,8 @@ export enum OrderStatus {
 export enum PaymentStatus {
     PAID = "PAID",
     UNPAID = "UNPAID",
+    PARTIALLY_REFUNDED = "PARTIALLY_REFUNDED",
+    REFUNDED = "REFUNDED",
 }
 
 
@@ -89,6 +93,12 @@ export class Order {
     @OneToMany(() => OrderItem, item => item.order, { cascade: true })
     orderItems: OrderItem[];
 
+    @OneToMany(() => VendorOrder, vendorOrder => vendorOrder.order, { cascade: true })
+    vendorOrders: VendorOrder[];
+
+    @OneToMany(() => Refund, refund => refund.order)
+    refunds: Refund[];
+
     @Column('decimal', { precision: 8, scale: 2, default: 0 })
     serviceCharge: number;
 
@@ -98,6 +108,10 @@ export class Order {
     @Column({ nullable: true })
     mTransactionId: string
 
+    // Set when the order is marked DELIVERED; the return window is counted from here
+    @Column({ type: 'timestamp', nullable: true })
+    deliveredAt: Date;
+
     @CreateDateColumn()
     createdAt: Date;
 
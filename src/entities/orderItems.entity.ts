@@ -3,6 +3,8 @@ import { Product } from './product.entity';
 import { Vendor } from './vendor.entity';
 import { Order } from './order.entity';
 import { Variant } from './variant.entity';
+import { VendorOrder } from './vendorOrder.entity';
+import { Deal } from './deal.entity';
 
 export enum OrderStatus {
     PENDING = 'PENDING',
@@ -45,6 +47,13 @@ export class OrderItem {
     @Column()
     vendorId: number;
 
+    @ManyToOne(() => VendorOrder, (vendorOrder) => vendorOrder.orderItems, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorOrderId' })
+    vendorOrder?: VendorOrder;
+
+    @Column({ nullable: true })
+    vendorOrderId?: number;
+
     @ManyToOne(() => Variant, { nullable: true })
     @JoinColumn({ name: 'variantId' })
     variant?: Variant;
@@ -52,6 +61,14 @@ export class OrderItem {
     @Column({ nullable: true })
     variantId?: string;
 
+    // Deal the item was priced under, used for deal stock caps and per-customer limits
+    @ManyToOne(() => Deal, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'dealId' })
+    deal?: Deal;
+
+    @Column({ nullable: true })
+    dealId?: number;
+
     @CreateDateColumn()
     createdAt: Date;
 }
\ No newline at end of file
@@ -0,0 +1,86 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Vendor } from './vendor.entity';
+import { User } from './user.entity';
+import { PayoutBatch } from './payoutBatch.entity';
+import { PayoutStatus } from './settlement.enum';
+
+// Transformer to convert decimal strings to numbers
+const decimalTransformer = {
+    to: (value: number | null | undefined): string | null => {
+        return value !== null && value !== undefined ? value.toString() : null;
+    },
+    from: (value: string | null | undefined): number | null => {
+        return value !== null && value !== undefined ? parseFloat(value) : null;
+    }
+};
+
+/**
+ * A transfer of a vendor's settled balance to their bank account.
+ * Bank details are copied from the vendor when the payout is generated so later
+ * profile edits do not change where an approved payout goes.
+ */
+@Entity('payouts')
+@Index(['batchId', 'vendorId'], { unique: true })
+@Index(['vendorId', 'status'])
+export class Payout {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => PayoutBatch, (batch) => batch.payouts, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'batchId' })
+    batch: PayoutBatch;
+
+    @Column()
+    batchId: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @Column('decimal', { precision: 12, scale: 2, transformer: decimalTransformer })
+    amount: number;
+
+    @Column({ type: 'enum', enum: PayoutStatus, default: PayoutStatus.PENDING })
+    status: PayoutStatus;
+
+    @Column({ type: 'varchar' })
+    accountName: string;
+
+    @Column({ type: 'varchar' })
+    bankName: string;
+
+    @Column({ type: 'varchar' })
+    accountNumber: string;
+
+    @Column({ type: 'varchar', nullable: true })
+    bankBranch?: string | null;
+
+    @Column({ type: 'varchar', nullable: true })
+    bankCode?: string | null;
+
+    // Bank transfer reference entered when the payout is marked as paid
+    @Column({ type: 'varchar', length: 100, nullable: true })
+    reference?: string | null;
+
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    note?: string | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'paidById' })
+    paidBy?: User | null;
+
+    @Column({ nullable: true })
+    paidById?: number | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    paidAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,57 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from './user.entity';
+import { Payout } from './payout.entity';
+import { PayoutStatus } from './settlement.enum';
+
+// Transformer to convert decimal strings to numbers
+const decimalTransformer = {
+    to: (value: number | null | undefined): string | null => {
+        return value !== null && value !== undefined ? value.toString() : null;
+    },
+    from: (value: string | null | undefined): number | null => {
+        return value !== null && value !== undefined ? parseFloat(value) : null;
+    }
+};
+
+/**
+ * The payouts generated for one payout cycle, one per vendor with a balance due.
+ * Approved as a whole by an admin; paid once every payout in it has been paid.
+ */
+@Entity('payout_batches')
+@Index(['status', 'createdAt'])
+export class PayoutBatch {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    // Ledger entries available up to this time were settled by the batch
+    @Column({ type: 'timestamp' })
+    periodEnd: Date;
+
+    @Column({ type: 'enum', enum: PayoutStatus, enumName: 'payouts_status_enum', default: PayoutStatus.PENDING })
+    status: PayoutStatus;
+
+    @Column('decimal', { precision: 14, scale: 2, default: 0, transformer: decimalTransformer })
+    totalAmount: number;
+
+    @Column({ type: 'integer', default: 0 })
+    payoutCount: number;
+
+    @OneToMany(() => Payout, (payout) => payout.batch)
+    payouts: Payout[];
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'approvedById' })
+    approvedBy?: User | null;
+
+    @Column({ nullable: true })
+    approvedById?: number | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    approvedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -52,6 +52,20 @@ export class Product {
     @Index()
     stock?: number;
 
+    // Not persisted: stock minus active reservations, set for customer-facing responses
+    availableStock?: number;
+
+    // Maintained by database triggers from the name, description, brand, categories and variant attributes
+    @Column({ type: 'tsvector', nullable: true, select: false, insert: false, update: false })
+    searchVector?: string;
+
+    // Not persisted: search matches with <mark>-highlighted name and description snippet, set for search results
+    searchHighlight?: { name: string; description: string };
+
+    // Shipping weight in kg, used for per-kg shipping surcharges
+    @Column({ type: 'decimal', precision: 8, scale: 3, nullable: true, transformer: decimalTransformer })
+    weight?: number;
+
     @ManyToOne(() => Subcategory, { onDelete: "SET NULL" })
     @JoinColumn({ name: "subcategoryId" })
     subcategory: Subcategory;
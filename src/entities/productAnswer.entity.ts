@@ -0,0 +1,55 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { ProductQuestion } from './productQuestion.entity';
+import { QuestionStatus } from './productQuestion.enum';
+import { User } from './user.entity';
+import { Vendor } from './vendor.entity';
+
+/**
+ * An answer to a product question, written either by the vendor owning the product
+ * (vendorId set) or by a customer who bought it (userId set).
+ */
+@Entity('product_answers')
+@Index(['questionId', 'status'])
+export class ProductAnswer {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => ProductQuestion, (question) => question.answers, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'questionId' })
+    question: ProductQuestion;
+
+    @Column()
+    questionId: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'userId' })
+    user?: User | null;
+
+    @Column({ nullable: true })
+    userId?: number | null;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    vendorId?: number | null;
+
+    @Column({ type: 'text' })
+    answer: string;
+
+    @Column({ type: 'enum', enum: QuestionStatus, enumName: 'product_questions_status_enum', default: QuestionStatus.PUBLISHED })
+    status: QuestionStatus;
+
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    moderationNote?: string | null;
+
+    @Column({ type: 'integer', default: 0 })
+    upvoteCount: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
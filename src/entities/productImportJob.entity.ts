@@ -0,0 +1,69 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Vendor } from "./vendor.entity";
+import { IProductImportGroup, IProductImportReport } from "../interface/productImport.interface";
+
+export enum ProductImportStatus {
+    PENDING = 'PENDING',
+    PROCESSING = 'PROCESSING',
+    COMPLETED = 'COMPLETED',
+    FAILED = 'FAILED',
+}
+
+/**
+ * Bulk product import too large to run within the upload request.
+ * The parsed rows are stored with the job and processed in the background.
+ */
+@Entity('product_import_jobs')
+@Index(['status', 'createdAt'])
+export class ProductImportJob {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    @Index()
+    vendorId: number;
+
+    @Column({ type: 'varchar', length: 255 })
+    fileName: string;
+
+    @Column({ type: 'boolean', default: false })
+    dryRun: boolean;
+
+    // Update existing products matched by ID or variant SKU instead of rejecting them
+    @Column({ type: 'boolean', default: false })
+    upsert: boolean;
+
+    @Column({ type: 'enum', enum: ProductImportStatus, default: ProductImportStatus.PENDING })
+    status: ProductImportStatus;
+
+    @Column({ type: 'int' })
+    totalRows: number;
+
+    // Products grouped with their variant rows, as parsed from the upload
+    @Column({ type: 'jsonb' })
+    groups: IProductImportGroup[];
+
+    // Per-row outcome, set once the job completes
+    @Column({ type: 'jsonb', nullable: true })
+    report?: IProductImportReport | null;
+
+    // Set when the job itself failed, as opposed to individual rows
+    @Column({ type: 'text', nullable: true })
+    failureReason?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    startedAt?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    completedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
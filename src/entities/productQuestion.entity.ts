@@ -0,0 +1,53 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Product } from './product.entity';
+import { User } from './user.entity';
+import { ProductAnswer } from './productAnswer.entity';
+import { QuestionStatus } from './productQuestion.enum';
+
+/**
+ * A customer's pre-purchase question about a product.
+ * Answered by the vendor owning the product or by customers who bought it.
+ */
+@Entity('product_questions')
+@Index(['productId', 'status'])
+export class ProductQuestion {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'productId' })
+    product: Product;
+
+    @Column()
+    productId: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'userId' })
+    user?: User | null;
+
+    @Column({ nullable: true })
+    userId?: number | null;
+
+    @Column({ type: 'varchar', length: 500 })
+    question: string;
+
+    @Column({ type: 'enum', enum: QuestionStatus, default: QuestionStatus.PUBLISHED })
+    status: QuestionStatus;
+
+    // Admin note on why the question was hidden
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    moderationNote?: string | null;
+
+    // Kept in step with product_question_votes when votes are added or removed
+    @Column({ type: 'integer', default: 0 })
+    upvoteCount: number;
+
+    @OneToMany(() => ProductAnswer, (answer) => answer.question)
+    answers: ProductAnswer[];
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,7 @@
+/**
+ * Moderation status of product questions and answers. Hidden ones are left out of the product page.
+ */
+export enum QuestionStatus {
+    PUBLISHED = 'PUBLISHED',
+    HIDDEN = 'HIDDEN',
+}
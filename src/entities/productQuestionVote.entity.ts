@@ -0,0 +1,40 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { User } from './user.entity';
+import { ProductQuestion } from './productQuestion.entity';
+import { ProductAnswer } from './productAnswer.entity';
+
+/**
+ * A customer's upvote on a product question or on an answer (exactly one of the two is set).
+ * A customer can upvote each question and answer once.
+ */
+@Entity('product_question_votes')
+@Index(['userId', 'questionId'], { unique: true, where: '"questionId" IS NOT NULL' })
+@Index(['userId', 'answerId'], { unique: true, where: '"answerId" IS NOT NULL' })
+export class ProductQuestionVote {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => ProductQuestion, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'questionId' })
+    question?: ProductQuestion | null;
+
+    @Column({ nullable: true })
+    questionId?: number | null;
+
+    @ManyToOne(() => ProductAnswer, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'answerId' })
+    answer?: ProductAnswer | null;
+
+    @Column({ nullable: true })
+    answerId?: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,54 @@
+import { Column, Entity, Index, JoinColumn, OneToOne, PrimaryColumn } from "typeorm";
+import { Product } from "./product.entity";
+
+// Transformer to convert decimal strings to numbers
+const decimalTransformer = {
+    to: (value: number | null | undefined): string | null => {
+        return value !== null && value !== undefined ? value.toString() : null;
+    },
+    from: (value: string | null | undefined): number | null => {
+        return value !== null && value !== undefined ? parseFloat(value) : null;
+    }
+};
+
+/**
+ * Precomputed sales, rating and discount figures of a product, used to sort listings.
+ * Rebuilt periodically by ProductStatsService.refreshStats; never written per request.
+ */
+@Entity('product_stats')
+export class ProductStats {
+    @PrimaryColumn()
+    productId: number;
+
+    @OneToOne(() => Product, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'productId' })
+    product: Product;
+
+    // Units sold within PRODUCT_STATS.BEST_SELLING_WINDOW_DAYS, excluding cancelled and returned orders
+    @Column({ type: 'integer', default: 0 })
+    @Index()
+    unitsSold: number;
+
+    // Recent units sold, each order weighted down by its age (halved every TRENDING_HALF_LIFE_DAYS)
+    @Column({ type: 'decimal', precision: 12, scale: 4, default: 0, transformer: decimalTransformer })
+    @Index()
+    trendingScore: number;
+
+    @Column({ type: 'integer', default: 0 })
+    reviewCount: number;
+
+    @Column({ type: 'decimal', precision: 3, scale: 2, nullable: true, transformer: decimalTransformer })
+    averageRating: number | null;
+
+    // Average rating pulled towards the store-wide average until the product has enough reviews
+    @Column({ type: 'decimal', precision: 3, scale: 2, nullable: true, transformer: decimalTransformer })
+    @Index()
+    bayesianRating: number | null;
+
+    // Largest percentage off the product or any of its variants, before deals
+    @Column({ type: 'decimal', precision: 5, scale: 2, default: 0, transformer: decimalTransformer })
+    maxDiscountPercent: number;
+
+    @Column({ type: 'timestamp' })
+    refreshedAt: Date;
+}
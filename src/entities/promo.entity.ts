@@ -1,4 +1,9 @@
-import { Column, Entity, PrimaryGeneratedColumn } from "typeorm";
+import { Column, CreateDateColumn, Entity, JoinTable, ManyToMany, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { DiscountType } from "./product.enum";
+import { Category } from "./category.entity";
+import { Vendor } from "./vendor.entity";
+import { Product } from "./product.entity";
+import { PromoRedemption } from "./promoRedemption.entity";
 
 export enum PromoType {
     LINE_TOTAL = "LINE_TOTAL",
@@ -13,9 +18,21 @@ export class Promo {
     @Column({ unique: true })
     promoCode: string;
 
-    @Column({ type: "int" })
+    @Column({
+        type: "enum",
+        enum: DiscountType,
+        default: DiscountType.PERCENTAGE,
+    })
+    discountType: DiscountType;
+
+    // Used when discountType is PERCENTAGE
+    @Column({ type: "int", default: 0 })
     discountPercentage: number;
 
+    // Used when discountType is FLAT
+    @Column('decimal', { precision: 10, scale: 2, nullable: true })
+    discountAmount: number;
+
     @Column({
         type: "enum",
         enum: PromoType,
@@ -26,4 +43,62 @@ export class Promo {
     @Column({ type: "boolean", nullable: true, default: true })
     isValid: boolean;
 
-}
\ No newline at end of file
+    @Column({ type: 'timestamp', nullable: true })
+    startsAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    endsAt: Date;
+
+    // Total redemptions allowed across all customers; null means unlimited
+    @Column({ type: "int", nullable: true })
+    usageLimit: number;
+
+    // Redemptions allowed per customer; null means unlimited
+    @Column({ type: "int", nullable: true, default: 1 })
+    perUserLimit: number;
+
+    // Minimum order subtotal (before shipping) required to use the code
+    @Column('decimal', { precision: 10, scale: 2, nullable: true })
+    minOrderValue: number;
+
+    // Upper bound on the discount of a single order
+    @Column('decimal', { precision: 10, scale: 2, nullable: true })
+    maxDiscount: number;
+
+    @Column({ default: false })
+    firstOrderOnly: boolean;
+
+    // Scope: when any of these are set, only matching items count towards the discount
+    @ManyToMany(() => Category)
+    @JoinTable({
+        name: 'promo_categories',
+        joinColumn: { name: 'promoId', referencedColumnName: 'id' },
+        inverseJoinColumn: { name: 'categoryId', referencedColumnName: 'id' },
+    })
+    categories: Category[];
+
+    @ManyToMany(() => Vendor)
+    @JoinTable({
+        name: 'promo_vendors',
+        joinColumn: { name: 'promoId', referencedColumnName: 'id' },
+        inverseJoinColumn: { name: 'vendorId', referencedColumnName: 'id' },
+    })
+    vendors: Vendor[];
+
+    @ManyToMany(() => Product)
+    @JoinTable({
+        name: 'promo_products',
+        joinColumn: { name: 'promoId', referencedColumnName: 'id' },
+        inverseJoinColumn: { name: 'productId', referencedColumnName: 'id' },
+    })
+    products: Product[];
+
+    @OneToMany(() => PromoRedemption, (redemption) => redemption.promo)
+    redemptions: PromoRedemption[];
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
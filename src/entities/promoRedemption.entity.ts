@@ -0,0 +1,42 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Promo } from "./promo.entity";
+import { User } from "./user.entity";
+import { Order } from "./order.entity";
+
+/**
+ * One use of a promo code by an order.
+ * Redemptions of cancelled orders do not count towards usage limits.
+ */
+@Entity('promo_redemptions')
+@Index(['promoId', 'userId'])
+export class PromoRedemption {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Promo, (promo) => promo.redemptions, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'promoId' })
+    promo: Promo;
+
+    @Column()
+    promoId: number;
+
+    @ManyToOne(() => User, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column()
+    userId: number;
+
+    @ManyToOne(() => Order, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column({ unique: true })
+    orderId: number;
+
+    @Column('decimal', { precision: 10, scale: 2 })
+    discountAmount: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,91 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Order } from "./order.entity";
+import { User } from "./user.entity";
+import { ReturnRequest } from "./returnRequest.entity";
+
+export enum RefundStatus {
+    PENDING = "PENDING",
+    COMPLETED = "COMPLETED",
+    FAILED = "FAILED",
+    // Gateway outcome unknown (timeout, no response); still held against the refundable balance
+    RECONCILIATION_REQUIRED = "RECONCILIATION_REQUIRED",
+}
+
+export enum RefundChannel {
+    ESEWA = "ESEWA",
+    NPX = "NPX",
+    MANUAL = "MANUAL",
+}
+
+/**
+ * A single refund attempt against an order.
+ * Failed attempts are kept so the order keeps a full refund history.
+ */
+@Entity('refunds')
+@Index(['orderId', 'status'])
+// A return is paid out by at most one refund that has not failed
+@Index('IDX_refunds_returnRequestId_open', ['returnRequestId'], { unique: true, where: `"status" <> 'FAILED'` })
+export class Refund {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Order, (order) => order.refunds, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column()
+    orderId: number;
+
+    // Return request the refund pays out; null for refunds issued directly on the order
+    @ManyToOne(() => ReturnRequest, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: 'returnRequestId' })
+    returnRequest: ReturnRequest;
+
+    @Column({ nullable: true })
+    returnRequestId: number;
+
+    @Column('decimal', { precision: 10, scale: 2 })
+    amount: number;
+
+    @Column({ type: 'text' })
+    reason: string;
+
+    @Column({
+        type: "enum",
+        enum: RefundChannel,
+    })
+    channel: RefundChannel;
+
+    @Column({
+        type: "enum",
+        enum: RefundStatus,
+        default: RefundStatus.PENDING
+    })
+    status: RefundStatus;
+
+    // Reference returned by the gateway, or the settlement reference entered for manual refunds
+    @Column({ nullable: true })
+    gatewayReference: string;
+
+    @Column({ type: 'jsonb', nullable: true })
+    gatewayResponse: Record<string, any>;
+
+    @Column({ nullable: true })
+    failureReason: string;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: 'processedById' })
+    processedBy: User;
+
+    @Column({ nullable: true })
+    processedById: number;
+
+    @Column({ type: 'timestamp', nullable: true })
+    processedAt: Date;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
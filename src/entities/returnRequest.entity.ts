@@ -0,0 +1,103 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Order } from "./order.entity";
+import { User } from "./user.entity";
+import { Vendor } from "./vendor.entity";
+import { ReturnRequestItem } from "./returnRequestItem.entity";
+import { Refund } from "./refund.entity";
+
+export enum ReturnStatus {
+    REQUESTED = "REQUESTED",
+    APPROVED = "APPROVED",
+    REJECTED = "REJECTED",
+    RECEIVED = "RECEIVED",
+    // Claimed by a refund whose gateway call is in progress
+    REFUNDING = "REFUNDING",
+    REFUNDED = "REFUNDED",
+    CANCELLED = "CANCELLED",
+}
+
+/**
+ * A customer's request to send back items from a delivered order.
+ * Requests are scoped to a single vendor so each vendor reviews and receives only their own goods.
+ */
+@Entity('return_requests')
+@Index(['orderId', 'status'])
+@Index(['vendorId', 'status'])
+export class ReturnRequest {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Order, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column()
+    orderId: number;
+
+    @ManyToOne(() => User, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'requestedById' })
+    requestedBy: User;
+
+    @Column()
+    requestedById: number;
+
+    @ManyToOne(() => Vendor, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @OneToMany(() => ReturnRequestItem, item => item.returnRequest, { cascade: true })
+    items: ReturnRequestItem[];
+
+    @Column({
+        type: "enum",
+        enum: ReturnStatus,
+        default: ReturnStatus.REQUESTED
+    })
+    status: ReturnStatus;
+
+    @Column()
+    reason: string;
+
+    @Column({ type: 'text', nullable: true })
+    comments: string;
+
+    // Note left by the vendor or admin when approving or rejecting
+    @Column({ type: 'text', nullable: true })
+    reviewNote: string;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: 'reviewedByVendorId' })
+    reviewedByVendor: Vendor;
+
+    @Column({ nullable: true })
+    reviewedByVendorId: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: 'reviewedByUserId' })
+    reviewedByUser: User;
+
+    @Column({ nullable: true })
+    reviewedByUserId: number;
+
+    @Column({ type: 'timestamp', nullable: true })
+    reviewedAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    receivedAt: Date;
+
+    @ManyToOne(() => Refund, { nullable: true, onDelete: "SET NULL" })
+    @JoinColumn({ name: 'refundId' })
+    refund: Refund;
+
+    @Column({ nullable: true })
+    refundId: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import { Column, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { ReturnRequest } from "./returnRequest.entity";
+import { OrderItem } from "./orderItems.entity";
+
+@Entity('return_request_items')
+export class ReturnRequestItem {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => ReturnRequest, (request) => request.items, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'returnRequestId' })
+    returnRequest: ReturnRequest;
+
+    @Column()
+    returnRequestId: number;
+
+    @ManyToOne(() => OrderItem, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderItemId' })
+    orderItem: OrderItem;
+
+    @Column()
+    orderItemId: number;
+
+    @Column()
+    quantity: number;
+
+    // Unit price copied from the order item so refunds are not affected by later edits
+    @Column('decimal', { precision: 8, scale: 2 })
+    price: number;
+}
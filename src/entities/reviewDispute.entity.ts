@@ -0,0 +1,73 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Review } from './reviews.entity';
+import { Vendor } from './vendor.entity';
+import { User } from './user.entity';
+
+export enum ReviewDisputeReason {
+    FAKE = 'FAKE',
+    OFFENSIVE = 'OFFENSIVE',
+    OFF_TOPIC = 'OFF_TOPIC',
+    WRONG_PRODUCT = 'WRONG_PRODUCT',
+    OTHER = 'OTHER',
+}
+
+export enum ReviewDisputeStatus {
+    OPEN = 'OPEN',
+    UPHELD = 'UPHELD',
+    DISMISSED = 'DISMISSED',
+}
+
+/**
+ * A vendor reporting a review of one of their products.
+ * Open disputes wait in the admin dispute queue; an upheld dispute rejects the review.
+ */
+@Entity('review_disputes')
+@Index(['status', 'createdAt'])
+@Index(['reviewId'], { unique: true, where: `"status" = 'OPEN'` })
+export class ReviewDispute {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Review, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'reviewId' })
+    review: Review;
+
+    @Column()
+    reviewId: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @Column({ type: 'enum', enum: ReviewDisputeReason })
+    reason: ReviewDisputeReason;
+
+    @Column({ type: 'text', nullable: true })
+    details?: string | null;
+
+    @Column({ type: 'enum', enum: ReviewDisputeStatus, default: ReviewDisputeStatus.OPEN })
+    status: ReviewDisputeStatus;
+
+    // Admin note explaining the outcome, shown to the vendor
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    resolutionNote?: string | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'resolvedById' })
+    resolvedBy?: User | null;
+
+    @Column({ nullable: true })
+    resolvedById?: number | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    resolvedAt?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,30 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Review } from './reviews.entity';
+import { User } from './user.entity';
+
+/**
+ * A customer marking a review as helpful. A customer can vote once per review.
+ */
+@Entity('review_helpful_votes')
+@Index(['reviewId', 'userId'], { unique: true })
+export class ReviewHelpfulVote {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Review, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'reviewId' })
+    review: Review;
+
+    @Column()
+    reviewId: number;
+
+    @ManyToOne(() => User, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user: User;
+
+    @Column()
+    userId: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -1,9 +1,15 @@
-import { Column, CreateDateColumn, Entity, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
 import { User } from "./user.entity";
 import { Product } from "./product.entity";
 
+export enum ReviewStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    REJECTED = 'REJECTED',
+}
 
 @Entity('reviews')
+@Index(['productId', 'status'])
 export class Review {
     @PrimaryGeneratedColumn()
     id: number;
@@ -28,9 +34,46 @@ export class Review {
     @Column()
     productId: number;
 
+    // Only approved reviews are shown and counted in ratings; flagged reviews wait in the admin queue
+    @Column({ type: 'enum', enum: ReviewStatus, default: ReviewStatus.PENDING })
+    status: ReviewStatus;
+
+    // Reasons the automated content check held the review, e.g. PROFANITY or SPAM
+    @Column({ type: 'text', array: true, nullable: true })
+    moderationFlags?: string[] | null;
+
+    // Admin note, e.g. why the review was rejected
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    moderationNote?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    moderatedAt?: Date | null;
+
+    // The reviewer has a delivered order containing the product
+    @Column({ type: 'boolean', default: false })
+    isVerifiedPurchase: boolean;
+
+    @Column({ type: 'text', array: true, nullable: true })
+    photos?: string[] | null;
+
+    // Cloudinary public IDs of the photos, used to delete them with the review
+    @Column({ type: 'text', array: true, nullable: true })
+    photoPublicIds?: string[] | null;
+
+    // Public reply from the vendor owning the product; one per review, editable by the vendor
+    @Column({ type: 'text', nullable: true })
+    vendorReply?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    vendorRepliedAt?: Date | null;
+
+    // Kept in step with review_helpful_votes when votes are added or removed
+    @Column({ type: 'integer', default: 0 })
+    helpfulCount: number;
+
     @CreateDateColumn()
     createdAt: Date;
 
     @UpdateDateColumn()
     updatedAt: Date;
-}
\ No newline at end of file
+}
@@ -0,0 +1,12 @@
+export enum LedgerEntryType {
+    SALE = 'SALE', // credit for a delivered order item
+    COMMISSION = 'COMMISSION', // marketplace commission on the sale
+    REFUND = 'REFUND', // debit for refunded returned goods
+    COMMISSION_REFUND = 'COMMISSION_REFUND', // commission given back on refunded goods
+}
+
+export enum PayoutStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    PAID = 'PAID',
+}
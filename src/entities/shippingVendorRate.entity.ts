@@ -0,0 +1,50 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Vendor } from "./vendor.entity";
+import { ShippingZone } from "./shippingZone.entity";
+
+/**
+ * Per-vendor override of shipping rates.
+ * With a zone it overrides that zone only; without one it applies to every destination.
+ * Null fee fields fall back to the zone (or default) value.
+ */
+@Entity('shipping_vendor_rates')
+@Index(['vendorId', 'zoneId'], { unique: true })
+export class ShippingVendorRate {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @ManyToOne(() => ShippingZone, (zone) => zone.vendorRates, { nullable: true, onDelete: "CASCADE" })
+    @JoinColumn({ name: 'zoneId' })
+    zone: ShippingZone;
+
+    @Column({ nullable: true })
+    zoneId: number;
+
+    @Column('decimal', { precision: 8, scale: 2, nullable: true })
+    baseFee: number;
+
+    @Column('decimal', { precision: 8, scale: 2, nullable: true })
+    localFee: number;
+
+    @Column('decimal', { precision: 8, scale: 2, nullable: true })
+    perKgFee: number;
+
+    @Column('decimal', { precision: 8, scale: 2, nullable: true })
+    perItemFee: number;
+
+    @Column('decimal', { precision: 10, scale: 2, nullable: true })
+    freeShippingThreshold: number;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,62 @@
+import { Column, CreateDateColumn, Entity, JoinTable, ManyToMany, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { District } from "./district.entity";
+import { Province } from "./address.entity";
+import { ShippingVendorRate } from "./shippingVendorRate.entity";
+
+/**
+ * A group of destination districts and/or provinces sharing one shipping rate.
+ * A destination matches a zone by district first, then by province.
+ */
+@Entity('shipping_zones')
+export class ShippingZone {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @Column({ unique: true })
+    name: string;
+
+    @Column({ type: 'text', nullable: true })
+    description: string;
+
+    @ManyToMany(() => District)
+    @JoinTable({
+        name: 'shipping_zone_districts',
+        joinColumn: { name: 'zoneId', referencedColumnName: 'id' },
+        inverseJoinColumn: { name: 'districtId', referencedColumnName: 'id' },
+    })
+    districts: District[];
+
+    @Column({ type: 'enum', enum: Province, array: true, default: '{}' })
+    provinces: Province[];
+
+    // Fee per vendor shipment into this zone
+    @Column('decimal', { precision: 8, scale: 2 })
+    baseFee: number;
+
+    // Fee used instead of baseFee when the vendor itself is located inside the zone
+    @Column('decimal', { precision: 8, scale: 2, nullable: true })
+    localFee: number;
+
+    @Column('decimal', { precision: 8, scale: 2, default: 0 })
+    perKgFee: number;
+
+    // Charged for each item after the first in a vendor shipment
+    @Column('decimal', { precision: 8, scale: 2, default: 0 })
+    perItemFee: number;
+
+    // Vendor shipments at or above this subtotal ship free
+    @Column('decimal', { precision: 10, scale: 2, nullable: true })
+    freeShippingThreshold: number;
+
+    @Column({ default: true })
+    isActive: boolean;
+
+    @OneToMany(() => ShippingVendorRate, (rate) => rate.zone)
+    vendorRates: ShippingVendorRate[];
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,82 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from "typeorm";
+import { Product } from "./product.entity";
+import { Variant } from "./variant.entity";
+import { Order } from "./order.entity";
+import { User } from "./user.entity";
+import { Vendor } from "./vendor.entity";
+
+export enum StockMovementReason {
+    SALE = 'SALE',
+    CANCELLATION = 'CANCELLATION',
+    RETURN = 'RETURN',
+    ADJUSTMENT = 'ADJUSTMENT',
+    IMPORT = 'IMPORT',
+    // Stock on hand when the ledger was introduced
+    OPENING_BALANCE = 'OPENING_BALANCE',
+}
+
+/**
+ * Append-only record of one change to product or variant stock.
+ * Movements without a variant belong to the product's own stock; the sum of
+ * deltas should always equal the current stock.
+ */
+@Entity('stock_movements')
+@Index(['productId', 'createdAt'])
+export class StockMovement {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'productId' })
+    product: Product;
+
+    @Column()
+    productId: number;
+
+    @ManyToOne(() => Variant, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'variantId' })
+    variant?: Variant;
+
+    @Column({ nullable: true })
+    @Index()
+    variantId?: string;
+
+    // Positive when stock was added, negative when removed
+    @Column({ type: 'int' })
+    delta: number;
+
+    // Stock right after this movement
+    @Column({ type: 'int' })
+    balanceAfter: number;
+
+    @Column({ type: 'enum', enum: StockMovementReason })
+    reason: StockMovementReason;
+
+    @ManyToOne(() => Order, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'orderId' })
+    order?: Order;
+
+    @Column({ nullable: true })
+    orderId?: number;
+
+    // Who made the change; both empty for system changes such as payment callbacks
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'actorUserId' })
+    actorUser?: User;
+
+    @Column({ nullable: true })
+    actorUserId?: number;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'actorVendorId' })
+    actorVendor?: Vendor;
+
+    @Column({ nullable: true })
+    actorVendorId?: number;
+
+    @Column({ type: 'varchar', length: 255, nullable: true })
+    note?: string;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
@@ -0,0 +1,64 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Order } from "./order.entity";
+import { Product } from "./product.entity";
+import { Variant } from "./variant.entity";
+
+export enum ReservationStatus {
+    // Holding stock for a pending online payment
+    ACTIVE = 'ACTIVE',
+    // Payment succeeded and the stock was deducted
+    COMMITTED = 'COMMITTED',
+    // Payment failed or was cancelled
+    RELEASED = 'RELEASED',
+    // Payment never completed before expiresAt
+    EXPIRED = 'EXPIRED',
+}
+
+/**
+ * Stock held for an order while its online payment is pending.
+ * Only ACTIVE reservations that have not passed expiresAt reduce available stock.
+ */
+@Entity('stock_reservations')
+@Index(['productId', 'status'])
+@Index(['variantId', 'status'])
+export class StockReservation {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Order, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column()
+    @Index()
+    orderId: number;
+
+    @ManyToOne(() => Product, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'productId' })
+    product: Product;
+
+    @Column()
+    productId: number;
+
+    @ManyToOne(() => Variant, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'variantId' })
+    variant?: Variant;
+
+    @Column({ nullable: true })
+    variantId?: string;
+
+    @Column()
+    quantity: number;
+
+    @Column({ type: 'enum', enum: ReservationStatus, default: ReservationStatus.ACTIVE })
+    status: ReservationStatus;
+
+    @Column({ type: 'timestamp' })
+    expiresAt: Date;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
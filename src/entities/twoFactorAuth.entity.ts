@@ -0,0 +1,68 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { User } from './user.entity';
+import { Vendor } from './vendor.entity';
+
+/**
+ * Two-factor authentication of an admin, staff or vendor account.
+ * The owner is a user or a vendor; exactly one of the two is set.
+ *
+ * Created when enrollment starts; two-factor is on once the first code is confirmed (enabledAt).
+ */
+@Entity('two_factor_auth')
+@Index(['userId'], { unique: true, where: '"userId" IS NOT NULL' })
+@Index(['vendorId'], { unique: true, where: '"vendorId" IS NOT NULL' })
+export class TwoFactorAuth {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'userId' })
+    user?: User | null;
+
+    @Column({ nullable: true })
+    userId?: number | null;
+
+    @ManyToOne(() => Vendor, { nullable: true, onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor?: Vendor | null;
+
+    @Column({ nullable: true })
+    vendorId?: number | null;
+
+    // TOTP secret, encrypted at rest
+    @Column({ type: 'text' })
+    secret: string;
+
+    @Column({ type: 'timestamp', nullable: true })
+    enabledAt?: Date | null;
+
+    // Time step of the last accepted code, so a code cannot be used twice
+    @Column({ type: 'integer', nullable: true })
+    lastUsedStep?: number | null;
+
+    // SHA-256 hashes of the unused recovery codes
+    @Column({ type: 'jsonb', default: () => "'[]'" })
+    recoveryCodes: string[];
+
+    // Hashed one-time code sent by email when the authenticator app is not at hand
+    @Column({ type: 'varchar', nullable: true })
+    emailCode?: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    emailCodeExpire?: Date | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    emailCodeSentAt?: Date | null;
+
+    @Column({ type: 'integer', default: 0 })
+    failedAttempts: number;
+
+    @Column({ type: 'timestamp', nullable: true })
+    lockedUntil?: Date | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,19 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryColumn } from 'typeorm';
+
+/**
+ * A login challenge that was used to complete a login, kept until its token expires
+ * so the token cannot complete a second login.
+ */
+@Entity('two_factor_challenges')
+export class TwoFactorChallenge {
+    // jti of the challenge token
+    @PrimaryColumn({ type: 'uuid' })
+    jti: string;
+
+    @Column({ type: 'timestamp' })
+    @Index()
+    expiresAt: Date;
+
+    @CreateDateColumn()
+    usedAt: Date;
+}
@@ -31,6 +31,9 @@ export class Variant {
     @Column({ type: 'integer' })
     stock: number;
 
+    // Not persisted: stock minus active reservations, set for customer-facing responses
+    availableStock?: number;
+
     @Column({ type: 'enum', enum: InventoryStatus, default: InventoryStatus.AVAILABLE, nullable: true })
     status?: InventoryStatus;
 
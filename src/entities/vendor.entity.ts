@@ -2,6 +2,7 @@ import { Entity, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateCol
 import { Product } from './product.entity';
 import { OrderItem } from './orderItems.entity';
 import { District } from './district.entity';
+import { VendorStatus } from './vendorKyc.enum';
 
 @Entity()
 export class Vendor {
@@ -73,6 +74,23 @@ export class Vendor {
     @Column({ default: false })
     isApproved: boolean;
 
+    // Set through the KYC review; isApproved follows it
+    @Column({ type: 'enum', enum: VendorStatus, default: VendorStatus.PENDING })
+    status: VendorStatus;
+
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    suspensionReason: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    suspendedAt: Date | null;
+
+    // SHA-256 of the token emailed with a document rejection, for re-uploading without logging in
+    @Column({ type: 'varchar', nullable: true })
+    kycResubmitToken: string | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    kycResubmitTokenExpire: Date | null;
+
     @Column({ nullable: true })
     resetToken: string | null;
 
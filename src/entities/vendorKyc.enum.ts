@@ -0,0 +1,33 @@
+/**
+ * Vendor account lifecycle. Kept apart from the vendor entity so the KYC entities can share it.
+ * `Vendor.isApproved` mirrors `status === APPROVED` for the existing approved-vendor queries.
+ */
+export enum VendorStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    SUSPENDED = 'SUSPENDED',
+}
+
+/**
+ * KYC documents a vendor uploads at signup, one review per type.
+ */
+export enum KycDocumentType {
+    TAX = 'TAX',
+    CITIZENSHIP = 'CITIZENSHIP',
+    CHEQUE = 'CHEQUE',
+}
+
+export enum KycDocumentStatus {
+    PENDING = 'PENDING',
+    APPROVED = 'APPROVED',
+    REJECTED = 'REJECTED',
+}
+
+export enum KycAuditAction {
+    DOCUMENT_SUBMITTED = 'DOCUMENT_SUBMITTED',
+    DOCUMENT_APPROVED = 'DOCUMENT_APPROVED',
+    DOCUMENT_REJECTED = 'DOCUMENT_REJECTED',
+    VENDOR_APPROVED = 'VENDOR_APPROVED',
+    VENDOR_SUSPENDED = 'VENDOR_SUSPENDED',
+    VENDOR_REINSTATED = 'VENDOR_REINSTATED',
+}
@@ -0,0 +1,41 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Vendor } from './vendor.entity';
+import { User } from './user.entity';
+import { KycAuditAction, KycDocumentType } from './vendorKyc.enum';
+
+/**
+ * Append-only trail of KYC decisions: who reviewed which document, approved, suspended
+ * or reinstated a vendor, and when. Vendor re-uploads are recorded without an actor.
+ */
+@Entity('vendor_kyc_audits')
+@Index(['vendorId', 'createdAt'])
+export class VendorKycAudit {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @Column({ type: 'enum', enum: KycAuditAction })
+    action: KycAuditAction;
+
+    @Column({ type: 'enum', enum: KycDocumentType, enumName: 'vendor_kyc_documents_type_enum', nullable: true })
+    documentType?: KycDocumentType | null;
+
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    note?: string | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'actorId' })
+    actor?: User | null;
+
+    @Column({ nullable: true })
+    actorId?: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
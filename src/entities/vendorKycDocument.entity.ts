@@ -0,0 +1,56 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+import { Vendor } from './vendor.entity';
+import { User } from './user.entity';
+import { KycDocumentStatus, KycDocumentType } from './vendorKyc.enum';
+
+/**
+ * Review of one type of KYC document of a vendor. The files themselves stay on the vendor
+ * (`taxDocuments`, `citizenshipDocuments`, `chequePhoto`); re-uploading them resets the review to PENDING.
+ */
+@Entity('vendor_kyc_documents')
+@Index(['vendorId', 'type'], { unique: true })
+@Index(['status', 'submittedAt'])
+export class VendorKycDocument {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @Column({ type: 'enum', enum: KycDocumentType })
+    type: KycDocumentType;
+
+    @Column({ type: 'enum', enum: KycDocumentStatus, default: KycDocumentStatus.PENDING })
+    status: KycDocumentStatus;
+
+    // Internal note for other reviewers; not sent to the vendor
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    reviewerNote?: string | null;
+
+    // Emailed to the vendor with the link to re-upload
+    @Column({ type: 'varchar', length: 500, nullable: true })
+    rejectionReason?: string | null;
+
+    @ManyToOne(() => User, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'reviewedById' })
+    reviewedBy?: User | null;
+
+    @Column({ nullable: true })
+    reviewedById?: number | null;
+
+    @Column({ type: 'timestamp', nullable: true })
+    reviewedAt?: Date | null;
+
+    @Column({ type: 'timestamp', default: () => 'CURRENT_TIMESTAMP' })
+    submittedAt: Date;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
@@ -0,0 +1,95 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { Vendor } from './vendor.entity';
+import { OrderItem } from './orderItems.entity';
+import { ReturnRequest } from './returnRequest.entity';
+import { Refund } from './refund.entity';
+import { Payout } from './payout.entity';
+import { LedgerEntryType } from './settlement.enum';
+
+// Transformer to convert decimal strings to numbers
+const decimalTransformer = {
+    to: (value: number | null | undefined): string | null => {
+        return value !== null && value !== undefined ? value.toString() : null;
+    },
+    from: (value: string | null | undefined): number | null => {
+        return value !== null && value !== undefined ? parseFloat(value) : null;
+    }
+};
+
+/**
+ * One line of a vendor's settlement ledger. Credits are positive, debits negative;
+ * the vendor's balance is the sum of entries not yet included in a payout.
+ * Entries are only ever added, never edited, so statements stay reproducible.
+ */
+@Entity('vendor_ledger_entries')
+@Index(['vendorId', 'payoutId', 'availableAt'])
+@Index(['vendorId', 'createdAt'])
+@Index(['orderItemId', 'type'], { unique: true, where: '"orderItemId" IS NOT NULL' })
+@Index(['returnRequestId', 'type'], { unique: true, where: '"returnRequestId" IS NOT NULL' })
+@Index(['refundId', 'vendorId', 'type'], { unique: true, where: '"refundId" IS NOT NULL' })
+export class VendorLedgerEntry {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Vendor, { onDelete: 'CASCADE' })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @Column({ type: 'enum', enum: LedgerEntryType })
+    type: LedgerEntryType;
+
+    @Column('decimal', { precision: 12, scale: 2, transformer: decimalTransformer })
+    amount: number;
+
+    // Rate applied for commission entries
+    @Column('decimal', { precision: 5, scale: 2, nullable: true, transformer: decimalTransformer })
+    commissionRate?: number | null;
+
+    @Column({ type: 'varchar', length: 255 })
+    description: string;
+
+    // Set for sale and commission entries
+    @ManyToOne(() => OrderItem, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'orderItemId' })
+    orderItem?: OrderItem | null;
+
+    @Column({ nullable: true })
+    orderItemId?: number | null;
+
+    @Column({ nullable: true })
+    orderId?: number | null;
+
+    // Set for refund entries of a return
+    @ManyToOne(() => ReturnRequest, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'returnRequestId' })
+    returnRequest?: ReturnRequest | null;
+
+    @Column({ nullable: true })
+    returnRequestId?: number | null;
+
+    // Set for refund entries of a refund made outside the returns flow
+    @ManyToOne(() => Refund, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'refundId' })
+    refund?: Refund | null;
+
+    @Column({ nullable: true })
+    refundId?: number | null;
+
+    // Sales are held until the return window closes; refunds are available at once
+    @Column({ type: 'timestamp' })
+    availableAt: Date;
+
+    // Payout that settled the entry; null while it counts towards the open balance
+    @ManyToOne(() => Payout, { nullable: true, onDelete: 'SET NULL' })
+    @JoinColumn({ name: 'payoutId' })
+    payout?: Payout | null;
+
+    @Column({ nullable: true })
+    payoutId?: number | null;
+
+    @CreateDateColumn()
+    createdAt: Date;
+}
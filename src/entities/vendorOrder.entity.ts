@@ -0,0 +1,77 @@
+import { Column, CreateDateColumn, Entity, Index, JoinColumn, ManyToOne, OneToMany, PrimaryGeneratedColumn, UpdateDateColumn } from "typeorm";
+import { Order } from "./order.entity";
+import { Vendor } from "./vendor.entity";
+import { OrderItem } from "./orderItems.entity";
+
+// Mirrors the values of OrderStatus so a parent order status can be derived directly
+export enum VendorOrderStatus {
+    CONFIRMED = "CONFIRMED",
+    PENDING = "PENDING",
+    DELAYED = "DELAYED",
+    SHIPPED = "SHIPPED",
+    DELIVERED = "DELIVERED",
+    CANCELLED = "CANCELLED",
+    RETURNED = "RETURNED"
+}
+
+/**
+ * One vendor's share of an order (a split shipment).
+ * Each vendor fulfils and tracks their own sub-order; the parent order status is derived from these.
+ */
+@Entity('vendor_orders')
+@Index(['orderId', 'vendorId'], { unique: true })
+@Index(['vendorId', 'status'])
+export class VendorOrder {
+    @PrimaryGeneratedColumn()
+    id: number;
+
+    @ManyToOne(() => Order, (order) => order.vendorOrders, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'orderId' })
+    order: Order;
+
+    @Column()
+    orderId: number;
+
+    @ManyToOne(() => Vendor, { onDelete: "CASCADE" })
+    @JoinColumn({ name: 'vendorId' })
+    vendor: Vendor;
+
+    @Column()
+    vendorId: number;
+
+    @OneToMany(() => OrderItem, (item) => item.vendorOrder)
+    orderItems: OrderItem[];
+
+    @Column({
+        type: "enum",
+        enum: VendorOrderStatus,
+        default: VendorOrderStatus.CONFIRMED
+    })
+    status: VendorOrderStatus;
+
+    // Sum of price * quantity for this vendor's items
+    @Column('decimal', { precision: 10, scale: 2, default: 0 })
+    subtotal: number;
+
+    // This vendor's shipment fee as quoted at checkout
+    @Column('decimal', { precision: 8, scale: 2, default: 0 })
+    shippingFee: number;
+
+    @Column({ nullable: true })
+    trackingNumber: string;
+
+    @Column({ nullable: true })
+    courier: string;
+
+    @Column({ type: 'timestamp', nullable: true })
+    shippedAt: Date;
+
+    @Column({ type: 'timestamp', nullable: true })
+    deliveredAt: Date;
+
+    @CreateDateColumn()
+    createdAt: Date;
+
+    @UpdateDateColumn()
+    updatedAt: Date;
+}
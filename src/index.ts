@@ -50,9 +50,24 @@ console.log("  ✓ review.routes");
 import bannerRoutes from "./routes/banner.routes";
 console.log("  ✓ banner.routes");
 import orderRoutes from "./routes/order.routes";
+import returnRoutes from "./routes/return.routes";
 console.log("  ✓ order.routes");
 import districtRoutes from "./routes/district.routes";
 console.log("  ✓ district.routes");
+import shippingRoutes from "./routes/shipping.routes";
+console.log("  ✓ shipping.routes");
+import stockRoutes from "./routes/stock.routes";
+console.log("  ✓ stock.routes");
+import brandRoutes from "./routes/brand.routes";
+console.log("  ✓ brand.routes");
+import searchRoutes from "./routes/search.routes";
+console.log("  ✓ search.routes");
+import productQuestionRoutes from "./routes/productQuestion.routes";
+console.log("  ✓ productQuestion.routes");
+import settlementRoutes from "./routes/settlement.routes";
+console.log("  ✓ settlement.routes");
+import vendorKycRoutes from "./routes/vendorKyc.routes";
+console.log("  ✓ vendorKyc.routes");
 import homepageRoutes from "./routes/homepage.routes";
 console.log("  ✓ homepage.routes");
 import productRouter from "./routes/product.routes";
@@ -71,6 +86,10 @@ import homecategoryRoutes from "./routes/home.category.routes";
 console.log("  ✓ home.category.routes");
 import notificationRoutes from "./routes/notification.routes";
 console.log("  ✓ notification.routes");
+import emailLogRoutes from "./routes/emailLog.routes";
+console.log("  ✓ emailLog.routes");
+import twoFactorRoutes from "./routes/twoFactor.routes";
+console.log("  ✓ twoFactor.routes");
 console.log("✓ All legacy routes imported");
 
 // V1 API routes
@@ -81,7 +100,9 @@ console.log("✓ V1 routes import SKIPPED for debugging");
 
 // Utils for scheduled background tasks
 console.log("→ Importing cronjob utils...");
-import { orderCleanUp, removeUnverifiedVendors, startOrderCleanupJob, tokenCleanUp } from "./utils/cronjob.utils";
+import { NotificationStreamService } from "./services/notification/NotificationStreamService";
+import { EmailService } from "./services/email/EmailService";
+import { orderCleanUp, removeUnverifiedVendors, productStatsRefresh, refundReconciliation, reservationCleanUp, settlementLedgerSync, startOrderCleanupJob, tokenCleanUp, vendorPayoutCycle } from "./utils/cronjob.utils";
 console.log("✓ Cronjob utils imported");
 
 console.log("→ Importing error handlers...");
@@ -124,7 +145,7 @@ console.log("✓ Security headers applied");
 app.use(cors({
     origin: true, // Accept requests from any origin
     credentials: true,
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Last-Event-ID'],
     exposedHeaders: ['Content-Range', 'X-Content-Range'],
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
     maxAge: 86400 // 24 hours
@@ -196,8 +217,10 @@ console.log("✓ V1 routes mounting SKIPPED for debugging");
 
 // Legacy routes (maintain backward compatibility)
 
+app.use("/api/auth/2fa", twoFactorRoutes);
 app.use("/api/auth", userRouter);
 app.use("/api/categories", categoryRoutes);
+app.use("/api/vendors/kyc", vendorKycRoutes); // before /api/vendors so "/:id" does not swallow it
 app.use("/api/vendors", vendorRoutes);
 app.use("/api/cart", cartRouter);
 app.use("/api/wishlist", wishlistRoutes);
@@ -205,8 +228,15 @@ app.use("/api/contact", contactRoutes);
 app.use("/api/deal", dealRoutes);
 app.use("/api/reviews", reviewRoutes);
 app.use("/api/banners", bannerRoutes);
+app.use("/api/order/returns", returnRoutes); // before /api/order so "/:orderId" does not swallow it
 app.use("/api/order", orderRoutes);
 app.use("/api/district", districtRoutes);
+app.use("/api/shipping", shippingRoutes);
+app.use("/api/stock", stockRoutes);
+app.use("/api/brands", brandRoutes);
+app.use("/api/search", searchRoutes);
+app.use("/api/questions", productQuestionRoutes);
+app.use("/api/settlements", settlementRoutes);
 app.use("/api/homepage", homepageRoutes);
 app.use("/api/product", productRouter);
 app.use("/api/admin/dashboard", adminDashboardRouter);
@@ -216,6 +246,7 @@ app.use("/api/promo", promoRouter);
 app.use("/api/image", imageRouter);
 app.use("/api/home/category/section", homecategoryRoutes);
 app.use("/api/notification", notificationRoutes);
+app.use("/api/email-logs", emailLogRoutes);
 
 // 404 handler for undefined routes
 app.use(notFoundHandler);
@@ -240,12 +271,23 @@ AppDataSource.initialize()
         console.log("✓ Rate limiters loaded");
         initializeRateLimiters();
 
-        // Start background cron jobs for token and order cleanup
+        // Start background cron jobs for token, order and stock reservation cleanup, refund reconciliation, product stats and vendor settlement
         tokenCleanUp();
         orderCleanUp();
         startOrderCleanupJob();
+        reservationCleanUp();
+        refundReconciliation();
+        productStatsRefresh();
+        settlementLedgerSync();
+        vendorPayoutCycle();
         removeUnverifiedVendors();
 
+        // Push notifications to open streams, fanned out over Redis when configured
+        NotificationStreamService.getInstance().start();
+
+        // Deliver queued emails on the Bull email queue, in-process without Redis
+        EmailService.getInstance().start();
+
         // Start Express server
         app.listen(port, () => {
             logger.info(`🚀 Server running at http://localhost:${port}`);
@@ -21,6 +21,9 @@ export interface IDealResponse {
     name: string;
     discountPercentage: number;
     status: DealStatus;
+    startsAt: string | null;
+    endsAt: string | null;
+    perCustomerLimit: number | null;
     createdById: number;
     createdAt: string;
     updatedAt: string;
@@ -30,4 +33,52 @@ export interface IDealsResponse {
     deals: IDealResponse[];
     total: number;
     productCounts: { [dealId: string]: number };
-}
\ No newline at end of file
+}
+
+/**
+ * Quantity of one product bought at a deal price, checked against the deal limits
+ */
+export interface IDealLine {
+    dealId: number;
+    productId: number;
+    quantity: number;
+}
+
+export interface IDealCountdown {
+    startsAt: Date | null;
+    endsAt: Date | null;
+    // Seconds until the deal starts; 0 once live
+    startsInSeconds: number;
+    // Seconds until the deal ends; null when open-ended
+    endsInSeconds: number | null;
+}
+
+export interface IDealProductSummary {
+    id: number;
+    name: string;
+    basePrice: number | null;
+    discount: number | null;
+    discountType: string;
+    productImages: string[];
+    hasVariants: boolean;
+    // Product price with the deal percentage applied
+    dealPrice: number | null;
+    stockLimit: number | null;
+    remainingDealStock: number | null;
+}
+
+export interface ILiveDeal {
+    id: number;
+    name: string;
+    discountPercentage: number;
+    status: DealStatus;
+    perCustomerLimit: number | null;
+    countdown: IDealCountdown;
+    products: IDealProductSummary[];
+}
+
+export interface ILiveDealsResponse {
+    serverTime: Date;
+    live: ILiveDeal[];
+    upcoming: ILiveDeal[];
+}
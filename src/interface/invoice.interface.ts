@@ -0,0 +1,51 @@
+import { Invoice } from '../entities/invoice.entity';
+
+export interface IInvoiceLine {
+    name: string;
+    sku?: string | null;
+    variantAttributes?: Record<string, any> | null;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+    vendorId: number;
+}
+
+/**
+ * Selling vendor as printed on the invoice
+ */
+export interface IInvoiceSeller {
+    vendorId: number;
+    businessName: string;
+    taxNumber?: string | null;
+    businessRegNumber?: string | null;
+    district?: string | null;
+    phoneNumber?: string | null;
+}
+
+export interface IInvoiceCustomer {
+    name: string;
+    email?: string | null;
+    phoneNumber?: string | null;
+    address?: string | null;
+}
+
+/**
+ * Everything needed to render an invoice
+ */
+export interface IInvoiceDocument {
+    invoice: Invoice;
+    orderId: number;
+    orderDate: Date;
+    paymentMethod: string;
+    paymentStatus: string;
+    appliedPromoCode?: string | null;
+    customer: IInvoiceCustomer;
+    sellers: IInvoiceSeller[];
+    lines: IInvoiceLine[];
+}
+
+export interface IInvoiceAttachment {
+    filename: string;
+    content: string;
+    contentType: string;
+}
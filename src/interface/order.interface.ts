@@ -1,6 +1,7 @@
 
 import { Province } from '../entities/address.entity';
 import { OrderStatus, PaymentMethod, PaymentStatus } from '../entities/order.entity';
+import { VendorOrderStatus } from '../entities/vendorOrder.entity';
 
 export interface IShippingAddressRequest {
     province: Province;
@@ -53,6 +54,24 @@ export interface IUpdateOrderStatusRequest {
     status: OrderStatus;
 }
 
+export interface IUpdateVendorOrderStatusRequest {
+    status: VendorOrderStatus;
+    trackingNumber?: string;
+    courier?: string;
+}
+
+export interface IRefundOrderRequest {
+    amount?: number;
+    reason: string;
+    reference?: string;
+}
+
+export interface IReconcileRefundRequest {
+    status: 'COMPLETED' | 'FAILED';
+    reference?: string;
+    note?: string;
+}
+
 export interface IOrderResponse {
     id: number;
     orderedById: number;
@@ -15,13 +15,47 @@ export interface IProductQueryParams {
     categoryId?: number;
     subcategoryId?: number;
     dealId?: number;
-    sort?: 'all' | 'low-to-high' | 'high-to-low';
+    sort?: 'all' | 'low-to-high' | 'high-to-low' | 'best-selling' | 'top-rated' | 'discount' | 'newest' | 'trending';
     bannerId?: number
     page: number;
     limit: number;
     isAdmin?: boolean;
     search?: string;
     vendorId?: string;
+
+    // Facet filters, as sent in the query string
+    minPrice?: number | string;
+    maxPrice?: number | string;
+    minRating?: number | string;
+    attributes?: Record<string, string | string[]>; // e.g. attributes[color]=red,blue&attributes[size]=M
+    inStock?: boolean | string; // defaults to true; "false" also lists out-of-stock products
+    discounted?: boolean | string;
+}
+
+/**
+ * Parsed facet filters of a product listing
+ */
+export interface IProductFacetFilters {
+    minPrice?: number;
+    maxPrice?: number;
+    minRating?: number;
+    attributes: Record<string, string[]>; // attribute name -> accepted values, lowercase
+    inStock: boolean;
+    discounted: boolean;
+}
+
+/**
+ * Counts for the filter sidebar of a product listing.
+ * Each facet is counted with every other active filter applied, but not its own,
+ * so the shopper can see what changing that filter would return.
+ */
+export interface IProductFacets {
+    price: { min: number | null; max: number | null };
+    rating: { minRating: number; count: number }[];
+    attributes: { name: string; values: { value: string; count: number }[] }[];
+    availability: { inStock: number; outOfStock: number };
+    discounted: number;
+    brands: { id: number; name: string; count: number }[];
 }
 
 export interface IAdminProductQueryParams {
@@ -0,0 +1,39 @@
+import { ProductSheetRow } from '../utils/productSheet.utils';
+
+/**
+ * A product row of an import file with the variant rows below it
+ */
+export interface IProductImportGroup {
+    product: ProductSheetRow;
+    variants: ProductSheetRow[];
+}
+
+export interface IProductImportRowError {
+    row: number;
+    field?: string;
+    message: string;
+}
+
+export type ProductImportAction = 'CREATE' | 'UPDATE';
+
+/**
+ * Outcome of one product of an import, reported against its sheet row
+ */
+export interface IProductImportResult {
+    row: number;
+    name: string;
+    action: ProductImportAction | null;
+    productId: number | null;
+    success: boolean;
+    errors: IProductImportRowError[];
+}
+
+export interface IProductImportReport {
+    dryRun: boolean;
+    totalRows: number;
+    products: number;
+    created: number;
+    updated: number;
+    failed: number;
+    results: IProductImportResult[];
+}
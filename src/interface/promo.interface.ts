@@ -0,0 +1,37 @@
+import { Promo } from '../entities/promo.entity';
+
+/**
+ * One checkout line as seen by the promo rules
+ */
+export interface IPromoLine {
+    productId: number;
+    vendorId: number;
+    subcategoryId?: number | null;
+    lineTotal: number;
+}
+
+export interface IPromoEvaluation {
+    promo: Promo;
+    discountAmount: number;
+    eligibleSubtotal: number;
+}
+
+export interface IPromoUsageReport {
+    promoId: number;
+    promoCode: string;
+    usageLimit: number | null;
+    perUserLimit: number | null;
+    totalRedemptions: number;
+    remainingUses: number | null;
+    uniqueCustomers: number;
+    totalDiscount: number;
+    cancelledRedemptions: number;
+    recentRedemptions: {
+        orderId: number;
+        orderStatus: string;
+        userId: number;
+        email: string | null;
+        discountAmount: number;
+        redeemedAt: Date;
+    }[];
+}
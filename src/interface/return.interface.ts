@@ -0,0 +1,22 @@
+import { ReturnStatus } from '../entities/returnRequest.entity';
+
+export interface IReturnItemRequest {
+    orderItemId: number;
+    quantity: number;
+}
+
+export interface ICreateReturnRequest {
+    orderId: number;
+    reason: string;
+    comments?: string;
+    items: IReturnItemRequest[];
+}
+
+export interface IReviewReturnRequest {
+    status: ReturnStatus.APPROVED | ReturnStatus.REJECTED;
+    note?: string;
+}
+
+export interface IRefundReturnRequest {
+    reference?: string;
+}
@@ -0,0 +1,49 @@
+export interface ISearchSuggestionQuery {
+    q: string;
+    limit?: number;
+}
+
+export interface IProductSuggestion {
+    id: number;
+    name: string;
+    image: string | null;
+    sold: number;
+}
+
+export interface ICategorySuggestion {
+    id: number;
+    name: string;
+    image: string | null;
+}
+
+export interface ISubcategorySuggestion {
+    id: number;
+    name: string;
+    image: string | null;
+    categoryId: number | null;
+    categoryName: string | null;
+}
+
+export interface IBrandSuggestion {
+    id: number;
+    name: string;
+    slug: string;
+    logo: string | null;
+}
+
+export interface IVendorSuggestion {
+    id: number;
+    businessName: string;
+}
+
+/**
+ * Autocomplete results, grouped by section; each section is ordered best match first
+ */
+export interface ISearchSuggestions {
+    query: string;
+    products: IProductSuggestion[];
+    categories: ICategorySuggestion[];
+    subcategories: ISubcategorySuggestion[];
+    brands: IBrandSuggestion[];
+    vendors: IVendorSuggestion[];
+}
@@ -0,0 +1,71 @@
+import { Province } from '../entities/address.entity';
+
+export interface IShippingZoneRequest {
+    name: string;
+    description?: string;
+    provinces?: Province[];
+    districtIds?: number[];
+    baseFee: number;
+    localFee?: number | null;
+    perKgFee?: number;
+    perItemFee?: number;
+    freeShippingThreshold?: number | null;
+    isActive?: boolean;
+}
+
+export interface IShippingVendorRateRequest {
+    vendorId: number;
+    zoneId?: number | null;
+    baseFee?: number | null;
+    localFee?: number | null;
+    perKgFee?: number | null;
+    perItemFee?: number | null;
+    freeShippingThreshold?: number | null;
+}
+
+export interface IShippingDestination {
+    district: string;
+    province?: Province;
+}
+
+export interface IShippingQuoteRequest {
+    address: IShippingDestination;
+    items: {
+        productId: number;
+        variantId?: number;
+        quantity: number;
+    }[];
+}
+
+/**
+ * One priced line of a shipment, already resolved to its vendor and origin district
+ */
+export interface IShippingLine {
+    vendorId: number;
+    vendorDistrict: string;
+    unitPrice: number;
+    quantity: number;
+    weight: number; // kg per unit
+}
+
+export interface IVendorShippingQuote {
+    vendorId: number;
+    vendorDistrict: string;
+    zoneId: number | null;
+    zoneName: string | null;
+    isLocal: boolean;
+    subtotal: number;
+    totalWeight: number;
+    itemCount: number;
+    baseFee: number; // 0 when another vendor of the same district carries the shipment's base fee
+    weightSurcharge: number;
+    itemSurcharge: number;
+    freeShippingThreshold: number | null;
+    freeShippingApplied: boolean;
+    fee: number;
+}
+
+export interface IShippingQuote {
+    shippingFee: number;
+    vendors: IVendorShippingQuote[];
+}
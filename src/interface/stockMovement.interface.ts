@@ -0,0 +1,59 @@
+import { StockMovementReason } from '../entities/stockMovement.entity';
+
+/**
+ * Who changed the stock; leave both empty for system changes
+ */
+export interface IStockActor {
+    userId?: number | null;
+    vendorId?: number | null;
+}
+
+/**
+ * Why and on whose behalf stock changed, shared by every movement of one operation
+ */
+export interface IStockMovementContext {
+    reason?: StockMovementReason;
+    orderId?: number | null;
+    actor?: IStockActor;
+    note?: string | null;
+}
+
+export interface IStockMovementInput extends IStockMovementContext {
+    productId: number;
+    variantId?: string | number | null;
+    delta: number;
+    balanceAfter: number;
+    reason: StockMovementReason;
+}
+
+export interface IStockMovementQuery {
+    page?: number;
+    limit?: number;
+    variantId?: number;
+    reason?: StockMovementReason;
+}
+
+export interface IStockReconciliationQuery {
+    vendorId?: number;
+    productId?: number;
+    mismatchedOnly?: boolean;
+}
+
+export interface IStockReconciliationRow {
+    productId: number;
+    productName: string;
+    vendorId: number;
+    variantId: number | null;
+    sku: string | null;
+    currentStock: number;
+    ledgerStock: number;
+    // currentStock - ledgerStock; non-zero means stock changed outside the ledger
+    difference: number;
+}
+
+export interface IStockReconciliationReport {
+    generatedAt: Date;
+    checked: number;
+    mismatched: number;
+    rows: IStockReconciliationRow[];
+}
@@ -5,11 +5,13 @@ import AppDataSource from '../config/db.config';
 import TestDataSource from '../config/db.test.config';
 import { string, ZodError, ZodSchema } from 'zod';
 import { Vendor } from '../entities/vendor.entity';
+import { VendorStatus } from '../entities/vendorKyc.enum';
 import { APIError } from '../utils/ApiError.utils';
 import { ProductService } from '../service/product.service';
 import { Product } from '../entities/product.entity';
 import { parse } from 'path';
 import { OrderItem } from '../entities/orderItems.entity';
+import { OrderStatus } from '../entities/order.entity';
 import { Review } from '../entities/reviews.entity';
 
 
@@ -133,6 +135,10 @@ export const combinedAuthMiddleware = async (
                 res.status(401).json({ success: false, message: 'Invalid token: vendor not found' });
                 return;
             }
+            if (vendor.status === VendorStatus.SUSPENDED) {
+                res.status(403).json({ success: false, message: 'Vendor account is suspended' });
+                return;
+            }
             req.vendor = vendor;
             next();
             return;
@@ -192,6 +198,11 @@ export const vendorAuthMiddleware = async (req: VendorAuthRequest, res: Response
         if (!vendor) {
             throw new APIError(401, 'Vendor not found');
         }
+        // Also rejects tokens issued before the vendor was suspended
+        if (vendor.status === VendorStatus.SUSPENDED) {
+            res.status(403).json({ success: false, message: 'Vendor account is suspended' });
+            return;
+        }
         //("Vendor details: ", vendor)
         req.vendor = vendor;
         next();
@@ -503,6 +514,14 @@ export const validateZod = (
     };
 };
 
+// Orders whose items the customer has bought and may review
+const REVIEWABLE_ORDER_STATUSES: OrderStatus[] = [
+    OrderStatus.CONFIRMED,
+    OrderStatus.DELAYED,
+    OrderStatus.SHIPPED,
+    OrderStatus.DELIVERED,
+];
+
 export const canReviewProduct = async (req: AuthRequest<{}, {}, { productId: string }, {}>, res: Response, next: NextFunction): Promise<void> => {
     try {
         const userId = req.user?.id;
@@ -521,12 +540,12 @@ export const canReviewProduct = async (req: AuthRequest<{}, {}, { productId: str
 
         const orderItemRepo = AppDataSource.getRepository(OrderItem);
 
-        // check if user has DELIVERED order containing this product
+        // check if user has a confirmed or DELIVERED order containing this product; only delivered ones earn the verified badge
         const purchasedItem = await orderItemRepo
             .createQueryBuilder("orderItem")
             .innerJoinAndSelect("orderItem.order", "order")
             .where("order.orderedById = :userId", { userId })
-            .andWhere("order.status = :status", { status: "CONFIRMED" })
+            .andWhere("order.status IN (:...statuses)", { statuses: REVIEWABLE_ORDER_STATUSES })
             .andWhere("orderItem.productId = :productId", { productId })
             .getOne()
 
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRefunds1734349500000 implements MigrationInterface {
+    name = 'AddRefunds1734349500000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Add refund states to order payment status
+        await queryRunner.query(`ALTER TYPE "orders_paymentstatus_enum" ADD VALUE IF NOT EXISTS 'PARTIALLY_REFUNDED'`);
+        await queryRunner.query(`ALTER TYPE "orders_paymentstatus_enum" ADD VALUE IF NOT EXISTS 'REFUNDED'`);
+
+        // Create refunds table
+        await queryRunner.query(`CREATE TYPE "refunds_channel_enum" AS ENUM('ESEWA', 'NPX', 'MANUAL')`);
+        await queryRunner.query(`CREATE TYPE "refunds_status_enum" AS ENUM('PENDING', 'COMPLETED', 'FAILED')`);
+        await queryRunner.query(`
+            CREATE TABLE "refunds" (
+                "id" SERIAL NOT NULL,
+                "orderId" integer NOT NULL,
+                "amount" numeric(10,2) NOT NULL,
+                "reason" text NOT NULL,
+                "channel" "refunds_channel_enum" NOT NULL,
+                "status" "refunds_status_enum" NOT NULL DEFAULT 'PENDING',
+                "gatewayReference" character varying,
+                "gatewayResponse" jsonb,
+                "failureReason" character varying,
+                "processedById" integer,
+                "processedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_refunds_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // Add foreign key constraints to Order and User
+        await queryRunner.query(`
+            ALTER TABLE "refunds"
+            ADD CONSTRAINT "FK_refunds_orderId"
+            FOREIGN KEY ("orderId")
+            REFERENCES "orders"("id")
+            ON DELETE CASCADE
+            ON UPDATE NO ACTION
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "refunds"
+            ADD CONSTRAINT "FK_refunds_processedById"
+            FOREIGN KEY ("processedById")
+            REFERENCES "user"("id")
+            ON DELETE SET NULL
+            ON UPDATE NO ACTION
+        `);
+
+        // Add composite index for orderId and status
+        await queryRunner.query(`CREATE INDEX "IDX_refund_orderId_status" ON "refunds" ("orderId", "status") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_refund_orderId_status"`);
+        await queryRunner.query(`ALTER TABLE "refunds" DROP CONSTRAINT "FK_refunds_processedById"`);
+        await queryRunner.query(`ALTER TABLE "refunds" DROP CONSTRAINT "FK_refunds_orderId"`);
+        await queryRunner.query(`DROP TABLE "refunds"`);
+        await queryRunner.query(`DROP TYPE "refunds_status_enum"`);
+        await queryRunner.query(`DROP TYPE "refunds_channel_enum"`);
+
+        // Postgres cannot drop enum values; fold refunded orders back into PAID instead
+        await queryRunner.query(`UPDATE "orders" SET "paymentStatus" = 'PAID' WHERE "paymentStatus" IN ('PARTIALLY_REFUNDED', 'REFUNDED')`);
+    }
+}
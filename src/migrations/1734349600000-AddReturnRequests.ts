@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddReturnRequests1734349600000 implements MigrationInterface {
+    name = 'AddReturnRequests1734349600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Track delivery time so the return window can be enforced
+        await queryRunner.query(`ALTER TABLE "orders" ADD "deliveredAt" TIMESTAMP`);
+        await queryRunner.query(`UPDATE "orders" SET "deliveredAt" = "updatedAt" WHERE "status" = 'DELIVERED'`);
+
+        // Create return_requests table
+        await queryRunner.query(`CREATE TYPE "return_requests_status_enum" AS ENUM('REQUESTED', 'APPROVED', 'REJECTED', 'RECEIVED', 'REFUNDED', 'CANCELLED')`);
+        await queryRunner.query(`
+            CREATE TABLE "return_requests" (
+                "id" SERIAL NOT NULL,
+                "orderId" integer NOT NULL,
+                "requestedById" integer NOT NULL,
+                "vendorId" integer NOT NULL,
+                "status" "return_requests_status_enum" NOT NULL DEFAULT 'REQUESTED',
+                "reason" character varying NOT NULL,
+                "comments" text,
+                "reviewNote" text,
+                "reviewedByVendorId" integer,
+                "reviewedByUserId" integer,
+                "reviewedAt" TIMESTAMP,
+                "receivedAt" TIMESTAMP,
+                "refundId" integer,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_return_requests_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // Create return_request_items table
+        await queryRunner.query(`
+            CREATE TABLE "return_request_items" (
+                "id" SERIAL NOT NULL,
+                "returnRequestId" integer NOT NULL,
+                "orderItemId" integer NOT NULL,
+                "quantity" integer NOT NULL,
+                "price" numeric(8,2) NOT NULL,
+                CONSTRAINT "PK_return_request_items_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // Add foreign key constraints
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_requestedById" FOREIGN KEY ("requestedById") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_reviewedByVendorId" FOREIGN KEY ("reviewedByVendorId") REFERENCES "vendor"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_reviewedByUserId" FOREIGN KEY ("reviewedByUserId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_requests" ADD CONSTRAINT "FK_return_requests_refundId" FOREIGN KEY ("refundId") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_request_items" ADD CONSTRAINT "FK_return_request_items_returnRequestId" FOREIGN KEY ("returnRequestId") REFERENCES "return_requests"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "return_request_items" ADD CONSTRAINT "FK_return_request_items_orderItemId" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Add composite indexes for order and vendor lookups by status
+        await queryRunner.query(`CREATE INDEX "IDX_return_request_orderId_status" ON "return_requests" ("orderId", "status") `);
+        await queryRunner.query(`CREATE INDEX "IDX_return_request_vendorId_status" ON "return_requests" ("vendorId", "status") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_return_request_vendorId_status"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_return_request_orderId_status"`);
+        await queryRunner.query(`DROP TABLE "return_request_items"`);
+        await queryRunner.query(`DROP TABLE "return_requests"`);
+        await queryRunner.query(`DROP TYPE "return_requests_status_enum"`);
+        await queryRunner.query(`ALTER TABLE "orders" DROP COLUMN "deliveredAt"`);
+    }
+}
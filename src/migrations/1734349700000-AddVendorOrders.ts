@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddVendorOrders1734349700000 implements MigrationInterface {
+    name = 'AddVendorOrders1734349700000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Create vendor_orders table (one fulfilment record per vendor per order)
+        await queryRunner.query(`CREATE TYPE "vendor_orders_status_enum" AS ENUM('CONFIRMED', 'PENDING', 'DELAYED', 'SHIPPED', 'DELIVERED', 'CANCELLED', 'RETURNED')`);
+        await queryRunner.query(`
+            CREATE TABLE "vendor_orders" (
+                "id" SERIAL NOT NULL,
+                "orderId" integer NOT NULL,
+                "vendorId" integer NOT NULL,
+                "status" "vendor_orders_status_enum" NOT NULL DEFAULT 'CONFIRMED',
+                "subtotal" numeric(10,2) NOT NULL DEFAULT '0',
+                "trackingNumber" character varying,
+                "courier" character varying,
+                "shippedAt" TIMESTAMP,
+                "deliveredAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_vendor_orders_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // Add foreign key constraints to Order and Vendor
+        await queryRunner.query(`ALTER TABLE "vendor_orders" ADD CONSTRAINT "FK_vendor_orders_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_orders" ADD CONSTRAINT "FK_vendor_orders_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // One sub-order per vendor per order, plus vendor lookups by status
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_vendor_order_orderId_vendorId" ON "vendor_orders" ("orderId", "vendorId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_order_vendorId_status" ON "vendor_orders" ("vendorId", "status") `);
+
+        // Link order items to their vendor sub-order
+        await queryRunner.query(`ALTER TABLE "order_items" ADD "vendorOrderId" integer`);
+        await queryRunner.query(`ALTER TABLE "order_items" ADD CONSTRAINT "FK_order_items_vendorOrderId" FOREIGN KEY ("vendorOrderId") REFERENCES "vendor_orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Backfill sub-orders for existing orders, inheriting the order status
+        await queryRunner.query(`
+            INSERT INTO "vendor_orders" ("orderId", "vendorId", "status", "subtotal", "deliveredAt", "createdAt", "updatedAt")
+            SELECT
+                oi."orderId",
+                oi."vendorId",
+                o."status"::text::"vendor_orders_status_enum",
+                SUM(oi."price" * oi."quantity"),
+                CASE WHEN o."status" IN ('DELIVERED', 'RETURNED') THEN o."deliveredAt" END,
+                o."createdAt",
+                o."updatedAt"
+            FROM "order_items" oi
+            INNER JOIN "orders" o ON o."id" = oi."orderId"
+            GROUP BY oi."orderId", oi."vendorId", o."status", o."deliveredAt", o."createdAt", o."updatedAt"
+        `);
+        await queryRunner.query(`
+            UPDATE "order_items" oi
+            SET "vendorOrderId" = vo."id"
+            FROM "vendor_orders" vo
+            WHERE vo."orderId" = oi."orderId" AND vo."vendorId" = oi."vendorId"
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "order_items" DROP CONSTRAINT "FK_order_items_vendorOrderId"`);
+        await queryRunner.query(`ALTER TABLE "order_items" DROP COLUMN "vendorOrderId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_order_vendorId_status"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_order_orderId_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_orders" DROP CONSTRAINT "FK_vendor_orders_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_orders" DROP CONSTRAINT "FK_vendor_orders_orderId"`);
+        await queryRunner.query(`DROP TABLE "vendor_orders"`);
+        await queryRunner.query(`DROP TYPE "vendor_orders_status_enum"`);
+    }
+}
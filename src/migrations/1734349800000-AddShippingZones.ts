@@ -0,0 +1,92 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddShippingZones1734349800000 implements MigrationInterface {
+    name = 'AddShippingZones1734349800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Shipping zones group destination districts/provinces under one rate
+        await queryRunner.query(`CREATE TYPE "shipping_zones_provinces_enum" AS ENUM('Province 1', 'Madhesh', 'Bagmati', 'Gandaki', 'Lumbini', 'Karnali', 'Sudurpashchim')`);
+        await queryRunner.query(`
+            CREATE TABLE "shipping_zones" (
+                "id" SERIAL NOT NULL,
+                "name" character varying NOT NULL,
+                "description" text,
+                "provinces" "shipping_zones_provinces_enum" array NOT NULL DEFAULT '{}',
+                "baseFee" numeric(8,2) NOT NULL,
+                "localFee" numeric(8,2),
+                "perKgFee" numeric(8,2) NOT NULL DEFAULT '0',
+                "perItemFee" numeric(8,2) NOT NULL DEFAULT '0',
+                "freeShippingThreshold" numeric(10,2),
+                "isActive" boolean NOT NULL DEFAULT true,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_shipping_zones_name" UNIQUE ("name"),
+                CONSTRAINT "PK_shipping_zones_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        // Districts belonging to each zone
+        await queryRunner.query(`
+            CREATE TABLE "shipping_zone_districts" (
+                "zoneId" integer NOT NULL,
+                "districtId" integer NOT NULL,
+                CONSTRAINT "PK_shipping_zone_districts" PRIMARY KEY ("zoneId", "districtId")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_shipping_zone_districts_zoneId" ON "shipping_zone_districts" ("zoneId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_shipping_zone_districts_districtId" ON "shipping_zone_districts" ("districtId") `);
+        await queryRunner.query(`ALTER TABLE "shipping_zone_districts" ADD CONSTRAINT "FK_shipping_zone_districts_zoneId" FOREIGN KEY ("zoneId") REFERENCES "shipping_zones"("id") ON DELETE CASCADE ON UPDATE CASCADE`);
+        await queryRunner.query(`ALTER TABLE "shipping_zone_districts" ADD CONSTRAINT "FK_shipping_zone_districts_districtId" FOREIGN KEY ("districtId") REFERENCES "district"("id") ON DELETE CASCADE ON UPDATE CASCADE`);
+
+        // Per-vendor overrides, for one zone or (zoneId NULL) for every destination
+        await queryRunner.query(`
+            CREATE TABLE "shipping_vendor_rates" (
+                "id" SERIAL NOT NULL,
+                "vendorId" integer NOT NULL,
+                "zoneId" integer,
+                "baseFee" numeric(8,2),
+                "localFee" numeric(8,2),
+                "perKgFee" numeric(8,2),
+                "perItemFee" numeric(8,2),
+                "freeShippingThreshold" numeric(10,2),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_shipping_vendor_rates_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_shipping_vendor_rates_vendorId_zoneId" ON "shipping_vendor_rates" ("vendorId", "zoneId") `);
+        await queryRunner.query(`ALTER TABLE "shipping_vendor_rates" ADD CONSTRAINT "FK_shipping_vendor_rates_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "shipping_vendor_rates" ADD CONSTRAINT "FK_shipping_vendor_rates_zoneId" FOREIGN KEY ("zoneId") REFERENCES "shipping_zones"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Product weight (kg) for weight-based surcharges, and the fee charged per vendor shipment
+        await queryRunner.query(`ALTER TABLE "products" ADD "weight" numeric(8,3)`);
+        await queryRunner.query(`ALTER TABLE "vendor_orders" ADD "shippingFee" numeric(8,2) NOT NULL DEFAULT '0'`);
+
+        // Seed the previously hardcoded valley rates: 100 within the valley, 200 into it from outside.
+        // Other destinations fall back to the defaults in SHIPPING (same-district 100, otherwise 200).
+        await queryRunner.query(`INSERT INTO "shipping_zones" ("name", "description", "baseFee", "localFee") VALUES ('Kathmandu Valley', 'Kathmandu, Bhaktapur and Lalitpur', 200, 100)`);
+        await queryRunner.query(`
+            INSERT INTO "shipping_zone_districts" ("zoneId", "districtId")
+            SELECT z."id", d."id"
+            FROM "shipping_zones" z
+            INNER JOIN "district" d ON d."name" IN ('Kathmandu', 'Bhaktapur', 'Lalitpur')
+            WHERE z."name" = 'Kathmandu Valley'
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vendor_orders" DROP COLUMN "shippingFee"`);
+        await queryRunner.query(`ALTER TABLE "products" DROP COLUMN "weight"`);
+        await queryRunner.query(`ALTER TABLE "shipping_vendor_rates" DROP CONSTRAINT "FK_shipping_vendor_rates_zoneId"`);
+        await queryRunner.query(`ALTER TABLE "shipping_vendor_rates" DROP CONSTRAINT "FK_shipping_vendor_rates_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_shipping_vendor_rates_vendorId_zoneId"`);
+        await queryRunner.query(`DROP TABLE "shipping_vendor_rates"`);
+        await queryRunner.query(`ALTER TABLE "shipping_zone_districts" DROP CONSTRAINT "FK_shipping_zone_districts_districtId"`);
+        await queryRunner.query(`ALTER TABLE "shipping_zone_districts" DROP CONSTRAINT "FK_shipping_zone_districts_zoneId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_shipping_zone_districts_districtId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_shipping_zone_districts_zoneId"`);
+        await queryRunner.query(`DROP TABLE "shipping_zone_districts"`);
+        await queryRunner.query(`DROP TABLE "shipping_zones"`);
+        await queryRunner.query(`DROP TYPE "shipping_zones_provinces_enum"`);
+    }
+}
@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddInvoices1734349900000 implements MigrationInterface {
+    name = 'AddInvoices1734349900000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Counter per invoice series, locked while a number is issued
+        await queryRunner.query(`
+            CREATE TABLE "invoice_sequences" (
+                "series" character varying NOT NULL,
+                "lastNumber" integer NOT NULL DEFAULT 0,
+                CONSTRAINT "PK_invoice_sequences_series" PRIMARY KEY ("series")
+            )
+        `);
+
+        // Issued invoices with their amounts snapshotted
+        await queryRunner.query(`CREATE TYPE "invoices_type_enum" AS ENUM('CUSTOMER', 'VENDOR')`);
+        await queryRunner.query(`
+            CREATE TABLE "invoices" (
+                "id" SERIAL NOT NULL,
+                "invoiceNumber" character varying NOT NULL,
+                "type" "invoices_type_enum" NOT NULL,
+                "orderId" integer NOT NULL,
+                "vendorOrderId" integer,
+                "vendorId" integer,
+                "subtotal" numeric(10,2) NOT NULL,
+                "discount" numeric(10,2) NOT NULL DEFAULT '0',
+                "shippingFee" numeric(8,2) NOT NULL DEFAULT '0',
+                "serviceCharge" numeric(8,2) NOT NULL DEFAULT '0',
+                "taxableAmount" numeric(10,2) NOT NULL,
+                "vatRate" numeric(5,4) NOT NULL,
+                "vatAmount" numeric(10,2) NOT NULL,
+                "total" numeric(10,2) NOT NULL,
+                "issuedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_invoices_invoiceNumber" UNIQUE ("invoiceNumber"),
+                CONSTRAINT "UQ_invoices_vendorOrderId" UNIQUE ("vendorOrderId"),
+                CONSTRAINT "PK_invoices_id" PRIMARY KEY ("id")
+            )
+        `);
+
+        await queryRunner.query(`ALTER TABLE "invoices" ADD CONSTRAINT "FK_invoices_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "invoices" ADD CONSTRAINT "FK_invoices_vendorOrderId" FOREIGN KEY ("vendorOrderId") REFERENCES "vendor_orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "invoices" ADD CONSTRAINT "FK_invoices_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`CREATE INDEX "IDX_invoices_orderId_type" ON "invoices" ("orderId", "type") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_invoices_orderId_type"`);
+        await queryRunner.query(`ALTER TABLE "invoices" DROP CONSTRAINT "FK_invoices_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "invoices" DROP CONSTRAINT "FK_invoices_vendorOrderId"`);
+        await queryRunner.query(`ALTER TABLE "invoices" DROP CONSTRAINT "FK_invoices_orderId"`);
+        await queryRunner.query(`DROP TABLE "invoices"`);
+        await queryRunner.query(`DROP TYPE "invoices_type_enum"`);
+        await queryRunner.query(`DROP TABLE "invoice_sequences"`);
+    }
+}
@@ -0,0 +1,113 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPromoRules1734350000000 implements MigrationInterface {
+    name = 'AddPromoRules1734350000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Discount kind, validity window, limits and minimum spend
+        await queryRunner.query(`CREATE TYPE "promo_discounttype_enum" AS ENUM('PERCENTAGE', 'FLAT')`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "discountType" "promo_discounttype_enum" NOT NULL DEFAULT 'PERCENTAGE'`);
+        await queryRunner.query(`ALTER TABLE "promo" ALTER COLUMN "discountPercentage" SET DEFAULT 0`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "discountAmount" numeric(10,2)`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "startsAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "endsAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "usageLimit" integer`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "perUserLimit" integer DEFAULT 1`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "minOrderValue" numeric(10,2)`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "maxDiscount" numeric(10,2)`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "firstOrderOnly" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "createdAt" TIMESTAMP NOT NULL DEFAULT now()`);
+        await queryRunner.query(`ALTER TABLE "promo" ADD "updatedAt" TIMESTAMP NOT NULL DEFAULT now()`);
+
+        // Scope join tables
+        for (const [table, column, target] of [
+            ['promo_categories', 'categoryId', 'category'],
+            ['promo_vendors', 'vendorId', 'vendor'],
+            ['promo_products', 'productId', 'products'],
+        ]) {
+            await queryRunner.query(`
+                CREATE TABLE "${table}" (
+                    "promoId" integer NOT NULL,
+                    "${column}" integer NOT NULL,
+                    CONSTRAINT "PK_${table}" PRIMARY KEY ("promoId", "${column}")
+                )
+            `);
+            await queryRunner.query(`CREATE INDEX "IDX_${table}_promoId" ON "${table}" ("promoId") `);
+            await queryRunner.query(`CREATE INDEX "IDX_${table}_${column}" ON "${table}" ("${column}") `);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD CONSTRAINT "FK_${table}_promoId" FOREIGN KEY ("promoId") REFERENCES "promo"("id") ON DELETE CASCADE ON UPDATE CASCADE`);
+            await queryRunner.query(`ALTER TABLE "${table}" ADD CONSTRAINT "FK_${table}_${column}" FOREIGN KEY ("${column}") REFERENCES "${target}"("id") ON DELETE CASCADE ON UPDATE CASCADE`);
+        }
+
+        // Redemptions, one per order
+        await queryRunner.query(`
+            CREATE TABLE "promo_redemptions" (
+                "id" SERIAL NOT NULL,
+                "promoId" integer NOT NULL,
+                "userId" integer NOT NULL,
+                "orderId" integer NOT NULL,
+                "discountAmount" numeric(10,2) NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "UQ_promo_redemptions_orderId" UNIQUE ("orderId"),
+                CONSTRAINT "PK_promo_redemptions_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_promo_redemptions_promoId_userId" ON "promo_redemptions" ("promoId", "userId") `);
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" ADD CONSTRAINT "FK_promo_redemptions_promoId" FOREIGN KEY ("promoId") REFERENCES "promo"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" ADD CONSTRAINT "FK_promo_redemptions_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" ADD CONSTRAINT "FK_promo_redemptions_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Backfill redemptions from past orders so existing per-customer usage is kept.
+        // The discount was not stored, so derive it from the order total.
+        await queryRunner.query(`
+            INSERT INTO "promo_redemptions" ("promoId", "userId", "orderId", "discountAmount", "createdAt")
+            SELECT
+                p."id",
+                o."orderedById",
+                o."id",
+                GREATEST(COALESCE(items."subtotal", 0) + o."shippingFee" - o."totalPrice", 0),
+                o."createdAt"
+            FROM "orders" o
+            INNER JOIN "promo" p ON p."promoCode" = o."appliedPromoCode"
+            LEFT JOIN (
+                SELECT "orderId", SUM("price" * "quantity") AS "subtotal"
+                FROM "order_items"
+                GROUP BY "orderId"
+            ) items ON items."orderId" = o."id"
+            WHERE o."appliedPromoCode" IS NOT NULL
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" DROP CONSTRAINT "FK_promo_redemptions_orderId"`);
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" DROP CONSTRAINT "FK_promo_redemptions_userId"`);
+        await queryRunner.query(`ALTER TABLE "promo_redemptions" DROP CONSTRAINT "FK_promo_redemptions_promoId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_promo_redemptions_promoId_userId"`);
+        await queryRunner.query(`DROP TABLE "promo_redemptions"`);
+
+        for (const [table, column] of [
+            ['promo_products', 'productId'],
+            ['promo_vendors', 'vendorId'],
+            ['promo_categories', 'categoryId'],
+        ]) {
+            await queryRunner.query(`ALTER TABLE "${table}" DROP CONSTRAINT "FK_${table}_${column}"`);
+            await queryRunner.query(`ALTER TABLE "${table}" DROP CONSTRAINT "FK_${table}_promoId"`);
+            await queryRunner.query(`DROP INDEX "public"."IDX_${table}_${column}"`);
+            await queryRunner.query(`DROP INDEX "public"."IDX_${table}_promoId"`);
+            await queryRunner.query(`DROP TABLE "${table}"`);
+        }
+
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "updatedAt"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "createdAt"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "firstOrderOnly"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "maxDiscount"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "minOrderValue"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "perUserLimit"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "usageLimit"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "endsAt"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "startsAt"`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "discountAmount"`);
+        await queryRunner.query(`ALTER TABLE "promo" ALTER COLUMN "discountPercentage" DROP DEFAULT`);
+        await queryRunner.query(`ALTER TABLE "promo" DROP COLUMN "discountType"`);
+        await queryRunner.query(`DROP TYPE "promo_discounttype_enum"`);
+    }
+}
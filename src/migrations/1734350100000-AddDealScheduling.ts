@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddDealScheduling1734350100000 implements MigrationInterface {
+    name = 'AddDealScheduling1734350100000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Statuses set automatically from the time window
+        await queryRunner.query(`ALTER TYPE "deals_status_enum" ADD VALUE IF NOT EXISTS 'SCHEDULED'`);
+        await queryRunner.query(`ALTER TYPE "deals_status_enum" ADD VALUE IF NOT EXISTS 'EXPIRED'`);
+
+        await queryRunner.query(`ALTER TABLE "deals" ADD "startsAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "deals" ADD "endsAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "deals" ADD "perCustomerLimit" integer`);
+
+        // Per-product caps on units sold at the deal price
+        await queryRunner.query(`
+            CREATE TABLE "deal_product_limits" (
+                "id" SERIAL NOT NULL,
+                "dealId" integer NOT NULL,
+                "productId" integer NOT NULL,
+                "stockLimit" integer NOT NULL,
+                CONSTRAINT "UQ_deal_product_limits_dealId_productId" UNIQUE ("dealId", "productId"),
+                CONSTRAINT "PK_deal_product_limits_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`ALTER TABLE "deal_product_limits" ADD CONSTRAINT "FK_deal_product_limits_dealId" FOREIGN KEY ("dealId") REFERENCES "deals"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "deal_product_limits" ADD CONSTRAINT "FK_deal_product_limits_productId" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Deal each order item was priced under, for the limits above
+        await queryRunner.query(`ALTER TABLE "order_items" ADD "dealId" integer`);
+        await queryRunner.query(`CREATE INDEX "IDX_order_items_dealId" ON "order_items" ("dealId") `);
+        await queryRunner.query(`ALTER TABLE "order_items" ADD CONSTRAINT "FK_order_items_dealId" FOREIGN KEY ("dealId") REFERENCES "deals"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "order_items" DROP CONSTRAINT "FK_order_items_dealId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_order_items_dealId"`);
+        await queryRunner.query(`ALTER TABLE "order_items" DROP COLUMN "dealId"`);
+
+        await queryRunner.query(`ALTER TABLE "deal_product_limits" DROP CONSTRAINT "FK_deal_product_limits_productId"`);
+        await queryRunner.query(`ALTER TABLE "deal_product_limits" DROP CONSTRAINT "FK_deal_product_limits_dealId"`);
+        await queryRunner.query(`DROP TABLE "deal_product_limits"`);
+
+        await queryRunner.query(`ALTER TABLE "deals" DROP COLUMN "perCustomerLimit"`);
+        await queryRunner.query(`ALTER TABLE "deals" DROP COLUMN "endsAt"`);
+        await queryRunner.query(`ALTER TABLE "deals" DROP COLUMN "startsAt"`);
+
+        // Postgres cannot drop enum values; rebuild the type without them
+        await queryRunner.query(`UPDATE "deals" SET "status" = 'ENABLED' WHERE "status" = 'SCHEDULED'`);
+        await queryRunner.query(`UPDATE "deals" SET "status" = 'DISABLED' WHERE "status" = 'EXPIRED'`);
+        await queryRunner.query(`ALTER TYPE "deals_status_enum" RENAME TO "deals_status_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "deals_status_enum" AS ENUM('ENABLED', 'DISABLED')`);
+        await queryRunner.query(`ALTER TABLE "deals" ALTER COLUMN "status" DROP DEFAULT`);
+        await queryRunner.query(`ALTER TABLE "deals" ALTER COLUMN "status" TYPE "deals_status_enum" USING "status"::text::"deals_status_enum"`);
+        await queryRunner.query(`ALTER TABLE "deals" ALTER COLUMN "status" SET DEFAULT 'DISABLED'`);
+        await queryRunner.query(`DROP TYPE "deals_status_enum_old"`);
+    }
+}
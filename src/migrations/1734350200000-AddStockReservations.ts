@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStockReservations1734350200000 implements MigrationInterface {
+    name = 'AddStockReservations1734350200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "stock_reservations_status_enum" AS ENUM('ACTIVE', 'COMMITTED', 'RELEASED', 'EXPIRED')`);
+        await queryRunner.query(`
+            CREATE TABLE "stock_reservations" (
+                "id" SERIAL NOT NULL,
+                "orderId" integer NOT NULL,
+                "productId" integer NOT NULL,
+                "variantId" integer,
+                "quantity" integer NOT NULL,
+                "status" "stock_reservations_status_enum" NOT NULL DEFAULT 'ACTIVE',
+                "expiresAt" TIMESTAMP NOT NULL,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_stock_reservations_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_stock_reservations_orderId" ON "stock_reservations" ("orderId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_stock_reservations_productId_status" ON "stock_reservations" ("productId", "status") `);
+        await queryRunner.query(`CREATE INDEX "IDX_stock_reservations_variantId_status" ON "stock_reservations" ("variantId", "status") `);
+        await queryRunner.query(`ALTER TABLE "stock_reservations" ADD CONSTRAINT "FK_stock_reservations_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_reservations" ADD CONSTRAINT "FK_stock_reservations_productId" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_reservations" ADD CONSTRAINT "FK_stock_reservations_variantId" FOREIGN KEY ("variantId") REFERENCES "variants"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "stock_reservations" DROP CONSTRAINT "FK_stock_reservations_variantId"`);
+        await queryRunner.query(`ALTER TABLE "stock_reservations" DROP CONSTRAINT "FK_stock_reservations_productId"`);
+        await queryRunner.query(`ALTER TABLE "stock_reservations" DROP CONSTRAINT "FK_stock_reservations_orderId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_stock_reservations_variantId_status"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_stock_reservations_productId_status"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_stock_reservations_orderId"`);
+        await queryRunner.query(`DROP TABLE "stock_reservations"`);
+        await queryRunner.query(`DROP TYPE "stock_reservations_status_enum"`);
+    }
+}
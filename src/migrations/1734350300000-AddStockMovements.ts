@@ -0,0 +1,58 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddStockMovements1734350300000 implements MigrationInterface {
+    name = 'AddStockMovements1734350300000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "stock_movements_reason_enum" AS ENUM('SALE', 'CANCELLATION', 'RETURN', 'ADJUSTMENT', 'IMPORT', 'OPENING_BALANCE')`);
+        await queryRunner.query(`
+            CREATE TABLE "stock_movements" (
+                "id" SERIAL NOT NULL,
+                "productId" integer NOT NULL,
+                "variantId" integer,
+                "delta" integer NOT NULL,
+                "balanceAfter" integer NOT NULL,
+                "reason" "stock_movements_reason_enum" NOT NULL,
+                "orderId" integer,
+                "actorUserId" integer,
+                "actorVendorId" integer,
+                "note" character varying(255),
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_stock_movements_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_stock_movements_productId_createdAt" ON "stock_movements" ("productId", "createdAt") `);
+        await queryRunner.query(`CREATE INDEX "IDX_stock_movements_variantId" ON "stock_movements" ("variantId") `);
+        await queryRunner.query(`ALTER TABLE "stock_movements" ADD CONSTRAINT "FK_stock_movements_productId" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" ADD CONSTRAINT "FK_stock_movements_variantId" FOREIGN KEY ("variantId") REFERENCES "variants"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" ADD CONSTRAINT "FK_stock_movements_orderId" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" ADD CONSTRAINT "FK_stock_movements_actorUserId" FOREIGN KEY ("actorUserId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" ADD CONSTRAINT "FK_stock_movements_actorVendorId" FOREIGN KEY ("actorVendorId") REFERENCES "vendor"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        // Opening balances so the ledger sum starts out equal to the current stock
+        await queryRunner.query(`
+            INSERT INTO "stock_movements" ("productId", "delta", "balanceAfter", "reason", "note")
+            SELECT p."id", p."stock", p."stock", 'OPENING_BALANCE', 'Stock on hand when the ledger was introduced'
+            FROM "products" p
+            WHERE p."hasVariants" = false AND COALESCE(p."stock", 0) <> 0
+        `);
+        await queryRunner.query(`
+            INSERT INTO "stock_movements" ("productId", "variantId", "delta", "balanceAfter", "reason", "note")
+            SELECT v."product_id", v."id", v."stock", v."stock", 'OPENING_BALANCE', 'Stock on hand when the ledger was introduced'
+            FROM "variants" v
+            WHERE v."product_id" IS NOT NULL AND COALESCE(v."stock", 0) <> 0
+        `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "stock_movements" DROP CONSTRAINT "FK_stock_movements_actorVendorId"`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" DROP CONSTRAINT "FK_stock_movements_actorUserId"`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" DROP CONSTRAINT "FK_stock_movements_orderId"`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" DROP CONSTRAINT "FK_stock_movements_variantId"`);
+        await queryRunner.query(`ALTER TABLE "stock_movements" DROP CONSTRAINT "FK_stock_movements_productId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_stock_movements_variantId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_stock_movements_productId_createdAt"`);
+        await queryRunner.query(`DROP TABLE "stock_movements"`);
+        await queryRunner.query(`DROP TYPE "stock_movements_reason_enum"`);
+    }
+}
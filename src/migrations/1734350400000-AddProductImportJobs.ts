@@ -0,0 +1,39 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddProductImportJobs1734350400000 implements MigrationInterface {
+    name = 'AddProductImportJobs1734350400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "product_import_jobs_status_enum" AS ENUM('PENDING', 'PROCESSING', 'COMPLETED', 'FAILED')`);
+        await queryRunner.query(`
+            CREATE TABLE "product_import_jobs" (
+                "id" SERIAL NOT NULL,
+                "vendorId" integer NOT NULL,
+                "fileName" character varying(255) NOT NULL,
+                "dryRun" boolean NOT NULL DEFAULT false,
+                "upsert" boolean NOT NULL DEFAULT false,
+                "status" "product_import_jobs_status_enum" NOT NULL DEFAULT 'PENDING',
+                "totalRows" integer NOT NULL,
+                "groups" jsonb NOT NULL,
+                "report" jsonb,
+                "failureReason" text,
+                "startedAt" TIMESTAMP,
+                "completedAt" TIMESTAMP,
+                "createdAt" TIMESTAMP NOT NULL DEFAULT now(),
+                "updatedAt" TIMESTAMP NOT NULL DEFAULT now(),
+                CONSTRAINT "PK_product_import_jobs_id" PRIMARY KEY ("id")
+            )
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_product_import_jobs_vendorId" ON "product_import_jobs" ("vendorId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_product_import_jobs_status_createdAt" ON "product_import_jobs" ("status", "createdAt") `);
+        await queryRunner.query(`ALTER TABLE "product_import_jobs" ADD CONSTRAINT "FK_product_import_jobs_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "product_import_jobs" DROP CONSTRAINT "FK_product_import_jobs_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_import_jobs_status_createdAt"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_import_jobs_vendorId"`);
+        await queryRunner.query(`DROP TABLE "product_import_jobs"`);
+        await queryRunner.query(`DROP TYPE "product_import_jobs_status_enum"`);
+    }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddBrandManagement1734350500000 implements MigrationInterface {
+    name = 'AddBrandManagement1734350500000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "brands_status_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED')`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "slug" character varying(120)`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "description" text`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "logo" character varying`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "logoPublicId" character varying`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "isVerified" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "status" "brands_status_enum" NOT NULL DEFAULT 'APPROVED'`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "requestedByVendorId" integer`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "reviewNote" character varying(500)`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD "reviewedAt" TIMESTAMP`);
+
+        // Slugs for existing brands; names that slug to the same value get their ID appended
+        await queryRunner.query(`
+            UPDATE "brands" SET "slug" = COALESCE(NULLIF(TRIM(BOTH '-' FROM LEFT(REGEXP_REPLACE(LOWER("name"), '[^a-z0-9]+', '-', 'g'), 100)), ''), 'brand')
+        `);
+        await queryRunner.query(`
+            UPDATE "brands" b SET "slug" = b."slug" || '-' || b."id"
+            FROM "brands" other
+            WHERE other."slug" = b."slug" AND other."id" < b."id"
+        `);
+        await queryRunner.query(`ALTER TABLE "brands" ALTER COLUMN "slug" SET NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "brands" ADD CONSTRAINT "UQ_brands_slug" UNIQUE ("slug")`);
+
+        await queryRunner.query(`CREATE INDEX "IDX_brands_status" ON "brands" ("status") `);
+        await queryRunner.query(`ALTER TABLE "brands" ADD CONSTRAINT "FK_brands_requestedByVendorId" FOREIGN KEY ("requestedByVendorId") REFERENCES "vendor"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "brands" DROP CONSTRAINT "FK_brands_requestedByVendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_brands_status"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP CONSTRAINT "UQ_brands_slug"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "reviewedAt"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "reviewNote"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "requestedByVendorId"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "status"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "isVerified"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "logoPublicId"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "logo"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "description"`);
+        await queryRunner.query(`ALTER TABLE "brands" DROP COLUMN "slug"`);
+        await queryRunner.query(`DROP TYPE "brands_status_enum"`);
+    }
+}
@@ -0,0 +1,127 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddProductSearch1734350600000 implements MigrationInterface {
+    name = 'AddProductSearch1734350600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Trigram similarity for misspelled search terms
+        await queryRunner.query(`CREATE EXTENSION IF NOT EXISTS pg_trgm`);
+
+        await queryRunner.query(`ALTER TABLE "products" ADD "searchVector" tsvector`);
+
+        // Weights: name A, brand B, categories and variant attributes C, description D
+        await queryRunner.query(`
+            CREATE FUNCTION product_search_vector(p_id integer, p_name text, p_description text, p_brand_id integer, p_subcategory_id integer)
+            RETURNS tsvector AS $$
+                SELECT
+                    setweight(to_tsvector('english', COALESCE(p_name, '')), 'A') ||
+                    setweight(to_tsvector('english', COALESCE((SELECT b."name" FROM "brands" b WHERE b."id" = p_brand_id), '')), 'B') ||
+                    setweight(to_tsvector('english', COALESCE((
+                        SELECT s."name" || ' ' || COALESCE(c."name", '')
+                        FROM "subcategory" s LEFT JOIN "category" c ON c."id" = s."categoryId"
+                        WHERE s."id" = p_subcategory_id
+                    ), '')), 'C') ||
+                    setweight(to_tsvector('english', COALESCE((
+                        SELECT string_agg(a."key" || ' ' || a."value", ' ')
+                        FROM "variants" v, jsonb_each_text(v."attributes") a
+                        WHERE v."product_id" = p_id
+                    ), '')), 'C') ||
+                    setweight(to_tsvector('english', COALESCE(p_description, '')), 'D')
+            $$ LANGUAGE sql STABLE
+        `);
+        await queryRunner.query(`
+            CREATE FUNCTION refresh_product_search_vectors(product_ids integer[]) RETURNS void AS $$
+                UPDATE "products"
+                SET "searchVector" = product_search_vector("id", "name", "description", "brandId", "subcategoryId")
+                WHERE "id" = ANY(product_ids)
+            $$ LANGUAGE sql
+        `);
+
+        // Products: recompute on insert and when a searched column changes
+        await queryRunner.query(`
+            CREATE FUNCTION products_search_vector_trigger() RETURNS trigger AS $$
+            BEGIN
+                NEW."searchVector" := product_search_vector(NEW."id", NEW."name", NEW."description", NEW."brandId", NEW."subcategoryId");
+                RETURN NEW;
+            END
+            $$ LANGUAGE plpgsql
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER "TRG_products_search_vector"
+            BEFORE INSERT OR UPDATE OF "name", "description", "brandId", "subcategoryId" ON "products"
+            FOR EACH ROW EXECUTE FUNCTION products_search_vector_trigger()
+        `);
+
+        // Variants: refresh the owning product when attributes change
+        await queryRunner.query(`
+            CREATE FUNCTION variants_search_vector_trigger() RETURNS trigger AS $$
+            BEGIN
+                IF TG_OP = 'DELETE' THEN
+                    PERFORM refresh_product_search_vectors(ARRAY[OLD."product_id"]);
+                ELSIF TG_OP = 'UPDATE' THEN
+                    PERFORM refresh_product_search_vectors(ARRAY[OLD."product_id", NEW."product_id"]);
+                ELSE
+                    PERFORM refresh_product_search_vectors(ARRAY[NEW."product_id"]);
+                END IF;
+                RETURN NULL;
+            END
+            $$ LANGUAGE plpgsql
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER "TRG_variants_search_vector"
+            AFTER INSERT OR DELETE OR UPDATE OF "attributes", "product_id" ON "variants"
+            FOR EACH ROW EXECUTE FUNCTION variants_search_vector_trigger()
+        `);
+
+        // Brands, subcategories and categories: refresh their products on rename
+        await queryRunner.query(`
+            CREATE FUNCTION catalog_names_search_vector_trigger() RETURNS trigger AS $$
+            BEGIN
+                IF NEW."name" IS DISTINCT FROM OLD."name" THEN
+                    IF TG_TABLE_NAME = 'brands' THEN
+                        PERFORM refresh_product_search_vectors(ARRAY(SELECT "id" FROM "products" WHERE "brandId" = NEW."id"));
+                    ELSIF TG_TABLE_NAME = 'subcategory' THEN
+                        PERFORM refresh_product_search_vectors(ARRAY(SELECT "id" FROM "products" WHERE "subcategoryId" = NEW."id"));
+                    ELSE
+                        PERFORM refresh_product_search_vectors(ARRAY(
+                            SELECT p."id" FROM "products" p
+                            INNER JOIN "subcategory" s ON s."id" = p."subcategoryId"
+                            WHERE s."categoryId" = NEW."id"
+                        ));
+                    END IF;
+                END IF;
+                RETURN NULL;
+            END
+            $$ LANGUAGE plpgsql
+        `);
+        for (const table of ['brands', 'subcategory', 'category']) {
+            await queryRunner.query(`
+                CREATE TRIGGER "TRG_${table}_search_vector"
+                AFTER UPDATE OF "name" ON "${table}"
+                FOR EACH ROW EXECUTE FUNCTION catalog_names_search_vector_trigger()
+            `);
+        }
+
+        await queryRunner.query(`
+            UPDATE "products"
+            SET "searchVector" = product_search_vector("id", "name", "description", "brandId", "subcategoryId")
+        `);
+        await queryRunner.query(`CREATE INDEX "IDX_products_searchVector" ON "products" USING GIN ("searchVector")`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_products_searchVector"`);
+        for (const table of ['category', 'subcategory', 'brands']) {
+            await queryRunner.query(`DROP TRIGGER "TRG_${table}_search_vector" ON "${table}"`);
+        }
+        await queryRunner.query(`DROP FUNCTION catalog_names_search_vector_trigger()`);
+        await queryRunner.query(`DROP TRIGGER "TRG_variants_search_vector" ON "variants"`);
+        await queryRunner.query(`DROP FUNCTION variants_search_vector_trigger()`);
+        await queryRunner.query(`DROP TRIGGER "TRG_products_search_vector" ON "products"`);
+        await queryRunner.query(`DROP FUNCTION products_search_vector_trigger()`);
+        await queryRunner.query(`DROP FUNCTION refresh_product_search_vectors(integer[])`);
+        await queryRunner.query(`DROP FUNCTION product_search_vector(integer, text, text, integer, integer)`);
+        await queryRunner.query(`ALTER TABLE "products" DROP COLUMN "searchVector"`);
+        // pg_trgm is left installed; other queries may rely on it
+    }
+}
@@ -0,0 +1,25 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSearchSuggestionIndexes1734350700000 implements MigrationInterface {
+    name = 'AddSearchSuggestionIndexes1734350700000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Trigram indexes serve the autocomplete "contains" matches (pg_trgm is installed by AddProductSearch)
+        await queryRunner.query(`CREATE INDEX "IDX_products_name_trgm" ON "products" USING GIN ("name" gin_trgm_ops)`);
+        await queryRunner.query(`CREATE INDEX "IDX_category_name_trgm" ON "category" USING GIN ("name" gin_trgm_ops)`);
+        await queryRunner.query(`CREATE INDEX "IDX_subcategory_name_trgm" ON "subcategory" USING GIN ("name" gin_trgm_ops)`);
+        await queryRunner.query(`CREATE INDEX "IDX_brands_name_trgm" ON "brands" USING GIN ("name" gin_trgm_ops)`);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_businessName_trgm" ON "vendor" USING GIN ("businessName" gin_trgm_ops)`);
+        // Units sold per product, for popularity
+        await queryRunner.query(`CREATE INDEX "IDX_order_items_productId" ON "order_items" ("productId") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_order_items_productId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_businessName_trgm"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_brands_name_trgm"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_subcategory_name_trgm"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_category_name_trgm"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_products_name_trgm"`);
+    }
+}
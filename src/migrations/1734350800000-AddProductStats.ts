@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddProductStats1734350800000 implements MigrationInterface {
+    name = 'AddProductStats1734350800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Filled and refreshed by the product stats cron job
+        await queryRunner.query(`CREATE TABLE "product_stats" ("productId" integer NOT NULL, "unitsSold" integer NOT NULL DEFAULT '0', "trendingScore" numeric(12,4) NOT NULL DEFAULT '0', "reviewCount" integer NOT NULL DEFAULT '0', "averageRating" numeric(3,2), "bayesianRating" numeric(3,2), "maxDiscountPercent" numeric(5,2) NOT NULL DEFAULT '0', "refreshedAt" TIMESTAMP NOT NULL, CONSTRAINT "PK_product_stats_productId" PRIMARY KEY ("productId"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_product_stats_unitsSold" ON "product_stats" ("unitsSold") `);
+        await queryRunner.query(`CREATE INDEX "IDX_product_stats_trendingScore" ON "product_stats" ("trendingScore") `);
+        await queryRunner.query(`CREATE INDEX "IDX_product_stats_bayesianRating" ON "product_stats" ("bayesianRating") `);
+        await queryRunner.query(`ALTER TABLE "product_stats" ADD CONSTRAINT "FK_product_stats_productId" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "product_stats" DROP CONSTRAINT "FK_product_stats_productId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_stats_bayesianRating"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_stats_trendingScore"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_stats_unitsSold"`);
+        await queryRunner.query(`DROP TABLE "product_stats"`);
+    }
+}
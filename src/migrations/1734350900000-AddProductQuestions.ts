@@ -0,0 +1,61 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddProductQuestions1734350900000 implements MigrationInterface {
+    name = 'AddProductQuestions1734350900000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."product_questions_status_enum" AS ENUM('PUBLISHED', 'HIDDEN')`);
+
+        await queryRunner.query(`CREATE TABLE "product_questions" ("id" SERIAL NOT NULL, "productId" integer NOT NULL, "userId" integer, "question" character varying(500) NOT NULL, "status" "public"."product_questions_status_enum" NOT NULL DEFAULT 'PUBLISHED', "moderationNote" character varying(500), "upvoteCount" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_product_questions_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_product_questions_productId_status" ON "product_questions" ("productId", "status") `);
+        await queryRunner.query(`ALTER TABLE "product_questions" ADD CONSTRAINT "FK_product_questions_productId" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "product_questions" ADD CONSTRAINT "FK_product_questions_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        await queryRunner.query(`CREATE TABLE "product_answers" ("id" SERIAL NOT NULL, "questionId" integer NOT NULL, "userId" integer, "vendorId" integer, "answer" text NOT NULL, "status" "public"."product_questions_status_enum" NOT NULL DEFAULT 'PUBLISHED', "moderationNote" character varying(500), "upvoteCount" integer NOT NULL DEFAULT '0', "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_product_answers_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_product_answers_questionId_status" ON "product_answers" ("questionId", "status") `);
+        await queryRunner.query(`ALTER TABLE "product_answers" ADD CONSTRAINT "FK_product_answers_questionId" FOREIGN KEY ("questionId") REFERENCES "product_questions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "product_answers" ADD CONSTRAINT "FK_product_answers_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "product_answers" ADD CONSTRAINT "FK_product_answers_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        // One upvote per customer per question and per answer
+        await queryRunner.query(`CREATE TABLE "product_question_votes" ("id" SERIAL NOT NULL, "userId" integer NOT NULL, "questionId" integer, "answerId" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_product_question_votes_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_product_question_votes_userId_questionId" ON "product_question_votes" ("userId", "questionId") WHERE "questionId" IS NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_product_question_votes_userId_answerId" ON "product_question_votes" ("userId", "answerId") WHERE "answerId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "product_question_votes" ADD CONSTRAINT "FK_product_question_votes_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "product_question_votes" ADD CONSTRAINT "FK_product_question_votes_questionId" FOREIGN KEY ("questionId") REFERENCES "product_questions"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "product_question_votes" ADD CONSTRAINT "FK_product_question_votes_answerId" FOREIGN KEY ("answerId") REFERENCES "product_answers"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // Vendors are notified of new questions
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" ADD VALUE IF NOT EXISTS 'PRODUCT_QUESTION'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Enum values cannot be dropped; recreate the type without PRODUCT_QUESTION
+        await queryRunner.query(`DELETE FROM "notifications" WHERE "type" = 'PRODUCT_QUESTION'`);
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" RENAME TO "notifications_type_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "public"."notifications_type_enum" AS ENUM('ORDER_PLACED', 'ORDER_STATUS_UPDATED', 'GENERAL')`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" DROP DEFAULT`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" TYPE "public"."notifications_type_enum" USING "type"::"text"::"public"."notifications_type_enum"`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" SET DEFAULT 'GENERAL'`);
+        await queryRunner.query(`DROP TYPE "public"."notifications_type_enum_old"`);
+
+        await queryRunner.query(`ALTER TABLE "product_question_votes" DROP CONSTRAINT "FK_product_question_votes_answerId"`);
+        await queryRunner.query(`ALTER TABLE "product_question_votes" DROP CONSTRAINT "FK_product_question_votes_questionId"`);
+        await queryRunner.query(`ALTER TABLE "product_question_votes" DROP CONSTRAINT "FK_product_question_votes_userId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_product_question_votes_userId_answerId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_product_question_votes_userId_questionId"`);
+        await queryRunner.query(`DROP TABLE "product_question_votes"`);
+
+        await queryRunner.query(`ALTER TABLE "product_answers" DROP CONSTRAINT "FK_product_answers_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "product_answers" DROP CONSTRAINT "FK_product_answers_userId"`);
+        await queryRunner.query(`ALTER TABLE "product_answers" DROP CONSTRAINT "FK_product_answers_questionId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_answers_questionId_status"`);
+        await queryRunner.query(`DROP TABLE "product_answers"`);
+
+        await queryRunner.query(`ALTER TABLE "product_questions" DROP CONSTRAINT "FK_product_questions_userId"`);
+        await queryRunner.query(`ALTER TABLE "product_questions" DROP CONSTRAINT "FK_product_questions_productId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_product_questions_productId_status"`);
+        await queryRunner.query(`DROP TABLE "product_questions"`);
+        await queryRunner.query(`DROP TYPE "public"."product_questions_status_enum"`);
+    }
+}
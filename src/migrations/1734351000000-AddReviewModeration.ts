@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddReviewModeration1734351000000 implements MigrationInterface {
+    name = 'AddReviewModeration1734351000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."reviews_status_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED')`);
+        // Existing reviews were already public, so they are backfilled as approved before switching the default
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "status" "public"."reviews_status_enum" NOT NULL DEFAULT 'APPROVED'`);
+        await queryRunner.query(`ALTER TABLE "reviews" ALTER COLUMN "status" SET DEFAULT 'PENDING'`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "moderationFlags" text array`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "moderationNote" character varying(500)`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "moderatedAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "isVerifiedPurchase" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "photos" text array`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "photoPublicIds" text array`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "helpfulCount" integer NOT NULL DEFAULT '0'`);
+        await queryRunner.query(`CREATE INDEX "IDX_reviews_productId_status" ON "reviews" ("productId", "status") `);
+
+        await queryRunner.query(`
+            UPDATE "reviews" r SET "isVerifiedPurchase" = true
+            WHERE EXISTS (
+                SELECT 1 FROM "order_items" oi
+                INNER JOIN "orders" o ON o."id" = oi."orderId"
+                WHERE o."orderedById" = r."userId" AND oi."productId" = r."productId" AND o."status" = 'DELIVERED'
+            )
+        `);
+
+        // One helpful vote per customer per review
+        await queryRunner.query(`CREATE TABLE "review_helpful_votes" ("id" SERIAL NOT NULL, "reviewId" integer NOT NULL, "userId" integer NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_review_helpful_votes_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_review_helpful_votes_reviewId_userId" ON "review_helpful_votes" ("reviewId", "userId") `);
+        await queryRunner.query(`ALTER TABLE "review_helpful_votes" ADD CONSTRAINT "FK_review_helpful_votes_reviewId" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "review_helpful_votes" ADD CONSTRAINT "FK_review_helpful_votes_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "review_helpful_votes" DROP CONSTRAINT "FK_review_helpful_votes_userId"`);
+        await queryRunner.query(`ALTER TABLE "review_helpful_votes" DROP CONSTRAINT "FK_review_helpful_votes_reviewId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_review_helpful_votes_reviewId_userId"`);
+        await queryRunner.query(`DROP TABLE "review_helpful_votes"`);
+
+        await queryRunner.query(`DROP INDEX "public"."IDX_reviews_productId_status"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "helpfulCount"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "photoPublicIds"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "photos"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "isVerifiedPurchase"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "moderatedAt"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "moderationNote"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "moderationFlags"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "status"`);
+        await queryRunner.query(`DROP TYPE "public"."reviews_status_enum"`);
+    }
+}
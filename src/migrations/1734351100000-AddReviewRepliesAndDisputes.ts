@@ -0,0 +1,47 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddReviewRepliesAndDisputes1734351100000 implements MigrationInterface {
+    name = 'AddReviewRepliesAndDisputes1734351100000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "vendorReply" text`);
+        await queryRunner.query(`ALTER TABLE "reviews" ADD "vendorRepliedAt" TIMESTAMP`);
+
+        await queryRunner.query(`CREATE TYPE "public"."review_disputes_reason_enum" AS ENUM('FAKE', 'OFFENSIVE', 'OFF_TOPIC', 'WRONG_PRODUCT', 'OTHER')`);
+        await queryRunner.query(`CREATE TYPE "public"."review_disputes_status_enum" AS ENUM('OPEN', 'UPHELD', 'DISMISSED')`);
+        await queryRunner.query(`CREATE TABLE "review_disputes" ("id" SERIAL NOT NULL, "reviewId" integer NOT NULL, "vendorId" integer NOT NULL, "reason" "public"."review_disputes_reason_enum" NOT NULL, "details" text, "status" "public"."review_disputes_status_enum" NOT NULL DEFAULT 'OPEN', "resolutionNote" character varying(500), "resolvedById" integer, "resolvedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_review_disputes_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_review_disputes_status_createdAt" ON "review_disputes" ("status", "createdAt") `);
+        // A review has at most one dispute awaiting a decision
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_review_disputes_reviewId_open" ON "review_disputes" ("reviewId") WHERE "status" = 'OPEN'`);
+        await queryRunner.query(`ALTER TABLE "review_disputes" ADD CONSTRAINT "FK_review_disputes_reviewId" FOREIGN KEY ("reviewId") REFERENCES "reviews"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "review_disputes" ADD CONSTRAINT "FK_review_disputes_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "review_disputes" ADD CONSTRAINT "FK_review_disputes_resolvedById" FOREIGN KEY ("resolvedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        // Vendors are notified of new reviews and dispute outcomes
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" ADD VALUE IF NOT EXISTS 'PRODUCT_REVIEW'`);
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" ADD VALUE IF NOT EXISTS 'REVIEW_DISPUTE'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // Enum values cannot be dropped; recreate the type without the review notification types
+        await queryRunner.query(`DELETE FROM "notifications" WHERE "type" IN ('PRODUCT_REVIEW', 'REVIEW_DISPUTE')`);
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" RENAME TO "notifications_type_enum_old"`);
+        await queryRunner.query(`CREATE TYPE "public"."notifications_type_enum" AS ENUM('ORDER_PLACED', 'ORDER_STATUS_UPDATED', 'PRODUCT_QUESTION', 'GENERAL')`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" DROP DEFAULT`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" TYPE "public"."notifications_type_enum" USING "type"::"text"::"public"."notifications_type_enum"`);
+        await queryRunner.query(`ALTER TABLE "notifications" ALTER COLUMN "type" SET DEFAULT 'GENERAL'`);
+        await queryRunner.query(`DROP TYPE "public"."notifications_type_enum_old"`);
+
+        await queryRunner.query(`ALTER TABLE "review_disputes" DROP CONSTRAINT "FK_review_disputes_resolvedById"`);
+        await queryRunner.query(`ALTER TABLE "review_disputes" DROP CONSTRAINT "FK_review_disputes_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "review_disputes" DROP CONSTRAINT "FK_review_disputes_reviewId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_review_disputes_reviewId_open"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_review_disputes_status_createdAt"`);
+        await queryRunner.query(`DROP TABLE "review_disputes"`);
+        await queryRunner.query(`DROP TYPE "public"."review_disputes_status_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."review_disputes_reason_enum"`);
+
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "vendorRepliedAt"`);
+        await queryRunner.query(`ALTER TABLE "reviews" DROP COLUMN "vendorReply"`);
+    }
+}
@@ -0,0 +1,66 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddVendorSettlement1734351200000 implements MigrationInterface {
+    name = 'AddVendorSettlement1734351200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "commission_rates" ("id" SERIAL NOT NULL, "vendorId" integer, "categoryId" integer, "rate" numeric(5,2) NOT NULL, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_commission_rates_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_commission_rates_vendorId_categoryId" ON "commission_rates" ("vendorId", "categoryId") `);
+        await queryRunner.query(`ALTER TABLE "commission_rates" ADD CONSTRAINT "FK_commission_rates_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "commission_rates" ADD CONSTRAINT "FK_commission_rates_categoryId" FOREIGN KEY ("categoryId") REFERENCES "category"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        await queryRunner.query(`CREATE TYPE "public"."payouts_status_enum" AS ENUM('PENDING', 'APPROVED', 'PAID')`);
+        await queryRunner.query(`CREATE TABLE "payout_batches" ("id" SERIAL NOT NULL, "periodEnd" TIMESTAMP NOT NULL, "status" "public"."payouts_status_enum" NOT NULL DEFAULT 'PENDING', "totalAmount" numeric(14,2) NOT NULL DEFAULT '0', "payoutCount" integer NOT NULL DEFAULT '0', "approvedById" integer, "approvedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_payout_batches_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_payout_batches_status_createdAt" ON "payout_batches" ("status", "createdAt") `);
+        await queryRunner.query(`ALTER TABLE "payout_batches" ADD CONSTRAINT "FK_payout_batches_approvedById" FOREIGN KEY ("approvedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        await queryRunner.query(`CREATE TABLE "payouts" ("id" SERIAL NOT NULL, "batchId" integer NOT NULL, "vendorId" integer NOT NULL, "amount" numeric(12,2) NOT NULL, "status" "public"."payouts_status_enum" NOT NULL DEFAULT 'PENDING', "accountName" character varying NOT NULL, "bankName" character varying NOT NULL, "accountNumber" character varying NOT NULL, "bankBranch" character varying, "bankCode" character varying, "reference" character varying(100), "note" character varying(500), "paidById" integer, "paidAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_payouts_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_payouts_batchId_vendorId" ON "payouts" ("batchId", "vendorId") `);
+        await queryRunner.query(`CREATE INDEX "IDX_payouts_vendorId_status" ON "payouts" ("vendorId", "status") `);
+        await queryRunner.query(`ALTER TABLE "payouts" ADD CONSTRAINT "FK_payouts_batchId" FOREIGN KEY ("batchId") REFERENCES "payout_batches"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "payouts" ADD CONSTRAINT "FK_payouts_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "payouts" ADD CONSTRAINT "FK_payouts_paidById" FOREIGN KEY ("paidById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        await queryRunner.query(`CREATE TYPE "public"."vendor_ledger_entries_type_enum" AS ENUM('SALE', 'COMMISSION', 'REFUND', 'COMMISSION_REFUND')`);
+        await queryRunner.query(`CREATE TABLE "vendor_ledger_entries" ("id" SERIAL NOT NULL, "vendorId" integer NOT NULL, "type" "public"."vendor_ledger_entries_type_enum" NOT NULL, "amount" numeric(12,2) NOT NULL, "commissionRate" numeric(5,2), "description" character varying(255) NOT NULL, "orderItemId" integer, "orderId" integer, "returnRequestId" integer, "availableAt" TIMESTAMP NOT NULL, "payoutId" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_vendor_ledger_entries_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_ledger_entries_vendorId_payoutId_availableAt" ON "vendor_ledger_entries" ("vendorId", "payoutId", "availableAt") `);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_ledger_entries_vendorId_createdAt" ON "vendor_ledger_entries" ("vendorId", "createdAt") `);
+        // Each order item is credited once and each return debited once, however often the ledger sync runs
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_vendor_ledger_entries_orderItemId_type" ON "vendor_ledger_entries" ("orderItemId", "type") WHERE "orderItemId" IS NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_vendor_ledger_entries_returnRequestId_type" ON "vendor_ledger_entries" ("returnRequestId", "type") WHERE "returnRequestId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD CONSTRAINT "FK_vendor_ledger_entries_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD CONSTRAINT "FK_vendor_ledger_entries_orderItemId" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD CONSTRAINT "FK_vendor_ledger_entries_returnRequestId" FOREIGN KEY ("returnRequestId") REFERENCES "return_requests"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD CONSTRAINT "FK_vendor_ledger_entries_payoutId" FOREIGN KEY ("payoutId") REFERENCES "payouts"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP CONSTRAINT "FK_vendor_ledger_entries_payoutId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP CONSTRAINT "FK_vendor_ledger_entries_returnRequestId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP CONSTRAINT "FK_vendor_ledger_entries_orderItemId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP CONSTRAINT "FK_vendor_ledger_entries_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_vendor_ledger_entries_returnRequestId_type"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_vendor_ledger_entries_orderItemId_type"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_ledger_entries_vendorId_createdAt"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_ledger_entries_vendorId_payoutId_availableAt"`);
+        await queryRunner.query(`DROP TABLE "vendor_ledger_entries"`);
+        await queryRunner.query(`DROP TYPE "public"."vendor_ledger_entries_type_enum"`);
+
+        await queryRunner.query(`ALTER TABLE "payouts" DROP CONSTRAINT "FK_payouts_paidById"`);
+        await queryRunner.query(`ALTER TABLE "payouts" DROP CONSTRAINT "FK_payouts_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "payouts" DROP CONSTRAINT "FK_payouts_batchId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_payouts_vendorId_status"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_payouts_batchId_vendorId"`);
+        await queryRunner.query(`DROP TABLE "payouts"`);
+
+        await queryRunner.query(`ALTER TABLE "payout_batches" DROP CONSTRAINT "FK_payout_batches_approvedById"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_payout_batches_status_createdAt"`);
+        await queryRunner.query(`DROP TABLE "payout_batches"`);
+        await queryRunner.query(`DROP TYPE "public"."payouts_status_enum"`);
+
+        await queryRunner.query(`ALTER TABLE "commission_rates" DROP CONSTRAINT "FK_commission_rates_categoryId"`);
+        await queryRunner.query(`ALTER TABLE "commission_rates" DROP CONSTRAINT "FK_commission_rates_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_commission_rates_vendorId_categoryId"`);
+        await queryRunner.query(`DROP TABLE "commission_rates"`);
+    }
+}
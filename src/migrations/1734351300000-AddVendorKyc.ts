@@ -0,0 +1,68 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddVendorKyc1734351300000 implements MigrationInterface {
+    name = 'AddVendorKyc1734351300000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."vendor_status_enum" AS ENUM('PENDING', 'APPROVED', 'SUSPENDED')`);
+        await queryRunner.query(`ALTER TABLE "vendor" ADD "status" "public"."vendor_status_enum" NOT NULL DEFAULT 'PENDING'`);
+        await queryRunner.query(`ALTER TABLE "vendor" ADD "suspensionReason" character varying(500)`);
+        await queryRunner.query(`ALTER TABLE "vendor" ADD "suspendedAt" TIMESTAMP`);
+        await queryRunner.query(`ALTER TABLE "vendor" ADD "kycResubmitToken" character varying`);
+        await queryRunner.query(`ALTER TABLE "vendor" ADD "kycResubmitTokenExpire" TIMESTAMP`);
+        await queryRunner.query(`UPDATE "vendor" SET "status" = 'APPROVED' WHERE "isApproved" = true`);
+
+        await queryRunner.query(`CREATE TYPE "public"."vendor_kyc_documents_type_enum" AS ENUM('TAX', 'CITIZENSHIP', 'CHEQUE')`);
+        await queryRunner.query(`CREATE TYPE "public"."vendor_kyc_documents_status_enum" AS ENUM('PENDING', 'APPROVED', 'REJECTED')`);
+        await queryRunner.query(`CREATE TABLE "vendor_kyc_documents" ("id" SERIAL NOT NULL, "vendorId" integer NOT NULL, "type" "public"."vendor_kyc_documents_type_enum" NOT NULL, "status" "public"."vendor_kyc_documents_status_enum" NOT NULL DEFAULT 'PENDING', "reviewerNote" character varying(500), "rejectionReason" character varying(500), "reviewedById" integer, "reviewedAt" TIMESTAMP, "submittedAt" TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_vendor_kyc_documents_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_vendor_kyc_documents_vendorId_type" ON "vendor_kyc_documents" ("vendorId", "type") `);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_kyc_documents_status_submittedAt" ON "vendor_kyc_documents" ("status", "submittedAt") `);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_documents" ADD CONSTRAINT "FK_vendor_kyc_documents_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_documents" ADD CONSTRAINT "FK_vendor_kyc_documents_reviewedById" FOREIGN KEY ("reviewedById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+
+        // Documents of vendors approved before the KYC review count as approved; the others wait in the queue
+        await queryRunner.query(`
+            INSERT INTO "vendor_kyc_documents" ("vendorId", "type", "status", "reviewedAt", "submittedAt")
+            SELECT v."id", d."type"::"public"."vendor_kyc_documents_type_enum",
+                   (CASE WHEN v."isApproved" THEN 'APPROVED' ELSE 'PENDING' END)::"public"."vendor_kyc_documents_status_enum",
+                   CASE WHEN v."isApproved" THEN now() END,
+                   v."createdAt"
+            FROM "vendor" v
+            CROSS JOIN LATERAL (VALUES
+                ('TAX', COALESCE(cardinality(v."taxDocuments"), 0) > 0),
+                ('CITIZENSHIP', COALESCE(cardinality(v."citizenshipDocuments"), 0) > 0),
+                ('CHEQUE', COALESCE(v."chequePhoto", '') <> '')
+            ) AS d("type", "uploaded")
+            WHERE d."uploaded"
+        `);
+
+        await queryRunner.query(`CREATE TYPE "public"."vendor_kyc_audits_action_enum" AS ENUM('DOCUMENT_SUBMITTED', 'DOCUMENT_APPROVED', 'DOCUMENT_REJECTED', 'VENDOR_APPROVED', 'VENDOR_SUSPENDED', 'VENDOR_REINSTATED')`);
+        await queryRunner.query(`CREATE TABLE "vendor_kyc_audits" ("id" SERIAL NOT NULL, "vendorId" integer NOT NULL, "action" "public"."vendor_kyc_audits_action_enum" NOT NULL, "documentType" "public"."vendor_kyc_documents_type_enum", "note" character varying(500), "actorId" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_vendor_kyc_audits_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_vendor_kyc_audits_vendorId_createdAt" ON "vendor_kyc_audits" ("vendorId", "createdAt") `);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_audits" ADD CONSTRAINT "FK_vendor_kyc_audits_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_audits" ADD CONSTRAINT "FK_vendor_kyc_audits_actorId" FOREIGN KEY ("actorId") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_audits" DROP CONSTRAINT "FK_vendor_kyc_audits_actorId"`);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_audits" DROP CONSTRAINT "FK_vendor_kyc_audits_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_kyc_audits_vendorId_createdAt"`);
+        await queryRunner.query(`DROP TABLE "vendor_kyc_audits"`);
+        await queryRunner.query(`DROP TYPE "public"."vendor_kyc_audits_action_enum"`);
+
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_documents" DROP CONSTRAINT "FK_vendor_kyc_documents_reviewedById"`);
+        await queryRunner.query(`ALTER TABLE "vendor_kyc_documents" DROP CONSTRAINT "FK_vendor_kyc_documents_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_vendor_kyc_documents_status_submittedAt"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_vendor_kyc_documents_vendorId_type"`);
+        await queryRunner.query(`DROP TABLE "vendor_kyc_documents"`);
+        await queryRunner.query(`DROP TYPE "public"."vendor_kyc_documents_status_enum"`);
+        await queryRunner.query(`DROP TYPE "public"."vendor_kyc_documents_type_enum"`);
+
+        await queryRunner.query(`ALTER TABLE "vendor" DROP COLUMN "kycResubmitTokenExpire"`);
+        await queryRunner.query(`ALTER TABLE "vendor" DROP COLUMN "kycResubmitToken"`);
+        await queryRunner.query(`ALTER TABLE "vendor" DROP COLUMN "suspendedAt"`);
+        await queryRunner.query(`ALTER TABLE "vendor" DROP COLUMN "suspensionReason"`);
+        await queryRunner.query(`ALTER TABLE "vendor" DROP COLUMN "status"`);
+        await queryRunner.query(`DROP TYPE "public"."vendor_status_enum"`);
+    }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddNotificationReceipts1734351400000 implements MigrationInterface {
+    name = 'AddNotificationReceipts1734351400000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "notification_receipts" ("id" SERIAL NOT NULL, "notificationId" uuid NOT NULL, "userId" integer, "vendorId" integer, "readAt" TIMESTAMP, "archivedAt" TIMESTAMP, "deletedAt" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_notification_receipts_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_notification_receipts_notificationId_userId" ON "notification_receipts" ("notificationId", "userId") WHERE "userId" IS NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_notification_receipts_notificationId_vendorId" ON "notification_receipts" ("notificationId", "vendorId") WHERE "vendorId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "notification_receipts" ADD CONSTRAINT "FK_notification_receipts_notificationId" FOREIGN KEY ("notificationId") REFERENCES "notifications"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "notification_receipts" ADD CONSTRAINT "FK_notification_receipts_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "notification_receipts" ADD CONSTRAINT "FK_notification_receipts_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+
+        // The shared read flag becomes a receipt for each recipient who could have read it
+        await queryRunner.query(`
+            INSERT INTO "notification_receipts" ("notificationId", "vendorId", "readAt")
+            SELECT n."id", n."vendorId", n."updatedAt" FROM "notifications" n
+            WHERE n."isRead" = true AND n."target" = 'VENDOR' AND n."vendorId" IS NOT NULL
+        `);
+        await queryRunner.query(`
+            INSERT INTO "notification_receipts" ("notificationId", "userId", "readAt")
+            SELECT n."id", n."createdById", n."updatedAt" FROM "notifications" n
+            WHERE n."isRead" = true AND n."target" = 'USER' AND n."createdById" IS NOT NULL
+        `);
+        await queryRunner.query(`
+            INSERT INTO "notification_receipts" ("notificationId", "userId", "readAt")
+            SELECT n."id", u."id", n."updatedAt" FROM "notifications" n
+            CROSS JOIN "user" u
+            WHERE n."isRead" = true AND n."target" = 'ADMIN' AND u."role" IN ('admin', 'staff')
+        `);
+
+        await queryRunner.query(`ALTER TABLE "notifications" DROP COLUMN "isRead"`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "notifications" ADD "isRead" boolean NOT NULL DEFAULT false`);
+        await queryRunner.query(`UPDATE "notifications" n SET "isRead" = true WHERE EXISTS (SELECT 1 FROM "notification_receipts" r WHERE r."notificationId" = n."id" AND r."readAt" IS NOT NULL)`);
+
+        await queryRunner.query(`ALTER TABLE "notification_receipts" DROP CONSTRAINT "FK_notification_receipts_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "notification_receipts" DROP CONSTRAINT "FK_notification_receipts_userId"`);
+        await queryRunner.query(`ALTER TABLE "notification_receipts" DROP CONSTRAINT "FK_notification_receipts_notificationId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_notification_receipts_notificationId_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_notification_receipts_notificationId_userId"`);
+        await queryRunner.query(`DROP TABLE "notification_receipts"`);
+    }
+}
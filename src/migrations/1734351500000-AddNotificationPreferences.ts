@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddNotificationPreferences1734351500000 implements MigrationInterface {
+    name = 'AddNotificationPreferences1734351500000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TYPE "public"."notifications_type_enum" ADD VALUE IF NOT EXISTS 'REVIEW_REPLY'`);
+
+        await queryRunner.query(`CREATE TYPE "public"."notification_preferences_event_enum" AS ENUM('ORDER_PLACED', 'ORDER_STATUS_CHANGED', 'PROMO', 'PRICE_DROP', 'REVIEW_REPLY')`);
+        await queryRunner.query(`CREATE TABLE "notification_preferences" ("id" SERIAL NOT NULL, "userId" integer, "vendorId" integer, "event" "public"."notification_preferences_event_enum" NOT NULL, "email" boolean NOT NULL DEFAULT true, "inApp" boolean NOT NULL DEFAULT true, "sms" boolean NOT NULL DEFAULT false, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_notification_preferences_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_notification_preferences_userId_event" ON "notification_preferences" ("userId", "event") WHERE "userId" IS NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_notification_preferences_vendorId_event" ON "notification_preferences" ("vendorId", "event") WHERE "vendorId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "notification_preferences" ADD CONSTRAINT "FK_notification_preferences_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "notification_preferences" ADD CONSTRAINT "FK_notification_preferences_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "notification_preferences" DROP CONSTRAINT "FK_notification_preferences_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "notification_preferences" DROP CONSTRAINT "FK_notification_preferences_userId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_notification_preferences_vendorId_event"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_notification_preferences_userId_event"`);
+        await queryRunner.query(`DROP TABLE "notification_preferences"`);
+        await queryRunner.query(`DROP TYPE "public"."notification_preferences_event_enum"`);
+        // Postgres cannot drop an enum value; REVIEW_REPLY stays in notifications_type_enum
+    }
+}
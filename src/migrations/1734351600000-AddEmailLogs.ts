@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddEmailLogs1734351600000 implements MigrationInterface {
+    name = 'AddEmailLogs1734351600000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TYPE "public"."email_logs_status_enum" AS ENUM('QUEUED', 'SENT', 'FAILED')`);
+        await queryRunner.query(`CREATE TABLE "email_logs" ("id" SERIAL NOT NULL, "template" character varying(50) NOT NULL, "templateVersion" integer NOT NULL, "to" character varying(255) NOT NULL, "subject" character varying(255) NOT NULL, "variables" jsonb NOT NULL, "attachments" jsonb, "status" "public"."email_logs_status_enum" NOT NULL DEFAULT 'QUEUED', "attempts" integer NOT NULL DEFAULT 0, "lastError" text, "sentAt" TIMESTAMP, "resentFromId" integer, "resentById" integer, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_email_logs_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_email_logs_status_createdAt" ON "email_logs" ("status", "createdAt") `);
+        await queryRunner.query(`CREATE INDEX "IDX_email_logs_to" ON "email_logs" ("to") `);
+        await queryRunner.query(`ALTER TABLE "email_logs" ADD CONSTRAINT "FK_email_logs_resentFromId" FOREIGN KEY ("resentFromId") REFERENCES "email_logs"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "email_logs" ADD CONSTRAINT "FK_email_logs_resentById" FOREIGN KEY ("resentById") REFERENCES "user"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "email_logs" DROP CONSTRAINT "FK_email_logs_resentById"`);
+        await queryRunner.query(`ALTER TABLE "email_logs" DROP CONSTRAINT "FK_email_logs_resentFromId"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_email_logs_to"`);
+        await queryRunner.query(`DROP INDEX "public"."IDX_email_logs_status_createdAt"`);
+        await queryRunner.query(`DROP TABLE "email_logs"`);
+        await queryRunner.query(`DROP TYPE "public"."email_logs_status_enum"`);
+    }
+}
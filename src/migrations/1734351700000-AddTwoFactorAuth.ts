@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTwoFactorAuth1734351700000 implements MigrationInterface {
+    name = 'AddTwoFactorAuth1734351700000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`CREATE TABLE "two_factor_auth" ("id" SERIAL NOT NULL, "userId" integer, "vendorId" integer, "secret" text NOT NULL, "enabledAt" TIMESTAMP, "lastUsedStep" integer, "recoveryCodes" jsonb NOT NULL DEFAULT '[]', "emailCode" character varying, "emailCodeExpire" TIMESTAMP, "emailCodeSentAt" TIMESTAMP, "failedAttempts" integer NOT NULL DEFAULT 0, "lockedUntil" TIMESTAMP, "createdAt" TIMESTAMP NOT NULL DEFAULT now(), "updatedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_two_factor_auth_id" PRIMARY KEY ("id"))`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_two_factor_auth_userId" ON "two_factor_auth" ("userId") WHERE "userId" IS NOT NULL`);
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_two_factor_auth_vendorId" ON "two_factor_auth" ("vendorId") WHERE "vendorId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "two_factor_auth" ADD CONSTRAINT "FK_two_factor_auth_userId" FOREIGN KEY ("userId") REFERENCES "user"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+        await queryRunner.query(`ALTER TABLE "two_factor_auth" ADD CONSTRAINT "FK_two_factor_auth_vendorId" FOREIGN KEY ("vendorId") REFERENCES "vendor"("id") ON DELETE CASCADE ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "two_factor_auth" DROP CONSTRAINT "FK_two_factor_auth_vendorId"`);
+        await queryRunner.query(`ALTER TABLE "two_factor_auth" DROP CONSTRAINT "FK_two_factor_auth_userId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_two_factor_auth_vendorId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_two_factor_auth_userId"`);
+        await queryRunner.query(`DROP TABLE "two_factor_auth"`);
+    }
+}
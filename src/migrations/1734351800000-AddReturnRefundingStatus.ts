@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddReturnRefundingStatus1734351800000 implements MigrationInterface {
+    name = 'AddReturnRefundingStatus1734351800000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Set while a return's refund is being paid out, so it cannot be refunded twice
+        await queryRunner.query(`ALTER TYPE "return_requests_status_enum" ADD VALUE IF NOT EXISTS 'REFUNDING'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`UPDATE "return_requests" SET "status" = 'RECEIVED' WHERE "status" = 'REFUNDING'`);
+        // Postgres cannot drop an enum value; REFUNDING stays in return_requests_status_enum
+    }
+}
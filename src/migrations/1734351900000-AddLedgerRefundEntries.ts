@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddLedgerRefundEntries1734351900000 implements MigrationInterface {
+    name = 'AddLedgerRefundEntries1734351900000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD "refundId" integer`);
+        // A refund made outside the returns flow is debited once per vendor of the order
+        await queryRunner.query(`CREATE UNIQUE INDEX "UQ_vendor_ledger_entries_refundId_vendorId_type" ON "vendor_ledger_entries" ("refundId", "vendorId", "type") WHERE "refundId" IS NOT NULL`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" ADD CONSTRAINT "FK_vendor_ledger_entries_refundId" FOREIGN KEY ("refundId") REFERENCES "refunds"("id") ON DELETE SET NULL ON UPDATE NO ACTION`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP CONSTRAINT "FK_vendor_ledger_entries_refundId"`);
+        await queryRunner.query(`DROP INDEX "public"."UQ_vendor_ledger_entries_refundId_vendorId_type"`);
+        await queryRunner.query(`ALTER TABLE "vendor_ledger_entries" DROP COLUMN "refundId"`);
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class MaskEmailLogTokens1734352000000 implements MigrationInterface {
+    name = 'MaskEmailLogTokens1734352000000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // One-time tokens and codes are no longer stored in the email log; mask those already logged
+        await queryRunner.query(`UPDATE "email_logs" SET "variables" = jsonb_set("variables", '{token}', '"******"') WHERE "template" IN ('verification', 'password-reset') AND "variables" ? 'token'`);
+        await queryRunner.query(`UPDATE "email_logs" SET "variables" = jsonb_set("variables", '{code}', '"******"') WHERE "template" = 'two-factor-code' AND "variables" ? 'code'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        // The masked tokens cannot be restored
+    }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTwoFactorChallenges1734352100000 implements MigrationInterface {
+    name = 'AddTwoFactorChallenges1734352100000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Used login challenges, so a challenge token completes a single login
+        await queryRunner.query(`CREATE TABLE "two_factor_challenges" ("jti" uuid NOT NULL, "expiresAt" TIMESTAMP NOT NULL, "usedAt" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_two_factor_challenges_jti" PRIMARY KEY ("jti"))`);
+        await queryRunner.query(`CREATE INDEX "IDX_two_factor_challenges_expiresAt" ON "two_factor_challenges" ("expiresAt") `);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_two_factor_challenges_expiresAt"`);
+        await queryRunner.query(`DROP TABLE "two_factor_challenges"`);
+    }
+}
@@ -0,0 +1,15 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRefundReconciliationStatus1734352200000 implements MigrationInterface {
+    name = 'AddRefundReconciliationStatus1734352200000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Set when the gateway outcome of a refund is unknown; the amount stays held until an admin reconciles it
+        await queryRunner.query(`ALTER TYPE "refunds_status_enum" ADD VALUE IF NOT EXISTS 'RECONCILIATION_REQUIRED'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`UPDATE "refunds" SET "status" = 'FAILED', "failureReason" = 'Gateway outcome was never reconciled' WHERE "status" = 'RECONCILIATION_REQUIRED'`);
+        // Postgres cannot drop an enum value; RECONCILIATION_REQUIRED stays in refunds_status_enum
+    }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRefundReturnRequest1734352300000 implements MigrationInterface {
+    name = 'AddRefundReturnRequest1734352300000'
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`ALTER TABLE "refunds" ADD "returnRequestId" integer`);
+        await queryRunner.query(`
+            ALTER TABLE "refunds"
+            ADD CONSTRAINT "FK_refunds_returnRequestId"
+            FOREIGN KEY ("returnRequestId")
+            REFERENCES "return_requests"("id")
+            ON DELETE SET NULL
+            ON UPDATE NO ACTION
+        `);
+
+        // Link the refunds of returns already marked refunded
+        await queryRunner.query(`
+            UPDATE "refunds" SET "returnRequestId" = "request"."id"
+            FROM "return_requests" "request"
+            WHERE "request"."refundId" = "refunds"."id"
+        `);
+
+        // A return is paid out by at most one refund that has not failed
+        await queryRunner.query(`CREATE UNIQUE INDEX "IDX_refunds_returnRequestId_open" ON "refunds" ("returnRequestId") WHERE "status" <> 'FAILED'`);
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX "public"."IDX_refunds_returnRequestId_open"`);
+        await queryRunner.query(`ALTER TABLE "refunds" DROP CONSTRAINT "FK_refunds_returnRequestId"`);
+        await queryRunner.query(`ALTER TABLE "refunds" DROP COLUMN "returnRequestId"`);
+    }
+}
@@ -0,0 +1,427 @@
+import { Router } from 'express';
+import multer from 'multer';
+import { BrandController } from '../controllers/brand.controller';
+import { authMiddleware, isAdminOrStaff, isVendor, validateZod, vendorAuthMiddleware } from '../middlewares/auth.middleware';
+import { multerOptions } from '../config/multer.config';
+import {
+    adminBrandQuerySchema,
+    brandQuerySchema,
+    createBrandSchema,
+    mergeBrandSchema,
+    requestBrandSchema,
+    reviewBrandSchema,
+    updateBrandSchema,
+} from '../utils/zod_validations/brand.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const brandController = new BrandController();
+const upload = multer(multerOptions);
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Brands
+ *     description: Brand pages, brand management and vendor brand requests
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Brand:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         name:
+ *           type: string
+ *           example: "Goldstar"
+ *         slug:
+ *           type: string
+ *           example: "goldstar"
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         logo:
+ *           type: string
+ *           nullable: true
+ *         isVerified:
+ *           type: boolean
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *         requestedByVendorId:
+ *           type: integer
+ *           nullable: true
+ *         reviewNote:
+ *           type: string
+ *           nullable: true
+ *         productCount:
+ *           type: integer
+ *           example: 42
+ *     BrandList:
+ *       type: object
+ *       properties:
+ *         brands:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/Brand'
+ *         total:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         totalPages:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/brands:
+ *   get:
+ *     summary: List approved brands with product counts
+ *     tags:
+ *       - Brands
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: verified
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Brands, alphabetically
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/BrandList'
+ */
+router.get('/', validateZod(brandQuerySchema, 'query'), asyncHandler(brandController.getBrands.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/admin:
+ *   get:
+ *     summary: List all brands, including pending and rejected requests
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: verified
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Brands with the requesting vendor, if any
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/BrandList'
+ */
+router.get('/admin', authMiddleware, isAdminOrStaff, validateZod(adminBrandQuerySchema, 'query'), asyncHandler(brandController.getAdminBrands.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/requests:
+ *   post:
+ *     summary: Request a new brand
+ *     description: The brand stays hidden until an admin approves it.
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Himalayan Java"
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Brand request created
+ *       409:
+ *         description: Brand already exists or has already been requested
+ */
+router.post('/requests', vendorAuthMiddleware, isVendor, validateZod(requestBrandSchema), asyncHandler(brandController.requestBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/requests/mine:
+ *   get:
+ *     summary: Get the authenticated vendor's brand requests
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Requested brands with their status and review note
+ */
+router.get('/requests/mine', vendorAuthMiddleware, isVendor, asyncHandler(brandController.getVendorRequests.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands:
+ *   post:
+ *     summary: Create a brand
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               isVerified:
+ *                 type: boolean
+ *               logo:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       201:
+ *         description: Brand created
+ *       409:
+ *         description: Brand name already exists
+ */
+router.post('/', authMiddleware, isAdminOrStaff, upload.single('logo'), validateZod(createBrandSchema), asyncHandler(brandController.createBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/{id}:
+ *   put:
+ *     summary: Update, rename or verify a brand
+ *     description: Renaming also changes the slug unless a slug is given. A new logo replaces the old one.
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               isVerified:
+ *                 type: boolean
+ *               logo:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Brand updated
+ *       404:
+ *         description: Brand not found
+ *       409:
+ *         description: Name or slug already used by another brand
+ */
+router.put('/:id', authMiddleware, isAdminOrStaff, upload.single('logo'), validateZod(updateBrandSchema), asyncHandler(brandController.updateBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/{id}/review:
+ *   put:
+ *     summary: Approve or reject a vendor's brand request
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Brand reviewed
+ *       400:
+ *         description: Brand is not pending
+ *       404:
+ *         description: Brand not found
+ */
+router.put('/:id/review', authMiddleware, isAdminOrStaff, validateZod(reviewBrandSchema), asyncHandler(brandController.reviewBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/{id}/merge:
+ *   post:
+ *     summary: Merge a brand into another brand
+ *     description: All products of the brand move to the target brand, then the brand is deleted.
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - targetBrandId
+ *             properties:
+ *               targetBrandId:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Target brand and the number of products moved
+ *       400:
+ *         description: Same brand, or target brand not approved
+ *       404:
+ *         description: Brand not found
+ */
+router.post('/:id/merge', authMiddleware, isAdminOrStaff, validateZod(mergeBrandSchema), asyncHandler(brandController.mergeBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/{id}:
+ *   delete:
+ *     summary: Delete a brand
+ *     description: Only brands without products can be deleted; merge the others instead.
+ *     tags:
+ *       - Brands
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Brand deleted
+ *       400:
+ *         description: Brand still has products
+ *       404:
+ *         description: Brand not found
+ */
+router.delete('/:id', authMiddleware, isAdminOrStaff, asyncHandler(brandController.deleteBrand.bind(brandController)));
+
+/**
+ * @swagger
+ * /api/brands/{idOrSlug}:
+ *   get:
+ *     summary: Get a brand page by slug or ID
+ *     description: Use GET /api/categories/all/products?brandId= for the brand's products.
+ *     tags:
+ *       - Brands
+ *     parameters:
+ *       - in: path
+ *         name: idOrSlug
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: "goldstar"
+ *     responses:
+ *       200:
+ *         description: Brand with its product count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Brand'
+ *       404:
+ *         description: Brand not found
+ */
+router.get('/:idOrSlug', asyncHandler(brandController.getBrand.bind(brandController)));
+
+export default router;
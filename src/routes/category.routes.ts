@@ -1051,10 +1051,62 @@ router.post('/:categoryId/subcategories/:subcategoryId/products', vendorAuthMidd
  *         name: sort
  *         schema:
  *           type: string
- *           enum: [all, low-to-high, high-to-low]
+ *           enum: [all, low-to-high, high-to-low, best-selling, top-rated, discount, newest, trending]
  *           default: all
- *         description: Sort products by price
+ *         description: >
+ *           Sort products. "low-to-high"/"high-to-low" sort by price, "best-selling" by units sold
+ *           over the last BEST_SELLING_WINDOW_DAYS days (default 30), "top-rated" by Bayesian average rating,
+ *           "discount" by largest percentage off (deals included), "trending" by recent sales weighted
+ *           towards the last few days, "newest" by creation date. Sales, ratings and discounts are
+ *           refreshed every 15 minutes. With a search term, "all" sorts by relevance.
  *         example: "low-to-high"
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Full-text search over name, brand, category, subcategory, variant attributes and description.
+ *           Supports "quoted phrases", `or` and `-excluded` words; misspelled words still match similar product names.
+ *           Matching products include a `searchHighlight` with an HTML-escaped name and description, matches wrapped in <mark>.
+ *         example: "samsung phone"
+ *       - in: query
+ *         name: minPrice
+ *         schema:
+ *           type: number
+ *         description: Minimum effective price (after product/variant discount and live deal; lowest variant for variant products)
+ *       - in: query
+ *         name: maxPrice
+ *         schema:
+ *           type: number
+ *         description: Maximum effective price
+ *       - in: query
+ *         name: minRating
+ *         schema:
+ *           type: number
+ *           minimum: 1
+ *           maximum: 5
+ *         description: Minimum average review rating
+ *       - in: query
+ *         name: attributes
+ *         style: deepObject
+ *         explode: true
+ *         schema:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         description: Variant attribute filters, comma-separated values per attribute. One variant must match all of them.
+ *         example: { "color": "red,blue", "size": "M" }
+ *       - in: query
+ *         name: inStock
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Only products in stock; false also lists out-of-stock products
+ *       - in: query
+ *         name: discounted
+ *         schema:
+ *           type: boolean
+ *         description: Only products with a discount or a live deal
  *     responses:
  *       200:
  *         description: Products retrieved successfully
@@ -1066,6 +1118,67 @@ router.post('/:categoryId/subcategories/:subcategoryId/products', vendorAuthMidd
  *                 success:
  *                   type: boolean
  *                   example: true
+ *                 meta:
+ *                   type: object
+ *                   description: Pagination plus `facets`, the counts for the filter sidebar. Each facet is counted with all other filters applied but not its own.
+ *                   properties:
+ *                     facets:
+ *                       type: object
+ *                       properties:
+ *                         price:
+ *                           type: object
+ *                           properties:
+ *                             min:
+ *                               type: number
+ *                             max:
+ *                               type: number
+ *                         rating:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               minRating:
+ *                                 type: integer
+ *                               count:
+ *                                 type: integer
+ *                         attributes:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               name:
+ *                                 type: string
+ *                                 example: "color"
+ *                               values:
+ *                                 type: array
+ *                                 items:
+ *                                   type: object
+ *                                   properties:
+ *                                     value:
+ *                                       type: string
+ *                                       example: "red"
+ *                                     count:
+ *                                       type: integer
+ *                         availability:
+ *                           type: object
+ *                           properties:
+ *                             inStock:
+ *                               type: integer
+ *                             outOfStock:
+ *                               type: integer
+ *                         discounted:
+ *                           type: integer
+ *                         brands:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             properties:
+ *                               id:
+ *                                 type: integer
+ *                               name:
+ *                                 type: string
+ *                               count:
+ *                                 type: integer
  *                 message:
  *                   type: string
  *                   example: Products retrieved successfully
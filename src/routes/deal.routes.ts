@@ -43,6 +43,23 @@ const dealController = new DealController();
  *                 description: Status of the deal
  *                 enum: [ENABLED, DISABLED]
  *                 example: ENABLED
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When the deal goes live; the deal is SCHEDULED until then
+ *                 example: "2025-01-10T10:00:00Z"
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: When the deal ends; the deal becomes EXPIRED afterwards
+ *                 example: "2025-01-10T22:00:00Z"
+ *               perCustomerLimit:
+ *                 type: integer
+ *                 nullable: true
+ *                 description: Units of each deal product one customer may buy at the deal price
+ *                 example: 2
  *     responses:
  *       201:
  *         description: Deal created successfully
@@ -122,8 +139,35 @@ router.post('/', authMiddleware, isAdminOrStaff, validateZod(createDealSchema),
  *               status:
  *                 type: string
  *                 enum: [ENABLED, DISABLED]
- *                 description: New deal status
+ *                 description: New deal status; ENABLED deals are SCHEDULED or EXPIRED according to their window
  *                 example: "DISABLED"
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 example: "2025-01-10T10:00:00Z"
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 example: "2025-01-10T22:00:00Z"
+ *               perCustomerLimit:
+ *                 type: integer
+ *                 nullable: true
+ *                 example: 2
+ *               productLimits:
+ *                 type: array
+ *                 description: Replaces the per-product caps on units sold at the deal price. Products must already be in the deal.
+ *                 items:
+ *                   type: object
+ *                   required: [productId, stockLimit]
+ *                   properties:
+ *                     productId:
+ *                       type: integer
+ *                       example: 12
+ *                     stockLimit:
+ *                       type: integer
+ *                       example: 50
  *     responses:
  *       200:
  *         description: Deal updated successfully
@@ -217,6 +261,110 @@ router.post('/', authMiddleware, isAdminOrStaff, validateZod(createDealSchema),
  */
 router.patch('/:id', authMiddleware, isAdminOrStaff, validateZod(updateDealSchema), dealController.updateDeal.bind(dealController));
 
+/**
+ * @swagger
+ * /api/deal/live:
+ *   get:
+ *     summary: Get live and upcoming deals
+ *     description: Deals running now and deals scheduled to start, with countdown data, deal prices and remaining deal stock. Use serverTime to correct the client clock.
+ *     tags: [Deals]
+ *     responses:
+ *       200:
+ *         description: Live and upcoming deals
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     serverTime:
+ *                       type: string
+ *                       format: date-time
+ *                     live:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/LiveDeal'
+ *                     upcoming:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/LiveDeal'
+ *       500:
+ *         description: Internal server error
+ *
+ * components:
+ *   schemas:
+ *     LiveDeal:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *           example: 3
+ *         name:
+ *           type: string
+ *           example: "Midnight Flash Sale"
+ *         discountPercentage:
+ *           type: number
+ *           example: 20
+ *         status:
+ *           type: string
+ *           enum: [ENABLED, SCHEDULED]
+ *         perCustomerLimit:
+ *           type: integer
+ *           nullable: true
+ *           example: 2
+ *         countdown:
+ *           type: object
+ *           properties:
+ *             startsAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             endsAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             startsInSeconds:
+ *               type: integer
+ *               example: 0
+ *             endsInSeconds:
+ *               type: integer
+ *               nullable: true
+ *               example: 3600
+ *         products:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               id:
+ *                 type: integer
+ *               name:
+ *                 type: string
+ *               basePrice:
+ *                 type: number
+ *                 nullable: true
+ *               dealPrice:
+ *                 type: number
+ *                 nullable: true
+ *               productImages:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               hasVariants:
+ *                 type: boolean
+ *               stockLimit:
+ *                 type: integer
+ *                 nullable: true
+ *               remainingDealStock:
+ *                 type: integer
+ *                 nullable: true
+ */
+router.get('/live', dealController.getLiveDeals.bind(dealController));
+
 /**
  * @swagger
  * /api/deal/{id}:
@@ -324,7 +472,7 @@ router.get('/:id', dealController.getDealById.bind(dealController));
  *         required: false
  *         schema:
  *           type: string
- *           enum: [ENABLED, DISABLED]
+ *           enum: [ENABLED, DISABLED, SCHEDULED, EXPIRED]
  *         description: Optional filter to get deals with a specific status
  *     responses:
  *       200:
@@ -0,0 +1,124 @@
+import { Router } from 'express';
+import { EmailLogController } from '../controllers/emailLog.controller';
+import { authMiddleware, isAdmin, validateZod } from '../middlewares/auth.middleware';
+import { emailLogQuerySchema } from '../utils/zod_validations/emailLog.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const emailLogController = new EmailLogController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Email Logs
+ *     description: Outbox of templated emails (verification, password reset, order emails) and resending
+ */
+
+/**
+ * @swagger
+ * /api/email-logs:
+ *   get:
+ *     summary: List logged emails
+ *     description: >
+ *       Every templated email is logged before it is queued. QUEUED emails are waiting for delivery or a retry;
+ *       FAILED emails ran out of retries (3, with exponential backoff) and can be resent.
+ *     tags: [Email Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [QUEUED, SENT, FAILED]
+ *       - in: query
+ *         name: template
+ *         schema:
+ *           type: string
+ *           enum: [verification, password-reset, order-confirmation, vendor-new-order, order-status-update, order-cancelled, two-factor-code]
+ *       - in: query
+ *         name: recipient
+ *         description: Part of the recipient address
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated emails, newest first, without their variables and attachments
+ */
+router.get('/', authMiddleware, isAdmin, validateZod(emailLogQuerySchema, 'query'), asyncHandler(emailLogController.getEmailLogs.bind(emailLogController)));
+
+/**
+ * @swagger
+ * /api/email-logs/{id}:
+ *   get:
+ *     summary: Get a logged email
+ *     description: >
+ *       Includes the template variables, attachment names and a preview of the body.
+ *       Sensitive variables such as verification and password reset tokens are stored and shown masked.
+ *     tags: [Email Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Email with its variables and preview
+ *       404:
+ *         description: Email not found
+ */
+router.get('/:id', authMiddleware, isAdmin, asyncHandler(emailLogController.getEmailLogById.bind(emailLogController)));
+
+/**
+ * @swagger
+ * /api/email-logs/{id}/resend:
+ *   post:
+ *     summary: Resend a logged email
+ *     description: >
+ *       Queues the email again with the same template version, variables and attachments, logged as a new
+ *       email linked to the original (resentFromId). Verification, password reset and login code emails cannot
+ *       be resent; the user requests a new token or code instead.
+ *     tags: [Email Logs]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       202:
+ *         description: Email queued; data is the new email
+ *       400:
+ *         description: The email carries a one-time token or code
+ *       404:
+ *         description: Email not found
+ */
+router.post('/:id/resend', authMiddleware, isAdmin, asyncHandler(emailLogController.resendEmail.bind(emailLogController)));
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { NotificationController } from '../controllers/notification.controller';
-import { combinedAuthMiddleware } from "../middlewares/auth.middleware";
+import { combinedAuthMiddleware, validateZod } from "../middlewares/auth.middleware";
+import { notificationInboxQuerySchema, updateNotificationPreferencesSchema } from "../utils/zod_validations/notification.zod";
 
 const notificationRoutes = Router();
 const controller = new NotificationController();
@@ -12,17 +13,106 @@ const controller = new NotificationController();
  *   description: API endpoints for managing user, vendor, and admin notifications
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     InboxNotification:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *           example: "8a52bc48-9d27-4b31-9a45-c30e76cfb4b2"
+ *         title:
+ *           type: string
+ *           example: "New Order Placed"
+ *         message:
+ *           type: string
+ *           example: "Order #123 has been placed by John Doe"
+ *         type:
+ *           type: string
+ *           enum: [ORDER_PLACED, ORDER_STATUS_UPDATED, PRODUCT_QUESTION, PRODUCT_REVIEW, REVIEW_DISPUTE, REVIEW_REPLY, GENERAL]
+ *         target:
+ *           type: string
+ *           enum: [ADMIN, VENDOR, USER]
+ *         isRead:
+ *           type: boolean
+ *           description: Read by the authenticated user or vendor; each admin and staff member has their own read state
+ *           example: false
+ *         readAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         archivedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         vendorId:
+ *           type: integer
+ *           nullable: true
+ *         createdById:
+ *           type: integer
+ *           nullable: true
+ *         orderId:
+ *           type: integer
+ *           nullable: true
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
 /**
  * @swagger
  * /api/notification:
  *   get:
- *     summary: Get all notifications for the authenticated user or vendor
+ *     summary: Get the inbox of the authenticated user or vendor
+ *     description: Newest first. Deleted notifications are never listed; archived ones only with archived=true.
  *     tags: [Notifications]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [ORDER_PLACED, ORDER_STATUS_UPDATED, PRODUCT_QUESTION, PRODUCT_REVIEW, REVIEW_DISPUTE, REVIEW_REPLY, GENERAL]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [read, unread]
+ *       - in: query
+ *         name: archived
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *       - in: query
+ *         name: from
+ *         description: Created on or after
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: to
+ *         description: Created on or before
+ *         schema:
+ *           type: string
+ *           format: date-time
  *     responses:
  *       200:
- *         description: Successfully fetched all notifications for the authenticated entity
+ *         description: Paginated notifications
  *         content:
  *           application/json:
  *             schema:
@@ -32,38 +122,228 @@ const controller = new NotificationController();
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       id:
- *                         type: string
- *                         format: uuid
- *                         example: "8a52bc48-9d27-4b31-9a45-c30e76cfb4b2"
- *                       title:
- *                         type: string
- *                         example: "New Order Placed"
- *                       message:
- *                         type: string
- *                         example: "Order #123 has been placed by John Doe"
- *                       type:
- *                         type: string
- *                         enum: [ORDER_PLACED, ORDER_STATUS_UPDATED, GENERAL]
- *                       target:
- *                         type: string
- *                         enum: [ADMIN, VENDOR, USER]
- *                       isRead:
- *                         type: boolean
- *                         example: false
- *                       createdAt:
- *                         type: string
- *                         format: date-time
+ *                   type: object
+ *                   properties:
+ *                     notifications:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/InboxNotification'
+ *                     total:
+ *                       type: integer
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       400:
+ *         description: Invalid filters
  *       401:
  *         description: Unauthorized, user or vendor not authenticated
  *       500:
  *         description: Internal server error
  */
-notificationRoutes.get("/", combinedAuthMiddleware, controller.getNotificationController.bind(controller));
+notificationRoutes.get("/", combinedAuthMiddleware, validateZod(notificationInboxQuerySchema, "query"), controller.getNotificationController.bind(controller));
+
+
+/**
+ * @swagger
+ * /api/notification/unread-count:
+ *   get:
+ *     summary: Count unread notifications
+ *     description: Archived notifications are not counted.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Unread count
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     count:
+ *                       type: integer
+ *                       example: 3
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ */
+notificationRoutes.get("/unread-count", combinedAuthMiddleware, controller.getUnreadCountController.bind(controller));
+
+
+/**
+ * @swagger
+ * /api/notification/read-all:
+ *   patch:
+ *     summary: Mark all notifications as read
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Notifications marked as read
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 msg:
+ *                   type: string
+ *                   example: "all marked as read"
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     marked:
+ *                       type: integer
+ *                       description: Number of notifications that were unread
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ */
+notificationRoutes.patch("/read-all", combinedAuthMiddleware, controller.markAllReadController.bind(controller));
+
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     NotificationPreference:
+ *       type: object
+ *       properties:
+ *         event:
+ *           type: string
+ *           enum: [ORDER_PLACED, ORDER_STATUS_CHANGED, PROMO, PRICE_DROP, REVIEW_REPLY]
+ *         email:
+ *           type: boolean
+ *         inApp:
+ *           type: boolean
+ *         sms:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/notification/preferences:
+ *   get:
+ *     summary: Get notification channel preferences
+ *     description: >
+ *       Channels the authenticated customer or vendor receives each event on.
+ *       Events never changed use the defaults: email and in-app on, SMS off.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: One entry per event
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NotificationPreference'
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ *       403:
+ *         description: Admins and staff have no preferences
+ *   put:
+ *     summary: Change notification channel preferences
+ *     description: Channels left out of an entry keep their current setting. SMS goes to the account's phone number.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [preferences]
+ *             properties:
+ *               preferences:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [event]
+ *                   properties:
+ *                     event:
+ *                       type: string
+ *                       enum: [ORDER_PLACED, ORDER_STATUS_CHANGED, PROMO, PRICE_DROP, REVIEW_REPLY]
+ *                     email:
+ *                       type: boolean
+ *                     inApp:
+ *                       type: boolean
+ *                     sms:
+ *                       type: boolean
+ *             example:
+ *               preferences:
+ *                 - event: ORDER_STATUS_CHANGED
+ *                   sms: true
+ *                 - event: PROMO
+ *                   email: false
+ *     responses:
+ *       200:
+ *         description: Preferences of every event after the change
+ *       400:
+ *         description: Invalid event or an event listed twice
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ *       403:
+ *         description: Admins and staff have no preferences
+ */
+notificationRoutes.get("/preferences", combinedAuthMiddleware, controller.getPreferencesController.bind(controller));
+notificationRoutes.put("/preferences", combinedAuthMiddleware, validateZod(updateNotificationPreferencesSchema), controller.updatePreferencesController.bind(controller));
+
+
+/**
+ * @swagger
+ * /api/notification/stream:
+ *   get:
+ *     summary: Stream new notifications (Server-Sent Events)
+ *     description: |
+ *       Keeps the connection open and pushes each new notification for the authenticated admin, staff,
+ *       vendor or customer as an `event: notification` message whose `data` is the notification JSON and
+ *       whose `id` is the notification ID. Comment lines are sent periodically as a heartbeat.
+ *
+ *       Use with `EventSource` (with credentials, authenticating through the `token` or `vendorToken` cookie).
+ *       When the browser reconnects it sends `Last-Event-ID`, and the notifications created since are replayed first.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Last-Event-ID
+ *         required: false
+ *         description: ID of the last notification received
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "id: 8a52bc48-9d27-4b31-9a45-c30e76cfb4b2\nevent: notification\ndata: {\"id\":\"8a52bc48-9d27-4b31-9a45-c30e76cfb4b2\",\"title\":\"New Order Placed\",...}\n\n"
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ */
+notificationRoutes.get("/stream", combinedAuthMiddleware, controller.streamNotificationsController.bind(controller));
 
 
 
@@ -71,8 +351,10 @@ notificationRoutes.get("/", combinedAuthMiddleware, controller.getNotificationCo
  * @swagger
  * /api/notification/{id}:
  *   get:
- *     summary: Get notification details by ID
+ *     summary: Get a notification by ID
  *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -93,41 +375,18 @@ notificationRoutes.get("/", combinedAuthMiddleware, controller.getNotificationCo
  *                   type: boolean
  *                   example: true
  *                 data:
- *                   type: object
- *                   properties:
- *                     id:
- *                       type: string
- *                       example: "bde21a84-8f3b-4e5d-b829-c431fd3e2342"
- *                     title:
- *                       type: string
- *                       example: "Order Status Updated"
- *                     message:
- *                       type: string
- *                       example: "Order #123 status updated to Shipped"
- *                     type:
- *                       type: string
- *                     target:
- *                       type: string
- *                     isRead:
- *                       type: boolean
- *                     createdAt:
- *                       type: string
- *                       format: date-time
+ *                   $ref: '#/components/schemas/InboxNotification'
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
  *       404:
- *         description: Notification not found
+ *         description: Notification not found, not addressed to the caller, or deleted by them
  *       500:
  *         description: Internal server error
- */
-notificationRoutes.get("/:id", controller.getNotificationByIdController.bind(controller));
-
-
-
-/**
- * @swagger
- * /api/notification/{id}:
  *   patch:
  *     summary: Mark a notification as read
  *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -151,19 +410,89 @@ notificationRoutes.get("/:id", controller.getNotificationByIdController.bind(con
  *                   type: string
  *                   example: "marked as read"
  *                 data:
- *                   type: object
- *                   properties:
- *                     id:
- *                       type: string
- *                       example: "e67b01cc-44f7-458d-b88d-b9b4f31a1f67"
- *                     isRead:
- *                       type: boolean
- *                       example: true
+ *                   $ref: '#/components/schemas/InboxNotification'
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
  *       404:
  *         description: Notification not found
  *       500:
  *         description: Internal server error
+ *   delete:
+ *     summary: Delete a notification from the caller's inbox
+ *     description: Other recipients of an admin notification keep it.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notification deleted
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ *       404:
+ *         description: Notification not found
+ */
+notificationRoutes.get("/:id", combinedAuthMiddleware, controller.getNotificationByIdController.bind(controller));
+notificationRoutes.patch("/:id", combinedAuthMiddleware, controller.markReadController.bind(controller));
+notificationRoutes.delete("/:id", combinedAuthMiddleware, controller.deleteController.bind(controller));
+
+
+/**
+ * @swagger
+ * /api/notification/{id}/archive:
+ *   patch:
+ *     summary: Archive a notification
+ *     description: Archived notifications leave the inbox and the unread count; list them with archived=true.
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notification archived
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ *       404:
+ *         description: Notification not found
+ */
+notificationRoutes.patch("/:id/archive", combinedAuthMiddleware, controller.archiveController.bind(controller));
+
+
+/**
+ * @swagger
+ * /api/notification/{id}/unarchive:
+ *   patch:
+ *     summary: Move an archived notification back to the inbox
+ *     tags: [Notifications]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Notification moved to the inbox
+ *       401:
+ *         description: Unauthorized, user or vendor not authenticated
+ *       404:
+ *         description: Notification not found
  */
-notificationRoutes.patch("/:id", controller.markReadController.bind(controller));
+notificationRoutes.patch("/:id/unarchive", combinedAuthMiddleware, controller.unarchiveController.bind(controller));
 
 export default notificationRoutes;
@@ -1,7 +1,7 @@
 import { Router } from 'express';
 import { OrderController } from '../controllers/order.controller';
 import { authMiddleware, combinedAuthMiddleware, isAccountOwner, isAccountOwnerOrAdmin, isAdmin, isAdminOrStaff, isVendor, validateZod, vendorAuthMiddleware } from '../middlewares/auth.middleware';
-import { createOrderSchema, shippingAddressSchema, updateOrderStatusSchema } from '../utils/zod_validations/order.zod';
+import { createOrderSchema, reconcileRefundSchema, refundOrderSchema, shippingAddressSchema, updateOrderStatusSchema, updateVendorOrderStatusSchema } from '../utils/zod_validations/order.zod';
 import { asyncHandler } from '../utils/asyncHandler.utils';
 
 const router = Router();
@@ -704,6 +704,50 @@ router.get('/payment/cancel', asyncHandler(orderController.handlePaymentCancel.b
  */
 router.get('/:orderId', combinedAuthMiddleware, asyncHandler(orderController.getCustomerOrderDetails.bind(orderController)));
 
+/**
+ * @swagger
+ * /api/order/{orderId}/invoice:
+ *   get:
+ *     summary: Get the tax invoice of one of your orders
+ *     description: |
+ *       Shows every line item, shipping fee, service charge, promo discount and the 13% VAT
+ *       included in the total, with each vendor's PAN/VAT and registration number.
+ *       The invoice number is issued on first request and stays the same afterwards.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, json]
+ *         description: Return the invoice data as JSON instead of an HTML page
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *         description: Send the HTML invoice as a file download
+ *     responses:
+ *       200:
+ *         description: Invoice as an HTML page (or JSON when format=json)
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Order is not confirmed yet or was cancelled
+ *       404:
+ *         description: Order not found
+ */
+router.get('/:orderId/invoice', authMiddleware, asyncHandler(orderController.getCustomerInvoice.bind(orderController)));
+
 /**
  * @swagger
  * /api/order/customer/order/{id}:
@@ -1446,6 +1490,209 @@ router.get('/admin/:orderId', authMiddleware, isAdminOrStaff, asyncHandler(order
 router.put('/admin/:orderId/status', authMiddleware, isAdminOrStaff, validateZod(updateOrderStatusSchema), asyncHandler(orderController.updateOrderStatus.bind(orderController)));
 
 
+/**
+ * @swagger
+ * /api/order/admin/{orderId}/refund:
+ *   post:
+ *     summary: Refund an order fully or partially (Admin only)
+ *     description: |
+ *       Refunds eSewa and NPX orders through their gateway and records cash on delivery refunds as manual settlements.
+ *       Omit `amount` to refund the remaining refundable balance. Every attempt, including failed ones, is kept in the order's refund history.
+ *       Only orders that are not yet delivered (PENDING, CONFIRMED, DELAYED, SHIPPED) or were cancelled can be refunded here.
+ *       Delivered goods are refunded through their return request with `POST /api/order/returns/admin/{id}/refund`,
+ *       which ties the refund to the returned items.
+ *       When the gateway times out or gives no definite answer, the refund is marked RECONCILIATION_REQUIRED, as are
+ *       refunds without a recorded gateway response after 30 minutes. Their amount stays held against the refundable
+ *       balance until the outcome is confirmed with the gateway and recorded through the reconcile endpoint.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Numeric ID of the order to refund
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 example: 500
+ *               reason:
+ *                 type: string
+ *                 example: "Item arrived damaged"
+ *               reference:
+ *                 type: string
+ *                 description: Settlement reference for manual (cash on delivery) refunds
+ *                 example: "BANK-TXN-8891"
+ *     responses:
+ *       201:
+ *         description: Refund completed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                       example: 7
+ *                     orderId:
+ *                       type: integer
+ *                       example: 101
+ *                     amount:
+ *                       type: number
+ *                       example: 500
+ *                     channel:
+ *                       type: string
+ *                       enum: [ESEWA, NPX, MANUAL]
+ *                       example: ESEWA
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, COMPLETED, FAILED, RECONCILIATION_REQUIRED]
+ *                       example: COMPLETED
+ *                     gatewayReference:
+ *                       type: string
+ *                       example: "0007XYZ"
+ *                     processedAt:
+ *                       type: string
+ *                       format: date-time
+ *       400:
+ *         description: Order is unpaid or delivered, payment method not refundable, or amount exceeds refundable balance
+ *       404:
+ *         description: Order not found
+ *       502:
+ *         description: Gateway rejected the refund, or its outcome could not be confirmed (the attempt is still recorded)
+ */
+router.post('/admin/:orderId/refund', authMiddleware, isAdmin, validateZod(refundOrderSchema), asyncHandler(orderController.refundOrder.bind(orderController)));
+
+
+/**
+ * @swagger
+ * /api/order/admin/{orderId}/refunds:
+ *   get:
+ *     summary: Get refund history for an order (Admin or Staff)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Refund attempts for the order, newest first
+ *       404:
+ *         description: Order not found
+ */
+router.get('/admin/:orderId/refunds', authMiddleware, isAdminOrStaff, asyncHandler(orderController.getOrderRefunds.bind(orderController)));
+
+
+/**
+ * @swagger
+ * /api/order/admin/refunds/{refundId}/reconcile:
+ *   post:
+ *     summary: Record the gateway outcome of a refund awaiting reconciliation (Admin only)
+ *     description: |
+ *       For refunds in RECONCILIATION_REQUIRED, after checking the refund with the gateway.
+ *       COMPLETED updates the order's payment status; FAILED releases the amount the refund held.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: refundId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [COMPLETED, FAILED]
+ *               reference:
+ *                 type: string
+ *                 description: Gateway reference of the refund
+ *                 example: "0007XYZ"
+ *               note:
+ *                 type: string
+ *                 example: "Not found in the eSewa merchant statement"
+ *     responses:
+ *       200:
+ *         description: Refund reconciled
+ *       400:
+ *         description: Refund is not awaiting reconciliation
+ *       404:
+ *         description: Refund not found
+ */
+router.post('/admin/refunds/:refundId/reconcile', authMiddleware, isAdmin, validateZod(reconcileRefundSchema), asyncHandler(orderController.reconcileRefund.bind(orderController)));
+
+/**
+ * @swagger
+ * /api/order/admin/{orderId}/invoice:
+ *   get:
+ *     summary: Get the customer tax invoice of any order (Admin or Staff)
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, json]
+ *         description: Return the invoice data as JSON instead of an HTML page
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *         description: Send the HTML invoice as a file download
+ *     responses:
+ *       200:
+ *         description: Invoice as an HTML page (or JSON when format=json)
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Order is not confirmed yet or was cancelled
+ *       404:
+ *         description: Order not found
+ */
+router.get('/admin/:orderId/invoice', authMiddleware, isAdminOrStaff, asyncHandler(orderController.getOrderInvoice.bind(orderController)));
+
+
 /**
  * @swagger
  * /api/order/admin/order/search:
@@ -1893,6 +2140,98 @@ router.get('/vendor/orders', vendorAuthMiddleware, isVendor, asyncHandler(orderC
  */
 router.get('/vendor/:orderId', vendorAuthMiddleware, asyncHandler(orderController.getVendorOrderDetails.bind(orderController)));
 
+/**
+ * @swagger
+ * /api/order/vendor/{orderId}/invoice:
+ *   get:
+ *     summary: Get the tax invoice for your sub-order
+ *     description: Covers only the vendor's items and shipment, with a proportional share of any promo discount.
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, json]
+ *         description: Return the invoice data as JSON instead of an HTML page
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *         description: Send the HTML invoice as a file download
+ *     responses:
+ *       200:
+ *         description: Invoice as an HTML page (or JSON when format=json)
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Order is not confirmed yet or was cancelled
+ *       404:
+ *         description: Order not found
+ */
+router.get('/vendor/:orderId/invoice', vendorAuthMiddleware, isVendor, asyncHandler(orderController.getVendorInvoice.bind(orderController)));
+
+
+/**
+ * @swagger
+ * /api/order/vendor/{orderId}/status:
+ *   put:
+ *     summary: Update the vendor's own sub-order of an order
+ *     description: |
+ *       Each vendor in a multi-vendor order fulfils their share separately.
+ *       The overall order status is derived from all vendor sub-orders
+ *       (shipped once any share ships, delivered once every share is delivered).
+ *     tags:
+ *       - Orders
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: orderId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [DELAYED, SHIPPED, DELIVERED]
+ *                 example: SHIPPED
+ *               trackingNumber:
+ *                 type: string
+ *                 example: "PX-2039481"
+ *               courier:
+ *                 type: string
+ *                 example: "Pathao"
+ *     responses:
+ *       200:
+ *         description: Sub-order updated; returns the vendor view of the order with its sub-order
+ *       400:
+ *         description: Invalid order ID or status transition
+ *       401:
+ *         description: Vendor not authenticated
+ *       404:
+ *         description: Order not found or does not contain the vendor's items
+ */
+router.put('/vendor/:orderId/status', vendorAuthMiddleware, isVendor, validateZod(updateVendorOrderStatusSchema), asyncHandler(orderController.updateVendorOrderStatus.bind(orderController)));
+
 
 /**
  * @swagger
@@ -6,6 +6,7 @@ import { Order, OrderStatus, PaymentStatus } from '../entities/order.entity';
 import AppDataSource from '../config/db.config';
 import { APIError } from '../utils/ApiError.utils';
 import { CartService } from '../service/cart.service';
+import { OrderService } from '../service/order.service';
 import { asyncHandler } from '../utils/asyncHandler.utils';
 import logger, { logError, logInfo } from '../config/logger.config';
 
@@ -548,26 +549,27 @@ paymentRouter.get('/notification', asyncHandler(async (req: Request, res: Respon
     // Handle payment status
     switch ((Status as string).toUpperCase()) {
         case 'SUCCESS':
-            order.paymentStatus = PaymentStatus.PAID;
-            order.status = OrderStatus.CONFIRMED;
-            await cartService.clearCart(userId); // Clear cart after successful payment
-            logInfo('Order marked as PAID', { orderId: order.id });
+            // Notifications can repeat or arrive together; only the one that flips the order to PAID deducts stock
+            if (await new OrderService().confirmPaidOrder(order.id)) {
+                await cartService.clearCart(userId); // Clear cart after successful payment
+                logInfo('Order marked as PAID', { orderId: order.id });
+            }
             break;
 
         case 'FAILED':
-        case 'CANCELLED':
-            order.paymentStatus = PaymentStatus.UNPAID;
-            order.status = OrderStatus.CANCELLED; 
-            logInfo('Order marked as UNPAID', { orderId: order.id, status: Status });
+        case 'CANCELLED': {
+            // A late failure notification must not cancel an order that was paid in the meantime
+            if (await new OrderService().cancelUnpaidOrder(order.id)) {
+                logInfo('Unpaid order cancelled', { orderId: order.id, status: Status });
+            }
             break;
+        }
 
         default:
             logInfo('Order received unknown status', { orderId: order.id, status: Status });
             break;
     }
 
-    await orderDb.save(order);
-
     res.send('received');
 }));
 
@@ -0,0 +1,527 @@
+import { Router } from 'express';
+import { ProductQuestionController } from '../controllers/productQuestion.controller';
+import { authMiddleware, isAdminOrStaff, isVendor, validateZod, vendorAuthMiddleware } from '../middlewares/auth.middleware';
+import {
+    adminQuestionQuerySchema,
+    answerQuestionSchema,
+    askQuestionSchema,
+    moderateQuestionSchema,
+    questionQuerySchema,
+} from '../utils/zod_validations/productQuestion.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const questionController = new ProductQuestionController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Product Q&A
+ *     description: Pre-purchase questions on products, answered by the vendor or by customers who bought them
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProductAnswer:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         questionId:
+ *           type: integer
+ *         answer:
+ *           type: string
+ *           example: "Yes, size 42 fits true to size."
+ *         userId:
+ *           type: integer
+ *           nullable: true
+ *           description: Set when a customer who bought the product answered
+ *         vendorId:
+ *           type: integer
+ *           nullable: true
+ *           description: Set when the vendor answered
+ *         user:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: integer
+ *             fullName:
+ *               type: string
+ *         vendor:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: integer
+ *             businessName:
+ *               type: string
+ *         status:
+ *           type: string
+ *           enum: [PUBLISHED, HIDDEN]
+ *         upvoteCount:
+ *           type: integer
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ProductQuestion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         productId:
+ *           type: integer
+ *         question:
+ *           type: string
+ *           example: "Does this fit size 42?"
+ *         user:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: integer
+ *             fullName:
+ *               type: string
+ *         status:
+ *           type: string
+ *           enum: [PUBLISHED, HIDDEN]
+ *         upvoteCount:
+ *           type: integer
+ *         answers:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProductAnswer'
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     ProductQuestionList:
+ *       type: object
+ *       properties:
+ *         questions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/ProductQuestion'
+ *         total:
+ *           type: integer
+ *         page:
+ *           type: integer
+ *         limit:
+ *           type: integer
+ *         totalPages:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/questions/products/{productId}:
+ *   get:
+ *     summary: List a product's questions with their answers
+ *     description: Only published questions and answers. Vendor answers come first, then the most upvoted.
+ *     tags:
+ *       - Product Q&A
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [helpful, newest]
+ *           default: helpful
+ *     responses:
+ *       200:
+ *         description: Paginated questions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ProductQuestionList'
+ *       404:
+ *         description: Product not found
+ */
+router.get('/products/:productId', validateZod(questionQuerySchema, 'query'), asyncHandler(questionController.getProductQuestions.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/admin:
+ *   get:
+ *     summary: List questions of all statuses for moderation
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PUBLISHED, HIDDEN]
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Questions, newest first, with all their answers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ProductQuestionList'
+ */
+router.get('/admin', authMiddleware, isAdminOrStaff, validateZod(adminQuestionQuerySchema, 'query'), asyncHandler(questionController.getQuestionsForModeration.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions:
+ *   post:
+ *     summary: Ask a question about a product
+ *     description: The vendor owning the product is notified.
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - productId
+ *               - question
+ *             properties:
+ *               productId:
+ *                 type: integer
+ *                 example: 1
+ *               question:
+ *                 type: string
+ *                 minLength: 5
+ *                 maxLength: 500
+ *                 example: "Does this fit size 42?"
+ *     responses:
+ *       201:
+ *         description: Question created
+ *       404:
+ *         description: Product not found
+ */
+router.post('/', authMiddleware, validateZod(askQuestionSchema), asyncHandler(questionController.askQuestion.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/{id}/answers:
+ *   post:
+ *     summary: Answer a question as a customer who bought the product
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answer
+ *             properties:
+ *               answer:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Answer created
+ *       403:
+ *         description: The customer has not bought the product
+ *       404:
+ *         description: Question not found
+ */
+router.post('/:id/answers', authMiddleware, validateZod(answerQuestionSchema), asyncHandler(questionController.answerAsCustomer.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/{id}/vendor-answers:
+ *   post:
+ *     summary: Answer a question about one of the vendor's products
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answer
+ *             properties:
+ *               answer:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Answer created
+ *       403:
+ *         description: The product belongs to another vendor
+ *       404:
+ *         description: Question not found
+ */
+router.post('/:id/vendor-answers', vendorAuthMiddleware, isVendor, validateZod(answerQuestionSchema), asyncHandler(questionController.answerAsVendor.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/{id}/upvote:
+ *   post:
+ *     summary: Upvote a question
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New upvote count
+ *       400:
+ *         description: Customers cannot upvote their own question
+ *       409:
+ *         description: Already upvoted
+ *   delete:
+ *     summary: Remove an upvote from a question
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New upvote count
+ *       404:
+ *         description: Not upvoted
+ */
+router.post('/:id/upvote', authMiddleware, asyncHandler(questionController.upvoteQuestion.bind(questionController)));
+router.delete('/:id/upvote', authMiddleware, asyncHandler(questionController.removeQuestionUpvote.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/answers/{answerId}/upvote:
+ *   post:
+ *     summary: Upvote an answer
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: answerId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New upvote count
+ *       400:
+ *         description: Customers cannot upvote their own answer
+ *       409:
+ *         description: Already upvoted
+ *   delete:
+ *     summary: Remove an upvote from an answer
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: answerId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New upvote count
+ *       404:
+ *         description: Not upvoted
+ */
+router.post('/answers/:answerId/upvote', authMiddleware, asyncHandler(questionController.upvoteAnswer.bind(questionController)));
+router.delete('/answers/:answerId/upvote', authMiddleware, asyncHandler(questionController.removeAnswerUpvote.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/{id}/moderate:
+ *   put:
+ *     summary: Publish or hide a question
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PUBLISHED, HIDDEN]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Question updated
+ *       404:
+ *         description: Question not found
+ */
+router.put('/:id/moderate', authMiddleware, isAdminOrStaff, validateZod(moderateQuestionSchema), asyncHandler(questionController.moderateQuestion.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/answers/{answerId}/moderate:
+ *   put:
+ *     summary: Publish or hide an answer
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: answerId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [PUBLISHED, HIDDEN]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Answer updated
+ *       404:
+ *         description: Answer not found
+ */
+router.put('/answers/:answerId/moderate', authMiddleware, isAdminOrStaff, validateZod(moderateQuestionSchema), asyncHandler(questionController.moderateAnswer.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/answers/{answerId}:
+ *   delete:
+ *     summary: Delete an answer
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: answerId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Answer deleted
+ *       404:
+ *         description: Answer not found
+ */
+router.delete('/answers/:answerId', authMiddleware, isAdminOrStaff, asyncHandler(questionController.deleteAnswer.bind(questionController)));
+
+/**
+ * @swagger
+ * /api/questions/{id}:
+ *   delete:
+ *     summary: Delete a question with its answers
+ *     tags:
+ *       - Product Q&A
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Question deleted
+ *       404:
+ *         description: Question not found
+ */
+router.delete('/:id', authMiddleware, isAdminOrStaff, asyncHandler(questionController.deleteQuestion.bind(questionController)));
+
+export default router;
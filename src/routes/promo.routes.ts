@@ -2,10 +2,82 @@
 import { Router } from "express";
 import { authMiddleware, isAdminOrStaff, validateZod } from "../middlewares/auth.middleware";
 import { PromoController } from "../controllers/promo.controller";
-import { createPromoSchema, deletePromoSchema } from "../utils/zod_validations/promo.zod";
+import { createPromoSchema, deletePromoSchema, updatePromoSchema } from "../utils/zod_validations/promo.zod";
 
 const promoRouter = Router();
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PromoRules:
+ *       type: object
+ *       properties:
+ *         promoCode:
+ *           type: string
+ *           example: SUMMER2025
+ *         discountType:
+ *           type: string
+ *           enum: [PERCENTAGE, FLAT]
+ *           default: PERCENTAGE
+ *         discountPercentage:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           description: Required for PERCENTAGE promos
+ *           example: 15
+ *         discountAmount:
+ *           type: number
+ *           description: Required for FLAT promos
+ *           example: 200
+ *         applyOn:
+ *           type: string
+ *           enum: [LINE_TOTAL, SHIPPING]
+ *           default: LINE_TOTAL
+ *         isValid:
+ *           type: boolean
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         usageLimit:
+ *           type: integer
+ *           nullable: true
+ *           description: Total redemptions allowed; null for unlimited
+ *         perUserLimit:
+ *           type: integer
+ *           nullable: true
+ *           default: 1
+ *           description: Redemptions allowed per customer; null for unlimited
+ *         minOrderValue:
+ *           type: number
+ *           nullable: true
+ *           description: Minimum order subtotal before shipping
+ *         maxDiscount:
+ *           type: number
+ *           nullable: true
+ *           description: Upper bound on the discount of one order
+ *         firstOrderOnly:
+ *           type: boolean
+ *         categoryIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         vendorIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *         productIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           description: When any scope list is set, only matching items are discounted
+ */
+
 const promoController = new PromoController();
 
 /**
@@ -95,7 +167,9 @@ promoRouter.get("/", promoController.getPromoCode.bind(promoController));
  *   post:
  *     summary: Create a new promo code
  *     description: |
- *       Create a new promo code with a unique code and discount percentage.
+ *       Create a new promo code with a unique code and either a percentage or a flat discount.
+ *       Optional rules: validity window, global and per-customer usage limits, minimum order value,
+ *       maximum discount, first-order-only and scoping to categories, vendors or products.
  *       Requires Bearer authentication.
  *       User must have admin or staff privileges.
  *     tags:
@@ -107,19 +181,10 @@ promoRouter.get("/", promoController.getPromoCode.bind(promoController));
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - promoCode
- *               - discountPercentage
- *             properties:
- *               promoCode:
- *                 type: string
- *                 example: SUMMER2025
- *               discountPercentage:
- *                 type: integer
- *                 minimum: 1
- *                 maximum: 100
- *                 example: 15
+ *             allOf:
+ *               - $ref: '#/components/schemas/PromoRules'
+ *               - required:
+ *                   - promoCode
  *     responses:
  *       201:
  *         description: Promo code created successfully.
@@ -292,4 +357,67 @@ promoRouter.post("/", authMiddleware, isAdminOrStaff, validateZod(createPromoSch
  */
 promoRouter.delete("/:id", authMiddleware, isAdminOrStaff, validateZod(deletePromoSchema, "params"), promoController.deletePromo.bind(promoController));
 
-export default promoRouter;
\ No newline at end of file
+/**
+ * @swagger
+ * /api/promo/{id}:
+ *   put:
+ *     summary: Update a promo code
+ *     description: |
+ *       Updates any promo rule. Scope lists (categoryIds, vendorIds, productIds) replace the current scope when given.
+ *       Requires Bearer authentication.
+ *       User must have admin or staff privileges.
+ *     tags:
+ *       - Promo
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PromoRules'
+ *     responses:
+ *       200:
+ *         description: Promo code updated successfully.
+ *       400:
+ *         description: Validation failed or inconsistent discount settings.
+ *       404:
+ *         description: Promo code, category, vendor or product not found.
+ *       409:
+ *         description: Another promo already uses this code.
+ */
+promoRouter.put("/:id", authMiddleware, isAdminOrStaff, validateZod(updatePromoSchema, "body"), promoController.updatePromo.bind(promoController));
+
+/**
+ * @swagger
+ * /api/promo/{id}/usage:
+ *   get:
+ *     summary: Get the usage report of a promo code
+ *     description: |
+ *       Redemption count, remaining uses, unique customers, total discount given and the latest redemptions.
+ *       Redemptions of cancelled orders are reported separately and do not count towards limits.
+ *     tags:
+ *       - Promo
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Usage report.
+ *       404:
+ *         description: Promo code not found.
+ */
+promoRouter.get("/:id/usage", authMiddleware, isAdminOrStaff, promoController.getPromoUsage.bind(promoController));
+
+export default promoRouter;
@@ -0,0 +1,350 @@
+import { Router } from 'express';
+import { ReturnController } from '../controllers/return.controller';
+import { authMiddleware, isAdmin, isAdminOrStaff, isVendor, validateZod, vendorAuthMiddleware } from '../middlewares/auth.middleware';
+import { createReturnSchema, refundReturnSchema, reviewReturnSchema } from '../utils/zod_validations/return.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const returnController = new ReturnController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Returns
+ *     description: Return (RMA) requests for delivered orders
+ */
+
+/**
+ * @swagger
+ * /api/order/returns:
+ *   post:
+ *     summary: Request a return for items of a delivered order
+ *     description: |
+ *       Items are grouped by vendor and one return request is created per vendor.
+ *       Returns must be requested within the configured return window after delivery.
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - reason
+ *               - items
+ *             properties:
+ *               orderId:
+ *                 type: integer
+ *                 example: 101
+ *               reason:
+ *                 type: string
+ *                 example: "Wrong size"
+ *               comments:
+ *                 type: string
+ *                 example: "Ordered M, received L"
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - orderItemId
+ *                     - quantity
+ *                   properties:
+ *                     orderItemId:
+ *                       type: integer
+ *                       example: 55
+ *                     quantity:
+ *                       type: integer
+ *                       example: 1
+ *     responses:
+ *       201:
+ *         description: Return request(s) created
+ *       400:
+ *         description: Order not delivered, return window expired or invalid items/quantities
+ *       404:
+ *         description: Order not found
+ */
+router.post('/', authMiddleware, validateZod(createReturnSchema), asyncHandler(returnController.createReturnRequest.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns:
+ *   get:
+ *     summary: Get the authenticated customer's return requests
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Return requests, newest first
+ */
+router.get('/', authMiddleware, asyncHandler(returnController.getCustomerReturns.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/vendor:
+ *   get:
+ *     summary: Get return requests for the authenticated vendor
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, RECEIVED, REFUNDING, REFUNDED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: Return requests for the vendor's items
+ */
+router.get('/vendor', vendorAuthMiddleware, isVendor, asyncHandler(returnController.getVendorReturns.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/vendor/{id}/review:
+ *   put:
+ *     summary: Approve or reject a return request (Vendor)
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               note:
+ *                 type: string
+ *                 example: "Please ship with original packaging"
+ *     responses:
+ *       200:
+ *         description: Return request reviewed
+ *       400:
+ *         description: Request is not awaiting review
+ *       404:
+ *         description: Return request not found
+ */
+router.put('/vendor/:id/review', vendorAuthMiddleware, isVendor, validateZod(reviewReturnSchema), asyncHandler(returnController.vendorReviewReturn.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/vendor/{id}/receive:
+ *   put:
+ *     summary: Mark returned goods as received and restock them (Vendor)
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Goods received and restocked
+ *       400:
+ *         description: Request is not approved
+ *       404:
+ *         description: Return request not found
+ */
+router.put('/vendor/:id/receive', vendorAuthMiddleware, isVendor, asyncHandler(returnController.vendorReceiveReturn.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/admin:
+ *   get:
+ *     summary: Get all return requests (Admin or Staff)
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [REQUESTED, APPROVED, REJECTED, RECEIVED, REFUNDING, REFUNDED, CANCELLED]
+ *     responses:
+ *       200:
+ *         description: Return requests, newest first
+ */
+router.get('/admin', authMiddleware, isAdminOrStaff, asyncHandler(returnController.getAllReturns.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/admin/{id}/review:
+ *   put:
+ *     summary: Approve or reject a return request (Admin or Staff)
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Return request reviewed
+ *       400:
+ *         description: Request is not awaiting review
+ *       404:
+ *         description: Return request not found
+ */
+router.put('/admin/:id/review', authMiddleware, isAdminOrStaff, validateZod(reviewReturnSchema), asyncHandler(returnController.adminReviewReturn.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/admin/{id}/receive:
+ *   put:
+ *     summary: Mark returned goods as received and restock them (Admin or Staff)
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Goods received and restocked; the order becomes RETURNED once all items are back
+ *       400:
+ *         description: Request is not approved
+ *       404:
+ *         description: Return request not found
+ */
+router.put('/admin/:id/receive', authMiddleware, isAdminOrStaff, asyncHandler(returnController.adminReceiveReturn.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/admin/{id}/refund:
+ *   post:
+ *     summary: Refund the value of received return goods (Admin)
+ *     description: >
+ *       Refunds price x quantity of the returned items, less their share of the order's promo discount,
+ *       through the order's payment channel. The request is REFUNDING while the gateway is called and goes
+ *       back to RECEIVED if the refund fails. If the gateway outcome is unknown it stays REFUNDING until the
+ *       refund is reconciled. A return is never paid out by more than one refund.
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reference:
+ *                 type: string
+ *                 description: Settlement reference for manual (cash on delivery) refunds
+ *     responses:
+ *       201:
+ *         description: Refund completed and attached to the return request
+ *       400:
+ *         description: Goods have not been received or the order cannot be refunded
+ *       404:
+ *         description: Return request not found
+ *       409:
+ *         description: The request is already being refunded, or its refund awaits reconciliation
+ *       502:
+ *         description: Gateway rejected the refund, or its outcome could not be confirmed
+ */
+router.post('/admin/:id/refund', authMiddleware, isAdmin, validateZod(refundReturnSchema), asyncHandler(returnController.refundReturn.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/{id}:
+ *   get:
+ *     summary: Get one of the customer's return requests
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Return request with items and refund
+ *       404:
+ *         description: Return request not found
+ */
+router.get('/:id', authMiddleware, asyncHandler(returnController.getCustomerReturnById.bind(returnController)));
+
+/**
+ * @swagger
+ * /api/order/returns/{id}/cancel:
+ *   put:
+ *     summary: Cancel a return request that has not been reviewed yet
+ *     tags:
+ *       - Returns
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Return request cancelled
+ *       400:
+ *         description: Request has already been reviewed
+ *       404:
+ *         description: Return request not found
+ */
+router.put('/:id/cancel', authMiddleware, asyncHandler(returnController.cancelReturnRequest.bind(returnController)));
+
+export default router;
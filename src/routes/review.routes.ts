@@ -1,17 +1,40 @@
-import { Router } from 'express';
-import { authMiddleware, canDeleteReview, canReviewProduct, validateZod } from '../middlewares/auth.middleware';
-import { createReviewSchema, updateReviewSchema } from '../utils/zod_validations/review.zod';
+import { NextFunction, Request, Response, Router } from 'express';
+import multer from 'multer';
+import { authMiddleware, canDeleteReview, canReviewProduct, isAdminOrStaff, isVendor, validateZod, vendorAuthMiddleware } from '../middlewares/auth.middleware';
+import { sanitizeInput } from '../middlewares/security/sanitize.middleware';
+import {
+    adminReviewQuerySchema,
+    createReviewSchema,
+    disputeQuerySchema,
+    moderateReviewSchema,
+    reportReviewSchema,
+    resolveDisputeSchema,
+    reviewQuerySchema,
+    updateReviewSchema,
+    vendorReplySchema,
+} from '../utils/zod_validations/review.zod';
 import { ReviewController } from '../controllers/reviews.controller';
+import { multerOptions } from '../config/multer.config';
+import { REVIEW_MODERATION } from '../config/constants';
 
 const router = Router();
 const reviewController = new ReviewController();
+const upload = multer(multerOptions);
+
+// Multipart fields are parsed after the app-wide sanitize middleware ran, so sanitize them here;
+// JSON bodies were already sanitized and must not be escaped twice
+const sanitizeMultipartBody = (req: Request, res: Response, next: NextFunction) =>
+    req.is('multipart/form-data') ? sanitizeInput(req, res, next) : next();
 
 /**
  * @swagger
  * /api/reviews:
  *   post:
  *     summary: Create a new review for a product
- *     description:  Allows an authenticated user to create a review for a product they have purchased, user can only review a product once
+ *     description: >
+ *       Allows an authenticated user to create a review for a product they have purchased, user can only review a product once.
+ *       Reviews pass an automated profanity/spam check: clean reviews are approved right away, flagged ones are PENDING
+ *       until an admin approves them. Reviews of delivered orders are marked as verified purchases.
  *     tags: [Reviews]
  *     security:
  *       - bearerAuth: []
@@ -21,27 +44,19 @@ const reviewController = new ReviewController();
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required:
- *               - productId
- *               - rating
- *               - comment
- *             properties:
- *               productId:
- *                 type: integer
- *                 example: 1
- *                 description: ID of the product being reviewed
- *               rating:
- *                 type: number
- *                 format: float
- *                 minimum: 1.0
- *                 maximum: 5.0
- *                 example: 4.5
- *                 description: Rating must be between 1.0 and 5.0 (one decimal place)
- *               comment:
- *                 type: string
- *                 maxLength: 500
- *                 example: "Great product, highly recommend!"
+ *             $ref: '#/components/schemas/CreateReview'
+ *         multipart/form-data:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/CreateReview'
+ *               - type: object
+ *                 properties:
+ *                   photos:
+ *                     type: array
+ *                     maxItems: 5
+ *                     items:
+ *                       type: string
+ *                       format: binary
  *     responses:
  *       201:
  *         description: Review created successfully
@@ -67,25 +82,216 @@ const reviewController = new ReviewController();
  *                       format: float
  *                     comment:
  *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, APPROVED]
+ *                     moderationFlags:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
+ *                         enum: [PROFANITY, SPAM]
+ *                     isVerifiedPurchase:
+ *                       type: boolean
+ *                     photos:
+ *                       type: array
+ *                       nullable: true
+ *                       items:
+ *                         type: string
  *                     createdAt:
  *                       type: string
  *                       format: date-time
  *       400:
- *         description: Validation error (e.g., missing fields or invalid rating)
+ *         description: Validation error (e.g., missing fields, invalid rating, script content or too many photos)
  *       401:
  *         description: Unauthorized (user not authenticated)
  *       500:
  *         description: Internal server error
  */
 
-router.post('/', authMiddleware, validateZod(createReviewSchema), canReviewProduct, reviewController.createReview.bind(reviewController));
+router.post('/', authMiddleware, upload.array('photos', REVIEW_MODERATION.MAX_PHOTOS), sanitizeMultipartBody, validateZod(createReviewSchema), canReviewProduct, reviewController.createReview.bind(reviewController));
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CreateReview:
+ *       type: object
+ *       required:
+ *         - productId
+ *         - rating
+ *         - comment
+ *       properties:
+ *         productId:
+ *           type: integer
+ *           example: 1
+ *           description: ID of the product being reviewed
+ *         rating:
+ *           type: number
+ *           format: float
+ *           minimum: 1.0
+ *           maximum: 5.0
+ *           example: 4.5
+ *           description: Rating must be between 1.0 and 5.0 (one decimal place)
+ *         comment:
+ *           type: string
+ *           maxLength: 500
+ *           example: "Great product, highly recommend!"
+ */
+
+/**
+ * @swagger
+ * /api/reviews/admin/queue:
+ *   get:
+ *     summary: List reviews awaiting moderation
+ *     description: Pending reviews, oldest first, with the flags raised by the content check. Other statuses can be listed too.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *           default: PENDING
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated reviews with their author and product
+ *       403:
+ *         description: Admin or staff only
+ */
+router.get('/admin/queue', authMiddleware, isAdminOrStaff, validateZod(adminReviewQuerySchema, 'query'), reviewController.getModerationQueue.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/admin/disputes:
+ *   get:
+ *     summary: List review disputes raised by vendors
+ *     description: Open disputes, oldest first, with the disputed review, its author and product, and the reporting vendor.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, UPHELD, DISMISSED]
+ *           default: OPEN
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated disputes
+ *       403:
+ *         description: Admin or staff only
+ */
+router.get('/admin/disputes', authMiddleware, isAdminOrStaff, validateZod(disputeQuerySchema, 'query'), reviewController.getDisputeQueue.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/disputes/{disputeId}/resolve:
+ *   put:
+ *     summary: Resolve a review dispute
+ *     description: Upholding a dispute rejects the review, hiding it and removing it from ratings. The vendor is notified of the outcome.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: disputeId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [UPHELD, DISMISSED]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Shown to the vendor
+ *     responses:
+ *       200:
+ *         description: Dispute resolved
+ *       400:
+ *         description: Dispute already resolved
+ *       404:
+ *         description: Dispute not found
+ */
+router.put('/disputes/:disputeId/resolve', authMiddleware, isAdminOrStaff, validateZod(resolveDisputeSchema), reviewController.resolveDispute.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/vendor/disputes:
+ *   get:
+ *     summary: List the vendor's review disputes
+ *     description: Disputes raised by the authenticated vendor, newest first, with their outcome.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [OPEN, UPHELD, DISMISSED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated disputes
+ */
+router.get('/vendor/disputes', vendorAuthMiddleware, isVendor, validateZod(disputeQuerySchema, 'query'), reviewController.getVendorDisputes.bind(reviewController));
 
 /**
  * @swagger
  * /api/reviews/{productId}:
  *   get:
  *     summary: Get all reviews and average rating for a product
- *     description: Retrieve all reviews for a given product ID along with the average rating.
+ *     description: Retrieve the approved reviews for a given product ID along with the average rating of approved reviews.
  *     tags: [Reviews]
  *     parameters:
  *       - in: path
@@ -94,6 +300,24 @@ router.post('/', authMiddleware, validateZod(createReviewSchema), canReviewProdu
  *           type: integer
  *         required: true
  *         description: ID of the product to get reviews for
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 4
+ *           maximum: 50
+ *       - in: query
+ *         name: sort
+ *         schema:
+ *           type: string
+ *           enum: [newest, helpful, rating-high, rating-low]
+ *           default: newest
+ *         description: '"helpful" sorts by most helpful votes'
  *     responses:
  *       200:
  *         description: List of reviews and average rating retrieved successfully
@@ -126,6 +350,22 @@ router.post('/', authMiddleware, validateZod(createReviewSchema), canReviewProdu
  *                             format: float
  *                           comment:
  *                             type: string
+ *                           isVerifiedPurchase:
+ *                             type: boolean
+ *                           photos:
+ *                             type: array
+ *                             nullable: true
+ *                             items:
+ *                               type: string
+ *                           helpfulCount:
+ *                             type: integer
+ *                           vendorReply:
+ *                             type: string
+ *                             nullable: true
+ *                           vendorRepliedAt:
+ *                             type: string
+ *                             format: date-time
+ *                             nullable: true
  *                           createdAt:
  *                             type: string
  *                             format: date-time
@@ -134,7 +374,183 @@ router.post('/', authMiddleware, validateZod(createReviewSchema), canReviewProdu
  *       500:
  *         description: Internal server error
  */
-router.get('/:productId', reviewController.getReviewsByProductId.bind(reviewController));
+router.get('/:productId', validateZod(reviewQuerySchema, 'query'), reviewController.getReviewsByProductId.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/{id}/moderate:
+ *   put:
+ *     summary: Approve or reject a review
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - status
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Review moderated
+ *       404:
+ *         description: Review not found
+ */
+router.put('/:id/moderate', authMiddleware, isAdminOrStaff, validateZod(moderateReviewSchema), reviewController.moderateReview.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/{id}/helpful:
+ *   post:
+ *     summary: Mark a review as helpful
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New helpful count
+ *       400:
+ *         description: Users cannot vote on their own review
+ *       409:
+ *         description: Already marked as helpful
+ *   delete:
+ *     summary: Remove a helpful vote from a review
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: New helpful count
+ *       404:
+ *         description: Not marked as helpful
+ */
+router.post('/:id/helpful', authMiddleware, reviewController.markHelpful.bind(reviewController));
+router.delete('/:id/helpful', authMiddleware, reviewController.unmarkHelpful.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/{id}/reply:
+ *   put:
+ *     summary: Reply to a review of the vendor's product
+ *     description: Adds the vendor's public reply, or replaces it if the review already has one. Only approved reviews can be replied to.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reply
+ *             properties:
+ *               reply:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       200:
+ *         description: Review with the vendor reply
+ *       400:
+ *         description: Reply contains disallowed content
+ *       403:
+ *         description: The product belongs to another vendor
+ *       404:
+ *         description: Review not found
+ *   delete:
+ *     summary: Delete the vendor's reply to a review
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Reply deleted
+ *       403:
+ *         description: The product belongs to another vendor
+ *       404:
+ *         description: Review or reply not found
+ */
+router.put('/:id/reply', vendorAuthMiddleware, isVendor, validateZod(vendorReplySchema), reviewController.replyToReview.bind(reviewController));
+router.delete('/:id/reply', vendorAuthMiddleware, isVendor, reviewController.deleteReply.bind(reviewController));
+
+/**
+ * @swagger
+ * /api/reviews/{id}/report:
+ *   post:
+ *     summary: Report a review of the vendor's product
+ *     description: Puts the review into the admin dispute queue. A review can only have one open dispute at a time.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 enum: [FAKE, OFFENSIVE, OFF_TOPIC, WRONG_PRODUCT, OTHER]
+ *               details:
+ *                 type: string
+ *                 maxLength: 1000
+ *     responses:
+ *       201:
+ *         description: Dispute opened
+ *       403:
+ *         description: The product belongs to another vendor
+ *       409:
+ *         description: The review already has an open dispute
+ */
+router.post('/:id/report', vendorAuthMiddleware, isVendor, validateZod(reportReviewSchema), reviewController.reportReview.bind(reviewController));
 
 router.patch("/:id", authMiddleware, validateZod(updateReviewSchema, "body"), reviewController.updateProductReview.bind(reviewController))
 
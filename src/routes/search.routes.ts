@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/search.controller';
+import { validateZod } from '../middlewares/auth.middleware';
+import { searchSuggestionQuerySchema } from '../utils/zod_validations/search.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const searchController = new SearchController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Search
+ *     description: Search autocomplete
+ */
+
+/**
+ * @swagger
+ * /api/search/suggestions:
+ *   get:
+ *     summary: Autocomplete suggestions for a partial query
+ *     description: >
+ *       Returns matching product names, categories, subcategories, brands and vendors in separate sections.
+ *       Names starting with the query come first, then similar names (typos included); more popular
+ *       entries rank higher. Results are cached for a few minutes, so this can be called on every keystroke.
+ *       Use GET /api/categories/all/products?search= for full results.
+ *     tags:
+ *       - Search
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *           minLength: 2
+ *           maxLength: 100
+ *         example: "sams"
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 5
+ *           maximum: 10
+ *         description: Suggestions per section
+ *     responses:
+ *       200:
+ *         description: Suggestions grouped by section
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     query:
+ *                       type: string
+ *                     products:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *                           image:
+ *                             type: string
+ *                             nullable: true
+ *                           sold:
+ *                             type: integer
+ *                     categories:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *                           image:
+ *                             type: string
+ *                             nullable: true
+ *                     subcategories:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           name:
+ *                             type: string
+ *                           image:
+ *                             type: string
+ *                             nullable: true
+ *                           categoryId:
+ *                             type: integer
+ *                           categoryName:
+ *                             type: string
+ *                     brands:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Brand'
+ *                     vendors:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           id:
+ *                             type: integer
+ *                           businessName:
+ *                             type: string
+ *       400:
+ *         description: Query missing or too short
+ */
+router.get('/suggestions', validateZod(searchSuggestionQuerySchema, 'query'), asyncHandler(searchController.getSuggestions.bind(searchController)));
+
+export default router;
@@ -0,0 +1,259 @@
+import { Router } from 'express';
+import { SettlementController } from '../controllers/settlement.controller';
+import { authMiddleware, isAdmin, isAdminOrStaff, validateZod } from '../middlewares/auth.middleware';
+import {
+    createCommissionRateSchema,
+    markPayoutPaidSchema,
+    payoutBatchQuerySchema,
+    updateCommissionRateSchema,
+} from '../utils/zod_validations/settlement.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const settlementController = new SettlementController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Settlements
+ *     description: Vendor commission rates, payout batches and payouts
+ */
+
+/**
+ * @swagger
+ * /api/settlements/commission-rates:
+ *   get:
+ *     summary: List commission rates
+ *     description: >
+ *       Commission is resolved per sale: a vendor and category rate wins over a vendor-wide rate,
+ *       which wins over a category rate. Sales matching none use the default rate (DEFAULT_COMMISSION_RATE, 10% if unset).
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Commission rates with their vendor and category
+ *   post:
+ *     summary: Create a commission rate
+ *     description: Applies to sales credited from now on; existing ledger entries keep the rate they were charged.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rate]
+ *             properties:
+ *               vendorId:
+ *                 type: integer
+ *                 nullable: true
+ *               categoryId:
+ *                 type: integer
+ *                 nullable: true
+ *               rate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 example: 12.5
+ *                 description: Percentage of the item total
+ *     responses:
+ *       201:
+ *         description: Commission rate created
+ *       400:
+ *         description: Neither vendor nor category given
+ *       404:
+ *         description: Vendor or category not found
+ *       409:
+ *         description: A rate already exists for this vendor and category
+ */
+router.get('/commission-rates', authMiddleware, isAdminOrStaff, asyncHandler(settlementController.getCommissionRates.bind(settlementController)));
+router.post('/commission-rates', authMiddleware, isAdmin, validateZod(createCommissionRateSchema), asyncHandler(settlementController.createCommissionRate.bind(settlementController)));
+
+/**
+ * @swagger
+ * /api/settlements/commission-rates/{id}:
+ *   put:
+ *     summary: Change a commission rate
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [rate]
+ *             properties:
+ *               rate:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *     responses:
+ *       200:
+ *         description: Commission rate updated
+ *       404:
+ *         description: Commission rate not found
+ *   delete:
+ *     summary: Delete a commission rate
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Commission rate deleted
+ *       404:
+ *         description: Commission rate not found
+ */
+router.put('/commission-rates/:id', authMiddleware, isAdmin, validateZod(updateCommissionRateSchema), asyncHandler(settlementController.updateCommissionRate.bind(settlementController)));
+router.delete('/commission-rates/:id', authMiddleware, isAdmin, asyncHandler(settlementController.deleteCommissionRate.bind(settlementController)));
+
+/**
+ * @swagger
+ * /api/settlements/batches:
+ *   get:
+ *     summary: List payout batches
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, PAID]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated payout batches, newest first
+ *   post:
+ *     summary: Generate a payout batch now
+ *     description: >
+ *       Batches are generated automatically every payout cycle (PAYOUT_CYCLE, weekly or biweekly).
+ *       This settles every vendor balance that is out of the return window and at least MIN_PAYOUT_AMOUNT.
+ *       Vendors without bank details keep their balance until they add them.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Payout batch generated
+ *       200:
+ *         description: No vendor balance is due; data is null
+ */
+router.get('/batches', authMiddleware, isAdminOrStaff, validateZod(payoutBatchQuerySchema, 'query'), asyncHandler(settlementController.getPayoutBatches.bind(settlementController)));
+router.post('/batches', authMiddleware, isAdmin, asyncHandler(settlementController.generatePayoutBatch.bind(settlementController)));
+
+/**
+ * @swagger
+ * /api/settlements/batches/{id}:
+ *   get:
+ *     summary: Get a payout batch with its payouts
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Batch with one payout per vendor, including the bank details to transfer to
+ *       404:
+ *         description: Payout batch not found
+ */
+router.get('/batches/:id', authMiddleware, isAdminOrStaff, asyncHandler(settlementController.getPayoutBatchById.bind(settlementController)));
+
+/**
+ * @swagger
+ * /api/settlements/batches/{id}/approve:
+ *   put:
+ *     summary: Approve a payout batch
+ *     description: Approves every payout in the batch for transfer.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Batch approved
+ *       400:
+ *         description: Batch is not pending
+ *       404:
+ *         description: Payout batch not found
+ */
+router.put('/batches/:id/approve', authMiddleware, isAdmin, asyncHandler(settlementController.approvePayoutBatch.bind(settlementController)));
+
+/**
+ * @swagger
+ * /api/settlements/payouts/{id}/paid:
+ *   put:
+ *     summary: Mark a payout as paid
+ *     description: Records the bank transfer reference. The batch is marked as paid once all its payouts are.
+ *     tags: [Settlements]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reference]
+ *             properties:
+ *               reference:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "NIBL-TXN-20241216-0042"
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *     responses:
+ *       200:
+ *         description: Payout marked as paid
+ *       400:
+ *         description: Payout is not approved or already paid
+ *       404:
+ *         description: Payout not found
+ */
+router.put('/payouts/:id/paid', authMiddleware, isAdmin, validateZod(markPayoutPaidSchema), asyncHandler(settlementController.markPayoutPaid.bind(settlementController)));
+
+export default router;
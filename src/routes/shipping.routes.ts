@@ -0,0 +1,341 @@
+import { Router } from 'express';
+import { ShippingController } from '../controllers/shipping.controller';
+import { authMiddleware, isAdmin, isAdminOrStaff, validateZod } from '../middlewares/auth.middleware';
+import {
+    createShippingVendorRateSchema,
+    createShippingZoneSchema,
+    shippingQuoteSchema,
+    updateShippingVendorRateSchema,
+    updateShippingZoneSchema,
+} from '../utils/zod_validations/shipping.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const shippingController = new ShippingController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Shipping
+ *     description: Shipping zones, vendor rate overrides and shipping quotes
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ShippingZoneInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Kathmandu Valley"
+ *         description:
+ *           type: string
+ *         districtIds:
+ *           type: array
+ *           items:
+ *             type: integer
+ *           example: [1, 2, 3]
+ *         provinces:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [Province 1, Madhesh, Bagmati, Gandaki, Lumbini, Karnali, Sudurpashchim]
+ *         baseFee:
+ *           type: number
+ *           example: 200
+ *         localFee:
+ *           type: number
+ *           nullable: true
+ *           description: Used instead of baseFee when the vendor is inside the zone
+ *           example: 100
+ *         perKgFee:
+ *           type: number
+ *           example: 20
+ *         perItemFee:
+ *           type: number
+ *           description: Charged for each item after the first in a vendor shipment
+ *           example: 10
+ *         freeShippingThreshold:
+ *           type: number
+ *           nullable: true
+ *           description: Vendor subtotal from which the shipment ships free
+ *           example: 5000
+ *         isActive:
+ *           type: boolean
+ *     ShippingVendorRateInput:
+ *       type: object
+ *       description: Null or omitted fees fall back to the zone value
+ *       properties:
+ *         baseFee:
+ *           type: number
+ *           nullable: true
+ *         localFee:
+ *           type: number
+ *           nullable: true
+ *         perKgFee:
+ *           type: number
+ *           nullable: true
+ *         perItemFee:
+ *           type: number
+ *           nullable: true
+ *         freeShippingThreshold:
+ *           type: number
+ *           nullable: true
+ */
+
+/**
+ * @swagger
+ * /api/shipping/quote:
+ *   post:
+ *     summary: Quote the shipping fee for items going to an address
+ *     description: |
+ *       Every vendor is charged its own surcharges; the base fee is charged once per vendor district.
+ *       The destination zone is matched by district first, then by province;
+ *       destinations outside every zone use the default fees.
+ *     tags: [Shipping]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [address, items]
+ *             properties:
+ *               address:
+ *                 type: object
+ *                 required: [district]
+ *                 properties:
+ *                   district:
+ *                     type: string
+ *                     example: "Kathmandu"
+ *                   province:
+ *                     type: string
+ *                     example: "Bagmati"
+ *               items:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [productId, quantity]
+ *                   properties:
+ *                     productId:
+ *                       type: integer
+ *                       example: 12
+ *                     variantId:
+ *                       type: integer
+ *                     quantity:
+ *                       type: integer
+ *                       example: 2
+ *     responses:
+ *       200:
+ *         description: Total shipping fee with per-vendor breakdown
+ *       400:
+ *         description: Validation error or vendor without address
+ *       404:
+ *         description: Product or variant not found
+ */
+router.post('/quote', validateZod(shippingQuoteSchema), asyncHandler(shippingController.getQuote.bind(shippingController)));
+
+/**
+ * @swagger
+ * /api/shipping/zones:
+ *   get:
+ *     summary: Get all shipping zones
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: List of shipping zones with their districts
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - admin or staff only
+ *   post:
+ *     summary: Create a shipping zone
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ShippingZoneInput'
+ *               - required: [name, baseFee]
+ *     responses:
+ *       201:
+ *         description: Shipping zone created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: District not found
+ *       409:
+ *         description: Shipping zone already exists
+ */
+router.get('/zones', authMiddleware, isAdminOrStaff, asyncHandler(shippingController.getZones.bind(shippingController)));
+router.post('/zones', authMiddleware, isAdminOrStaff, validateZod(createShippingZoneSchema), asyncHandler(shippingController.createZone.bind(shippingController)));
+
+/**
+ * @swagger
+ * /api/shipping/zones/{id}:
+ *   get:
+ *     summary: Get a shipping zone with its districts and vendor overrides
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Shipping zone
+ *       404:
+ *         description: Shipping zone not found
+ *   put:
+ *     summary: Update a shipping zone
+ *     description: districtIds and provinces replace the current members when given.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingZoneInput'
+ *     responses:
+ *       200:
+ *         description: Shipping zone updated
+ *       404:
+ *         description: Shipping zone or district not found
+ *       409:
+ *         description: Another zone has the same name
+ *   delete:
+ *     summary: Delete a shipping zone and its vendor overrides
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Shipping zone deleted
+ *       403:
+ *         description: Forbidden - admin only
+ *       404:
+ *         description: Shipping zone not found
+ */
+router.get('/zones/:id', authMiddleware, isAdminOrStaff, asyncHandler(shippingController.getZoneById.bind(shippingController)));
+router.put('/zones/:id', authMiddleware, isAdminOrStaff, validateZod(updateShippingZoneSchema), asyncHandler(shippingController.updateZone.bind(shippingController)));
+router.delete('/zones/:id', authMiddleware, isAdmin, asyncHandler(shippingController.deleteZone.bind(shippingController)));
+
+/**
+ * @swagger
+ * /api/shipping/vendor-rates:
+ *   get:
+ *     summary: Get vendor shipping overrides
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vendorId
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of vendor overrides with their zone
+ *   post:
+ *     summary: Create a vendor shipping override
+ *     description: With zoneId the override applies to that zone only; without it, to every destination.
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ShippingVendorRateInput'
+ *               - type: object
+ *                 required: [vendorId]
+ *                 properties:
+ *                   vendorId:
+ *                     type: integer
+ *                   zoneId:
+ *                     type: integer
+ *                     nullable: true
+ *     responses:
+ *       201:
+ *         description: Vendor override created
+ *       404:
+ *         description: Vendor or zone not found
+ *       409:
+ *         description: Override already exists for this vendor and zone
+ */
+router.get('/vendor-rates', authMiddleware, isAdminOrStaff, asyncHandler(shippingController.getVendorRates.bind(shippingController)));
+router.post('/vendor-rates', authMiddleware, isAdminOrStaff, validateZod(createShippingVendorRateSchema), asyncHandler(shippingController.createVendorRate.bind(shippingController)));
+
+/**
+ * @swagger
+ * /api/shipping/vendor-rates/{id}:
+ *   put:
+ *     summary: Update the fees of a vendor shipping override
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ShippingVendorRateInput'
+ *     responses:
+ *       200:
+ *         description: Vendor override updated
+ *       404:
+ *         description: Override not found
+ *   delete:
+ *     summary: Delete a vendor shipping override
+ *     tags: [Shipping]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Vendor override deleted
+ *       404:
+ *         description: Override not found
+ */
+router.put('/vendor-rates/:id', authMiddleware, isAdminOrStaff, validateZod(updateShippingVendorRateSchema), asyncHandler(shippingController.updateVendorRate.bind(shippingController)));
+router.delete('/vendor-rates/:id', authMiddleware, isAdmin, asyncHandler(shippingController.deleteVendorRate.bind(shippingController)));
+
+export default router;
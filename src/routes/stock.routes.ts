@@ -0,0 +1,230 @@
+import { Router } from 'express';
+import { StockController } from '../controllers/stock.controller';
+import { combinedAuthMiddleware, requireAdminStaffOrVendor, validateZod } from '../middlewares/auth.middleware';
+import { stockMovementQuerySchema, stockReconciliationQuerySchema } from '../utils/zod_validations/stock.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const stockController = new StockController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Stock
+ *     description: Stock movement ledger and reconciliation
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockMovement:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         productId:
+ *           type: integer
+ *         variantId:
+ *           type: integer
+ *           nullable: true
+ *         delta:
+ *           type: integer
+ *           description: Change in stock; negative for sales
+ *           example: -2
+ *         balanceAfter:
+ *           type: integer
+ *           description: Stock of the product or variant right after this movement
+ *           example: 18
+ *         reason:
+ *           type: string
+ *           enum: [SALE, CANCELLATION, RETURN, ADJUSTMENT, IMPORT, OPENING_BALANCE]
+ *         orderId:
+ *           type: integer
+ *           nullable: true
+ *         note:
+ *           type: string
+ *           nullable: true
+ *         actorUser:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: integer
+ *             fullName:
+ *               type: string
+ *             role:
+ *               type: string
+ *         actorVendor:
+ *           type: object
+ *           nullable: true
+ *           properties:
+ *             id:
+ *               type: integer
+ *             businessName:
+ *               type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/stock/products/{productId}/movements:
+ *   get:
+ *     summary: Get the stock movement history of a product
+ *     description: Newest first. Vendors can only view their own products.
+ *     tags:
+ *       - Stock
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: productId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *       - in: query
+ *         name: variantId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: reason
+ *         schema:
+ *           type: string
+ *           enum: [SALE, CANCELLATION, RETURN, ADJUSTMENT, IMPORT, OPENING_BALANCE]
+ *     responses:
+ *       200:
+ *         description: Current stock and a page of movements
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     product:
+ *                       type: object
+ *                     movements:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/StockMovement'
+ *                     total:
+ *                       type: integer
+ *                     page:
+ *                       type: integer
+ *                     limit:
+ *                       type: integer
+ *                     totalPages:
+ *                       type: integer
+ *       400:
+ *         description: Invalid product ID or query
+ *       403:
+ *         description: Admin, staff or vendor access required
+ *       404:
+ *         description: Product not found
+ */
+router.get(
+    '/products/:productId/movements',
+    combinedAuthMiddleware,
+    requireAdminStaffOrVendor,
+    validateZod(stockMovementQuerySchema, 'query'),
+    asyncHandler(stockController.getProductMovements.bind(stockController))
+);
+
+/**
+ * @swagger
+ * /api/stock/reconciliation:
+ *   get:
+ *     summary: Compare current stock with the stock ledger
+ *     description: |
+ *       Returns one row per non-variant product and per variant with its current stock,
+ *       the sum of its ledger movements and the difference. A non-zero difference means
+ *       stock was changed outside the ledger. Vendors always get their own products only.
+ *     tags:
+ *       - Stock
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: vendorId
+ *         description: Admin and staff only
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: productId
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: mismatchedOnly
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Reconciliation report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     generatedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     checked:
+ *                       type: integer
+ *                     mismatched:
+ *                       type: integer
+ *                     rows:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           productId:
+ *                             type: integer
+ *                           productName:
+ *                             type: string
+ *                           vendorId:
+ *                             type: integer
+ *                           variantId:
+ *                             type: integer
+ *                             nullable: true
+ *                           sku:
+ *                             type: string
+ *                             nullable: true
+ *                           currentStock:
+ *                             type: integer
+ *                           ledgerStock:
+ *                             type: integer
+ *                           difference:
+ *                             type: integer
+ *       403:
+ *         description: Admin, staff or vendor access required
+ */
+router.get(
+    '/reconciliation',
+    combinedAuthMiddleware,
+    requireAdminStaffOrVendor,
+    validateZod(stockReconciliationQuerySchema, 'query'),
+    asyncHandler(stockController.getReconciliation.bind(stockController))
+);
+
+export default router;
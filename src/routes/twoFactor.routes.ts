@@ -0,0 +1,298 @@
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { TwoFactorController } from '../controllers/twoFactor.controller';
+import { authMiddleware, combinedAuthMiddleware, isAdmin, validateZod } from '../middlewares/auth.middleware';
+import {
+    twoFactorChallengeSchema,
+    twoFactorCodeSchema,
+    twoFactorConfirmSchema,
+    twoFactorLoginSchema,
+} from '../utils/zod_validations/twoFactor.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const twoFactorController = new TwoFactorController();
+
+const twoFactorLoginLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10, // Limit each IP to 10 second-step requests per window
+    message: 'Too many requests, please try again later.',
+});
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Two-Factor Authentication
+ *     description: >
+ *       TOTP two-factor for admin, staff and vendor accounts. Required for admins and staff, optional for vendors.
+ *       When it applies, POST /api/auth/admin/login, /api/auth/login and /api/vendors/login answer a correct password
+ *       with { twoFactorRequired: true, challengeToken, enrollmentRequired, methods } instead of a session;
+ *       the session is issued by POST /api/auth/2fa/login/verify.
+ */
+
+/**
+ * @swagger
+ * /api/auth/2fa/login/verify:
+ *   post:
+ *     summary: Complete a login with a second factor
+ *     description: >
+ *       Accepts a code from the authenticator app (totp), an unused recovery code (recovery) or a code sent by
+ *       POST /login/email-code (email). Responds like the login that issued the challenge, with its token and cookie.
+ *       When the login required enrollment, the first app code turns two-factor on and the response also contains
+ *       recoveryCodes, shown only once. Five wrong codes lock the second step for 15 minutes.
+ *       Each code and each challenge token can complete one login only.
+ *     tags: [Two-Factor Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken, method, code]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               method:
+ *                 type: string
+ *                 enum: [totp, recovery, email]
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Logged in
+ *       401:
+ *         description: Invalid or already used code, or the challenge expired or was already used (log in again)
+ *       429:
+ *         description: Too many invalid codes
+ */
+router.post('/login/verify', twoFactorLoginLimiter, validateZod(twoFactorLoginSchema), asyncHandler(twoFactorController.verifyLogin.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/login/email-code:
+ *   post:
+ *     summary: Email a login code
+ *     description: >
+ *       Fallback for when the authenticator app is not at hand. Sends a 6-digit code valid for 10 minutes to the
+ *       account's email; use it with method "email". Only for accounts that have two-factor enabled.
+ *     tags: [Two-Factor Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *       400:
+ *         description: Two-factor is not enabled yet
+ *       429:
+ *         description: A code was sent less than a minute ago, or the second step is locked
+ */
+router.post('/login/email-code', twoFactorLoginLimiter, validateZod(twoFactorChallengeSchema), asyncHandler(twoFactorController.sendLoginEmailCode.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/login/enroll:
+ *   post:
+ *     summary: Set up two-factor during login
+ *     description: >
+ *       For admin and staff logins answered with enrollmentRequired. Returns a secret and an otpauth:// URI to show as
+ *       a QR code; finish with POST /login/verify and the first code from the app.
+ *     tags: [Two-Factor Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [challengeToken]
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI
+ *       409:
+ *         description: Two-factor is already enabled
+ */
+router.post('/login/enroll', twoFactorLoginLimiter, validateZod(twoFactorChallengeSchema), asyncHandler(twoFactorController.startLoginEnrollment.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Get two-factor status
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether two-factor is enabled or required, and how many recovery codes are left
+ *       403:
+ *         description: Customer account
+ */
+router.get('/', combinedAuthMiddleware, asyncHandler(twoFactorController.getStatus.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: >
+ *       Returns a new secret and an otpauth:// URI to show as a QR code. Two-factor is not on until
+ *       POST /enroll/confirm; starting again replaces the secret.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and provisioning URI
+ *       409:
+ *         description: Two-factor is already enabled
+ */
+router.post('/enroll', combinedAuthMiddleware, asyncHandler(twoFactorController.startEnrollment.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/enroll/confirm:
+ *   post:
+ *     summary: Confirm two-factor enrollment
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [code]
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Two-factor enabled; data.recoveryCodes is shown only once
+ *       400:
+ *         description: Invalid code, or enrollment was not started
+ */
+router.post('/enroll/confirm', combinedAuthMiddleware, validateZod(twoFactorConfirmSchema), asyncHandler(twoFactorController.confirmEnrollment.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Regenerate recovery codes
+ *     description: Replaces all recovery codes; the old ones stop working.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [method, code]
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [totp, recovery]
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New recovery codes, shown only once
+ *       401:
+ *         description: Invalid code
+ */
+router.post('/recovery-codes', combinedAuthMiddleware, validateZod(twoFactorCodeSchema), asyncHandler(twoFactorController.regenerateRecoveryCodes.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   delete:
+ *     summary: Disable two-factor
+ *     description: Vendors only; admins and staff cannot turn two-factor off.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [method, code]
+ *             properties:
+ *               method:
+ *                 type: string
+ *                 enum: [totp, recovery]
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Two-factor disabled
+ *       401:
+ *         description: Invalid code
+ *       403:
+ *         description: Two-factor is required for the account
+ */
+router.delete('/', combinedAuthMiddleware, validateZod(twoFactorCodeSchema), asyncHandler(twoFactorController.disable.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/users/{id}:
+ *   delete:
+ *     summary: Reset a user's two-factor
+ *     description: >
+ *       For users who lost both their device and recovery codes. Admins and staff set two-factor up again at their
+ *       next login.
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Two-factor reset
+ *       404:
+ *         description: The user has no two-factor
+ */
+router.delete('/users/:id', authMiddleware, isAdmin, asyncHandler(twoFactorController.resetUser.bind(twoFactorController)));
+
+/**
+ * @swagger
+ * /api/auth/2fa/vendors/{id}:
+ *   delete:
+ *     summary: Reset a vendor's two-factor
+ *     tags: [Two-Factor Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Two-factor reset
+ *       404:
+ *         description: The vendor has no two-factor
+ */
+router.delete('/vendors/:id', authMiddleware, isAdmin, asyncHandler(twoFactorController.resetVendor.bind(twoFactorController)));
+
+export default router;
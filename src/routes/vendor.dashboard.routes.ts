@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { VendorDashboardController } from "../controllers/vendor.dashboard.controller";
-import { isVendor, vendorAuthMiddleware } from "../middlewares/auth.middleware";
+import { isVendor, validateZod, vendorAuthMiddleware } from "../middlewares/auth.middleware";
+import { statementQuerySchema, vendorPayoutQuerySchema } from "../utils/zod_validations/settlement.zod";
 
 const vendorDashboardController = new VendorDashboardController();
 const vendorDashBoardRouter = Router();
@@ -378,4 +379,148 @@ vendorDashBoardRouter.get("/analytics/revenue-by-sub-category", vendorAuthMiddle
 vendorDashBoardRouter.get("/analytics/sales-trend", vendorAuthMiddleware, vendorDashboardController.getSalesTrend.bind(vendorDashboardController));
 
 
+/**
+ * @swagger
+ * /api/vendor/dashboard/balance:
+ *   get:
+ *     summary: Get vendor settlement balance
+ *     description: |
+ *       Delivered sales are credited less commission; refunded returns are debited.
+ *       Sales are held until the return window closes, then paid out in the next payout cycle.
+ *     tags:
+ *       - Vendor Dashboard
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Successfully retrieved balance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     available:
+ *                       type: number
+ *                       description: Settled in the next payout cycle
+ *                     onHold:
+ *                       type: number
+ *                       description: Sales still within the return window
+ *                     nextReleaseAt:
+ *                       type: string
+ *                       format: date-time
+ *                       nullable: true
+ *                     inPayout:
+ *                       type: number
+ *                       description: In generated payouts not yet paid
+ *                     paidOut:
+ *                       type: number
+ *                     lifetime:
+ *                       type: object
+ *                       properties:
+ *                         grossSales:
+ *                           type: number
+ *                         commission:
+ *                           type: number
+ *                         refunds:
+ *                           type: number
+ *                     payoutCycle:
+ *                       type: string
+ *                       enum: [weekly, biweekly]
+ *                     minPayoutAmount:
+ *                       type: number
+ *                     bankDetailsComplete:
+ *                       type: boolean
+ *                       description: Payouts are only generated once bank details are complete
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+vendorDashBoardRouter.get("/balance", vendorAuthMiddleware, isVendor, vendorDashboardController.getBalance.bind(vendorDashboardController));
+
+
+/**
+ * @swagger
+ * /api/vendor/dashboard/statement:
+ *   get:
+ *     summary: Get vendor settlement statement
+ *     description: Ledger entries (sales, commission, refunds) in a date range, newest first, with totals per entry type.
+ *     tags:
+ *       - Vendor Dashboard
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [SALE, COMMISSION, REFUND, COMMISSION_REFUND]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated entries with the payout that settled each, and a summary per entry type
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+vendorDashBoardRouter.get("/statement", vendorAuthMiddleware, isVendor, validateZod(statementQuerySchema, 'query'), vendorDashboardController.getStatement.bind(vendorDashboardController));
+
+
+/**
+ * @swagger
+ * /api/vendor/dashboard/payouts:
+ *   get:
+ *     summary: Get vendor payouts
+ *     tags:
+ *       - Vendor Dashboard
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, PAID]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated payouts, newest first, with the bank transfer reference once paid
+ *       401:
+ *         description: Unauthorized - Invalid or missing token
+ */
+vendorDashBoardRouter.get("/payouts", vendorAuthMiddleware, isVendor, validateZod(vendorPayoutQuerySchema, 'query'), vendorDashboardController.getPayouts.bind(vendorDashboardController));
+
+
 export default vendorDashBoardRouter;
\ No newline at end of file
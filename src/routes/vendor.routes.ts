@@ -14,6 +14,10 @@ import rateLimit from 'express-rate-limit';
 import { validateZod } from '../middlewares/auth.middleware';
 import { ProductController } from '../controllers/product.controller';
 import AppDataSource from '../config/db.config';
+import { ProductImportController } from '../controllers/productImport.controller';
+import { productImportSchema } from '../utils/zod_validations/productImport.zod';
+import { multerOptions } from '../config/multer.config';
+import multer from 'multer';
 
 const authRateLimiter = rateLimit({
     windowMs: 15 * 60 * 1000, // 15 minutes
@@ -24,6 +28,8 @@ const authRateLimiter = rateLimit({
 const router = Router();
 const vendorController = new VendorController(AppDataSource);
 const productController = new ProductController(AppDataSource);
+const productImportController = new ProductImportController();
+const importUpload = multer(multerOptions);
 
 /**
  * @swagger
@@ -339,6 +345,191 @@ router.get("/unapprove/list", authMiddleware, isAdminOrStaff, vendorController.g
  */
 router.get('/:vendorId/products/export', productController.exportVendorProductsToExcel.bind(productController));
 
+/**
+ * @swagger
+ * /api/vendors/{vendorId}/products/import:
+ *   post:
+ *     summary: Bulk import products from Excel or CSV
+ *     description: |
+ *       Upload an .xlsx or .csv file in the product export layout. A row with a Name is a product;
+ *       rows below it with only SKU, Attributes ("color: White; size: L"), Variant Price, Variant Stock
+ *       and Variant Images are its variants. New products need a Subcategory ID, and non-variant products
+ *       need Base Price, Stock and Images (comma separated URLs).
+ *
+ *       Every product is validated with the product rules and reported per row. With `upsert`, products
+ *       matched by ID or by variant SKU are updated instead of rejected. With `dryRun`, nothing is saved.
+ *       Files with more rows than the background threshold are imported as a job (202); poll the job for its report.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: ID of the authenticated vendor
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *               dryRun:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 default: "false"
+ *               upsert:
+ *                 type: string
+ *                 enum: ["true", "false"]
+ *                 default: "false"
+ *     responses:
+ *       200:
+ *         description: Import report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ProductImportReport'
+ *       202:
+ *         description: Import queued as a background job
+ *       400:
+ *         description: Missing, unreadable, empty or too large file
+ *       403:
+ *         description: Importing into another vendor's account
+ */
+router.post(
+    '/:vendorId/products/import',
+    vendorAuthMiddleware,
+    isVendor,
+    importUpload.single('file'),
+    validateZod(productImportSchema),
+    productImportController.importProducts.bind(productImportController)
+);
+
+/**
+ * @swagger
+ * /api/vendors/{vendorId}/products/import/{jobId}:
+ *   get:
+ *     summary: Get a background product import job
+ *     description: Status of the job, and its report once completed.
+ *     tags: [Vendors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Import job
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     id:
+ *                       type: integer
+ *                     fileName:
+ *                       type: string
+ *                     dryRun:
+ *                       type: boolean
+ *                     upsert:
+ *                       type: boolean
+ *                     status:
+ *                       type: string
+ *                       enum: [PENDING, PROCESSING, COMPLETED, FAILED]
+ *                     totalRows:
+ *                       type: integer
+ *                     report:
+ *                       $ref: '#/components/schemas/ProductImportReport'
+ *                     failureReason:
+ *                       type: string
+ *                       nullable: true
+ *       404:
+ *         description: Import job not found
+ */
+router.get(
+    '/:vendorId/products/import/:jobId',
+    vendorAuthMiddleware,
+    isVendor,
+    productImportController.getImportJob.bind(productImportController)
+);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ProductImportReport:
+ *       type: object
+ *       properties:
+ *         dryRun:
+ *           type: boolean
+ *         totalRows:
+ *           type: integer
+ *         products:
+ *           type: integer
+ *         created:
+ *           type: integer
+ *         updated:
+ *           type: integer
+ *         failed:
+ *           type: integer
+ *         results:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               row:
+ *                 type: integer
+ *                 example: 2
+ *               name:
+ *                 type: string
+ *               action:
+ *                 type: string
+ *                 enum: [CREATE, UPDATE]
+ *               productId:
+ *                 type: integer
+ *                 nullable: true
+ *               success:
+ *                 type: boolean
+ *               errors:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     row:
+ *                       type: integer
+ *                       example: 4
+ *                     field:
+ *                       type: string
+ *                       example: "Variant Price"
+ *                     message:
+ *                       type: string
+ */
+
 /**
  * @swagger
  * /api/vendors/{vendorId}/products:
@@ -1302,7 +1493,10 @@ router.put('/:id', combinedAuthMiddleware, restrictToVendorOrAdmin, validateZod(
  * /api/vendors/approve/{id}:
  *   put:
  *     summary: Approve a vendor
- *     description: Approves a verified vendor. Only accessible by admin or staff. Vendor must be verified before approval.
+ *     description: >
+ *       Approves a verified vendor. Only accessible by admin or staff. Vendor must be verified before approval,
+ *       and their tax documents, cheque photo and any citizenship documents must be approved in the KYC review
+ *       (see /api/vendors/kyc). The approval is recorded in the vendor's KYC audit trail.
  *     tags:
  *       - Vendors
  *     parameters:
@@ -1327,7 +1521,7 @@ router.put('/:id', combinedAuthMiddleware, restrictToVendorOrAdmin, validateZod(
  *                   type: string
  *                   example: "Vendor approved ✅"
  *       400:
- *         description: Vendor not verified or approval failed
+ *         description: Vendor not verified, not pending, or documents missing or not approved
  *         content:
  *           application/json:
  *             schema:
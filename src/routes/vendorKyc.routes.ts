@@ -0,0 +1,285 @@
+import { Router } from 'express';
+import { VendorKycController } from '../controllers/vendorKyc.controller';
+import { authMiddleware, isAdmin, isAdminOrStaff, validateZod } from '../middlewares/auth.middleware';
+import {
+    kycQueueQuerySchema,
+    reinstateVendorSchema,
+    resubmitKycDocumentsSchema,
+    reviewKycDocumentSchema,
+    suspendVendorSchema,
+} from '../utils/zod_validations/vendorKyc.zod';
+import { asyncHandler } from '../utils/asyncHandler.utils';
+
+const router = Router();
+const vendorKycController = new VendorKycController();
+
+/**
+ * @swagger
+ * tags:
+ *   - name: Vendor KYC
+ *     description: Vendor document review, suspension and reinstatement
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     VendorKycDocument:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         vendorId:
+ *           type: integer
+ *         type:
+ *           type: string
+ *           enum: [TAX, CITIZENSHIP, CHEQUE]
+ *         status:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *         reviewerNote:
+ *           type: string
+ *           nullable: true
+ *           description: Internal note, not sent to the vendor
+ *         rejectionReason:
+ *           type: string
+ *           nullable: true
+ *         reviewedById:
+ *           type: integer
+ *           nullable: true
+ *         reviewedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         submittedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /api/vendors/kyc/queue:
+ *   get:
+ *     summary: Get documents waiting for review
+ *     description: Pending documents of verified vendors, oldest submission first, with their vendor.
+ *     tags: [Vendor KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Paginated pending documents
+ */
+router.get('/queue', authMiddleware, isAdminOrStaff, validateZod(kycQueueQuerySchema, 'query'), asyncHandler(vendorKycController.getReviewQueue.bind(vendorKycController)));
+
+/**
+ * @swagger
+ * /api/vendors/kyc/resubmit:
+ *   post:
+ *     summary: Re-upload rejected documents
+ *     description: >
+ *       Used from the link in the rejection email, as vendors cannot log in before approval.
+ *       Upload the files through /api/image first. Only rejected documents can be replaced;
+ *       they go back to the review queue.
+ *     tags: [Vendor KYC]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token]
+ *             properties:
+ *               token:
+ *                 type: string
+ *                 description: Token from the rejection email link
+ *               taxDocuments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *               citizenshipDocuments:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *               chequePhoto:
+ *                 type: string
+ *                 format: uri
+ *     responses:
+ *       200:
+ *         description: Documents submitted; returns the vendor's document reviews
+ *       400:
+ *         description: No documents given, or a document was not rejected
+ *       410:
+ *         description: Link is invalid or expired
+ */
+router.post('/resubmit', validateZod(resubmitKycDocumentsSchema), asyncHandler(vendorKycController.resubmitDocuments.bind(vendorKycController)));
+
+/**
+ * @swagger
+ * /api/vendors/kyc/{vendorId}:
+ *   get:
+ *     summary: Get a vendor's KYC file
+ *     description: The vendor's status, each document type with its files and review, and the audit trail of KYC decisions, newest first.
+ *     tags: [Vendor KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Vendor KYC file
+ *       404:
+ *         description: Vendor not found
+ */
+router.get('/:vendorId', authMiddleware, isAdminOrStaff, asyncHandler(vendorKycController.getVendorKyc.bind(vendorKycController)));
+
+/**
+ * @swagger
+ * /api/vendors/kyc/{vendorId}/documents/{type}:
+ *   put:
+ *     summary: Approve or reject a document
+ *     description: >
+ *       A rejection emails the vendor the reason and a link to re-upload, valid for 7 days.
+ *       Once all documents are approved, approve the vendor with PUT /api/vendors/approve/{id}.
+ *     tags: [Vendor KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: path
+ *         name: type
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [TAX, CITIZENSHIP, CHEQUE]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               reviewerNote:
+ *                 type: string
+ *                 maxLength: 500
+ *               rejectionReason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Required when rejecting
+ *                 example: "The PAN certificate is blurred; please upload a clear scan"
+ *     responses:
+ *       200:
+ *         description: Document reviewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/VendorKycDocument'
+ *       400:
+ *         description: Document already reviewed or invalid type
+ *       404:
+ *         description: Document not submitted
+ */
+router.put('/:vendorId/documents/:type', authMiddleware, isAdminOrStaff, validateZod(reviewKycDocumentSchema), asyncHandler(vendorKycController.reviewDocument.bind(vendorKycController)));
+
+/**
+ * @swagger
+ * /api/vendors/kyc/{vendorId}/suspend:
+ *   put:
+ *     summary: Suspend a vendor
+ *     description: The vendor can no longer log in and their products are hidden from listings, search, deals and product pages.
+ *     tags: [Vendor KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Emailed to the vendor
+ *     responses:
+ *       200:
+ *         description: Vendor suspended
+ *       400:
+ *         description: Vendor is not approved
+ *       404:
+ *         description: Vendor not found
+ */
+router.put('/:vendorId/suspend', authMiddleware, isAdmin, validateZod(suspendVendorSchema), asyncHandler(vendorKycController.suspendVendor.bind(vendorKycController)));
+
+/**
+ * @swagger
+ * /api/vendors/kyc/{vendorId}/reinstate:
+ *   put:
+ *     summary: Reinstate a suspended vendor
+ *     tags: [Vendor KYC]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: vendorId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 maxLength: 500
+ *                 description: Recorded in the audit trail
+ *     responses:
+ *       200:
+ *         description: Vendor reinstated
+ *       400:
+ *         description: Vendor is not suspended
+ *       404:
+ *         description: Vendor not found
+ */
+router.put('/:vendorId/reinstate', authMiddleware, isAdmin, validateZod(reinstateVendorSchema), asyncHandler(vendorKycController.reinstateVendor.bind(vendorKycController)));
+
+export default router;
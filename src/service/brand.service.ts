@@ -0,0 +1,356 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { Brand, BrandStatus } from '../entities/brand.entity';
+import { Product } from '../entities/product.entity';
+import { APIError } from '../utils/ApiError.utils';
+import { ImageUploadService } from './image.upload.service';
+import { CacheService } from '../services/cache/CacheService';
+import {
+    AdminBrandQueryInput,
+    CreateBrandInput,
+    RequestBrandInput,
+    ReviewBrandInput,
+    UpdateBrandInput,
+} from '../utils/zod_validations/brand.zod';
+
+/**
+ * Service for managing brands.
+ *
+ * Admins create, edit, verify, merge and delete brands. Vendors can request a new brand,
+ * which stays PENDING (hidden from the storefront) until an admin approves it.
+ * Public listings only show approved brands, with the number of products of each.
+ *
+ * Module: Brand Management
+ */
+export class BrandService {
+    private brandRepository: Repository<Brand>;
+    private imageUploadService: ImageUploadService;
+    private cacheService: CacheService;
+
+    constructor() {
+        this.brandRepository = AppDataSource.getRepository(Brand);
+        this.imageUploadService = new ImageUploadService();
+        this.cacheService = new CacheService();
+    }
+
+    /**
+     * Lists brands with their product counts, alphabetically.
+     * Without a status filter, the public listing only includes approved brands.
+     *
+     * @param query {AdminBrandQueryInput} - Pagination, name search, verified and (admin) status filters
+     * @param includeAllStatuses {boolean} - Admin listing: do not restrict to approved brands
+     * @returns Paginated brands
+     * @access Public | Admin
+     */
+    async getBrands(query: Partial<AdminBrandQueryInput>, includeAllStatuses = false) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const qb = this.brandRepository.createQueryBuilder('brand')
+            .loadRelationCountAndMap('brand.productCount', 'brand.products')
+            .orderBy('brand.name', 'ASC')
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (includeAllStatuses) {
+            qb.leftJoin('brand.requestedByVendor', 'requestedByVendor')
+                .addSelect(['requestedByVendor.id', 'requestedByVendor.businessName']);
+            if (query.status) {
+                qb.andWhere('brand.status = :status', { status: query.status });
+            }
+        } else {
+            qb.andWhere('brand.status = :status', { status: BrandStatus.APPROVED });
+        }
+        if (query.search) {
+            qb.andWhere('brand.name ILIKE :search', { search: `%${query.search}%` });
+        }
+        if (query.verified !== undefined) {
+            qb.andWhere('brand.isVerified = :verified', { verified: query.verified });
+        }
+
+        const [brands, total] = await qb.getManyAndCount();
+
+        return { brands, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Gets an approved brand by slug or ID, with its product count.
+     *
+     * @param idOrSlug {string} - Numeric brand ID or slug
+     * @returns {Promise<Brand>} - The brand
+     * @throws {APIError} - 404 if not found or not approved
+     * @access Public
+     */
+    async getPublicBrand(idOrSlug: string): Promise<Brand> {
+        const qb = this.brandRepository.createQueryBuilder('brand')
+            .loadRelationCountAndMap('brand.productCount', 'brand.products')
+            .where('brand.status = :status', { status: BrandStatus.APPROVED });
+
+        if (/^\d+$/.test(idOrSlug)) {
+            qb.andWhere('brand.id = :id', { id: Number(idOrSlug) });
+        } else {
+            qb.andWhere('brand.slug = :slug', { slug: idOrSlug.toLowerCase() });
+        }
+
+        const brand = await qb.getOne();
+        if (!brand) {
+            throw new APIError(404, 'Brand not found');
+        }
+        return brand;
+    }
+
+    /**
+     * Creates an approved brand.
+     *
+     * @param data {CreateBrandInput} - Name, description and verified flag
+     * @param file {Express.Multer.File} - Optional logo
+     * @returns {Promise<Brand>} - Created brand
+     * @throws {APIError} - 409 if the name is taken
+     * @access Admin | Staff
+     */
+    async createBrand(data: CreateBrandInput, file?: Express.Multer.File): Promise<Brand> {
+        await this.assertNameAvailable(data.name);
+
+        const brand = this.brandRepository.create({
+            name: data.name,
+            slug: await this.uniqueSlug(data.name),
+            description: data.description ?? null,
+            isVerified: data.isVerified ?? false,
+            status: BrandStatus.APPROVED,
+            reviewedAt: new Date(),
+        });
+
+        if (file) {
+            await this.setLogo(brand, file);
+        }
+
+        return await this.brandRepository.save(brand);
+    }
+
+    /**
+     * Updates, renames or verifies a brand. A new name also changes the slug unless one is given.
+     *
+     * @param id {number} - Brand ID
+     * @param data {UpdateBrandInput} - Fields to change
+     * @param file {Express.Multer.File} - Optional new logo; the old one is deleted
+     * @returns {Promise<Brand>} - Updated brand
+     * @throws {APIError} - 404 if not found, 409 if the name or slug is taken
+     * @access Admin | Staff
+     */
+    async updateBrand(id: number, data: UpdateBrandInput, file?: Express.Multer.File): Promise<Brand> {
+        const brand = await this.getBrandOrFail(id);
+
+        if (data.name !== undefined && data.name !== brand.name) {
+            await this.assertNameAvailable(data.name, brand.id);
+            brand.name = data.name;
+            if (data.slug === undefined) {
+                brand.slug = await this.uniqueSlug(data.name, brand.id);
+            }
+        }
+        if (data.slug !== undefined && data.slug !== brand.slug) {
+            const taken = await this.brandRepository.findOne({ where: { slug: data.slug } });
+            if (taken && taken.id !== brand.id) {
+                throw new APIError(409, `Slug "${data.slug}" is already used by another brand`);
+            }
+            brand.slug = data.slug;
+        }
+        if (data.description !== undefined) brand.description = data.description;
+        if (data.isVerified !== undefined) brand.isVerified = data.isVerified;
+
+        if (file) {
+            await this.setLogo(brand, file);
+        }
+
+        const saved = await this.brandRepository.save(brand);
+        await this.invalidateProductCaches();
+        return saved;
+    }
+
+    /**
+     * Approves or rejects a brand requested by a vendor.
+     *
+     * @param id {number} - Brand ID
+     * @param data {ReviewBrandInput} - Decision and optional note for the vendor
+     * @returns {Promise<Brand>} - Reviewed brand
+     * @throws {APIError} - 404 if not found, 400 if not pending
+     * @access Admin | Staff
+     */
+    async reviewBrand(id: number, data: ReviewBrandInput): Promise<Brand> {
+        const brand = await this.getBrandOrFail(id);
+        if (brand.status !== BrandStatus.PENDING) {
+            throw new APIError(400, `Brand is already ${brand.status}`);
+        }
+
+        brand.status = data.status;
+        brand.reviewNote = data.note ?? null;
+        brand.reviewedAt = new Date();
+
+        return await this.brandRepository.save(brand);
+    }
+
+    /**
+     * Merges a brand into another: its products move to the target and the brand is deleted.
+     *
+     * @param sourceId {number} - Brand to merge away
+     * @param targetId {number} - Brand that keeps the products
+     * @returns Target brand with its new product count and the number of products moved
+     * @throws {APIError} - 400 if both are the same or the target is not approved, 404 if either does not exist
+     * @access Admin | Staff
+     */
+    async mergeBrands(sourceId: number, targetId: number): Promise<{ brand: Brand; movedProducts: number }> {
+        if (sourceId === targetId) {
+            throw new APIError(400, 'A brand cannot be merged into itself');
+        }
+
+        const source = await this.getBrandOrFail(sourceId);
+        const target = await this.getBrandOrFail(targetId);
+        if (target.status !== BrandStatus.APPROVED) {
+            throw new APIError(400, 'Brands can only be merged into an approved brand');
+        }
+
+        const movedProducts = await AppDataSource.transaction(async (manager) => {
+            const result = await manager.update(Product, { brandId: source.id }, { brandId: target.id });
+            await manager.delete(Brand, source.id);
+            return result.affected || 0;
+        });
+
+        if (source.logoPublicId) {
+            await this.imageUploadService.deleteImage(source.logoPublicId);
+        }
+        await this.invalidateProductCaches();
+
+        return { brand: await this.getBrandWithCount(target.id), movedProducts };
+    }
+
+    /**
+     * Deletes a brand that no product uses.
+     *
+     * @param id {number} - Brand ID
+     * @throws {APIError} - 404 if not found, 400 if products still use it
+     * @access Admin | Staff
+     */
+    async deleteBrand(id: number): Promise<void> {
+        const brand = await this.getBrandWithCount(id);
+        if (brand.productCount) {
+            throw new APIError(400, `Brand has ${brand.productCount} product(s); merge it into another brand instead`);
+        }
+
+        await this.brandRepository.delete(brand.id);
+        if (brand.logoPublicId) {
+            await this.imageUploadService.deleteImage(brand.logoPublicId);
+        }
+    }
+
+    /**
+     * Records a vendor's request for a brand that does not exist yet.
+     *
+     * @param vendorId {number} - Requesting vendor
+     * @param data {RequestBrandInput} - Brand name and description
+     * @returns {Promise<Brand>} - Pending brand
+     * @throws {APIError} - 409 if a brand with this name exists or is already requested
+     * @access Vendor
+     */
+    async requestBrand(vendorId: number, data: RequestBrandInput): Promise<Brand> {
+        await this.assertNameAvailable(data.name);
+
+        return await this.brandRepository.save(this.brandRepository.create({
+            name: data.name,
+            slug: await this.uniqueSlug(data.name),
+            description: data.description ?? null,
+            status: BrandStatus.PENDING,
+            requestedByVendorId: vendorId,
+        }));
+    }
+
+    /**
+     * Brands requested by a vendor, newest first, with their review outcome.
+     *
+     * @param vendorId {number} - Vendor
+     * @returns {Promise<Brand[]>} - Requested brands
+     * @access Vendor
+     */
+    async getVendorRequests(vendorId: number): Promise<Brand[]> {
+        return await this.brandRepository.find({
+            where: { requestedByVendorId: vendorId },
+            order: { created_at: 'DESC' },
+        });
+    }
+
+    private async getBrandOrFail(id: number): Promise<Brand> {
+        const brand = await this.brandRepository.findOne({ where: { id } });
+        if (!brand) {
+            throw new APIError(404, 'Brand not found');
+        }
+        return brand;
+    }
+
+    private async getBrandWithCount(id: number): Promise<Brand> {
+        const brand = await this.brandRepository.createQueryBuilder('brand')
+            .loadRelationCountAndMap('brand.productCount', 'brand.products')
+            .where('brand.id = :id', { id })
+            .getOne();
+        if (!brand) {
+            throw new APIError(404, 'Brand not found');
+        }
+        return brand;
+    }
+
+    /**
+     * Brand names are unique regardless of case, including pending and rejected requests
+     */
+    private async assertNameAvailable(name: string, exceptId?: number): Promise<void> {
+        const existing = await this.brandRepository.createQueryBuilder('brand')
+            .where('LOWER(brand.name) = LOWER(:name)', { name })
+            .getOne();
+        if (existing && existing.id !== exceptId) {
+            throw new APIError(409, existing.status === BrandStatus.PENDING
+                ? `Brand "${existing.name}" has already been requested`
+                : `Brand "${existing.name}" already exists`);
+        }
+    }
+
+    /**
+     * URL slug from the name, suffixed with a number if already taken
+     */
+    private async uniqueSlug(name: string, exceptId?: number): Promise<string> {
+        const base = name
+            .toLowerCase()
+            .normalize('NFKD')
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-+|-+$/g, '')
+            .slice(0, 100) || 'brand';
+
+        let slug = base;
+        for (let suffix = 2; ; suffix++) {
+            const taken = await this.brandRepository.findOne({ where: { slug } });
+            if (!taken || taken.id === exceptId) return slug;
+            slug = `${base}-${suffix}`;
+        }
+    }
+
+    /**
+     * Uploads a logo and deletes the one it replaces
+     */
+    private async setLogo(brand: Brand, file: Express.Multer.File): Promise<void> {
+        const upload = await this.imageUploadService.uploadSingleImage(file, {
+            folder: 'brands',
+            width: 600,
+            height: 600,
+            format: 'png',
+            crop: 'fit',
+            publicIdPrefix: 'brand',
+        });
+
+        if (brand.logoPublicId) {
+            await this.imageUploadService.deleteImage(brand.logoPublicId);
+        }
+        brand.logo = upload.url;
+        brand.logoPublicId = upload.publicId;
+    }
+
+    // Product responses embed the brand
+    private async invalidateProductCaches(): Promise<void> {
+        await this.cacheService.invalidatePattern('product:*');
+        await this.cacheService.invalidatePattern('products:list:*');
+    }
+}
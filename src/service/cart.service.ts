@@ -7,6 +7,11 @@ import { APIError } from '../utils/ApiError.utils';
 import { ICartAddRequest, ICartRemoveRequest } from '../interface/cart.interface';
 import { DiscountType, InventoryStatus } from '../entities/product.enum';
 import { Variant } from '../entities/variant.entity';
+import { Deal } from '../entities/deal.entity';
+import { DealService } from './deal.service';
+import { StockReservationService } from './stockReservation.service';
+import { PriceHelper } from '../utils/helpers/PriceHelper';
+import { VendorStatus } from '../entities/vendorKyc.enum';
 
 /**
  * Service class for managing shopping cart operations.
@@ -17,19 +22,25 @@ export class CartService {
     private cartItemRepository: Repository<CartItem>;
     private productRepository: Repository<Product>;
     private variantRepository: Repository<Variant>;
+    private dealService: DealService;
+    private stockReservationService: StockReservationService;
 
     constructor() {
         this.cartRepository = AppDataSource.getRepository(Cart);
         this.cartItemRepository = AppDataSource.getRepository(CartItem);
         this.productRepository = AppDataSource.getRepository(Product);
         this.variantRepository = AppDataSource.getRepository(Variant);
+        this.dealService = new DealService();
+        this.stockReservationService = new StockReservationService();
     }
 
     /**
      * Adds a product to the user's cart.
      *
-     * - Validates product and stock.
-     * - Applies discounts and updates existing quantity if already in cart.
+     * - Validates product and available stock (on hand minus reservations for pending payments).
+     * - Rejects products of vendors that are not approved (KYC pending or suspended).
+     * - Applies discounts and any live deal, and updates existing quantity if already in cart.
+     * - Enforces the deal's per-customer limit and stock cap.
      * - Initializes cart if not created.
      *
      * @param userId {number} - ID of the user
@@ -48,15 +59,21 @@ export class CartService {
         // Validate product
         const product = await this.productRepository.findOne({
             where: { id: productId },
-            relations: ['variants'],
+            relations: ['variants', 'deal', 'vendor'],
         });
         if (!product) throw new APIError(404, 'Product not found');
 
+        // Only approved vendors sell; suspended or not yet approved vendors' products cannot be added
+        if (product.vendor?.status !== VendorStatus.APPROVED) {
+            throw new APIError(400, 'This product is not available from its vendor right now');
+        }
+
         let price: number;
         let name: string = product.name;
         let description: string = product.description || '';
         let image: string | null = product.productImages?.[0] ?? null;
         let cartItem: CartItem;
+        let availableStock: number;
 
         // Handle variant product
         if (variantId) {
@@ -66,11 +83,12 @@ export class CartService {
             if (!variant) throw new APIError(404, 'Variant not found');
             console.log("---------------Variant------------------")
             console.log(variant)
-            if (variant.status === 'OUT_OF_STOCK'  || variant.stock < quantity) {
-                throw new APIError(400, `Cannot add ${quantity} items; only ${variant.stock} available for this variant`);
+            availableStock = await this.stockReservationService.getAvailableStock(product, variant);
+            if (variant.status === 'OUT_OF_STOCK'  || availableStock < quantity) {
+                throw new APIError(400, `Cannot add ${quantity} items; only ${availableStock} available for this variant`);
             }
 
-            price = this.calculateDiscountedPrice(variant.basePrice, variant.discount || 0, variant.discountType || DiscountType.PERCENTAGE);
+            price = this.calculateDiscountedPrice(variant.basePrice, variant.discount || 0, variant.discountType || DiscountType.PERCENTAGE, product.deal);
             if (variant.attributes?.name) name = `${product.name} - ${variant.attributes.name}`;
             if (variant.variantImages?.length) image = variant.variantImages[0];
         } else {
@@ -82,11 +100,12 @@ export class CartService {
                 throw new APIError(400, 'Product must have basePrice and stock');
             }
 
-            if (product.stock < quantity) {
-                throw new APIError(400, `Cannot add ${quantity} items; only ${product.stock} available`);
+            availableStock = await this.stockReservationService.getAvailableStock(product);
+            if (availableStock < quantity) {
+                throw new APIError(400, `Cannot add ${quantity} items; only ${availableStock} available`);
             }
 
-            price = this.calculateDiscountedPrice(product.basePrice, product.discount || 0, product.discountType || DiscountType.PERCENTAGE);
+            price = this.calculateDiscountedPrice(product.basePrice, product.discount || 0, product.discountType || DiscountType.PERCENTAGE, product.deal);
         }
 
         // Get or create cart
@@ -106,16 +125,19 @@ export class CartService {
             (variantId ? item.variantId === variantId : !item.variantId)
         );
 
+        // Deal limits count every variant of the product already in the cart
+        if (PriceHelper.isDealLive(product.deal)) {
+            const inCart = cart.items
+                .filter(item => item.product.id === productId)
+                .reduce((sum, item) => sum + item.quantity, 0);
+            await this.dealService.assertDealLimits(userId, [{ dealId: product.deal.id, productId, quantity: inCart + quantity }]);
+        }
+
         if (cartItem) {
             // Update quantity if already in cart
             cartItem.quantity += quantity;
-            if (variantId) {
-                const variant = await this.variantRepository.findOne({ where: { id: variantId.toString() } });
-                if (variant && cartItem.quantity > variant.stock) {
-                    throw new APIError(400, `Cannot add ${cartItem.quantity} items; only ${variant.stock} available`);
-                }
-            } else if (cartItem.quantity > product.stock!) {
-                throw new APIError(400, `Cannot add ${cartItem.quantity} items; only ${product.stock} available`);
+            if (cartItem.quantity > availableStock) {
+                throw new APIError(400, `Cannot add ${cartItem.quantity} items; only ${availableStock} available`);
             }
             cartItem.price = price;
             cartItem.name = name;
@@ -202,6 +224,7 @@ export class CartService {
 
     /**
      * Retrieves the user's current cart.
+     * Each item reports `availableStock` (on hand minus reservations for pending payments).
      *
      * @param userId {number} - ID of the user
      * @returns {Promise<Cart>} - The cart with items and related product/vendor info
@@ -220,19 +243,27 @@ export class CartService {
             return await this.cartRepository.save(newCart);
         }
 
+        const reserved = await this.stockReservationService.getReservedQuantities(
+            [...new Set(cart.items.map((item) => item.product.id))]
+        );
+
         const cartItemsWithWarnings = await Promise.all(
             cart.items.map(async (item) => {
                 let warningMessage: string | undefined;
+                let availableStock: number | undefined;
 
                 if (item.variantId) {
                     // Check variant stock
                     const variant = await this.variantRepository.findOne({ where: { id: item.variantId.toString() } });
                     if (!variant) {
                         warningMessage = 'Associated variant no longer exists';
-                    } else if (variant.status !== 'AVAILABLE') {
-                        warningMessage = 'Variant is not available';
-                    } else if (item.quantity > variant.stock) {
-                        warningMessage = `Only ${variant.stock} units available for this variant. You have ${item.quantity} in your cart.`;
+                    } else {
+                        availableStock = Math.max(0, variant.stock - (reserved.variants.get(String(variant.id)) || 0));
+                        if (variant.status !== 'AVAILABLE') {
+                            warningMessage = 'Variant is not available';
+                        } else if (item.quantity > availableStock) {
+                            warningMessage = `Only ${availableStock} units available for this variant. You have ${item.quantity} in your cart.`;
+                        }
                     }
                 } else {
                     // Check product stock
@@ -241,15 +272,19 @@ export class CartService {
                         warningMessage = 'Associated product no longer exists';
                     } else if (product.hasVariants) {
                         warningMessage = 'Product requires a variant but none is selected';
-                    } else if (product.status !== 'AVAILABLE') {
-                        warningMessage = 'Product is not available';
-                    } else if (item.quantity > (product.stock ?? 0)) {
-                        warningMessage = `Only ${product.stock} units available. You have ${item.quantity} in your cart.`;
+                    } else {
+                        availableStock = Math.max(0, (product.stock ?? 0) - (reserved.products.get(product.id) || 0));
+                        if (product.status !== 'AVAILABLE') {
+                            warningMessage = 'Product is not available';
+                        } else if (item.quantity > availableStock) {
+                            warningMessage = `Only ${availableStock} units available. You have ${item.quantity} in your cart.`;
+                        }
                     }
                 }
 
                 return {
                     ...item,
+                    availableStock,
                     warningMessage,
                 };
             })
@@ -296,10 +331,11 @@ export class CartService {
      * @param basePrice {number} - Original product price
      * @param discount {number} - Discount value
      * @param discountType {string} - Discount type (PERCENTAGE or FLAT)
+     * @param deal {Deal} - Product's deal; its percentage is taken off while it is live
      * @returns {number} - Final price after discount (rounded to 2 decimals)
      * @access Internal
      */
-    private calculateDiscountedPrice(basePrice: number, discount: number, discountType: string): number {
+    private calculateDiscountedPrice(basePrice: number, discount: number, discountType: string, deal?: Deal | null): number {
         let finalPrice = basePrice;
 
         if (discountType === DiscountType.PERCENTAGE) {
@@ -308,6 +344,8 @@ export class CartService {
             finalPrice = Math.max(0, basePrice - discount);
         }
 
+        finalPrice = PriceHelper.applyDeal(finalPrice, deal);
+
         return Math.round(finalPrice * 100) / 100;
     }
 }
\ No newline at end of file
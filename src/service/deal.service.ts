@@ -1,28 +1,56 @@
-import { Repository } from 'typeorm';
+import { EntityManager, In, LessThanOrEqual, Repository } from 'typeorm';
+import cron from 'node-cron';
 import { Deal, DealStatus } from '../entities/deal.entity';
+import { DealProductLimit } from '../entities/dealProductLimit.entity';
 import { Product } from '../entities/product.entity';
+import { OrderItem } from '../entities/orderItems.entity';
+import { OrderStatus } from '../entities/order.entity';
 import { CreateDealInput, UpdateDealInput } from '../utils/zod_validations/deal.zod';
 import { APIError } from '../utils/ApiError.utils';
 import AppDataSource from '../config/db.config';
 import { User } from '../entities/user.entity';
+import { PriceHelper } from '../utils/helpers/PriceHelper';
+import { ProductFilterHelper } from '../utils/helpers/ProductFilterHelper';
+import { IDealLine, ILiveDeal, ILiveDealsResponse } from '../interface/deal.interface';
+
+// DealService is created by several services; schedule the status job only once
+let statusJobScheduled = false;
+
 /**
  * Service for managing deal-related operations including creation, update, 
  * retrieval, and deletion of promotional deals.
+ * Time-boxed deals are switched between SCHEDULED, ENABLED and EXPIRED by a cron job.
  * 
  * Module: Deal Management (Admin)
  */
 export class DealService {
     private dealRepository: Repository<Deal>;
+    private dealProductLimitRepository: Repository<DealProductLimit>;
     private productRepository: Repository<Product>;
     private userRepository: Repository<User>;
 
     /**
-     * Initializes repositories for Deal, Product, and User entities.
+     * Initializes repositories for Deal, Product, and User entities
+     * and schedules the deal status job.
      */
     constructor() {
         this.dealRepository = AppDataSource.getRepository(Deal);
+        this.dealProductLimitRepository = AppDataSource.getRepository(DealProductLimit);
         this.productRepository = AppDataSource.getRepository(Product);
         this.userRepository = AppDataSource.getRepository(User);
+
+        // Check deal windows every minute so flash sales open and close on time
+        // Skip cron job initialization in test environment
+        if (process.env.NODE_ENV !== 'test' && !statusJobScheduled) {
+            statusJobScheduled = true;
+            cron.schedule('* * * * *', async () => {
+                try {
+                    await this.updateDealStatuses();
+                } catch (error) {
+                    console.error('Deal status update failed:', error);
+                }
+            });
+        }
     }
 
     /**
@@ -47,6 +75,7 @@ export class DealService {
 
         const deal = this.dealRepository.create({
             ...dto,
+            status: this.determineStatus(dto.status, dto.startsAt, dto.endsAt),
             createdById: adminId,
         });
 
@@ -55,11 +84,13 @@ export class DealService {
 
     /**
      * Updates an existing deal by its ID.
+     * The status is recomputed from the time window, so moving endsAt forward revives an expired deal.
+     * When `productLimits` is given it replaces the deal's stock caps.
      * 
      * @param id {number} - Deal ID
-     * @param dto {UpdateDealInput} - Fields to update (name, discount, status, etc.)
+     * @param dto {UpdateDealInput} - Fields to update (name, discount, status, window, limits, etc.)
      * @returns {Promise<Deal>} - The updated deal
-     * @throws {APIError} - If deal not found
+     * @throws {APIError} - If deal not found, the window is invalid or a capped product is not in the deal
      * @access Admin
      */
     async updateDeal(id: number, dto: UpdateDealInput): Promise<Deal> {
@@ -68,15 +99,28 @@ export class DealService {
             throw new APIError(404, 'Deal not found');
         }
 
-        const updatedData = {
-            ...deal,
-            ...dto,
-        };
+        const { productLimits, ...fields } = dto;
+
+        const startsAt = fields.startsAt !== undefined ? fields.startsAt : deal.startsAt;
+        const endsAt = fields.endsAt !== undefined ? fields.endsAt : deal.endsAt;
+        if (startsAt && endsAt && new Date(startsAt) >= new Date(endsAt)) {
+            throw new APIError(400, 'endsAt must be after startsAt');
+        }
 
-        await this.dealRepository.update(id, updatedData);
+        // Keep a manual DISABLED unless the admin switches the deal back on
+        const requestedStatus = fields.status ?? (deal.status === DealStatus.DISABLED ? DealStatus.DISABLED : DealStatus.ENABLED);
+
+        await this.dealRepository.update(id, {
+            ...fields,
+            status: this.determineStatus(requestedStatus, startsAt, endsAt),
+        });
+
+        if (productLimits) {
+            await this.replaceProductLimits(id, productLimits);
+        }
 
         // findOneOrFail throws if entity doesn't exist (safer for chained logic)
-        return await this.dealRepository.findOneOrFail({ where: { id } });
+        return await this.dealRepository.findOneOrFail({ where: { id }, relations: ['productLimits'] });
     }
 
     /**
@@ -88,7 +132,7 @@ export class DealService {
      * @access Admin
      */
     async getDealById(id: number): Promise<Deal> {
-        const deal = await this.dealRepository.findOne({ where: { id }, relations: ['createdBy'] });
+        const deal = await this.dealRepository.findOne({ where: { id }, relations: ['createdBy', 'productLimits'] });
         if (!deal) {
             throw new APIError(404, 'Deal not found');
         }
@@ -107,7 +151,7 @@ export class DealService {
      * Retrieves all deals optionally filtered by status.
      * Also returns the number of products associated with each deal.
      * 
-     * @param status {DealStatus} - Optional filter by deal status (ACTIVE, INACTIVE, etc.)
+     * @param status {DealStatus} - Optional filter by deal status (ENABLED, SCHEDULED, etc.)
      * @returns {Promise<{ deals: Deal[], total: number, productCounts: { [dealId: number]: number } }>}
      *          List of deals, total count, and product count mapping
      * @access Admin
@@ -161,4 +205,267 @@ export class DealService {
 
         return deal;
     }
+
+    /**
+     * Lists deals that are live now and those scheduled to start, with countdown data
+     * and each product's deal price and remaining deal stock.
+     *
+     * @returns {Promise<ILiveDealsResponse>} - Live and upcoming deals with the server time for client countdowns
+     * @access Public
+     */
+    async getLiveAndUpcomingDeals(): Promise<ILiveDealsResponse> {
+        const now = new Date();
+
+        const deals = await this.dealRepository.createQueryBuilder('deal')
+            .leftJoinAndSelect('deal.products', 'product', ProductFilterHelper.activeVendorSql)
+            .leftJoinAndSelect('deal.productLimits', 'productLimit')
+            .where('deal.status IN (:...statuses)', { statuses: [DealStatus.ENABLED, DealStatus.SCHEDULED] })
+            .andWhere('(deal.endsAt IS NULL OR deal.endsAt > :now)', { now })
+            .orderBy('deal.startsAt', 'ASC', 'NULLS FIRST')
+            .addOrderBy('deal.id', 'ASC')
+            .getMany();
+
+        const soldQuantities = await this.getSoldQuantities(
+            AppDataSource.manager,
+            deals.map((deal) => deal.id),
+        );
+
+        const live: ILiveDeal[] = [];
+        const upcoming: ILiveDeal[] = [];
+
+        for (const deal of deals) {
+            const summary = this.toLiveDeal(deal, soldQuantities, now);
+            if (PriceHelper.isDealLive(deal, now)) {
+                live.push(summary);
+            } else if (deal.startsAt && new Date(deal.startsAt) > now) {
+                upcoming.push(summary);
+            }
+        }
+
+        return { serverTime: now, live, upcoming };
+    }
+
+    /**
+     * Checks deal quantities against the per-customer limit and the per-product stock caps.
+     * Pass `lock` inside the order transaction so concurrent checkouts cannot oversell a cap.
+     *
+     * @param userId {number} - Customer buying the items
+     * @param lines {IDealLine[]} - Quantities being bought at deal prices
+     * @param manager {EntityManager} - Manager to query with; the order transaction when locking
+     * @param lock {boolean} - Lock the deal rows until the transaction ends
+     * @throws {APIError} - 400 if a limit would be exceeded
+     * @access Internal
+     */
+    async assertDealLimits(
+        userId: number,
+        lines: IDealLine[],
+        manager: EntityManager = AppDataSource.manager,
+        lock = false,
+    ): Promise<void> {
+        if (!lines.length) return;
+
+        // Combine lines for the same product, e.g. several variants
+        const quantities = new Map<string, IDealLine>();
+        for (const line of lines) {
+            const key = `${line.dealId}:${line.productId}`;
+            const existing = quantities.get(key);
+            quantities.set(key, { ...line, quantity: (existing?.quantity || 0) + line.quantity });
+        }
+
+        const dealIds = [...new Set(lines.map((line) => line.dealId))];
+        const dealQuery = manager.getRepository(Deal).createQueryBuilder('deal')
+            .where('deal.id IN (:...dealIds)', { dealIds });
+        if (lock) {
+            dealQuery.setLock('pessimistic_write');
+        }
+        const deals = await dealQuery.getMany();
+        const limits = await manager.getRepository(DealProductLimit).find({ where: { dealId: In(dealIds) } });
+
+        const sold = await this.getSoldQuantities(manager, dealIds);
+        const boughtByCustomer = await this.getSoldQuantities(manager, dealIds, userId);
+
+        for (const line of quantities.values()) {
+            const deal = deals.find((d) => d.id === line.dealId);
+            if (!deal) continue;
+            const key = `${line.dealId}:${line.productId}`;
+
+            if (deal.perCustomerLimit) {
+                const remaining = deal.perCustomerLimit - (boughtByCustomer.get(key) || 0);
+                if (line.quantity > remaining) {
+                    throw new APIError(
+                        400,
+                        `The "${deal.name}" deal allows ${deal.perCustomerLimit} unit(s) of each product per customer; you can buy ${Math.max(remaining, 0)} more`
+                    );
+                }
+            }
+
+            const cap = limits.find((limit) => limit.dealId === line.dealId && limit.productId === line.productId);
+            if (cap) {
+                const remaining = cap.stockLimit - (sold.get(key) || 0);
+                if (line.quantity > remaining) {
+                    throw new APIError(
+                        400,
+                        remaining > 0
+                            ? `Only ${remaining} unit(s) left at the "${deal.name}" deal price`
+                            : `This product is sold out at the "${deal.name}" deal price`
+                    );
+                }
+            }
+        }
+    }
+
+    /**
+     * Moves time-boxed deals between SCHEDULED, ENABLED and EXPIRED.
+     * Manually disabled deals are left alone.
+     * This method is triggered by a cron job every minute.
+     *
+     * @returns {Promise<void>}
+     * @access Internal (Cron job)
+     */
+    async updateDealStatuses(): Promise<void> {
+        const now = new Date();
+
+        await this.dealRepository.update(
+            { status: In([DealStatus.SCHEDULED, DealStatus.ENABLED]), endsAt: LessThanOrEqual(now) },
+            { status: DealStatus.EXPIRED },
+        );
+
+        // Anything still scheduled has not ended, so it only needs to have started
+        await this.dealRepository.update(
+            { status: DealStatus.SCHEDULED, startsAt: LessThanOrEqual(now) },
+            { status: DealStatus.ENABLED },
+        );
+    }
+
+    /**
+     * Stored status for a deal given the status the admin asked for and its time window.
+     *
+     * @param requested {DealStatus} - ENABLED or DISABLED as set by the admin
+     * @param startsAt {Date | null} - Window start
+     * @param endsAt {Date | null} - Window end
+     * @returns {DealStatus} - DISABLED, SCHEDULED, ENABLED or EXPIRED
+     * @access Internal
+     */
+    private determineStatus(requested: DealStatus, startsAt?: Date | null, endsAt?: Date | null): DealStatus {
+        if (requested === DealStatus.DISABLED) {
+            return DealStatus.DISABLED;
+        }
+
+        const now = new Date();
+
+        if (startsAt && now < new Date(startsAt)) {
+            return DealStatus.SCHEDULED;
+        }
+        if (endsAt && now >= new Date(endsAt)) {
+            return DealStatus.EXPIRED;
+        }
+        return DealStatus.ENABLED;
+    }
+
+    /**
+     * Replaces a deal's per-product stock caps.
+     *
+     * @param dealId {number} - Deal ID
+     * @param productLimits - New caps
+     * @throws {APIError} - 400 if a product is not part of the deal
+     * @access Internal
+     */
+    private async replaceProductLimits(dealId: number, productLimits: NonNullable<UpdateDealInput['productLimits']>): Promise<void> {
+        const productIds = [...new Set(productLimits.map((limit) => limit.productId))];
+        if (productIds.length !== productLimits.length) {
+            throw new APIError(400, 'Each product can only have one stock limit');
+        }
+
+        if (productIds.length) {
+            const products = await this.productRepository.find({ where: { id: In(productIds), dealId } });
+            const missing = productIds.filter((productId) => !products.some((product) => product.id === productId));
+            if (missing.length) {
+                throw new APIError(400, `Products ${missing.join(', ')} are not part of this deal`);
+            }
+        }
+
+        await AppDataSource.transaction(async (manager) => {
+            await manager.delete(DealProductLimit, { dealId });
+            if (productLimits.length) {
+                await manager.save(DealProductLimit, productLimits.map((limit) => ({ ...limit, dealId })));
+            }
+        });
+    }
+
+    /**
+     * Units sold at each deal price, keyed by `dealId:productId`.
+     * Cancelled orders do not count.
+     *
+     * @param manager {EntityManager} - Manager to query with
+     * @param dealIds {number[]} - Deals to count
+     * @param userId {number} - Only count this customer's orders
+     * @access Internal
+     */
+    private async getSoldQuantities(manager: EntityManager, dealIds: number[], userId?: number): Promise<Map<string, number>> {
+        const sold = new Map<string, number>();
+        if (!dealIds.length) return sold;
+
+        const query = manager.getRepository(OrderItem).createQueryBuilder('item')
+            .innerJoin('item.order', 'order')
+            .select('item.dealId', 'dealId')
+            .addSelect('item.productId', 'productId')
+            .addSelect('SUM(item.quantity)', 'quantity')
+            .where('item.dealId IN (:...dealIds)', { dealIds })
+            .andWhere('order.status != :cancelled', { cancelled: OrderStatus.CANCELLED })
+            .groupBy('item.dealId')
+            .addGroupBy('item.productId');
+
+        if (userId !== undefined) {
+            query.andWhere('order.orderedById = :userId', { userId });
+        }
+
+        const rows = await query.getRawMany();
+        for (const row of rows) {
+            sold.set(`${row.dealId}:${row.productId}`, Number(row.quantity));
+        }
+        return sold;
+    }
+
+    /**
+     * Shapes a deal for the public live/upcoming listing.
+     *
+     * @access Internal
+     */
+    private toLiveDeal(deal: Deal, soldQuantities: Map<string, number>, now: Date): ILiveDeal {
+        const startsAt = deal.startsAt ? new Date(deal.startsAt) : null;
+        const endsAt = deal.endsAt ? new Date(deal.endsAt) : null;
+
+        return {
+            id: deal.id,
+            name: deal.name,
+            discountPercentage: Number(deal.discountPercentage),
+            status: deal.status,
+            perCustomerLimit: deal.perCustomerLimit ?? null,
+            countdown: {
+                startsAt,
+                endsAt,
+                startsInSeconds: startsAt ? Math.max(0, Math.ceil((startsAt.getTime() - now.getTime()) / 1000)) : 0,
+                endsInSeconds: endsAt ? Math.max(0, Math.ceil((endsAt.getTime() - now.getTime()) / 1000)) : null,
+            },
+            products: (deal.products || []).map((product) => {
+                const cap = deal.productLimits?.find((limit) => limit.productId === product.id);
+                const sold = soldQuantities.get(`${deal.id}:${product.id}`) || 0;
+                // Product-level price; variants are priced per variant at checkout
+                const price = product.basePrice != null ? PriceHelper.getUnitPrice({ ...product, deal: undefined } as Product) : null;
+
+                return {
+                    id: product.id,
+                    name: product.name,
+                    basePrice: product.basePrice != null ? Number(product.basePrice) : null,
+                    discount: product.discount != null ? Number(product.discount) : null,
+                    discountType: product.discountType,
+                    productImages: product.productImages || [],
+                    hasVariants: product.hasVariants,
+                    dealPrice: price !== null ? PriceHelper.getDealPrice(price, deal) : null,
+                    stockLimit: cap ? cap.stockLimit : null,
+                    remainingDealStock: cap ? Math.max(0, cap.stockLimit - sold) : null,
+                };
+            }),
+        };
+    }
 }
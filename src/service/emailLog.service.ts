@@ -0,0 +1,122 @@
+import { DataSource, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import TestDataSource from '../config/db.test.config';
+import { EmailLog } from '../entities/emailLog.entity';
+import { APIError } from '../utils/ApiError.utils';
+import { EmailLogQueryInput } from '../utils/zod_validations/emailLog.zod';
+import { EmailService } from '../services/email/EmailService';
+import { EmailTemplateName, maskSensitiveVariables, renderEmailTemplate } from '../services/email/EmailTemplates';
+
+/**
+ * A logged email as shown to admins: sensitive variables masked, attachments by name only
+ */
+export type EmailLogDetail = Omit<EmailLog, 'attachments'> & {
+    attachments: string[];
+    // Body rendered with the masked variables; null if the template version can no longer be rendered
+    preview: string | null;
+};
+
+/**
+ * Service for admins browsing the email outbox and resending emails.
+ *
+ * Emails are logged and sent by EmailService; this service only reads the log,
+ * and never exposes sensitive template variables such as verification codes.
+ *
+ * Module: Email
+ */
+export class EmailLogService {
+    private dataSource: DataSource;
+    private emailLogRepository: Repository<EmailLog>;
+
+    constructor(dataSource?: DataSource) {
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.emailLogRepository = this.dataSource.getRepository(EmailLog);
+    }
+
+    /**
+     * Logged emails, newest first, without their variables and attachments
+     *
+     * @param query {EmailLogQueryInput} - Filters and pagination
+     * @returns Paginated email log entries
+     * @access Admin
+     */
+    async getEmailLogs(query: Partial<EmailLogQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const qb = this.emailLogRepository.createQueryBuilder('email')
+            .select([
+                'email.id', 'email.template', 'email.templateVersion', 'email.to', 'email.subject', 'email.status',
+                'email.attempts', 'email.lastError', 'email.sentAt', 'email.resentFromId', 'email.createdAt',
+            ])
+            .orderBy('email.createdAt', 'DESC')
+            .addOrderBy('email.id', 'DESC')
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (query.status) {
+            qb.andWhere('email.status = :status', { status: query.status });
+        }
+        if (query.template) {
+            qb.andWhere('email.template = :template', { template: query.template });
+        }
+        if (query.recipient) {
+            qb.andWhere('email.to ILIKE :recipient', { recipient: `%${query.recipient}%` });
+        }
+        if (query.from) {
+            qb.andWhere('email.createdAt >= :from', { from: query.from });
+        }
+        if (query.to) {
+            qb.andWhere('email.createdAt <= :to', { to: query.to });
+        }
+
+        const [emails, total] = await qb.getManyAndCount();
+        return { emails, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * One logged email with its variables and a preview of its body
+     *
+     * @param id {number} - Email log ID
+     * @returns {Promise<EmailLogDetail>}
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async getEmailLogById(id: number): Promise<EmailLogDetail> {
+        const emailLog = await this.emailLogRepository.findOneBy({ id });
+        if (!emailLog) {
+            throw new APIError(404, 'Email not found');
+        }
+
+        const variables = maskSensitiveVariables(emailLog.template, emailLog.variables);
+
+        let preview: string | null = null;
+        try {
+            preview = renderEmailTemplate(emailLog.template as EmailTemplateName, variables, emailLog.templateVersion).html;
+        } catch (error) {
+            console.error(`Failed to render preview of email ${id}:`, error);
+        }
+
+        return {
+            ...emailLog,
+            variables,
+            attachments: (emailLog.attachments ?? []).map((attachment) => attachment.filename),
+            preview,
+        };
+    }
+
+    /**
+     * Sends a logged email again with the same template version, variables and attachments.
+     * The resend is logged as a new email linked to the original.
+     *
+     * @param id {number} - Email log ID
+     * @param adminId {number} - Admin resending the email
+     * @returns {Promise<EmailLogDetail>} - The new email
+     * @throws {APIError} - 404 if not found, 400 if it carries a one-time token or code
+     * @access Admin
+     */
+    async resendEmail(id: number, adminId: number): Promise<EmailLogDetail> {
+        const resent = await EmailService.getInstance().resend(id, adminId);
+        return this.getEmailLogById(resent.id);
+    }
+}
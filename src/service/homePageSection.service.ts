@@ -10,6 +10,8 @@ import { SubcategoryService } from "./subcategory.service";
 import { DealService } from "./deal.service";
 import { AuthProvider } from "../entities/user.entity";
 import { Subcategory } from "../entities/subcategory.entity";
+import { VendorStatus } from "../entities/vendorKyc.enum";
+import { ProductFilterHelper } from "../utils/helpers/ProductFilterHelper";
 
 /**
  * Service to manage homepage sections including create, update, delete,
@@ -323,6 +325,7 @@ export class HomePageSectionService {
             relations: [
                 'products',
                 'products.variants',
+                'products.vendor',
                 'selectedCategory',
                 'selectedSubcategory',
                 'selectedDeal',
@@ -350,6 +353,7 @@ export class HomePageSectionService {
                                 .leftJoinAndSelect('product.variants', 'variants')
                                 .where('product.dealId = :dealId', { dealId: section.selectedDeal.id })
                                 .andWhere(inStockCondition)
+                                .andWhere(ProductFilterHelper.activeVendorSql)
                                 .getMany();
                         }
                         break;
@@ -363,6 +367,7 @@ export class HomePageSectionService {
                                 .leftJoin('subcategory.category', 'category')
                                 .where('category.id = :id', { id: section.selectedCategory.id })
                                 .andWhere(inStockCondition)
+                                .andWhere(ProductFilterHelper.activeVendorSql)
                                 .getMany();
                         }
                         break;
@@ -374,6 +379,7 @@ export class HomePageSectionService {
                                 .leftJoinAndSelect('product.variants', 'variants')
                                 .where('product.subcategoryId = :id', { id: section.selectedSubcategory.id })
                                 .andWhere(inStockCondition)
+                                .andWhere(ProductFilterHelper.activeVendorSql)
                                 .getMany();
                         }
                         break;
@@ -383,6 +389,7 @@ export class HomePageSectionService {
                         // Filter manually selected products in-memory
                         products = (section.products || []).filter(
                             (p) =>
+                            p.vendor?.status !== VendorStatus.SUSPENDED &&
                             (p.hasVariants
                                 ? p.variants?.some((v) => v.stock > 0)
                                 : p.stock > 0)
@@ -0,0 +1,299 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { INVOICE } from '../config/constants';
+import { APIError } from '../utils/ApiError.utils';
+import { generateInvoiceHTML } from '../utils/invoiceTemplate.utils';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { VendorOrder, VendorOrderStatus } from '../entities/vendorOrder.entity';
+import { Invoice, InvoiceType } from '../entities/invoice.entity';
+import { InvoiceSequence } from '../entities/invoiceSequence.entity';
+import { PromoRedemption } from '../entities/promoRedemption.entity';
+import { PromoType } from '../entities/promo.entity';
+import { PromoService } from './promo.service';
+import { IInvoiceAttachment, IInvoiceDocument, IInvoiceLine, IInvoiceSeller } from '../interface/invoice.interface';
+
+// Orders are only invoiced once they are confirmed (COD placed or online payment received)
+const NOT_INVOICEABLE_STATUSES = [OrderStatus.PENDING, OrderStatus.CANCELLED];
+
+const ORDER_RELATIONS = [
+    'orderedBy',
+    'shippingAddress',
+    'orderItems',
+    'orderItems.product',
+    'orderItems.variant',
+    'orderItems.vendor',
+    'orderItems.vendor.district',
+    'vendorOrders',
+];
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Service for VAT tax invoices.
+ * A customer invoice covers the whole order; each vendor gets an invoice for their sub-order.
+ * Invoices are issued on first request, numbered sequentially per series, and reused afterwards.
+ *
+ * Order prices are VAT inclusive, so VAT is extracted from the total rather than added on top.
+ *
+ * @module InvoiceService
+ */
+export class InvoiceService {
+    private orderRepository: Repository<Order>;
+    private invoiceRepository: Repository<Invoice>;
+    private redemptionRepository: Repository<PromoRedemption>;
+    private promoService: PromoService;
+
+    constructor() {
+        this.orderRepository = AppDataSource.getRepository(Order);
+        this.invoiceRepository = AppDataSource.getRepository(Invoice);
+        this.redemptionRepository = AppDataSource.getRepository(PromoRedemption);
+        this.promoService = new PromoService();
+    }
+
+    /**
+     * Get (issuing if needed) the customer invoice for an order.
+     *
+     * @param {number} orderId - ID of the order.
+     * @param {number} [userId] - When given, the order must belong to this customer.
+     * @returns {Promise<IInvoiceDocument>} The invoice with the data needed to render it.
+     * @throws {APIError} 404 if the order is not found, 400 if it cannot be invoiced yet.
+     * @access Customer | Admin
+     */
+    async getCustomerInvoice(orderId: number, userId?: number): Promise<IInvoiceDocument> {
+        const order = await this.getInvoiceableOrder(orderId);
+        if (userId !== undefined && order.orderedById !== userId) {
+            throw new APIError(404, 'Order not found');
+        }
+
+        const invoice = await this.invoiceRepository.findOne({ where: { orderId, type: InvoiceType.CUSTOMER } })
+            ?? await this.issueInvoice(order);
+
+        return this.buildDocument(invoice, order, order.orderItems);
+    }
+
+    /**
+     * Get (issuing if needed) the invoice for a vendor's share of an order.
+     *
+     * @param {number} orderId - ID of the parent order.
+     * @param {number} vendorId - ID of the vendor.
+     * @returns {Promise<IInvoiceDocument>} The invoice with only this vendor's lines.
+     * @throws {APIError} 404 if the vendor has no sub-order in the order, 400 if it cannot be invoiced.
+     * @access Vendor
+     */
+    async getVendorInvoice(orderId: number, vendorId: number): Promise<IInvoiceDocument> {
+        const order = await this.getInvoiceableOrder(orderId);
+
+        const vendorOrder = order.vendorOrders?.find((share) => share.vendorId === vendorId);
+        if (!vendorOrder) {
+            throw new APIError(404, 'Order not found');
+        }
+        if (vendorOrder.status === VendorOrderStatus.CANCELLED) {
+            throw new APIError(400, 'Cancelled orders cannot be invoiced');
+        }
+
+        const invoice = await this.invoiceRepository.findOne({ where: { vendorOrderId: vendorOrder.id } })
+            ?? await this.issueInvoice(order, vendorOrder);
+
+        return this.buildDocument(invoice, order, order.orderItems.filter((item) => item.vendorId === vendorId));
+    }
+
+    /**
+     * Render an invoice as a standalone HTML document.
+     */
+    renderInvoice(document: IInvoiceDocument): string {
+        return generateInvoiceHTML(document);
+    }
+
+    /**
+     * Build the customer invoice as an email attachment.
+     * Returns null instead of throwing so the order email still goes out without it.
+     *
+     * @param {number} orderId - ID of the order.
+     * @returns {Promise<IInvoiceAttachment | null>} Rendered invoice file, or null if it could not be issued.
+     */
+    async getCustomerInvoiceAttachment(orderId: number): Promise<IInvoiceAttachment | null> {
+        try {
+            const document = await this.getCustomerInvoice(orderId);
+            return {
+                filename: `${document.invoice.invoiceNumber}.html`,
+                content: this.renderInvoice(document),
+                contentType: 'text/html',
+            };
+        } catch (error) {
+            console.error(`Failed to generate invoice for order ${orderId}:`, error);
+            return null;
+        }
+    }
+
+    private async getInvoiceableOrder(orderId: number): Promise<Order> {
+        const order = await this.orderRepository.findOne({
+            where: { id: orderId },
+            relations: ORDER_RELATIONS,
+        });
+
+        if (!order) {
+            throw new APIError(404, 'Order not found');
+        }
+        if (NOT_INVOICEABLE_STATUSES.includes(order.status)) {
+            throw new APIError(400, 'An invoice is available once the order is confirmed');
+        }
+
+        return order;
+    }
+
+    /**
+     * Issue the next invoice number in the series and snapshot the amounts.
+     * The series row is locked so numbers are gapless and an order is never invoiced twice.
+     */
+    private async issueInvoice(order: Order, vendorOrder?: VendorOrder): Promise<Invoice> {
+        const type = vendorOrder ? InvoiceType.VENDOR : InvoiceType.CUSTOMER;
+        const series = vendorOrder
+            ? `${INVOICE.VENDOR_PREFIX}-${vendorOrder.vendorId}`
+            : INVOICE.CUSTOMER_PREFIX;
+
+        const amounts = await this.calculateAmounts(order, vendorOrder);
+
+        return await AppDataSource.transaction(async (manager) => {
+            await manager.createQueryBuilder()
+                .insert()
+                .into(InvoiceSequence)
+                .values({ series, lastNumber: 0 })
+                .orIgnore()
+                .execute();
+
+            const sequence = await manager.findOne(InvoiceSequence, {
+                where: { series },
+                lock: { mode: 'pessimistic_write' },
+            });
+
+            // Another request may have issued this invoice while we waited for the lock
+            const existing = await manager.findOne(Invoice, {
+                where: vendorOrder ? { vendorOrderId: vendorOrder.id } : { orderId: order.id, type },
+            });
+            if (existing) {
+                return existing;
+            }
+
+            sequence!.lastNumber += 1;
+            await manager.save(sequence!);
+
+            const invoice = manager.create(Invoice, {
+                invoiceNumber: `${series}-${String(sequence!.lastNumber).padStart(INVOICE.NUMBER_PADDING, '0')}`,
+                type,
+                orderId: order.id,
+                vendorOrderId: vendorOrder?.id ?? null,
+                vendorId: vendorOrder?.vendorId ?? null,
+                ...amounts,
+            });
+
+            return await manager.save(invoice);
+        });
+    }
+
+    /**
+     * Work out invoice amounts from the amounts stored with the order: its items, shipping fee,
+     * the discount of its promo redemption and its total, which must add up.
+     * A vendor invoice carries the discount allocated to its own items, or for a shipping promo
+     * a share proportional to its shipping fee.
+     *
+     * @throws {APIError} 500 if the stored amounts do not reconcile with the order total.
+     */
+    private async calculateAmounts(order: Order, vendorOrder?: VendorOrder) {
+        const sumItems = (items: Order['orderItems']) =>
+            roundAmount(items.reduce((sum, item) => sum + Number(item.price) * item.quantity, 0));
+
+        const redemption = await this.redemptionRepository.findOne({ where: { orderId: order.id }, relations: ['promo'] });
+        const orderSubtotal = sumItems(order.orderItems);
+        const orderDiscount = redemption ? Number(redemption.discountAmount) : 0;
+        const orderShippingFee = Number(order.shippingFee);
+
+        // The service charge is not part of the order total the customer paid, so it is not invoiced
+        let total = Number(order.totalPrice);
+        if (Math.abs(orderSubtotal - orderDiscount + orderShippingFee - total) > 0.01) {
+            throw new APIError(500, `Amounts of order #${order.id} do not reconcile: items ${orderSubtotal} - discount ${orderDiscount} `
+                + `+ shipping ${orderShippingFee} does not equal the total of ${total}`);
+        }
+
+        let subtotal = orderSubtotal;
+        let discount = orderDiscount;
+        let shippingFee = orderShippingFee;
+
+        if (vendorOrder) {
+            const items = order.orderItems.filter((item) => item.vendorId === vendorOrder.vendorId);
+            subtotal = sumItems(items);
+            shippingFee = Number(vendorOrder.shippingFee) || 0;
+
+            if (!redemption) {
+                discount = 0;
+            } else if (redemption.promo.applyOn === PromoType.SHIPPING) {
+                discount = orderShippingFee > 0 ? roundAmount(orderDiscount * shippingFee / orderShippingFee) : 0;
+            } else {
+                const itemDiscounts = await this.promoService.allocateOrderDiscount(order.id);
+                discount = roundAmount(items.reduce((sum, item) => sum + (itemDiscounts.get(item.id) || 0), 0));
+            }
+            total = roundAmount(subtotal - discount + shippingFee);
+        }
+
+        const taxableAmount = roundAmount(total / (1 + INVOICE.VAT_RATE));
+
+        return {
+            subtotal,
+            discount,
+            shippingFee,
+            serviceCharge: 0,
+            taxableAmount,
+            vatRate: INVOICE.VAT_RATE,
+            vatAmount: roundAmount(total - taxableAmount),
+            total,
+        };
+    }
+
+    private buildDocument(invoice: Invoice, order: Order, items: Order['orderItems']): IInvoiceDocument {
+        const lines: IInvoiceLine[] = items.map((item) => ({
+            name: item.product?.name || `Product #${item.productId}`,
+            sku: item.variant?.sku || null,
+            variantAttributes: item.variant?.attributes || null,
+            quantity: item.quantity,
+            unitPrice: Number(item.price),
+            amount: roundAmount(Number(item.price) * item.quantity),
+            vendorId: item.vendorId,
+        }));
+
+        const sellers = new Map<number, IInvoiceSeller>();
+        for (const item of items) {
+            if (item.vendor && !sellers.has(item.vendorId)) {
+                sellers.set(item.vendorId, {
+                    vendorId: item.vendorId,
+                    businessName: item.vendor.businessName,
+                    taxNumber: item.vendor.taxNumber || null,
+                    businessRegNumber: item.vendor.businessRegNumber || null,
+                    district: item.vendor.district?.name || null,
+                    phoneNumber: item.vendor.phoneNumber || null,
+                });
+            }
+        }
+
+        const address = order.shippingAddress;
+
+        return {
+            invoice,
+            orderId: order.id,
+            orderDate: order.createdAt,
+            paymentMethod: order.paymentMethod,
+            paymentStatus: order.paymentStatus,
+            appliedPromoCode: order.appliedPromoCode || null,
+            customer: {
+                name: order.orderedBy?.fullName || order.orderedBy?.username || '',
+                email: order.orderedBy?.email || null,
+                phoneNumber: order.phoneNumber || order.orderedBy?.phoneNumber || null,
+                address: address
+                    ? [address.localAddress, address.landmark, address.city, address.district, address.province]
+                        .filter(Boolean)
+                        .join(', ')
+                    : null,
+            },
+            sellers: Array.from(sellers.values()),
+            lines,
+        };
+    }
+}
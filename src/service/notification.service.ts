@@ -1,23 +1,179 @@
-import { In, Repository } from "typeorm";
+import { FindOptionsWhere, In, MoreThan, Repository, SelectQueryBuilder } from "typeorm";
+import validator from "validator";
 import AppDataSource from "../config/db.config";
 import { Notification, NotificationTarget, NotificationType } from "../entities/notification.entity";
+import { NotificationReceipt } from "../entities/notificationReceipt.entity";
 import { Vendor } from "../entities/vendor.entity";
 import { Order } from "../entities/order.entity";
 import { APIError } from "../utils/ApiError.utils";
 import { User, UserRole } from "../entities/user.entity";
+import { ProductQuestion } from "../entities/productQuestion.entity";
+import { Product } from "../entities/product.entity";
+import { Review } from "../entities/reviews.entity";
+import { ReviewDispute, ReviewDisputeStatus } from "../entities/reviewDispute.entity";
+import { NotificationEvent } from "../entities/notificationPreference.enum";
+import { DispatchRequest, NotificationDispatcher } from "../services/notification/NotificationDispatcher";
+import { sendReviewReplyEmail } from "../utils/nodemailer.utils";
+import { NOTIFICATION_STREAM } from "../config/constants";
+import { NotificationInboxQueryInput } from "../utils/zod_validations/notification.zod";
+
+// A notification with the reading recipient's own state
+export type InboxNotification = Omit<Notification, "receipt"> & {
+    isRead: boolean;
+    readAt: Date | null;
+    archivedAt: Date | null;
+};
+
+type ReceiptChanges = Partial<Pick<NotificationReceipt, "readAt" | "archivedAt" | "deletedAt">>;
 
 export class NotificationService {
     private notificationRepo: Repository<Notification>;
+    private receiptRepo: Repository<NotificationReceipt>;
     private vendorRepo: Repository<Vendor>;
     private orderRepo: Repository<Order>;
+    private userRepo: Repository<User>;
+    private dispatcher: NotificationDispatcher;
 
     constructor() {
         this.notificationRepo = AppDataSource.getRepository(Notification);
+        this.receiptRepo = AppDataSource.getRepository(NotificationReceipt);
         this.vendorRepo = AppDataSource.getRepository(Vendor);
         this.orderRepo = AppDataSource.getRepository(Order);
+        this.userRepo = AppDataSource.getRepository(User);
+        this.dispatcher = new NotificationDispatcher();
+    }
+
+    /**
+     * Paginated inbox of the authenticated user or vendor, newest first.
+     * Notifications they deleted are never listed; archived ones only with archived=true.
+     */
+    async getNotifications(authEntity: User | Vendor, query: NotificationInboxQueryInput) {
+        const { page, limit, type, status, archived, from, to } = query;
+
+        const qb = this.inboxQuery(authEntity)
+            .andWhere(archived ? "receipt.archivedAt IS NOT NULL" : "receipt.archivedAt IS NULL")
+            .orderBy("notification.createdAt", "DESC")
+            .addOrderBy("notification.id", "DESC")
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (type) qb.andWhere("notification.type = :type", { type });
+        if (status === "read") qb.andWhere("receipt.readAt IS NOT NULL");
+        if (status === "unread") qb.andWhere("receipt.readAt IS NULL");
+        if (from) qb.andWhere("notification.createdAt >= :from", { from });
+        if (to) qb.andWhere("notification.createdAt <= :to", { to });
+
+        const [notifications, total] = await qb.getManyAndCount();
+
+        return {
+            notifications: notifications.map((notification) => this.toInboxNotification(notification)),
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    // Unread notifications in the inbox, archived ones excluded
+    async getUnreadCount(authEntity: User | Vendor): Promise<number> {
+        return this.inboxQuery(authEntity)
+            .andWhere("receipt.readAt IS NULL")
+            .andWhere("receipt.archivedAt IS NULL")
+            .getCount();
     }
 
-    async getNotifications(authEntity: User | Vendor): Promise<Notification[]> {
+    /**
+     * A notification in the inbox of the authenticated user or vendor.
+     * Others' notifications are reported as not found.
+     */
+    async getNotificationById(authEntity: User | Vendor, id: string): Promise<InboxNotification> {
+        const notification = validator.isUUID(id)
+            ? await this.inboxQuery(authEntity).andWhere("notification.id = :id", { id }).getOne()
+            : null;
+
+        if (!notification) {
+            throw new APIError(404, "Notification does not exist");
+        }
+        return this.toInboxNotification(notification);
+    }
+
+    async markAsRead(authEntity: User | Vendor, id: string): Promise<InboxNotification> {
+        const notification = await this.getNotificationById(authEntity, id);
+        if (notification.isRead) return notification;
+
+        const readAt = new Date();
+        await this.saveReceipt(authEntity, id, { readAt });
+        return { ...notification, isRead: true, readAt };
+    }
+
+    /**
+     * Marks every unread notification in the inbox as read, archived ones included
+     *
+     * @returns Number of notifications marked
+     */
+    async markAllAsRead(authEntity: User | Vendor): Promise<number> {
+        const reader = this.readerOf(authEntity);
+        const [unread, parameters] = this.inboxQuery(authEntity)
+            .select("notification.id", "id")
+            .andWhere("receipt.readAt IS NULL")
+            .getQueryAndParameters();
+
+        const marked: { notificationId: string }[] = await AppDataSource.query(`
+            INSERT INTO "notification_receipts" ("notificationId", "${reader.column}", "readAt")
+            SELECT unread."id", $${parameters.length + 1}, now() FROM (${unread}) unread
+            ON CONFLICT ("notificationId", "${reader.column}") WHERE "${reader.column}" IS NOT NULL
+            DO UPDATE SET "readAt" = EXCLUDED."readAt"
+            RETURNING "notificationId"
+        `, [...parameters, reader.id]);
+
+        return marked.length;
+    }
+
+    async archive(authEntity: User | Vendor, id: string): Promise<InboxNotification> {
+        const notification = await this.getNotificationById(authEntity, id);
+        const archivedAt = notification.archivedAt ?? new Date();
+
+        await this.saveReceipt(authEntity, id, { archivedAt });
+        return { ...notification, archivedAt };
+    }
+
+    async unarchive(authEntity: User | Vendor, id: string): Promise<InboxNotification> {
+        const notification = await this.getNotificationById(authEntity, id);
+
+        await this.saveReceipt(authEntity, id, { archivedAt: null });
+        return { ...notification, archivedAt: null };
+    }
+
+    // Removes the notification from this recipient's inbox only
+    async delete(authEntity: User | Vendor, id: string): Promise<void> {
+        await this.getNotificationById(authEntity, id);
+        await this.saveReceipt(authEntity, id, { deletedAt: new Date() });
+    }
+
+    /**
+     * Notifications created after the one a stream client last received, oldest first,
+     * for replaying what was missed while it reconnected.
+     *
+     * @param authEntity - Authenticated user or vendor
+     * @param lastEventId - ID of the last notification received (the Last-Event-ID header)
+     * @returns Up to NOTIFICATION_STREAM.MAX_REPLAY notifications; none if the ID is not one of theirs
+     */
+    async getMissedNotifications(authEntity: User | Vendor, lastEventId?: string): Promise<Notification[]> {
+        if (!lastEventId) return [];
+
+        const audience = this.audienceOf(authEntity);
+        const last = await this.notificationRepo.findOne({ where: { ...audience, id: lastEventId } }).catch(() => null);
+        if (!last) return [];
+
+        return this.notificationRepo.find({
+            where: { ...audience, createdAt: MoreThan(last.createdAt) },
+            order: { createdAt: "ASC" },
+            take: NOTIFICATION_STREAM.MAX_REPLAY,
+        });
+    }
+
+    // Admins and staff see ADMIN notifications, vendors their own, customers those addressed to them
+    private audienceOf(authEntity: User | Vendor): FindOptionsWhere<Notification> {
         if (!authEntity) {
             throw new APIError(401, "Not authenticated");
         }
@@ -25,37 +181,75 @@ export class NotificationService {
         // ADMIN & STAFF (from User)
         if (authEntity instanceof User &&
             (authEntity.role === UserRole.ADMIN || authEntity.role === UserRole.STAFF)) {
-            return this.notificationRepo.find({
-                where: { target: NotificationTarget.ADMIN },
-                order: { createdAt: "DESC" },
-            });
+            return { target: NotificationTarget.ADMIN };
         }
 
         //  VENDOR
         if (authEntity instanceof Vendor) {
-            return this.notificationRepo.find({
-                where: {
-                    target: NotificationTarget.VENDOR,
-                    vendorId: authEntity.id,
-                },
-                order: { createdAt: "DESC" },
-            });
+            return { target: NotificationTarget.VENDOR, vendorId: authEntity.id };
         }
 
         // 👤 REGULAR USER
         if (authEntity instanceof User && authEntity.role === UserRole.USER) {
-            return this.notificationRepo.find({
-                where: {
-                    target: NotificationTarget.USER,
-                    createdById: authEntity.id,
-                },
-                order: { createdAt: "DESC" },
-            });
+            return { target: NotificationTarget.USER, createdById: authEntity.id };
         }
 
         throw new APIError(403, "Invalid or unauthorized role");
     }
 
+    // Receipts of admins, staff and customers are kept per user, those of vendors per vendor
+    private readerOf(authEntity: User | Vendor): { column: "userId" | "vendorId"; id: number } {
+        return authEntity instanceof Vendor
+            ? { column: "vendorId", id: authEntity.id }
+            : { column: "userId", id: authEntity.id };
+    }
+
+    // The recipient's notifications with their receipt, minus those they deleted
+    private inboxQuery(authEntity: User | Vendor): SelectQueryBuilder<Notification> {
+        const audience = this.audienceOf(authEntity);
+        const reader = this.readerOf(authEntity);
+
+        return this.notificationRepo.createQueryBuilder("notification")
+            .leftJoinAndMapOne(
+                "notification.receipt",
+                NotificationReceipt,
+                "receipt",
+                `receipt.notificationId = notification.id AND receipt.${reader.column} = :readerId`,
+                { readerId: reader.id },
+            )
+            .where(audience)
+            .andWhere("receipt.deletedAt IS NULL");
+    }
+
+    private async saveReceipt(authEntity: User | Vendor, notificationId: string, changes: ReceiptChanges): Promise<void> {
+        const reader = this.readerOf(authEntity);
+
+        await this.receiptRepo.createQueryBuilder()
+            .insert()
+            .into(NotificationReceipt)
+            .values({ notificationId, [reader.column]: reader.id, ...changes })
+            .orUpdate(Object.keys(changes), ["notificationId", reader.column], {
+                indexPredicate: `"${reader.column}" IS NOT NULL`,
+            })
+            .execute();
+    }
+
+    private toInboxNotification(notification: Notification): InboxNotification {
+        const { receipt, ...rest } = notification;
+        return {
+            ...rest,
+            isRead: !!receipt?.readAt,
+            readAt: receipt?.readAt ?? null,
+            archivedAt: receipt?.archivedAt ?? null,
+        };
+    }
+
+    // Saves notifications that have no channel preference (admin ones, vendor moderation ones)
+    // and pushes them to the recipients' open streams
+    private async saveAndPublish(notifications: Notification[]): Promise<void> {
+        await this.dispatcher.saveInApp(notifications);
+    }
+
 
     async notifyOrderPlaced(order: Order): Promise<void> {
         console.log("____________Order---------------")
@@ -80,28 +274,29 @@ export class NotificationService {
         });
         notifications.push(adminNotification);
 
-        // Notify Vendors involved
+        // Notify Vendors involved, on the channels they chose
         const vendorIds = [...new Set(order.orderItems.map(item => item.vendorId))];
 
         const vendors = await this.vendorRepo.find({
             where: { id: In(vendorIds) },
         });
 
-        for (const vendor of vendors) {
-            notifications.push(
-                this.notificationRepo.create({
-                    title: "New Order Received",
-                    message: `You have received a new order #${order.id}`,
-                    type: NotificationType.ORDER_PLACED,
-                    target: NotificationTarget.VENDOR,
-                    vendorId: vendor.id,
-                    orderId: order.id,
-                    createdById: (await orders).orderedBy.id,
-                })
-            );
-        }
+        const createdById = (await orders).orderedBy.id;
 
-        await this.notificationRepo.save(notifications);
+        await this.saveAndPublish(notifications);
+        await this.dispatcher.dispatchAll(vendors.map((vendor) => ({
+            event: NotificationEvent.ORDER_PLACED,
+            recipient: { vendorId: vendor.id },
+            inApp: this.notificationRepo.create({
+                title: "New Order Received",
+                message: `You have received a new order #${order.id}`,
+                type: NotificationType.ORDER_PLACED,
+                target: NotificationTarget.VENDOR,
+                vendorId: vendor.id,
+                orderId: order.id,
+                createdById,
+            }),
+        })));
     }
 
     async notifyOrderStatusUpdated(order: Order): Promise<void> {
@@ -121,34 +316,112 @@ export class NotificationService {
             })
         );
 
-        // Vendor notifications
+        await this.saveAndPublish(notifications);
+
+        // Vendor notifications, on the channels they chose
         const vendorIds = [...new Set(order.orderItems.map(item => item.vendorId))];
 
-        for (const vendorId of vendorIds) {
-            notifications.push(
-                this.notificationRepo.create({
-                    title: "Order Status Changed",
-                    message: statusMessage,
+        const requests: DispatchRequest[] = vendorIds.map((vendorId) => ({
+            event: NotificationEvent.ORDER_STATUS_CHANGED,
+            recipient: { vendorId },
+            inApp: this.notificationRepo.create({
+                title: "Order Status Changed",
+                message: statusMessage,
+                type: NotificationType.ORDER_STATUS_UPDATED,
+                target: NotificationTarget.VENDOR,
+                vendorId,
+                orderId: order.id,
+                // link: `/vendor/orders/${order.id}`,
+            }),
+            sms: statusMessage,
+        }));
+
+        // Customer notification; user notifications are addressed through createdById.
+        // The status email is sent where the status is applied.
+        const customerId = order.orderedById ?? order.orderedBy?.id;
+        if (customerId) {
+            const customerMessage = `Your order #${order.id} is now ${order.status}`;
+            requests.push({
+                event: NotificationEvent.ORDER_STATUS_CHANGED,
+                recipient: { userId: customerId },
+                inApp: this.notificationRepo.create({
+                    title: "Order Status Updated",
+                    message: customerMessage,
                     type: NotificationType.ORDER_STATUS_UPDATED,
-                    target: NotificationTarget.VENDOR,
-                    vendorId,
+                    target: NotificationTarget.USER,
+                    createdById: customerId,
                     orderId: order.id,
-                    // link: `/vendor/orders/${order.id}`,
-                })
-            );
+                }),
+                sms: customerMessage,
+            });
         }
 
-        await this.notificationRepo.save(notifications);
+        await this.dispatcher.dispatchAll(requests);
     }
 
 
-    async markAsRead(notificationId: string): Promise<void> {
-        await this.notificationRepo.update(notificationId, { isRead: true });
+    async notifyProductQuestion(question: ProductQuestion, product: Product): Promise<void> {
+        await this.saveAndPublish([
+            this.notificationRepo.create({
+                title: "New Product Question",
+                message: `A customer asked about "${product.name}": ${question.question}`,
+                type: NotificationType.PRODUCT_QUESTION,
+                target: NotificationTarget.VENDOR,
+                vendorId: product.vendorId,
+                createdById: question.userId ?? undefined,
+            }),
+        ]);
     }
 
-    async getNotificationById(id: string) {
-        return await this.notificationRepo.findOne({
-            where: { id }
-        })
+
+    async notifyProductReview(review: Review, product: Product): Promise<void> {
+        await this.saveAndPublish([
+            this.notificationRepo.create({
+                title: "New Product Review",
+                message: `A customer rated "${product.name}" ${review.rating}/5: ${review.comment}`,
+                type: NotificationType.PRODUCT_REVIEW,
+                target: NotificationTarget.VENDOR,
+                vendorId: product.vendorId,
+                createdById: review.userId,
+            }),
+        ]);
+    }
+
+    // Tells the customer the vendor replied to their review, on the channels they chose
+    async notifyReviewReply(review: Review, product: Product): Promise<void> {
+        const customer = await this.userRepo.findOne({ where: { id: review.userId }, select: ["id", "email"] });
+        if (!customer) return;
+
+        await this.dispatcher.dispatch({
+            event: NotificationEvent.REVIEW_REPLY,
+            recipient: { userId: customer.id },
+            inApp: this.notificationRepo.create({
+                title: "Review Reply",
+                message: `The seller replied to your review of "${product.name}": ${review.vendorReply}`,
+                type: NotificationType.REVIEW_REPLY,
+                target: NotificationTarget.USER,
+                createdById: customer.id,
+            }),
+            email: () => sendReviewReplyEmail(customer.email, product.name, review.vendorReply!),
+            sms: `The seller replied to your review of "${product.name}"`,
+        });
+    }
+
+    async notifyReviewDisputeResolved(dispute: ReviewDispute, product: Product): Promise<void> {
+        const outcome = dispute.status === ReviewDisputeStatus.UPHELD
+            ? "upheld and the review was removed"
+            : "dismissed and the review stays published";
+
+        await this.saveAndPublish([
+            this.notificationRepo.create({
+                title: "Review Dispute",
+                message: `Your report of a review on "${product.name}" was ${outcome}`
+                    + (dispute.resolutionNote ? `: ${dispute.resolutionNote}` : ""),
+                type: NotificationType.REVIEW_DISPUTE,
+                target: NotificationTarget.VENDOR,
+                vendorId: dispute.vendorId,
+                createdById: dispute.resolvedById ?? undefined,
+            }),
+        ]);
     }
 }
\ No newline at end of file
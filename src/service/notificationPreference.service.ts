@@ -0,0 +1,126 @@
+import { DataSource, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import TestDataSource from '../config/db.test.config';
+import { NotificationPreference } from '../entities/notificationPreference.entity';
+import { NotificationEvent } from '../entities/notificationPreference.enum';
+import { User, UserRole } from '../entities/user.entity';
+import { Vendor } from '../entities/vendor.entity';
+import { APIError } from '../utils/ApiError.utils';
+import { UpdateNotificationPreferencesInput } from '../utils/zod_validations/notification.zod';
+
+/**
+ * Customer or vendor the preferences belong to
+ */
+export type PreferenceOwner = { userId: number } | { vendorId: number };
+
+export interface ChannelPreferences {
+    email: boolean;
+    inApp: boolean;
+    sms: boolean;
+}
+
+export interface EventPreferences extends ChannelPreferences {
+    event: NotificationEvent;
+}
+
+/**
+ * Service for the channels customers and vendors receive each notification event on.
+ *
+ * Only changed events are stored; the others use DEFAULT_CHANNELS (email and in-app, no SMS).
+ *
+ * Module: Notifications
+ */
+export class NotificationPreferenceService {
+    static readonly DEFAULT_CHANNELS: ChannelPreferences = { email: true, inApp: true, sms: false };
+
+    private dataSource: DataSource;
+    private preferenceRepository: Repository<NotificationPreference>;
+
+    constructor(dataSource?: DataSource) {
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.preferenceRepository = this.dataSource.getRepository(NotificationPreference);
+    }
+
+    /**
+     * Preference owner of an authenticated customer or vendor
+     *
+     * @param authEntity {User | Vendor} - User or vendor from combinedAuthMiddleware
+     * @returns {PreferenceOwner}
+     * @throws {APIError} 403 for admins and staff, who are notified in-app only
+     */
+    static ownerOf(authEntity: User | Vendor): PreferenceOwner {
+        if (authEntity instanceof Vendor) {
+            return { vendorId: authEntity.id };
+        }
+        if (authEntity.role === UserRole.USER) {
+            return { userId: authEntity.id };
+        }
+        throw new APIError(403, 'Notification preferences are only available to customers and vendors');
+    }
+
+    /**
+     * Channels of every event, defaults included
+     *
+     * @param owner {PreferenceOwner} - Customer or vendor
+     * @returns {Promise<EventPreferences[]>} One entry per event
+     * @access Customer | Vendor
+     */
+    async getPreferences(owner: PreferenceOwner): Promise<EventPreferences[]> {
+        const saved = await this.preferenceRepository.find({ where: owner });
+
+        return Object.values(NotificationEvent).map((event) => {
+            const preference = saved.find((row) => row.event === event);
+            return { event, ...this.channelsOf(preference) };
+        });
+    }
+
+    /**
+     * Changes the channels of the given events; channels left out keep their current setting
+     *
+     * @param owner {PreferenceOwner} - Customer or vendor
+     * @param input {UpdateNotificationPreferencesInput} - Channels per event
+     * @returns {Promise<EventPreferences[]>} Channels of every event after the change
+     * @access Customer | Vendor
+     */
+    async updatePreferences(owner: PreferenceOwner, input: UpdateNotificationPreferencesInput): Promise<EventPreferences[]> {
+        const current = await this.getPreferences(owner);
+        const column = 'userId' in owner ? 'userId' : 'vendorId';
+
+        const rows = input.preferences.map(({ event, ...channels }) => {
+            const existing = current.find((preference) => preference.event === event)!;
+            return {
+                ...owner,
+                event,
+                email: channels.email ?? existing.email,
+                inApp: channels.inApp ?? existing.inApp,
+                sms: channels.sms ?? existing.sms,
+            };
+        });
+
+        await this.preferenceRepository.upsert(rows, {
+            conflictPaths: [column, 'event'],
+            indexPredicate: `"${column}" IS NOT NULL`,
+        });
+
+        return this.getPreferences(owner);
+    }
+
+    /**
+     * Channels one event is sent on
+     *
+     * @param owner {PreferenceOwner} - Customer or vendor
+     * @param event {NotificationEvent} - Event being sent
+     * @returns {Promise<ChannelPreferences>}
+     */
+    async getChannels(owner: PreferenceOwner, event: NotificationEvent): Promise<ChannelPreferences> {
+        const preference = await this.preferenceRepository.findOne({ where: { ...owner, event } });
+        return this.channelsOf(preference);
+    }
+
+    private channelsOf(preference?: NotificationPreference | null): ChannelPreferences {
+        if (!preference) {
+            return { ...NotificationPreferenceService.DEFAULT_CHANNELS };
+        }
+        return { email: preference.email, inApp: preference.inApp, sms: preference.sms };
+    }
+}
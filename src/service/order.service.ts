@@ -1,7 +1,7 @@
-import { In, Not, Repository } from 'typeorm';
+import { EntityManager, In, Not, Repository } from 'typeorm';
 import AppDataSource from '../config/db.config';
 import { APIError } from '../utils/ApiError.utils';
-import { IShippingAddressRequest, IUpdateOrderStatusRequest, IOrderCreateRequest } from '../interface/order.interface';
+import { IShippingAddressRequest, IUpdateOrderStatusRequest, IOrderCreateRequest, IUpdateVendorOrderStatusRequest } from '../interface/order.interface';
 import { Order, OrderStatus, PaymentStatus, PaymentMethod } from '../entities/order.entity';
 import { Address } from '../entities/address.entity';
 import { OrderItem } from '../entities/orderItems.entity';
@@ -13,7 +13,7 @@ import { PaymentService } from './payment.service';
 import { District } from '../entities/district.entity';
 import { Product } from '../entities/product.entity';
 import { PromoService } from './promo.service';
-import { DiscountType, InventoryStatus } from '../entities/product.enum';
+import { InventoryStatus } from '../entities/product.enum';
 import { Variant } from '../entities/variant.entity';
 import { findUserById } from './user.service';
 import { sendCustomerOrderEmail, sendOrderStatusEmail, sendVendorOrderEmail } from '../utils/nodemailer.utils';
@@ -21,11 +21,39 @@ import { add } from 'winston';
 import crypto from 'crypto';
 import axios from 'axios';
 import 'dotenv/config';
-import { PromoType } from '../entities/promo.entity';
+import { IPromoEvaluation } from '../interface/promo.interface';
 import { VendorService } from './vendor.service';
 import { Vendor } from '../entities/vendor.entity';
+import { VendorStatus } from '../entities/vendorKyc.enum';
+import { VendorOrder, VendorOrderStatus } from '../entities/vendorOrder.entity';
+import { PriceHelper } from '../utils/helpers/PriceHelper';
+import { ShippingService } from './shipping.service';
+import { InvoiceService } from './invoice.service';
+import { DealService } from './deal.service';
+import { StockReservationService } from './stockReservation.service';
+import { StockMovementService } from './stockMovement.service';
+import { StockMovementReason } from '../entities/stockMovement.entity';
+import { IStockMovementContext } from '../interface/stockMovement.interface';
+import { NotificationDispatcher } from '../services/notification/NotificationDispatcher';
+import { NotificationEvent } from '../entities/notificationPreference.enum';
+import { Notification, NotificationTarget, NotificationType } from '../entities/notification.entity';
+import { PaymentService as RefundPaymentService } from '../services/payment/PaymentService';
 
 
+/**
+ * Fulfilment transitions a vendor sub-order can go through.
+ * Matches the admin order transitions so a whole-order update can be cascaded to each vendor.
+ */
+const VENDOR_ORDER_TRANSITIONS: Record<VendorOrderStatus, VendorOrderStatus[]> = {
+    [VendorOrderStatus.CONFIRMED]: [VendorOrderStatus.SHIPPED, VendorOrderStatus.CANCELLED, VendorOrderStatus.DELAYED],
+    [VendorOrderStatus.DELAYED]: [VendorOrderStatus.SHIPPED, VendorOrderStatus.CANCELLED],
+    [VendorOrderStatus.SHIPPED]: [VendorOrderStatus.DELIVERED, VendorOrderStatus.CANCELLED],
+    [VendorOrderStatus.DELIVERED]: [VendorOrderStatus.RETURNED],
+    [VendorOrderStatus.RETURNED]: [],
+    [VendorOrderStatus.CANCELLED]: [],
+    [VendorOrderStatus.PENDING]: [],
+};
+
 /**
  * Service class responsible for managing orders.
  * Handles creation, retrieval, update, and deletion of orders,
@@ -44,8 +72,16 @@ export class OrderService {
     private districtRepository: Repository<District>;
     private productRepository: Repository<Product>;
     private promoService: PromoService;
+    private dealService: DealService;
+    private stockReservationService: StockReservationService;
+    private stockMovementService: StockMovementService;
     private variantRepository: Repository<Variant>;
     private vendorService: VendorService;
+    private vendorOrderRepository: Repository<VendorOrder>;
+    private shippingService: ShippingService;
+    private invoiceService: InvoiceService;
+    private notificationDispatcher: NotificationDispatcher;
+    private refundPaymentService: RefundPaymentService;
 
 
     /**
@@ -84,9 +120,27 @@ export class OrderService {
 
         this.promoService = new PromoService();
 
+        this.dealService = new DealService();
+
+        this.stockReservationService = new StockReservationService();
+
+        this.stockMovementService = new StockMovementService();
+
         this.variantRepository = AppDataSource.getTreeRepository(Variant);
 
         this.vendorService = new VendorService();
+
+        // Repository for per-vendor sub-orders (split shipments)
+        this.vendorOrderRepository = AppDataSource.getRepository(VendorOrder);
+
+        // Service instance to quote shipping from the configured zones and vendor rates
+        this.shippingService = new ShippingService();
+
+        // Service instance to issue tax invoices attached to order emails
+        this.invoiceService = new InvoiceService();
+
+        // Sends order emails and SMS on the channels customers and vendors chose
+        this.notificationDispatcher = new NotificationDispatcher();
     }
 
     /**
@@ -118,7 +172,7 @@ export class OrderService {
     private async getCart(userId: number): Promise<Cart> {
         const cart = await this.cartRepository.findOne({
             where: { userId },
-            relations: ['items', 'items.product', 'items.product.vendor', 'items.product.vendor.district', 'items.variant'],
+            relations: ['items', 'items.product', 'items.product.vendor', 'items.product.vendor.district', 'items.product.deal', 'items.variant'],
         });
 
         // If cart not found or cart has no items, throw an error indicating cart is empty
@@ -222,30 +276,49 @@ export class OrderService {
      */
     private createOrderItems(items: any[]): OrderItem[] {
         return items.map(item => {
-            let price;
-            if (item.variant) {
-                price = item.variant.basePrice;
-            } else {
-                if (item.product?.discount && item.product?.discount > 0) {
-                    if (item.product?.discountType === DiscountType.PERCENTAGE) {
-                        price = item.product.basePrice - (item.product.basePrice * (item.product.discount / 100));
-                    } else {
-                        price = item.product.basePrice - item.product.discount;
-                    }
-                } else {
-                    price = item.product.basePrice;
-                }
-            }
+            const price = PriceHelper.getUnitPrice(item.product, item.variant);
             return this.orderItemRepository.create({
                 productId: item.product.id,
                 quantity: item.quantity,
                 price,
                 vendorId: item.product.vendorId,
                 variantId: item.variant ? item.variant.id : null,
+                dealId: PriceHelper.isDealLive(item.product.deal) ? item.product.deal.id : null,
             });
         });
     }
 
+    /**
+     * Group order items into one sub-order per vendor so each vendor can fulfil their share separately.
+     * Items are linked to their sub-order; the sub-orders are saved through the order cascade.
+     *
+     * @param {OrderItem[]} orderItems - Unsaved order items of the new order.
+     * @param {OrderStatus} status - Initial status, same as the parent order.
+     * @param {Record<number, number>} vendorShippingFees - Shipping fee quoted for each vendor shipment.
+     * @returns {VendorOrder[]} - One sub-order per vendor.
+     */
+    private createVendorOrders(orderItems: OrderItem[], status: OrderStatus, vendorShippingFees: Record<number, number> = {}): VendorOrder[] {
+        const vendorOrders = new Map<number, VendorOrder>();
+
+        for (const item of orderItems) {
+            let vendorOrder = vendorOrders.get(item.vendorId);
+            if (!vendorOrder) {
+                vendorOrder = this.vendorOrderRepository.create({
+                    vendorId: item.vendorId,
+                    status: status as string as VendorOrderStatus,
+                    subtotal: 0,
+                    shippingFee: vendorShippingFees[item.vendorId] || 0,
+                });
+                vendorOrders.set(item.vendorId, vendorOrder);
+            }
+
+            vendorOrder.subtotal = Math.round((Number(vendorOrder.subtotal) + Number(item.price) * item.quantity) * 100) / 100;
+            item.vendorOrder = vendorOrder;
+        }
+
+        return Array.from(vendorOrders.values());
+    }
+
 
 
     /**
@@ -258,7 +331,9 @@ export class OrderService {
      * @param {Address} address - The shipping address to be used for this order.
      * @param {number} shippingFee - The calculated shipping fee for the order.
      * @param {IOrderCreateRequest} orderData - Order creation input, including payment method.
-     * @returns {Promise<Order>} - A new Order entity ready to be saved.
+     * @param {Record<number, number>} vendorShippingFees - Per-vendor share of the shipping fee.
+     * @returns {Promise<{ order: Order; promoEvaluation: IPromoEvaluation | null }>} - A new Order entity ready to be saved, and the promo to redeem with it.
+     * @throws {APIError} - 400/404 if the promo code cannot be used for this order.
      */
     private async createOrderEntity(
         userId: number,
@@ -267,55 +342,47 @@ export class OrderService {
         items: any[],
         address: Address,
         shippingFee: number,
-        orderData: IOrderCreateRequest
-    ): Promise<Order> {
+        orderData: IOrderCreateRequest,
+        vendorShippingFees: Record<number, number> = {}
+    ): Promise<{ order: Order; promoEvaluation: IPromoEvaluation | null }> {
         // Convert items into OrderItem entities
         const orderItems = this.createOrderItems(items);
 
         // Calculate subtotal from items
         const subtotal = items.reduce((sum, item) => {
-            let basePrice = 0;
-            if (item.variant) {
-                basePrice += item.variant.basePrice;
-            } else {
-                if (item.product?.discount && item.product?.discount > 0) {
-                    if (item.product?.discountType === DiscountType.PERCENTAGE) {
-
-                        basePrice += item.product.basePrice - (item.product.basePrice * (item.product.discount / 100));
-                    } else {
-                        basePrice += item.product.basePrice - item.product.discount;
-                    }
-                } else {
-                    basePrice += item.product.basePrice;
-                }
-            }
-            // const basePrice = item.variant ? item.variant.basePrice : item.product.basePrice;
-            return sum + (basePrice * item.quantity);
+            return sum + (PriceHelper.getUnitPrice(item.product, item.variant) * item.quantity);
         }, 0);
         console.log("--------------subtotal------------------");
         console.log(subtotal);
 
-        // apply promo code if provided
+        // apply promo code if provided; an unusable code rejects the order with the reason
         let discountAmount = 0;
         let appliedPromoCode: string | null = null;
+        let promoEvaluation: IPromoEvaluation | null = null;
 
         if (orderData.promoCode) {
-            const promo = await this.promoService.findPromoByCode(orderData.promoCode);
-            let pastOrderTransaction = await this.orderRepository.find({ where: { appliedPromoCode: orderData.promoCode, orderedById: userId, status: In([OrderStatus.DELIVERED, OrderStatus.CONFIRMED]) } })
-
-            if (promo && promo.isValid && pastOrderTransaction.length === 0) {
-                if (promo.applyOn === PromoType.LINE_TOTAL) {
-                    discountAmount = (subtotal * promo.discountPercentage) / 100;
-                } else {
-                    discountAmount = (shippingFee * promo.discountPercentage) / 100;
-                }
-                appliedPromoCode = promo.promoCode;
-            }
+            promoEvaluation = await this.promoService.evaluatePromo(
+                orderData.promoCode,
+                userId,
+                items.map((item) => ({
+                    productId: item.product.id,
+                    vendorId: item.product.vendorId,
+                    subcategoryId: item.product.subcategoryId,
+                    lineTotal: PriceHelper.getUnitPrice(item.product, item.variant) * item.quantity,
+                })),
+                shippingFee
+            );
+            discountAmount = promoEvaluation.discountAmount;
+            appliedPromoCode = promoEvaluation.promo.promoCode;
         }
 
         const totalPrice = subtotal - discountAmount + shippingFee;
 
-        return this.orderRepository.create({
+        const status = orderData.paymentMethod === PaymentMethod.CASH_ON_DELIVERY
+            ? OrderStatus.CONFIRMED
+            : OrderStatus.PENDING;
+
+        const order = this.orderRepository.create({
             orderedById: userId,
             orderedBy: user,
             totalPrice,
@@ -325,32 +392,61 @@ export class OrderService {
             paymentStatus: PaymentStatus.UNPAID,
             paymentMethod: orderData.paymentMethod,
             appliedPromoCode,
-            status:
-                orderData.paymentMethod === PaymentMethod.CASH_ON_DELIVERY
-                    ? OrderStatus.CONFIRMED
-                    : OrderStatus.PENDING,
+            status,
             shippingAddress: address,
             orderItems,
+            vendorOrders: this.createVendorOrders(orderItems, status, vendorShippingFees),
             isBuyNow: Boolean(isBuyNow),
             phoneNumber: orderData.phoneNumber,
         });
+
+        return { order, promoEvaluation };
     }
 
 
 
+    /**
+     * Persist a new order, checking deal limits, recording its promo redemption and
+     * reserving stock in the same transaction so limits hold even when checkouts race.
+     *
+     * @param {Order} order - Unsaved order entity.
+     * @param {IPromoEvaluation | null} promoEvaluation - Applied promo, if any.
+     * @param {boolean} reserveStock - Hold the items' stock until the online payment completes.
+     * @returns {Promise<Order>} - The saved order.
+     * @throws {APIError} - 400 if the promo or a deal reached a limit, or stock ran out, in the meantime.
+     */
+    private async saveNewOrder(order: Order, promoEvaluation: IPromoEvaluation | null, reserveStock = false): Promise<Order> {
+        return await AppDataSource.transaction(async (manager) => {
+            const dealLines = order.orderItems
+                .filter((item) => item.dealId)
+                .map((item) => ({ dealId: item.dealId!, productId: item.productId, quantity: item.quantity }));
+            await this.dealService.assertDealLimits(order.orderedById, dealLines, manager, true);
 
-    async checkAvailablePromocode(promoCode: string, userId: number) {
-        const promo = await this.promoService.findPromoByCode(promoCode);
-        console.log(promo)
-        if (!promo) {
-            return null;
-        }
-        let pastOrderTransaction = await this.orderRepository.find({ where: { appliedPromoCode: promoCode, orderedById: userId, status: In([OrderStatus.DELIVERED, OrderStatus.CONFIRMED]) } })
-        if (pastOrderTransaction.length > 0) {
-            return null;
-        }
+            const savedOrder = await manager.save(order);
 
-        return promo;
+            if (promoEvaluation) {
+                await this.promoService.recordRedemption(manager, promoEvaluation, savedOrder.orderedById, savedOrder.id);
+            }
+
+            if (reserveStock) {
+                await this.stockReservationService.reserveForOrder(manager, savedOrder);
+            }
+
+            return savedOrder;
+        });
+    }
+
+
+
+
+    /**
+     * Check whether the customer can use a promo code before checkout.
+     * Minimum spend and item scope are checked when the order is placed.
+     *
+     * @throws {APIError} - 404 if the code does not exist, 400 with the reason it cannot be used.
+     */
+    async checkAvailablePromocode(promoCode: string, userId: number) {
+        return await this.promoService.checkPromoForUser(promoCode, userId);
     }
 
 
@@ -571,7 +667,7 @@ export class OrderService {
                 // 🔹 Buy Now: create a temporary item list from product/variant
                 const product = await this.productRepository.findOne({
                     where: { id: productId },
-                    relations: ["variants", "vendor", "vendor.district"],
+                    relations: ["variants", "vendor", "vendor.district", "deal"],
                 });
 
                 console.log("------------------Product------------------")
@@ -600,7 +696,8 @@ export class OrderService {
             console.log("----------------items-------------------")
             console.log(items);
 
-            // Check stock before creating the order
+            // Check the vendors still sell and the stock before creating the order
+            this.validateVendors(items);
             await this.validateStock(items);
 
             // Either fetch user's existing address or create a new one based on input
@@ -620,14 +717,14 @@ export class OrderService {
 
 
             // Create the Order entity (not yet saved in DB)
-            let order = await this.createOrderEntity(userId, isBuyNow, user, items, address, shippingFee.shippingFee, orderData);
+            let { order, promoEvaluation } = await this.createOrderEntity(userId, isBuyNow, user, items, address, shippingFee.shippingFee, orderData, shippingFee.vendorFees);
             console.log(order);
 
             // let redirectUrl: string | undefined;
             let esewaRedirectUrl;
             // Handle different payment methods
             if (paymentMethod === PaymentMethod.CASH_ON_DELIVERY) {
-                order = await this.orderRepository.save(order);
+                order = await this.saveNewOrder(order, promoEvaluation);
 
                 order = await this.orderRepository.findOne({
                     where: { id: order.id },
@@ -649,8 +746,8 @@ export class OrderService {
                 paymentMethod === PaymentMethod.NPX
             ) {
                 console.log("------------Order saving after payment is initated for online payment-------- ")
-                // Save order first before initiating online payment
-                order = await this.orderRepository.save(order);
+                // Save order first before initiating online payment; stock is held until the payment completes
+                order = await this.saveNewOrder(order, promoEvaluation, true);
                 if (paymentMethod === PaymentMethod.ESEWA) {
 
                     esewaRedirectUrl = await this.initateEsewaPayment(order);
@@ -687,7 +784,7 @@ export class OrderService {
 
         } catch (err) {
             console.log("Error", err)
-            throw new APIError(500, 'Esewa payment verification failed');
+            throw err instanceof APIError ? err : new APIError(500, 'Esewa payment verification failed');
         }
     }
 
@@ -781,23 +878,32 @@ export class OrderService {
             relations: ["district"],
         });
 
+        const invoice = await this.invoiceService.getCustomerInvoiceAttachment(order.id);
+
         // Send customer email
-        await sendCustomerOrderEmail(
-            user.email,
-            order.id,
-            order.orderItems.map((item) => {
-                const vendor = vendors.find((v) => v.id === item.vendorId);
-                return {
-                    name: item.product.name,
-                    sku: item.variant?.sku || null,
-                    quantity: item.quantity,
-                    price: item.price,
-                    variantAttributes: item.variant?.attributes || null,
-                    vendorDistrict: vendor?.district?.name || null,
-                };
-            }),
-            user.address.district || null
-        );
+        await this.notificationDispatcher.dispatch({
+            event: NotificationEvent.ORDER_PLACED,
+            recipient: { userId: user.id },
+            email: () => sendCustomerOrderEmail(
+                user.email,
+                order.id,
+                order.orderItems.map((item) => {
+                    const vendor = vendors.find((v) => v.id === item.vendorId);
+                    return {
+                        name: item.product.name,
+                        sku: item.variant?.sku || null,
+                        quantity: item.quantity,
+                        price: item.price,
+                        variantAttributes: item.variant?.attributes || null,
+                        vendorDistrict: vendor?.district?.name || null,
+                    };
+                }),
+                user.address.district || null,
+                undefined,
+                invoice
+            ),
+            sms: `Your order #${order.id} has been placed.`,
+        });
 
         // Send emails to vendors
         for (const vendorId of vendorIds) {
@@ -816,21 +922,26 @@ export class OrderService {
 
             if (itemsForVendor.length === 0) continue;
 
-            await sendVendorOrderEmail(
-                vendor.email,
-                order.paymentMethod,
-                order.id,
-                itemsForVendor,
-                {
-                    name: user.fullName,
-                    phone: user.phoneNumber,
-                    email: user.email,
-                    city: user.address.city,
-                    district: user.address.district,
-                    localAddress: user.address.localAddress,
-                    landmark: user.address.landmark,
-                }
-            );
+            await this.notificationDispatcher.dispatch({
+                event: NotificationEvent.ORDER_PLACED,
+                recipient: { vendorId: vendor.id },
+                email: () => sendVendorOrderEmail(
+                    vendor.email,
+                    order.paymentMethod,
+                    order.id,
+                    itemsForVendor,
+                    {
+                        name: user.fullName,
+                        phone: user.phoneNumber,
+                        email: user.email,
+                        city: user.address.city,
+                        district: user.address.district,
+                        localAddress: user.address.localAddress,
+                        landmark: user.address.landmark,
+                    }
+                ),
+                sms: `New order #${order.id}: ${itemsForVendor.length} item(s) to prepare.`,
+            });
         }
     }
 
@@ -842,9 +953,8 @@ export class OrderService {
                 throw new APIError(404, "Order not found");
             }
 
-            // Update order status
-            order.status = OrderStatus.CANCELLED;
-            await this.orderRepository.save(order);
+            // A late failure callback must not cancel an order that was paid in the meantime
+            await this.cancelUnpaidOrder(order.id);
             return { success: true }
         } catch (err) {
             console.log("Error", err)
@@ -859,16 +969,13 @@ export class OrderService {
                 throw new APIError(404, "Order not found");
             }
 
-            // Update order status and transaction ID
-            order.status = OrderStatus.CONFIRMED;
-            order.paymentStatus = PaymentStatus.PAID;
-            order.mTransactionId = transactionId;
-            await this.orderRepository.save(order);
+            // Payment callbacks can repeat; only the first one marks the order paid and deducts stock
+            await this.confirmPaidOrder(order.id, transactionId);
 
-            return order;
+            return await this.orderRepository.findOne({ where: { id: orderId } });
         } catch (err) {
             console.log(err)
-            throw new APIError(500, "Failed to confirm order");
+            throw err instanceof APIError ? err : new APIError(500, "Failed to confirm order");
         }
     }
 
@@ -959,8 +1066,21 @@ export class OrderService {
     }
 
 
-    // Separate method for stock validation
+    // Products of vendors that are not approved (KYC pending or suspended) cannot be ordered, even from an older cart
+    private validateVendors(cartItems: CartItem[]): void {
+        for (const item of cartItems) {
+            if (item.product.vendor?.status !== VendorStatus.APPROVED) {
+                throw new APIError(400, `${item.product.name} is not available from its vendor right now`);
+            }
+        }
+    }
+
+    // Separate method for stock validation; stock held for other customers' pending payments is not available
     private async validateStock(cartItems: CartItem[]): Promise<void> {
+        const reserved = await this.stockReservationService.getReservedQuantities(
+            [...new Set(cartItems.map((item) => item.product.id))]
+        );
+
         for (const item of cartItems) {
 
             console.log("------------this is a items for debugging----------------")
@@ -978,10 +1098,12 @@ export class OrderService {
                     throw new APIError(404, `Variant not found for product: ${item.product.name}`);
                 }
 
-                if (variant.stock < item.quantity) {
+                const availableVariantStock = variant.stock - (reserved.variants.get(String(variant.id)) || 0);
+
+                if (availableVariantStock < item.quantity) {
 
                     console.log(`Insufficient stock for variant "${variant.sku || 'N/A'}" of product "${item.product.name}". ` +
-                        `Available: ${variant.stock}, Requested: ${item.quantity}`)
+                        `Available: ${Math.max(availableVariantStock, 0)}, Requested: ${item.quantity}`)
 
                     throw new APIError(400, "Insufficient stock");
                 }
@@ -1002,20 +1124,37 @@ export class OrderService {
                 throw new APIError(404, `Product not found for cart item ID: ${item.id}`);
             }
 
-            if (!product.stock || product.stock < item.quantity) {
+            const availableStock = Math.max(0, (product.stock || 0) - (reserved.products.get(product.id) || 0));
+
+            if (availableStock < item.quantity) {
                 throw new APIError(400,
                     `Insufficient stock for product "${product.name}". ` +
-                    `Available: ${product.stock || 0}, Requested: ${item.quantity}`
+                    `Available: ${availableStock}, Requested: ${item.quantity}`
                 );
             }
 
         }
     }
-    private async restoreStock(orderItems: any[]): Promise<void> {
+
+    /**
+     * Put the quantities of the given order items back into product or variant stock.
+     * Used when an unpaid order is cancelled and when returned goods are received.
+     * Each change is recorded in the stock ledger.
+     *
+     * @param {any[]} orderItems - Items carrying productId/variantId, orderId and the quantity to restock.
+     * @param {IStockMovementContext} context - Ledger reason and actor; defaults to a cancellation.
+     * @param {EntityManager} [manager] - Manager of the transaction that changed the order or return status.
+     * @throws {APIError} Throws 404 if a product or variant no longer exists.
+     */
+    async restoreStock(orderItems: any[], context: IStockMovementContext = {}, manager: EntityManager = AppDataSource.manager): Promise<void> {
+        const reason = context.reason || StockMovementReason.CANCELLATION;
+        const variantRepository = manager.getRepository(Variant);
+        const productRepository = manager.getRepository(Product);
+
         for (const item of orderItems) {
             // --- Handle Variant Stock ---
             if (item.variantId) {
-                const variant = await this.variantRepository.findOne({
+                const variant = await variantRepository.findOne({
                     where: { id: item.variantId },
                     relations: ["product"],
                 });
@@ -1034,12 +1173,22 @@ export class OrderService {
                         ? InventoryStatus.LOW_STOCK
                         : InventoryStatus.AVAILABLE;
 
-                await this.variantRepository.save(variant);
+                await variantRepository.save(variant);
+
+                await this.stockMovementService.record([{
+                    ...context,
+                    productId: item.productId,
+                    variantId: variant.id,
+                    delta: item.quantity,
+                    balanceAfter: variant.stock,
+                    reason,
+                    orderId: item.orderId ?? context.orderId,
+                }], manager);
 
             }
             // --- Handle Product Stock for non-variant product ---
             else if (item.productId) {
-                const product = await this.productRepository.findOne({
+                const product = await productRepository.findOne({
                     where: { id: item.productId },
                 });
 
@@ -1057,7 +1206,16 @@ export class OrderService {
                         ? InventoryStatus.LOW_STOCK
                         : InventoryStatus.AVAILABLE;
 
-                await this.productRepository.save(product);
+                await productRepository.save(product);
+
+                await this.stockMovementService.record([{
+                    ...context,
+                    productId: product.id,
+                    delta: item.quantity,
+                    balanceAfter: product.stock,
+                    reason,
+                    orderId: item.orderId ?? context.orderId,
+                }], manager);
 
             }
             // --- Invalid Order Item ---
@@ -1068,12 +1226,163 @@ export class OrderService {
     }
 
 
-    // Separate method for stock updates
-    private async updateStock(orderItems: any[]): Promise<void> {
+    /**
+     * Deduct stock for a paid online order and mark its reservations committed.
+     * Stock is deducted even if the reservation expired before the payment arrived.
+     *
+     * @param {number} orderId - The paid order.
+     * @param {EntityManager} [manager] - Manager of the transaction that marked the order paid.
+     * @throws {APIError} Throws 400 if the stock was sold in the meantime.
+     */
+    async commitReservedStock(orderId: number, manager: EntityManager = AppDataSource.manager): Promise<void> {
+        const orderItems = await manager.find(OrderItem, { where: { orderId } });
+
+        await this.stockReservationService.commitForOrder(orderId, manager);
+        await this.updateStock(orderItems, manager);
+    }
+
+    /**
+     * Mark an online order paid and deduct its reserved stock, exactly once.
+     * The payment status is flipped by a conditional update in the same transaction as the stock deduction,
+     * so repeated or concurrent payment callbacks for the order cannot deduct its stock twice.
+     *
+     * @param {number} orderId - The paid order.
+     * @param {string} [transactionId] - Gateway transaction ID to store on the order.
+     * @returns {Promise<boolean>} True if this call marked the order paid, false if it already was.
+     * @throws {APIError} Throws 409 if the stock was sold in the meantime; the order is then cancelled and its payment refunded.
+     */
+    async confirmPaidOrder(orderId: number, transactionId?: string): Promise<boolean> {
+        let confirmed: boolean;
+        try {
+            confirmed = await AppDataSource.transaction(async (manager) => {
+                const result = await manager
+                    .createQueryBuilder()
+                    .update(Order)
+                    .set({
+                        paymentStatus: PaymentStatus.PAID,
+                        status: OrderStatus.CONFIRMED,
+                        ...(transactionId && { mTransactionId: transactionId }),
+                    })
+                    .where('id = :orderId', { orderId })
+                    .andWhere('"paymentStatus" <> :paid', { paid: PaymentStatus.PAID })
+                    .execute();
+
+                if (!result.affected) {
+                    return false;
+                }
+
+                await this.commitReservedStock(orderId, manager);
+                return true;
+            });
+        } catch (error) {
+            // The stock deduction rolled back, but the gateway has taken the money
+            if (error instanceof APIError && error.status === 400) {
+                await this.cancelSoldOutPaidOrder(orderId, error.message, transactionId);
+                throw new APIError(409, 'Some items of this order sold out before the payment was confirmed. The order was cancelled and the payment is being refunded');
+            }
+            throw error;
+        }
+
+        if (confirmed) {
+            await this.syncVendorOrders(orderId, OrderStatus.CONFIRMED);
+        }
+        return confirmed;
+    }
+
+    /**
+     * Cancel an online order whose payment failed or was abandoned, and release its reserved stock.
+     * The conditional update only matches unpaid online orders, so a late failure or cancel callback
+     * cannot cancel an order that was paid in the meantime, nor a cash on delivery order.
+     *
+     * @param {number} orderId - The order whose payment did not go through.
+     * @returns {Promise<boolean>} True if this call cancelled the order, false if it was paid or not an online order.
+     */
+    async cancelUnpaidOrder(orderId: number): Promise<boolean> {
+        const result = await this.orderRepository.update(
+            { id: orderId, paymentStatus: PaymentStatus.UNPAID, paymentMethod: Not(PaymentMethod.CASH_ON_DELIVERY) },
+            { status: OrderStatus.CANCELLED }
+        );
+
+        if (!result.affected) {
+            return false;
+        }
+
+        await this.syncVendorOrders(orderId, OrderStatus.CANCELLED);
+        await this.stockReservationService.releaseForOrder(orderId);
+        return true;
+    }
+
+    /**
+     * Record a gateway payment for an order that can no longer be fulfilled because its stock was sold,
+     * cancel the order, refund the payment and alert the admins.
+     * The order is kept PAID so the refund can be issued against it; a failed refund is left for the admins.
+     *
+     * @param {number} orderId - The paid order.
+     * @param {string} reason - Why the stock could not be deducted.
+     * @param {string} [transactionId] - Gateway transaction ID to store on the order.
+     */
+    private async cancelSoldOutPaidOrder(orderId: number, reason: string, transactionId?: string): Promise<void> {
+        const result = await this.orderRepository.update(
+            { id: orderId, paymentStatus: Not(PaymentStatus.PAID) },
+            {
+                paymentStatus: PaymentStatus.PAID,
+                status: OrderStatus.CANCELLED,
+                ...(transactionId && { mTransactionId: transactionId }),
+            }
+        );
+
+        // A concurrent callback for the same payment already recorded it
+        if (!result.affected) {
+            return;
+        }
+
+        await this.syncVendorOrders(orderId, OrderStatus.CANCELLED);
+        await this.stockReservationService.releaseForOrder(orderId);
+
+        let outcome: string;
+        try {
+            const refund = await this.getRefundPaymentService().processRefund(
+                orderId,
+                undefined,
+                `Items sold out before the payment was confirmed: ${reason}`
+            );
+            outcome = `Refund #${refund.id} of Rs. ${refund.amount} completed.`;
+        } catch (error) {
+            console.error(`Refund of sold out order #${orderId} failed:`, error);
+            outcome = `The automatic refund did not complete (${error.message}); check the order's refunds.`;
+        }
+
+        await this.notificationDispatcher.saveInApp([
+            Object.assign(new Notification(), {
+                title: 'Paid Order Sold Out',
+                message: `Order #${orderId} was paid but could not be fulfilled: ${reason}. It was cancelled. ${outcome}`,
+                type: NotificationType.GENERAL,
+                target: NotificationTarget.ADMIN,
+                orderId,
+            }),
+        ]);
+    }
+
+    /**
+     * Refund orchestration needs gateway configuration, so it is only built on first use
+     */
+    private getRefundPaymentService(): RefundPaymentService {
+        if (!this.refundPaymentService) {
+            this.refundPaymentService = new RefundPaymentService();
+        }
+        return this.refundPaymentService;
+    }
+
+
+    // Separate method for stock updates; each deduction is recorded in the stock ledger as a sale
+    private async updateStock(orderItems: any[], manager: EntityManager = AppDataSource.manager): Promise<void> {
+        const variantRepository = manager.getRepository(Variant);
+        const productRepository = manager.getRepository(Product);
+
         for (const item of orderItems) {
             // --- Handle Variant Stock ---
             if (item.variantId) {
-                const variant = await this.variantRepository.findOne({
+                const variant = await variantRepository.findOne({
                     where: { id: item.variantId },
                     relations: ["product"],
                 });
@@ -1100,17 +1409,26 @@ export class OrderService {
                         ? InventoryStatus.LOW_STOCK
                         : InventoryStatus.AVAILABLE;
 
-                await this.variantRepository.save(variant);
+                await variantRepository.save(variant);
+
+                await this.stockMovementService.record([{
+                    productId: item.productId,
+                    variantId: variant.id,
+                    delta: -item.quantity,
+                    balanceAfter: variant.stock,
+                    reason: StockMovementReason.SALE,
+                    orderId: item.orderId,
+                }], manager);
 
                 // remove variant from other users cart if stock is zero
                 if (variant.stock <= 0) {
-                    await this.removeItemFromCarts(item.variantId, true)
+                    await this.removeItemFromCarts(item.variantId, true, manager)
                 }
 
             }
             // --- Handle Product Stock for non variant product---
             else if (item.productId) {
-                const product = await this.productRepository.findOne({
+                const product = await productRepository.findOne({
                     where: { id: item.productId },
                 });
 
@@ -1135,10 +1453,18 @@ export class OrderService {
                         ? InventoryStatus.LOW_STOCK
                         : InventoryStatus.AVAILABLE;
 
-                await this.productRepository.save(product);
+                await productRepository.save(product);
+
+                await this.stockMovementService.record([{
+                    productId: product.id,
+                    delta: -item.quantity,
+                    balanceAfter: product.stock,
+                    reason: StockMovementReason.SALE,
+                    orderId: item.orderId,
+                }], manager);
 
                 if (product.stock <= 0) {
-                    await this.removeItemFromCarts(item.productId, false)
+                    await this.removeItemFromCarts(item.productId, false, manager)
                 }
 
             }
@@ -1150,8 +1476,8 @@ export class OrderService {
     }
 
 
-    private async removeItemFromCarts(itemId: string | number, isvariant: boolean) {
-        const cartItemRepo = AppDataSource.getRepository(CartItem);
+    private async removeItemFromCarts(itemId: string | number, isvariant: boolean, manager: EntityManager = AppDataSource.manager) {
+        const cartItemRepo = manager.getRepository(CartItem);
 
         if (isvariant) {
             await cartItemRepo.delete({ variantId: Number(itemId) })
@@ -1189,16 +1515,15 @@ export class OrderService {
         );
 
         if (isSuccessful) {
+            // Payment callbacks can repeat; only the first one marks the order paid and deducts stock
+            await this.confirmPaidOrder(order.id);
             order.paymentStatus = PaymentStatus.PAID;
             order.status = OrderStatus.CONFIRMED;
-        } else {
-            order.paymentStatus = PaymentStatus.UNPAID;
+        } else if (await this.cancelUnpaidOrder(order.id)) {
+            // A late failed verification must not cancel an order that was paid in the meantime
             order.status = OrderStatus.CANCELLED;
         }
 
-        // Save updated order info
-        await this.orderRepository.save(order);
-
         if (isSuccessful) {
             // Clear cart after successful payment (currently clears only first item, can be extended)
             await this.cartService.removeFromCart(order.orderedById, {
@@ -1214,7 +1539,8 @@ export class OrderService {
 
 
     /**
-     * Handle payment cancellation scenario by marking the order as UNPAID.
+     * Handle payment cancellation scenario by cancelling the unpaid order.
+     * Orders that were paid in the meantime are left alone; they are cancelled and refunded by an admin instead.
      *
      * @param {number} orderId - ID of the order for which the payment was cancelled.
      * @returns {Promise<void>} - Resolves once the order is updated.
@@ -1222,84 +1548,57 @@ export class OrderService {
      */
     async handlePaymentCancel(orderId: number): Promise<void> {
         console.log("payment cancel")
-        const order = await this.orderRepository.findOne({
-            where: { id: orderId },
-            relations: ['orderItems', 'orderItems.product', 'orderItems.variant'],
-        });
+        const order = await this.orderRepository.findOne({ where: { id: orderId } });
 
         if (!order) {
             throw new APIError(404, 'Order not found');
         }
 
-        // Restore stock
-        await this.restoreStock(order.orderItems);
-
-        // Mark payment as UNPAID
-        order.paymentStatus = PaymentStatus.UNPAID;
-
-        // Optionally, update order status to CANCELLED
-        order.status = OrderStatus.CANCELLED;
-
-        await this.orderRepository.save(order);
+        // Unpaid online orders only hold a reservation, which is released with the cancellation
+        await this.cancelUnpaidOrder(order.id);
     }
 
 
 
 
     /**
-     * Calculates the total shipping fee based on the shipping address and vendor districts.
+     * Calculates the total shipping fee from the configured shipping zones and vendor rates.
+     * The base fee is charged once per vendor district; surcharges are charged per vendor.
      * 
      * @param {Address} shippingAddress - The user's provided shipping address.
      * @param {number} userId - ID of the user placing the order.
      * @param {CartItem[]} cartItems - List of cart items associated with the order.
-     * @returns {Promise<number>} - The total calculated shipping fee.
+     * @returns {Promise<{ shippingFee: number; vendorIds: number[]; vendorFees: Record<number, number> }>} - The total fee, the vendors involved and each vendor's fee.
      * @access Internal (used during order creation)
      */
     private async calculateShippingFee(
         shippingAddress: Address,
         userId: number,
         cartItems: CartItem[]
-    ): Promise<{ shippingFee: number; vendorIds: number[] }> {
+    ): Promise<{ shippingFee: number; vendorIds: number[]; vendorFees: Record<number, number> }> {
 
         if (!shippingAddress) {
             throw new APIError(400, "Shipping address is missing");
         }
 
-        // Track unique vendor districts and vendor IDs
-        const vendorDistrictSet = new Set<string>();
-        const vendorIdsSet = new Set<number>();
-
-        for (const item of cartItems) {
-            const vendor = item.product?.vendor;
-
-            if (!vendor || !vendor.district || !vendor.district.name) {
-                throw new APIError(400, `Vendor for product ${item.product.id} has no valid address`);
-            }
-
-            vendorDistrictSet.add(vendor.district.name);
-            vendorIdsSet.add(vendor.id);
-        }
-
-        // User district
-        const userDistrict = shippingAddress.district;
-
-        // Districts treated as same metro area
-        const sameDistrictGroup = ['Kathmandu', 'Bhaktapur', 'Lalitpur'];
-
-        let shippingFee = 0;
+        const lines = cartItems.map((item) =>
+            this.shippingService.toShippingLine(item.product, item.variant, item.quantity)
+        );
 
-        // Calculate fee per unique vendor district
-        for (const vendorDistrict of vendorDistrictSet) {
-            const isSameCity =
-                userDistrict === vendorDistrict ||
-                (sameDistrictGroup.includes(userDistrict) && sameDistrictGroup.includes(vendorDistrict));
+        const quote = await this.shippingService.calculateQuote(
+            { district: shippingAddress.district, province: shippingAddress.province },
+            lines
+        );
 
-            shippingFee += isSameCity ? 100 : 200;
+        const vendorFees: Record<number, number> = {};
+        for (const vendorQuote of quote.vendors) {
+            vendorFees[vendorQuote.vendorId] = vendorQuote.fee;
         }
 
         return {
-            shippingFee,
-            vendorIds: Array.from(vendorIdsSet),
+            shippingFee: quote.shippingFee,
+            vendorIds: quote.vendors.map((vendorQuote) => vendorQuote.vendorId),
+            vendorFees,
         };
     }
 
@@ -1341,7 +1640,9 @@ export class OrderService {
                 'orderItems',
                 'orderItems.product',
                 'orderItems.vendor',
-                'orderItems.variant'
+                'orderItems.variant',
+                'vendorOrders',
+                'vendorOrders.vendor'
             ],
         });
 
@@ -1541,7 +1842,7 @@ export class OrderService {
      * @access Admin or authorized roles
      */
     async getOrderDetails(orderId: number): Promise<Order> {
-        // Find the order by ID with all related entities loaded
+        // Find the order by ID with all related entities loaded, including refund history
         const order = await this.orderRepository.findOne({
             where: { id: orderId },
             relations: [
@@ -1551,8 +1852,11 @@ export class OrderService {
                 'orderItems.product',
                 'orderItems.vendor',
                 'orderItems.variant',
+                'vendorOrders',
+                'vendorOrders.vendor',
+                'refunds',
             ],
-
+            order: { refunds: { createdAt: 'DESC' } },
         });
 
         // Throw error if no order is found
@@ -1611,8 +1915,35 @@ export class OrderService {
             );
         }
 
+        await this.applyOrderStatus(order, status);
+
+        // Cascade the admin decision to every vendor share that can make the same move
+        const vendorOrders = await this.vendorOrderRepository.find({ where: { orderId } });
+        const vendorStatus = status as string as VendorOrderStatus;
+        for (const vendorOrder of vendorOrders) {
+            if (VENDOR_ORDER_TRANSITIONS[vendorOrder.status].includes(vendorStatus)) {
+                this.setVendorOrderStatus(vendorOrder, vendorStatus);
+                await this.vendorOrderRepository.save(vendorOrder);
+            }
+        }
+
+        return order;
+    }
+
+    /**
+     * Set a new status on an order and apply its side effects:
+     * delivery timestamp, COD payment capture on delivery and the customer status email.
+     *
+     * @param {Order} order - Order loaded with its `orderedBy` relation.
+     * @param {OrderStatus} status - The status to apply.
+     */
+    private async applyOrderStatus(order: Order, status: OrderStatus): Promise<void> {
         order.status = status;
 
+        if (status === OrderStatus.DELIVERED && !order.deliveredAt) {
+            order.deliveredAt = new Date();
+        }
+
         // Handle COD payment update on delivery
         if (
             status === OrderStatus.DELIVERED &&
@@ -1624,11 +1955,129 @@ export class OrderService {
 
         await this.orderRepository.save(order);
 
+        // The in-app notification and SMS go out with notifyOrderStatusUpdated
         if (order.orderedBy?.email) {
-            await sendOrderStatusEmail(order.orderedBy.email, order.id, order.status);
+            await this.notificationDispatcher.dispatch({
+                event: NotificationEvent.ORDER_STATUS_CHANGED,
+                recipient: { userId: order.orderedBy.id },
+                email: () => sendOrderStatusEmail(order.orderedBy.email, order.id, order.status),
+            });
         }
+    }
 
-        return order;
+    /**
+     * Mirror a payment outcome (confirmed or cancelled) onto every vendor sub-order of the order.
+     * Payment happens once for the whole order, so all vendor shares move together.
+     *
+     * @param {number} orderId - The ID of the order.
+     * @param {OrderStatus} status - The new parent order status.
+     */
+    async syncVendorOrders(orderId: number, status: OrderStatus): Promise<void> {
+        await this.vendorOrderRepository.update({ orderId }, { status: status as string as VendorOrderStatus });
+    }
+
+    /**
+     * Update the vendor's own sub-order of an order (e.g. mark shipped with a tracking number).
+     * The parent order status is then derived from all of its sub-orders.
+     *
+     * @param {number} vendorId - The ID of the vendor updating their sub-order.
+     * @param {number} orderId - The ID of the parent order.
+     * @param {IUpdateVendorOrderStatusRequest} data - New status and optional tracking details.
+     * @returns {Promise<{ order: Order; parentOrder: Order | null }>} - Vendor view of the order, and the full parent order when its status moved.
+     * @throws {APIError} - Throws 404 if the vendor has no share in the order, 400 on an invalid transition.
+     * @access Vendor
+     */
+    async updateVendorOrderStatus(
+        vendorId: number,
+        orderId: number,
+        data: IUpdateVendorOrderStatusRequest
+    ): Promise<{ order: Order; parentOrder: Order | null }> {
+        const vendorOrder = await this.vendorOrderRepository.findOne({ where: { orderId, vendorId } });
+
+        if (!vendorOrder) {
+            throw new APIError(404, 'Order not found or you are not authorized to update it');
+        }
+
+        if (vendorOrder.status !== data.status && !VENDOR_ORDER_TRANSITIONS[vendorOrder.status].includes(data.status)) {
+            throw new APIError(
+                400,
+                `Invalid status transition from ${vendorOrder.status} to ${data.status}`
+            );
+        }
+
+        this.setVendorOrderStatus(vendorOrder, data.status);
+        if (data.trackingNumber !== undefined) {
+            vendorOrder.trackingNumber = data.trackingNumber;
+        }
+        if (data.courier !== undefined) {
+            vendorOrder.courier = data.courier;
+        }
+        await this.vendorOrderRepository.save(vendorOrder);
+
+        // Derive the parent order status from all vendor shares
+        const order = await this.orderRepository.findOne({
+            where: { id: orderId },
+            relations: ['orderedBy', 'orderItems', 'vendorOrders'],
+        });
+
+        const derivedStatus = this.deriveOrderStatus(order.vendorOrders);
+        const orderStatusChanged = derivedStatus !== null && derivedStatus !== order.status;
+        if (orderStatusChanged) {
+            await this.applyOrderStatus(order, derivedStatus);
+        }
+
+        return {
+            order: await this.getVendorOrderDetails(vendorId, orderId),
+            parentOrder: orderStatusChanged ? order : null,
+        };
+    }
+
+    /**
+     * Set a sub-order status together with its shipped/delivered timestamps
+     */
+    private setVendorOrderStatus(vendorOrder: VendorOrder, status: VendorOrderStatus): void {
+        vendorOrder.status = status;
+
+        if (status === VendorOrderStatus.SHIPPED && !vendorOrder.shippedAt) {
+            vendorOrder.shippedAt = new Date();
+        }
+
+        if (status === VendorOrderStatus.DELIVERED && !vendorOrder.deliveredAt) {
+            vendorOrder.deliveredAt = new Date();
+        }
+    }
+
+    /**
+     * Work out the parent order status from its vendor sub-orders.
+     * Cancelled shares are ignored unless every share is cancelled; the order counts as
+     * shipped as soon as any share has left the vendor and delivered once all of them arrived.
+     *
+     * @param {VendorOrder[]} vendorOrders - All sub-orders of the order.
+     * @returns {OrderStatus | null} - The derived status, or null when the sub-orders do not imply a change.
+     */
+    private deriveOrderStatus(vendorOrders: VendorOrder[]): OrderStatus | null {
+        const active = vendorOrders.filter((vendorOrder) => vendorOrder.status !== VendorOrderStatus.CANCELLED);
+        const statuses = active.map((vendorOrder) => vendorOrder.status);
+
+        if (!vendorOrders.length) {
+            return null;
+        }
+        if (!active.length) {
+            return OrderStatus.CANCELLED;
+        }
+        if (statuses.every((status) => status === VendorOrderStatus.RETURNED)) {
+            return OrderStatus.RETURNED;
+        }
+        if (statuses.every((status) => status === VendorOrderStatus.DELIVERED || status === VendorOrderStatus.RETURNED)) {
+            return OrderStatus.DELIVERED;
+        }
+        if (statuses.some((status) => status === VendorOrderStatus.SHIPPED || status === VendorOrderStatus.DELIVERED)) {
+            return OrderStatus.SHIPPED;
+        }
+        if (statuses.some((status) => status === VendorOrderStatus.DELAYED)) {
+            return OrderStatus.DELAYED;
+        }
+        return null;
     }
 
 
@@ -1664,6 +2113,7 @@ export class OrderService {
             .leftJoinAndSelect('orderItems.product', 'product') // Include products in order items
             .leftJoinAndSelect('orderItems.vendor', 'vendor') // Include vendor info for order items
             .leftJoinAndSelect('orderItems.variant', 'variant')
+            .leftJoinAndSelect('order.vendorOrders', 'vendorOrder', 'vendorOrder.vendorId = :vendorId', { vendorId }) // Only the vendor's own sub-order
             .where('orderItems.vendorId = :vendorId', { vendorId }) // Filter by vendorId
             .orderBy('order.createdAt', 'DESC')
             .getMany(); // Get all matching orders
@@ -1689,6 +2139,7 @@ export class OrderService {
             .leftJoinAndSelect('orderItems.product', 'product') // Join products in order items
             .leftJoinAndSelect('orderItems.vendor', 'vendor') // Join vendor info for order items
             .leftJoinAndSelect('orderItems.variant', 'variant')
+            .leftJoinAndSelect('order.vendorOrders', 'vendorOrder', 'vendorOrder.vendorId = :vendorId', { vendorId }) // Only the vendor's own sub-order
             .where('order.id = :orderId', { orderId }) // Filter by order ID
             .andWhere('orderItems.vendorId = :vendorId', { vendorId })
             .getOne();
@@ -1,4 +1,4 @@
-import { DataSource, Repository } from 'typeorm';
+import { DataSource, Repository, SelectQueryBuilder } from 'typeorm';
 import { Product } from '../entities/product.entity';
 import { Subcategory } from '../entities/subcategory.entity';
 import { User, UserRole } from '../entities/user.entity';
@@ -6,21 +6,31 @@ import { v2 as cloudinary } from 'cloudinary';
 import { APIError } from '../utils/ApiError.utils';
 import { Vendor } from '../entities/vendor.entity';
 import { VendorService } from './vendor.service';
-import { IProductQueryParams, IAdminProductQueryParams } from '../interface/product.interface';
-import { Deal, DealStatus } from '../entities/deal.entity';
+import { IProductQueryParams, IAdminProductQueryParams, IProductFacetFilters, IProductFacets } from '../interface/product.interface';
+import { Deal } from '../entities/deal.entity';
 import { ImageUploadService } from './image.upload.service';
 import { ImageDeletionService } from './image.delete.service';
 import { Category } from '../entities/category.entity';
-import { Brand } from '../entities/brand.entity';
+import { Brand, BrandStatus } from '../entities/brand.entity';
 import { Banner } from '../entities/banner.entity';
 import { InventoryStatus, ProductInterface, DiscountType } from '../utils/zod_validations/product.zod';
 import { CategoryService } from './category.service';
 import { BannerService } from './banner.service';
 import { DealService } from './deal.service';
+import { PriceHelper } from '../utils/helpers/PriceHelper';
+import { ProductSearchHelper } from '../utils/helpers/ProductSearchHelper';
+import { ProductFacetKey, ProductFilterHelper } from '../utils/helpers/ProductFilterHelper';
+import { StockReservationService } from './stockReservation.service';
+import { StockMovementService } from './stockMovement.service';
+import { IStockMovementContext, IStockMovementInput } from '../interface/stockMovement.interface';
 import { SubcategoryService } from './subcategory.service';
 import { MulterFile } from '../config/multer.config';
 import { Variant } from '../entities/variant.entity';
+import { ProductStats } from '../entities/productStats.entity';
+import { ReviewStatus } from '../entities/reviews.entity';
+import { VendorStatus } from '../entities/vendorKyc.enum';
 import { CacheService } from '../services/cache/CacheService';
+import { formatSheetAttributes, PRODUCT_SHEET_COLUMNS } from '../utils/productSheet.utils';
 
 /**
  * Service class for handling product-related operations.
@@ -49,6 +59,8 @@ export class ProductService {
     private subcategoryService: SubcategoryService;
     private bannerService: BannerService;
     private dealService: DealService;
+    private stockReservationService: StockReservationService;
+    private stockMovementService: StockMovementService;
     private variantRepository: Repository<Variant>;
     private cacheService: CacheService;
 
@@ -68,6 +80,8 @@ export class ProductService {
         this.subcategoryService = new SubcategoryService(this.dataSource);
         this.bannerService = new BannerService();
         this.dealService = new DealService();
+        this.stockReservationService = new StockReservationService();
+        this.stockMovementService = new StockMovementService();
         this.variantRepository = this.dataSource.getRepository(Variant);
         this.cacheService = new CacheService();
         cloudinary.config({
@@ -91,8 +105,13 @@ export class ProductService {
         const cacheKey = `product:${productId}`;
         
         // Try to get from cache first
+        // Available stock changes with every reservation, so it is added after the cache
         const cachedProduct = await this.cacheService.get<Product>(cacheKey);
+        if (cachedProduct?.vendor?.status === VendorStatus.SUSPENDED) {
+            throw new APIError(404, `Product does not exist`);
+        }
         if (cachedProduct) {
+            await this.stockReservationService.withAvailableStock([cachedProduct]);
             return cachedProduct;
         }
 
@@ -102,13 +121,18 @@ export class ProductService {
             relations: ['vendor', 'variants', 'reviews'], // Include variants relation
         });
 
-        if (!product) {
+        if (!product || product.vendor?.status === VendorStatus.SUSPENDED) {
             throw new APIError(404, `Product does not exist`);
         }
 
+        // Pending and rejected reviews are only visible in the moderation queue
+        product.reviews = (product.reviews ?? []).filter((review) => review.status === ReviewStatus.APPROVED);
+
         // Cache the result with 1 hour TTL (3600 seconds)
         await this.cacheService.set(cacheKey, product, 3600);
 
+        await this.stockReservationService.withAvailableStock([product]);
+
         return product;
     }
 
@@ -118,12 +142,20 @@ export class ProductService {
         return InventoryStatus.AVAILABLE;
     }
 
+    // Products can only use approved brands; pending vendor requests are not usable yet
+    private async assertBrandApproved(brandId: number) {
+        const brand = await this.brandRepository.findOne({ where: { id: brandId } });
+        if (!brand) throw new APIError(404, 'Brand does not exist');
+        if (brand.status !== BrandStatus.APPROVED) throw new APIError(400, `Brand "${brand.name}" is not approved yet`);
+    }
+
 
     async createProduct(
         data: Partial<ProductInterface>,
         categoryId: number,
         subcategoryId: number,
-        vendorId: number
+        vendorId: number,
+        stockContext: IStockMovementContext = {}
     ): Promise<Product> {
         const {
             name,
@@ -133,6 +165,7 @@ export class ProductService {
             discountType,
             status, // need to remove this from frontend
             stock,
+            weight,
             dealId,
             bannerId,
             hasVariants,
@@ -152,6 +185,8 @@ export class ProductService {
 
         if (!vendorId) throw new APIError(401, 'Unauthorized: Vendor not found');
 
+        if (data.brandId) await this.assertBrandApproved(Number(data.brandId));
+
         // Validate required fields based on product type
         if (!isVariantProduct) {
             if (basePrice == null || stock == null) {
@@ -177,6 +212,7 @@ export class ProductService {
             discountType: discountType || DiscountType.PERCENTAGE,
             status: this.determineOrderStatus(Number(stock)),
             stock: isVariantProduct ? null : parseInt(stock || '0'),
+            weight: weight ? parseFloat(weight) : null,
             subcategoryId,
             vendorId,
             finalPrice,
@@ -214,6 +250,17 @@ export class ProductService {
             savedProduct.variants = savedVariants;
         }
 
+        // Opening stock goes into the ledger as the vendor's first adjustment (or import)
+        const openingMovements = isVariantProduct
+            ? (savedProduct.variants || []).map((variant) =>
+                this.stockMovementService.adjustment(savedProduct.id, variant.id, 0, variant.stock, stockContext.reason))
+            : [this.stockMovementService.adjustment(savedProduct.id, null, 0, savedProduct.stock, stockContext.reason)];
+        await this.stockMovementService.record(
+            openingMovements
+                .filter((movement): movement is IStockMovementInput => movement !== null)
+                .map((movement) => ({ actor: { vendorId }, note: 'Initial stock', ...stockContext, ...movement }))
+        );
+
         // Invalidate all product list caches since a new product was created
         await this.cacheService.invalidatePattern('products:list:*');
 
@@ -241,7 +288,8 @@ export class ProductService {
         productId: number,
         data: Partial<ProductInterface>,
         categoryId: number,
-        subcategoryId: number
+        subcategoryId: number,
+        stockContext: IStockMovementContext = {}
     ): Promise<Product> {
         const {
             name,
@@ -251,6 +299,7 @@ export class ProductService {
             discountType,
             status,
             stock,
+            weight,
             dealId,
             bannerId,
             hasVariants,
@@ -263,6 +312,10 @@ export class ProductService {
         const product = await this.productRepository.findOne({ where: whereClause, relations: ['variants'] });
         if (!product) throw new APIError(404, 'Product not found or not authorized');
 
+        // Stock before the edit, for the stock ledger
+        const previousStock = product.stock;
+        const previousVariantStock = new Map((product.variants || []).map((variant) => [String(variant.id), variant.stock]));
+
         // Validate category & subcategory
         if (!(await this.categoryService.getCategoryById(categoryId))) throw new APIError(404, 'Category does not exist');
         if (!(await this.subcategoryService.getSubcategoryById(subcategoryId, categoryId))) throw new APIError(404, 'Subcategory does not exist');
@@ -270,6 +323,7 @@ export class ProductService {
         // Validate banner & deal
         if (dealId !== undefined && !(await this.dealService.getDealById(Number(dealId)))) throw new APIError(404, 'Deal does not exist');
         if (bannerId !== undefined && !(await this.bannerService.getBannerById(Number(bannerId)))) throw new APIError(404, 'Banner does not exist');
+        if (brandId && Number(brandId) !== product.brandId) await this.assertBrandApproved(Number(brandId));
 
         // Normalize hasVariants to boolean
         const hasVariantsBool =
@@ -285,6 +339,7 @@ export class ProductService {
         product.discountType = discountType ?? product.discountType;
         product.status = this.determineOrderStatus(Number(stock));
         product.stock = hasVariantsBool ? null : (stock !== undefined ? parseInt(stock.toString()) : product.stock);
+        product.weight = weight !== undefined ? parseFloat(weight.toString()) : product.weight;
         product.subcategoryId = subcategoryId;
         product.dealId = dealId !== undefined ? parseInt(dealId.toString()) : product.dealId;
         product.bannerId = bannerId !== undefined ? parseInt(bannerId.toString()) : product.bannerId;
@@ -345,6 +400,24 @@ export class ProductService {
 
         const updatedProduct = await this.productRepository.save(product);
 
+        // Record every stock change made by this edit
+        const movements = [
+            this.stockMovementService.adjustment(productId, null, previousStock, updatedProduct.stock, stockContext.reason),
+            ...(hasVariantsBool && variants ? updatedProduct.variants || [] : []).map((variant) =>
+                this.stockMovementService.adjustment(
+                    productId,
+                    variant.id,
+                    previousVariantStock.get(String(variant.id)) ?? 0,
+                    variant.stock,
+                    stockContext.reason,
+                )),
+        ];
+        await this.stockMovementService.record(
+            movements
+                .filter((movement): movement is IStockMovementInput => movement !== null)
+                .map((movement) => ({ ...stockContext, ...movement }))
+        );
+
         // Invalidate cache for this product
         await this.cacheService.del(`product:${productId}`);
         // Invalidate all product list caches
@@ -374,6 +447,7 @@ export class ProductService {
             bannerId,
             vendorId
         } = params;
+        const filters = ProductFilterHelper.parseFacetFilters(params);
 
         const qb = this.productRepository
             .createQueryBuilder('product')
@@ -390,44 +464,43 @@ export class ProductService {
             ])
             .leftJoinAndSelect('product.deal', 'deal')
             .leftJoinAndSelect('product.variants', 'variants')
-            .where('(product.stock > 0 OR variants.stock > 0)');
+            // Refreshed periodically by ProductStatsService; products not refreshed yet have no row
+            .leftJoin(ProductStats, 'stats', 'stats.productId = product.id');
+
+        if (filters.inStock) {
+            // Filtering the joined variants also leaves out-of-stock variants out of the response
+            qb.where('(product.stock > 0 OR variants.stock > 0)');
+        }
 
         if (bannerId) {
             const banner = await this.bannerRepository.findOne({ where: { id: bannerId } });
             if (!banner) throw new APIError(404, 'Banner does not exist');
-            qb.andWhere('product.bannerId = :bannerId', { bannerId });
         }
         if (subcategoryId) {
             const sub = await this.subcategoryRepository.findOne({ where: { id: subcategoryId } });
             if (!sub) throw new APIError(404, 'Subcategory does not exist');
-            qb.andWhere('product.subcategoryId = :subcategoryId', { subcategoryId });
         } else if (categoryId) {
             const cat = await this.categoryRepository.findOne({ where: { id: categoryId } });
             if (!cat) throw new APIError(404, 'Category does not exist');
-            qb.andWhere('subcategory.categoryId = :categoryId', { categoryId });
         }
         if (brandId) {
             const brand = await this.brandRepository.findOne({ where: { id: brandId } });
             if (!brand) throw new APIError(404, 'Brand does not exist');
-            qb.andWhere('product.brandId = :brandId', { brandId });
         }
         if (dealId) {
             const deal = await this.dealRepository.findOne({ where: { id: dealId } });
             if (!deal) throw new APIError(404, 'Deal does not exist');
-            qb.andWhere('product.dealId = :dealId', { dealId });
         }
         if (vendorId) {
             const vendor = await this.vendorRepository.findOne({ where: { id: Number(vendorId) } })
             if (!vendor) throw new APIError(404, "Invalid vendor id")
-            qb.andWhere('product.vendorId = :vendorId', { vendorId })
         }
 
+        // In-stock is already applied above on the joined variants
+        this.applyListingFilters(qb, params, filters, 'inStock');
+
         if (search) {
-            const searchPattern = `%${search}%`;
-            qb.andWhere(
-                '(LOWER(product.name) ILIKE :searchPattern )',
-                { searchPattern }
-            );
+            ProductSearchHelper.selectRelevance(qb, search);
         }
 
         qb.groupBy('product.id')
@@ -436,7 +509,18 @@ export class ProductService {
             .addGroupBy('brand.id')
             .addGroupBy('vendor.id')
             .addGroupBy('deal.id')
-            .addGroupBy('variants.id');
+            .addGroupBy('variants.id')
+            .addGroupBy('stats.productId');
+
+        // Deal percentage taken off while the product's deal is live; mirrors PriceHelper.isDealLive
+        const dealFactor = `
+      (1 - CASE
+        WHEN "deal"."status" IN ('ENABLED', 'SCHEDULED')
+          AND ("deal"."startsAt" IS NULL OR "deal"."startsAt" <= NOW())
+          AND ("deal"."endsAt" IS NULL OR "deal"."endsAt" > NOW())
+        THEN "deal"."discountPercentage" / 100.0
+        ELSE 0
+      END)`;
 
         if (sort === 'low-to-high') {
             qb.addSelect(
@@ -458,7 +542,7 @@ export class ProductService {
             ELSE "product"."discount"
           END
         )
-      )
+      ) * ${dealFactor}
       `,
                 'price'
             )
@@ -483,11 +567,26 @@ export class ProductService {
             ELSE "product"."discount"
           END
         )
-      )
+      ) * ${dealFactor}
       `,
                 'price'
             )
                 .orderBy('price', 'DESC');
+        } else if (sort === 'best-selling' || sort === 'trending' || sort === 'top-rated' || sort === 'discount') {
+            const sortValues = {
+                'best-selling': 'COALESCE("stats"."unitsSold", 0)',
+                'trending': 'COALESCE("stats"."trendingScore", 0)',
+                'top-rated': 'COALESCE("stats"."bayesianRating", 0)',
+                // A live deal applies on top of the product's own discount
+                'discount': `1 - (1 - COALESCE("stats"."maxDiscountPercent", 0) / 100.0) * ${dealFactor}`,
+            };
+            qb.addSelect(sortValues[sort], 'sort_value')
+                .orderBy('sort_value', 'DESC')
+                .addOrderBy('product.created_at', 'DESC');
+        } else if (sort === 'newest') {
+            qb.orderBy('product.created_at', 'DESC');
+        } else if (search) {
+            ProductSearchHelper.orderByRelevance(qb);
         } else {
             qb.orderBy('product.created_at', 'DESC');
         }
@@ -501,15 +600,155 @@ export class ProductService {
 
         const [data, total] = await qb.getManyAndCount();
 
+        if (search) {
+            await ProductSearchHelper.attachHighlights(this.dataSource.manager, data, search);
+        }
+
+        const facets = await this.getListingFacets(params, filters);
+
         return {
             data,
             total,
             page: Number(page),
             limit: Number(limit),
             totalPages: Math.ceil(total / Number(limit)),
+            facets,
         };
     }
 
+    /**
+     * Applies the listing filters (banner, category, brand, deal, vendor, search and facet filters)
+     * to a product query with the `product` and `subcategory` aliases.
+     *
+     * @param exclude - Filter to leave out, when counting its facet
+     * @param excludeAttribute - With exclude 'attributes', leave out only this attribute
+     */
+    private applyListingFilters(
+        qb: SelectQueryBuilder<Product>,
+        params: IProductQueryParams,
+        filters: IProductFacetFilters,
+        exclude?: ProductFacetKey | 'brand',
+        excludeAttribute?: string,
+    ) {
+        const { bannerId, subcategoryId, categoryId, brandId, dealId, vendorId, search } = params;
+
+        if (bannerId) qb.andWhere('product.bannerId = :bannerId', { bannerId });
+        if (subcategoryId) {
+            qb.andWhere('product.subcategoryId = :subcategoryId', { subcategoryId });
+        } else if (categoryId) {
+            qb.andWhere('subcategory.categoryId = :categoryId', { categoryId });
+        }
+        if (brandId && exclude !== 'brand') qb.andWhere('product.brandId = :brandId', { brandId });
+        if (dealId) qb.andWhere('product.dealId = :dealId', { dealId });
+        if (vendorId) qb.andWhere('product.vendorId = :vendorId', { vendorId });
+        if (search) ProductSearchHelper.whereMatches(qb, search);
+        qb.andWhere(ProductFilterHelper.activeVendorSql);
+
+        ProductFilterHelper.applyFacetFilters(qb, filters, exclude === 'brand' ? undefined : exclude, excludeAttribute);
+        return qb;
+    }
+
+    /**
+     * Facet counts for a product listing. Each facet is counted over the products matching
+     * every other filter, so selecting a value never hides the other values of the same facet.
+     * Cached with the product lists and invalidated with them.
+     */
+    private async getListingFacets(params: IProductQueryParams, filters: IProductFacetFilters): Promise<IProductFacets> {
+        const { page, limit, sort, ...filterParams } = params;
+        const cacheKey = `products:list:facets:${JSON.stringify(filterParams)}`;
+        const cached = await this.cacheService.get<IProductFacets>(cacheKey);
+        if (cached) return cached;
+
+        // SQL and parameters of the IDs of products matching all filters but `exclude`
+        const matchingIds = (exclude?: ProductFacetKey | 'brand', excludeAttribute?: string): [string, any[]] => {
+            const sub = this.productRepository.createQueryBuilder('product')
+                .select('product.id')
+                .leftJoin('product.subcategory', 'subcategory');
+            return this.applyListingFilters(sub, params, filters, exclude, excludeAttribute).getQueryAndParameters();
+        };
+        const query = async (sql: (ids: string) => string, [ids, parameters]: [string, any[]], extra: any[] = []) =>
+            this.dataSource.query(sql(ids), [...parameters, ...extra]);
+
+        const [[price], [rating], [availability], [discounted], brands, attributeRows] = await Promise.all([
+            query((ids) => `
+                SELECT MIN(price) AS "min", MAX(price) AS "max"
+                FROM (SELECT ${ProductFilterHelper.effectivePriceSql} AS price FROM "products" "product" WHERE "product"."id" IN (${ids})) prices
+            `, matchingIds('price')),
+            query((ids) => `
+                SELECT ${[4, 3, 2, 1].map((stars) => `COUNT(*) FILTER (WHERE rating >= ${stars}) AS "${stars}"`).join(', ')}
+                FROM (SELECT ${ProductFilterHelper.averageRatingSql} AS rating FROM "products" "product" WHERE "product"."id" IN (${ids})) ratings
+            `, matchingIds('rating')),
+            query((ids) => `
+                SELECT COUNT(*) FILTER (WHERE ${ProductFilterHelper.inStockSql}) AS "inStock",
+                       COUNT(*) FILTER (WHERE NOT ${ProductFilterHelper.inStockSql}) AS "outOfStock"
+                FROM "products" "product" WHERE "product"."id" IN (${ids})
+            `, matchingIds('inStock')),
+            query((ids) => `
+                SELECT COUNT(*) AS "count" FROM "products" "product"
+                WHERE "product"."id" IN (${ids}) AND ${ProductFilterHelper.discountedSql}
+            `, matchingIds('discounted')),
+            query((ids) => `
+                SELECT b."id", b."name", COUNT(*) AS "count"
+                FROM "products" p INNER JOIN "brands" b ON b."id" = p."brandId"
+                WHERE p."id" IN (${ids})
+                GROUP BY b."id" ORDER BY "count" DESC, b."name" ASC
+            `, matchingIds('brand')),
+            this.getAttributeFacetRows(filters, matchingIds, query),
+        ]);
+
+        const attributes = new Map<string, { value: string; count: number }[]>();
+        for (const row of attributeRows) {
+            const values = attributes.get(row.name) || [];
+            values.push({ value: row.value, count: Number(row.count) });
+            attributes.set(row.name, values);
+        }
+
+        const facets: IProductFacets = {
+            price: {
+                min: price.min != null ? Number(price.min) : null,
+                max: price.max != null ? Number(price.max) : null,
+            },
+            rating: [4, 3, 2, 1].map((stars) => ({ minRating: stars, count: Number(rating[stars]) })),
+            attributes: [...attributes.entries()].map(([name, values]) => ({ name, values })),
+            availability: { inStock: Number(availability.inStock), outOfStock: Number(availability.outOfStock) },
+            discounted: Number(discounted.count),
+            brands: brands.map((brand: any) => ({ id: brand.id, name: brand.name, count: Number(brand.count) })),
+        };
+
+        await this.cacheService.set(cacheKey, facets, 300);
+        return facets;
+    }
+
+    /**
+     * Attribute value counts: attributes that are not filtered on are counted over all matching
+     * products; each filtered attribute is counted without its own filter.
+     */
+    private async getAttributeFacetRows(
+        filters: IProductFacetFilters,
+        matchingIds: (exclude?: ProductFacetKey, excludeAttribute?: string) => [string, any[]],
+        query: (sql: (ids: string) => string, ids: [string, any[]], extra?: any[]) => Promise<any[]>,
+    ): Promise<{ name: string; value: string; count: number }[]> {
+        const valueCounts = (ids: string, nameCondition: string) => `
+            SELECT attr."key" AS "name", LOWER(attr."value") AS "value", COUNT(DISTINCT v."product_id") AS "count"
+            FROM "variants" v CROSS JOIN LATERAL jsonb_each_text(v."attributes") attr
+            WHERE v."product_id" IN (${ids}) AND ${nameCondition}
+            GROUP BY attr."key", LOWER(attr."value")
+            ORDER BY attr."key" ASC, "count" DESC, "value" ASC
+        `;
+
+        const filteredNames = Object.keys(filters.attributes);
+        const unfiltered = matchingIds();
+        const results = await Promise.all([
+            query((ids) => valueCounts(ids, `attr."key" <> ALL($${unfiltered[1].length + 1})`), unfiltered, [filteredNames]),
+            ...filteredNames.map((name) => {
+                const ids = matchingIds('attributes', name);
+                return query((sql) => valueCounts(sql, `attr."key" = $${ids[1].length + 1}`), ids, [name]);
+            }),
+        ]);
+
+        return results.flat();
+    }
+
     async getAdminProducts(
         params: IAdminProductQueryParams
     ): Promise<{ products: Product[]; total: number; page: number; limit: number }> {
@@ -702,12 +941,12 @@ export class ProductService {
         const vendorDiscount = product.discount || 0;
         let dealDiscount = 0;
 
-        if (product.dealId && product.deal && product.deal.status === DealStatus.ENABLED) {
-            dealDiscount = product.deal.discountPercentage;
+        if (product.dealId && PriceHelper.isDealLive(product.deal)) {
+            dealDiscount = Number(product.deal.discountPercentage);
         }
 
-        const finalDiscount = vendorDiscount + dealDiscount;
-        const finalPrice = product.basePrice - (product.basePrice * finalDiscount / 100);
+        // Same price the cart and checkout charge
+        const finalPrice = PriceHelper.getUnitPrice(product);
 
         return { finalPrice, vendorDiscount, dealDiscount };
     }
@@ -721,7 +960,7 @@ export class ProductService {
     ): Promise<{ products: Product[]; total: number }> {
         // Verify vendor existence via vendor service
         const vendor = await this.vendorService.findVendorById(vendorId);
-        if (!vendor) {
+        if (!vendor || vendor.status === VendorStatus.SUSPENDED) {
             throw new APIError(404, 'Vendor not found');
         }
 
@@ -736,6 +975,7 @@ export class ProductService {
             .createQueryBuilder('product')
             .leftJoinAndSelect('product.subcategory', 'subcategory')
             .leftJoinAndSelect('product.vendor', 'vendor')
+            .leftJoinAndSelect('product.brand', 'brand')
             .leftJoinAndSelect('product.variants', 'variants')
             .where('product.vendorId = :vendorId', { vendorId });
 
@@ -807,27 +1047,17 @@ export class ProductService {
         await this.cacheService.invalidatePattern('products:list:*');
     }
 
+    /**
+     * Builds the vendor product export. Uses the same column layout as the bulk import,
+     * with one row per variant below its product, so an export can be edited and re-imported.
+     */
     async generateProductsExcel(products: Product[]): Promise<Buffer> {
         const ExcelJS = require('exceljs');
         const workbook = new ExcelJS.Workbook();
         const worksheet = workbook.addWorksheet('Products');
 
         // Define columns
-        worksheet.columns = [
-            { header: 'ID', key: 'id', width: 10 },
-            { header: 'Name', key: 'name', width: 30 },
-            { header: 'Description', key: 'description', width: 50 },
-            { header: 'Base Price', key: 'basePrice', width: 15 },
-            { header: 'Discount', key: 'discount', width: 12 },
-            { header: 'Discount Type', key: 'discountType', width: 15 },
-            { header: 'Final Price', key: 'finalPrice', width: 15 },
-            { header: 'Stock', key: 'stock', width: 10 },
-            { header: 'Status', key: 'status', width: 15 },
-            { header: 'Has Variants', key: 'hasVariants', width: 15 },
-            { header: 'Vendor', key: 'vendor', width: 25 },
-            { header: 'Brand', key: 'brand', width: 20 },
-            { header: 'Created At', key: 'createdAt', width: 20 },
-        ];
+        worksheet.columns = PRODUCT_SHEET_COLUMNS.map((column) => ({ ...column }));
 
         // Add rows
         products.forEach(product => {
@@ -843,8 +1073,21 @@ export class ProductService {
                 status: product.status,
                 hasVariants: product.hasVariants ? 'Yes' : 'No',
                 vendor: product.vendor?.businessName || 'N/A',
-                brand: product.brandId || 'N/A',
+                brand: product.brand?.name || 'N/A',
                 createdAt: product.created_at,
+                subcategoryId: product.subcategoryId,
+                weight: product.weight,
+                images: (product.productImages || []).join(', '),
+            });
+
+            (product.hasVariants ? product.variants || [] : []).forEach(variant => {
+                worksheet.addRow({
+                    sku: variant.sku,
+                    attributes: formatSheetAttributes(variant.attributes),
+                    variantPrice: Number(variant.basePrice),
+                    variantStock: variant.stock,
+                    variantImages: (variant.variantImages || []).join(', '),
+                });
             });
         });
 
@@ -0,0 +1,567 @@
+import { In, Repository } from 'typeorm';
+import { ZodError } from 'zod';
+import AppDataSource from '../config/db.config';
+import { PRODUCT_IMPORT } from '../config/constants';
+import { Product } from '../entities/product.entity';
+import { Subcategory } from '../entities/subcategory.entity';
+import { Brand, BrandStatus } from '../entities/brand.entity';
+import { ProductImportJob, ProductImportStatus } from '../entities/productImportJob.entity';
+import { StockMovementReason } from '../entities/stockMovement.entity';
+import { APIError } from '../utils/ApiError.utils';
+import {
+    IProductImportGroup,
+    IProductImportReport,
+    IProductImportResult,
+    IProductImportRowError,
+} from '../interface/productImport.interface';
+import {
+    DiscountType,
+    InventoryStatus,
+    ProductCreateSchema,
+    ProductInterface,
+    ProductUpdateSchema,
+} from '../utils/zod_validations/product.zod';
+import {
+    parseSheetAttributes,
+    parseSheetList,
+    PRODUCT_SHEET_COLUMNS,
+    ProductSheetKey,
+    ProductSheetRow,
+    readProductSheet,
+} from '../utils/productSheet.utils';
+import { ProductService } from './product.service';
+import { QueueService } from '../services/queue/QueueService';
+
+/**
+ * Options of one import upload
+ */
+interface IProductImportOptions {
+    dryRun: boolean;
+    upsert: boolean;
+}
+
+/**
+ * A vendor's existing products and the approved brands, looked up once per import
+ */
+interface IVendorCatalog {
+    products: Map<number, Product>;
+    productIdBySku: Map<string, number>;
+    brandIdByName: Map<string, number>;
+    brandIds: Set<number>;
+}
+
+// Schema fields reported under their sheet column
+const FIELD_COLUMNS: Record<string, ProductSheetKey> = {
+    name: 'name',
+    description: 'description',
+    basePrice: 'basePrice',
+    discount: 'discount',
+    discountType: 'discountType',
+    stock: 'stock',
+    weight: 'weight',
+    hasVariants: 'hasVariants',
+    productImages: 'images',
+    subcategoryId: 'subcategoryId',
+    sku: 'sku',
+    price: 'variantPrice',
+    attributes: 'attributes',
+    images: 'variantImages',
+};
+
+/**
+ * Service for bulk product import from Excel/CSV files.
+ *
+ * Files use the vendor product export layout (see PRODUCT_SHEET_COLUMNS). Every product is validated
+ * with the product zod schemas and then created or updated through ProductService, so imports follow
+ * the same rules as single-product edits. Stock changes are recorded in the ledger as IMPORT movements.
+ * Small files are imported within the request; larger ones become a job on the product import queue.
+ *
+ * Module: Product Management
+ */
+export class ProductImportService {
+    private jobRepository: Repository<ProductImportJob>;
+    private productRepository: Repository<Product>;
+    private subcategoryRepository: Repository<Subcategory>;
+    private brandRepository: Repository<Brand>;
+    private productService: ProductService;
+
+    constructor() {
+        this.jobRepository = AppDataSource.getRepository(ProductImportJob);
+        this.productRepository = AppDataSource.getRepository(Product);
+        this.subcategoryRepository = AppDataSource.getRepository(Subcategory);
+        this.brandRepository = AppDataSource.getRepository(Brand);
+        this.productService = new ProductService(AppDataSource);
+    }
+
+    /**
+     * Imports an uploaded product sheet for a vendor.
+     * Files above PRODUCT_IMPORT.BACKGROUND_ROW_THRESHOLD rows are queued as a job instead.
+     *
+     * @param vendorId {number} - Importing vendor
+     * @param file - Uploaded .xlsx or .csv file
+     * @param options {IProductImportOptions} - Dry run and upsert flags
+     * @returns The report for small files, or the queued job for large ones
+     * @throws {APIError} - 400 if the file is missing, of the wrong type, unreadable, empty or too large
+     * @access Vendor
+     */
+    async importProducts(
+        vendorId: number,
+        file: { buffer: Buffer; originalname: string } | undefined,
+        options: IProductImportOptions,
+    ): Promise<{ report?: IProductImportReport; job?: ProductImportJob }> {
+        if (!file) {
+            throw new APIError(400, 'An .xlsx or .csv file is required');
+        }
+        const fileName = file.originalname || 'import';
+        if (!PRODUCT_IMPORT.ALLOWED_EXTENSIONS.some((extension) => fileName.toLowerCase().endsWith(extension))) {
+            throw new APIError(400, 'Only .xlsx and .csv files can be imported');
+        }
+
+        const rows = await readProductSheet(file.buffer, fileName);
+        if (!rows.length) {
+            throw new APIError(400, 'The uploaded file has no product rows');
+        }
+        if (rows.length > PRODUCT_IMPORT.MAX_ROWS) {
+            throw new APIError(400, `An import can have at most ${PRODUCT_IMPORT.MAX_ROWS} rows`);
+        }
+
+        const groups = this.groupRows(rows);
+
+        if (rows.length <= PRODUCT_IMPORT.BACKGROUND_ROW_THRESHOLD) {
+            return { report: await this.processGroups(vendorId, groups, rows.length, options) };
+        }
+
+        const job = await this.jobRepository.save(this.jobRepository.create({
+            vendorId,
+            fileName: fileName.slice(0, 255),
+            dryRun: options.dryRun,
+            upsert: options.upsert,
+            status: ProductImportStatus.PENDING,
+            totalRows: rows.length,
+            groups,
+        }));
+
+        await this.enqueue(job.id);
+
+        return { job };
+    }
+
+    /**
+     * Queues an import job, running it in this process when the queue is not available (no Redis).
+     */
+    private async enqueue(jobId: number): Promise<void> {
+        try {
+            if (await QueueService.getInstance().addProductImportJob({ importJobId: jobId })) return;
+        } catch (error) {
+            console.error(`Failed to queue product import job ${jobId}, running it in-process:`, error);
+        }
+
+        // Not awaited: the upload returns the job, as with the queue
+        void this.runJob(jobId).catch((error) => console.error(`Product import job ${jobId} failed:`, error));
+    }
+
+    /**
+     * Gets one of the vendor's import jobs with its report once completed.
+     *
+     * @param vendorId {number} - Vendor that uploaded the file
+     * @param jobId {number} - Import job ID
+     * @returns {Promise<ProductImportJob>} - The job without its parsed rows
+     * @throws {APIError} - 404 if the job does not exist for this vendor
+     * @access Vendor
+     */
+    async getJob(vendorId: number, jobId: number): Promise<ProductImportJob> {
+        const job = await this.jobRepository.findOne({
+            where: { id: jobId, vendorId },
+            select: [
+                'id', 'vendorId', 'fileName', 'dryRun', 'upsert', 'status', 'totalRows', 'report',
+                'failureReason', 'startedAt', 'completedAt', 'createdAt', 'updatedAt',
+            ],
+        });
+        if (!job) {
+            throw new APIError(404, 'Import job not found');
+        }
+        return job;
+    }
+
+    /**
+     * Runs a queued import job. Does nothing once the job has completed or failed.
+     *
+     * @param jobId {number} - Import job ID
+     * @access Internal (Product import queue)
+     */
+    async runJob(jobId: number): Promise<void> {
+        // A PROCESSING job is claimed again: the queue only re-runs a job whose worker stopped mid-run.
+        // Products already saved by that run are matched by ID or SKU and updated when upsert is on.
+        const claimed = await this.jobRepository.update(
+            { id: jobId, status: In([ProductImportStatus.PENDING, ProductImportStatus.PROCESSING]) },
+            { status: ProductImportStatus.PROCESSING, startedAt: new Date() },
+        );
+        if (!claimed.affected) return;
+
+        const job = await this.jobRepository.findOneByOrFail({ id: jobId });
+
+        try {
+            const report = await this.processGroups(job.vendorId, job.groups, job.totalRows, job);
+            await this.jobRepository.update(job.id, {
+                status: ProductImportStatus.COMPLETED,
+                report,
+                completedAt: new Date(),
+            });
+        } catch (error) {
+            await this.jobRepository.update(job.id, {
+                status: ProductImportStatus.FAILED,
+                failureReason: error instanceof Error ? error.message : String(error),
+                completedAt: new Date(),
+            });
+            throw error;
+        }
+    }
+
+    /**
+     * Groups sheet rows into products: a row with a Name starts a product,
+     * following rows with only variant columns are its variants.
+     *
+     * @throws {APIError} - 400 if a variant row has no product row above it
+     */
+    private groupRows(rows: ProductSheetRow[]): IProductImportGroup[] {
+        const groups: IProductImportGroup[] = [];
+
+        for (const row of rows) {
+            if (row.name) {
+                groups.push({ product: row, variants: [] });
+            } else if (row.sku && groups.length) {
+                groups[groups.length - 1].variants.push(row);
+            } else {
+                throw new APIError(400, `Row ${row.row}: every product row needs a Name, and variant rows a SKU below their product`);
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Validates and imports every product, collecting per-row errors instead of stopping at the first one.
+     */
+    private async processGroups(
+        vendorId: number,
+        groups: IProductImportGroup[],
+        totalRows: number,
+        options: IProductImportOptions,
+    ): Promise<IProductImportReport> {
+        const catalog = await this.loadCatalog(vendorId);
+        const subcategories = await this.loadSubcategories(groups);
+        const seenSkus = new Map<string, number>();
+
+        const results: IProductImportResult[] = [];
+        for (const group of groups) {
+            results.push(await this.processGroup(vendorId, group, catalog, subcategories, seenSkus, options));
+        }
+
+        return {
+            dryRun: options.dryRun,
+            totalRows,
+            products: results.length,
+            created: results.filter((result) => result.success && result.action === 'CREATE').length,
+            updated: results.filter((result) => result.success && result.action === 'UPDATE').length,
+            failed: results.filter((result) => !result.success).length,
+            results,
+        };
+    }
+
+    private async processGroup(
+        vendorId: number,
+        group: IProductImportGroup,
+        catalog: IVendorCatalog,
+        subcategories: Map<number, Subcategory>,
+        seenSkus: Map<string, number>,
+        options: IProductImportOptions,
+    ): Promise<IProductImportResult> {
+        const { product: row, variants: variantRows } = group;
+        const errors: IProductImportRowError[] = [];
+        const result: IProductImportResult = {
+            row: row.row,
+            name: row.name || '',
+            action: null,
+            productId: null,
+            success: false,
+            errors,
+        };
+        const fail = (sheetRow: ProductSheetRow, field: ProductSheetKey | undefined, message: string) => {
+            errors.push({ row: sheetRow.row, field: field && this.columnHeader(field), message });
+        };
+
+        const hasVariants = row.hasVariants !== undefined
+            ? ['yes', 'true', '1'].includes(row.hasVariants.toLowerCase())
+            : variantRows.length > 0;
+
+        // SKUs must be unique within the file
+        for (const variantRow of variantRows) {
+            const sku = variantRow.sku!;
+            if (seenSkus.has(sku)) {
+                fail(variantRow, 'sku', `SKU "${sku}" is already used on row ${seenSkus.get(sku)}`);
+            } else {
+                seenSkus.set(sku, variantRow.row);
+            }
+        }
+
+        // Existing product: by ID, else by the SKUs of its variants
+        let existing: Product | undefined;
+        if (row.id) {
+            existing = catalog.products.get(Number(row.id));
+            if (!existing) fail(row, 'id', `Product ${row.id} not found`);
+        } else {
+            const matchedIds = new Set(variantRows
+                .map((variantRow) => catalog.productIdBySku.get(variantRow.sku!))
+                .filter((id): id is number => id !== undefined));
+            if (matchedIds.size > 1) {
+                fail(row, 'sku', 'Variant SKUs belong to different existing products');
+            } else if (matchedIds.size === 1) {
+                existing = catalog.products.get([...matchedIds][0]);
+            }
+        }
+        if (existing) {
+            for (const variantRow of variantRows) {
+                const ownerId = catalog.productIdBySku.get(variantRow.sku!);
+                if (ownerId !== undefined && ownerId !== existing.id) {
+                    fail(variantRow, 'sku', `SKU "${variantRow.sku}" belongs to product ${ownerId}`);
+                }
+            }
+            if (!options.upsert) {
+                fail(row, row.id ? 'id' : 'sku', `Product ${existing.id} already exists; enable upsert to update it`);
+            }
+        }
+        result.action = existing ? 'UPDATE' : 'CREATE';
+        result.productId = existing?.id ?? null;
+
+        // Updates keep the current subcategory unless the row gives one
+        let subcategory: Subcategory | undefined = existing?.subcategory;
+        if (row.subcategoryId) {
+            subcategory = subcategories.get(Number(row.subcategoryId));
+            if (!subcategory) fail(row, 'subcategoryId', `Subcategory ${row.subcategoryId} does not exist`);
+        } else if (!subcategory) {
+            fail(row, 'subcategoryId', 'Subcategory ID is required');
+        }
+
+        // Brand by name as exported, or by brand ID
+        let brandId: number | undefined;
+        if (row.brand && row.brand.toUpperCase() !== 'N/A') {
+            brandId = catalog.brandIdByName.get(row.brand.toLowerCase())
+                ?? (catalog.brandIds.has(Number(row.brand)) ? Number(row.brand) : undefined);
+            if (brandId === undefined) fail(row, 'brand', `Brand "${row.brand}" not found`);
+        }
+
+        const variants = variantRows.map((variantRow) => {
+            const attributes = parseSheetAttributes(variantRow.attributes);
+            if (!attributes) fail(variantRow, 'attributes', 'Attributes must look like "color: White; size: L"');
+            return { row: variantRow, attributes: attributes || {} };
+        });
+        if (!hasVariants && variantRows.length) {
+            fail(variantRows[0], 'sku', 'Variant rows given but Has Variants is "No"');
+        }
+
+        // Validate with the product schemas, reporting errors against their sheet rows
+        const schemaInput = this.toSchemaInput(row, hasVariants, variants);
+        const parsed = (existing ? ProductUpdateSchema : ProductCreateSchema).safeParse(schemaInput);
+        if (!parsed.success) {
+            this.collectZodErrors(parsed.error, row, variantRows, errors);
+        }
+
+        if (errors.length) return result;
+        if (options.dryRun) {
+            result.success = true;
+            return result;
+        }
+
+        const data = this.toProductData(row, hasVariants, variants, brandId);
+        const stockContext = { reason: StockMovementReason.IMPORT, actor: { vendorId }, note: 'Bulk import' };
+
+        try {
+            const saved = existing
+                ? await this.productService.updateProduct(
+                    vendorId, false, existing.id, data, subcategory!.category.id, subcategory!.id, stockContext)
+                : await this.productService.createProduct(
+                    data, subcategory!.category.id, subcategory!.id, vendorId, stockContext);
+
+            result.productId = saved.id;
+            result.success = true;
+
+            // Later rows can match this product by SKU
+            catalog.products.set(saved.id, { ...saved, subcategory } as Product);
+            for (const variant of saved.variants || []) {
+                catalog.productIdBySku.set(variant.sku, saved.id);
+            }
+        } catch (error) {
+            fail(row, undefined, error instanceof APIError ? error.message : 'Failed to save product');
+        }
+
+        return result;
+    }
+
+    /**
+     * The vendor's products with their variants and subcategory, a SKU index over them,
+     * and the approved brands by lowercase name
+     */
+    private async loadCatalog(vendorId: number): Promise<IVendorCatalog> {
+        const products = await this.productRepository.find({
+            where: { vendorId },
+            relations: ['variants', 'subcategory', 'subcategory.category'],
+        });
+        const brands = await this.brandRepository.find({
+            where: { status: BrandStatus.APPROVED },
+            select: ['id', 'name'],
+        });
+
+        const catalog: IVendorCatalog = {
+            products: new Map(),
+            productIdBySku: new Map(),
+            brandIdByName: new Map(brands.map((brand) => [brand.name.toLowerCase(), brand.id])),
+            brandIds: new Set(brands.map((brand) => brand.id)),
+        };
+        for (const product of products) {
+            catalog.products.set(product.id, product);
+            for (const variant of product.variants || []) {
+                catalog.productIdBySku.set(variant.sku, product.id);
+            }
+        }
+        return catalog;
+    }
+
+    private async loadSubcategories(groups: IProductImportGroup[]): Promise<Map<number, Subcategory>> {
+        const ids = [...new Set(groups
+            .map((group) => Number(group.product.subcategoryId))
+            .filter((id) => Number.isInteger(id) && id > 0))];
+        if (!ids.length) return new Map();
+
+        const subcategories = await this.subcategoryRepository.find({
+            where: { id: In(ids) },
+            relations: ['category'],
+        });
+        return new Map(subcategories.map((subcategory) => [subcategory.id, subcategory]));
+    }
+
+    /**
+     * Shapes a product and its variant rows like the product zod schemas expect
+     */
+    private toSchemaInput(
+        row: ProductSheetRow,
+        hasVariants: boolean,
+        variants: { row: ProductSheetRow; attributes: { [key: string]: string } }[],
+    ) {
+        const input: Record<string, unknown> = {
+            name: row.name,
+            description: row.description,
+            weight: this.toNumber(row.weight),
+            subcategoryId: this.toNumber(row.subcategoryId),
+            hasVariants,
+        };
+
+        if (hasVariants) {
+            input.variants = variants.map(({ row: variantRow, attributes }) => {
+                const stock = this.toNumber(variantRow.variantStock);
+                return {
+                    sku: variantRow.sku,
+                    price: this.toNumber(variantRow.variantPrice),
+                    stock,
+                    status: this.inventoryStatus(stock),
+                    attributes: Object.entries(attributes).map(([name, value]) => ({
+                        attributeType: name,
+                        attributeValues: [value],
+                    })),
+                    images: parseSheetList(variantRow.variantImages).map((url) => ({ url })),
+                };
+            });
+        } else {
+            input.basePrice = this.toNumber(row.basePrice);
+            input.stock = this.toNumber(row.stock);
+            if (row.discount) {
+                input.discount = this.toNumber(row.discount);
+                input.discountType = (row.discountType || DiscountType.PERCENTAGE).toUpperCase();
+            }
+            if (row.images) {
+                input.productImages = parseSheetList(row.images).map((url) => ({ url }));
+            }
+        }
+
+        return input;
+    }
+
+    /**
+     * Builds the ProductService input from validated rows
+     */
+    private toProductData(
+        row: ProductSheetRow,
+        hasVariants: boolean,
+        variants: { row: ProductSheetRow; attributes: { [key: string]: string } }[],
+        brandId?: number,
+    ): Partial<ProductInterface> {
+        const discount = row.discount || undefined;
+        const discountType = row.discountType ? row.discountType.toUpperCase() as DiscountType : undefined;
+
+        return {
+            name: row.name,
+            description: row.description,
+            discount,
+            discountType,
+            weight: row.weight,
+            brandId: brandId !== undefined ? String(brandId) : undefined,
+            hasVariants: hasVariants ? 'true' : 'false',
+            ...(hasVariants
+                ? {
+                    variants: variants.map(({ row: variantRow, attributes }) => ({
+                        sku: variantRow.sku!,
+                        basePrice: variantRow.variantPrice!,
+                        discount,
+                        discountType,
+                        stock: variantRow.variantStock!,
+                        attributes,
+                        variantImages: parseSheetList(variantRow.variantImages),
+                    })),
+                }
+                : {
+                    basePrice: row.basePrice,
+                    stock: row.stock,
+                    productImages: row.images ? parseSheetList(row.images) : undefined,
+                }),
+        };
+    }
+
+    /**
+     * Reports zod issues against the product row or the variant row they belong to
+     */
+    private collectZodErrors(
+        error: ZodError,
+        row: ProductSheetRow,
+        variantRows: ProductSheetRow[],
+        errors: IProductImportRowError[],
+    ): void {
+        for (const issue of error.issues) {
+            const [first, index, field] = issue.path;
+            const isVariant = first === 'variants' && typeof index === 'number';
+            const sheetRow = isVariant ? variantRows[index] || row : row;
+            const key = FIELD_COLUMNS[String(isVariant ? field : first)];
+            errors.push({
+                row: sheetRow.row,
+                field: key ? this.columnHeader(key) : undefined,
+                message: issue.message,
+            });
+        }
+    }
+
+    private columnHeader(key: ProductSheetKey): string {
+        return PRODUCT_SHEET_COLUMNS.find((column) => column.key === key)!.header;
+    }
+
+    // Numbers stay as text when they do not parse, so zod reports them
+    private toNumber(value?: string): number | string | undefined {
+        if (value === undefined) return undefined;
+        const number = Number(value);
+        return Number.isNaN(number) ? value : number;
+    }
+
+    private inventoryStatus(stock: unknown): InventoryStatus {
+        const quantity = Number(stock);
+        if (!(quantity > 0)) return InventoryStatus.OUT_OF_STOCK;
+        if (quantity < 5) return InventoryStatus.LOW_STOCK;
+        return InventoryStatus.AVAILABLE;
+    }
+}
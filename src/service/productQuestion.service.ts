@@ -0,0 +1,420 @@
+import { EntityManager, In, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { ProductQuestion } from '../entities/productQuestion.entity';
+import { QuestionStatus } from '../entities/productQuestion.enum';
+import { ProductAnswer } from '../entities/productAnswer.entity';
+import { ProductQuestionVote } from '../entities/productQuestionVote.entity';
+import { Product } from '../entities/product.entity';
+import { OrderItem } from '../entities/orderItems.entity';
+import { OrderStatus } from '../entities/order.entity';
+import { APIError } from '../utils/ApiError.utils';
+import { NotificationService } from './notification.service';
+import {
+    AdminQuestionQueryInput,
+    AnswerQuestionInput,
+    AskQuestionInput,
+    ModerateQuestionInput,
+    QuestionQueryInput,
+} from '../utils/zod_validations/productQuestion.zod';
+
+// Orders that make a customer a buyer of the product, able to answer its questions
+const PURCHASED_ORDER_STATUSES = [OrderStatus.CONFIRMED, OrderStatus.SHIPPED, OrderStatus.DELIVERED];
+
+type VoteTarget = { questionId: number } | { answerId: number };
+
+/**
+ * Service for product questions and answers.
+ *
+ * Customers ask pre-purchase questions on a product page. The vendor owning the product
+ * is notified and can answer, as can customers who bought the product. Questions and
+ * answers can be upvoted once per customer, and admins can hide or delete them.
+ *
+ * Module: Product Q&A
+ */
+export class ProductQuestionService {
+    private questionRepository: Repository<ProductQuestion>;
+    private answerRepository: Repository<ProductAnswer>;
+    private productRepository: Repository<Product>;
+    private orderItemRepository: Repository<OrderItem>;
+    private notificationService: NotificationService;
+
+    constructor() {
+        this.questionRepository = AppDataSource.getRepository(ProductQuestion);
+        this.answerRepository = AppDataSource.getRepository(ProductAnswer);
+        this.productRepository = AppDataSource.getRepository(Product);
+        this.orderItemRepository = AppDataSource.getRepository(OrderItem);
+        this.notificationService = new NotificationService();
+    }
+
+    /**
+     * Published questions of a product with their published answers.
+     * Vendor answers come first, then the most upvoted.
+     *
+     * @param productId {number} - Product ID
+     * @param query {QuestionQueryInput} - Pagination and sort ("helpful" or "newest")
+     * @returns Paginated questions
+     * @throws {APIError} - 404 if the product does not exist
+     * @access Public
+     */
+    async getProductQuestions(productId: number, query: Partial<QuestionQueryInput>) {
+        await this.getProductOrFail(productId);
+
+        const page = query.page || 1;
+        const limit = query.limit || 10;
+
+        const qb = this.questionRepository.createQueryBuilder('question')
+            .leftJoin('question.user', 'user')
+            .addSelect(['user.id', 'user.fullName'])
+            .where('question.productId = :productId', { productId })
+            .andWhere('question.status = :status', { status: QuestionStatus.PUBLISHED })
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (query.sort === 'newest') {
+            qb.orderBy('question.createdAt', 'DESC');
+        } else {
+            qb.orderBy('question.upvoteCount', 'DESC').addOrderBy('question.createdAt', 'DESC');
+        }
+
+        const [questions, total] = await qb.getManyAndCount();
+        await this.attachAnswers(questions, true);
+
+        return { questions, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Posts a question and notifies the vendor owning the product.
+     *
+     * @param userId {number} - Asking customer
+     * @param data {AskQuestionInput} - Product and question
+     * @returns {Promise<ProductQuestion>} - Created question
+     * @throws {APIError} - 404 if the product does not exist
+     * @access Authenticated user
+     */
+    async askQuestion(userId: number, data: AskQuestionInput): Promise<ProductQuestion> {
+        const product = await this.getProductOrFail(data.productId);
+
+        const question = await this.questionRepository.save(this.questionRepository.create({
+            productId: product.id,
+            userId,
+            question: data.question,
+        }));
+
+        try {
+            await this.notificationService.notifyProductQuestion(question, product);
+        } catch (error) {
+            // The question is saved either way; the vendor still sees it in their product Q&A
+            console.error('Failed to notify vendor of product question:', error);
+        }
+
+        return question;
+    }
+
+    /**
+     * Answers a question about one of the vendor's products.
+     *
+     * @param vendorId {number} - Answering vendor
+     * @param questionId {number} - Question ID
+     * @param data {AnswerQuestionInput} - Answer text
+     * @returns {Promise<ProductAnswer>} - Created answer
+     * @throws {APIError} - 404 if the question does not exist, 403 if the product belongs to another vendor
+     * @access Vendor
+     */
+    async answerAsVendor(vendorId: number, questionId: number, data: AnswerQuestionInput): Promise<ProductAnswer> {
+        const question = await this.getPublishedQuestionOrFail(questionId);
+        if (question.product.vendorId !== vendorId) {
+            throw new APIError(403, 'You can only answer questions about your own products');
+        }
+
+        return await this.answerRepository.save(this.answerRepository.create({
+            questionId: question.id,
+            vendorId,
+            answer: data.answer,
+        }));
+    }
+
+    /**
+     * Answers a question as a customer who bought the product.
+     *
+     * @param userId {number} - Answering customer
+     * @param questionId {number} - Question ID
+     * @param data {AnswerQuestionInput} - Answer text
+     * @returns {Promise<ProductAnswer>} - Created answer
+     * @throws {APIError} - 404 if the question does not exist, 403 if the customer has not bought the product
+     * @access Authenticated user
+     */
+    async answerAsCustomer(userId: number, questionId: number, data: AnswerQuestionInput): Promise<ProductAnswer> {
+        const question = await this.getPublishedQuestionOrFail(questionId);
+
+        const purchased = await this.orderItemRepository.createQueryBuilder('orderItem')
+            .innerJoin('orderItem.order', 'order')
+            .where('order.orderedById = :userId', { userId })
+            .andWhere('order.status IN (:...statuses)', { statuses: PURCHASED_ORDER_STATUSES })
+            .andWhere('orderItem.productId = :productId', { productId: question.productId })
+            .getExists();
+        if (!purchased) {
+            throw new APIError(403, 'Only customers who bought this product can answer its questions');
+        }
+
+        return await this.answerRepository.save(this.answerRepository.create({
+            questionId: question.id,
+            userId,
+            answer: data.answer,
+        }));
+    }
+
+    /**
+     * Upvotes a published question.
+     *
+     * @param userId {number} - Voting customer
+     * @param questionId {number} - Question ID
+     * @returns The question's new upvote count
+     * @throws {APIError} - 404 if not found, 400 for the customer's own question, 409 if already upvoted
+     * @access Authenticated user
+     */
+    async upvoteQuestion(userId: number, questionId: number): Promise<{ upvoteCount: number }> {
+        const question = await this.getPublishedQuestionOrFail(questionId);
+        if (question.userId === userId) {
+            throw new APIError(400, 'You cannot upvote your own question');
+        }
+        return this.addVote(userId, { questionId });
+    }
+
+    /**
+     * Removes the customer's upvote from a question.
+     *
+     * @param userId {number} - Voting customer
+     * @param questionId {number} - Question ID
+     * @returns The question's new upvote count
+     * @throws {APIError} - 404 if the customer has not upvoted the question
+     * @access Authenticated user
+     */
+    async removeQuestionUpvote(userId: number, questionId: number): Promise<{ upvoteCount: number }> {
+        return this.removeVote(userId, { questionId });
+    }
+
+    /**
+     * Upvotes a published answer.
+     *
+     * @param userId {number} - Voting customer
+     * @param answerId {number} - Answer ID
+     * @returns The answer's new upvote count
+     * @throws {APIError} - 404 if not found, 400 for the customer's own answer, 409 if already upvoted
+     * @access Authenticated user
+     */
+    async upvoteAnswer(userId: number, answerId: number): Promise<{ upvoteCount: number }> {
+        const answer = await this.answerRepository.findOne({
+            where: { id: answerId, status: QuestionStatus.PUBLISHED },
+        });
+        if (!answer) {
+            throw new APIError(404, 'Answer not found');
+        }
+        if (answer.userId === userId) {
+            throw new APIError(400, 'You cannot upvote your own answer');
+        }
+        return this.addVote(userId, { answerId });
+    }
+
+    /**
+     * Removes the customer's upvote from an answer.
+     *
+     * @param userId {number} - Voting customer
+     * @param answerId {number} - Answer ID
+     * @returns The answer's new upvote count
+     * @throws {APIError} - 404 if the customer has not upvoted the answer
+     * @access Authenticated user
+     */
+    async removeAnswerUpvote(userId: number, answerId: number): Promise<{ upvoteCount: number }> {
+        return this.removeVote(userId, { answerId });
+    }
+
+    /**
+     * Questions of all statuses with all their answers, newest first, for moderation.
+     *
+     * @param query {AdminQuestionQueryInput} - Pagination, status and product filters
+     * @returns Paginated questions
+     * @access Admin | Staff
+     */
+    async getQuestionsForModeration(query: Partial<AdminQuestionQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const qb = this.questionRepository.createQueryBuilder('question')
+            .leftJoin('question.user', 'user')
+            .addSelect(['user.id', 'user.fullName', 'user.email'])
+            .leftJoin('question.product', 'product')
+            .addSelect(['product.id', 'product.name', 'product.vendorId'])
+            .orderBy('question.createdAt', 'DESC')
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (query.status) {
+            qb.andWhere('question.status = :status', { status: query.status });
+        }
+        if (query.productId) {
+            qb.andWhere('question.productId = :productId', { productId: query.productId });
+        }
+
+        const [questions, total] = await qb.getManyAndCount();
+        await this.attachAnswers(questions, false);
+
+        return { questions, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Publishes or hides a question.
+     *
+     * @param id {number} - Question ID
+     * @param data {ModerateQuestionInput} - New status and optional note
+     * @returns {Promise<ProductQuestion>} - Updated question
+     * @throws {APIError} - 404 if not found
+     * @access Admin | Staff
+     */
+    async moderateQuestion(id: number, data: ModerateQuestionInput): Promise<ProductQuestion> {
+        const question = await this.questionRepository.findOne({ where: { id } });
+        if (!question) {
+            throw new APIError(404, 'Question not found');
+        }
+
+        question.status = data.status;
+        question.moderationNote = data.note ?? null;
+        return await this.questionRepository.save(question);
+    }
+
+    /**
+     * Publishes or hides an answer.
+     *
+     * @param id {number} - Answer ID
+     * @param data {ModerateQuestionInput} - New status and optional note
+     * @returns {Promise<ProductAnswer>} - Updated answer
+     * @throws {APIError} - 404 if not found
+     * @access Admin | Staff
+     */
+    async moderateAnswer(id: number, data: ModerateQuestionInput): Promise<ProductAnswer> {
+        const answer = await this.answerRepository.findOne({ where: { id } });
+        if (!answer) {
+            throw new APIError(404, 'Answer not found');
+        }
+
+        answer.status = data.status;
+        answer.moderationNote = data.note ?? null;
+        return await this.answerRepository.save(answer);
+    }
+
+    /**
+     * Deletes a question with its answers and votes.
+     *
+     * @param id {number} - Question ID
+     * @throws {APIError} - 404 if not found
+     * @access Admin | Staff
+     */
+    async deleteQuestion(id: number): Promise<void> {
+        const result = await this.questionRepository.delete(id);
+        if (!result.affected) {
+            throw new APIError(404, 'Question not found');
+        }
+    }
+
+    /**
+     * Deletes an answer with its votes.
+     *
+     * @param id {number} - Answer ID
+     * @throws {APIError} - 404 if not found
+     * @access Admin | Staff
+     */
+    async deleteAnswer(id: number): Promise<void> {
+        const result = await this.answerRepository.delete(id);
+        if (!result.affected) {
+            throw new APIError(404, 'Answer not found');
+        }
+    }
+
+    private async getProductOrFail(productId: number): Promise<Product> {
+        const product = await this.productRepository.findOne({ where: { id: productId } });
+        if (!product) {
+            throw new APIError(404, 'Product not found');
+        }
+        return product;
+    }
+
+    private async getPublishedQuestionOrFail(questionId: number): Promise<ProductQuestion> {
+        const question = await this.questionRepository.findOne({
+            where: { id: questionId, status: QuestionStatus.PUBLISHED },
+            relations: ['product'],
+        });
+        if (!question) {
+            throw new APIError(404, 'Question not found');
+        }
+        return question;
+    }
+
+    /**
+     * Loads the answers of a page of questions in one query: vendor answers first, then by upvotes
+     */
+    private async attachAnswers(questions: ProductQuestion[], publishedOnly: boolean): Promise<void> {
+        if (!questions.length) return;
+
+        const qb = this.answerRepository.createQueryBuilder('answer')
+            .leftJoin('answer.user', 'user')
+            .addSelect(['user.id', 'user.fullName'])
+            .leftJoin('answer.vendor', 'vendor')
+            .addSelect(['vendor.id', 'vendor.businessName'])
+            .where({ questionId: In(questions.map((question) => question.id)) })
+            .orderBy('CASE WHEN answer.vendorId IS NULL THEN 1 ELSE 0 END', 'ASC')
+            .addOrderBy('answer.upvoteCount', 'DESC')
+            .addOrderBy('answer.createdAt', 'ASC');
+
+        if (publishedOnly) {
+            qb.andWhere('answer.status = :status', { status: QuestionStatus.PUBLISHED });
+        }
+
+        const answers = await qb.getMany();
+        for (const question of questions) {
+            question.answers = answers.filter((answer) => answer.questionId === question.id);
+        }
+    }
+
+    /**
+     * Records a vote and bumps the upvote count of the question or answer in one transaction
+     */
+    private async addVote(userId: number, target: VoteTarget): Promise<{ upvoteCount: number }> {
+        return AppDataSource.transaction(async (manager) => {
+            const existing = await manager.findOne(ProductQuestionVote, { where: { userId, ...target } });
+            if (existing) {
+                throw new APIError(409, 'You have already upvoted this');
+            }
+
+            await manager.save(ProductQuestionVote, manager.create(ProductQuestionVote, { userId, ...target }));
+            return this.changeUpvoteCount(manager, target, 1);
+        });
+    }
+
+    private async removeVote(userId: number, target: VoteTarget): Promise<{ upvoteCount: number }> {
+        return AppDataSource.transaction(async (manager) => {
+            const result = await manager.delete(ProductQuestionVote, { userId, ...target });
+            if (!result.affected) {
+                throw new APIError(404, 'You have not upvoted this');
+            }
+            return this.changeUpvoteCount(manager, target, -1);
+        });
+    }
+
+    private async changeUpvoteCount(
+        manager: EntityManager,
+        target: VoteTarget,
+        by: number,
+    ): Promise<{ upvoteCount: number }> {
+        const [entity, id] = 'questionId' in target
+            ? [ProductQuestion, target.questionId]
+            : [ProductAnswer, target.answerId];
+
+        const result = await manager.createQueryBuilder()
+            .update(entity)
+            .set({ upvoteCount: () => `GREATEST("upvoteCount" + ${by}, 0)` })
+            .where('id = :id', { id })
+            .returning(['upvoteCount'])
+            .execute();
+
+        return { upvoteCount: Number(result.raw[0]?.upvoteCount ?? 0) };
+    }
+}
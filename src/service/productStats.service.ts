@@ -0,0 +1,96 @@
+import AppDataSource from '../config/db.config';
+import { PRODUCT_STATS } from '../config/constants';
+import { OrderStatus } from '../entities/order.entity';
+
+// Sales of cancelled and returned orders do not count
+const EXCLUDED_ORDER_STATUSES = [OrderStatus.CANCELLED, OrderStatus.RETURNED];
+
+/**
+ * Percentage off for a table alias with basePrice/discount/discountType, capped at 100
+ */
+const discountPercent = (alias: string) => `LEAST(100, CASE
+    WHEN ${alias}."discount" <= 0 THEN 0
+    WHEN ${alias}."discountType" = 'PERCENTAGE' THEN ${alias}."discount"
+    WHEN ${alias}."basePrice" > 0 THEN ${alias}."discount" / ${alias}."basePrice" * 100
+    ELSE 0
+END)`;
+
+/**
+ * Service for the product statistics table behind the best-selling, trending, top-rated
+ * and discount listing sorts.
+ *
+ * Aggregating orders and reviews per request would make every sorted listing scan them,
+ * so the figures are rebuilt for all products in one statement by a cron job instead.
+ *
+ * Module: Product Management
+ */
+export class ProductStatsService {
+    /**
+     * Recomputes the statistics of every product.
+     *
+     * @returns {Promise<number>} - Number of products refreshed
+     * @access Internal (Cron job)
+     */
+    async refreshStats(): Promise<number> {
+        const salesWindowDays = Math.max(PRODUCT_STATS.BEST_SELLING_WINDOW_DAYS, PRODUCT_STATS.TRENDING_WINDOW_DAYS);
+
+        const rows: { productId: number }[] = await AppDataSource.query(
+            `INSERT INTO "product_stats"
+                ("productId", "unitsSold", "trendingScore", "reviewCount", "averageRating", "bayesianRating", "maxDiscountPercent", "refreshedAt")
+            SELECT
+                p."id",
+                COALESCE(sales."unitsSold", 0),
+                COALESCE(sales."trendingScore", 0),
+                COALESCE(ratings."reviewCount", 0),
+                ratings."averageRating",
+                CASE WHEN ratings."reviewCount" > 0 THEN
+                    (ratings."reviewCount" * ratings."averageRating" + $4 * store."averageRating") / (ratings."reviewCount" + $4)
+                END,
+                GREATEST(${discountPercent('p')}, COALESCE(variantDiscounts."maxDiscountPercent", 0)),
+                NOW()
+            FROM "products" p
+            LEFT JOIN (
+                SELECT
+                    item."productId",
+                    SUM(item."quantity") FILTER (WHERE o."createdAt" >= NOW() - make_interval(days => $1)) AS "unitsSold",
+                    SUM(item."quantity" * POWER(0.5, EXTRACT(EPOCH FROM NOW() - o."createdAt") / 86400.0 / $3))
+                        FILTER (WHERE o."createdAt" >= NOW() - make_interval(days => $2)) AS "trendingScore"
+                FROM "order_items" item
+                INNER JOIN "orders" o ON o."id" = item."orderId"
+                WHERE o."createdAt" >= NOW() - make_interval(days => $5) AND o."status"::text <> ALL($6::text[])
+                GROUP BY item."productId"
+            ) sales ON sales."productId" = p."id"
+            LEFT JOIN (
+                SELECT r."productId", COUNT(*) AS "reviewCount", AVG(r."rating") AS "averageRating"
+                FROM "reviews" r
+                WHERE r."status" = 'APPROVED'
+                GROUP BY r."productId"
+            ) ratings ON ratings."productId" = p."id"
+            LEFT JOIN (
+                SELECT v."product_id", MAX(${discountPercent('v')}) AS "maxDiscountPercent"
+                FROM "variants" v
+                GROUP BY v."product_id"
+            ) variantDiscounts ON variantDiscounts."product_id" = p."id"
+            CROSS JOIN (SELECT AVG(r."rating") AS "averageRating" FROM "reviews" r WHERE r."status" = 'APPROVED') store
+            ON CONFLICT ("productId") DO UPDATE SET
+                "unitsSold" = EXCLUDED."unitsSold",
+                "trendingScore" = EXCLUDED."trendingScore",
+                "reviewCount" = EXCLUDED."reviewCount",
+                "averageRating" = EXCLUDED."averageRating",
+                "bayesianRating" = EXCLUDED."bayesianRating",
+                "maxDiscountPercent" = EXCLUDED."maxDiscountPercent",
+                "refreshedAt" = EXCLUDED."refreshedAt"
+            RETURNING "productId"`,
+            [
+                PRODUCT_STATS.BEST_SELLING_WINDOW_DAYS,
+                PRODUCT_STATS.TRENDING_WINDOW_DAYS,
+                PRODUCT_STATS.TRENDING_HALF_LIFE_DAYS,
+                PRODUCT_STATS.BAYESIAN_MIN_REVIEWS,
+                salesWindowDays,
+                EXCLUDED_ORDER_STATUSES,
+            ]
+        );
+
+        return rows.length;
+    }
+}
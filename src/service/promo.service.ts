@@ -1,30 +1,93 @@
-import { Repository } from "typeorm";
-import { Promo } from '../entities/promo.entity';
+import { EntityManager, FindOptionsWhere, In, Not, Repository } from "typeorm";
+import { Promo, PromoType } from '../entities/promo.entity';
+import { PromoRedemption } from "../entities/promoRedemption.entity";
+import { Order, OrderStatus } from "../entities/order.entity";
+import { OrderItem } from "../entities/orderItems.entity";
+import { Category } from "../entities/category.entity";
+import { Subcategory } from "../entities/subcategory.entity";
+import { Vendor } from "../entities/vendor.entity";
+import { Product } from "../entities/product.entity";
+import { DiscountType } from "../entities/product.enum";
 import AppDataSource from "../config/db.config";
-import { CreatePromoCodeInput, DeletePromoCodeInput } from "../utils/zod_validations/promo.zod";
+import { CreatePromoCodeInput, DeletePromoCodeInput, UpdatePromoCodeInput } from "../utils/zod_validations/promo.zod";
+import { IPromoEvaluation, IPromoLine, IPromoUsageReport } from "../interface/promo.interface";
 import { APIError } from "../utils/ApiError.utils";
 
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const SCOPE_RELATIONS = ['categories', 'vendors', 'products'];
+
 export class PromoService {
 
     private promoRepository: Repository<Promo>;
+    private redemptionRepository: Repository<PromoRedemption>;
+    private orderRepository: Repository<Order>;
+    private categoryRepository: Repository<Category>;
+    private subcategoryRepository: Repository<Subcategory>;
+    private vendorRepository: Repository<Vendor>;
+    private productRepository: Repository<Product>;
+
     constructor() {
         this.promoRepository = AppDataSource.getRepository(Promo);
+        this.redemptionRepository = AppDataSource.getRepository(PromoRedemption);
+        this.orderRepository = AppDataSource.getRepository(Order);
+        this.categoryRepository = AppDataSource.getRepository(Category);
+        this.subcategoryRepository = AppDataSource.getRepository(Subcategory);
+        this.vendorRepository = AppDataSource.getRepository(Vendor);
+        this.productRepository = AppDataSource.getRepository(Product);
     }
 
     async getPromoCode() {
-        return await this.promoRepository.find();
+        return await this.promoRepository.find({ relations: SCOPE_RELATIONS });
     }
 
     async createPromo(data: CreatePromoCodeInput): Promise<Promo> {
+        const existing = await this.promoRepository.findOne({ where: { promoCode: data.promoCode } });
+        if (existing) {
+            throw new APIError(409, "Promo code already exists");
+        }
+
+        const { categoryIds, vendorIds, productIds, ...fields } = data;
         const newpromoCode = this.promoRepository.create({
-            ...data
-        })
+            ...fields,
+            ...(await this.resolveScope({ categoryIds, vendorIds, productIds })),
+        });
+
+        return await this.promoRepository.save(newpromoCode);
+    }
+
+    /**
+     * Update a promo code. Scope lists replace the current scope when given.
+     *
+     * @throws {APIError} 404 if not found, 409 on duplicate code, 400 if the result is inconsistent
+     */
+    async updatePromo(promoId: number, data: UpdatePromoCodeInput): Promise<Promo> {
+        const promo = await this.promoRepository.findOne({ where: { id: promoId }, relations: SCOPE_RELATIONS });
+        if (!promo) {
+            throw new APIError(404, "Promo code not found");
+        }
 
-        console.log(newpromoCode);
+        if (data.promoCode && data.promoCode !== promo.promoCode) {
+            const duplicate = await this.promoRepository.findOne({ where: { promoCode: data.promoCode } });
+            if (duplicate) {
+                throw new APIError(409, "Promo code already exists");
+            }
+        }
 
-        const savedpromoCode = await this.promoRepository.save(newpromoCode);
+        const { categoryIds, vendorIds, productIds, ...fields } = data;
+        Object.assign(promo, fields, await this.resolveScope({ categoryIds, vendorIds, productIds }));
 
-        return savedpromoCode;
+        if (promo.discountType === DiscountType.FLAT && !(Number(promo.discountAmount) > 0)) {
+            throw new APIError(400, "Flat promos need a discountAmount");
+        }
+        if (promo.discountType === DiscountType.PERCENTAGE && !(promo.discountPercentage >= 1)) {
+            throw new APIError(400, "Percentage promos need a discountPercentage of at least 1");
+        }
+        if (promo.startsAt && promo.endsAt && promo.startsAt >= promo.endsAt) {
+            throw new APIError(400, "endsAt must be after startsAt");
+        }
+
+        return await this.promoRepository.save(promo);
     }
 
     async deletePromo(data: DeletePromoCodeInput) {
@@ -58,4 +121,297 @@ export class PromoService {
             }
         })
     }
-}
\ No newline at end of file
+
+    /**
+     * Check the rules that do not depend on the cart: active, date window, usage limits, first order.
+     * Cart rules (minimum spend, scope) are checked at checkout by evaluatePromo.
+     *
+     * @returns {Promise<Promo>} The promo, if this customer may use it
+     * @throws {APIError} 404 if the code does not exist, 400 with the reason it cannot be used
+     */
+    async checkPromoForUser(code: string, userId: number): Promise<Promo> {
+        const promo = await this.promoRepository.findOne({ where: { promoCode: code }, relations: SCOPE_RELATIONS });
+        if (!promo) {
+            throw new APIError(404, "Promo code not found");
+        }
+
+        await this.assertUsable(promo, userId, this.promoRepository.manager);
+        return promo;
+    }
+
+    /**
+     * Validate a promo code against a checkout and work out the discount.
+     *
+     * - LINE_TOTAL promos discount the subtotal of in-scope items; SHIPPING promos discount the shipping fee.
+     * - A scoped promo needs at least one in-scope item.
+     * - The discount never exceeds maxDiscount or the amount it applies to.
+     *
+     * @param code {string} - Promo code entered by the customer
+     * @param userId {number} - Customer placing the order
+     * @param lines {IPromoLine[]} - Checkout lines with their totals
+     * @param shippingFee {number} - Shipping fee of the order
+     * @returns {Promise<IPromoEvaluation>} The promo and the discount to apply
+     * @throws {APIError} 404 if the code does not exist, 400 with the reason it cannot be used
+     */
+    async evaluatePromo(code: string, userId: number, lines: IPromoLine[], shippingFee: number): Promise<IPromoEvaluation> {
+        const promo = await this.checkPromoForUser(code, userId);
+
+        const subtotal = roundAmount(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+        if (promo.minOrderValue !== null && subtotal < Number(promo.minOrderValue)) {
+            throw new APIError(400, `Promo code requires a minimum order of Rs ${Number(promo.minOrderValue)}`);
+        }
+
+        const eligibleLines = await this.filterEligibleLines(promo, lines);
+        if (!eligibleLines.length) {
+            throw new APIError(400, "Promo code does not apply to the items in your order");
+        }
+        const eligibleSubtotal = roundAmount(eligibleLines.reduce((sum, line) => sum + line.lineTotal, 0));
+
+        const base = promo.applyOn === PromoType.SHIPPING ? Number(shippingFee) : eligibleSubtotal;
+        let discountAmount = promo.discountType === DiscountType.FLAT
+            ? Number(promo.discountAmount) || 0
+            : (base * promo.discountPercentage) / 100;
+
+        if (promo.maxDiscount !== null) {
+            discountAmount = Math.min(discountAmount, Number(promo.maxDiscount));
+        }
+        discountAmount = roundAmount(Math.min(discountAmount, base));
+
+        return { promo, discountAmount, eligibleSubtotal };
+    }
+
+    /**
+     * Record a redemption inside the order transaction.
+     * The promo row is locked and the usage limits re-checked so concurrent checkouts cannot exceed them.
+     *
+     * @throws {APIError} 400 if a limit was reached since the promo was evaluated
+     */
+    async recordRedemption(manager: EntityManager, evaluation: IPromoEvaluation, userId: number, orderId: number): Promise<PromoRedemption> {
+        const promo = await manager.findOne(Promo, {
+            where: { id: evaluation.promo.id },
+            lock: { mode: 'pessimistic_write' },
+        });
+        if (!promo) {
+            throw new APIError(404, "Promo code not found");
+        }
+
+        await this.assertUsable(promo, userId, manager, orderId);
+
+        const redemption = manager.create(PromoRedemption, {
+            promoId: promo.id,
+            userId,
+            orderId,
+            discountAmount: evaluation.discountAmount,
+        });
+        return await manager.save(redemption);
+    }
+
+    /**
+     * Split the promo discount of an order over its items, in proportion to the eligible line totals.
+     * Shipping promos discount no items. Eligibility follows the promo's current scope, and falls back
+     * to every item if the scope no longer matches any.
+     *
+     * @returns Discount per order item ID, for the item's full quantity; items without a discount are left out
+     */
+    async allocateOrderDiscount(orderId: number, manager: EntityManager = AppDataSource.manager): Promise<Map<number, number>> {
+        const discounts = new Map<number, number>();
+
+        const redemption = await manager.findOne(PromoRedemption, {
+            where: { orderId },
+            relations: ['promo', ...SCOPE_RELATIONS.map((relation) => `promo.${relation}`)],
+        });
+        if (!redemption || redemption.promo.applyOn === PromoType.SHIPPING) {
+            return discounts;
+        }
+
+        const items = await manager.find(OrderItem, { where: { orderId }, relations: ['product'] });
+        const lines: IPromoLine[] = items.map((item) => ({
+            productId: item.productId,
+            vendorId: item.vendorId,
+            subcategoryId: item.product?.subcategoryId,
+            lineTotal: Number(item.price) * item.quantity,
+        }));
+
+        const scoped = await this.filterEligibleLines(redemption.promo, lines);
+        const eligible = new Set(scoped.length ? scoped : lines);
+        const eligibleTotal = lines.filter((line) => eligible.has(line)).reduce((sum, line) => sum + line.lineTotal, 0);
+        if (eligibleTotal <= 0) {
+            return discounts;
+        }
+
+        items.forEach((item, index) => {
+            if (eligible.has(lines[index])) {
+                discounts.set(item.id, roundAmount(Number(redemption.discountAmount) * lines[index].lineTotal / eligibleTotal));
+            }
+        });
+        return discounts;
+    }
+
+    /**
+     * Usage report for a promo code.
+     * Redemptions from cancelled orders are reported separately and do not count as used.
+     *
+     * @throws {APIError} 404 if not found
+     */
+    async getPromoUsage(promoId: number): Promise<IPromoUsageReport> {
+        const promo = await this.findPromoCodeById(promoId);
+        if (!promo) {
+            throw new APIError(404, "Promo code not found");
+        }
+
+        const totals = await this.redemptionRepository
+            .createQueryBuilder('redemption')
+            .innerJoin('redemption.order', 'order')
+            .select('COUNT(redemption.id)', 'totalRedemptions')
+            .addSelect('COUNT(DISTINCT redemption.userId)', 'uniqueCustomers')
+            .addSelect('COALESCE(SUM(redemption.discountAmount), 0)', 'totalDiscount')
+            .where('redemption.promoId = :promoId', { promoId })
+            .andWhere('order.status != :cancelled', { cancelled: OrderStatus.CANCELLED })
+            .getRawOne();
+
+        const cancelledRedemptions = await this.redemptionRepository
+            .createQueryBuilder('redemption')
+            .innerJoin('redemption.order', 'order')
+            .where('redemption.promoId = :promoId', { promoId })
+            .andWhere('order.status = :cancelled', { cancelled: OrderStatus.CANCELLED })
+            .getCount();
+
+        const recent = await this.redemptionRepository.find({
+            where: { promoId },
+            relations: ['order', 'user'],
+            order: { createdAt: 'DESC' },
+            take: 50,
+        });
+
+        const totalRedemptions = Number(totals?.totalRedemptions) || 0;
+
+        return {
+            promoId: promo.id,
+            promoCode: promo.promoCode,
+            usageLimit: promo.usageLimit ?? null,
+            perUserLimit: promo.perUserLimit ?? null,
+            totalRedemptions,
+            remainingUses: promo.usageLimit ? Math.max(promo.usageLimit - totalRedemptions, 0) : null,
+            uniqueCustomers: Number(totals?.uniqueCustomers) || 0,
+            totalDiscount: roundAmount(Number(totals?.totalDiscount) || 0),
+            cancelledRedemptions,
+            recentRedemptions: recent.map((redemption) => ({
+                orderId: redemption.orderId,
+                orderStatus: redemption.order?.status,
+                userId: redemption.userId,
+                email: redemption.user?.email || null,
+                discountAmount: Number(redemption.discountAmount),
+                redeemedAt: redemption.createdAt,
+            })),
+        };
+    }
+
+    /**
+     * Checks the promo's validity window and usage rules for a customer.
+     * When recording against an order, that order is left out of the customer's earlier orders.
+     */
+    private async assertUsable(promo: Promo, userId: number, manager: EntityManager, orderId?: number): Promise<void> {
+        if (promo.isValid === false) {
+            throw new APIError(400, "Promo code is no longer valid");
+        }
+
+        const now = new Date();
+        if (promo.startsAt && now < promo.startsAt) {
+            throw new APIError(400, "Promo code is not active yet");
+        }
+        if (promo.endsAt && now > promo.endsAt) {
+            throw new APIError(400, "Promo code has expired");
+        }
+
+        if (promo.usageLimit && await this.countRedemptions(manager, promo.id) >= promo.usageLimit) {
+            throw new APIError(400, "Promo code usage limit has been reached");
+        }
+        if (promo.perUserLimit && await this.countRedemptions(manager, promo.id, userId) >= promo.perUserLimit) {
+            throw new APIError(400, "You have already used this promo code");
+        }
+
+        if (promo.firstOrderOnly) {
+            const where: FindOptionsWhere<Order> = { orderedById: userId, status: Not(In([OrderStatus.PENDING, OrderStatus.CANCELLED])) };
+            if (orderId !== undefined) {
+                where.id = Not(orderId);
+            }
+            const previousOrders = await manager.count(Order, { where });
+            if (previousOrders > 0) {
+                throw new APIError(400, "Promo code is only valid on your first order");
+            }
+        }
+    }
+
+    /**
+     * Redemptions that still count towards limits, i.e. whose order was not cancelled
+     */
+    private async countRedemptions(manager: EntityManager, promoId: number, userId?: number): Promise<number> {
+        const query = manager
+            .getRepository(PromoRedemption)
+            .createQueryBuilder('redemption')
+            .innerJoin('redemption.order', 'order')
+            .where('redemption.promoId = :promoId', { promoId })
+            .andWhere('order.status != :cancelled', { cancelled: OrderStatus.CANCELLED });
+
+        if (userId !== undefined) {
+            query.andWhere('redemption.userId = :userId', { userId });
+        }
+
+        return await query.getCount();
+    }
+
+    /**
+     * Lines matching the promo scope; an item matches if it is in any scoped category, vendor or product
+     */
+    private async filterEligibleLines(promo: Promo, lines: IPromoLine[]): Promise<IPromoLine[]> {
+        const productIds = new Set((promo.products || []).map((product) => product.id));
+        const vendorIds = new Set((promo.vendors || []).map((vendor) => vendor.id));
+        const categoryIds = (promo.categories || []).map((category) => category.id);
+
+        if (!productIds.size && !vendorIds.size && !categoryIds.length) {
+            return lines;
+        }
+
+        // Products reference subcategories, so expand the scoped categories to their subcategories
+        const subcategoryIds = new Set(categoryIds.length
+            ? (await this.subcategoryRepository.find({ where: { category: { id: In(categoryIds) } } })).map((sub) => sub.id)
+            : []);
+
+        return lines.filter((line) =>
+            productIds.has(line.productId) ||
+            vendorIds.has(line.vendorId) ||
+            (line.subcategoryId != null && subcategoryIds.has(line.subcategoryId))
+        );
+    }
+
+    /**
+     * Load scope entities for the given ids; undefined lists are left untouched
+     */
+    private async resolveScope(ids: { categoryIds?: number[]; vendorIds?: number[]; productIds?: number[] }): Promise<Partial<Promo>> {
+        const scope: Partial<Promo> = {};
+
+        if (ids.categoryIds) {
+            scope.categories = await this.findAll(this.categoryRepository, ids.categoryIds, "categories");
+        }
+        if (ids.vendorIds) {
+            scope.vendors = await this.findAll(this.vendorRepository, ids.vendorIds, "vendors");
+        }
+        if (ids.productIds) {
+            scope.products = await this.findAll(this.productRepository, ids.productIds, "products");
+        }
+
+        return scope;
+    }
+
+    private async findAll<T extends { id: number }>(repository: Repository<T>, ids: number[], label: string): Promise<T[]> {
+        if (!ids.length) {
+            return [];
+        }
+
+        const entities = await repository.findBy({ id: In(ids) } as FindOptionsWhere<T>);
+        if (entities.length !== new Set(ids).size) {
+            throw new APIError(404, `One or more ${label} not found`);
+        }
+        return entities;
+    }
+}
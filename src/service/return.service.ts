@@ -0,0 +1,487 @@
+import { Brackets, EntityManager, FindOperator, In, Not, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { REFUNDS, RETURNS } from '../config/constants';
+import { APIError } from '../utils/ApiError.utils';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { OrderItem } from '../entities/orderItems.entity';
+import { ReturnRequest, ReturnStatus } from '../entities/returnRequest.entity';
+import { ReturnRequestItem } from '../entities/returnRequestItem.entity';
+import { Refund, RefundStatus } from '../entities/refund.entity';
+import { StockMovementReason } from '../entities/stockMovement.entity';
+import { ICreateReturnRequest, IReviewReturnRequest } from '../interface/return.interface';
+import { OrderService } from './order.service';
+import { PromoService } from './promo.service';
+import { HELD_REFUND_STATUSES, PaymentService as RefundPaymentService } from '../services/payment/PaymentService';
+
+/**
+ * Who is acting on a return request.
+ * Vendors are limited to their own requests; admins and staff can act on any.
+ */
+export interface ReturnActor {
+    vendorId?: number;
+    userId?: number;
+}
+
+// Requests in these states no longer hold on to the items they listed
+const RELEASED_STATUSES = [ReturnStatus.REJECTED, ReturnStatus.CANCELLED];
+
+// Requests in these states have had their goods physically returned
+const RECEIVED_STATUSES = [ReturnStatus.RECEIVED, ReturnStatus.REFUNDING, ReturnStatus.REFUNDED];
+
+/**
+ * Service class for the return (RMA) workflow.
+ *
+ * Flow: customer requests -> vendor/admin approves or rejects -> goods received (restocked)
+ * -> admin refunds. Once every item of an order has been received back the order moves to RETURNED.
+ *
+ * Belongs to the Order module.
+ */
+export class ReturnService {
+    private returnRepository: Repository<ReturnRequest>;
+    private orderRepository: Repository<Order>;
+    private refundRepository: Repository<Refund>;
+    private orderService: OrderService;
+    private promoService: PromoService;
+    private refundPaymentService: RefundPaymentService;
+
+    constructor() {
+        this.returnRepository = AppDataSource.getRepository(ReturnRequest);
+        this.orderRepository = AppDataSource.getRepository(Order);
+        this.refundRepository = AppDataSource.getRepository(Refund);
+        this.orderService = new OrderService();
+        this.promoService = new PromoService();
+    }
+
+    /**
+     * Refund orchestration needs gateway configuration, so it is only built on first use
+     */
+    private getRefundPaymentService(): RefundPaymentService {
+        if (!this.refundPaymentService) {
+            this.refundPaymentService = new RefundPaymentService();
+        }
+        return this.refundPaymentService;
+    }
+
+    /**
+     * Create return requests for a delivered order.
+     * Items are grouped by vendor, producing one request per vendor involved.
+     *
+     * @param {number} userId - ID of the customer who placed the order.
+     * @param {ICreateReturnRequest} data - Order ID, reason, optional comments and the items/quantities to return.
+     * @returns {Promise<ReturnRequest[]>} The created requests with their items.
+     * @throws {APIError} 404 if the order is not found, 400 if it is not returnable or quantities are invalid.
+     * @access Customer
+     */
+    async createReturnRequest(userId: number, data: ICreateReturnRequest): Promise<ReturnRequest[]> {
+        const savedIds = await AppDataSource.transaction(async (manager) => {
+            // Lock the order so concurrent requests cannot over-claim the same items
+            const order = await manager.findOne(Order, {
+                where: { id: data.orderId, orderedById: userId },
+                lock: { mode: 'pessimistic_write' },
+            });
+
+            if (!order) {
+                throw new APIError(404, 'Order not found');
+            }
+
+            if (order.status !== OrderStatus.DELIVERED) {
+                throw new APIError(400, 'Only delivered orders can be returned');
+            }
+
+            const deliveredAt = order.deliveredAt ?? order.updatedAt;
+            const windowEnd = new Date(deliveredAt.getTime() + RETURNS.WINDOW_DAYS * 24 * 60 * 60 * 1000);
+            if (new Date() > windowEnd) {
+                throw new APIError(400, `Return window of ${RETURNS.WINDOW_DAYS} days has expired`);
+            }
+
+            const orderItems = await manager.find(OrderItem, { where: { orderId: order.id } });
+            const orderItemMap = new Map(orderItems.map((item) => [item.id, item]));
+
+            const claimed = await this.getClaimedQuantities(order.id, Not(In(RELEASED_STATUSES)), manager);
+
+            // Merge duplicate lines for the same order item before checking quantities
+            const requested = new Map<number, number>();
+            for (const item of data.items) {
+                requested.set(item.orderItemId, (requested.get(item.orderItemId) || 0) + item.quantity);
+            }
+
+            const itemsByVendor = new Map<number, ReturnRequestItem[]>();
+            for (const [orderItemId, quantity] of requested) {
+                const orderItem = orderItemMap.get(orderItemId);
+                if (!orderItem) {
+                    throw new APIError(400, `Order item ${orderItemId} does not belong to this order`);
+                }
+
+                const available = orderItem.quantity - (claimed.get(orderItemId) || 0);
+                if (quantity > available) {
+                    throw new APIError(400, `Only ${available} unit(s) of order item ${orderItemId} can be returned`);
+                }
+
+                const returnItem = manager.create(ReturnRequestItem, {
+                    orderItemId,
+                    quantity,
+                    price: orderItem.price,
+                });
+
+                const vendorItems = itemsByVendor.get(orderItem.vendorId) || [];
+                vendorItems.push(returnItem);
+                itemsByVendor.set(orderItem.vendorId, vendorItems);
+            }
+
+            const ids: number[] = [];
+            for (const [vendorId, items] of itemsByVendor) {
+                const request = manager.create(ReturnRequest, {
+                    orderId: order.id,
+                    requestedById: userId,
+                    vendorId,
+                    reason: data.reason,
+                    comments: data.comments,
+                    status: ReturnStatus.REQUESTED,
+                    items,
+                });
+                const saved = await manager.save(ReturnRequest, request);
+                ids.push(saved.id);
+            }
+
+            return ids;
+        });
+
+        return await this.returnRepository.find({
+            where: { id: In(savedIds) },
+            relations: ['items', 'items.orderItem'],
+        });
+    }
+
+    /**
+     * Get all return requests raised by a customer.
+     *
+     * @param {number} userId - ID of the customer.
+     * @returns {Promise<ReturnRequest[]>} Requests with items, newest first.
+     * @access Customer
+     */
+    async getCustomerReturns(userId: number): Promise<ReturnRequest[]> {
+        return await this.returnRepository.find({
+            where: { requestedById: userId },
+            relations: ['items', 'items.orderItem', 'items.orderItem.product'],
+            order: { createdAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Get a single return request owned by a customer.
+     *
+     * @param {number} userId - ID of the customer.
+     * @param {number} returnId - ID of the return request.
+     * @returns {Promise<ReturnRequest>} The request with items and refund.
+     * @throws {APIError} 404 if not found or not owned by the customer.
+     * @access Customer
+     */
+    async getCustomerReturnById(userId: number, returnId: number): Promise<ReturnRequest> {
+        const request = await this.returnRepository.findOne({
+            where: { id: returnId, requestedById: userId },
+            relations: ['items', 'items.orderItem', 'items.orderItem.product', 'refund'],
+        });
+
+        if (!request) {
+            throw new APIError(404, 'Return request not found');
+        }
+
+        return request;
+    }
+
+    /**
+     * Cancel a return request that has not been reviewed yet.
+     *
+     * @param {number} userId - ID of the customer.
+     * @param {number} returnId - ID of the return request.
+     * @returns {Promise<ReturnRequest>} The cancelled request.
+     * @throws {APIError} 404 if not found, 400 if already reviewed, 409 if reviewed meanwhile.
+     * @access Customer
+     */
+    async cancelReturnRequest(userId: number, returnId: number): Promise<ReturnRequest> {
+        const request = await this.getCustomerReturnById(userId, returnId);
+
+        if (request.status !== ReturnStatus.REQUESTED) {
+            throw new APIError(400, `Cannot cancel a return request that is ${request.status}`);
+        }
+
+        // Conditional update so a review that lands in the meantime is not overwritten
+        const result = await this.returnRepository.update(
+            { id: request.id, status: ReturnStatus.REQUESTED },
+            { status: ReturnStatus.CANCELLED }
+        );
+        if (!result.affected) {
+            throw new APIError(409, 'Return request was updated by another user, please retry');
+        }
+
+        request.status = ReturnStatus.CANCELLED;
+        return request;
+    }
+
+    /**
+     * Get return requests for a vendor, optionally filtered by status.
+     *
+     * @param {number} vendorId - ID of the vendor.
+     * @param {ReturnStatus} [status] - Optional status filter.
+     * @returns {Promise<ReturnRequest[]>} Requests with items, newest first.
+     * @access Vendor
+     */
+    async getVendorReturns(vendorId: number, status?: ReturnStatus): Promise<ReturnRequest[]> {
+        return await this.returnRepository.find({
+            where: { vendorId, ...(status && { status }) },
+            relations: ['items', 'items.orderItem', 'items.orderItem.product', 'requestedBy'],
+            order: { createdAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Get all return requests, optionally filtered by status.
+     *
+     * @param {ReturnStatus} [status] - Optional status filter.
+     * @returns {Promise<ReturnRequest[]>} Requests with items, vendor and customer, newest first.
+     * @access Admin or Staff
+     */
+    async getAllReturns(status?: ReturnStatus): Promise<ReturnRequest[]> {
+        return await this.returnRepository.find({
+            where: status ? { status } : {},
+            relations: ['items', 'items.orderItem', 'items.orderItem.product', 'requestedBy', 'vendor', 'refund'],
+            order: { createdAt: 'DESC' },
+        });
+    }
+
+    /**
+     * Approve or reject a pending return request.
+     *
+     * @param {number} returnId - ID of the return request.
+     * @param {IReviewReturnRequest} data - Decision and optional note for the customer.
+     * @param {ReturnActor} actor - Vendor or admin performing the review.
+     * @returns {Promise<ReturnRequest>} The reviewed request.
+     * @throws {APIError} 404 if not found for this actor, 400 if not awaiting review, 409 if it changed meanwhile.
+     * @access Vendor, Admin or Staff
+     */
+    async reviewReturnRequest(returnId: number, data: IReviewReturnRequest, actor: ReturnActor): Promise<ReturnRequest> {
+        const request = await this.getRequestForActor(returnId, actor);
+
+        if (request.status !== ReturnStatus.REQUESTED) {
+            throw new APIError(400, `Return request is already ${request.status}`);
+        }
+
+        const review = {
+            status: data.status,
+            reviewNote: data.note,
+            reviewedAt: new Date(),
+            reviewedByVendorId: actor.vendorId,
+            reviewedByUserId: actor.userId,
+        };
+
+        // Conditional update so concurrent reviews, or a cancellation, cannot both take effect
+        const result = await this.returnRepository.update({ id: request.id, status: ReturnStatus.REQUESTED }, review);
+        if (!result.affected) {
+            throw new APIError(409, 'Return request was updated by another user, please retry');
+        }
+
+        return Object.assign(request, review);
+    }
+
+    /**
+     * Mark the goods of an approved return as received and put them back into stock.
+     * Moves the order to RETURNED once every item has been received back.
+     *
+     * @param {number} returnId - ID of the return request.
+     * @param {ReturnActor} actor - Vendor or admin receiving the goods.
+     * @returns {Promise<ReturnRequest>} The received request.
+     * @throws {APIError} 404 if not found for this actor, 400 if the request is not approved.
+     * @access Vendor, Admin or Staff
+     */
+    async receiveReturn(returnId: number, actor: ReturnActor): Promise<ReturnRequest> {
+        const request = await this.getRequestForActor(returnId, actor);
+
+        if (request.status !== ReturnStatus.APPROVED) {
+            throw new APIError(400, 'Only approved return requests can be received');
+        }
+
+        // Conditional update so two concurrent calls cannot restock the same goods twice;
+        // the restock shares its transaction, so the request is never received without its stock
+        await AppDataSource.transaction(async (manager) => {
+            const result = await manager.update(
+                ReturnRequest,
+                { id: request.id, status: ReturnStatus.APPROVED },
+                { status: ReturnStatus.RECEIVED, receivedAt: new Date() }
+            );
+            if (!result.affected) {
+                throw new APIError(409, 'Return request was updated by another user, please retry');
+            }
+
+            await this.orderService.restoreStock(request.items.map((item) => ({
+                id: item.orderItem.id,
+                productId: item.orderItem.productId,
+                variantId: item.orderItem.variantId,
+                orderId: request.orderId,
+                quantity: item.quantity,
+            })), { reason: StockMovementReason.RETURN, actor, note: `Return request #${request.id}` }, manager);
+        });
+
+        await this.markOrderReturnedIfComplete(request.orderId);
+
+        return await this.getRequestForActor(returnId, actor);
+    }
+
+    /**
+     * Refund the value of received goods, net of their share of the promo discount, through the order's payment channel.
+     * A refund that already paid out the return is recorded instead of paying out again.
+     *
+     * @param {number} returnId - ID of the return request.
+     * @param {number} processedById - ID of the admin issuing the refund.
+     * @param {string} [reference] - Settlement reference for manual (cash on delivery) refunds.
+     * @returns {Promise<ReturnRequest>} The request with its refund attached.
+     * @throws {APIError} 404 if not found, 400 if goods have not been received, 409 if a refund is in progress or awaits reconciliation, 502 if the gateway fails.
+     * @access Admin
+     */
+    async refundReturn(returnId: number, processedById: number, reference?: string): Promise<ReturnRequest> {
+        const request = await this.getRequestForActor(returnId, {});
+
+        if (request.status !== ReturnStatus.RECEIVED && request.status !== ReturnStatus.REFUNDING) {
+            throw new APIError(400, 'Only received return requests can be refunded');
+        }
+
+        // Claim the request before paying out so concurrent or retried calls cannot refund it twice.
+        // A claim older than the refund timeout belongs to a process that stopped and can be taken over.
+        const claimed = await this.returnRepository
+            .createQueryBuilder()
+            .update(ReturnRequest)
+            .set({ status: ReturnStatus.REFUNDING })
+            .where('id = :id', { id: request.id })
+            .andWhere(new Brackets((qb) => {
+                qb.where('status = :received', { received: ReturnStatus.RECEIVED })
+                    .orWhere('(status = :refunding AND "updatedAt" < :staleBefore)', {
+                        refunding: ReturnStatus.REFUNDING,
+                        staleBefore: new Date(Date.now() - REFUNDS.PENDING_TIMEOUT_MINUTES * 60 * 1000),
+                    });
+            }))
+            .execute();
+        if (!claimed.affected) {
+            throw new APIError(409, 'Return request is already being refunded');
+        }
+
+        // A taken-over claim may already have a refund: never pay out a second one
+        const existing = await this.findHeldRefund(request.id);
+        if (existing?.status === RefundStatus.COMPLETED) {
+            return await this.markRefunded(request, existing);
+        }
+        if (existing) {
+            throw new APIError(409, `Refund #${existing.id} of this return is ${existing.status}; reconcile it with the gateway first`);
+        }
+
+        let refund: Refund;
+        try {
+            refund = await this.getRefundPaymentService().processRefund(
+                request.orderId,
+                await this.getRefundAmount(request),
+                `Return #${request.id}: ${request.reason}`,
+                { processedById, reference, returnRequestId: request.id }
+            );
+        } catch (error) {
+            // Release the claim so the refund can be retried, unless the refund awaits reconciliation
+            if (!await this.findHeldRefund(request.id)) {
+                await this.returnRepository.update(
+                    { id: request.id, status: ReturnStatus.REFUNDING },
+                    { status: ReturnStatus.RECEIVED }
+                );
+            }
+            throw error;
+        }
+
+        return await this.markRefunded(request, refund);
+    }
+
+    /**
+     * Value of the returned items net of their share of the order's promo discount
+     */
+    private async getRefundAmount(request: ReturnRequest): Promise<number> {
+        const discounts = await this.promoService.allocateOrderDiscount(request.orderId);
+
+        const amount = request.items.reduce((sum, item) => {
+            const discount = (discounts.get(item.orderItemId) || 0) * item.quantity / item.orderItem.quantity;
+            return sum + Number(item.price) * item.quantity - discount;
+        }, 0);
+
+        return Math.round(amount * 100) / 100;
+    }
+
+    /**
+     * The refund of a return that is paid out, being paid out or awaiting reconciliation
+     */
+    private async findHeldRefund(returnId: number): Promise<Refund | null> {
+        return await this.refundRepository.findOne({
+            where: { returnRequestId: returnId, status: In([...HELD_REFUND_STATUSES]) },
+        });
+    }
+
+    /**
+     * Record the refund that paid out the return and mark the request refunded
+     */
+    private async markRefunded(request: ReturnRequest, refund: Refund): Promise<ReturnRequest> {
+        await this.returnRepository.update(request.id, { status: ReturnStatus.REFUNDED, refundId: refund.id });
+
+        request.status = ReturnStatus.REFUNDED;
+        request.refundId = refund.id;
+        request.refund = refund;
+        return request;
+    }
+
+    /**
+     * Load a return request, restricting vendors to their own requests
+     */
+    private async getRequestForActor(returnId: number, actor: ReturnActor): Promise<ReturnRequest> {
+        const request = await this.returnRepository.findOne({
+            where: { id: returnId, ...(actor.vendorId && { vendorId: actor.vendorId }) },
+            relations: ['items', 'items.orderItem', 'refund'],
+        });
+
+        if (!request) {
+            throw new APIError(404, 'Return request not found');
+        }
+
+        return request;
+    }
+
+    /**
+     * Sum returned quantities per order item across requests matching the status condition
+     */
+    private async getClaimedQuantities(
+        orderId: number,
+        status: FindOperator<ReturnStatus>,
+        manager: EntityManager = AppDataSource.manager
+    ): Promise<Map<number, number>> {
+        const requests = await manager.find(ReturnRequest, {
+            where: { orderId, status },
+            relations: ['items'],
+        });
+
+        const quantities = new Map<number, number>();
+        for (const request of requests) {
+            for (const item of request.items) {
+                quantities.set(item.orderItemId, (quantities.get(item.orderItemId) || 0) + item.quantity);
+            }
+        }
+        return quantities;
+    }
+
+    private async markOrderReturnedIfComplete(orderId: number): Promise<void> {
+        const order = await this.orderRepository.findOne({
+            where: { id: orderId },
+            relations: ['orderItems'],
+        });
+
+        if (!order || order.status !== OrderStatus.DELIVERED) {
+            return;
+        }
+
+        const received = await this.getClaimedQuantities(orderId, In(RECEIVED_STATUSES));
+        const fullyReturned = order.orderItems.every((item) => (received.get(item.id) || 0) >= item.quantity);
+
+        if (fullyReturned) {
+            await this.orderService.updateOrderStatus(orderId, OrderStatus.RETURNED);
+        }
+    }
+}
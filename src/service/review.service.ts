@@ -2,45 +2,82 @@ import { DataSource, Repository } from 'typeorm';
 import { Product } from '../entities/product.entity';
 import AppDataSource from '../config/db.config';
 import TestDataSource from '../config/db.test.config';
-import { CreateReviewInput, UpdateReviewInput } from '../utils/zod_validations/review.zod';
+import { REVIEW_MODERATION } from '../config/constants';
+import {
+    AdminReviewQueryInput,
+    CreateReviewInput,
+    DisputeQueryInput,
+    ModerateReviewInput,
+    ReportReviewInput,
+    ResolveDisputeInput,
+    ReviewQueryInput,
+    UpdateReviewInput,
+    VendorReplyInput,
+} from '../utils/zod_validations/review.zod';
 import { APIError } from '../utils/ApiError.utils';
-import { Review } from '../entities/reviews.entity';
+import { Review, ReviewStatus } from '../entities/reviews.entity';
+import { ReviewHelpfulVote } from '../entities/reviewHelpfulVote.entity';
+import { ReviewDispute, ReviewDisputeStatus } from '../entities/reviewDispute.entity';
+import { OrderItem } from '../entities/orderItems.entity';
+import { OrderStatus } from '../entities/order.entity';
+import { ImageUploadService } from './image.upload.service';
+import { NotificationService } from './notification.service';
+import { ContentFlag, ContentModerationHelper } from '../utils/helpers/ContentModerationHelper';
 
 
 /**
  * Service class to manage product reviews.
  * Handles creation and retrieval of reviews, ensuring business rules
  * such as one review per user per product, and calculating average ratings.
- * 
+ *
+ * New and edited reviews go through an automated content check: clean reviews are approved
+ * right away, flagged ones wait in the admin moderation queue. Only approved reviews are
+ * shown and counted in ratings.
+ *
+ * The vendor owning the product can publicly reply to a review once (and edit the reply), and
+ * report a review into the admin dispute queue. Vendors are notified of new reviews and of
+ * dispute outcomes.
+ *
  * Belongs to the Review module.
  */
 export class ReviewService {
     private reviewRepository: Repository<Review>;
     private productRepository: Repository<Product>;
+    private orderItemRepository: Repository<OrderItem>;
+    private disputeRepository: Repository<ReviewDispute>;
+    private notificationService: NotificationService;
+    private imageUploadService?: ImageUploadService;
 
     constructor(dataSource?: DataSource) {
         // Use provided DataSource or fall back to appropriate default
         const ds = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
-        
+
         // Initialize repository for Review entity to handle DB operations on reviews
         this.reviewRepository = ds.getRepository(Review);
 
         // Initialize repository for Product entity to validate product existence and fetch product data
         this.productRepository = ds.getRepository(Product);
+
+        // Used to tell verified purchases from delivered orders
+        this.orderItemRepository = ds.getRepository(OrderItem);
+
+        this.disputeRepository = ds.getRepository(ReviewDispute);
+        this.notificationService = new NotificationService();
     }
 
     /**
      * Creates a new review for a product by a user.
-     * 
+     *
      * @param {CreateReviewInput} dto - The review input data including productId, rating, comment, etc.
      * @param {number} userId - The ID of the user submitting the review.
-     * @returns {Promise<Review>} The saved review entity.
-     * @throws {APIError} Throws 404 if product doesn't exist, 400 if user already reviewed the product.
+     * @param {Express.Multer.File[]} photos - Optional photos of the product, up to REVIEW_MODERATION.MAX_PHOTOS.
+     * @returns {Promise<Review>} The saved review entity, approved or pending moderation.
+     * @throws {APIError} Throws 404 if product doesn't exist, 400 if user already reviewed the product,
+     *         the comment contains script content or there are too many photos.
      * @access Public (requires authenticated user)
      */
-    async createReview(dto: CreateReviewInput, userId: number): Promise<Review> {
+    async createReview(dto: CreateReviewInput, userId: number, photos: Express.Multer.File[] = []): Promise<Review> {
 
-        // default value for limit is 5 
         // Check if product exists
         const product = await this.productRepository.findOne({ where: { id: dto.productId } });
         if (!product) {
@@ -55,21 +92,50 @@ export class ReviewService {
             throw new APIError(400, 'You have already reviewed this product');
         }
 
+        if (photos.length > REVIEW_MODERATION.MAX_PHOTOS) {
+            throw new APIError(400, `A review can have at most ${REVIEW_MODERATION.MAX_PHOTOS} photos`);
+        }
+
+        const flags = this.checkComment(dto.comment);
+
         // Create new review entity from DTO and user/product IDs
         const review = this.reviewRepository.create({
-            ...dto,
+            rating: dto.rating,
+            comment: dto.comment,
             userId,
             productId: dto.productId,
+            status: flags.length ? ReviewStatus.PENDING : ReviewStatus.APPROVED,
+            moderationFlags: flags.length ? flags : null,
+            isVerifiedPurchase: await this.hasDeliveredOrder(userId, dto.productId),
         });
 
-        return await this.reviewRepository.save(review);
+        if (photos.length) {
+            const uploads = await this.getImageUploadService().uploadMultipleImages(photos, {
+                folder: 'reviews',
+                publicIdPrefix: 'review',
+            });
+            review.photos = uploads.map((upload) => upload.url);
+            review.photoPublicIds = uploads.map((upload) => upload.publicId);
+        }
+
+        const saved = await this.reviewRepository.save(review);
+
+        // Held reviews are announced to the vendor once an admin approves them
+        if (saved.status === ReviewStatus.APPROVED) {
+            await this.notifyVendorOfReview(saved, product);
+        }
+
+        return saved;
     }
 
     /**
-     * Retrieves all reviews for a given product along with the average rating.
-     * 
+     * Retrieves the approved reviews of a product along with the average rating.
+     *
      * @param {number} productId - The ID of the product whose reviews are requested.
-     * @returns {Promise<{ reviews: Review[]; averageRating: number }>} 
+     * @param {number} page - Page number
+     * @param {number} limit - Reviews per page
+     * @param {ReviewQueryInput['sort']} sort - "newest", "helpful" (most helpful votes), "rating-high" or "rating-low"
+     * @returns {Promise<{ reviews: Review[]; averageRating: number }>}
      *          Object containing array of reviews and the average rating rounded to 1 decimal place.
      * @throws {APIError} Throws 404 if product doesn't exist.
      * @access Public
@@ -77,7 +143,8 @@ export class ReviewService {
     async getReviewsByProductId(
         productId: number,
         page: number = 1,
-        limit: number = 4
+        limit: number = 4,
+        sort: ReviewQueryInput['sort'] = 'newest'
     ): Promise<{ reviews: Review[]; averageRating: number; total: number; totalPages: number }> {
 
         // Check if product exists
@@ -86,39 +153,47 @@ export class ReviewService {
             throw new APIError(404, 'Product not found');
         }
 
+        const order: Record<string, Record<string, 'ASC' | 'DESC'>> = {
+            newest: { createdAt: 'DESC' },
+            helpful: { helpfulCount: 'DESC', createdAt: 'DESC' },
+            'rating-high': { rating: 'DESC', createdAt: 'DESC' },
+            'rating-low': { rating: 'ASC', createdAt: 'DESC' },
+        };
+
         // Fetch paginated reviews with associated user info
         const [reviews, total] = await this.reviewRepository.findAndCount({
-            where: { productId },
+            where: { productId, status: ReviewStatus.APPROVED },
             relations: ['user'],
-            order: { createdAt: 'DESC' },
+            order: order[sort] || order.newest,
             skip: (page - 1) * limit,
             take: limit,
         });
 
-        // Calculate average rating (SQL aggregation is best for performance)
-        const result = await this.reviewRepository
-            .createQueryBuilder('review')
-            .select('AVG(review.rating)', 'average')
-            .where('review.productId = :productId', { productId })
-            .getRawOne();
-
-        const averageRating = result?.average ? Number(parseFloat(result.average).toFixed(1)) : 0;
+        const { avg } = await this.getAverageRating(productId);
 
         return {
             reviews,
-            averageRating,
+            averageRating: avg,
             total,
             totalPages: Math.ceil(total / limit),
         };
     }
 
 
+    /**
+     * Average rating and number of approved reviews of a product.
+     *
+     * @param {number} productId - Product ID
+     * @returns Average rounded to 1 decimal place, and the review count
+     * @access Public
+     */
     async getAverageRating(productId: number): Promise<{ avg: number; count: number }> {
         const result = await this.reviewRepository
             .createQueryBuilder("review")
             .select("AVG(review.rating)", "avg")
             .addSelect("COUNT(review.id)", "count")
             .where("review.productId = :productId", { productId })
+            .andWhere("review.status = :status", { status: ReviewStatus.APPROVED })
             .getRawOne();
 
         const avg = result?.avg ? parseFloat(result.avg) : 0;
@@ -130,16 +205,419 @@ export class ReviewService {
         };
     }
 
-    async updateReview(id: number, data: UpdateReviewInput) {
-        await this.reviewRepository.update(id, data)
+    /**
+     * Updates a review. An edited comment is checked again: flagged comments, and edits of
+     * rejected reviews, go back to the moderation queue.
+     *
+     * @param {number} id - Review ID
+     * @param {UpdateReviewInput} data - Rating and/or comment
+     * @returns {Promise<Review>} The updated review
+     * @throws {APIError} Throws 404 if not found, 400 if the comment contains script content.
+     * @access Review author
+     */
+    async updateReview(id: number, data: UpdateReviewInput): Promise<Review> {
+        const review = await this.reviewRepository.findOneBy({ id });
+        if (!review) {
+            throw new APIError(404, 'Review not found');
+        }
+
+        if (data.rating !== undefined) review.rating = data.rating;
+
+        if (data.comment !== undefined && data.comment !== review.comment) {
+            const flags = this.checkComment(data.comment);
+            review.comment = data.comment;
+            review.moderationFlags = flags.length ? flags : null;
+            review.status = flags.length || review.status === ReviewStatus.REJECTED
+                ? ReviewStatus.PENDING
+                : ReviewStatus.APPROVED;
+        }
+
+        return await this.reviewRepository.save(review);
     }
 
     async findReviewById(id: number): Promise<Review | null> {
         return await this.reviewRepository.findOneBy({ id });
     }
 
+    /**
+     * Deletes a review and its photos.
+     *
+     * @param {number} id - Review ID
+     * @access Review author | Product vendor | Admin
+     */
     async deleteReview(id: number) {
-        return await this.reviewRepository.delete(id)
+        const review = await this.reviewRepository.findOneBy({ id });
+        const result = await this.reviewRepository.delete(id);
+
+        if (review?.photoPublicIds?.length) {
+            await this.getImageUploadService().deleteMultipleImages(review.photoPublicIds);
+        }
+
+        return result;
+    }
+
+    /**
+     * Reviews awaiting moderation (or of another status), oldest first.
+     *
+     * @param {AdminReviewQueryInput} query - Status (default PENDING), product filter and pagination
+     * @returns Paginated reviews with their author and product
+     * @access Admin | Staff
+     */
+    async getModerationQueue(query: Partial<AdminReviewQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const qb = this.reviewRepository.createQueryBuilder('review')
+            .leftJoin('review.user', 'user')
+            .addSelect(['user.id', 'user.fullName', 'user.email'])
+            .leftJoin('review.product', 'product')
+            .addSelect(['product.id', 'product.name', 'product.vendorId'])
+            .where('review.status = :status', { status: query.status || ReviewStatus.PENDING })
+            .orderBy('review.createdAt', 'ASC')
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (query.productId) {
+            qb.andWhere('review.productId = :productId', { productId: query.productId });
+        }
+
+        const [reviews, total] = await qb.getManyAndCount();
+
+        return { reviews, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Approves or rejects a review.
+     *
+     * @param {number} id - Review ID
+     * @param {ModerateReviewInput} data - Decision and optional note
+     * @returns {Promise<Review>} The moderated review
+     * @throws {APIError} Throws 404 if not found.
+     * @access Admin | Staff
+     */
+    async moderateReview(id: number, data: ModerateReviewInput): Promise<Review> {
+        const review = await this.reviewRepository.findOne({ where: { id }, relations: ['product'] });
+        if (!review) {
+            throw new APIError(404, 'Review not found');
+        }
+
+        // A review held on submission has never been announced to the vendor
+        const firstApproval = review.status === ReviewStatus.PENDING
+            && !review.moderatedAt
+            && data.status === ReviewStatus.APPROVED;
+
+        review.status = data.status;
+        review.moderationNote = data.note ?? null;
+        review.moderatedAt = new Date();
+
+        const { product, ...saved } = await this.reviewRepository.save(review);
+
+        if (firstApproval) {
+            await this.notifyVendorOfReview(review, product);
+        }
+
+        return saved as Review;
+    }
+
+    /**
+     * Marks an approved review as helpful.
+     *
+     * @param {number} userId - Voting user
+     * @param {number} reviewId - Review ID
+     * @returns The review's new helpful count
+     * @throws {APIError} Throws 404 if not found, 400 for the user's own review, 409 if already voted.
+     * @access Authenticated user
+     */
+    async markHelpful(userId: number, reviewId: number): Promise<{ helpfulCount: number }> {
+        const review = await this.reviewRepository.findOneBy({ id: reviewId, status: ReviewStatus.APPROVED });
+        if (!review) {
+            throw new APIError(404, 'Review not found');
+        }
+        if (review.userId === userId) {
+            throw new APIError(400, 'You cannot vote on your own review');
+        }
+
+        return this.reviewRepository.manager.transaction(async (manager) => {
+            const existing = await manager.findOne(ReviewHelpfulVote, { where: { reviewId, userId } });
+            if (existing) {
+                throw new APIError(409, 'You have already marked this review as helpful');
+            }
+
+            await manager.save(ReviewHelpfulVote, manager.create(ReviewHelpfulVote, { reviewId, userId }));
+            await manager.increment(Review, { id: reviewId }, 'helpfulCount', 1);
+            const { helpfulCount } = await manager.findOneByOrFail(Review, { id: reviewId });
+            return { helpfulCount };
+        });
+    }
+
+    /**
+     * Removes the user's helpful vote from a review.
+     *
+     * @param {number} userId - Voting user
+     * @param {number} reviewId - Review ID
+     * @returns The review's new helpful count
+     * @throws {APIError} Throws 404 if the user has not voted on the review.
+     * @access Authenticated user
+     */
+    async unmarkHelpful(userId: number, reviewId: number): Promise<{ helpfulCount: number }> {
+        return this.reviewRepository.manager.transaction(async (manager) => {
+            const result = await manager.delete(ReviewHelpfulVote, { reviewId, userId });
+            if (!result.affected) {
+                throw new APIError(404, 'You have not marked this review as helpful');
+            }
+
+            await manager.decrement(Review, { id: reviewId }, 'helpfulCount', 1);
+            const { helpfulCount } = await manager.findOneByOrFail(Review, { id: reviewId });
+            return { helpfulCount };
+        });
+    }
+
+    /**
+     * Adds or edits the vendor's public reply to an approved review of their product.
+     *
+     * @param {number} vendorId - Vendor owning the product
+     * @param {number} reviewId - Review ID
+     * @param {VendorReplyInput} data - Reply text
+     * @returns {Promise<Review>} The review with its reply
+     * @throws {APIError} Throws 404 if not found, 403 if the product is not the vendor's,
+     *         400 if the reply contains script content or profanity.
+     * @access Vendor
+     */
+    async replyToReview(vendorId: number, reviewId: number, data: VendorReplyInput): Promise<Review> {
+        const review = await this.getVendorReviewOrFail(vendorId, reviewId);
+        if (review.status !== ReviewStatus.APPROVED) {
+            throw new APIError(404, 'Review not found');
+        }
+
+        // Replies are published right away, so anything the content check flags beyond spam is refused
+        const flags = ContentModerationHelper.check(data.reply);
+        if (flags.includes(ContentFlag.MALICIOUS) || flags.includes(ContentFlag.PROFANITY)) {
+            throw new APIError(400, 'Reply contains disallowed content');
+        }
+
+        const isNewReply = !review.vendorReply;
+        review.vendorReply = data.reply;
+        review.vendorRepliedAt = new Date();
+
+        const { product, ...saved } = await this.reviewRepository.save(review);
+
+        // Edits are not notified again
+        if (isNewReply) {
+            await this.notifyCustomerOfReply(review, product);
+        }
+        return saved as Review;
+    }
+
+    /**
+     * Removes the vendor's reply from a review.
+     *
+     * @param {number} vendorId - Vendor owning the product
+     * @param {number} reviewId - Review ID
+     * @throws {APIError} Throws 404 if the review or reply does not exist, 403 if the product is not the vendor's.
+     * @access Vendor
+     */
+    async deleteReply(vendorId: number, reviewId: number): Promise<void> {
+        const review = await this.getVendorReviewOrFail(vendorId, reviewId);
+        if (!review.vendorReply) {
+            throw new APIError(404, 'This review has no reply');
+        }
+
+        await this.reviewRepository.update(review.id, { vendorReply: null, vendorRepliedAt: null });
+    }
+
+    /**
+     * Reports a review of the vendor's product to the admin dispute queue.
+     *
+     * @param {number} vendorId - Vendor owning the product
+     * @param {number} reviewId - Review ID
+     * @param {ReportReviewInput} data - Reason and optional details
+     * @returns {Promise<ReviewDispute>} The open dispute
+     * @throws {APIError} Throws 404 if not found, 403 if the product is not the vendor's,
+     *         400 if the review is already rejected, 409 if the review already has an open dispute.
+     * @access Vendor
+     */
+    async reportReview(vendorId: number, reviewId: number, data: ReportReviewInput): Promise<ReviewDispute> {
+        const review = await this.getVendorReviewOrFail(vendorId, reviewId);
+        if (review.status === ReviewStatus.REJECTED) {
+            throw new APIError(400, 'This review has already been removed');
+        }
+
+        const open = await this.disputeRepository.exists({
+            where: { reviewId, status: ReviewDisputeStatus.OPEN },
+        });
+        if (open) {
+            throw new APIError(409, 'This review is already awaiting a dispute decision');
+        }
+
+        return await this.disputeRepository.save(this.disputeRepository.create({
+            reviewId,
+            vendorId,
+            reason: data.reason,
+            details: data.details ?? null,
+        }));
+    }
+
+    /**
+     * Disputes raised by a vendor, newest first, with their outcome.
+     *
+     * @param {number} vendorId - Vendor ID
+     * @param {DisputeQueryInput} query - Optional status filter and pagination
+     * @returns Paginated disputes with the disputed review
+     * @access Vendor
+     */
+    async getVendorDisputes(vendorId: number, query: Partial<DisputeQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const [disputes, total] = await this.disputeRepository.findAndCount({
+            where: { vendorId, ...(query.status && { status: query.status }) },
+            relations: ['review'],
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+        });
+
+        return { disputes, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * The admin dispute queue: open disputes unless another status is given, oldest first.
+     *
+     * @param {DisputeQueryInput} query - Status (default OPEN) and pagination
+     * @returns Paginated disputes with the review, its author and product, and the reporting vendor
+     * @access Admin | Staff
+     */
+    async getDisputeQueue(query: Partial<DisputeQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const [disputes, total] = await this.disputeRepository.createQueryBuilder('dispute')
+            .innerJoinAndSelect('dispute.review', 'review')
+            .leftJoin('review.user', 'user')
+            .addSelect(['user.id', 'user.fullName', 'user.email'])
+            .leftJoin('review.product', 'product')
+            .addSelect(['product.id', 'product.name'])
+            .leftJoin('dispute.vendor', 'vendor')
+            .addSelect(['vendor.id', 'vendor.businessName', 'vendor.email'])
+            .where('dispute.status = :status', { status: query.status || ReviewDisputeStatus.OPEN })
+            .orderBy('dispute.createdAt', 'ASC')
+            .skip((page - 1) * limit)
+            .take(limit)
+            .getManyAndCount();
+
+        return { disputes, total, page, limit, totalPages: Math.ceil(total / limit) };
     }
 
+    /**
+     * Resolves an open dispute. Upholding it rejects the review, which hides it and drops it from ratings.
+     *
+     * @param {number} disputeId - Dispute ID
+     * @param {number} adminId - Admin or staff user resolving the dispute
+     * @param {ResolveDisputeInput} data - Outcome and optional note for the vendor
+     * @returns {Promise<ReviewDispute>} The resolved dispute
+     * @throws {APIError} Throws 404 if not found, 400 if the dispute is already resolved.
+     * @access Admin | Staff
+     */
+    async resolveDispute(disputeId: number, adminId: number, data: ResolveDisputeInput): Promise<ReviewDispute> {
+        const dispute = await this.disputeRepository.findOne({
+            where: { id: disputeId },
+            relations: ['review', 'review.product'],
+        });
+        if (!dispute) {
+            throw new APIError(404, 'Dispute not found');
+        }
+        if (dispute.status !== ReviewDisputeStatus.OPEN) {
+            throw new APIError(400, 'This dispute has already been resolved');
+        }
+
+        const { review, ...resolved } = await this.disputeRepository.manager.transaction(async (manager) => {
+            dispute.status = data.status;
+            dispute.resolutionNote = data.note ?? null;
+            dispute.resolvedById = adminId;
+            dispute.resolvedAt = new Date();
+
+            if (data.status === ReviewDisputeStatus.UPHELD) {
+                await manager.update(Review, dispute.reviewId, {
+                    status: ReviewStatus.REJECTED,
+                    moderationNote: data.note ?? `Removed after vendor dispute (${dispute.reason})`,
+                    moderatedAt: new Date(),
+                });
+            }
+
+            return await manager.save(dispute);
+        });
+
+        try {
+            await this.notificationService.notifyReviewDisputeResolved(dispute, review.product);
+        } catch (error) {
+            // The outcome is saved either way; the vendor still sees it in their disputes
+            console.error('Failed to notify vendor of dispute outcome:', error);
+        }
+
+        return resolved as ReviewDispute;
+    }
+
+    /**
+     * Runs the automated content check on a comment.
+     * Script content is refused outright; profanity and spam only hold the review for moderation.
+     */
+    private checkComment(comment: string): ContentFlag[] {
+        const flags = ContentModerationHelper.check(comment);
+        if (flags.includes(ContentFlag.MALICIOUS)) {
+            throw new APIError(400, 'Review contains disallowed content');
+        }
+        return flags;
+    }
+
+    /**
+     * A review of one of the vendor's products, with the product loaded
+     */
+    private async getVendorReviewOrFail(vendorId: number, reviewId: number): Promise<Review> {
+        const review = await this.reviewRepository.findOne({ where: { id: reviewId }, relations: ['product'] });
+        if (!review) {
+            throw new APIError(404, 'Review not found');
+        }
+        if (review.product.vendorId !== vendorId) {
+            throw new APIError(403, 'You can only manage reviews of your own products');
+        }
+        return review;
+    }
+
+    private async notifyVendorOfReview(review: Review, product: Product): Promise<void> {
+        try {
+            await this.notificationService.notifyProductReview(review, product);
+        } catch (error) {
+            // The review is saved either way; the vendor still sees it on the product
+            console.error('Failed to notify vendor of product review:', error);
+        }
+    }
+
+    private async notifyCustomerOfReply(review: Review, product: Product): Promise<void> {
+        try {
+            await this.notificationService.notifyReviewReply(review, product);
+        } catch (error) {
+            // The reply is published either way; the customer still sees it on the product
+            console.error('Failed to notify customer of review reply:', error);
+        }
+    }
+
+    /**
+     * Whether the user has a delivered order containing the product
+     */
+    private async hasDeliveredOrder(userId: number, productId: number): Promise<boolean> {
+        return await this.orderItemRepository.createQueryBuilder('orderItem')
+            .innerJoin('orderItem.order', 'order')
+            .where('order.orderedById = :userId', { userId })
+            .andWhere('order.status = :status', { status: OrderStatus.DELIVERED })
+            .andWhere('orderItem.productId = :productId', { productId })
+            .getExists();
+    }
+
+    // Created on first use so reading reviews does not require Cloudinary configuration
+    private getImageUploadService(): ImageUploadService {
+        if (!this.imageUploadService) {
+            this.imageUploadService = new ImageUploadService();
+        }
+        return this.imageUploadService;
+    }
 }
@@ -0,0 +1,207 @@
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { SEARCH_SUGGESTIONS } from '../config/constants';
+import { Product } from '../entities/product.entity';
+import { ProductStats } from '../entities/productStats.entity';
+import { Category } from '../entities/category.entity';
+import { Subcategory } from '../entities/subcategory.entity';
+import { Brand, BrandStatus } from '../entities/brand.entity';
+import { Vendor } from '../entities/vendor.entity';
+import { CacheService } from '../services/cache/CacheService';
+import { ProductFilterHelper } from '../utils/helpers/ProductFilterHelper';
+import {
+    IBrandSuggestion,
+    ICategorySuggestion,
+    IProductSuggestion,
+    ISearchSuggestionQuery,
+    ISearchSuggestions,
+    ISubcategorySuggestion,
+    IVendorSuggestion,
+} from '../interface/search.interface';
+
+/**
+ * Service for search autocomplete.
+ *
+ * For a partial query, suggests product names, categories, subcategories, brands and vendors.
+ * Each section is ranked by name match (prefix matches first, then trigram word similarity, which
+ * also tolerates typos) plus a popularity bonus from recent units sold, read from product_stats.
+ * Results are cached per query.
+ *
+ * Module: Search
+ */
+export class SearchService {
+    private productRepository: Repository<Product>;
+    private categoryRepository: Repository<Category>;
+    private subcategoryRepository: Repository<Subcategory>;
+    private brandRepository: Repository<Brand>;
+    private vendorRepository: Repository<Vendor>;
+    private cacheService: CacheService;
+
+    constructor() {
+        this.productRepository = AppDataSource.getRepository(Product);
+        this.categoryRepository = AppDataSource.getRepository(Category);
+        this.subcategoryRepository = AppDataSource.getRepository(Subcategory);
+        this.brandRepository = AppDataSource.getRepository(Brand);
+        this.vendorRepository = AppDataSource.getRepository(Vendor);
+        this.cacheService = new CacheService();
+    }
+
+    /**
+     * Autocomplete suggestions for a partial query, grouped by section.
+     *
+     * @param query {ISearchSuggestionQuery} - Partial query and suggestions per section
+     * @returns {Promise<ISearchSuggestions>} - Suggestions, best match first in each section
+     * @access Public
+     */
+    async getSuggestions(query: ISearchSuggestionQuery): Promise<ISearchSuggestions> {
+        const q = query.q.trim().replace(/\s+/g, ' ');
+        const limit = query.limit || SEARCH_SUGGESTIONS.DEFAULT_LIMIT;
+
+        const cacheKey = `search:suggestions:${limit}:${q.toLowerCase()}`;
+        const cached = await this.cacheService.get<ISearchSuggestions>(cacheKey);
+        if (cached) {
+            return cached;
+        }
+
+        const [products, categories, subcategories, brands, vendors] = await Promise.all([
+            this.suggestProducts(q, limit),
+            this.suggestCategories(q, limit),
+            this.suggestSubcategories(q, limit),
+            this.suggestBrands(q, limit),
+            this.suggestVendors(q, limit),
+        ]);
+
+        const suggestions: ISearchSuggestions = { query: q, products, categories, subcategories, brands, vendors };
+        await this.cacheService.set(cacheKey, suggestions, SEARCH_SUGGESTIONS.CACHE_TTL);
+
+        return suggestions;
+    }
+
+    private async suggestProducts(q: string, limit: number): Promise<IProductSuggestion[]> {
+        const sold = 'COALESCE("stats"."unitsSold", 0)';
+        const qb = this.productRepository.createQueryBuilder('product')
+            .leftJoin(ProductStats, 'stats', 'stats.productId = product.id')
+            .select('product.id', 'id')
+            .addSelect('product.name', 'name')
+            .addSelect(`COALESCE("product"."productImages"[1], (
+                SELECT v."variantImages"[1] FROM "variants" v WHERE v."product_id" = "product"."id" ORDER BY v."id" LIMIT 1
+            ))`, 'image')
+            .addSelect(sold, 'sold')
+            .where(`("product"."stock" > 0 OR EXISTS (
+                SELECT 1 FROM "variants" v WHERE v."product_id" = "product"."id" AND v."stock" > 0
+            ))`)
+            .andWhere(ProductFilterHelper.activeVendorSql);
+
+        const rows = await this.matchAndRank(qb, '"product"."name"', q, limit, sold).getRawMany();
+        return rows.map((row) => ({
+            id: Number(row.id),
+            name: row.name,
+            image: row.image ?? null,
+            sold: Number(row.sold),
+        }));
+    }
+
+    private async suggestCategories(q: string, limit: number): Promise<ICategorySuggestion[]> {
+        const sold = this.soldExpression(
+            's."categoryId" = "category"."id"',
+            'INNER JOIN "subcategory" s ON s."id" = p."subcategoryId"',
+        );
+        const qb = this.categoryRepository.createQueryBuilder('category')
+            .select('category.id', 'id')
+            .addSelect('category.name', 'name')
+            .addSelect('category.image', 'image');
+
+        const rows = await this.matchAndRank(qb, '"category"."name"', q, limit, sold).getRawMany();
+        return rows.map((row) => ({ id: Number(row.id), name: row.name, image: row.image ?? null }));
+    }
+
+    private async suggestSubcategories(q: string, limit: number): Promise<ISubcategorySuggestion[]> {
+        const sold = this.soldExpression('p."subcategoryId" = "subcategory"."id"');
+        const qb = this.subcategoryRepository.createQueryBuilder('subcategory')
+            .leftJoin('subcategory.category', 'category')
+            .select('subcategory.id', 'id')
+            .addSelect('subcategory.name', 'name')
+            .addSelect('subcategory.image', 'image')
+            .addSelect('category.id', 'categoryId')
+            .addSelect('category.name', 'categoryName');
+
+        const rows = await this.matchAndRank(qb, '"subcategory"."name"', q, limit, sold).getRawMany();
+        return rows.map((row) => ({
+            id: Number(row.id),
+            name: row.name,
+            image: row.image ?? null,
+            categoryId: row.categoryId != null ? Number(row.categoryId) : null,
+            categoryName: row.categoryName ?? null,
+        }));
+    }
+
+    private async suggestBrands(q: string, limit: number): Promise<IBrandSuggestion[]> {
+        const sold = this.soldExpression('p."brandId" = "brand"."id"');
+        const qb = this.brandRepository.createQueryBuilder('brand')
+            .select('brand.id', 'id')
+            .addSelect('brand.name', 'name')
+            .addSelect('brand.slug', 'slug')
+            .addSelect('brand.logo', 'logo')
+            .where('brand.status = :brandStatus', { brandStatus: BrandStatus.APPROVED });
+
+        const rows = await this.matchAndRank(qb, '"brand"."name"', q, limit, sold).getRawMany();
+        return rows.map((row) => ({ id: Number(row.id), name: row.name, slug: row.slug, logo: row.logo ?? null }));
+    }
+
+    private async suggestVendors(q: string, limit: number): Promise<IVendorSuggestion[]> {
+        const sold = this.soldExpression('p."vendorId" = "vendor"."id"');
+        const qb = this.vendorRepository.createQueryBuilder('vendor')
+            .select('vendor.id', 'id')
+            .addSelect('vendor.businessName', 'businessName')
+            .where('vendor.isApproved = true');
+
+        const rows = await this.matchAndRank(qb, '"vendor"."businessName"', q, limit, sold).getRawMany();
+        return rows.map((row) => ({ id: Number(row.id), businessName: row.businessName }));
+    }
+
+    /**
+     * Keeps rows whose name contains the query or is similar to it, ranked by
+     * prefix match, then similarity plus popularity. Both filters can use the name's
+     * trigram index; `<%` uses the connection's pg_trgm.word_similarity_threshold.
+     */
+    private matchAndRank<T extends ObjectLiteral>(
+        qb: SelectQueryBuilder<T>,
+        nameColumn: string,
+        q: string,
+        limit: number,
+        soldExpression: string,
+    ): SelectQueryBuilder<T> {
+        const escaped = q.replace(/[\\%_]/g, '\\$&');
+
+        return qb
+            .andWhere(`(${nameColumn} ILIKE :contains OR :q <% ${nameColumn})`)
+            .addSelect(
+                `CASE WHEN ${nameColumn} ILIKE :prefix THEN 1 ELSE 0 END
+                + word_similarity(:q, ${nameColumn})
+                + LN(1 + ${soldExpression}) * :popularityWeight`,
+                'score'
+            )
+            .setParameters({
+                q,
+                contains: `%${escaped}%`,
+                prefix: `${escaped}%`,
+                popularityWeight: SEARCH_SUGGESTIONS.POPULARITY_WEIGHT,
+            })
+            .orderBy('score', 'DESC')
+            .addOrderBy(nameColumn, 'ASC')
+            .limit(limit);
+    }
+
+    /**
+     * Recent units sold by the products matching `condition` (which can use `p`), from product_stats
+     */
+    private soldExpression(condition: string, join = ''): string {
+        return `(
+            SELECT COALESCE(SUM(stats."unitsSold"), 0)
+            FROM "product_stats" stats
+            INNER JOIN "products" p ON p."id" = stats."productId"
+            ${join}
+            WHERE ${condition}
+        )`;
+    }
+}
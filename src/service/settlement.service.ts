@@ -0,0 +1,736 @@
+import { Brackets, DataSource, EntityManager, In, IsNull, LessThanOrEqual, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import TestDataSource from '../config/db.test.config';
+import { RETURNS, SETTLEMENT } from '../config/constants';
+import { APIError } from '../utils/ApiError.utils';
+import { CommissionRate } from '../entities/commissionRate.entity';
+import { VendorLedgerEntry } from '../entities/vendorLedgerEntry.entity';
+import { Payout } from '../entities/payout.entity';
+import { PayoutBatch } from '../entities/payoutBatch.entity';
+import { LedgerEntryType, PayoutStatus } from '../entities/settlement.enum';
+import { Vendor } from '../entities/vendor.entity';
+import { Category } from '../entities/category.entity';
+import { OrderItem } from '../entities/orderItems.entity';
+import { Order, OrderStatus } from '../entities/order.entity';
+import { Refund, RefundStatus } from '../entities/refund.entity';
+import { VendorOrderStatus } from '../entities/vendorOrder.entity';
+import { ReturnRequest, ReturnStatus } from '../entities/returnRequest.entity';
+import {
+    CreateCommissionRateInput,
+    MarkPayoutPaidInput,
+    PayoutBatchQueryInput,
+    StatementQueryInput,
+    UpdateCommissionRateInput,
+    VendorPayoutQueryInput,
+} from '../utils/zod_validations/settlement.zod';
+
+/**
+ * A delivered order item not yet credited to its vendor
+ */
+interface DeliveredItemRow {
+    id: number;
+    vendorId: number;
+    orderId: number;
+    price: string;
+    quantity: number;
+    categoryId: number | null;
+    deliveredAt: Date;
+}
+
+/**
+ * A credited order item of an order refunded outside the returns flow, not yet debited to its vendor
+ */
+interface RefundedItemRow {
+    refundId: number;
+    orderId: number;
+    refundAmount: string;
+    orderTotal: string;
+    vendorId: number;
+    saleAmount: string;
+    commissionRate: string | null;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rows inserted per statement when crediting delivered items
+const LEDGER_INSERT_CHUNK = 500;
+
+/**
+ * Service for vendor commission, the settlement ledger and payouts.
+ *
+ * - Delivered order items are credited to their vendor (SALE) less the marketplace commission
+ *   (COMMISSION); refunded returns and refunds made outside a return are debited (REFUND) and
+ *   their commission given back. Sales are held until the return window closes so refunds can
+ *   still be deducted.
+ * - Each payout cycle settles every vendor's available balance into a payout batch.
+ *   An admin approves the batch, then marks each payout as paid with the bank transfer reference.
+ *
+ * The ledger is filled by syncLedger (run on a schedule and before each payout cycle), so order
+ * and return flows do not need to know about settlement.
+ *
+ * Module: Settlement
+ */
+export class SettlementService {
+    private commissionRateRepository: Repository<CommissionRate>;
+    private ledgerRepository: Repository<VendorLedgerEntry>;
+    private payoutRepository: Repository<Payout>;
+    private batchRepository: Repository<PayoutBatch>;
+    private vendorRepository: Repository<Vendor>;
+    private categoryRepository: Repository<Category>;
+    private orderItemRepository: Repository<OrderItem>;
+    private returnRepository: Repository<ReturnRequest>;
+    private dataSource: DataSource;
+
+    constructor(dataSource?: DataSource) {
+        // Use provided DataSource or fallback to appropriate default
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.commissionRateRepository = this.dataSource.getRepository(CommissionRate);
+        this.ledgerRepository = this.dataSource.getRepository(VendorLedgerEntry);
+        this.payoutRepository = this.dataSource.getRepository(Payout);
+        this.batchRepository = this.dataSource.getRepository(PayoutBatch);
+        this.vendorRepository = this.dataSource.getRepository(Vendor);
+        this.categoryRepository = this.dataSource.getRepository(Category);
+        this.orderItemRepository = this.dataSource.getRepository(OrderItem);
+        this.returnRepository = this.dataSource.getRepository(ReturnRequest);
+    }
+
+    /**
+     * All commission rates with their vendor and category.
+     *
+     * @returns {Promise<CommissionRate[]>} - Rates, vendor-specific first
+     * @access Admin | Staff
+     */
+    async getCommissionRates(): Promise<CommissionRate[]> {
+        return this.commissionRateRepository.createQueryBuilder('rate')
+            .leftJoin('rate.vendor', 'vendor')
+            .addSelect(['vendor.id', 'vendor.businessName'])
+            .leftJoin('rate.category', 'category')
+            .addSelect(['category.id', 'category.name'])
+            .orderBy('rate.vendorId', 'ASC', 'NULLS LAST')
+            .addOrderBy('rate.categoryId', 'ASC', 'NULLS FIRST')
+            .getMany();
+    }
+
+    /**
+     * Creates a commission rate for a vendor, a category, or a vendor within a category.
+     * Rates apply to sales credited after the change; existing ledger entries keep their rate.
+     *
+     * @param data {CreateCommissionRateInput} - Vendor and/or category, and the percentage
+     * @returns {Promise<CommissionRate>} - Created rate
+     * @throws {APIError} - 404 if the vendor or category does not exist, 409 if a rate already exists for them
+     * @access Admin
+     */
+    async createCommissionRate(data: CreateCommissionRateInput): Promise<CommissionRate> {
+        const vendorId = data.vendorId ?? null;
+        const categoryId = data.categoryId ?? null;
+
+        if (vendorId && !(await this.vendorRepository.exists({ where: { id: vendorId } }))) {
+            throw new APIError(404, 'Vendor not found');
+        }
+        if (categoryId && !(await this.categoryRepository.exists({ where: { id: categoryId } }))) {
+            throw new APIError(404, 'Category not found');
+        }
+
+        // Null columns never collide in the unique index, so duplicates are checked here
+        const existing = await this.commissionRateRepository.exists({
+            where: { vendorId: vendorId ?? IsNull(), categoryId: categoryId ?? IsNull() },
+        });
+        if (existing) {
+            throw new APIError(409, 'A commission rate already exists for this vendor and category');
+        }
+
+        return await this.commissionRateRepository.save(
+            this.commissionRateRepository.create({ vendorId, categoryId, rate: data.rate })
+        );
+    }
+
+    /**
+     * Changes the percentage of a commission rate.
+     *
+     * @param id {number} - Commission rate ID
+     * @param data {UpdateCommissionRateInput} - New percentage
+     * @returns {Promise<CommissionRate>} - Updated rate
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async updateCommissionRate(id: number, data: UpdateCommissionRateInput): Promise<CommissionRate> {
+        const rate = await this.commissionRateRepository.findOneBy({ id });
+        if (!rate) {
+            throw new APIError(404, 'Commission rate not found');
+        }
+
+        rate.rate = data.rate;
+        return await this.commissionRateRepository.save(rate);
+    }
+
+    /**
+     * Deletes a commission rate; matching sales fall back to the next applicable rate.
+     *
+     * @param id {number} - Commission rate ID
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async deleteCommissionRate(id: number): Promise<void> {
+        const result = await this.commissionRateRepository.delete(id);
+        if (!result.affected) {
+            throw new APIError(404, 'Commission rate not found');
+        }
+    }
+
+    /**
+     * Brings the ledger up to date: credits newly delivered items and debits newly refunded returns
+     * and other completed refunds. Safe to run repeatedly; each item, return and refund is recorded once.
+     *
+     * @returns Number of order items credited, and of returns and refunds debited
+     * @access System
+     */
+    async syncLedger(): Promise<{ sales: number; refunds: number }> {
+        const sales = await this.recordDeliveredSales();
+        const refunds = await this.recordRefunds() + await this.recordDirectRefunds();
+        return { sales, refunds };
+    }
+
+    /**
+     * Runs the scheduled payout cycle, unless a batch was already generated within the cycle
+     * (SETTLEMENT.PAYOUT_CYCLE, weekly or biweekly).
+     *
+     * @returns {Promise<PayoutBatch | null>} - Generated batch, or null when skipped or nothing is due
+     * @access System
+     */
+    async runScheduledPayouts(): Promise<PayoutBatch | null> {
+        const [lastBatch] = await this.batchRepository.find({ order: { createdAt: 'DESC' }, take: 1 });
+        const cycleDays = SETTLEMENT.PAYOUT_CYCLE === 'biweekly' ? 14 : 7;
+
+        // A day of slack so a run that starts slightly earlier than the last one is not skipped
+        if (lastBatch && Date.now() - lastBatch.createdAt.getTime() < (cycleDays - 1) * DAY_MS) {
+            return null;
+        }
+
+        return this.generatePayoutBatch();
+    }
+
+    /**
+     * Settles every vendor's available balance into a new payout batch.
+     * Vendors below SETTLEMENT.MIN_PAYOUT_AMOUNT or without bank details carry their balance over.
+     *
+     * @param periodEnd {Date} - Ledger entries available up to this time are settled
+     * @returns {Promise<PayoutBatch | null>} - Generated batch, or null when no vendor balance is due
+     * @access Admin
+     */
+    async generatePayoutBatch(periodEnd: Date = new Date()): Promise<PayoutBatch | null> {
+        await this.syncLedger();
+
+        const due = await this.ledgerRepository.createQueryBuilder('entry')
+            .select('entry.vendorId', 'vendorId')
+            .where('entry.payoutId IS NULL')
+            .andWhere('entry.availableAt <= :periodEnd', { periodEnd })
+            .groupBy('entry.vendorId')
+            .having('SUM(entry.amount) >= :minAmount', { minAmount: SETTLEMENT.MIN_PAYOUT_AMOUNT })
+            .getRawMany<{ vendorId: number }>();
+
+        if (!due.length) {
+            return null;
+        }
+
+        const vendors = (await this.vendorRepository.find({ where: { id: In(due.map((row) => row.vendorId)) } }))
+            .filter((vendor) => vendor.accountName && vendor.bankName && vendor.accountNumber);
+
+        if (!vendors.length) {
+            return null;
+        }
+
+        return this.dataSource.transaction(async (manager) => {
+            const batch = await manager.save(manager.create(PayoutBatch, { periodEnd }));
+
+            let totalAmount = 0;
+            let payoutCount = 0;
+
+            for (const vendor of vendors) {
+                const payout = await manager.save(manager.create(Payout, {
+                    batchId: batch.id,
+                    vendorId: vendor.id,
+                    amount: 0,
+                    accountName: vendor.accountName,
+                    bankName: vendor.bankName,
+                    accountNumber: vendor.accountNumber,
+                    bankBranch: vendor.bankBranch ?? null,
+                    bankCode: vendor.bankCode ?? null,
+                }));
+
+                // The amount is summed from the entries actually claimed, so entries added meanwhile are not lost
+                await manager.update(
+                    VendorLedgerEntry,
+                    { vendorId: vendor.id, payoutId: IsNull(), availableAt: LessThanOrEqual(periodEnd) },
+                    { payoutId: payout.id }
+                );
+                payout.amount = await this.sumPayoutEntries(manager, payout.id);
+
+                // Another cycle claimed the entries first
+                if (payout.amount <= 0) {
+                    await manager.update(VendorLedgerEntry, { payoutId: payout.id }, { payoutId: null });
+                    await manager.delete(Payout, payout.id);
+                    continue;
+                }
+
+                await manager.save(payout);
+                totalAmount += payout.amount;
+                payoutCount++;
+            }
+
+            batch.totalAmount = roundAmount(totalAmount);
+            batch.payoutCount = payoutCount;
+            return await manager.save(batch);
+        });
+    }
+
+    /**
+     * Payout batches, newest first.
+     *
+     * @param query {PayoutBatchQueryInput} - Optional status filter and pagination
+     * @returns Paginated batches
+     * @access Admin | Staff
+     */
+    async getPayoutBatches(query: Partial<PayoutBatchQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const [batches, total] = await this.batchRepository.findAndCount({
+            where: query.status ? { status: query.status } : {},
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+        });
+
+        return { batches, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * A payout batch with its payouts and their vendors.
+     *
+     * @param id {number} - Batch ID
+     * @returns {Promise<PayoutBatch>} - Batch with payouts
+     * @throws {APIError} - 404 if not found
+     * @access Admin | Staff
+     */
+    async getPayoutBatchById(id: number): Promise<PayoutBatch> {
+        const batch = await this.batchRepository.createQueryBuilder('batch')
+            .leftJoinAndSelect('batch.payouts', 'payout')
+            .leftJoin('payout.vendor', 'vendor')
+            .addSelect(['vendor.id', 'vendor.businessName', 'vendor.email'])
+            .where('batch.id = :id', { id })
+            .orderBy('payout.amount', 'DESC')
+            .getOne();
+
+        if (!batch) {
+            throw new APIError(404, 'Payout batch not found');
+        }
+        return batch;
+    }
+
+    /**
+     * Approves a pending payout batch and all of its payouts for transfer.
+     *
+     * @param id {number} - Batch ID
+     * @param adminId {number} - Approving admin
+     * @returns {Promise<PayoutBatch>} - Approved batch
+     * @throws {APIError} - 404 if not found, 400 if the batch is not pending
+     * @access Admin
+     */
+    async approvePayoutBatch(id: number, adminId: number): Promise<PayoutBatch> {
+        const batch = await this.batchRepository.findOneBy({ id });
+        if (!batch) {
+            throw new APIError(404, 'Payout batch not found');
+        }
+        if (batch.status !== PayoutStatus.PENDING) {
+            throw new APIError(400, 'Only pending payout batches can be approved');
+        }
+
+        return this.dataSource.transaction(async (manager) => {
+            await manager.update(Payout, { batchId: id, status: PayoutStatus.PENDING }, { status: PayoutStatus.APPROVED });
+
+            batch.status = PayoutStatus.APPROVED;
+            batch.approvedById = adminId;
+            batch.approvedAt = new Date();
+            return await manager.save(batch);
+        });
+    }
+
+    /**
+     * Marks an approved payout as paid with its bank transfer reference.
+     * The batch is marked as paid once all of its payouts are.
+     *
+     * @param id {number} - Payout ID
+     * @param adminId {number} - Admin recording the transfer
+     * @param data {MarkPayoutPaidInput} - Transfer reference and optional note
+     * @returns {Promise<Payout>} - Paid payout
+     * @throws {APIError} - 404 if not found, 400 if the payout is not approved
+     * @access Admin
+     */
+    async markPayoutPaid(id: number, adminId: number, data: MarkPayoutPaidInput): Promise<Payout> {
+        const payout = await this.payoutRepository.findOneBy({ id });
+        if (!payout) {
+            throw new APIError(404, 'Payout not found');
+        }
+        if (payout.status === PayoutStatus.PAID) {
+            throw new APIError(400, 'This payout has already been paid');
+        }
+        if (payout.status !== PayoutStatus.APPROVED) {
+            throw new APIError(400, 'The payout batch must be approved before payouts are paid');
+        }
+
+        return this.dataSource.transaction(async (manager) => {
+            payout.status = PayoutStatus.PAID;
+            payout.reference = data.reference;
+            payout.note = data.note ?? null;
+            payout.paidById = adminId;
+            payout.paidAt = new Date();
+            const saved = await manager.save(payout);
+
+            const unpaid = await manager.exists(Payout, {
+                where: { batchId: payout.batchId, status: In([PayoutStatus.PENDING, PayoutStatus.APPROVED]) },
+            });
+            if (!unpaid) {
+                await manager.update(PayoutBatch, payout.batchId, { status: PayoutStatus.PAID });
+            }
+
+            return saved;
+        });
+    }
+
+    /**
+     * A vendor's balance: what the next payout cycle will settle, what is still held for the
+     * return window, what is on its way in generated payouts, and lifetime totals.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @returns Balance figures
+     * @access Vendor
+     */
+    async getVendorBalance(vendorId: number) {
+        const now = new Date();
+
+        const ledger = await this.ledgerRepository.createQueryBuilder('entry')
+            .select('COALESCE(SUM(entry.amount) FILTER (WHERE entry.payoutId IS NULL AND entry.availableAt <= :now), 0)', 'available')
+            .addSelect('COALESCE(SUM(entry.amount) FILTER (WHERE entry.payoutId IS NULL AND entry.availableAt > :now), 0)', 'on_hold')
+            .addSelect('MIN(entry.availableAt) FILTER (WHERE entry.payoutId IS NULL AND entry.availableAt > :now)', 'next_release_at')
+            .addSelect('COALESCE(SUM(entry.amount) FILTER (WHERE entry.type = :sale), 0)', 'gross_sales')
+            .addSelect('COALESCE(SUM(entry.amount) FILTER (WHERE entry.type IN (:...commission)), 0)', 'commission')
+            .addSelect('COALESCE(SUM(entry.amount) FILTER (WHERE entry.type = :refund), 0)', 'refunds')
+            .where('entry.vendorId = :vendorId', { vendorId })
+            .setParameters({
+                now,
+                sale: LedgerEntryType.SALE,
+                commission: [LedgerEntryType.COMMISSION, LedgerEntryType.COMMISSION_REFUND],
+                refund: LedgerEntryType.REFUND,
+            })
+            .getRawOne();
+
+        const payouts = await this.payoutRepository.createQueryBuilder('payout')
+            .select('COALESCE(SUM(payout.amount) FILTER (WHERE payout.status IN (:...inProgress)), 0)', 'in_payout')
+            .addSelect('COALESCE(SUM(payout.amount) FILTER (WHERE payout.status = :paid), 0)', 'paid_out')
+            .where('payout.vendorId = :vendorId', { vendorId })
+            .setParameters({ inProgress: [PayoutStatus.PENDING, PayoutStatus.APPROVED], paid: PayoutStatus.PAID })
+            .getRawOne();
+
+        const vendor = await this.vendorRepository.findOneBy({ id: vendorId });
+
+        return {
+            available: roundAmount(Number(ledger.available)),
+            onHold: roundAmount(Number(ledger.on_hold)),
+            nextReleaseAt: ledger.next_release_at ?? null,
+            inPayout: roundAmount(Number(payouts.in_payout)),
+            paidOut: roundAmount(Number(payouts.paid_out)),
+            lifetime: {
+                grossSales: roundAmount(Number(ledger.gross_sales)),
+                commission: roundAmount(-Number(ledger.commission)),
+                refunds: roundAmount(-Number(ledger.refunds)),
+            },
+            payoutCycle: SETTLEMENT.PAYOUT_CYCLE,
+            minPayoutAmount: SETTLEMENT.MIN_PAYOUT_AMOUNT,
+            bankDetailsComplete: Boolean(vendor?.accountName && vendor?.bankName && vendor?.accountNumber),
+        };
+    }
+
+    /**
+     * A vendor's statement: ledger entries in a date range, newest first, with totals per entry type.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param query {StatementQueryInput} - Date range, entry type and pagination
+     * @returns Paginated entries with the payout that settled each, and a summary of the range
+     * @access Vendor
+     */
+    async getVendorStatement(vendorId: number, query: Partial<StatementQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const filtered = () => {
+            const qb = this.ledgerRepository.createQueryBuilder('entry')
+                .where('entry.vendorId = :vendorId', { vendorId });
+            if (query.from) qb.andWhere('entry.createdAt >= :from', { from: query.from });
+            if (query.to) qb.andWhere('entry.createdAt <= :to', { to: query.to });
+            if (query.type) qb.andWhere('entry.type = :type', { type: query.type });
+            return qb;
+        };
+
+        const [entries, total] = await filtered()
+            .leftJoin('entry.payout', 'payout')
+            .addSelect(['payout.id', 'payout.status', 'payout.reference', 'payout.paidAt'])
+            .orderBy('entry.createdAt', 'DESC')
+            .addOrderBy('entry.id', 'DESC')
+            .skip((page - 1) * limit)
+            .take(limit)
+            .getManyAndCount();
+
+        const totals = await filtered()
+            .select('entry.type', 'type')
+            .addSelect('SUM(entry.amount)', 'amount')
+            .groupBy('entry.type')
+            .getRawMany<{ type: LedgerEntryType; amount: string }>();
+
+        const summary: Record<LedgerEntryType, number> & { net?: number } = {
+            [LedgerEntryType.SALE]: 0,
+            [LedgerEntryType.COMMISSION]: 0,
+            [LedgerEntryType.REFUND]: 0,
+            [LedgerEntryType.COMMISSION_REFUND]: 0,
+        };
+        for (const row of totals) {
+            summary[row.type] = roundAmount(Number(row.amount));
+        }
+        summary.net = roundAmount(totals.reduce((sum, row) => sum + Number(row.amount), 0));
+
+        return { entries, summary, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * A vendor's payouts, newest first.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param query {VendorPayoutQueryInput} - Optional status filter and pagination
+     * @returns Paginated payouts
+     * @access Vendor
+     */
+    async getVendorPayouts(vendorId: number, query: Partial<VendorPayoutQueryInput>) {
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const [payouts, total] = await this.payoutRepository.findAndCount({
+            where: { vendorId, ...(query.status && { status: query.status }) },
+            order: { createdAt: 'DESC' },
+            skip: (page - 1) * limit,
+            take: limit,
+        });
+
+        return { payouts, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Credits delivered order items not yet in the ledger, less commission
+     */
+    private async recordDeliveredSales(): Promise<number> {
+        const items = await this.orderItemRepository.createQueryBuilder('orderItem')
+            .innerJoin('orderItem.order', 'order')
+            .leftJoin('orderItem.vendorOrder', 'vendorOrder')
+            .leftJoin('orderItem.product', 'product')
+            .leftJoin('product.subcategory', 'subcategory')
+            .select('orderItem.id', 'id')
+            .addSelect('orderItem.vendorId', 'vendorId')
+            .addSelect('orderItem.orderId', 'orderId')
+            .addSelect('orderItem.price', 'price')
+            .addSelect('orderItem.quantity', 'quantity')
+            .addSelect('"subcategory"."categoryId"', 'categoryId')
+            .addSelect('COALESCE(order.deliveredAt, vendorOrder.deliveredAt, order.updatedAt)', 'deliveredAt')
+            // Items of orders without sub-orders follow the order status
+            .where(new Brackets((qb) => {
+                qb.where('vendorOrder.status IN (:...vendorOrderStatuses)', {
+                    vendorOrderStatuses: [VendorOrderStatus.DELIVERED, VendorOrderStatus.RETURNED],
+                }).orWhere('orderItem.vendorOrderId IS NULL AND order.status IN (:...orderStatuses)', {
+                    orderStatuses: [OrderStatus.DELIVERED, OrderStatus.RETURNED],
+                });
+            }))
+            .andWhere(
+                'NOT EXISTS (SELECT 1 FROM "vendor_ledger_entries" "sale" WHERE "sale"."orderItemId" = "orderItem"."id" AND "sale"."type" = :saleType)',
+                { saleType: LedgerEntryType.SALE }
+            )
+            .getRawMany<DeliveredItemRow>();
+
+        if (!items.length) {
+            return 0;
+        }
+
+        const rates = await this.commissionRateRepository.find();
+        const entries: Partial<VendorLedgerEntry>[] = [];
+
+        for (const item of items) {
+            const gross = roundAmount(Number(item.price) * item.quantity);
+            const rate = this.resolveCommissionRate(rates, item.vendorId, item.categoryId);
+            const availableAt = new Date(new Date(item.deliveredAt).getTime() + RETURNS.WINDOW_DAYS * DAY_MS);
+            const common = { vendorId: item.vendorId, orderItemId: item.id, orderId: item.orderId, availableAt };
+
+            entries.push(
+                { ...common, type: LedgerEntryType.SALE, amount: gross, description: `Order #${item.orderId}: ${item.quantity} x ${item.price}` },
+                { ...common, type: LedgerEntryType.COMMISSION, amount: -roundAmount(gross * rate / 100), commissionRate: rate, description: `Commission ${rate}% on order #${item.orderId}` }
+            );
+        }
+
+        // Items credited by a concurrent run are skipped by the unique (orderItemId, type) index
+        for (let i = 0; i < entries.length; i += LEDGER_INSERT_CHUNK) {
+            await this.ledgerRepository.createQueryBuilder()
+                .insert()
+                .into(VendorLedgerEntry)
+                .values(entries.slice(i, i + LEDGER_INSERT_CHUNK))
+                .orIgnore()
+                .execute();
+        }
+
+        return items.length;
+    }
+
+    /**
+     * Debits refunded returns not yet in the ledger and gives back the commission charged on them
+     */
+    private async recordRefunds(): Promise<number> {
+        const requests = await this.returnRepository.createQueryBuilder('request')
+            .innerJoinAndSelect('request.items', 'item')
+            .where('request.status = :status', { status: ReturnStatus.REFUNDED })
+            .andWhere(
+                'NOT EXISTS (SELECT 1 FROM "vendor_ledger_entries" "refund" WHERE "refund"."returnRequestId" = "request"."id" AND "refund"."type" = :refundType)',
+                { refundType: LedgerEntryType.REFUND }
+            )
+            .getMany();
+
+        if (!requests.length) {
+            return 0;
+        }
+
+        // Commission is given back at the rate charged on the sale
+        const orderItemIds = requests.flatMap((request) => request.items.map((item) => item.orderItemId));
+        const commissions = await this.ledgerRepository.find({
+            where: { orderItemId: In(orderItemIds), type: LedgerEntryType.COMMISSION },
+        });
+        const chargedRates = new Map(commissions.map((entry) => [entry.orderItemId, Number(entry.commissionRate)]));
+        const rates = await this.commissionRateRepository.find();
+
+        const now = new Date();
+        const entries: Partial<VendorLedgerEntry>[] = [];
+
+        for (const request of requests) {
+            let refunded = 0;
+            let commission = 0;
+            for (const item of request.items) {
+                const value = Number(item.price) * item.quantity;
+                const rate = chargedRates.get(item.orderItemId) ?? this.resolveCommissionRate(rates, request.vendorId, null);
+                refunded += value;
+                commission += value * rate / 100;
+            }
+
+            const common = { vendorId: request.vendorId, returnRequestId: request.id, orderId: request.orderId, availableAt: now };
+            entries.push(
+                { ...common, type: LedgerEntryType.REFUND, amount: -roundAmount(refunded), description: `Refund for return #${request.id} on order #${request.orderId}` },
+                { ...common, type: LedgerEntryType.COMMISSION_REFUND, amount: roundAmount(commission), description: `Commission returned for return #${request.id}` }
+            );
+        }
+
+        await this.ledgerRepository.createQueryBuilder()
+            .insert()
+            .into(VendorLedgerEntry)
+            .values(entries)
+            .orIgnore()
+            .execute();
+
+        return requests.length;
+    }
+
+    /**
+     * Debits completed refunds not linked to a return from the vendors whose items were credited.
+     * Each credited item bears the refunded share of the order total, and the commission charged on
+     * that share is given back. Vendors credited later are debited by a later run.
+     */
+    private async recordDirectRefunds(): Promise<number> {
+        const rows = await this.ledgerRepository.createQueryBuilder('sale')
+            .innerJoin(Refund, 'refund', 'refund.orderId = sale.orderId')
+            .innerJoin(Order, 'order', 'order.id = refund.orderId')
+            .leftJoin(VendorLedgerEntry, 'commission', 'commission.orderItemId = sale.orderItemId AND commission.type = :commissionType')
+            .select('refund.id', 'refundId')
+            .addSelect('refund.orderId', 'orderId')
+            .addSelect('refund.amount', 'refundAmount')
+            .addSelect('order.totalPrice', 'orderTotal')
+            .addSelect('sale.vendorId', 'vendorId')
+            .addSelect('sale.amount', 'saleAmount')
+            .addSelect('commission.commissionRate', 'commissionRate')
+            .where('sale.type = :saleType')
+            .andWhere('refund.status = :completed')
+            // Refunds of returns are debited per returned item by recordRefunds
+            .andWhere('refund.returnRequestId IS NULL')
+            .andWhere(
+                'NOT EXISTS (SELECT 1 FROM "vendor_ledger_entries" "debit" WHERE "debit"."refundId" = "refund"."id" AND "debit"."vendorId" = "sale"."vendorId" AND "debit"."type" = :refundType)'
+            )
+            .setParameters({
+                saleType: LedgerEntryType.SALE,
+                commissionType: LedgerEntryType.COMMISSION,
+                refundType: LedgerEntryType.REFUND,
+                completed: RefundStatus.COMPLETED,
+            })
+            .getRawMany<RefundedItemRow>();
+
+        if (!rows.length) {
+            return 0;
+        }
+
+        const rates = await this.commissionRateRepository.find();
+        const debits = new Map<string, { refundId: number; orderId: number; vendorId: number; refunded: number; commission: number }>();
+
+        for (const row of rows) {
+            // Shipping and discounts are not split: items bear the refunded fraction of the order total
+            const share = Math.min(1, Number(row.refundAmount) / Number(row.orderTotal));
+            const value = Number(row.saleAmount) * share;
+            const rate = row.commissionRate !== null ? Number(row.commissionRate) : this.resolveCommissionRate(rates, row.vendorId, null);
+
+            const key = `${row.refundId}:${row.vendorId}`;
+            const debit = debits.get(key) ?? { refundId: row.refundId, orderId: row.orderId, vendorId: row.vendorId, refunded: 0, commission: 0 };
+            debit.refunded += value;
+            debit.commission += value * rate / 100;
+            debits.set(key, debit);
+        }
+
+        const now = new Date();
+        const entries: Partial<VendorLedgerEntry>[] = [];
+
+        for (const debit of debits.values()) {
+            const common = { vendorId: debit.vendorId, refundId: debit.refundId, orderId: debit.orderId, availableAt: now };
+            entries.push(
+                { ...common, type: LedgerEntryType.REFUND, amount: -roundAmount(debit.refunded), description: `Refund #${debit.refundId} on order #${debit.orderId}` },
+                { ...common, type: LedgerEntryType.COMMISSION_REFUND, amount: roundAmount(debit.commission), description: `Commission returned for refund #${debit.refundId}` }
+            );
+        }
+
+        // Refunds debited by a concurrent run are skipped by the unique (refundId, vendorId, type) index
+        await this.ledgerRepository.createQueryBuilder()
+            .insert()
+            .into(VendorLedgerEntry)
+            .values(entries)
+            .orIgnore()
+            .execute();
+
+        return new Set(rows.map((row) => row.refundId)).size;
+    }
+
+    /**
+     * The most specific rate for a sale: vendor and category, then vendor, then category, then the default
+     */
+    private resolveCommissionRate(rates: CommissionRate[], vendorId: number, categoryId: number | null): number {
+        const match = rates.find((rate) => rate.vendorId === vendorId && categoryId !== null && rate.categoryId === categoryId)
+            ?? rates.find((rate) => rate.vendorId === vendorId && rate.categoryId == null)
+            ?? rates.find((rate) => rate.vendorId == null && categoryId !== null && rate.categoryId === categoryId);
+
+        return match ? Number(match.rate) : SETTLEMENT.DEFAULT_COMMISSION_RATE;
+    }
+
+    private async sumPayoutEntries(manager: EntityManager, payoutId: number): Promise<number> {
+        const { amount } = await manager.createQueryBuilder(VendorLedgerEntry, 'entry')
+            .select('COALESCE(SUM(entry.amount), 0)', 'amount')
+            .where('entry.payoutId = :payoutId', { payoutId })
+            .getRawOne();
+        return roundAmount(Number(amount));
+    }
+}
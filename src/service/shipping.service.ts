@@ -0,0 +1,461 @@
+import { DataSource, In, IsNull, Repository } from "typeorm";
+import AppDataSource from "../config/db.config";
+import TestDataSource from "../config/db.test.config";
+import { SHIPPING } from "../config/constants";
+import { APIError } from "../utils/ApiError.utils";
+import { PriceHelper } from "../utils/helpers/PriceHelper";
+import { ShippingZone } from "../entities/shippingZone.entity";
+import { ShippingVendorRate } from "../entities/shippingVendorRate.entity";
+import { District } from "../entities/district.entity";
+import { Vendor } from "../entities/vendor.entity";
+import { Product } from "../entities/product.entity";
+import { Variant } from "../entities/variant.entity";
+import {
+    IShippingDestination,
+    IShippingLine,
+    IShippingQuote,
+    IShippingQuoteRequest,
+    IShippingVendorRateRequest,
+    IShippingZoneRequest,
+    IVendorShippingQuote,
+} from "../interface/shipping.interface";
+
+/**
+ * Effective rate for one vendor shipment after applying overrides
+ */
+interface ResolvedRate {
+    baseFee: number;
+    localFee: number | null;
+    perKgFee: number;
+    perItemFee: number;
+    freeShippingThreshold: number | null;
+}
+
+const roundAmount = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Service to manage shipping zones, per-vendor rate overrides and shipping quotes.
+ *
+ * A fee is calculated per vendor shipment:
+ * - the destination zone is matched by district, then by province
+ * - vendor overrides for that zone win over vendor-wide overrides, which win over the zone
+ * - destinations outside every zone use the SHIPPING defaults
+ * - vendors in the same district are picked up together, so the base fee is charged once per vendor district
+ *
+ * Module: Shipping
+ */
+export class ShippingService {
+    private zoneRepository: Repository<ShippingZone>;
+    private vendorRateRepository: Repository<ShippingVendorRate>;
+    private districtRepository: Repository<District>;
+    private vendorRepository: Repository<Vendor>;
+    private productRepository: Repository<Product>;
+    private variantRepository: Repository<Variant>;
+    private dataSource: DataSource;
+
+    constructor(dataSource?: DataSource) {
+        // Use provided DataSource or fallback to appropriate default
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.zoneRepository = this.dataSource.getRepository(ShippingZone);
+        this.vendorRateRepository = this.dataSource.getRepository(ShippingVendorRate);
+        this.districtRepository = this.dataSource.getRepository(District);
+        this.vendorRepository = this.dataSource.getRepository(Vendor);
+        this.productRepository = this.dataSource.getRepository(Product);
+        this.variantRepository = this.dataSource.getRepository(Variant);
+    }
+
+    /**
+     * Creates a shipping zone.
+     *
+     * @param data {IShippingZoneRequest} - Zone name, members and fees
+     * @returns {Promise<ShippingZone>} - The created zone with its districts
+     * @throws {APIError} - 409 if the name is taken, 404 if a district does not exist
+     * @access Admin
+     */
+    async createZone(data: IShippingZoneRequest): Promise<ShippingZone> {
+        const existing = await this.zoneRepository.findOne({ where: { name: data.name } });
+        if (existing) {
+            throw new APIError(409, "Shipping zone already exists");
+        }
+
+        const { districtIds, ...fields } = data;
+        const zone = this.zoneRepository.create({
+            ...fields,
+            provinces: data.provinces || [],
+            districts: await this.getDistricts(districtIds || []),
+        });
+
+        return await this.zoneRepository.save(zone);
+    }
+
+    /**
+     * Updates a shipping zone. Members are replaced when districtIds/provinces are given.
+     *
+     * @param zoneId {number} - ID of the zone
+     * @param data {Partial<IShippingZoneRequest>} - Fields to change
+     * @returns {Promise<ShippingZone>} - The updated zone
+     * @throws {APIError} - 404 if zone or a district is missing, 409 on duplicate name
+     * @access Admin
+     */
+    async updateZone(zoneId: number, data: Partial<IShippingZoneRequest>): Promise<ShippingZone> {
+        const zone = await this.getZoneById(zoneId);
+
+        if (data.name && data.name !== zone.name) {
+            const duplicate = await this.zoneRepository.findOne({ where: { name: data.name } });
+            if (duplicate) {
+                throw new APIError(409, "Another shipping zone with the same name already exists");
+            }
+        }
+
+        const { districtIds, ...fields } = data;
+        Object.assign(zone, fields);
+        if (districtIds) {
+            zone.districts = await this.getDistricts(districtIds);
+        }
+
+        return await this.zoneRepository.save(zone);
+    }
+
+    /**
+     * Deletes a shipping zone along with its vendor overrides.
+     *
+     * @param zoneId {number} - ID of the zone
+     * @throws {APIError} - 404 if the zone does not exist
+     * @access Admin
+     */
+    async deleteZone(zoneId: number): Promise<void> {
+        const zone = await this.getZoneById(zoneId);
+        await this.zoneRepository.remove(zone);
+    }
+
+    /**
+     * Retrieves all shipping zones with their districts.
+     *
+     * @returns {Promise<ShippingZone[]>} - List of zones
+     * @access Admin
+     */
+    async getZones(): Promise<ShippingZone[]> {
+        return await this.zoneRepository.find({
+            relations: ['districts'],
+            order: { name: 'ASC' },
+        });
+    }
+
+    /**
+     * Finds a shipping zone by ID, including districts and vendor overrides.
+     *
+     * @param zoneId {number} - ID of the zone
+     * @returns {Promise<ShippingZone>} - The zone
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async getZoneById(zoneId: number): Promise<ShippingZone> {
+        const zone = await this.zoneRepository.findOne({
+            where: { id: zoneId },
+            relations: ['districts', 'vendorRates'],
+        });
+        if (!zone) {
+            throw new APIError(404, `Shipping zone with ID ${zoneId} not found`);
+        }
+        return zone;
+    }
+
+    /**
+     * Creates a per-vendor rate override, for one zone or (without zoneId) for all destinations.
+     *
+     * @param data {IShippingVendorRateRequest} - Vendor, optional zone and overridden fees
+     * @returns {Promise<ShippingVendorRate>} - The created override
+     * @throws {APIError} - 404 if vendor or zone is missing, 409 if an override already exists
+     * @access Admin
+     */
+    async createVendorRate(data: IShippingVendorRateRequest): Promise<ShippingVendorRate> {
+        const vendor = await this.vendorRepository.findOne({ where: { id: data.vendorId } });
+        if (!vendor) {
+            throw new APIError(404, "Vendor not found");
+        }
+
+        const zoneId = data.zoneId ?? null;
+        if (zoneId !== null) {
+            await this.getZoneById(zoneId);
+        }
+
+        // Unique index does not cover NULL zones, so check explicitly
+        const existing = await this.vendorRateRepository.findOne({
+            where: { vendorId: data.vendorId, zoneId: zoneId === null ? IsNull() : zoneId },
+        });
+        if (existing) {
+            throw new APIError(409, "A shipping override already exists for this vendor and zone");
+        }
+
+        const rate = this.vendorRateRepository.create({ ...data, zoneId });
+        return await this.vendorRateRepository.save(rate);
+    }
+
+    /**
+     * Updates the fees of a vendor override. Set a fee to null to fall back to the zone.
+     *
+     * @param rateId {number} - ID of the override
+     * @param data {Partial<IShippingVendorRateRequest>} - Fees to change
+     * @returns {Promise<ShippingVendorRate>} - The updated override
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async updateVendorRate(rateId: number, data: Partial<IShippingVendorRateRequest>): Promise<ShippingVendorRate> {
+        const rate = await this.vendorRateRepository.findOne({ where: { id: rateId } });
+        if (!rate) {
+            throw new APIError(404, "Shipping override not found");
+        }
+
+        // Vendor and zone identify the override; only fees can change
+        const { vendorId, zoneId, ...fees } = data;
+        Object.assign(rate, fees);
+
+        return await this.vendorRateRepository.save(rate);
+    }
+
+    /**
+     * Deletes a vendor override.
+     *
+     * @param rateId {number} - ID of the override
+     * @throws {APIError} - 404 if not found
+     * @access Admin
+     */
+    async deleteVendorRate(rateId: number): Promise<void> {
+        const rate = await this.vendorRateRepository.findOne({ where: { id: rateId } });
+        if (!rate) {
+            throw new APIError(404, "Shipping override not found");
+        }
+        await this.vendorRateRepository.remove(rate);
+    }
+
+    /**
+     * Retrieves vendor overrides, optionally for a single vendor.
+     *
+     * @param vendorId {number} - Optional vendor filter
+     * @returns {Promise<ShippingVendorRate[]>} - List of overrides with their zone
+     * @access Admin
+     */
+    async getVendorRates(vendorId?: number): Promise<ShippingVendorRate[]> {
+        return await this.vendorRateRepository.find({
+            where: vendorId ? { vendorId } : {},
+            relations: ['zone'],
+            order: { vendorId: 'ASC' },
+        });
+    }
+
+    /**
+     * Quotes shipping for a list of products before checkout.
+     *
+     * @param data {IShippingQuoteRequest} - Destination address and items
+     * @returns {Promise<IShippingQuote>} - Total fee and per-vendor breakdown
+     * @throws {APIError} - 404 if a product or variant is missing, 400 if a vendor has no district
+     * @access Public
+     */
+    async getQuote(data: IShippingQuoteRequest): Promise<IShippingQuote> {
+        const productIds = [...new Set(data.items.map((item) => item.productId))];
+        const products = await this.productRepository.find({
+            where: { id: In(productIds) },
+            relations: ['vendor', 'vendor.district', 'deal'],
+        });
+        const productMap = new Map(products.map((product) => [product.id, product]));
+
+        const lines: IShippingLine[] = [];
+        for (const item of data.items) {
+            const product = productMap.get(item.productId);
+            if (!product) {
+                throw new APIError(404, `Product with ID ${item.productId} not found`);
+            }
+
+            let variant: Variant | null = null;
+            if (item.variantId) {
+                variant = await this.variantRepository.findOne({
+                    where: { id: item.variantId.toString(), productId: product.id.toString() },
+                });
+                if (!variant) {
+                    throw new APIError(404, `Variant with ID ${item.variantId} not found`);
+                }
+            }
+
+            lines.push(this.toShippingLine(product, variant, item.quantity));
+        }
+
+        return await this.calculateQuote(data.address, lines);
+    }
+
+    /**
+     * Builds a shipping line from a product (loaded with vendor.district) and optional variant.
+     *
+     * @throws {APIError} - 400 if the product's vendor has no district
+     */
+    toShippingLine(product: Product, variant: Variant | null | undefined, quantity: number): IShippingLine {
+        const vendor = product.vendor;
+        if (!vendor || !vendor.district || !vendor.district.name) {
+            throw new APIError(400, `Vendor for product ${product.id} has no valid address`);
+        }
+
+        return {
+            vendorId: vendor.id,
+            vendorDistrict: vendor.district.name,
+            unitPrice: PriceHelper.getUnitPrice(product, variant),
+            quantity,
+            weight: Number(product.weight) || 0,
+        };
+    }
+
+    /**
+     * Calculates the shipping fee for each vendor shipment going to the destination.
+     * Weight and item surcharges are charged per vendor; the base fee once per vendor district,
+     * on the vendor with the highest base fee that does not ship free.
+     *
+     * @param destination {IShippingDestination} - Customer district and province
+     * @param lines {IShippingLine[]} - Priced lines, each tied to a vendor
+     * @returns {Promise<IShippingQuote>} - Total fee and per-vendor breakdown
+     */
+    async calculateQuote(destination: IShippingDestination, lines: IShippingLine[]): Promise<IShippingQuote> {
+        const zone = await this.findZoneForDestination(destination);
+
+        const linesByVendor = new Map<number, IShippingLine[]>();
+        for (const line of lines) {
+            linesByVendor.set(line.vendorId, [...(linesByVendor.get(line.vendorId) || []), line]);
+        }
+
+        const vendorIds = Array.from(linesByVendor.keys());
+        const overrides = vendorIds.length
+            ? await this.vendorRateRepository.find({ where: { vendorId: In(vendorIds) } })
+            : [];
+
+        const vendors: IVendorShippingQuote[] = [];
+        for (const [vendorId, vendorLines] of linesByVendor) {
+            const vendorDistrict = vendorLines[0].vendorDistrict;
+            const isLocal = zone
+                ? zone.districts.some((district) => this.sameName(district.name, vendorDistrict))
+                : this.sameName(destination.district, vendorDistrict);
+
+            const rate = this.resolveRate(zone, overrides.filter((override) => override.vendorId === vendorId));
+
+            const subtotal = roundAmount(vendorLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0));
+            const totalWeight = vendorLines.reduce((sum, line) => sum + line.weight * line.quantity, 0);
+            const itemCount = vendorLines.reduce((sum, line) => sum + line.quantity, 0);
+
+            const baseFee = isLocal && rate.localFee !== null ? rate.localFee : rate.baseFee;
+            const weightSurcharge = roundAmount(rate.perKgFee * totalWeight);
+            const itemSurcharge = roundAmount(rate.perItemFee * Math.max(itemCount - 1, 0));
+            const freeShippingApplied = rate.freeShippingThreshold !== null && subtotal >= rate.freeShippingThreshold;
+
+            vendors.push({
+                vendorId,
+                vendorDistrict,
+                zoneId: zone?.id ?? null,
+                zoneName: zone?.name ?? null,
+                isLocal,
+                subtotal,
+                totalWeight,
+                itemCount,
+                baseFee,
+                weightSurcharge,
+                itemSurcharge,
+                freeShippingThreshold: rate.freeShippingThreshold,
+                freeShippingApplied,
+                fee: 0,
+            });
+        }
+
+        this.chargeBaseFeeOncePerDistrict(vendors);
+        for (const vendor of vendors) {
+            vendor.fee = vendor.freeShippingApplied ? 0 : roundAmount(vendor.baseFee + vendor.weightSurcharge + vendor.itemSurcharge);
+        }
+
+        return {
+            shippingFee: roundAmount(vendors.reduce((sum, vendor) => sum + vendor.fee, 0)),
+            vendors,
+        };
+    }
+
+    /**
+     * Leaves the base fee on one vendor per origin district and zeroes it for the others
+     */
+    private chargeBaseFeeOncePerDistrict(vendors: IVendorShippingQuote[]): void {
+        const byDistrict = new Map<string, IVendorShippingQuote[]>();
+        for (const vendor of vendors) {
+            const key = vendor.vendorDistrict.trim().toLowerCase();
+            byDistrict.set(key, [...(byDistrict.get(key) || []), vendor]);
+        }
+
+        for (const districtVendors of byDistrict.values()) {
+            const charged = districtVendors
+                .filter((vendor) => !vendor.freeShippingApplied)
+                .reduce<IVendorShippingQuote | null>((max, vendor) => (!max || vendor.baseFee > max.baseFee ? vendor : max), null);
+
+            for (const vendor of districtVendors) {
+                if (vendor !== charged) {
+                    vendor.baseFee = 0;
+                }
+            }
+        }
+    }
+
+    /**
+     * Finds the active zone for a destination: district membership first, then province
+     */
+    private async findZoneForDestination(destination: IShippingDestination): Promise<ShippingZone | null> {
+        const zones = await this.zoneRepository.find({
+            where: { isActive: true },
+            relations: ['districts'],
+            order: { id: 'ASC' },
+        });
+
+        const byDistrict = zones.find((zone) =>
+            zone.districts.some((district) => this.sameName(district.name, destination.district))
+        );
+        if (byDistrict) {
+            return byDistrict;
+        }
+
+        if (destination.province) {
+            return zones.find((zone) => zone.provinces.includes(destination.province)) || null;
+        }
+
+        return null;
+    }
+
+    /**
+     * Merges fees field by field: zone-specific override, then vendor-wide override, then zone/defaults
+     */
+    private resolveRate(zone: ShippingZone | null, overrides: ShippingVendorRate[]): ResolvedRate {
+        const zoneOverride = zone ? overrides.find((override) => override.zoneId === zone.id) : undefined;
+        const vendorOverride = overrides.find((override) => override.zoneId === null);
+
+        const pick = (field: keyof ResolvedRate, fallback: number | null): number | null => {
+            for (const source of [zoneOverride, vendorOverride]) {
+                if (source && source[field] !== null && source[field] !== undefined) {
+                    return Number(source[field]);
+                }
+            }
+            return fallback === null || fallback === undefined ? null : Number(fallback);
+        };
+
+        return {
+            baseFee: pick('baseFee', zone ? zone.baseFee : SHIPPING.DEFAULT_FEE),
+            localFee: pick('localFee', zone ? zone.localFee : SHIPPING.DEFAULT_LOCAL_FEE),
+            perKgFee: pick('perKgFee', zone ? zone.perKgFee : 0),
+            perItemFee: pick('perItemFee', zone ? zone.perItemFee : 0),
+            freeShippingThreshold: pick('freeShippingThreshold', zone ? zone.freeShippingThreshold : null),
+        };
+    }
+
+    private async getDistricts(districtIds: number[]): Promise<District[]> {
+        if (!districtIds.length) {
+            return [];
+        }
+
+        const districts = await this.districtRepository.find({ where: { id: In(districtIds) } });
+        if (districts.length !== new Set(districtIds).size) {
+            throw new APIError(404, "One or more districts not found");
+        }
+        return districts;
+    }
+
+    private sameName(a?: string, b?: string): boolean {
+        return !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+    }
+}
@@ -0,0 +1,219 @@
+import { EntityManager, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { StockMovement, StockMovementReason } from '../entities/stockMovement.entity';
+import { Product } from '../entities/product.entity';
+import { Variant } from '../entities/variant.entity';
+import { APIError } from '../utils/ApiError.utils';
+import {
+    IStockActor,
+    IStockMovementInput,
+    IStockMovementQuery,
+    IStockReconciliationQuery,
+    IStockReconciliationReport,
+    IStockReconciliationRow,
+} from '../interface/stockMovement.interface';
+
+/**
+ * Service for the stock movement ledger.
+ *
+ * Every change to `Product.stock` or `Variant.stock` is appended here with its reason,
+ * actor and order, so stock can be audited and reconciled against the ledger sum.
+ * Movements are never updated or deleted.
+ *
+ * Module: Inventory
+ */
+export class StockMovementService {
+    private movementRepository: Repository<StockMovement>;
+    private productRepository: Repository<Product>;
+    private variantRepository: Repository<Variant>;
+
+    constructor() {
+        this.movementRepository = AppDataSource.getRepository(StockMovement);
+        this.productRepository = AppDataSource.getRepository(Product);
+        this.variantRepository = AppDataSource.getRepository(Variant);
+    }
+
+    /**
+     * Appends stock movements. Zero deltas are skipped.
+     * Pass the transaction manager when the stock change itself runs in a transaction.
+     *
+     * @param movements {IStockMovementInput[]} - Changes to record
+     * @param manager {EntityManager} - Manager to write with
+     * @access Internal
+     */
+    async record(movements: IStockMovementInput[], manager: EntityManager = AppDataSource.manager): Promise<void> {
+        const rows = movements
+            .filter((movement) => movement.delta !== 0)
+            .map((movement) => ({
+                productId: movement.productId,
+                variantId: movement.variantId != null ? String(movement.variantId) : null,
+                delta: movement.delta,
+                balanceAfter: movement.balanceAfter,
+                reason: movement.reason,
+                orderId: movement.orderId ?? null,
+                actorUserId: movement.actor?.userId ?? null,
+                actorVendorId: movement.actor?.vendorId ?? null,
+                note: movement.note ?? null,
+            }));
+
+        if (!rows.length) return;
+
+        await manager.save(StockMovement, rows);
+    }
+
+    /**
+     * Movement history of one product and its variants, newest first.
+     * Vendors can only see their own products.
+     *
+     * @param productId {number} - Product ID
+     * @param query {IStockMovementQuery} - Pagination and filters
+     * @param actor {IStockActor} - Requesting vendor, if not an admin
+     * @returns Current stock and a page of movements
+     * @throws {APIError} - 404 if the product does not exist or belongs to another vendor
+     * @access Admin | Staff | Vendor
+     */
+    async getProductMovements(productId: number, query: IStockMovementQuery, actor: IStockActor = {}) {
+        const product = await this.productRepository.findOne({
+            where: { id: productId },
+            relations: ['variants'],
+        });
+        if (!product || (actor.vendorId && product.vendorId !== actor.vendorId)) {
+            throw new APIError(404, 'Product not found');
+        }
+
+        const page = query.page || 1;
+        const limit = query.limit || 20;
+
+        const qb = this.movementRepository.createQueryBuilder('movement')
+            .leftJoin('movement.actorUser', 'actorUser')
+            .addSelect(['actorUser.id', 'actorUser.fullName', 'actorUser.role'])
+            .leftJoin('movement.actorVendor', 'actorVendor')
+            .addSelect(['actorVendor.id', 'actorVendor.businessName'])
+            .where('movement.productId = :productId', { productId })
+            .orderBy('movement.createdAt', 'DESC')
+            .addOrderBy('movement.id', 'DESC')
+            .skip((page - 1) * limit)
+            .take(limit);
+
+        if (query.variantId) {
+            qb.andWhere('movement.variantId = :variantId', { variantId: query.variantId });
+        }
+        if (query.reason) {
+            qb.andWhere('movement.reason = :reason', { reason: query.reason });
+        }
+
+        const [movements, total] = await qb.getManyAndCount();
+
+        return {
+            product: {
+                id: product.id,
+                name: product.name,
+                hasVariants: product.hasVariants,
+                stock: product.stock ?? null,
+                variants: (product.variants || []).map((variant) => ({
+                    id: variant.id,
+                    sku: variant.sku,
+                    stock: variant.stock,
+                })),
+            },
+            movements,
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit),
+        };
+    }
+
+    /**
+     * Compares current product and variant stock with the sum of their ledger movements.
+     * Any difference means stock was changed without going through the ledger.
+     *
+     * @param query {IStockReconciliationQuery} - Vendor/product filters; vendors are always limited to their own products
+     * @returns {Promise<IStockReconciliationReport>} - One row per non-variant product and per variant
+     * @access Admin | Staff | Vendor
+     */
+    async getReconciliation(query: IStockReconciliationQuery): Promise<IStockReconciliationReport> {
+        const productQuery = this.productRepository.createQueryBuilder('product')
+            .leftJoin(StockMovement, 'movement', 'movement.productId = product.id AND movement.variantId IS NULL')
+            .select('product.id', 'productId')
+            .addSelect('product.name', 'productName')
+            .addSelect('product.vendorId', 'vendorId')
+            .addSelect('COALESCE(product.stock, 0)', 'currentStock')
+            .addSelect('COALESCE(SUM(movement.delta), 0)', 'ledgerStock')
+            .where('product.hasVariants = false')
+            .groupBy('product.id');
+
+        const variantQuery = this.variantRepository.createQueryBuilder('variant')
+            .innerJoin('variant.product', 'product')
+            .leftJoin(StockMovement, 'movement', 'movement.variantId = variant.id')
+            .select('product.id', 'productId')
+            .addSelect('product.name', 'productName')
+            .addSelect('product.vendorId', 'vendorId')
+            .addSelect('variant.id', 'variantId')
+            .addSelect('variant.sku', 'sku')
+            .addSelect('COALESCE(variant.stock, 0)', 'currentStock')
+            .addSelect('COALESCE(SUM(movement.delta), 0)', 'ledgerStock')
+            .groupBy('variant.id')
+            .addGroupBy('product.id');
+
+        for (const qb of [productQuery, variantQuery]) {
+            if (query.vendorId) {
+                qb.andWhere('product.vendorId = :vendorId', { vendorId: query.vendorId });
+            }
+            if (query.productId) {
+                qb.andWhere('product.id = :productId', { productId: query.productId });
+            }
+        }
+
+        const [productRows, variantRows] = await Promise.all([productQuery.getRawMany(), variantQuery.getRawMany()]);
+
+        const rows: IStockReconciliationRow[] = [...productRows, ...variantRows].map((row) => {
+            const currentStock = Number(row.currentStock);
+            const ledgerStock = Number(row.ledgerStock);
+            return {
+                productId: Number(row.productId),
+                productName: row.productName,
+                vendorId: Number(row.vendorId),
+                variantId: row.variantId != null ? Number(row.variantId) : null,
+                sku: row.sku ?? null,
+                currentStock,
+                ledgerStock,
+                difference: currentStock - ledgerStock,
+            };
+        });
+
+        rows.sort((a, b) => a.productId - b.productId || (a.variantId ?? 0) - (b.variantId ?? 0));
+
+        const mismatchedRows = rows.filter((row) => row.difference !== 0);
+
+        return {
+            generatedAt: new Date(),
+            checked: rows.length,
+            mismatched: mismatchedRows.length,
+            rows: query.mismatchedOnly ? mismatchedRows : rows,
+        };
+    }
+
+    /**
+     * Movements for a direct edit of product or variant stock, e.g. a vendor updating a product.
+     *
+     * @param productId {number} - Product ID
+     * @param variantId - Variant ID, or null for the product's own stock
+     * @param previousStock - Stock before the edit
+     * @param newStock - Stock after the edit
+     * @param reason - Why the stock was set
+     * @returns Movement to record, or null if the stock did not change
+     * @access Internal
+     */
+    adjustment(
+        productId: number,
+        variantId: string | number | null,
+        previousStock: number | null | undefined,
+        newStock: number | null | undefined,
+        reason: StockMovementReason = StockMovementReason.ADJUSTMENT,
+    ): IStockMovementInput | null {
+        const delta = (newStock || 0) - (previousStock || 0);
+        if (!delta) return null;
+        return { productId, variantId, delta, balanceAfter: newStock || 0, reason };
+    }
+}
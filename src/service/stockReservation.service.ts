@@ -0,0 +1,233 @@
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import { STOCK_RESERVATION } from '../config/constants';
+import { ReservationStatus, StockReservation } from '../entities/stockReservation.entity';
+import { Product } from '../entities/product.entity';
+import { Variant } from '../entities/variant.entity';
+import { Order } from '../entities/order.entity';
+import { APIError } from '../utils/ApiError.utils';
+
+/**
+ * Reserved quantities of active reservations: non-variant products by product ID, variants by variant ID
+ */
+interface IReservedQuantities {
+    products: Map<number, number>;
+    variants: Map<string, number>;
+}
+
+/**
+ * Service that holds product and variant stock while an online payment is pending.
+ *
+ * Stock on hand (`Product.stock` / `Variant.stock`) is only deducted once payment succeeds;
+ * until then the order holds a reservation that expires after STOCK_RESERVATION.TTL_MINUTES.
+ * Available stock is on-hand stock minus active, unexpired reservations.
+ *
+ * Module: Orders / Inventory
+ */
+export class StockReservationService {
+    private reservationRepository: Repository<StockReservation>;
+
+    constructor() {
+        this.reservationRepository = AppDataSource.getRepository(StockReservation);
+    }
+
+    /**
+     * Reserves stock for every item of a new online order.
+     * Must run inside the transaction that saves the order; the product and variant rows are
+     * locked so two checkouts cannot both reserve the last unit.
+     *
+     * @param manager {EntityManager} - Order transaction manager
+     * @param order {Order} - Saved order with its items
+     * @returns {Promise<StockReservation[]>} - Created reservations
+     * @throws {APIError} - 400 if an item does not have enough available stock
+     * @access Internal
+     */
+    async reserveForOrder(manager: EntityManager, order: Order): Promise<StockReservation[]> {
+        const expiresAt = new Date(Date.now() + STOCK_RESERVATION.TTL_MINUTES * 60 * 1000);
+
+        // Combine items for the same product or variant
+        const lines = new Map<string, { productId: number; variantId: string | null; quantity: number }>();
+        for (const item of order.orderItems) {
+            const variantId = item.variantId ? String(item.variantId) : null;
+            const key = variantId ? `v:${variantId}` : `p:${item.productId}`;
+            const line = lines.get(key) || { productId: item.productId, variantId, quantity: 0 };
+            line.quantity += item.quantity;
+            lines.set(key, line);
+        }
+
+        const reservations: StockReservation[] = [];
+
+        for (const line of lines.values()) {
+            let onHand: number;
+            let label: string;
+
+            if (line.variantId) {
+                const variant = await manager.getRepository(Variant).createQueryBuilder('variant')
+                    .setLock('pessimistic_write')
+                    .where('variant.id = :id', { id: line.variantId })
+                    .getOne();
+                if (!variant) {
+                    throw new APIError(404, `Variant not found for product ID: ${line.productId}`);
+                }
+                onHand = variant.stock || 0;
+                label = `variant "${variant.sku || variant.id}"`;
+            } else {
+                const product = await manager.getRepository(Product).createQueryBuilder('product')
+                    .setLock('pessimistic_write')
+                    .where('product.id = :id', { id: line.productId })
+                    .getOne();
+                if (!product) {
+                    throw new APIError(404, `Product not found for product ID: ${line.productId}`);
+                }
+                onHand = product.stock || 0;
+                label = `product "${product.name}"`;
+            }
+
+            const reserved = await this.getReservedQuantities([line.productId], manager);
+            const held = line.variantId
+                ? reserved.variants.get(line.variantId) || 0
+                : reserved.products.get(line.productId) || 0;
+            const available = Math.max(0, onHand - held);
+
+            if (available < line.quantity) {
+                throw new APIError(
+                    400,
+                    `Insufficient stock for ${label}. Available: ${available}, Requested: ${line.quantity}`
+                );
+            }
+
+            reservations.push(manager.getRepository(StockReservation).create({
+                orderId: order.id,
+                productId: line.productId,
+                variantId: line.variantId,
+                quantity: line.quantity,
+                status: ReservationStatus.ACTIVE,
+                expiresAt,
+            }));
+        }
+
+        return await manager.getRepository(StockReservation).save(reservations);
+    }
+
+    /**
+     * Marks an order's active reservations as committed once its payment succeeds.
+     * The caller deducts the stock on hand.
+     *
+     * @param orderId {number} - Paid order
+     * @param manager {EntityManager} - Manager of the transaction deducting the stock
+     * @returns {Promise<number>} - Number of reservations committed
+     * @access Internal
+     */
+    async commitForOrder(orderId: number, manager: EntityManager = AppDataSource.manager): Promise<number> {
+        return this.setStatus(orderId, ReservationStatus.COMMITTED, manager);
+    }
+
+    /**
+     * Releases an order's active reservations after a failed or cancelled payment.
+     *
+     * @param orderId {number} - Order whose payment did not complete
+     * @returns {Promise<number>} - Number of reservations released
+     * @access Internal
+     */
+    async releaseForOrder(orderId: number): Promise<number> {
+        return this.setStatus(orderId, ReservationStatus.RELEASED);
+    }
+
+    /**
+     * Marks reservations past their expiry as expired.
+     * Expired reservations already stop counting against stock; this keeps their status accurate.
+     *
+     * @returns {Promise<number>} - Number of reservations expired
+     * @access Internal (Cron job)
+     */
+    async expireReservations(): Promise<number> {
+        const result = await this.reservationRepository.update(
+            { status: ReservationStatus.ACTIVE, expiresAt: LessThanOrEqual(new Date()) },
+            { status: ReservationStatus.EXPIRED },
+        );
+        return result.affected || 0;
+    }
+
+    /**
+     * Quantities held by active, unexpired reservations for the given products.
+     *
+     * @param productIds {number[]} - Products to look up, including their variants
+     * @param manager {EntityManager} - Manager to query with
+     * @returns {Promise<IReservedQuantities>} - Reserved quantities by product and by variant
+     * @access Internal
+     */
+    async getReservedQuantities(productIds: number[], manager: EntityManager = AppDataSource.manager): Promise<IReservedQuantities> {
+        const reserved: IReservedQuantities = { products: new Map(), variants: new Map() };
+        if (!productIds.length) return reserved;
+
+        const rows = await manager.getRepository(StockReservation).createQueryBuilder('reservation')
+            .select('reservation.productId', 'productId')
+            .addSelect('reservation.variantId', 'variantId')
+            .addSelect('SUM(reservation.quantity)', 'quantity')
+            .where('reservation.productId IN (:...productIds)', { productIds })
+            .andWhere('reservation.status = :status', { status: ReservationStatus.ACTIVE })
+            .andWhere('reservation.expiresAt > :now', { now: new Date() })
+            .groupBy('reservation.productId')
+            .addGroupBy('reservation.variantId')
+            .getRawMany();
+
+        for (const row of rows) {
+            if (row.variantId) {
+                reserved.variants.set(String(row.variantId), Number(row.quantity));
+            } else {
+                reserved.products.set(Number(row.productId), Number(row.quantity));
+            }
+        }
+
+        return reserved;
+    }
+
+    /**
+     * Stock a customer can still buy: on hand minus active reservations.
+     *
+     * @param product {Product} - Product being bought
+     * @param variant {Variant} - Selected variant, if any
+     * @returns {Promise<number>} - Available quantity
+     * @access Internal
+     */
+    async getAvailableStock(product: Product, variant?: Variant | null): Promise<number> {
+        const reserved = await this.getReservedQuantities([product.id]);
+        return variant
+            ? Math.max(0, (variant.stock || 0) - (reserved.variants.get(String(variant.id)) || 0))
+            : Math.max(0, (product.stock || 0) - (reserved.products.get(product.id) || 0));
+    }
+
+    /**
+     * Sets `availableStock` on products and their loaded variants for API responses.
+     *
+     * @param products {Product[]} - Products to annotate
+     * @returns {Promise<Product[]>} - The same products
+     * @access Internal
+     */
+    async withAvailableStock(products: Product[]): Promise<Product[]> {
+        const reserved = await this.getReservedQuantities(products.map((product) => product.id));
+
+        for (const product of products) {
+            product.availableStock = Math.max(0, (product.stock || 0) - (reserved.products.get(product.id) || 0));
+            for (const variant of product.variants || []) {
+                variant.availableStock = Math.max(0, (variant.stock || 0) - (reserved.variants.get(String(variant.id)) || 0));
+            }
+        }
+
+        return products;
+    }
+
+    /**
+     * Moves an order's still-active reservations to a final status.
+     *
+     * @access Internal
+     */
+    private async setStatus(orderId: number, status: ReservationStatus, manager?: EntityManager): Promise<number> {
+        const repository = manager ? manager.getRepository(StockReservation) : this.reservationRepository;
+        const result = await repository.update(
+            { orderId, status: ReservationStatus.ACTIVE },
+            { status },
+        );
+        return result.affected || 0;
+    }
+}
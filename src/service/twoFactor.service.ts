@@ -0,0 +1,529 @@
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomInt, randomUUID } from 'crypto';
+import { DataSource, LessThan, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import TestDataSource from '../config/db.test.config';
+import { EMAIL_TEMPLATES, TWO_FACTOR } from '../config/constants';
+import { TwoFactorAuth } from '../entities/twoFactorAuth.entity';
+import { TwoFactorChallenge } from '../entities/twoFactorChallenge.entity';
+import { User, UserRole } from '../entities/user.entity';
+import { Vendor } from '../entities/vendor.entity';
+import { EmailService } from '../services/email/EmailService';
+import { APIError } from '../utils/ApiError.utils';
+import { LoginSession } from '../utils/loginSession.utils';
+import { base32Encode, generateTotpSecret, totpProvisioningUri, verifyTotp } from '../utils/totp.utils';
+import { TwoFactorCodeInput } from '../utils/zod_validations/twoFactor.zod';
+
+/**
+ * User or vendor the two-factor settings belong to
+ */
+export type TwoFactorOwner = { userId: number } | { vendorId: number };
+
+/**
+ * Second step of a login: authenticator app code, recovery code or code sent by email
+ */
+export type TwoFactorMethod = 'totp' | 'recovery' | 'email';
+
+export interface TwoFactorStatus {
+    enabled: boolean;
+    // Admin and staff accounts cannot log in or turn two-factor off without it
+    required: boolean;
+    enabledAt: Date | null;
+    recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorEnrollment {
+    // Base32 secret, for entering in the authenticator app by hand
+    secret: string;
+    // otpauth:// URI to show as a QR code
+    otpauthUri: string;
+}
+
+/**
+ * Returned by a login whose password was correct but needs a second step
+ */
+export interface LoginChallenge {
+    twoFactorRequired: true;
+    challengeToken: string;
+    // The account must set up an authenticator app before its first login completes
+    enrollmentRequired: boolean;
+    methods: TwoFactorMethod[];
+}
+
+export interface CompletedLogin {
+    account: User | Vendor;
+    session: LoginSession;
+    // Issued when the login also completed enrollment; shown once
+    recoveryCodes?: string[];
+}
+
+interface ChallengePayload {
+    sub: number;
+    account: 'user' | 'vendor';
+    session: LoginSession;
+    jti: string;
+    exp: number;
+}
+
+interface ResolvedChallenge {
+    account: User | Vendor;
+    session: LoginSession;
+    jti: string;
+    expiresAt: Date;
+}
+
+// Challenge tokens are signed with their own key so they can never pass as a login token
+const challengeSecret = () =>
+    createHash('sha256').update(`two-factor-challenge:${process.env.JWT_SECRET || 'your_jwt_secret'}`).digest('hex');
+
+const encryptionKey = () =>
+    createHash('sha256').update(process.env.TWO_FACTOR_ENCRYPTION_KEY || `two-factor-secret:${process.env.JWT_SECRET || 'your_jwt_secret'}`).digest();
+
+const hashRecoveryCode = (code: string) =>
+    createHash('sha256').update(code.toUpperCase().replace(/[^A-Z2-7]/g, '')).digest('hex');
+
+/**
+ * Service for TOTP two-factor authentication of admin, staff and vendor accounts.
+ *
+ * - Accounts enroll by adding the secret to an authenticator app and confirming a first code;
+ *   they then get single-use recovery codes for when the app is lost.
+ * - Two-factor is required for admins and staff: they set it up during their next login.
+ *   Vendors can turn it on for themselves.
+ * - At login, the password step returns a short-lived challenge token instead of a session;
+ *   the session is issued once an app code, a recovery code or a code sent by email is verified.
+ *   A challenge token completes a single login.
+ * - Codes are consumed with conditional updates, so concurrent requests cannot use one code twice.
+ * - Repeated wrong codes lock the second step for a while.
+ *
+ * Module: Auth
+ */
+export class TwoFactorService {
+    private dataSource: DataSource;
+    private twoFactorRepository: Repository<TwoFactorAuth>;
+    private challengeRepository: Repository<TwoFactorChallenge>;
+    private userRepository: Repository<User>;
+    private vendorRepository: Repository<Vendor>;
+
+    constructor(dataSource?: DataSource) {
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.twoFactorRepository = this.dataSource.getRepository(TwoFactorAuth);
+        this.challengeRepository = this.dataSource.getRepository(TwoFactorChallenge);
+        this.userRepository = this.dataSource.getRepository(User);
+        this.vendorRepository = this.dataSource.getRepository(Vendor);
+    }
+
+    /**
+     * Whether the account cannot log in without two-factor
+     *
+     * @param account {User | Vendor}
+     * @returns {boolean} True for admins and staff
+     */
+    static isRequired(account: User | Vendor): boolean {
+        return !(account instanceof Vendor) && (account.role === UserRole.ADMIN || account.role === UserRole.STAFF);
+    }
+
+    /**
+     * Two-factor owner of an admin, staff or vendor account
+     *
+     * @param account {User | Vendor} - User or vendor from combinedAuthMiddleware
+     * @returns {TwoFactorOwner}
+     * @throws {APIError} 403 for customers
+     */
+    static ownerOf(account: User | Vendor): TwoFactorOwner {
+        if (account instanceof Vendor) {
+            return { vendorId: account.id };
+        }
+        if (account.role === UserRole.ADMIN || account.role === UserRole.STAFF) {
+            return { userId: account.id };
+        }
+        throw new APIError(403, 'Two-factor authentication is available to admin, staff and vendor accounts');
+    }
+
+    /**
+     * Rejects Google and Facebook logins of accounts that require two-factor, which those logins cannot ask for
+     *
+     * @param user {User} - User logging in
+     * @throws {APIError} 403 for admins and staff
+     */
+    static assertSocialLoginAllowed(user: User): void {
+        if (TwoFactorService.isRequired(user)) {
+            throw new APIError(403, 'Admin and staff accounts must log in with their password and two-factor code');
+        }
+    }
+
+    /**
+     * Two-factor state of an account
+     *
+     * @param account {User | Vendor} - Admin, staff or vendor
+     * @returns {Promise<TwoFactorStatus>}
+     * @access Admin | Staff | Vendor
+     */
+    async getStatus(account: User | Vendor): Promise<TwoFactorStatus> {
+        const twoFactor = await this.findEnabled(TwoFactorService.ownerOf(account));
+
+        return {
+            enabled: !!twoFactor,
+            required: TwoFactorService.isRequired(account),
+            enabledAt: twoFactor?.enabledAt ?? null,
+            recoveryCodesRemaining: twoFactor?.recoveryCodes.length ?? 0,
+        };
+    }
+
+    /**
+     * Generates a new secret for the account to add to its authenticator app.
+     * Two-factor is not on until a code from the app is confirmed; starting again replaces the secret.
+     *
+     * @param account {User | Vendor} - Admin, staff or vendor
+     * @returns {Promise<TwoFactorEnrollment>}
+     * @throws {APIError} 409 if two-factor is already enabled
+     * @access Admin | Staff | Vendor
+     */
+    async startEnrollment(account: User | Vendor): Promise<TwoFactorEnrollment> {
+        const owner = TwoFactorService.ownerOf(account);
+        const existing = await this.twoFactorRepository.findOne({ where: owner });
+
+        if (existing?.enabledAt) {
+            throw new APIError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const secret = generateTotpSecret();
+        await this.twoFactorRepository.save(this.twoFactorRepository.create({
+            ...existing,
+            ...owner,
+            secret: this.encrypt(secret),
+            enabledAt: null,
+            lastUsedStep: null,
+            recoveryCodes: [],
+            failedAttempts: 0,
+            lockedUntil: null,
+        }));
+
+        return { secret, otpauthUri: totpProvisioningUri(TWO_FACTOR.ISSUER, account.email, secret) };
+    }
+
+    /**
+     * Turns two-factor on with the first code from the authenticator app
+     *
+     * @param account {User | Vendor} - Admin, staff or vendor
+     * @param code {string} - 6-digit code from the app
+     * @returns {Promise<string[]>} Recovery codes, shown once
+     * @throws {APIError} 400 if enrollment was not started or the code is wrong, 409 if already enabled
+     * @access Admin | Staff | Vendor
+     */
+    async confirmEnrollment(account: User | Vendor, code: string): Promise<string[]> {
+        const twoFactor = await this.twoFactorRepository.findOne({ where: TwoFactorService.ownerOf(account) });
+
+        if (!twoFactor) {
+            throw new APIError(400, 'Start two-factor enrollment first');
+        }
+        if (twoFactor.enabledAt) {
+            throw new APIError(409, 'Two-factor authentication is already enabled');
+        }
+
+        const step = verifyTotp(this.decrypt(twoFactor.secret), code, TWO_FACTOR.TOTP_WINDOW);
+        if (step === null) {
+            throw new APIError(400, 'Invalid verification code. Check the time on your device and try again.');
+        }
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        twoFactor.enabledAt = new Date();
+        twoFactor.lastUsedStep = step;
+        twoFactor.recoveryCodes = recoveryCodes.map(hashRecoveryCode);
+        await this.twoFactorRepository.save(twoFactor);
+
+        return recoveryCodes;
+    }
+
+    /**
+     * Replaces the account's recovery codes; the old ones stop working
+     *
+     * @param account {User | Vendor} - Admin, staff or vendor
+     * @param input {TwoFactorCodeInput} - Current second factor
+     * @returns {Promise<string[]>} New recovery codes, shown once
+     * @throws {APIError} 400 if two-factor is not enabled, 401 if the code is wrong
+     * @access Admin | Staff | Vendor
+     */
+    async regenerateRecoveryCodes(account: User | Vendor, input: TwoFactorCodeInput): Promise<string[]> {
+        const twoFactor = await this.requireEnabled(TwoFactorService.ownerOf(account));
+        await this.verifySecondFactor(twoFactor, input);
+
+        const recoveryCodes = this.generateRecoveryCodes();
+        await this.twoFactorRepository.update(twoFactor.id, { recoveryCodes: recoveryCodes.map(hashRecoveryCode) });
+        return recoveryCodes;
+    }
+
+    /**
+     * Turns two-factor off
+     *
+     * @param account {User | Vendor} - Vendor
+     * @param input {TwoFactorCodeInput} - Current second factor
+     * @throws {APIError} 403 for admins and staff, 400 if not enabled, 401 if the code is wrong
+     * @access Vendor
+     */
+    async disable(account: User | Vendor, input: TwoFactorCodeInput): Promise<void> {
+        if (TwoFactorService.isRequired(account)) {
+            throw new APIError(403, 'Two-factor authentication is required for admin and staff accounts');
+        }
+        const twoFactor = await this.requireEnabled(TwoFactorService.ownerOf(account));
+        await this.verifySecondFactor(twoFactor, input);
+        await this.twoFactorRepository.delete(twoFactor.id);
+    }
+
+    /**
+     * Removes an account's two-factor, e.g. after losing both the device and the recovery codes.
+     * Admins and staff set it up again at their next login.
+     *
+     * @param owner {TwoFactorOwner} - User or vendor
+     * @throws {APIError} 404 if the account has no two-factor
+     * @access Admin
+     */
+    async reset(owner: TwoFactorOwner): Promise<void> {
+        const result = await this.twoFactorRepository.delete(owner);
+        if (!result.affected) {
+            throw new APIError(404, 'Two-factor authentication is not set up for this account');
+        }
+    }
+
+    /**
+     * Second step of a login whose password was correct
+     *
+     * @param account {User | Vendor} - Account logging in
+     * @param session {LoginSession} - Login endpoint, to issue the same session once verified
+     * @returns {Promise<LoginChallenge | null>} Null when the account logs in with its password only
+     */
+    async createLoginChallenge(account: User | Vendor, session: LoginSession): Promise<LoginChallenge | null> {
+        const required = TwoFactorService.isRequired(account);
+        const enabled = account instanceof Vendor || required
+            ? !!(await this.findEnabled(TwoFactorService.ownerOf(account)))
+            : false;
+
+        if (!enabled && !required) {
+            return null;
+        }
+
+        const payload: Omit<ChallengePayload, 'jti' | 'exp'> = { sub: account.id, account: account instanceof Vendor ? 'vendor' : 'user', session };
+        const challengeToken = jwt.sign(payload, challengeSecret(), { expiresIn: TWO_FACTOR.CHALLENGE_TTL, jwtid: randomUUID() });
+
+        return {
+            twoFactorRequired: true,
+            challengeToken,
+            enrollmentRequired: !enabled,
+            methods: enabled ? ['totp', 'recovery', 'email'] : ['totp'],
+        };
+    }
+
+    /**
+     * Starts enrollment for an admin or staff login that requires two-factor but has none yet
+     *
+     * @param challengeToken {string} - Token from the password step
+     * @returns {Promise<TwoFactorEnrollment>}
+     * @throws {APIError} 401 if the token is invalid or expired, 409 if already enabled
+     */
+    async startLoginEnrollment(challengeToken: string): Promise<TwoFactorEnrollment> {
+        const { account } = await this.resolveChallenge(challengeToken);
+        return this.startEnrollment(account);
+    }
+
+    /**
+     * Emails a one-time login code, for when the authenticator app is not at hand
+     *
+     * @param challengeToken {string} - Token from the password step
+     * @throws {APIError} 401 if the token is invalid, 400 if two-factor is not enabled, 429 if sent too recently or locked
+     */
+    async sendLoginEmailCode(challengeToken: string): Promise<void> {
+        const { account } = await this.resolveChallenge(challengeToken);
+        const twoFactor = await this.requireEnabled(TwoFactorService.ownerOf(account));
+        this.assertNotLocked(twoFactor);
+
+        const resendAt = twoFactor.emailCodeSentAt && twoFactor.emailCodeSentAt.getTime() + TWO_FACTOR.EMAIL_CODE_RESEND_SECONDS * 1000;
+        if (resendAt && resendAt > Date.now()) {
+            throw new APIError(429, `Please wait ${Math.ceil((resendAt - Date.now()) / 1000)} seconds before requesting another code`);
+        }
+
+        const code = randomInt(0, 1000000).toString().padStart(6, '0');
+        await this.twoFactorRepository.update(twoFactor.id, {
+            emailCode: await bcrypt.hash(code, 10),
+            emailCodeExpire: new Date(Date.now() + TWO_FACTOR.EMAIL_CODE_TTL_MINUTES * 60 * 1000),
+            emailCodeSentAt: new Date(),
+        });
+
+        await EmailService.getInstance().send(EMAIL_TEMPLATES.TWO_FACTOR_CODE, account.email, {
+            code,
+            expiresInMinutes: TWO_FACTOR.EMAIL_CODE_TTL_MINUTES,
+        });
+    }
+
+    /**
+     * Verifies the second factor of a login; for an account enrolling during login, confirms its first code
+     *
+     * @param challengeToken {string} - Token from the password step
+     * @param input {TwoFactorCodeInput} - App code, recovery code or emailed code
+     * @returns {Promise<CompletedLogin>} Account and session to issue
+     * @throws {APIError} 401 if the token or code is invalid or the token was already used, 429 if locked
+     */
+    async completeLogin(challengeToken: string, input: TwoFactorCodeInput): Promise<CompletedLogin> {
+        const challenge = await this.resolveChallenge(challengeToken);
+        const { account, session } = challenge;
+        const twoFactor = await this.findEnabled(TwoFactorService.ownerOf(account));
+
+        if (!twoFactor) {
+            if (input.method !== 'totp') {
+                throw new APIError(400, 'Set up your authenticator app to finish logging in');
+            }
+            const recoveryCodes = await this.confirmEnrollment(account, input.code);
+            await this.useChallenge(challenge);
+            return { account, session, recoveryCodes };
+        }
+
+        await this.verifySecondFactor(twoFactor, input);
+        await this.useChallenge(challenge);
+        return { account, session };
+    }
+
+    private async findEnabled(owner: TwoFactorOwner): Promise<TwoFactorAuth | null> {
+        const twoFactor = await this.twoFactorRepository.findOne({ where: owner });
+        return twoFactor?.enabledAt ? twoFactor : null;
+    }
+
+    private async requireEnabled(owner: TwoFactorOwner): Promise<TwoFactorAuth> {
+        const twoFactor = await this.findEnabled(owner);
+        if (!twoFactor) {
+            throw new APIError(400, 'Two-factor authentication is not enabled');
+        }
+        return twoFactor;
+    }
+
+    private async resolveChallenge(challengeToken: string): Promise<ResolvedChallenge> {
+        let payload: ChallengePayload;
+        try {
+            payload = jwt.verify(challengeToken, challengeSecret()) as unknown as ChallengePayload;
+        } catch {
+            throw new APIError(401, 'Login session expired, please log in again');
+        }
+        if (!payload.jti || await this.challengeRepository.existsBy({ jti: payload.jti })) {
+            throw new APIError(401, 'Login session expired, please log in again');
+        }
+
+        const account = payload.account === 'vendor'
+            ? await this.vendorRepository.findOneBy({ id: payload.sub })
+            : await this.userRepository.findOneBy({ id: payload.sub });
+
+        if (!account) {
+            throw new APIError(401, 'Login session expired, please log in again');
+        }
+        return { account, session: payload.session, jti: payload.jti, expiresAt: new Date(payload.exp * 1000) };
+    }
+
+    // Records the challenge as used; only the first of concurrent logins with the same token gets through
+    private async useChallenge(challenge: ResolvedChallenge): Promise<void> {
+        await this.challengeRepository.delete({ expiresAt: LessThan(new Date()) });
+
+        const result = await this.challengeRepository.createQueryBuilder()
+            .insert()
+            .into(TwoFactorChallenge)
+            .values({ jti: challenge.jti, expiresAt: challenge.expiresAt })
+            .orIgnore()
+            .returning('jti')
+            .execute();
+
+        if (!result.raw.length) {
+            throw new APIError(401, 'Login session expired, please log in again');
+        }
+    }
+
+    private assertNotLocked(twoFactor: TwoFactorAuth): void {
+        if (twoFactor.lockedUntil && twoFactor.lockedUntil.getTime() > Date.now()) {
+            const minutes = Math.ceil((twoFactor.lockedUntil.getTime() - Date.now()) / 60000);
+            throw new APIError(429, `Too many invalid codes. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+        }
+    }
+
+    // Checks the code and consumes it; wrong codes count towards the lock
+    private async verifySecondFactor(twoFactor: TwoFactorAuth, input: TwoFactorCodeInput): Promise<void> {
+        this.assertNotLocked(twoFactor);
+        const valid = await this.consumeCode(twoFactor, input);
+
+        if (!valid) {
+            await this.recordFailedAttempt(twoFactor.id);
+            throw new APIError(401, 'Invalid verification code');
+        }
+    }
+
+    /**
+     * Counts a wrong code with an atomic increment, so concurrent guesses cannot overwrite each other's count.
+     * The lock is decided from the stored count; only one of the requests reaching the limit resets it.
+     */
+    private async recordFailedAttempt(twoFactorId: number): Promise<void> {
+        const result = await this.twoFactorRepository.createQueryBuilder()
+            .update(TwoFactorAuth)
+            .set({ failedAttempts: () => '"failedAttempts" + 1' })
+            .where('id = :id', { id: twoFactorId })
+            .returning('"failedAttempts"')
+            .execute();
+
+        const failedAttempts = Number(result.raw[0]?.failedAttempts ?? 0);
+        if (failedAttempts < TWO_FACTOR.MAX_FAILED_ATTEMPTS) return;
+
+        await this.twoFactorRepository.createQueryBuilder()
+            .update(TwoFactorAuth)
+            .set({ failedAttempts: 0, lockedUntil: new Date(Date.now() + TWO_FACTOR.LOCK_MINUTES * 60 * 1000) })
+            .where('id = :id', { id: twoFactorId })
+            .andWhere('"failedAttempts" >= :max', { max: TWO_FACTOR.MAX_FAILED_ATTEMPTS })
+            .execute();
+    }
+
+    /**
+     * Marks a valid code as used with an update conditional on it still being unused.
+     * A code consumed meanwhile by a concurrent request matches no row and counts as invalid.
+     */
+    private async consumeCode(twoFactor: TwoFactorAuth, input: TwoFactorCodeInput): Promise<boolean> {
+        const qb = this.twoFactorRepository.createQueryBuilder()
+            .update(TwoFactorAuth)
+            .where('id = :id', { id: twoFactor.id });
+
+        if (input.method === 'totp') {
+            const step = verifyTotp(this.decrypt(twoFactor.secret), input.code, TWO_FACTOR.TOTP_WINDOW);
+            if (step === null) return false;
+            qb.set({ lastUsedStep: step, failedAttempts: 0, lockedUntil: null })
+                .andWhere('("lastUsedStep" IS NULL OR "lastUsedStep" < :step)', { step });
+        } else if (input.method === 'recovery') {
+            const hash = hashRecoveryCode(input.code);
+            if (!twoFactor.recoveryCodes.includes(hash)) return false;
+            qb.set({ recoveryCodes: () => '"recoveryCodes" - CAST(:hash AS text)', failedAttempts: 0, lockedUntil: null })
+                .andWhere('"recoveryCodes" ? :hash', { hash });
+        } else {
+            const valid = !!twoFactor.emailCode && !!twoFactor.emailCodeExpire && twoFactor.emailCodeExpire.getTime() > Date.now()
+                && await bcrypt.compare(input.code, twoFactor.emailCode);
+            if (!valid) return false;
+            qb.set({ emailCode: null, emailCodeExpire: null, failedAttempts: 0, lockedUntil: null })
+                .andWhere('"emailCode" = :emailCode', { emailCode: twoFactor.emailCode });
+        }
+
+        const result = await qb.execute();
+        return !!result.affected;
+    }
+
+    // XXXXX-XXXXX, from the base32 alphabet so codes have no ambiguous 0/O or 1/I
+    private generateRecoveryCodes(): string[] {
+        return Array.from({ length: TWO_FACTOR.RECOVERY_CODE_COUNT }, () => {
+            const code = base32Encode(randomBytes(7)).slice(0, 10);
+            return `${code.slice(0, 5)}-${code.slice(5)}`;
+        });
+    }
+
+    // AES-256-GCM, stored as iv:tag:ciphertext in hex
+    private encrypt(secret: string): string {
+        const iv = randomBytes(12);
+        const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+        const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+        return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString('hex')).join(':');
+    }
+
+    private decrypt(stored: string): string {
+        const [iv, tag, encrypted] = stored.split(':').map((part) => Buffer.from(part, 'hex'));
+        const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+    }
+}
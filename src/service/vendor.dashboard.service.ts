@@ -1,7 +1,8 @@
 import { DataSource, Repository } from "typeorm";
 import AppDataSource from "../config/db.config";
 import TestDataSource from "../config/db.test.config";
-import { OrderItem, OrderStatus } from "../entities/orderItems.entity";
+import { OrderItem } from "../entities/orderItems.entity";
+import { VendorOrder, VendorOrderStatus } from "../entities/vendorOrder.entity";
 import { Product } from "../entities/product.entity";
 import { Order } from "../entities/order.entity";
 import config from "../config/env.config";
@@ -25,12 +26,12 @@ export class VendorDashBoardService {
      * - total products by the vendor
      * - total order items associated with the vendor
      * - total sales value (price * quantity)
-     * - count of pending orders (status = PENDING)
+     * - count of pending orders (vendor's own sub-order status = PENDING)
      *
      * Note:
      * - totalProducts & totalOrders: simple counts via repo.count()
      * - totalSales: uses raw SQL SUM() on price * quantity for accuracy
-     * - totalPendingOrders: joins Order entity to filter by order status
+     * - totalPendingOrders: joins the vendor's sub-order so other vendors' progress is ignored
      */
     async getStats(vendorId: number) {
         // Count products linked to vendorId
@@ -55,12 +56,12 @@ export class VendorDashBoardService {
 
         const totalSales = Number(totalSalesRaw.totalSales) || 0;
 
-        // Count pending orders by joining order entity and filtering status
+        // Count pending orders by joining the vendor's sub-order and filtering its status
         const totalPendingOrders = await this.orderItemRepository
             .createQueryBuilder('orderItem')
-            .leftJoin('orderItem.order', 'order')
+            .leftJoin('orderItem.vendorOrder', 'vendorOrder')
             .where('orderItem.vendorId = :vendorId', { vendorId })
-            .andWhere('order.status = :status', { status: OrderStatus.PENDING })
+            .andWhere('vendorOrder.status = :status', { status: VendorOrderStatus.PENDING })
             .getCount();
 
         // Return all stats in one object
@@ -78,7 +79,8 @@ export class VendorDashBoardService {
      * - Quantity ordered
      * - Price per unit
      * - Total for order item (price * quantity)
-     * - Order status (pending, shipped, etc.)
+     * - Order status of the vendor's own sub-order (pending, shipped, etc.)
+     * - Tracking number of the vendor's shipment
      * - Order date/time
      *
      * Notes:
@@ -91,12 +93,15 @@ export class VendorDashBoardService {
             .createQueryBuilder('orderItem')
             .leftJoin('orderItem.product', 'product')
             .leftJoin('orderItem.order', 'order')
+            .leftJoin('orderItem.vendorOrder', 'vendorOrder')
             .select([
+                'order.id AS "orderId"',
                 'product.name AS "productName"',
                 'orderItem.quantity AS "quantity"',
                 'orderItem.price AS "price"',
                 '(orderItem.price * orderItem.quantity) AS "total"',
-                'order.status AS "orderStatus"',
+                'vendorOrder.status AS "orderStatus"',
+                'vendorOrder.trackingNumber AS "trackingNumber"',
                 'order.createdAt AS "orderedAt"',
             ])
             .where('orderItem.vendorId = :vendorId', { vendorId })
@@ -105,11 +110,13 @@ export class VendorDashBoardService {
 
         // Convert raw data strings to numbers and return neat objects
         return orderItems.map(item => ({
+            orderId: item.orderId,
             productName: item.productName,
             quantity: Number(item.quantity),
             price: Number(item.price),
             total: Number(item.total),
             orderStatus: item.orderStatus,
+            trackingNumber: item.trackingNumber,
             orderedAt: item.orderedAt,
         }));
     }
@@ -118,10 +125,11 @@ export class VendorDashBoardService {
         const query = this.dataSource.getRepository(OrderItem)
             .createQueryBuilder("oi")
             .innerJoin(Order, "o", "o.id = oi.orderId")
+            .innerJoin(VendorOrder, "vo", "vo.id = oi.vendorOrderId")
             .select("COALESCE(SUM(oi.price), 0)", "totalSales")
             .where("oi.vendorId = :vendorId", { vendorId })
-            .andWhere("o.status IN (:...statuses)", {
-                statuses: [OrderStatus.DELIVERED, OrderStatus.CONFIRMED],
+            .andWhere("vo.status IN (:...statuses)", {
+                statuses: [VendorOrderStatus.DELIVERED, VendorOrderStatus.CONFIRMED],
             });
 
         if (startDate && endDate) {
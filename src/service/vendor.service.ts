@@ -7,6 +7,8 @@ import { Address } from '../entities/address.entity';
 import { APIError } from '../utils/ApiError.utils';
 import { DistrictService } from './district.service';
 import { District } from '../entities/district.entity';
+import { VendorKycService } from './vendorKyc.service';
+import { VendorStatus } from '../entities/vendorKyc.enum';
 
 /**
  * Service for managing vendor-related operations such as
@@ -17,6 +19,7 @@ export class VendorService {
     private readonly vendorRepository: Repository<Vendor>;
     private addressRepository: Repository<Address>;
     private districtService: DistrictService;
+    private vendorKycService: VendorKycService;
     private dataSource: DataSource;
 
     /**
@@ -34,6 +37,7 @@ export class VendorService {
         this.vendorRepository = this.dataSource.getRepository(Vendor);
         this.addressRepository = this.dataSource.getRepository(Address);
         this.districtService = new DistrictService(this.dataSource);
+        this.vendorKycService = new VendorKycService(this.dataSource);
     }
 
     /**
@@ -64,7 +68,9 @@ export class VendorService {
         return await this.vendorRepository.find({
             where: {
                 isApproved: false,
-                isVerified: true
+                isVerified: true,
+                // Suspended vendors are not awaiting approval
+                status: VendorStatus.PENDING
             }
         })
     }
@@ -144,6 +150,8 @@ export class VendorService {
             });
 
             const savedVendor = await this.vendorRepository.save(vendor);
+            // Uploaded documents wait in the KYC review queue
+            await this.vendorKycService.submitDocuments(savedVendor.id, VendorKycService.changedDocumentTypes(savedVendor));
             console.log('✅ CreateVendor: Vendor created successfully with id:', savedVendor.id);
             return savedVendor;
         } catch (error) {
@@ -241,17 +249,10 @@ export class VendorService {
         }
         const updateDistrict = this.vendorRepository.update(id, updateFinalData)
 
-        return this.vendorRepository.findOne({ where: { id } })
-    }
-
+        // Replaced documents go back to the KYC review queue
+        await this.vendorKycService.submitDocuments(id, VendorKycService.changedDocumentTypes(updateData))
 
-    async approveVendor(id: number) {
-        return await this.vendorRepository.update(
-            { id },
-            {
-                isApproved: true
-            }
-        )
+        return this.vendorRepository.findOne({ where: { id } })
     }
 
     async deleteVendor(id: number) {
@@ -0,0 +1,420 @@
+import crypto from 'crypto';
+import { DataSource, EntityManager, MoreThan, Repository } from 'typeorm';
+import AppDataSource from '../config/db.config';
+import TestDataSource from '../config/db.test.config';
+import { VENDOR_KYC } from '../config/constants';
+import { Vendor } from '../entities/vendor.entity';
+import { VendorKycDocument } from '../entities/vendorKycDocument.entity';
+import { VendorKycAudit } from '../entities/vendorKycAudit.entity';
+import { KycAuditAction, KycDocumentStatus, KycDocumentType, VendorStatus } from '../entities/vendorKyc.enum';
+import { APIError } from '../utils/ApiError.utils';
+import { CacheService } from '../services/cache/CacheService';
+import { sendKycDocumentsRejectedEmail, sendVendorApprovedEmail, sendVendorSuspensionEmail } from '../utils/nodemailer.utils';
+import {
+    KycQueueQueryInput,
+    ReinstateVendorInput,
+    ResubmitKycDocumentsInput,
+    ReviewKycDocumentInput,
+} from '../utils/zod_validations/vendorKyc.zod';
+
+// Vendor column holding the files of each document type
+const DOCUMENT_FIELDS: Record<KycDocumentType, 'taxDocuments' | 'citizenshipDocuments' | 'chequePhoto'> = {
+    [KycDocumentType.TAX]: 'taxDocuments',
+    [KycDocumentType.CITIZENSHIP]: 'citizenshipDocuments',
+    [KycDocumentType.CHEQUE]: 'chequePhoto',
+};
+
+const DOCUMENT_LABELS: Record<KycDocumentType, string> = {
+    [KycDocumentType.TAX]: 'Tax documents',
+    [KycDocumentType.CITIZENSHIP]: 'Citizenship documents',
+    [KycDocumentType.CHEQUE]: 'Cheque photo',
+};
+
+// Signup requires these; citizenship documents are optional
+const REQUIRED_DOCUMENTS = [KycDocumentType.TAX, KycDocumentType.CHEQUE];
+
+/**
+ * Service for reviewing vendor KYC documents and managing the vendor account lifecycle.
+ *
+ * Each uploaded document type is reviewed separately. A rejection emails the vendor a link to
+ * re-upload that document; a vendor can only be approved once all their documents are approved.
+ * Approved vendors can be suspended, which hides their products from the store, and reinstated.
+ * Every decision is recorded in the KYC audit trail.
+ *
+ * Module: Vendor KYC
+ */
+export class VendorKycService {
+    private dataSource: DataSource;
+    private vendorRepository: Repository<Vendor>;
+    private documentRepository: Repository<VendorKycDocument>;
+    private auditRepository: Repository<VendorKycAudit>;
+    private cacheService: CacheService;
+
+    constructor(dataSource?: DataSource) {
+        this.dataSource = dataSource || (process.env.NODE_ENV === 'test' ? TestDataSource : AppDataSource);
+        this.vendorRepository = this.dataSource.getRepository(Vendor);
+        this.documentRepository = this.dataSource.getRepository(VendorKycDocument);
+        this.auditRepository = this.dataSource.getRepository(VendorKycAudit);
+        this.cacheService = new CacheService();
+    }
+
+    /**
+     * Document types a vendor update touches, for sending them back to review.
+     *
+     * @param data {Partial<Vendor>} - Vendor fields being saved
+     * @returns {KycDocumentType[]} - Types whose files are included
+     */
+    static changedDocumentTypes(data: Partial<Pick<Vendor, 'taxDocuments' | 'citizenshipDocuments' | 'chequePhoto'>>): KycDocumentType[] {
+        return Object.values(KycDocumentType).filter((type) => {
+            const files = data[DOCUMENT_FIELDS[type]];
+            return Array.isArray(files) ? files.length > 0 : !!files;
+        });
+    }
+
+    /**
+     * Queues documents for review after the vendor uploaded them, at signup or later.
+     * A document that was already reviewed goes back to PENDING.
+     *
+     * @param vendorId {number} - Vendor who uploaded the documents
+     * @param types {KycDocumentType[]} - Uploaded document types
+     * @param manager {EntityManager} - Transaction to run in, if any
+     * @access Vendor
+     */
+    async submitDocuments(vendorId: number, types: KycDocumentType[], manager?: EntityManager): Promise<void> {
+        if (types.length === 0) return;
+        const em = manager ?? this.dataSource.manager;
+
+        await em.getRepository(VendorKycDocument).upsert(
+            types.map((type) => ({
+                vendorId,
+                type,
+                status: KycDocumentStatus.PENDING,
+                reviewerNote: null,
+                rejectionReason: null,
+                reviewedById: null,
+                reviewedAt: null,
+                submittedAt: new Date(),
+            })),
+            ['vendorId', 'type'],
+        );
+        await em.getRepository(VendorKycAudit).insert(
+            types.map((type) => ({ vendorId, action: KycAuditAction.DOCUMENT_SUBMITTED, documentType: type })),
+        );
+    }
+
+    /**
+     * Lists documents waiting for review from verified vendors, oldest submission first.
+     *
+     * @param query {KycQueueQueryInput} - Pagination
+     * @returns Paginated pending documents with their vendor
+     * @access Admin | Staff
+     */
+    async getReviewQueue(query: KycQueueQueryInput) {
+        const { page, limit } = query;
+
+        const [documents, total] = await this.documentRepository.createQueryBuilder('document')
+            .innerJoin('document.vendor', 'vendor')
+            .addSelect(['vendor.id', 'vendor.businessName', 'vendor.email', 'vendor.status', 'vendor.createdAt'])
+            .where('document.status = :status', { status: KycDocumentStatus.PENDING })
+            .andWhere('vendor.isVerified = true')
+            .orderBy('document.submittedAt', 'ASC')
+            .skip((page - 1) * limit)
+            .take(limit)
+            .getManyAndCount();
+
+        return { documents, total, page, limit, totalPages: Math.ceil(total / limit) };
+    }
+
+    /**
+     * Gets a vendor's KYC file: their documents with review status and the audit trail.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @returns Vendor details, one entry per document type with its files, and the audit trail, newest first
+     * @throws {APIError} 404 if the vendor does not exist
+     * @access Admin | Staff
+     */
+    async getVendorKyc(vendorId: number) {
+        const vendor = await this.vendorRepository.findOne({
+            where: { id: vendorId },
+            select: [
+                'id', 'businessName', 'email', 'phoneNumber', 'businessRegNumber', 'taxNumber',
+                'taxDocuments', 'citizenshipDocuments', 'chequePhoto',
+                'isVerified', 'isApproved', 'status', 'suspensionReason', 'suspendedAt', 'createdAt',
+            ],
+        });
+        if (!vendor) {
+            throw new APIError(404, 'Vendor not found');
+        }
+
+        const [reviews, audit] = await Promise.all([
+            this.documentRepository.createQueryBuilder('document')
+                .leftJoin('document.reviewedBy', 'reviewedBy')
+                .addSelect(['reviewedBy.id', 'reviewedBy.fullName', 'reviewedBy.email'])
+                .where('document.vendorId = :vendorId', { vendorId })
+                .getMany(),
+            this.auditRepository.createQueryBuilder('audit')
+                .leftJoin('audit.actor', 'actor')
+                .addSelect(['actor.id', 'actor.fullName', 'actor.email'])
+                .where('audit.vendorId = :vendorId', { vendorId })
+                .orderBy('audit.createdAt', 'DESC')
+                .addOrderBy('audit.id', 'DESC')
+                .getMany(),
+        ]);
+
+        const documents = Object.values(KycDocumentType).map((type) => {
+            const files = vendor[DOCUMENT_FIELDS[type]];
+            return {
+                type,
+                files: Array.isArray(files) ? files : files ? [files] : [],
+                review: reviews.find((review) => review.type === type) ?? null,
+            };
+        });
+
+        return { vendor, documents, audit };
+    }
+
+    /**
+     * Approves or rejects one pending document. A rejection emails the vendor the reason
+     * and a link to re-upload, valid for VENDOR_KYC.RESUBMIT_TOKEN_EXPIRY.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param type {KycDocumentType} - Document type
+     * @param reviewerId {number} - Admin or staff reviewing
+     * @param input {ReviewKycDocumentInput} - Decision, internal note and rejection reason
+     * @returns {Promise<VendorKycDocument>} - The reviewed document
+     * @throws {APIError} 404 if the vendor has not submitted this document, 400 if it is not pending
+     * @access Admin | Staff
+     */
+    async reviewDocument(vendorId: number, type: KycDocumentType, reviewerId: number, input: ReviewKycDocumentInput): Promise<VendorKycDocument> {
+        const document = await this.documentRepository.findOne({ where: { vendorId, type } });
+        if (!document) {
+            throw new APIError(404, `${DOCUMENT_LABELS[type]} have not been submitted`);
+        }
+        if (document.status !== KycDocumentStatus.PENDING) {
+            throw new APIError(400, `${DOCUMENT_LABELS[type]} have already been reviewed`);
+        }
+
+        const rejected = input.status === KycDocumentStatus.REJECTED;
+        document.status = input.status;
+        document.reviewerNote = input.reviewerNote ?? null;
+        document.rejectionReason = rejected ? input.rejectionReason : null;
+        document.reviewedById = reviewerId;
+        document.reviewedAt = new Date();
+
+        let resubmitToken: string | null = null;
+        await this.dataSource.transaction(async (manager) => {
+            await manager.save(document);
+            await manager.insert(VendorKycAudit, {
+                vendorId,
+                action: rejected ? KycAuditAction.DOCUMENT_REJECTED : KycAuditAction.DOCUMENT_APPROVED,
+                documentType: type,
+                note: rejected ? input.rejectionReason : input.reviewerNote ?? null,
+                actorId: reviewerId,
+            });
+
+            if (rejected) {
+                resubmitToken = crypto.randomBytes(32).toString('hex');
+                await manager.update(Vendor, vendorId, {
+                    kycResubmitToken: this.hashToken(resubmitToken),
+                    kycResubmitTokenExpire: new Date(Date.now() + VENDOR_KYC.RESUBMIT_TOKEN_EXPIRY),
+                });
+            }
+        });
+
+        if (resubmitToken) {
+            // Lists every document still rejected, as the new token replaces any earlier link
+            const [vendor, rejections] = await Promise.all([
+                this.getVendorOrFail(vendorId),
+                this.documentRepository.find({ where: { vendorId, status: KycDocumentStatus.REJECTED } }),
+            ]);
+            try {
+                await sendKycDocumentsRejectedEmail(
+                    vendor.email,
+                    vendor.businessName,
+                    rejections.map((rejection) => ({ document: DOCUMENT_LABELS[rejection.type], reason: rejection.rejectionReason ?? '' })),
+                    `${VENDOR_KYC.RESUBMIT_URL}?token=${resubmitToken}`,
+                );
+            } catch (error) {
+                console.error('Failed to send KYC rejection email:', error);
+            }
+        }
+
+        return document;
+    }
+
+    /**
+     * Re-uploads rejected documents with the token from the rejection email; vendors
+     * cannot log in before approval. The documents go back to the review queue.
+     *
+     * @param input {ResubmitKycDocumentsInput} - Token and the new files
+     * @returns The vendor's document reviews
+     * @throws {APIError} 410 if the token is invalid or expired, 400 if a document was not rejected
+     * @access Public
+     */
+    async resubmitDocuments(input: ResubmitKycDocumentsInput) {
+        const { token, ...files } = input;
+        const vendor = await this.vendorRepository.findOne({
+            where: { kycResubmitToken: this.hashToken(token), kycResubmitTokenExpire: MoreThan(new Date()) },
+        });
+        if (!vendor) {
+            throw new APIError(410, 'Resubmission link is no longer valid');
+        }
+
+        const types = VendorKycService.changedDocumentTypes(files);
+        const rejected = await this.documentRepository.find({
+            where: { vendorId: vendor.id, status: KycDocumentStatus.REJECTED },
+        });
+        const notRejected = types.filter((type) => !rejected.some((document) => document.type === type));
+        if (notRejected.length > 0) {
+            throw new APIError(400, `Only rejected documents can be re-uploaded: ${notRejected.map((type) => DOCUMENT_LABELS[type]).join(', ')}`);
+        }
+
+        await this.dataSource.transaction(async (manager) => {
+            const stillRejected = rejected.length > types.length;
+            await manager.update(Vendor, vendor.id, {
+                ...files,
+                // The link stays valid while other rejected documents are outstanding
+                ...(stillRejected ? {} : { kycResubmitToken: null, kycResubmitTokenExpire: null }),
+            });
+            await this.submitDocuments(vendor.id, types, manager);
+        });
+
+        return this.documentRepository.find({
+            where: { vendorId: vendor.id },
+            select: ['id', 'type', 'status', 'rejectionReason', 'submittedAt', 'reviewedAt'],
+        });
+    }
+
+    /**
+     * Approves a vendor whose documents have all been approved, letting them log in.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param actorId {number} - Admin or staff approving
+     * @returns {Promise<Vendor>} - The approved vendor
+     * @throws {APIError} 404 if not found; 400 if unverified, not pending, or documents are missing or not approved
+     * @access Admin | Staff
+     */
+    async approveVendor(vendorId: number, actorId: number): Promise<Vendor> {
+        const vendor = await this.getVendorOrFail(vendorId);
+        if (!vendor.isVerified) {
+            throw new APIError(400, 'Vendor must be verified');
+        }
+        if (vendor.status === VendorStatus.APPROVED) {
+            throw new APIError(400, 'Vendor is already approved');
+        }
+        if (vendor.status === VendorStatus.SUSPENDED) {
+            throw new APIError(400, 'Vendor is suspended; reinstate them instead');
+        }
+
+        const documents = await this.documentRepository.find({ where: { vendorId } });
+        const missing = REQUIRED_DOCUMENTS.filter((type) => !documents.some((document) => document.type === type));
+        if (missing.length > 0) {
+            throw new APIError(400, `Documents not submitted: ${missing.map((type) => DOCUMENT_LABELS[type]).join(', ')}`);
+        }
+        const unapproved = documents.filter((document) => document.status !== KycDocumentStatus.APPROVED);
+        if (unapproved.length > 0) {
+            throw new APIError(400, `Documents not approved yet: ${unapproved.map((document) => DOCUMENT_LABELS[document.type]).join(', ')}`);
+        }
+
+        await this.setStatus(vendor, VendorStatus.APPROVED, KycAuditAction.VENDOR_APPROVED, actorId, null);
+        try {
+            await sendVendorApprovedEmail(vendor.email);
+        } catch (error) {
+            console.error('Failed to send vendor approval email:', error);
+        }
+        return vendor;
+    }
+
+    /**
+     * Suspends an approved vendor: they can no longer log in and their products are hidden.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param actorId {number} - Admin suspending
+     * @param reason {string} - Reason, emailed to the vendor
+     * @returns {Promise<Vendor>} - The suspended vendor
+     * @throws {APIError} 404 if not found, 400 if the vendor is not approved
+     * @access Admin
+     */
+    async suspendVendor(vendorId: number, actorId: number, reason: string): Promise<Vendor> {
+        const vendor = await this.getVendorOrFail(vendorId);
+        if (vendor.status !== VendorStatus.APPROVED) {
+            throw new APIError(400, 'Only approved vendors can be suspended');
+        }
+
+        await this.setStatus(vendor, VendorStatus.SUSPENDED, KycAuditAction.VENDOR_SUSPENDED, actorId, reason);
+        await this.notifyStatusChange(vendor, true);
+        return vendor;
+    }
+
+    /**
+     * Reinstates a suspended vendor and brings their products back.
+     *
+     * @param vendorId {number} - Vendor ID
+     * @param actorId {number} - Admin reinstating
+     * @param input {ReinstateVendorInput} - Optional note for the audit trail
+     * @returns {Promise<Vendor>} - The reinstated vendor
+     * @throws {APIError} 404 if not found, 400 if the vendor is not suspended
+     * @access Admin
+     */
+    async reinstateVendor(vendorId: number, actorId: number, input: ReinstateVendorInput): Promise<Vendor> {
+        const vendor = await this.getVendorOrFail(vendorId);
+        if (vendor.status !== VendorStatus.SUSPENDED) {
+            throw new APIError(400, 'Vendor is not suspended');
+        }
+
+        await this.setStatus(vendor, VendorStatus.APPROVED, KycAuditAction.VENDOR_REINSTATED, actorId, input.note ?? null);
+        await this.notifyStatusChange(vendor, false);
+        return vendor;
+    }
+
+    private async getVendorOrFail(vendorId: number): Promise<Vendor> {
+        const vendor = await this.vendorRepository.findOne({ where: { id: vendorId } });
+        if (!vendor) {
+            throw new APIError(404, 'Vendor not found');
+        }
+        return vendor;
+    }
+
+    private async setStatus(vendor: Vendor, status: VendorStatus, action: KycAuditAction, actorId: number, note: string | null): Promise<void> {
+        const suspended = status === VendorStatus.SUSPENDED;
+        const wasSuspended = vendor.status === VendorStatus.SUSPENDED;
+        Object.assign(vendor, {
+            status,
+            isApproved: status === VendorStatus.APPROVED,
+            suspensionReason: suspended ? note : null,
+            suspendedAt: suspended ? new Date() : null,
+            kycResubmitToken: null,
+            kycResubmitTokenExpire: null,
+        });
+
+        await this.dataSource.transaction(async (manager) => {
+            await manager.update(Vendor, vendor.id, {
+                status: vendor.status,
+                isApproved: vendor.isApproved,
+                suspensionReason: vendor.suspensionReason,
+                suspendedAt: vendor.suspendedAt,
+                kycResubmitToken: null,
+                kycResubmitTokenExpire: null,
+            });
+            await manager.insert(VendorKycAudit, { vendorId: vendor.id, action, note, actorId });
+        });
+
+        // Product pages and listings are cached with the vendor's products in them
+        if (suspended || wasSuspended) {
+            await this.cacheService.invalidatePattern('product:*');
+            await this.cacheService.invalidatePattern('products:list:*');
+        }
+    }
+
+    private async notifyStatusChange(vendor: Vendor, suspended: boolean): Promise<void> {
+        try {
+            await sendVendorSuspensionEmail(vendor.email, vendor.businessName, suspended, vendor.suspensionReason);
+        } catch (error) {
+            console.error('Failed to send vendor suspension email:', error);
+        }
+    }
+
+    private hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
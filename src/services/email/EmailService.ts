@@ -0,0 +1,210 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../../config/db.config';
+import logger from '../../config/logger.config';
+import { EMAIL_DELIVERY } from '../../config/constants';
+import { MAIL_FROM, transporter } from '../../config/mailer.config';
+import { EmailLog, EmailStatus } from '../../entities/emailLog.entity';
+import { IInvoiceAttachment } from '../../interface/invoice.interface';
+import { APIError } from '../../utils/ApiError.utils';
+import { QueueService } from '../queue/QueueService';
+import {
+  assertVariables,
+  EMAIL_TEMPLATE_REGISTRY,
+  EmailTemplateName,
+  EmailVariables,
+  maskSensitiveVariables,
+  pickSensitiveVariables,
+  renderEmailTemplate,
+  renderText,
+  sensitiveVariablesOf,
+} from './EmailTemplates';
+
+export interface SendEmailOptions {
+  // Overrides the template's default subject, may use variables
+  subject?: string;
+  attachments?: IInvoiceAttachment[];
+}
+
+/**
+ * EmailService sends templated emails through a persisted outbox
+ *
+ * - Every email is logged with its template version and variables before it is queued
+ * - Sensitive variables (one-time tokens and codes) are logged masked and travel with the delivery job only
+ * - Delivery runs on the Bull email queue, retried with exponential backoff
+ * - Without Redis (or while the queue is down), delivery runs in-process with the same retries
+ * - Logged emails can be resent; the resend renders the same template version again.
+ *   Emails with sensitive variables cannot be resent: their flow issues a new token instead
+ *
+ * A single instance is shared by the whole process, as it owns the queue.
+ */
+export class EmailService {
+  private static instance: EmailService | null = null;
+
+  private queueService: QueueService | null = null;
+  private emailLogRepo: Repository<EmailLog>;
+
+  constructor() {
+    this.emailLogRepo = AppDataSource.getRepository(EmailLog);
+  }
+
+  static getInstance(): EmailService {
+    if (!EmailService.instance) {
+      EmailService.instance = new EmailService();
+    }
+    return EmailService.instance;
+  }
+
+  /**
+   * Starts the email queue and its worker; until then, emails are delivered in-process
+   */
+  start(): void {
+    this.queueService = QueueService.getInstance();
+  }
+
+  /**
+   * Logs an email and queues it for delivery
+   *
+   * Resolves once the email is logged, before it is sent; delivery failures are recorded on the log.
+   *
+   * @param template - Template name
+   * @param to - Recipient address
+   * @param variables - Template variables
+   * @param options - Subject override and attachments
+   * @returns The email log entry
+   * @throws Error if a variable required by the template is missing
+   */
+  async send(template: EmailTemplateName, to: string, variables: EmailVariables, options: SendEmailOptions = {}): Promise<EmailLog> {
+    assertVariables(template, variables);
+    const definition = EMAIL_TEMPLATE_REGISTRY[template];
+
+    const emailLog = await this.emailLogRepo.save(this.emailLogRepo.create({
+      template,
+      templateVersion: definition.version,
+      to,
+      subject: renderText(options.subject ?? definition.subject, variables),
+      variables: maskSensitiveVariables(template, variables),
+      attachments: options.attachments?.length ? options.attachments : null,
+    }));
+
+    await this.enqueue(emailLog, pickSensitiveVariables(template, variables));
+    return emailLog;
+  }
+
+  /**
+   * Sends a logged email again as a new log entry, linked to the original
+   *
+   * @param emailLogId - Email to resend
+   * @param resentById - Admin resending it
+   * @returns The new email log entry
+   * @throws APIError 404 if the email does not exist, 400 if it carries a one-time token or code
+   */
+  async resend(emailLogId: number, resentById: number): Promise<EmailLog> {
+    const original = await this.emailLogRepo.findOneBy({ id: emailLogId });
+    if (!original) {
+      throw new APIError(404, 'Email not found');
+    }
+    // The log only holds the masked token; the user has to request a new one
+    if (sensitiveVariablesOf(original.template).length) {
+      throw new APIError(400, 'This email carries a one-time token or code and cannot be resent; ask the user to request a new one');
+    }
+
+    const { template, templateVersion, to, subject, variables, attachments } = original;
+    const emailLog = await this.emailLogRepo.save(this.emailLogRepo.create({
+      template,
+      templateVersion,
+      to,
+      subject,
+      variables,
+      attachments,
+      resentFromId: original.id,
+      resentById,
+    }));
+
+    await this.enqueue(emailLog);
+    return emailLog;
+  }
+
+  /**
+   * Renders and sends one logged email, recording the attempt
+   *
+   * Called by the email queue worker; throws on failure so the job is retried.
+   *
+   * @param emailLogId - Email to send
+   * @param attempt - Attempt number, starting at 1; the email is marked FAILED after the last one
+   * @param sensitiveVariables - Unmasked values of the template's sensitive variables
+   */
+  async deliver(emailLogId: number, attempt: number, sensitiveVariables: EmailVariables = {}): Promise<void> {
+    const emailLog = await this.emailLogRepo.findOneBy({ id: emailLogId });
+    if (!emailLog) {
+      logger.warn(`Email ${emailLogId} not found, nothing to deliver`);
+      return;
+    }
+    // A job retried after timing out may find its email already sent
+    if (emailLog.status === EmailStatus.SENT) return;
+
+    try {
+      const missing = sensitiveVariablesOf(emailLog.template).filter((name) => !(name in sensitiveVariables));
+      if (missing.length) {
+        throw new Error(`Sensitive variables of email ${emailLog.id} are no longer available: ${missing.join(', ')}`);
+      }
+
+      const variables = { ...emailLog.variables, ...sensitiveVariables };
+      const { html } = renderEmailTemplate(emailLog.template as EmailTemplateName, variables, emailLog.templateVersion);
+
+      await transporter.sendMail({
+        from: MAIL_FROM,
+        to: emailLog.to,
+        subject: emailLog.subject,
+        html,
+        attachments: emailLog.attachments ?? [],
+      });
+
+      await this.emailLogRepo.update(emailLog.id, {
+        status: EmailStatus.SENT,
+        attempts: attempt,
+        sentAt: new Date(),
+        lastError: null,
+      });
+    } catch (error) {
+      await this.emailLogRepo.update(emailLog.id, {
+        status: attempt >= EMAIL_DELIVERY.ATTEMPTS ? EmailStatus.FAILED : EmailStatus.QUEUED,
+        attempts: attempt,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Closes the email queue
+   */
+  async stop(): Promise<void> {
+    await this.queueService?.close();
+    this.queueService = null;
+  }
+
+  private async enqueue(emailLog: EmailLog, sensitiveVariables: EmailVariables = {}): Promise<void> {
+    try {
+      if (await this.queueService?.addEmailJob({ emailLogId: emailLog.id, sensitiveVariables })) return;
+    } catch (error) {
+      logger.error(`Failed to queue email ${emailLog.id}, delivering in-process:`, error);
+    }
+
+    // Not awaited: the caller does not wait for delivery, as with the queue
+    void this.deliverInProcess(emailLog.id, sensitiveVariables);
+  }
+
+  private async deliverInProcess(emailLogId: number, sensitiveVariables: EmailVariables): Promise<void> {
+    for (let attempt = 1; attempt <= EMAIL_DELIVERY.ATTEMPTS; attempt++) {
+      try {
+        await this.deliver(emailLogId, attempt, sensitiveVariables);
+        return;
+      } catch (error) {
+        logger.error(`Email ${emailLogId} attempt ${attempt} failed:`, error);
+        if (attempt < EMAIL_DELIVERY.ATTEMPTS) {
+          await new Promise((resolve) => setTimeout(resolve, EMAIL_DELIVERY.BACKOFF_DELAY * 2 ** (attempt - 1)));
+        }
+      }
+    }
+  }
+}
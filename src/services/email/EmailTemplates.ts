@@ -0,0 +1,261 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { EMAIL_TEMPLATES } from '../../config/constants';
+
+export type EmailTemplateName = (typeof EMAIL_TEMPLATES)[keyof typeof EMAIL_TEMPLATES];
+
+export type EmailVariables = Record<string, unknown>;
+
+export interface EmailTemplateDefinition {
+  // Version new emails are sent with; older versions stay on disk for resending logged emails
+  version: number;
+  // Default subject, may use variables
+  subject: string;
+  // Variables the template cannot render without
+  variables: string[];
+  // One-time tokens and codes: never stored in the email log, and the email cannot be resent
+  sensitive?: string[];
+}
+
+/**
+ * Current version, subject and variables of every email template
+ *
+ * To change a template, add v<version + 1>.html next to the current file and bump its version here.
+ */
+export const EMAIL_TEMPLATE_REGISTRY: Record<EmailTemplateName, EmailTemplateDefinition> = {
+  [EMAIL_TEMPLATES.VERIFICATION]: {
+    version: 1,
+    subject: 'Email Verification',
+    variables: ['token'],
+    sensitive: ['token'],
+  },
+  [EMAIL_TEMPLATES.PASSWORD_RESET]: {
+    version: 1,
+    subject: 'Reset Password',
+    variables: ['token'],
+    sensitive: ['token'],
+  },
+  [EMAIL_TEMPLATES.ORDER_CONFIRMATION]: {
+    version: 1,
+    subject: 'Your Order Has Been Placed',
+    variables: ['orderId', 'sections', 'total'],
+  },
+  [EMAIL_TEMPLATES.VENDOR_NEW_ORDER]: {
+    version: 1,
+    subject: 'New Order Received',
+    variables: ['orderId', 'paymentMethod', 'customer', 'products', 'total'],
+  },
+  [EMAIL_TEMPLATES.ORDER_STATUS_UPDATE]: {
+    version: 1,
+    subject: 'Your Order Status Has Been Updated',
+    variables: ['orderId', 'status'],
+  },
+  [EMAIL_TEMPLATES.ORDER_CANCELLED]: {
+    version: 1,
+    subject: 'Order #{{orderId}} Cancelled',
+    variables: ['orderId', 'reason'],
+  },
+  [EMAIL_TEMPLATES.TWO_FACTOR_CODE]: {
+    version: 1,
+    subject: 'Your login code',
+    variables: ['code', 'expiresInMinutes'],
+    sensitive: ['code'],
+  },
+};
+
+const TEMPLATE_DIR = join(__dirname, '../../../src/template/email');
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; path: string; raw: boolean }
+  | { type: 'each' | 'if'; path: string; children: TemplateNode[]; inverse: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'each' | 'if' }>;
+
+// {{{raw}}}, {{variable}}, {{#each list}}, {{#if value}}, {{else}}, {{/each}}, {{/if}}
+const TAG = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*(?:(#each|#if|\/each|\/if|else)\b)?\s*([\w.]*)\s*\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Parses a template into nodes
+ *
+ * Supports a small Handlebars subset: {{variable}} (HTML-escaped), {{{variable}}} (raw),
+ * {{#each list}}...{{/each}} with {{this}} for the current item, and {{#if value}}...{{else}}...{{/if}}.
+ * Inside a block, names are looked up on the current item first, then outwards.
+ *
+ * @param source - Template text
+ * @param name - Template name, for error messages
+ */
+export function parseTemplate(source: string, name = 'inline'): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: { node: BlockNode; target: TemplateNode[] }[] = [];
+  let target = root;
+  let last = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [tag, rawPath, keyword, path] = match;
+    if (match.index! > last) {
+      target.push({ type: 'text', value: source.slice(last, match.index) });
+    }
+    last = match.index! + tag.length;
+
+    if (rawPath) {
+      target.push({ type: 'variable', path: rawPath, raw: true });
+    } else if (!keyword) {
+      target.push({ type: 'variable', path, raw: false });
+    } else if (keyword === '#each' || keyword === '#if') {
+      const node: BlockNode = { type: keyword === '#each' ? 'each' : 'if', path, children: [], inverse: [] };
+      target.push(node);
+      target = node.children;
+      open.push({ node, target });
+    } else if (keyword === 'else') {
+      const block = open[open.length - 1];
+      if (!block) {
+        throw new Error(`Email template ${name}: {{else}} outside of a block`);
+      }
+      block.target = target = block.node.inverse;
+    } else {
+      const block = open.pop();
+      if (!block || `/${block.node.type}` !== keyword) {
+        throw new Error(`Email template ${name}: unexpected {{${keyword}}}`);
+      }
+      target = open.length ? open[open.length - 1].target : root;
+    }
+  }
+
+  if (open.length) {
+    throw new Error(`Email template ${name}: unclosed {{#${open[open.length - 1].node.type}}}`);
+  }
+  if (last < source.length) {
+    target.push({ type: 'text', value: source.slice(last) });
+  }
+  return root;
+}
+
+/**
+ * Renders parsed template nodes with the given variables
+ *
+ * @param escape - HTML-escape {{variable}} values; off for plain text such as subject lines
+ */
+export function renderNodes(nodes: TemplateNode[], variables: EmailVariables, escape = true): string {
+  return render(nodes, [variables], escape);
+}
+
+/**
+ * Parses and renders a plain text template, e.g. a subject line
+ */
+export function renderText(source: string, variables: EmailVariables): string {
+  return renderNodes(parseTemplate(source), variables, false);
+}
+
+const compiled = new Map<string, TemplateNode[]>();
+
+/**
+ * Renders the subject and HTML body of a template version
+ *
+ * @param name - Template name
+ * @param variables - Template variables
+ * @param version - Template version, the current one by default
+ * @param subject - Subject overriding the template's default, may use variables
+ * @throws Error if the template file does not exist or a required variable is missing
+ */
+export function renderEmailTemplate(
+  name: EmailTemplateName,
+  variables: EmailVariables,
+  version = EMAIL_TEMPLATE_REGISTRY[name].version,
+  subject = EMAIL_TEMPLATE_REGISTRY[name].subject
+): { subject: string; html: string } {
+  assertVariables(name, variables);
+
+  const key = `${name}@v${version}`;
+  let nodes = compiled.get(key);
+  if (!nodes) {
+    nodes = parseTemplate(readFileSync(join(TEMPLATE_DIR, name, `v${version}.html`), 'utf8'), key);
+    compiled.set(key, nodes);
+  }
+
+  return {
+    subject: renderText(subject, variables),
+    html: renderNodes(nodes, variables),
+  };
+}
+
+/**
+ * Throws if a variable required by the template is missing
+ */
+export function assertVariables(name: EmailTemplateName, variables: EmailVariables): void {
+  const missing = EMAIL_TEMPLATE_REGISTRY[name].variables.filter((variable) => variables[variable] == null);
+  if (missing.length) {
+    throw new Error(`Missing variables for email template ${name}: ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Variables with the template's sensitive values masked, for the email log and display to admins
+ */
+export function maskSensitiveVariables(name: string, variables: EmailVariables): EmailVariables {
+  const sensitive = sensitiveVariablesOf(name);
+  return Object.fromEntries(
+    Object.entries(variables).map(([key, value]) => [key, sensitive.includes(key) ? '******' : value])
+  );
+}
+
+/**
+ * Only the template's sensitive variables, handed to delivery outside the email log
+ */
+export function pickSensitiveVariables(name: string, variables: EmailVariables): EmailVariables {
+  const sensitive = sensitiveVariablesOf(name);
+  return Object.fromEntries(Object.entries(variables).filter(([key]) => sensitive.includes(key)));
+}
+
+/**
+ * Names of the variables the template keeps out of the email log
+ */
+export function sensitiveVariablesOf(name: string): string[] {
+  return EMAIL_TEMPLATE_REGISTRY[name as EmailTemplateName]?.sensitive ?? [];
+}
+
+function render(nodes: TemplateNode[], scopes: unknown[], escape: boolean): string {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'variable': {
+        const value = lookup(node.path, scopes);
+        if (value == null) return '';
+        return node.raw || !escape ? String(value) : String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+      }
+      case 'each': {
+        const list = lookup(node.path, scopes);
+        if (!Array.isArray(list) || list.length === 0) return render(node.inverse, scopes, escape);
+        return list.map((item) => render(node.children, [item, ...scopes], escape)).join('');
+      }
+      case 'if': {
+        const value = lookup(node.path, scopes);
+        const truthy = Array.isArray(value) ? value.length > 0 : Boolean(value);
+        return render(truthy ? node.children : node.inverse, scopes, escape);
+      }
+    }
+  }).join('');
+}
+
+function lookup(path: string, scopes: unknown[]): unknown {
+  if (path === 'this') return scopes[0];
+
+  const [head, ...rest] = path.split('.');
+  const scope = scopes.find((candidate) => isObject(candidate) && head in candidate);
+  if (!isObject(scope)) return undefined;
+
+  return rest.reduce<unknown>((value, key) => (isObject(value) ? value[key] : undefined), scope[head]);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,91 @@
+import { EmailService } from '../EmailService';
+import { EmailStatus } from '../../../entities/emailLog.entity';
+import { transporter } from '../../../config/mailer.config';
+import AppDataSource from '../../../config/db.config';
+
+jest.mock('../../queue/QueueService');
+jest.mock('../../../config/mailer.config', () => ({
+  MAIL_FROM: '<shop@example.com>',
+  transporter: { sendMail: jest.fn() },
+}));
+jest.mock('../../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('EmailService', () => {
+  let emailService: EmailService;
+  let logs: any[];
+  let addEmailJob: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    logs = [];
+
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({
+      create: (data: any) => ({ status: EmailStatus.QUEUED, ...data }),
+      save: async (data: any) => {
+        const saved = { id: logs.length + 1, ...data };
+        logs.push(saved);
+        return saved;
+      },
+      findOneBy: async ({ id }: { id: number }) => logs.find((log) => log.id === id) ?? null,
+      update: async (id: number, changes: any) => Object.assign(logs.find((log) => log.id === id), changes),
+    });
+
+    addEmailJob = jest.fn().mockResolvedValue(true);
+    emailService = new EmailService();
+    (emailService as any).queueService = { addEmailJob };
+  });
+
+  it('logs one-time tokens masked and hands them to the delivery job only', async () => {
+    const emailLog = await emailService.send('password-reset', 'user@example.com', { token: '482913' });
+
+    expect(logs[0].variables).toEqual({ token: '******' });
+    expect(addEmailJob).toHaveBeenCalledWith({ emailLogId: emailLog.id, sensitiveVariables: { token: '482913' } });
+  });
+
+  it('logs the variables of other templates as they are', async () => {
+    await emailService.send('order-status-update', 'user@example.com', { orderId: 42, status: 'SHIPPED' });
+
+    expect(logs[0].variables).toEqual({ orderId: 42, status: 'SHIPPED' });
+    expect(addEmailJob).toHaveBeenCalledWith({ emailLogId: 1, sensitiveVariables: {} });
+  });
+
+  it('renders the delivered email with the unmasked token', async () => {
+    await emailService.send('verification', 'user@example.com', { token: '731046' });
+
+    await emailService.deliver(1, 1, { token: '731046' });
+
+    const { html } = (transporter.sendMail as jest.Mock).mock.calls[0][0];
+    expect(html).toContain('731046');
+    expect(html).not.toContain('******');
+    expect(logs[0].status).toBe(EmailStatus.SENT);
+  });
+
+  it('does not send a masked token when the job lost the real one', async () => {
+    await emailService.send('verification', 'user@example.com', { token: '731046' });
+
+    await expect(emailService.deliver(1, 3)).rejects.toThrow('Sensitive variables of email 1 are no longer available: token');
+    expect(transporter.sendMail).not.toHaveBeenCalled();
+    expect(logs[0].status).toBe(EmailStatus.FAILED);
+  });
+
+  it('refuses to resend emails that carry a one-time token or code', async () => {
+    await emailService.send('two-factor-code', 'admin@example.com', { code: '112233', expiresInMinutes: 10 });
+
+    await expect(emailService.resend(1, 9)).rejects.toMatchObject({ status: 400 });
+    expect(logs).toHaveLength(1);
+  });
+
+  it('resends other emails as a new log entry linked to the original', async () => {
+    await emailService.send('order-status-update', 'user@example.com', { orderId: 42, status: 'SHIPPED' });
+
+    const resent = await emailService.resend(1, 9);
+
+    expect(resent).toMatchObject({ id: 2, resentFromId: 1, resentById: 9, variables: { orderId: 42, status: 'SHIPPED' } });
+    expect(addEmailJob).toHaveBeenLastCalledWith({ emailLogId: 2, sensitiveVariables: {} });
+  });
+});
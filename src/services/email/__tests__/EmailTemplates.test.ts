@@ -0,0 +1,71 @@
+import {
+  maskSensitiveVariables,
+  parseTemplate,
+  pickSensitiveVariables,
+  renderEmailTemplate,
+  renderNodes,
+  renderText,
+} from '../EmailTemplates';
+
+describe('EmailTemplates', () => {
+  describe('rendering', () => {
+    it('escapes {{variable}} values and leaves {{{variable}}} raw', () => {
+      const nodes = parseTemplate('<p>{{name}}</p>{{{html}}}');
+
+      expect(renderNodes(nodes, { name: '<b>A & B</b>', html: '<i>x</i>' }))
+        .toBe('<p>&lt;b&gt;A &amp; B&lt;/b&gt;</p><i>x</i>');
+    });
+
+    it('renders nested lists, looking names up on the current item first', () => {
+      const nodes = parseTemplate('{{#each sections}}[{{district}}:{{#each items}}{{name}}={{subtotal}};{{/each}}{{subtotal}}]{{/each}}');
+
+      const html = renderNodes(nodes, {
+        sections: [
+          { district: 'Kathmandu', subtotal: '30', items: [{ name: 'a', subtotal: '10' }, { name: 'b', subtotal: '20' }] },
+          { district: 'Pokhara', subtotal: '5', items: [{ name: 'c', subtotal: '5' }] },
+        ],
+      });
+
+      expect(html).toBe('[Kathmandu:a=10;b=20;30][Pokhara:c=5;5]');
+    });
+
+    it('renders {{else}} for falsy values and empty lists', () => {
+      expect(renderText('{{#if sku}}{{sku}}{{else}}-{{/if}}', { sku: null })).toBe('-');
+      expect(renderText('{{#each items}}{{this}},{{else}}none{{/each}}', { items: [] })).toBe('none');
+      expect(renderText('{{#each items}}{{this}},{{/each}}', { items: [1, 2] })).toBe('1,2,');
+    });
+
+    it('does not escape plain text such as subjects', () => {
+      expect(renderText('Order #{{orderId}} - {{note}}', { orderId: 5, note: 'A & B' })).toBe('Order #5 - A & B');
+    });
+
+    it('rejects unbalanced blocks', () => {
+      expect(() => parseTemplate('{{#if a}}x{{/each}}')).toThrow('unexpected {{/each}}');
+      expect(() => parseTemplate('{{#each a}}x')).toThrow('unclosed {{#each}}');
+    });
+  });
+
+  describe('renderEmailTemplate', () => {
+    it('renders the current version of a template file', () => {
+      const email = renderEmailTemplate('order-status-update', { orderId: 42, status: 'SHIPPED' });
+
+      expect(email.subject).toBe('Your Order Status Has Been Updated');
+      expect(email.html).toContain('<strong>#42</strong>');
+      expect(email.html).toContain('SHIPPED');
+    });
+
+    it('throws when a required variable is missing', () => {
+      expect(() => renderEmailTemplate('password-reset', {})).toThrow('Missing variables for email template password-reset: token');
+    });
+
+    it('masks sensitive variables', () => {
+      expect(maskSensitiveVariables('verification', { token: '123456' })).toEqual({ token: '******' });
+      expect(maskSensitiveVariables('order-status-update', { orderId: 1 })).toEqual({ orderId: 1 });
+    });
+
+    it('picks only sensitive variables', () => {
+      expect(pickSensitiveVariables('two-factor-code', { code: '123456', expiresInMinutes: 10 })).toEqual({ code: '123456' });
+      expect(pickSensitiveVariables('order-status-update', { orderId: 1 })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { Repository } from 'typeorm';
+import AppDataSource from '../../config/db.config';
+import logger from '../../config/logger.config';
+import { Notification } from '../../entities/notification.entity';
+import { NotificationChannel, NotificationEvent } from '../../entities/notificationPreference.enum';
+import { User } from '../../entities/user.entity';
+import { Vendor } from '../../entities/vendor.entity';
+import {
+  ChannelPreferences,
+  NotificationPreferenceService,
+  PreferenceOwner,
+} from '../../service/notificationPreference.service';
+import { NotificationStreamService } from './NotificationStreamService';
+import { LoggingSmsProvider, SmsProvider } from './SmsProvider';
+
+/**
+ * One event for one customer or vendor, with its content for each channel it can go out on
+ */
+export interface DispatchRequest {
+  event: NotificationEvent;
+  recipient: PreferenceOwner;
+  // Sends the email; only called when the recipient receives this event by email
+  email?: () => Promise<void>;
+  // Notification to save to the recipient's inbox and stream
+  inApp?: Notification;
+  // Text message for the recipient's phone number
+  sms?: string;
+}
+
+/**
+ * NotificationDispatcher sends customer and vendor notifications on the channels they chose
+ *
+ * - Each request is sent on the channels the recipient's preferences allow for its event
+ * - A failing channel is logged and does not stop the others, nor the caller
+ * - Admin notifications have no preferences and are saved in-app with saveInApp
+ */
+export class NotificationDispatcher {
+  private notificationRepo: Repository<Notification>;
+  private userRepo: Repository<User>;
+  private vendorRepo: Repository<Vendor>;
+
+  /**
+   * @param preferenceService - Source of the recipients' channel preferences
+   * @param smsProvider - SMS gateway; messages are only logged by default
+   */
+  constructor(
+    private preferenceService = new NotificationPreferenceService(),
+    private smsProvider: SmsProvider = new LoggingSmsProvider()
+  ) {
+    this.notificationRepo = AppDataSource.getRepository(Notification);
+    this.userRepo = AppDataSource.getRepository(User);
+    this.vendorRepo = AppDataSource.getRepository(Vendor);
+  }
+
+  async dispatch(request: DispatchRequest): Promise<void> {
+    const channels = await this.channelsFor(request);
+    const { email, inApp, sms } = request;
+
+    await Promise.all([
+      email && channels.email && this.attempt(NotificationChannel.EMAIL, request, email),
+      inApp && channels.inApp && this.attempt(NotificationChannel.IN_APP, request, () => this.saveInApp([inApp])),
+      sms && channels.sms && this.attempt(NotificationChannel.SMS, request, () => this.sendSms(request.recipient, sms)),
+    ]);
+  }
+
+  async dispatchAll(requests: DispatchRequest[]): Promise<void> {
+    await Promise.all(requests.map((request) => this.dispatch(request)));
+  }
+
+  /**
+   * Saves notifications to their recipients' inboxes and pushes them to open streams
+   *
+   * @param notifications - New notifications
+   */
+  async saveInApp(notifications: Notification[]): Promise<void> {
+    if (notifications.length === 0) return;
+    const saved = await this.notificationRepo.save(notifications);
+    await NotificationStreamService.getInstance().publish(saved);
+  }
+
+  // Falls back to the default channels rather than dropping the notification
+  private async channelsFor(request: DispatchRequest): Promise<ChannelPreferences> {
+    try {
+      return await this.preferenceService.getChannels(request.recipient, request.event);
+    } catch (error) {
+      logger.error(`Failed to load notification preferences for ${JSON.stringify(request.recipient)}, using defaults:`, error);
+      return { ...NotificationPreferenceService.DEFAULT_CHANNELS };
+    }
+  }
+
+  private async attempt(channel: NotificationChannel, request: DispatchRequest, send: () => Promise<void>): Promise<void> {
+    try {
+      await send();
+    } catch (error) {
+      logger.error(`Failed to send ${request.event} ${channel} notification to ${JSON.stringify(request.recipient)}:`, error);
+    }
+  }
+
+  private async sendSms(recipient: PreferenceOwner, message: string): Promise<void> {
+    const owner = 'userId' in recipient
+      ? await this.userRepo.findOne({ where: { id: recipient.userId }, select: ['id', 'phoneNumber'] })
+      : await this.vendorRepo.findOne({ where: { id: recipient.vendorId }, select: ['id', 'phoneNumber'] });
+
+    if (!owner?.phoneNumber) {
+      logger.warn(`No phone number for ${JSON.stringify(recipient)}, SMS not sent`);
+      return;
+    }
+    await this.smsProvider.send(owner.phoneNumber, message);
+  }
+}
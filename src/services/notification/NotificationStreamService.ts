@@ -0,0 +1,230 @@
+import { Response } from 'express';
+import Redis from 'ioredis';
+import logger from '../../config/logger.config';
+import { NOTIFICATION_STREAM } from '../../config/constants';
+import { Notification, NotificationTarget } from '../../entities/notification.entity';
+import { User, UserRole } from '../../entities/user.entity';
+import { Vendor } from '../../entities/vendor.entity';
+
+/**
+ * Audience a stream belongs to, matched against each notification's target:
+ * admins and staff get ADMIN notifications, a vendor its own VENDOR notifications,
+ * a customer the USER notifications addressed to them.
+ */
+export interface NotificationRecipient {
+  target: NotificationTarget;
+  id: number;
+}
+
+interface StreamClient {
+  recipient: NotificationRecipient;
+  res: Response;
+  heartbeat: NodeJS.Timeout;
+}
+
+// Streamed notifications are new, hence unread for every recipient
+type StreamedNotification = Pick<
+  Notification,
+  'id' | 'title' | 'message' | 'type' | 'target' | 'vendorId' | 'createdById' | 'orderId' | 'createdAt'
+> & { isRead: false };
+
+/**
+ * NotificationStreamService pushes new notifications to connected clients over Server-Sent Events
+ *
+ * - Each app instance keeps its own open streams
+ * - With REDIS_URL set, notifications are published on a Redis channel and every instance
+ *   delivers them to its own streams, so a client receives notifications created on any instance
+ * - Without Redis (or while it is down), notifications are delivered in-process only
+ *
+ * A single instance is shared by the whole process, as it owns the open connections.
+ */
+export class NotificationStreamService {
+  private static instance: NotificationStreamService | null = null;
+
+  private clients = new Set<StreamClient>();
+  private publisher: Redis | null = null;
+  private subscriber: Redis | null = null;
+
+  static getInstance(): NotificationStreamService {
+    if (!NotificationStreamService.instance) {
+      NotificationStreamService.instance = new NotificationStreamService();
+    }
+    return NotificationStreamService.instance;
+  }
+
+  /**
+   * Stream audience of an authenticated user or vendor
+   *
+   * @param authEntity - User or vendor from combinedAuthMiddleware
+   * @returns Recipient, or null for roles that receive no notifications
+   */
+  static recipientOf(authEntity: User | Vendor): NotificationRecipient | null {
+    if (authEntity instanceof Vendor) {
+      return { target: NotificationTarget.VENDOR, id: authEntity.id };
+    }
+    if (authEntity.role === UserRole.ADMIN || authEntity.role === UserRole.STAFF) {
+      return { target: NotificationTarget.ADMIN, id: authEntity.id };
+    }
+    if (authEntity.role === UserRole.USER) {
+      return { target: NotificationTarget.USER, id: authEntity.id };
+    }
+    return null;
+  }
+
+  /**
+   * Connects to Redis for cross-instance fan-out; without REDIS_URL, stays in-process
+   */
+  async start(): Promise<void> {
+    const redisUrl = process.env.REDIS_URL;
+    if (!redisUrl) {
+      logger.warn('NotificationStreamService started without Redis. Notifications reach streams on this instance only.');
+      return;
+    }
+
+    try {
+      // A subscribed connection cannot publish, hence two connections
+      this.publisher = new Redis(redisUrl, { maxRetriesPerRequest: 3 });
+      this.subscriber = this.publisher.duplicate();
+
+      this.publisher.on('error', (error) => logger.error('Notification publisher Redis error:', error));
+      this.subscriber.on('error', (error) => logger.error('Notification subscriber Redis error:', error));
+      this.subscriber.on('message', (channel, message) => {
+        if (channel !== NOTIFICATION_STREAM.REDIS_CHANNEL) return;
+        try {
+          this.deliver(JSON.parse(message));
+        } catch (error) {
+          logger.error('Invalid notification stream message:', error);
+        }
+      });
+
+      await this.subscriber.subscribe(NOTIFICATION_STREAM.REDIS_CHANNEL);
+      logger.info('✅ Notification stream subscribed to Redis');
+    } catch (error) {
+      logger.error('Failed to connect notification stream to Redis, delivering in-process:', error);
+      await this.stop();
+    }
+  }
+
+  /**
+   * Publishes newly saved notifications to every instance's streams
+   *
+   * Never throws: a notification that cannot be pushed is still in the inbox.
+   *
+   * @param notifications - Saved notifications
+   */
+  async publish(notifications: Notification[]): Promise<void> {
+    if (notifications.length === 0) return;
+    const payload = notifications.map((notification) => this.toPayload(notification));
+
+    if (this.publisher?.status === 'ready' && this.subscriber?.status === 'ready') {
+      try {
+        await this.publisher.publish(NOTIFICATION_STREAM.REDIS_CHANNEL, JSON.stringify(payload));
+        return;
+      } catch (error) {
+        logger.error('Failed to publish notifications to Redis, delivering in-process:', error);
+      }
+    }
+
+    this.deliver(payload);
+  }
+
+  /**
+   * Opens an event stream on the response and keeps it until the client disconnects
+   *
+   * @param recipient - Audience of the stream
+   * @param res - Response to stream on
+   * @param missed - Notifications to send first, e.g. those missed while reconnecting
+   * @returns Function that closes the stream; call it when the request closes
+   */
+  subscribe(recipient: NotificationRecipient, res: Response, missed: Notification[] = []): () => void {
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.flushHeaders();
+    res.write(`retry: ${NOTIFICATION_STREAM.RETRY_INTERVAL}\n\n`);
+
+    for (const notification of missed) {
+      this.send(res, this.toPayload(notification));
+    }
+
+    const client: StreamClient = {
+      recipient,
+      res,
+      heartbeat: setInterval(() => res.write(': heartbeat\n\n'), NOTIFICATION_STREAM.HEARTBEAT_INTERVAL),
+    };
+    this.clients.add(client);
+
+    return () => {
+      clearInterval(client.heartbeat);
+      this.clients.delete(client);
+    };
+  }
+
+  /**
+   * Closes all streams and Redis connections
+   */
+  async stop(): Promise<void> {
+    for (const client of this.clients) {
+      clearInterval(client.heartbeat);
+      client.res.end();
+    }
+    this.clients.clear();
+
+    await Promise.all([this.subscriber, this.publisher].map(async (connection) => {
+      try {
+        await connection?.quit();
+      } catch (error) {
+        logger.error('Error closing notification stream Redis connection:', error);
+      }
+    }));
+    this.publisher = null;
+    this.subscriber = null;
+  }
+
+  private deliver(notifications: StreamedNotification[]): void {
+    for (const notification of notifications) {
+      for (const client of this.clients) {
+        if (this.isFor(notification, client.recipient)) {
+          this.send(client.res, notification);
+        }
+      }
+    }
+  }
+
+  // Same audience rules as NotificationService.getNotifications
+  private isFor(notification: StreamedNotification, recipient: NotificationRecipient): boolean {
+    if (notification.target !== recipient.target) return false;
+    switch (recipient.target) {
+      case NotificationTarget.ADMIN:
+        return true;
+      case NotificationTarget.VENDOR:
+        return notification.vendorId === recipient.id;
+      case NotificationTarget.USER:
+        return notification.createdById === recipient.id;
+    }
+  }
+
+  private send(res: Response, notification: StreamedNotification): void {
+    res.write(`id: ${notification.id}\nevent: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+  }
+
+  private toPayload(notification: Notification): StreamedNotification {
+    const { id, title, message, type, target, vendorId, createdById, orderId, createdAt } = notification;
+    return {
+      id,
+      title,
+      message,
+      type,
+      target,
+      isRead: false,
+      vendorId: vendorId ?? null,
+      createdById: createdById ?? null,
+      orderId: orderId ?? null,
+      createdAt,
+    };
+  }
+}
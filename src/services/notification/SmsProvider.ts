@@ -0,0 +1,19 @@
+import logger from '../../config/logger.config';
+
+/**
+ * Gateway that delivers text messages
+ * Implement this for a real SMS gateway and pass it to NotificationDispatcher.
+ */
+export interface SmsProvider {
+  send(to: string, message: string): Promise<void>;
+}
+
+/**
+ * Local stand-in for an SMS gateway
+ * Writes each message to the log instead of sending it, so the SMS channel works without a gateway account.
+ */
+export class LoggingSmsProvider implements SmsProvider {
+  async send(to: string, message: string): Promise<void> {
+    logger.info(`[SMS] to ${to}: ${message}`);
+  }
+}
@@ -0,0 +1,109 @@
+import { NotificationDispatcher } from '../NotificationDispatcher';
+import { NotificationStreamService } from '../NotificationStreamService';
+import { Notification } from '../../../entities/notification.entity';
+import { NotificationEvent } from '../../../entities/notificationPreference.enum';
+import { User } from '../../../entities/user.entity';
+import { Vendor } from '../../../entities/vendor.entity';
+import AppDataSource from '../../../config/db.config';
+
+jest.mock('../NotificationStreamService');
+jest.mock('../../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    getRepository: jest.fn(),
+  },
+}));
+jest.mock('../../../config/db.test.config', () => ({ __esModule: true, default: {} }));
+
+describe('NotificationDispatcher', () => {
+  let dispatcher: NotificationDispatcher;
+  let getChannels: jest.Mock;
+  let smsProvider: { send: jest.Mock };
+  let saved: Notification[];
+  let email: jest.Mock;
+
+  const inApp = Object.assign(new Notification(), { title: 'Order shipped', message: 'Order #42 is on its way' });
+
+  const dispatch = (recipient: { userId: number } | { vendorId: number } = { userId: 5 }) => dispatcher.dispatch({
+    event: NotificationEvent.ORDER_STATUS_CHANGED,
+    recipient,
+    email,
+    inApp,
+    sms: 'Order #42 is on its way',
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    saved = [];
+
+    (AppDataSource.getRepository as jest.Mock).mockImplementation((entity: any) => {
+      if (entity === Notification) {
+        return {
+          save: async (notifications: Notification[]) => {
+            saved.push(...notifications);
+            return notifications;
+          },
+        };
+      }
+      if (entity === User) return { findOne: async () => ({ id: 5, phoneNumber: '9800000001' }) };
+      if (entity === Vendor) return { findOne: async () => ({ id: 10, phoneNumber: null }) };
+      return {};
+    });
+    (NotificationStreamService.getInstance as jest.Mock).mockReturnValue({ publish: jest.fn() });
+
+    getChannels = jest.fn().mockResolvedValue({ email: true, inApp: true, sms: false });
+    smsProvider = { send: jest.fn() };
+    email = jest.fn().mockResolvedValue(undefined);
+
+    dispatcher = new NotificationDispatcher({ getChannels } as any, smsProvider);
+  });
+
+  it('sends on the channels the recipient chose for the event', async () => {
+    getChannels.mockResolvedValue({ email: false, inApp: true, sms: true });
+
+    await dispatch();
+
+    expect(getChannels).toHaveBeenCalledWith({ userId: 5 }, NotificationEvent.ORDER_STATUS_CHANGED);
+    expect(email).not.toHaveBeenCalled();
+    expect(saved).toEqual([inApp]);
+    expect(smsProvider.send).toHaveBeenCalledWith('9800000001', 'Order #42 is on its way');
+  });
+
+  it('sends nothing when the recipient turned every channel off', async () => {
+    getChannels.mockResolvedValue({ email: false, inApp: false, sms: false });
+
+    await dispatch();
+
+    expect(email).not.toHaveBeenCalled();
+    expect(saved).toHaveLength(0);
+    expect(smsProvider.send).not.toHaveBeenCalled();
+  });
+
+  it('uses the default channels when the preferences cannot be loaded', async () => {
+    getChannels.mockRejectedValue(new Error('connection lost'));
+
+    await dispatch();
+
+    expect(email).toHaveBeenCalled();
+    expect(saved).toEqual([inApp]);
+    expect(smsProvider.send).not.toHaveBeenCalled();
+  });
+
+  it('still sends on the other channels when one of them fails', async () => {
+    getChannels.mockResolvedValue({ email: true, inApp: true, sms: true });
+    email.mockRejectedValue(new Error('SMTP down'));
+
+    await expect(dispatch()).resolves.toBeUndefined();
+
+    expect(saved).toEqual([inApp]);
+    expect(smsProvider.send).toHaveBeenCalled();
+  });
+
+  it('skips the text message when the recipient has no phone number', async () => {
+    getChannels.mockResolvedValue({ email: false, inApp: false, sms: true });
+
+    await dispatch({ vendorId: 10 });
+
+    expect(smsProvider.send).not.toHaveBeenCalled();
+  });
+});
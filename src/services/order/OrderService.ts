@@ -15,6 +15,8 @@ import { DiscountType, InventoryStatus } from '../../entities/product.enum';
 import { PromoService } from '../../service/promo.service';
 import { PromoType } from '../../entities/promo.entity';
 import { In } from 'typeorm';
+import { StockMovementService } from '../../service/stockMovement.service';
+import { StockMovementReason } from '../../entities/stockMovement.entity';
 
 /**
  * Core order service handling order creation, updates, and cancellation
@@ -29,6 +31,7 @@ export class OrderService {
     private orderItemRepository: Repository<OrderItem>;
     private variantRepository: Repository<Variant>;
     private promoService: PromoService;
+    private stockMovementService: StockMovementService;
     private dataSource: DataSource;
 
     constructor(dataSource?: DataSource) {
@@ -41,6 +44,7 @@ export class OrderService {
         this.orderItemRepository = this.dataSource.getRepository(OrderItem);
         this.variantRepository = this.dataSource.getRepository(Variant);
         this.promoService = new PromoService();
+        this.stockMovementService = new StockMovementService();
     }
 
     /**
@@ -246,7 +250,7 @@ export class OrderService {
     }
 
     /**
-     * Update stock in transaction (decrement)
+     * Update stock in transaction (decrement) and record the sales in the stock ledger
      */
     private async updateStockInTransaction(orderItems: OrderItem[], manager: EntityManager): Promise<void> {
         for (const item of orderItems) {
@@ -261,6 +265,15 @@ export class OrderService {
                 variant.status = variant.stock <= 0 ? InventoryStatus.OUT_OF_STOCK :
                     variant.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
                 await manager.save(Variant, variant);
+
+                await this.stockMovementService.record([{
+                    productId: item.productId,
+                    variantId: variant.id,
+                    delta: -item.quantity,
+                    balanceAfter: variant.stock,
+                    reason: StockMovementReason.SALE,
+                    orderId: item.orderId,
+                }], manager);
             } else {
                 const product = await manager.findOne(Product, { where: { id: item.productId } });
                 if (!product) throw new APIError(404, `Product not found`);
@@ -269,12 +282,20 @@ export class OrderService {
                 product.status = product.stock <= 0 ? InventoryStatus.OUT_OF_STOCK :
                     product.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
                 await manager.save(Product, product);
+
+                await this.stockMovementService.record([{
+                    productId: product.id,
+                    delta: -item.quantity,
+                    balanceAfter: product.stock,
+                    reason: StockMovementReason.SALE,
+                    orderId: item.orderId,
+                }], manager);
             }
         }
     }
 
     /**
-     * Restore stock in transaction (increment)
+     * Restore stock in transaction (increment) and record the cancellations in the stock ledger
      */
     private async restoreStockInTransaction(orderItems: OrderItem[], manager: EntityManager): Promise<void> {
         for (const item of orderItems) {
@@ -286,6 +307,15 @@ export class OrderService {
                 variant.status = variant.stock <= 0 ? InventoryStatus.OUT_OF_STOCK :
                     variant.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
                 await manager.save(Variant, variant);
+
+                await this.stockMovementService.record([{
+                    productId: item.productId,
+                    variantId: variant.id,
+                    delta: item.quantity,
+                    balanceAfter: variant.stock,
+                    reason: StockMovementReason.CANCELLATION,
+                    orderId: item.orderId,
+                }], manager);
             } else {
                 const product = await manager.findOne(Product, { where: { id: item.productId } });
                 if (!product) throw new APIError(404, `Product not found`);
@@ -294,6 +324,14 @@ export class OrderService {
                 product.status = product.stock <= 0 ? InventoryStatus.OUT_OF_STOCK :
                     product.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
                 await manager.save(Product, product);
+
+                await this.stockMovementService.record([{
+                    productId: product.id,
+                    delta: item.quantity,
+                    balanceAfter: product.stock,
+                    reason: StockMovementReason.CANCELLATION,
+                    orderId: item.orderId,
+                }], manager);
             }
         }
     }
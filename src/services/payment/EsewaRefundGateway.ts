@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { RefundChannel } from '../../entities/refund.entity';
+import { APIError } from '../../utils/ApiError.utils';
+import { RefundGateway, RefundGatewayRequest, RefundGatewayResult } from './PaymentService';
+
+/**
+ * eSewa refund integration
+ * Refunds are requested against the transaction_uuid stored on the order after payment
+ */
+export class EsewaRefundGateway implements RefundGateway {
+    readonly channel = RefundChannel.ESEWA;
+
+    private readonly merchantId: string;
+    private readonly secretKey: string;
+    private readonly refundUrl: string;
+
+    constructor() {
+        this.merchantId = process.env.ESEWA_MERCHANT || '';
+        this.secretKey = process.env.SECRET_KEY || '';
+        this.refundUrl = process.env.ESEWA_REFUND_URL || '';
+    }
+
+    /**
+     * Request a refund from eSewa
+     */
+    async refund(request: RefundGatewayRequest): Promise<RefundGatewayResult> {
+        const { order, amount, reason, refundId } = request;
+
+        if (!this.refundUrl || !this.merchantId || !this.secretKey) {
+            throw new APIError(503, 'eSewa refund is not configured');
+        }
+
+        if (!order.mTransactionId) {
+            throw new APIError(400, 'Order has no eSewa transaction to refund');
+        }
+
+        const signatureData = `refund_amount=${amount},transaction_uuid=${order.mTransactionId},product_code=${this.merchantId}`;
+        const signature = crypto
+            .createHmac('sha256', this.secretKey)
+            .update(signatureData)
+            .digest('base64');
+
+        try {
+            const response = await axios.post(this.refundUrl, {
+                product_code: this.merchantId,
+                transaction_uuid: order.mTransactionId,
+                refund_amount: amount,
+                refund_reference: `REFUND-${refundId}`,
+                remarks: reason,
+                signed_field_names: 'refund_amount,transaction_uuid,product_code',
+                signature
+            }, {
+                timeout: 10000 // 10 second timeout
+            });
+
+            const status = String(response.data?.status || '').toUpperCase();
+            const success = status === 'COMPLETE' || status === 'REFUNDED';
+
+            return {
+                success,
+                reference: response.data?.refund_id || response.data?.ref_id,
+                message: success ? undefined : `eSewa returned status ${status || 'UNKNOWN'}`,
+                raw: response.data
+            };
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                return {
+                    success: false,
+                    // Only a client error response is a definite rejection
+                    outcomeUnknown: !error.response || error.response.status >= 500,
+                    message: `eSewa API error: ${error.message}`,
+                    raw: error.response?.data
+                };
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,18 @@
+import { RefundChannel } from '../../entities/refund.entity';
+import { RefundGateway, RefundGatewayRequest, RefundGatewayResult } from './PaymentService';
+
+/**
+ * Manual settlement for cash on delivery orders
+ * No gateway is involved; the admin hands the cash back (or transfers it) and records the reference.
+ */
+export class ManualRefundGateway implements RefundGateway {
+    readonly channel = RefundChannel.MANUAL;
+
+    async refund(request: RefundGatewayRequest): Promise<RefundGatewayResult> {
+        return {
+            success: true,
+            reference: request.reference || `MANUAL-${request.refundId}`,
+            raw: { settledManually: true }
+        };
+    }
+}
@@ -0,0 +1,97 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { RefundChannel } from '../../entities/refund.entity';
+import { APIError } from '../../utils/ApiError.utils';
+import { RefundGateway, RefundGatewayRequest, RefundGatewayResult } from './PaymentService';
+
+/**
+ * NPX (Nepal Payment Gateway) refund integration
+ * Uses the same merchant credentials and HMAC-SHA512 signing as the payment routes
+ */
+export class NpxRefundGateway implements RefundGateway {
+    readonly channel = RefundChannel.NPX;
+
+    private readonly merchantId: string;
+    private readonly merchantName: string;
+    private readonly apiUsername: string;
+    private readonly apiPassword: string;
+    private readonly secretKey: string;
+    private readonly baseUrl: string;
+
+    constructor() {
+        this.merchantId = process.env.NPX_MERCHANT_ID || '545';
+        this.merchantName = process.env.NPX_MERCHANT_NAME || 'dajuvaiapi';
+        this.apiUsername = process.env.NPX_API_USERNAME || 'dajuvaiapi';
+        this.apiPassword = process.env.NPX_API_PASSWORD || '';
+        this.secretKey = process.env.NPX_SECRET_KEY || '';
+        this.baseUrl = process.env.NPX_BASE_URL || 'https://apigateway.nepalpayment.com';
+    }
+
+    /**
+     * Request a refund from NPX for the order's merchant transaction
+     */
+    async refund(request: RefundGatewayRequest): Promise<RefundGatewayResult> {
+        const { order, amount, reason } = request;
+
+        if (!this.secretKey) {
+            throw new APIError(503, 'NPX refund is not configured');
+        }
+
+        if (!order.mTransactionId) {
+            throw new APIError(400, 'Order has no NPX transaction to refund');
+        }
+
+        const requestData: Record<string, string> = {
+            MerchantId: this.merchantId,
+            MerchantName: this.merchantName,
+            MerchantTxnId: order.mTransactionId,
+            Amount: amount.toString(),
+            Remarks: reason,
+        };
+        requestData.Signature = this.generateSignature(requestData);
+
+        try {
+            const response = await axios.post(`${this.baseUrl}/RefundTransaction`, requestData, {
+                headers: {
+                    Authorization: this.getAuthHeader(),
+                    'Content-Type': 'application/json',
+                },
+                timeout: 10000 // 10 second timeout
+            });
+
+            // NPX responds with code "0" on success, matching the other merchant APIs
+            const success = response.data?.code === '0';
+
+            return {
+                success,
+                reference: response.data?.data?.RefundTxnId || response.data?.data?.GatewayReferenceNo,
+                message: success ? undefined : (response.data?.message || 'NPX rejected the refund'),
+                raw: response.data
+            };
+        } catch (error) {
+            if (axios.isAxiosError(error)) {
+                return {
+                    success: false,
+                    // Only a client error response is a definite rejection
+                    outcomeUnknown: !error.response || error.response.status >= 500,
+                    message: `NPX API error: ${error.message}`,
+                    raw: error.response?.data
+                };
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * HMAC-SHA512 over the values of the sorted keys
+     */
+    private generateSignature(data: Record<string, string>): string {
+        const concatenatedValues = Object.keys(data).sort().map(key => data[key]).join('');
+        return crypto.createHmac('sha512', this.secretKey).update(concatenatedValues, 'utf8').digest('hex');
+    }
+
+    private getAuthHeader(): string {
+        const credentials = Buffer.from(`${this.apiUsername}:${this.apiPassword}`).toString('base64');
+        return `Basic ${credentials}`;
+    }
+}
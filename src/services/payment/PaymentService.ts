@@ -1,9 +1,36 @@
-import { Repository, EntityManager } from 'typeorm';
+import { Repository, EntityManager, In, LessThan } from 'typeorm';
 import AppDataSource from '../../config/db.config';
-import { Order, PaymentStatus, OrderStatus } from '../../entities/order.entity';
+import { REFUNDS } from '../../config/constants';
+import { Order, PaymentStatus, OrderStatus, PaymentMethod } from '../../entities/order.entity';
+import { Refund, RefundChannel, RefundStatus } from '../../entities/refund.entity';
+import { ReturnRequest, ReturnStatus } from '../../entities/returnRequest.entity';
 import { APIError } from '../../utils/ApiError.utils';
 import { OrderRepository } from '../../repositories/OrderRepository';
 import { EsewaPaymentService } from './EsewaPaymentService';
+import { EsewaRefundGateway } from './EsewaRefundGateway';
+import { NpxRefundGateway } from './NpxRefundGateway';
+import { ManualRefundGateway } from './ManualRefundGateway';
+
+/**
+ * Order statuses an admin can refund directly: paid but not yet delivered, or cancelled after payment.
+ * Delivered goods are refunded through a return request, which ties the refund to the returned items.
+ */
+export const DIRECT_REFUND_ORDER_STATUSES: readonly OrderStatus[] = [
+    OrderStatus.PENDING,
+    OrderStatus.CONFIRMED,
+    OrderStatus.DELAYED,
+    OrderStatus.SHIPPED,
+    OrderStatus.CANCELLED,
+];
+
+/**
+ * Refund statuses that hold part of the order total: refunds paid out, being paid out, or whose outcome is unknown.
+ */
+export const HELD_REFUND_STATUSES: readonly RefundStatus[] = [
+    RefundStatus.PENDING,
+    RefundStatus.RECONCILIATION_REQUIRED,
+    RefundStatus.COMPLETED,
+];
 
 /**
  * Payment orchestration service
@@ -11,11 +38,22 @@ import { EsewaPaymentService } from './EsewaPaymentService';
  */
 export class PaymentService {
     private orderRepository: OrderRepository;
+    private refundRepository: Repository<Refund>;
     private esewaPaymentService: EsewaPaymentService;
+    private refundGateways: Partial<Record<PaymentMethod, RefundGateway>>;
 
-    constructor() {
+    /**
+     * @param refundGateways - Overrides the refund gateway per payment method (tests pass StubRefundGateway)
+     */
+    constructor(refundGateways?: Partial<Record<PaymentMethod, RefundGateway>>) {
         this.orderRepository = new OrderRepository(AppDataSource);
+        this.refundRepository = AppDataSource.getRepository(Refund);
         this.esewaPaymentService = new EsewaPaymentService();
+        this.refundGateways = refundGateways || {
+            [PaymentMethod.ESEWA]: new EsewaRefundGateway(),
+            [PaymentMethod.NPX]: new NpxRefundGateway(),
+            [PaymentMethod.CASH_ON_DELIVERY]: new ManualRefundGateway(),
+        };
     }
 
     /**
@@ -108,25 +146,238 @@ export class PaymentService {
     }
 
     /**
-     * Process refund for an order
-     * TODO: Implement refund logic
+     * Process a full or partial refund for an order
+     * Omitting the amount refunds whatever is still refundable.
+     * Every attempt is persisted; the order moves to PARTIALLY_REFUNDED or REFUNDED once a refund completes.
+     * Without a return request only orders in DIRECT_REFUND_ORDER_STATUSES can be refunded.
      */
     async processRefund(
         orderId: number,
-        amount: number,
-        reason: string
+        amount: number | undefined,
+        reason: string,
+        options: RefundOptions = {}
     ): Promise<Refund> {
-        const order = await this.orderRepository.findById(orderId);
+        // Reserve the amount under a row lock so concurrent refunds cannot exceed the order total
+        const { order, refund, gateway } = await AppDataSource.transaction(async (manager) => {
+            const order = await manager.findOne(Order, {
+                where: { id: orderId },
+                lock: { mode: 'pessimistic_write' }
+            });
+
+            if (!order) {
+                throw new APIError(404, 'Order not found');
+            }
+
+            if (order.paymentStatus !== PaymentStatus.PAID && order.paymentStatus !== PaymentStatus.PARTIALLY_REFUNDED) {
+                throw new APIError(400, 'Cannot refund unpaid order');
+            }
+
+            if (!options.returnRequestId && !DIRECT_REFUND_ORDER_STATUSES.includes(order.status)) {
+                throw new APIError(400, `${order.status} orders can only be refunded through a return request`);
+            }
+
+            const gateway = this.refundGateways[order.paymentMethod];
+            if (!gateway) {
+                throw new APIError(400, `Refunds are not supported for ${order.paymentMethod} orders`);
+            }
+
+            if (options.returnRequestId) {
+                const existing = await manager.findOne(Refund, {
+                    where: { returnRequestId: options.returnRequestId, status: In([...HELD_REFUND_STATUSES]) }
+                });
+                if (existing) {
+                    throw new APIError(409, `Return request #${options.returnRequestId} already has ${existing.status} refund #${existing.id}`);
+                }
+            }
+
+            const committed = await this.sumRefunds(orderId, [...HELD_REFUND_STATUSES], manager);
+            const refundable = roundAmount(Number(order.totalPrice) - committed);
+            const refundAmount = roundAmount(amount ?? refundable);
+
+            if (refundAmount <= 0) {
+                throw new APIError(400, 'Refund amount must be greater than zero');
+            }
+
+            if (refundAmount > refundable) {
+                throw new APIError(400, `Refund amount exceeds refundable balance of ${refundable}`);
+            }
+
+            const refund = await manager.save(Refund, manager.create(Refund, {
+                orderId,
+                amount: refundAmount,
+                reason,
+                channel: gateway.channel,
+                status: RefundStatus.PENDING,
+                returnRequestId: options.returnRequestId ?? null,
+                processedById: options.processedById ?? null,
+            }));
+
+            return { order, refund, gateway };
+        });
+
+        // Gateway call happens outside the transaction so the row lock is not held during network I/O
+        let result: RefundGatewayResult;
+        try {
+            result = await gateway.refund({
+                order,
+                refundId: refund.id,
+                amount: Number(refund.amount),
+                reason,
+                reference: options.reference,
+            });
+        } catch (error) {
+            result = { success: false, message: error.message };
+        }
+
+        // A gateway that may have paid out keeps the amount held until an admin reconciles the refund
+        const status = result.success
+            ? RefundStatus.COMPLETED
+            : result.outcomeUnknown ? RefundStatus.RECONCILIATION_REQUIRED : RefundStatus.FAILED;
+
+        await AppDataSource.transaction(async (manager) => {
+            refund.status = status;
+            refund.gatewayReference = result.reference ?? null;
+            refund.gatewayResponse = result.raw ?? null;
+            refund.failureReason = result.success ? null : (result.message || 'Refund rejected by gateway');
+            refund.processedAt = new Date();
+            await manager.save(Refund, refund);
+
+            if (result.success) {
+                await this.updateRefundedPaymentStatus(order, manager);
+            }
+        });
+
+        if (status === RefundStatus.RECONCILIATION_REQUIRED) {
+            throw new APIError(502, `Refund could not be confirmed: ${refund.failureReason}. `
+                + 'The amount stays held until the refund is reconciled with the gateway');
+        }
+
+        if (!result.success) {
+            throw new APIError(502, `Refund failed: ${refund.failureReason}`);
+        }
+
+        return refund;
+    }
+
+    /**
+     * Flag refunds left PENDING for longer than REFUNDS.PENDING_TIMEOUT_MINUTES for reconciliation
+     * A refund is only PENDING while its gateway call is in flight, so an older one means the process stopped
+     * before recording the outcome. The gateway may still have paid out, so the amount stays held against the
+     * refundable balance until an admin checks the gateway and reconciles the refund.
+     * @returns Number of refunds flagged
+     */
+    async flagStalePendingRefunds(): Promise<number> {
+        const cutoff = new Date(Date.now() - REFUNDS.PENDING_TIMEOUT_MINUTES * 60 * 1000);
+
+        const result = await this.refundRepository.update(
+            { status: RefundStatus.PENDING, createdAt: LessThan(cutoff) },
+            {
+                status: RefundStatus.RECONCILIATION_REQUIRED,
+                failureReason: 'No gateway response was recorded; check the gateway and reconcile the refund',
+                processedAt: new Date(),
+            }
+        );
+
+        return result.affected ?? 0;
+    }
+
+    /**
+     * Record the outcome of a refund awaiting reconciliation, as confirmed with the gateway
+     * A completed refund updates the order's payment status; a failed one releases the amount it held.
+     * The return request a refund pays out is marked refunded, or released for another attempt.
+     * @throws {APIError} 404 if the refund does not exist, 400 if it is not awaiting reconciliation
+     */
+    async reconcileRefund(
+        refundId: number,
+        outcome: RefundStatus.COMPLETED | RefundStatus.FAILED,
+        options: RefundReconciliation = {}
+    ): Promise<Refund> {
+        return await AppDataSource.transaction(async (manager) => {
+            const refund = await manager.findOne(Refund, {
+                where: { id: refundId },
+                lock: { mode: 'pessimistic_write' }
+            });
+
+            if (!refund) {
+                throw new APIError(404, 'Refund not found');
+            }
+
+            if (refund.status !== RefundStatus.RECONCILIATION_REQUIRED) {
+                throw new APIError(400, `Only refunds awaiting reconciliation can be reconciled; this refund is ${refund.status}`);
+            }
+
+            refund.status = outcome;
+            refund.gatewayReference = options.reference ?? refund.gatewayReference;
+            refund.failureReason = outcome === RefundStatus.FAILED
+                ? (options.note || 'Gateway confirmed the refund was not paid')
+                : null;
+            refund.processedById = options.processedById ?? refund.processedById;
+            refund.processedAt = new Date();
+            await manager.save(Refund, refund);
+
+            if (outcome === RefundStatus.COMPLETED) {
+                const order = await manager.findOne(Order, { where: { id: refund.orderId } });
+                await this.updateRefundedPaymentStatus(order!, manager);
+            }
+
+            // The return stays claimed while its refund awaits reconciliation: settle it, or release it for another attempt
+            if (refund.returnRequestId) {
+                await manager.update(
+                    ReturnRequest,
+                    { id: refund.returnRequestId, status: ReturnStatus.REFUNDING },
+                    outcome === RefundStatus.COMPLETED
+                        ? { status: ReturnStatus.REFUNDED, refundId: refund.id }
+                        : { status: ReturnStatus.RECEIVED }
+                );
+            }
+
+            return refund;
+        });
+    }
+
+    /**
+     * Get the refund history for an order, newest first
+     */
+    async getRefunds(orderId: number): Promise<Refund[]> {
+        const order = await this.orderRepository.findOne({ where: { id: orderId }, select: ['id'] });
         if (!order) {
             throw new APIError(404, 'Order not found');
         }
 
-        if (order.paymentStatus !== PaymentStatus.PAID) {
-            throw new APIError(400, 'Cannot refund unpaid order');
-        }
+        return this.refundRepository.find({
+            where: { orderId },
+            relations: ['processedBy'],
+            select: {
+                processedBy: { id: true, fullName: true, email: true }
+            },
+            order: { createdAt: 'DESC' }
+        });
+    }
+
+    /**
+     * Mark the order REFUNDED once completed refunds cover its total, PARTIALLY_REFUNDED before that
+     */
+    private async updateRefundedPaymentStatus(order: Order, manager: EntityManager): Promise<void> {
+        const refunded = await this.sumRefunds(order.id, [RefundStatus.COMPLETED], manager);
+        const paymentStatus = refunded >= roundAmount(Number(order.totalPrice))
+            ? PaymentStatus.REFUNDED
+            : PaymentStatus.PARTIALLY_REFUNDED;
+        await manager.update(Order, order.id, { paymentStatus });
+    }
+
+    /**
+     * Sum refund amounts for an order in the given statuses
+     */
+    private async sumRefunds(orderId: number, statuses: RefundStatus[], manager: EntityManager): Promise<number> {
+        const result = await manager
+            .getRepository(Refund)
+            .createQueryBuilder('refund')
+            .select('COALESCE(SUM(refund.amount), 0)', 'total')
+            .where('refund.orderId = :orderId', { orderId })
+            .andWhere('refund.status IN (:...statuses)', { statuses })
+            .getRawOne();
 
-        // TODO: Implement refund logic based on payment method
-        throw new APIError(501, 'Refund functionality not yet implemented');
+        return Number(result?.total || 0);
     }
 
     /**
@@ -171,14 +422,56 @@ export interface PaymentVerification {
 }
 
 /**
- * Refund response
+ * Optional refund inputs supplied by the admin
  */
-export interface Refund {
-    refundId: string;
-    orderId: number;
+export interface RefundOptions {
+    processedById?: number;
+    /** Return request the refund pays out; required once the order has been delivered */
+    returnRequestId?: number;
+    /** Settlement reference for manual (cash on delivery) refunds */
+    reference?: string;
+}
+
+/**
+ * Outcome of a refund awaiting reconciliation, entered by the admin after checking the gateway
+ */
+export interface RefundReconciliation {
+    processedById?: number;
+    /** Gateway or settlement reference of the confirmed refund */
+    reference?: string;
+    /** Why the refund failed, for refunds the gateway did not pay */
+    note?: string;
+}
+
+/**
+ * Refund request handed to a gateway
+ */
+export interface RefundGatewayRequest {
+    order: Order;
+    refundId: number;
     amount: number;
-    status: string;
-    processedAt: Date;
+    reason: string;
+    reference?: string;
+}
+
+/**
+ * Refund gateway outcome
+ */
+export interface RefundGatewayResult {
+    success: boolean;
+    /** No definite answer (timeout, connection lost, server error); the gateway may have paid out */
+    outcomeUnknown?: boolean;
+    reference?: string;
+    message?: string;
+    raw?: Record<string, any>;
+}
+
+/**
+ * Gateway capable of returning money for one payment method
+ */
+export interface RefundGateway {
+    readonly channel: RefundChannel;
+    refund(request: RefundGatewayRequest): Promise<RefundGatewayResult>;
 }
 
 /**
@@ -191,3 +484,10 @@ export interface PaymentStatusResponse {
     amount: number;
     transactionId?: string;
 }
+
+/**
+ * Round to paisa to avoid floating point drift when comparing amounts
+ */
+function roundAmount(value: number): number {
+    return Math.round(value * 100) / 100;
+}
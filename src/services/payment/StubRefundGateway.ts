@@ -0,0 +1,34 @@
+import { RefundChannel } from '../../entities/refund.entity';
+import { RefundGateway, RefundGatewayRequest, RefundGatewayResult } from './PaymentService';
+
+/**
+ * Local stand-in for a refund gateway
+ * Records every request and answers with a configurable outcome, so refunds can be exercised without network access.
+ */
+export class StubRefundGateway implements RefundGateway {
+    readonly requests: RefundGatewayRequest[] = [];
+
+    constructor(
+        readonly channel: RefundChannel,
+        private outcome: Partial<RefundGatewayResult> = { success: true }
+    ) { }
+
+    /**
+     * Change the outcome returned by subsequent refunds
+     */
+    setOutcome(outcome: Partial<RefundGatewayResult>): void {
+        this.outcome = outcome;
+    }
+
+    async refund(request: RefundGatewayRequest): Promise<RefundGatewayResult> {
+        this.requests.push(request);
+
+        return {
+            success: this.outcome.success ?? true,
+            outcomeUnknown: this.outcome.outcomeUnknown,
+            reference: this.outcome.reference ?? `STUB-${request.refundId}`,
+            message: this.outcome.message,
+            raw: this.outcome.raw ?? { stub: true, amount: request.amount }
+        };
+    }
+}
@@ -0,0 +1,288 @@
+import { PaymentService } from '../PaymentService';
+import { StubRefundGateway } from '../StubRefundGateway';
+import { OrderRepository } from '../../../repositories/OrderRepository';
+import { Order, PaymentMethod, PaymentStatus, OrderStatus } from '../../../entities/order.entity';
+import { RefundChannel, RefundStatus } from '../../../entities/refund.entity';
+import { ReturnRequest, ReturnStatus } from '../../../entities/returnRequest.entity';
+import { APIError } from '../../../utils/ApiError.utils';
+import AppDataSource from '../../../config/db.config';
+import { fakeQueryBuilder } from '../../../__tests__/helpers/queryBuilder';
+
+// Mock dependencies
+jest.mock('../../../repositories/OrderRepository');
+jest.mock('../../../config/db.config', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn(),
+    getRepository: jest.fn(),
+  },
+}));
+
+describe('PaymentService - refunds', () => {
+  let paymentService: PaymentService;
+  let esewaGateway: StubRefundGateway;
+  let manualGateway: StubRefundGateway;
+  let mockManager: any;
+  let refundTotals: Record<string, number>;
+  let summedStatuses: RefundStatus[][];
+  let order: Order;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    process.env.ESEWA_MERCHANT = 'test_merchant';
+    process.env.SECRET_KEY = 'test_secret_key';
+
+    order = {
+      id: 1,
+      totalPrice: 1000,
+      paymentMethod: PaymentMethod.ESEWA,
+      paymentStatus: PaymentStatus.PAID,
+      status: OrderStatus.SHIPPED,
+      mTransactionId: 'esewa-uuid-1',
+    } as Partial<Order> as Order;
+
+    // Running totals keyed by the statuses the service sums over
+    refundTotals = { committed: 0, completed: 0 };
+    summedStatuses = [];
+
+    const refundSum = () => {
+      let statuses: RefundStatus[];
+      return fakeQueryBuilder({
+        andWhere: (_clause: string, params: { statuses: RefundStatus[] }) => {
+          statuses = params.statuses;
+          summedStatuses.push(statuses);
+        },
+        getRawOne: async () => ({
+          total: statuses.includes(RefundStatus.PENDING) ? refundTotals.committed : refundTotals.completed,
+        }),
+      });
+    };
+
+    mockManager = {
+      findOne: jest.fn(async (entity) => (entity === Order ? order : null)),
+      create: jest.fn((entity, data) => ({ ...data })),
+      save: jest.fn(async (entity, data) => ({ id: 7, ...data })),
+      update: jest.fn(),
+      getRepository: jest.fn(() => ({ createQueryBuilder: refundSum })),
+    };
+
+    (AppDataSource.transaction as jest.Mock).mockImplementation(async (callback) => callback(mockManager));
+    (AppDataSource.getRepository as jest.Mock).mockReturnValue({ find: jest.fn(), update: jest.fn(async () => ({ affected: 2 })) });
+    (OrderRepository as jest.MockedClass<typeof OrderRepository>).mockImplementation(() => ({
+      findOne: jest.fn(),
+    }) as any);
+
+    esewaGateway = new StubRefundGateway(RefundChannel.ESEWA);
+    manualGateway = new StubRefundGateway(RefundChannel.MANUAL);
+
+    paymentService = new PaymentService({
+      [PaymentMethod.ESEWA]: esewaGateway,
+      [PaymentMethod.CASH_ON_DELIVERY]: manualGateway,
+    });
+  });
+
+  describe('processRefund', () => {
+    it('should refund the full remaining balance when no amount is given', async () => {
+      mockManager.save.mockImplementation(async (entity, data) => {
+        if (data.status === RefundStatus.COMPLETED) refundTotals.completed += Number(data.amount);
+        return { id: 7, ...data };
+      });
+
+      const refund = await paymentService.processRefund(1, undefined, 'Customer cancelled');
+
+      expect(refund.status).toBe(RefundStatus.COMPLETED);
+      expect(refund.amount).toBe(1000);
+      expect(refund.channel).toBe(RefundChannel.ESEWA);
+      expect(refund.gatewayReference).toBe('STUB-7');
+      expect(esewaGateway.requests).toHaveLength(1);
+      expect(esewaGateway.requests[0].amount).toBe(1000);
+      expect(mockManager.update).toHaveBeenCalledWith(expect.anything(), 1, { paymentStatus: PaymentStatus.REFUNDED });
+    });
+
+    it('should mark the order partially refunded for a partial amount', async () => {
+      mockManager.save.mockImplementation(async (entity, data) => {
+        if (data.status === RefundStatus.COMPLETED) refundTotals.completed += Number(data.amount);
+        return { id: 8, ...data };
+      });
+
+      const refund = await paymentService.processRefund(1, 250, 'One item damaged');
+
+      expect(refund.amount).toBe(250);
+      expect(mockManager.update).toHaveBeenCalledWith(expect.anything(), 1, { paymentStatus: PaymentStatus.PARTIALLY_REFUNDED });
+    });
+
+    it('should reject an amount above the refundable balance', async () => {
+      refundTotals.committed = 800;
+
+      await expect(paymentService.processRefund(1, 300, 'Too much')).rejects.toMatchObject({
+        status: 400,
+        message: 'Refund amount exceeds refundable balance of 200',
+      });
+      expect(esewaGateway.requests).toHaveLength(0);
+    });
+
+    it('should reject refunds for unpaid orders', async () => {
+      order.paymentStatus = PaymentStatus.UNPAID;
+
+      await expect(paymentService.processRefund(1, 100, 'Not paid')).rejects.toThrow(APIError);
+      await expect(paymentService.processRefund(1, 100, 'Not paid')).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('should refund delivered orders only through a return request', async () => {
+      order.status = OrderStatus.DELIVERED;
+
+      await expect(paymentService.processRefund(1, 100, 'Goodwill')).rejects.toMatchObject({
+        status: 400,
+        message: 'DELIVERED orders can only be refunded through a return request',
+      });
+      expect(esewaGateway.requests).toHaveLength(0);
+
+      const refund = await paymentService.processRefund(1, 100, 'Return #4', { returnRequestId: 4 });
+      expect(refund).toMatchObject({ status: RefundStatus.COMPLETED, returnRequestId: 4 });
+    });
+
+    it('should refuse a second refund of a return that has one which did not fail', async () => {
+      order.status = OrderStatus.DELIVERED;
+      mockManager.findOne.mockImplementation(async (entity: any) => (
+        entity === Order ? order : { id: 6, returnRequestId: 4, status: RefundStatus.RECONCILIATION_REQUIRED }
+      ));
+
+      await expect(paymentService.processRefund(1, 100, 'Return #4', { returnRequestId: 4 })).rejects.toMatchObject({
+        status: 409,
+        message: 'Return request #4 already has RECONCILIATION_REQUIRED refund #6',
+      });
+      expect(esewaGateway.requests).toHaveLength(0);
+    });
+
+    it('should reject payment methods without a refund gateway', async () => {
+      order.paymentMethod = PaymentMethod.KHALIT;
+
+      await expect(paymentService.processRefund(1, 100, 'Khalti')).rejects.toMatchObject({
+        status: 400,
+        message: 'Refunds are not supported for KHALTI orders',
+      });
+    });
+
+    it('should persist a failed attempt and leave the payment status alone', async () => {
+      esewaGateway.setOutcome({ success: false, message: 'Insufficient merchant balance' });
+
+      await expect(paymentService.processRefund(1, 100, 'Damaged')).rejects.toMatchObject({
+        status: 502,
+        message: 'Refund failed: Insufficient merchant balance',
+      });
+
+      const savedStatuses = mockManager.save.mock.calls.map(([, data]) => data.status);
+      expect(savedStatuses).toEqual([RefundStatus.PENDING, RefundStatus.FAILED]);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    it('should hold a refund whose gateway outcome is unknown for reconciliation', async () => {
+      esewaGateway.setOutcome({ success: false, outcomeUnknown: true, message: 'eSewa API error: timeout of 10000ms exceeded' });
+
+      await expect(paymentService.processRefund(1, 100, 'Damaged')).rejects.toMatchObject({
+        status: 502,
+        message: 'Refund could not be confirmed: eSewa API error: timeout of 10000ms exceeded. '
+          + 'The amount stays held until the refund is reconciled with the gateway',
+      });
+
+      const savedStatuses = mockManager.save.mock.calls.map(([, data]) => data.status);
+      expect(savedStatuses).toEqual([RefundStatus.PENDING, RefundStatus.RECONCILIATION_REQUIRED]);
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    it('should count refunds awaiting reconciliation against the refundable balance', async () => {
+      refundTotals.committed = 1000;
+
+      await expect(paymentService.processRefund(1, undefined, 'Refund again')).rejects.toMatchObject({
+        status: 400,
+        message: 'Refund amount must be greater than zero',
+      });
+      expect(summedStatuses[0]).toEqual(expect.arrayContaining([
+        RefundStatus.PENDING,
+        RefundStatus.RECONCILIATION_REQUIRED,
+        RefundStatus.COMPLETED,
+      ]));
+      expect(esewaGateway.requests).toHaveLength(0);
+    });
+
+    it('should settle cash on delivery refunds manually with the given reference', async () => {
+      order.paymentMethod = PaymentMethod.CASH_ON_DELIVERY;
+
+      const refund = await paymentService.processRefund(1, 100, 'Returned item', {
+        processedById: 3,
+        reference: 'CASH-001',
+      });
+
+      expect(refund.channel).toBe(RefundChannel.MANUAL);
+      expect(refund.processedById).toBe(3);
+      expect(manualGateway.requests[0].reference).toBe('CASH-001');
+    });
+  });
+
+  describe('flagStalePendingRefunds', () => {
+    it('should flag refunds pending past the timeout for reconciliation instead of failing them', async () => {
+      const refundRepository = (AppDataSource.getRepository as jest.Mock).mock.results[0].value;
+
+      const flagged = await paymentService.flagStalePendingRefunds();
+
+      expect(flagged).toBe(2);
+      const [criteria, changes] = refundRepository.update.mock.calls[0];
+      expect(criteria.status).toBe(RefundStatus.PENDING);
+      expect(criteria.createdAt.value.getTime()).toBeLessThanOrEqual(Date.now() - 30 * 60 * 1000);
+      expect(changes.status).toBe(RefundStatus.RECONCILIATION_REQUIRED);
+      expect(changes.failureReason).toMatch(/check the gateway/);
+    });
+  });
+
+  describe('reconcileRefund', () => {
+    let refund: any;
+
+    beforeEach(() => {
+      refund = { id: 7, orderId: 1, amount: 1000, status: RefundStatus.RECONCILIATION_REQUIRED, failureReason: 'No gateway response' };
+      mockManager.findOne.mockImplementation(async (entity: any) => (entity === Order ? order : refund));
+    });
+
+    it('should complete a refund the gateway confirms and update the payment status', async () => {
+      refundTotals.completed = 1000;
+
+      const reconciled = await paymentService.reconcileRefund(7, RefundStatus.COMPLETED, { processedById: 3, reference: 'ESW-REF-1' });
+
+      expect(reconciled).toMatchObject({ status: RefundStatus.COMPLETED, gatewayReference: 'ESW-REF-1', failureReason: null, processedById: 3 });
+      expect(mockManager.update).toHaveBeenCalledWith(Order, 1, { paymentStatus: PaymentStatus.REFUNDED });
+    });
+
+    it('should fail a refund the gateway did not pay, releasing its amount', async () => {
+      const reconciled = await paymentService.reconcileRefund(7, RefundStatus.FAILED, { note: 'Not in the merchant statement' });
+
+      expect(reconciled).toMatchObject({ status: RefundStatus.FAILED, failureReason: 'Not in the merchant statement' });
+      expect(mockManager.update).not.toHaveBeenCalled();
+    });
+
+    it("should settle or release the claim of the return the refund pays out", async () => {
+      refund.returnRequestId = 4;
+
+      await paymentService.reconcileRefund(7, RefundStatus.COMPLETED);
+      expect(mockManager.update).toHaveBeenCalledWith(
+        ReturnRequest,
+        { id: 4, status: ReturnStatus.REFUNDING },
+        { status: ReturnStatus.REFUNDED, refundId: 7 }
+      );
+
+      refund.status = RefundStatus.RECONCILIATION_REQUIRED;
+      await paymentService.reconcileRefund(7, RefundStatus.FAILED);
+      expect(mockManager.update).toHaveBeenLastCalledWith(
+        ReturnRequest,
+        { id: 4, status: ReturnStatus.REFUNDING },
+        { status: ReturnStatus.RECEIVED }
+      );
+    });
+
+    it('should only reconcile refunds awaiting reconciliation', async () => {
+      refund.status = RefundStatus.COMPLETED;
+
+      await expect(paymentService.reconcileRefund(7, RefundStatus.FAILED)).rejects.toMatchObject({ status: 400 });
+      expect(mockManager.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,6 +6,10 @@ import { ProductRepository } from '../../repositories/ProductRepository';
 import { CacheService } from '../cache/CacheService';
 import { ImageUploadService } from '../../service/image.upload.service';
 import { InventoryStatus, DiscountType } from '../../entities/product.enum';
+import { StockMovementService } from '../../service/stockMovement.service';
+import { StockMovementReason } from '../../entities/stockMovement.entity';
+import { IStockMovementContext } from '../../interface/stockMovement.interface';
+import { ProductSearchHelper } from '../../utils/helpers/ProductSearchHelper';
 
 /**
  * Refactored Product Service using repository pattern
@@ -15,11 +19,13 @@ export class ProductService {
     private productRepository: ProductRepository;
     private cacheService: CacheService;
     private imageUploadService: ImageUploadService;
+    private stockMovementService: StockMovementService;
 
     constructor(private dataSource: DataSource) {
         this.productRepository = new ProductRepository(dataSource);
         this.cacheService = new CacheService();
         this.imageUploadService = new ImageUploadService();
+        this.stockMovementService = new StockMovementService();
     }
 
     /**
@@ -97,8 +103,7 @@ export class ProductService {
             qb.andWhere('product.dealId = :dealId', { dealId });
         }
         if (search) {
-            const searchPattern = `%${search}%`;
-            qb.andWhere('(LOWER(product.name) ILIKE :searchPattern)', { searchPattern });
+            ProductSearchHelper.applySearch(qb, search);
         }
 
         // Group by
@@ -155,6 +160,8 @@ export class ProductService {
                 )`,
                 'price'
             ).orderBy('price', 'DESC');
+        } else if (search) {
+            ProductSearchHelper.orderByRelevance(qb);
         } else {
             qb.orderBy('product.created_at', 'DESC');
         }
@@ -164,6 +171,10 @@ export class ProductService {
 
         const [data, total] = await qb.getManyAndCount();
 
+        if (search) {
+            await ProductSearchHelper.attachHighlights(this.dataSource.manager, data, search);
+        }
+
         return {
             data,
             total,
@@ -198,9 +209,16 @@ export class ProductService {
     }
 
     /**
-     * Decrement stock with optimistic locking and retry logic
+     * Decrement stock with optimistic locking and retry logic.
+     * Recorded in the stock ledger as a sale unless the context gives another reason.
      */
-    async decrementStock(productId: number, quantity: number, variantId?: number, maxRetries: number = 3): Promise<void> {
+    async decrementStock(
+        productId: number,
+        quantity: number,
+        variantId?: number,
+        maxRetries: number = 3,
+        context: IStockMovementContext = {}
+    ): Promise<void> {
         let attempt = 0;
         let lastError: Error;
 
@@ -227,6 +245,15 @@ export class ProductService {
                             variant.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
 
                         await manager.save(Variant, variant);
+
+                        await this.stockMovementService.record([{
+                            ...context,
+                            productId,
+                            variantId: variant.id,
+                            delta: -quantity,
+                            balanceAfter: variant.stock,
+                            reason: context.reason || StockMovementReason.SALE,
+                        }], manager);
                     } else {
                         // Decrement product stock
                         const product = await manager.findOne(Product, {
@@ -247,6 +274,14 @@ export class ProductService {
                             product.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
 
                         await manager.save(Product, product);
+
+                        await this.stockMovementService.record([{
+                            ...context,
+                            productId,
+                            delta: -quantity,
+                            balanceAfter: product.stock,
+                            reason: context.reason || StockMovementReason.SALE,
+                        }], manager);
                     }
                 });
 
@@ -276,9 +311,10 @@ export class ProductService {
     }
 
     /**
-     * Increment stock for order cancellations
+     * Increment stock for order cancellations.
+     * Recorded in the stock ledger as a cancellation unless the context gives another reason.
      */
-    async incrementStock(productId: number, quantity: number, variantId?: number): Promise<void> {
+    async incrementStock(productId: number, quantity: number, variantId?: number, context: IStockMovementContext = {}): Promise<void> {
         await this.dataSource.transaction(async (manager) => {
             if (variantId) {
                 const variant = await manager.findOne(Variant, { where: { id: String(variantId) } });
@@ -291,6 +327,15 @@ export class ProductService {
                     variant.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
 
                 await manager.save(Variant, variant);
+
+                await this.stockMovementService.record([{
+                    ...context,
+                    productId,
+                    variantId: variant.id,
+                    delta: quantity,
+                    balanceAfter: variant.stock,
+                    reason: context.reason || StockMovementReason.CANCELLATION,
+                }], manager);
             } else {
                 const product = await manager.findOne(Product, { where: { id: productId } });
                 if (!product) {
@@ -302,6 +347,14 @@ export class ProductService {
                     product.stock < 5 ? InventoryStatus.LOW_STOCK : InventoryStatus.AVAILABLE;
 
                 await manager.save(Product, product);
+
+                await this.stockMovementService.record([{
+                    ...context,
+                    productId,
+                    delta: quantity,
+                    balanceAfter: product.stock,
+                    reason: context.reason || StockMovementReason.CANCELLATION,
+                }], manager);
             }
         });
 
@@ -1,15 +1,18 @@
 import Bull, { Queue, Job } from 'bull';
 import { getRedisClient } from '../../config/redis.config';
 import logger from '../../config/logger.config';
+import { EMAIL_DELIVERY } from '../../config/constants';
+import { EmailService } from '../email/EmailService';
+import { ProductImportService } from '../../service/productImport.service';
 
 /**
  * Job data interfaces for different queue types
  */
 export interface EmailJobData {
-  to: string;
-  subject: string;
-  template: string;
-  data: any;
+  // Email log entry holding the template, variables and recipient
+  emailLogId: number;
+  // One-time tokens and codes, which the email log only holds masked
+  sensitiveVariables?: Record<string, unknown>;
 }
 
 export interface ImageJobData {
@@ -24,52 +27,79 @@ export interface NotificationJobData {
   type: string;
 }
 
+export interface ProductImportJobData {
+  // Import job row holding the parsed sheet and the import options
+  importJobId: number;
+}
+
 /**
  * QueueService manages background job processing using Bull
  * 
- * This service provides three queues:
+ * This service provides four queues:
  * - emailQueue: For sending emails asynchronously
  * - imageQueue: For processing and optimizing images
  * - notificationQueue: For sending push notifications
+ * - productImportQueue: For importing large product sheets
  * 
  * Each queue has configured retry logic with exponential backoff
  * 
+ * A single instance is shared by the whole process, so each queue has one worker.
+ * 
  * Requirements: 18.1, 18.2, 18.3, 18.4
  */
 export class QueueService {
+  private static instance: QueueService | null = null;
+
   private emailQueue: Queue<EmailJobData>;
   private imageQueue: Queue<ImageJobData>;
   private notificationQueue: Queue<NotificationJobData>;
+  private productImportQueue: Queue<ProductImportJobData>;
+
+  static getInstance(): QueueService {
+    if (!QueueService.instance) {
+      QueueService.instance = new QueueService();
+    }
+    return QueueService.instance;
+  }
 
   constructor() {
     const redisClient = getRedisClient();
+    const redisUrl = process.env.REDIS_URL;
 
-    if (!redisClient) {
+    if (!redisClient && !redisUrl) {
       logger.warn('QueueService initialized without Redis. Background jobs will be disabled.');
       // Create dummy queues that won't process anything
       this.emailQueue = null as any;
       this.imageQueue = null as any;
       this.notificationQueue = null as any;
+      this.productImportQueue = null as any;
       return;
     }
 
-    // Initialize queues with Redis connection
-    const redisOptions = {
-      redis: {
-        host: redisClient.options.host,
-        port: redisClient.options.port,
-        password: redisClient.options.password,
-      },
+    // Initialize queues with the shared Redis client's connection, or REDIS_URL when it is not initialized
+    const createQueue = <T>(name: string): Queue<T> => {
+      if (!redisClient) {
+        return new Bull<T>(name, redisUrl!);
+      }
+      return new Bull<T>(name, {
+        redis: {
+          host: redisClient.options.host,
+          port: redisClient.options.port,
+          password: redisClient.options.password,
+        },
+      });
     };
 
-    this.emailQueue = new Bull<EmailJobData>('email', redisOptions);
-    this.imageQueue = new Bull<ImageJobData>('image', redisOptions);
-    this.notificationQueue = new Bull<NotificationJobData>('notification', redisOptions);
+    this.emailQueue = createQueue<EmailJobData>('email');
+    this.imageQueue = createQueue<ImageJobData>('image');
+    this.notificationQueue = createQueue<NotificationJobData>('notification');
+    this.productImportQueue = createQueue<ProductImportJobData>('product-import');
 
     // Set up queue processors
     this.setupEmailProcessor();
     this.setupImageProcessor();
     this.setupNotificationProcessor();
+    this.setupProductImportProcessor();
 
     // Set up event listeners
     this.setupEventListeners();
@@ -82,15 +112,11 @@ export class QueueService {
    */
   private setupEmailProcessor(): void {
     this.emailQueue.process(async (job: Job<EmailJobData>) => {
-      logger.info(`Processing email job ${job.id}`, { data: job.data });
+      logger.info(`Processing email job ${job.id}`, { emailLogId: job.data.emailLogId });
 
       try {
-        // TODO: Import and call EmailService.send when implemented
-        // For now, just log the email data
-        logger.info('Email job processed (EmailService not yet implemented)', {
-          to: job.data.to,
-          subject: job.data.subject,
-        });
+        // attemptsMade counts the failed attempts before this one
+        await EmailService.getInstance().deliver(job.data.emailLogId, job.attemptsMade + 1, job.data.sensitiveVariables);
 
         return { success: true };
       } catch (error) {
@@ -145,6 +171,25 @@ export class QueueService {
     });
   }
 
+  /**
+   * Set up product import queue processor
+   */
+  private setupProductImportProcessor(): void {
+    this.productImportQueue.process(async (job: Job<ProductImportJobData>) => {
+      logger.info(`Processing product import job ${job.id}`, { importJobId: job.data.importJobId });
+
+      try {
+        // The import records its own outcome on the import job row
+        await new ProductImportService().runJob(job.data.importJobId);
+
+        return { success: true };
+      } catch (error) {
+        logger.error(`Product import job ${job.id} failed:`, error);
+        throw error;
+      }
+    });
+  }
+
   /**
    * Set up event listeners for all queues
    */
@@ -184,37 +229,52 @@ export class QueueService {
         data: job.data,
       });
     });
+
+    // Product import queue events
+    this.productImportQueue.on('completed', (job: Job) => {
+      logger.info(`Product import job ${job.id} completed successfully`);
+    });
+
+    this.productImportQueue.on('failed', (job: Job, err: Error) => {
+      logger.error(`Product import job ${job.id} failed:`, {
+        error: err.message,
+        data: job.data,
+      });
+    });
   }
 
   /**
    * Add an email job to the queue
    * 
-   * Configuration:
+   * Configuration (EMAIL_DELIVERY):
    * - Attempts: 3
    * - Backoff: exponential starting at 2000ms
    * - Timeout: 10000ms
    * 
    * Requirements: 10.1, 10.4, 18.5, 18.6, 18.8
+   *
+   * @returns false when the queue is not available and the job was skipped
    */
-  async addEmailJob(data: EmailJobData): Promise<void> {
+  async addEmailJob(data: EmailJobData): Promise<boolean> {
     if (!this.emailQueue) {
       logger.warn('Email queue not available, skipping job');
-      return;
+      return false;
     }
 
     try {
       await this.emailQueue.add(data, {
-        attempts: 3,
+        attempts: EMAIL_DELIVERY.ATTEMPTS,
         backoff: {
           type: 'exponential',
-          delay: 2000,
+          delay: EMAIL_DELIVERY.BACKOFF_DELAY,
         },
-        timeout: 10000,
+        timeout: EMAIL_DELIVERY.TIMEOUT,
         removeOnComplete: true,
         removeOnFail: false,
       });
 
-      logger.debug('Email job added to queue', { to: data.to, subject: data.subject });
+      logger.debug('Email job added to queue', { emailLogId: data.emailLogId });
+      return true;
     } catch (error) {
       logger.error('Failed to add email job to queue:', error);
       throw error;
@@ -291,11 +351,42 @@ export class QueueService {
     }
   }
 
+  /**
+   * Add a product import job to the queue
+   * 
+   * Configuration:
+   * - Attempts: 1, as a partly applied import is not retried automatically;
+   *   Bull still re-runs a job whose worker stopped mid-run
+   * - No timeout, large sheets take a while
+   *
+   * @returns false when the queue is not available and the job was skipped
+   */
+  async addProductImportJob(data: ProductImportJobData): Promise<boolean> {
+    if (!this.productImportQueue) {
+      logger.warn('Product import queue not available, skipping job');
+      return false;
+    }
+
+    try {
+      await this.productImportQueue.add(data, {
+        attempts: 1,
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+
+      logger.debug('Product import job added to queue', { importJobId: data.importJobId });
+      return true;
+    } catch (error) {
+      logger.error('Failed to add product import job to queue:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get queue instances for Bull Board monitoring
    */
   getQueues(): Queue[] {
-    return [this.emailQueue, this.imageQueue, this.notificationQueue].filter(Boolean);
+    return [this.emailQueue, this.imageQueue, this.notificationQueue, this.productImportQueue].filter(Boolean);
   }
 
   /**
@@ -305,6 +396,8 @@ export class QueueService {
     if (this.emailQueue) await this.emailQueue.close();
     if (this.imageQueue) await this.imageQueue.close();
     if (this.notificationQueue) await this.notificationQueue.close();
+    if (this.productImportQueue) await this.productImportQueue.close();
+    if (QueueService.instance === this) QueueService.instance = null;
     logger.info('All queues closed');
   }
 }
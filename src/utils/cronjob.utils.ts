@@ -3,16 +3,25 @@ import { User } from "../entities/user.entity";
 import { In, LessThan, Not } from "typeorm";
 import AppDataSource from "../config/db.config";
 import { OrderStatus, Order, PaymentStatus, PaymentMethod } from '../entities/order.entity';
-import { sendOrderStatusEmail } from "./nodemailer.utils";
+import { sendOrderCancelledEmail } from "./nodemailer.utils";
 import { OrderItem } from "../entities/orderItems.entity";
 import { NotificationService } from "../service/notification.service";
 import { Vendor } from "../entities/vendor.entity";
+import { VendorOrder, VendorOrderStatus } from "../entities/vendorOrder.entity";
+import { StockReservationService } from "../service/stockReservation.service";
+import { ProductStatsService } from "../service/productStats.service";
+import { SettlementService } from "../service/settlement.service";
+import { PRODUCT_STATS, REFUNDS, SETTLEMENT } from "../config/constants";
+import { PaymentService } from "../services/payment/PaymentService";
+import { NotificationDispatcher } from "../services/notification/NotificationDispatcher";
+import { NotificationEvent } from "../entities/notificationPreference.enum";
 
 // Helper functions to get repositories (lazy initialization)
 const getUserRepo = () => AppDataSource.getRepository(User);
 const getOrderRepo = () => AppDataSource.getRepository(Order);
 const getOrderItemRepo = () => AppDataSource.getRepository(OrderItem);
 const getVendorRepo = () => AppDataSource.getRepository(Vendor);
+const getVendorOrderRepo = () => AppDataSource.getRepository(VendorOrder);
 
 
 /**
@@ -165,6 +174,8 @@ export const startOrderCleanupJob = () => {
 
                 order.status = OrderStatus.CANCELLED;
                 await orderDB.save(order);
+                await getVendorOrderRepo().update({ orderId: order.id }, { status: VendorOrderStatus.CANCELLED });
+                await new StockReservationService().releaseForOrder(order.id);
                 console.log(`🛑 [ORDER] Order #${order.id} status set to CANCELLED.`);
 
                 const userEmail = order.orderedBy?.email;
@@ -176,37 +187,49 @@ export const startOrderCleanupJob = () => {
                     relations: ["vendor"],
                 });
 
-                const vendorEmails = orderItems
-                    .map((item) => item.vendor?.email)
-                    .filter(Boolean);
+                const vendors = [...new Map(
+                    orderItems
+                        .filter((item) => item.vendor?.email)
+                        .map((item) => [item.vendor.id, item.vendor])
+                ).values()];
 
-                // Send email to user
+                const dispatcher = new NotificationDispatcher();
+
+                // Send email to user, if they receive status changes by email
                 if (userEmail) {
                     console.log(`📧 [EMAIL] Sending cancellation email to user: ${userEmail}`);
-                    await sendOrderStatusEmail(
-                        userEmail,
-                        order.id,
-                        "Cancelled",
-                        `Order #${order.id} Cancelled - Payment Timeout`
-                    );
-                    console.log(`✅ [EMAIL] Sent to user: ${userEmail}`);
+                    await dispatcher.dispatch({
+                        event: NotificationEvent.ORDER_STATUS_CHANGED,
+                        recipient: { userId: order.orderedBy.id },
+                        email: () => sendOrderCancelledEmail(
+                            userEmail,
+                            order.id,
+                            "The payment wasn't completed within 15 minutes.",
+                            { subject: `Order #${order.id} Cancelled - Payment Timeout`, name: userName, canReorder: true }
+                        ),
+                    });
+                    console.log(`✅ [EMAIL] Dispatched to user: ${userEmail}`);
                 } else {
                     console.log(`⚠️ [EMAIL] No user email found for Order #${order.id}`);
                 }
 
-                // Send emails to vendors
-                if (vendorEmails.length) {
+                // Send emails to vendors, if they receive status changes by email
+                if (vendors.length) {
                     console.log(
-                        `📧 [EMAIL] Sending vendor notification to ${vendorEmails.length} vendor(s).`
+                        `📧 [EMAIL] Sending vendor notification to ${vendors.length} vendor(s).`
                     );
-                    for (const vendorEmail of vendorEmails) {
-                        await sendOrderStatusEmail(
-                            vendorEmail,
-                            order.id,
-                            "Cancelled",
-                            `Order #${order.id} Cancelled by System`
-                        );
-                        console.log(`✅ [EMAIL] Sent to vendor: ${vendorEmail}`);
+                    for (const vendor of vendors) {
+                        await dispatcher.dispatch({
+                            event: NotificationEvent.ORDER_STATUS_CHANGED,
+                            recipient: { vendorId: vendor.id },
+                            email: () => sendOrderCancelledEmail(
+                                vendor.email,
+                                order.id,
+                                "The customer's online payment wasn't completed within 15 minutes; you don't need to fulfil it.",
+                                { subject: `Order #${order.id} Cancelled by System`, name: vendor.businessName }
+                            ),
+                        });
+                        console.log(`✅ [EMAIL] Dispatched to vendor: ${vendor.email}`);
                     }
                 } else {
                     console.log(`⚠️ [EMAIL] No vendor email(s) found for Order #${order.id}`);
@@ -229,6 +252,129 @@ export const startOrderCleanupJob = () => {
 };
 
 
+/**
+ * Expiry of stock reservations held for pending online payments.
+ * Runs every minute.
+ *
+ * Logic:
+ * - Mark ACTIVE reservations whose expiresAt has passed as EXPIRED.
+ *
+ * Purpose:
+ * - Expired reservations already stop counting against available stock;
+ *   this keeps their status accurate for reporting and cleanup.
+ */
+export const reservationCleanUp = () => {
+    cron.schedule("* * * * *", async () => { // every minute
+        try {
+            const expired = await new StockReservationService().expireReservations();
+            if (expired > 0) {
+                console.log(`Expired ${expired} stock reservation(s)`);
+            }
+        } catch (err) {
+            console.error("❌ Error in reservation cleanup cron job:", err);
+        }
+    });
+};
+
+
+
+/**
+ * Reconciliation of refunds stuck in PENDING.
+ * Runs every 15 minutes (REFUNDS.RECONCILE_CRON).
+ *
+ * Logic:
+ * - Mark refunds PENDING for longer than REFUNDS.PENDING_TIMEOUT_MINUTES as RECONCILIATION_REQUIRED.
+ *
+ * Purpose:
+ * - A refund whose process stopped during the gateway call may still have been paid out.
+ *   It keeps holding its amount against the order's refundable balance, and shows up for an
+ *   admin to check the gateway and reconcile, instead of looking like it is still in flight.
+ */
+export const refundReconciliation = () => {
+    cron.schedule(REFUNDS.RECONCILE_CRON, async () => {
+        try {
+            const flagged = await new PaymentService().flagStalePendingRefunds();
+            if (flagged > 0) {
+                console.warn(`${flagged} refund(s) stuck in PENDING need reconciliation with the gateway`);
+            }
+        } catch (err) {
+            console.error("❌ Error in refund reconciliation cron job:", err);
+        }
+    });
+};
+
+
+
+/**
+ * Refresh of the product statistics table.
+ * Runs every 15 minutes (PRODUCT_STATS.REFRESH_CRON).
+ *
+ * Logic:
+ * - Recompute units sold, trending score, ratings and discounts of every product.
+ *
+ * Purpose:
+ * - The best-selling, trending, top-rated and discount sorts read these figures
+ *   instead of aggregating orders and reviews on every listing request.
+ */
+export const productStatsRefresh = () => {
+    cron.schedule(PRODUCT_STATS.REFRESH_CRON, async () => {
+        try {
+            await new ProductStatsService().refreshStats();
+        } catch (err) {
+            console.error("❌ Error in product stats cron job:", err);
+        }
+    });
+};
+
+
+
+/**
+ * Vendor settlement ledger sync.
+ * Runs hourly (SETTLEMENT.LEDGER_SYNC_CRON).
+ *
+ * Logic:
+ * - Credit newly delivered order items to their vendor, less commission.
+ * - Debit newly refunded returns and other completed refunds, and give back their commission.
+ *
+ * Purpose:
+ * - Keeps vendor balances and statements current between payout cycles.
+ */
+export const settlementLedgerSync = () => {
+    cron.schedule(SETTLEMENT.LEDGER_SYNC_CRON, async () => {
+        try {
+            const { sales, refunds } = await new SettlementService().syncLedger();
+            if (sales > 0 || refunds > 0) {
+                console.log(`Settlement ledger: credited ${sales} order item(s), debited ${refunds} refund(s)`);
+            }
+        } catch (err) {
+            console.error("❌ Error in settlement ledger cron job:", err);
+        }
+    });
+};
+
+
+
+/**
+ * Vendor payout cycle.
+ * Runs weekly (SETTLEMENT.PAYOUT_CRON); biweekly cycles skip runs within 14 days of the last batch.
+ *
+ * Logic:
+ * - Settle every vendor balance past the return window into a new payout batch for admin approval.
+ */
+export const vendorPayoutCycle = () => {
+    cron.schedule(SETTLEMENT.PAYOUT_CRON, async () => {
+        try {
+            const batch = await new SettlementService().runScheduledPayouts();
+            if (batch) {
+                console.log(`Generated payout batch #${batch.id} with ${batch.payoutCount} payout(s)`);
+            }
+        } catch (err) {
+            console.error("❌ Error in vendor payout cron job:", err);
+        }
+    });
+};
+
+
 
 // un verified vendor  clean up
 export const removeUnverifiedVendors = () => {
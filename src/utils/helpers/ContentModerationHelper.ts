@@ -0,0 +1,68 @@
+import { REVIEW_MODERATION } from '../../config/constants';
+import { containsMaliciousContent } from '../../middlewares/security/sanitize.middleware';
+
+/**
+ * Reasons user-written text is held for moderation
+ */
+export enum ContentFlag {
+  MALICIOUS = 'MALICIOUS',
+  PROFANITY = 'PROFANITY',
+  SPAM = 'SPAM',
+}
+
+const URL_PATTERN = /(https?:\/\/|www\.)\S+/i;
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.]+/;
+const PHONE_PATTERN = /(\+?\d[\d\s-]{8,}\d)/;
+
+/**
+ * ContentModerationHelper utility class
+ * Automated checks on user-written text (reviews) before it is published.
+ *
+ * Script injection is detected with the sanitize middleware's XSS patterns; profanity
+ * and spam (links, contact details, shouting, repeated characters) with simple heuristics.
+ * A flagged text is not rejected here; callers decide whether to hold it for an admin.
+ */
+export class ContentModerationHelper {
+  /**
+   * Checks a text and returns the reasons it should be held, empty when clean.
+   *
+   * @param text - Text to check, as received (already HTML-escaped by the sanitize middleware)
+   * @returns Flags raised by the text
+   */
+  static check(text: string): ContentFlag[] {
+    const flags: ContentFlag[] = [];
+    if (!text) return flags;
+
+    if (containsMaliciousContent(text)) {
+      flags.push(ContentFlag.MALICIOUS);
+    }
+    if (this.containsProfanity(text)) {
+      flags.push(ContentFlag.PROFANITY);
+    }
+    if (this.looksLikeSpam(text)) {
+      flags.push(ContentFlag.SPAM);
+    }
+
+    return flags;
+  }
+
+  private static containsProfanity(text: string): boolean {
+    const words = text.toLowerCase().split(/[^a-z]+/);
+    return words.some((word) => (REVIEW_MODERATION.BANNED_WORDS as readonly string[]).includes(word));
+  }
+
+  private static looksLikeSpam(text: string): boolean {
+    if (URL_PATTERN.test(text) || EMAIL_PATTERN.test(text) || PHONE_PATTERN.test(text)) {
+      return true;
+    }
+
+    const repeated = new RegExp(`(.)\\1{${REVIEW_MODERATION.MAX_REPEATED_CHARACTERS - 1},}`);
+    if (repeated.test(text)) {
+      return true;
+    }
+
+    const letters = text.replace(/[^a-zA-Z]/g, '');
+    const uppercase = letters.replace(/[^A-Z]/g, '').length;
+    return letters.length >= 20 && uppercase / letters.length > REVIEW_MODERATION.MAX_UPPERCASE_RATIO;
+  }
+}
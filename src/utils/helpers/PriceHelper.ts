@@ -0,0 +1,89 @@
+import { Product } from '../../entities/product.entity';
+import { Variant } from '../../entities/variant.entity';
+import { DiscountType } from '../../entities/product.enum';
+import { Deal, DealStatus } from '../../entities/deal.entity';
+
+/**
+ * PriceHelper utility class
+ * Single place for the unit price a customer pays at checkout, so orders and
+ * pre-checkout quotes agree on the same numbers.
+ */
+export class PriceHelper {
+  /**
+   * Unit price charged for a product or one of its variants.
+   * The variant's own discount applies to a selected variant, the product's to a plain product,
+   * the same way the cart prices them and ProductFilterHelper.effectivePriceSql filters them.
+   * A live deal on the product (load the `deal` relation) takes its percentage off on top.
+   *
+   * @param product - Product being bought
+   * @param variant - Selected variant, if any
+   * @returns Unit price
+   */
+  static getUnitPrice(product: Product, variant?: Variant | null): number {
+    const item = variant || product;
+    const price = PriceHelper.getDiscountedPrice(Number(item.basePrice) || 0, Number(item.discount) || 0, item.discountType);
+
+    return PriceHelper.applyDeal(price, product.deal);
+  }
+
+  /**
+   * Price after an item's own discount, never below zero.
+   *
+   * @param basePrice - Price before discount
+   * @param discount - Percentage or flat amount off
+   * @param discountType - How to read the discount; percentage when not set
+   */
+  static getDiscountedPrice(basePrice: number, discount: number, discountType?: DiscountType | null): number {
+    if (discount <= 0) {
+      return basePrice;
+    }
+
+    const discountedPrice = discountType === DiscountType.FLAT
+      ? basePrice - discount
+      : basePrice - (basePrice * (discount / 100));
+
+    return Math.round(Math.max(0, discountedPrice) * 100) / 100;
+  }
+
+  /**
+   * Whether a deal is discounting prices right now.
+   * Checks the time window itself rather than trusting the status, so a scheduled deal
+   * starts and ends on time even between cron runs.
+   *
+   * @param deal - Deal to check
+   * @param now - Reference time
+   */
+  static isDealLive(deal?: Deal | null, now: Date = new Date()): boolean {
+    if (!deal || (deal.status !== DealStatus.ENABLED && deal.status !== DealStatus.SCHEDULED)) {
+      return false;
+    }
+    if (deal.startsAt && now < new Date(deal.startsAt)) {
+      return false;
+    }
+    if (deal.endsAt && now >= new Date(deal.endsAt)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Price after the deal percentage, whether or not the deal is live yet.
+   *
+   * @param price - Price after the product's own discount
+   * @param deal - Deal to apply
+   */
+  static getDealPrice(price: number, deal: Deal): number {
+    const dealDiscount = Number(deal.discountPercentage) || 0;
+    return Math.round((price - (price * dealDiscount / 100)) * 100) / 100;
+  }
+
+  /**
+   * Applies the deal percentage only while the deal is live.
+   *
+   * @param price - Price after the product's own discount
+   * @param deal - Deal the product belongs to, if any
+   */
+  static applyDeal(price: number, deal?: Deal | null): number {
+    return PriceHelper.isDealLive(deal) ? PriceHelper.getDealPrice(price, deal!) : price;
+  }
+}
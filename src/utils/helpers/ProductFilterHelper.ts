@@ -0,0 +1,156 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { APIError } from '../ApiError.utils';
+import { IProductFacetFilters, IProductQueryParams } from '../../interface/product.interface';
+
+/**
+ * Filters that have a facet; a facet is counted with every filter except its own
+ */
+export type ProductFacetKey = 'price' | 'rating' | 'attributes' | 'inStock' | 'discounted';
+
+const ATTRIBUTE_NAME_PATTERN = /^[\w -]{1,50}$/;
+
+/**
+ * Price after the item's own discount, for a table alias with basePrice/discount/discountType;
+ * mirrors PriceHelper.getDiscountedPrice
+ */
+const discountedPrice = (alias: string) => `GREATEST(0, ${alias}."basePrice" - CASE
+    WHEN ${alias}."discountType" = 'FLAT' THEN ${alias}."discount"
+    ELSE ${alias}."basePrice" * ${alias}."discount" / 100.0
+  END)`;
+
+/**
+ * Live deal of the product; mirrors PriceHelper.isDealLive
+ */
+const liveDealCondition = `d."id" = "product"."dealId"
+    AND d."status" IN ('ENABLED', 'SCHEDULED')
+    AND (d."startsAt" IS NULL OR d."startsAt" <= NOW())
+    AND (d."endsAt" IS NULL OR d."endsAt" > NOW())`;
+
+/**
+ * ProductFilterHelper utility class
+ * SQL for the product listing facet filters: effective price, average rating,
+ * variant attributes, availability and discounts.
+ *
+ * All expressions are correlated on the `product` alias and need no joins, so they can be used
+ * both in the listing query and in the facet count queries.
+ */
+export class ProductFilterHelper {
+  /**
+   * Lowest price a shopper pays for the product: its own discounted price or that of its
+   * cheapest variant, less a live deal. Same price the listing sorts by.
+   */
+  static readonly effectivePriceSql = `(LEAST(
+    ${discountedPrice('"product"')},
+    (SELECT MIN(${discountedPrice('v')}) FROM "variants" v WHERE v."product_id" = "product"."id")
+  ) * (1 - COALESCE((SELECT d."discountPercentage" / 100.0 FROM "deals" d WHERE ${liveDealCondition}), 0)))`;
+
+  static readonly averageRatingSql = `(SELECT AVG(r."rating") FROM "reviews" r WHERE r."productId" = "product"."id" AND r."status" = 'APPROVED')`;
+
+  static readonly inStockSql = `("product"."stock" > 0
+    OR EXISTS (SELECT 1 FROM "variants" v WHERE v."product_id" = "product"."id" AND v."stock" > 0))`;
+
+  // Products of suspended vendors are hidden from the storefront until the vendor is reinstated
+  static readonly activeVendorSql = `NOT EXISTS (SELECT 1 FROM "vendor" sv WHERE sv."id" = "product"."vendorId" AND sv."status" = 'SUSPENDED')`;
+
+  static readonly discountedSql = `("product"."discount" > 0
+    OR EXISTS (SELECT 1 FROM "variants" v WHERE v."product_id" = "product"."id" AND v."discount" > 0)
+    OR EXISTS (SELECT 1 FROM "deals" d WHERE ${liveDealCondition}))`;
+
+  /**
+   * Parses the facet filters of a listing query string.
+   *
+   * @param params - Listing query parameters
+   * @returns Parsed filters; in-stock only unless `inStock=false`
+   * @throws {APIError} 400 if a price, rating or attribute filter is invalid
+   */
+  static parseFacetFilters(params: IProductQueryParams): IProductFacetFilters {
+    const number = (value: number | string | undefined, label: string, min: number, max = Infinity) => {
+      if (value === undefined || value === '') return undefined;
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed) || parsed < min || parsed > max) {
+        throw new APIError(400, `${label} must be a number between ${min} and ${max}`);
+      }
+      return parsed;
+    };
+
+    const minPrice = number(params.minPrice, 'Minimum price', 0);
+    const maxPrice = number(params.maxPrice, 'Maximum price', 0);
+    if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+      throw new APIError(400, 'Minimum price cannot be greater than maximum price');
+    }
+
+    const attributes: Record<string, string[]> = {};
+    if (params.attributes !== undefined) {
+      if (typeof params.attributes !== 'object' || Array.isArray(params.attributes)) {
+        throw new APIError(400, 'Attribute filters must look like attributes[color]=red,blue');
+      }
+      for (const [name, raw] of Object.entries(params.attributes)) {
+        if (!ATTRIBUTE_NAME_PATTERN.test(name)) {
+          throw new APIError(400, `Invalid attribute name "${name}"`);
+        }
+        const values = (Array.isArray(raw) ? raw : [raw])
+          .flatMap((value) => String(value).split(','))
+          .map((value) => value.trim().toLowerCase())
+          .filter(Boolean);
+        if (values.length) attributes[name] = [...new Set(values)];
+      }
+    }
+
+    return {
+      minPrice,
+      maxPrice,
+      minRating: number(params.minRating, 'Minimum rating', 1, 5),
+      attributes,
+      inStock: String(params.inStock) !== 'false',
+      discounted: String(params.discounted) === 'true',
+    };
+  }
+
+  /**
+   * Applies the facet filters to a product query using the `product` alias.
+   *
+   * @param qb - Product query
+   * @param filters - Parsed facet filters
+   * @param exclude - Facet to leave out, when counting that facet
+   * @param excludeAttribute - With exclude 'attributes', leave out only this attribute
+   * @returns The same query
+   */
+  static applyFacetFilters<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    filters: IProductFacetFilters,
+    exclude?: ProductFacetKey,
+    excludeAttribute?: string,
+  ): SelectQueryBuilder<T> {
+    if (exclude !== 'price') {
+      if (filters.minPrice !== undefined) {
+        qb.andWhere(`${ProductFilterHelper.effectivePriceSql} >= :minPrice`, { minPrice: filters.minPrice });
+      }
+      if (filters.maxPrice !== undefined) {
+        qb.andWhere(`${ProductFilterHelper.effectivePriceSql} <= :maxPrice`, { maxPrice: filters.maxPrice });
+      }
+    }
+    if (exclude !== 'rating' && filters.minRating !== undefined) {
+      qb.andWhere(`${ProductFilterHelper.averageRatingSql} >= :minRating`, { minRating: filters.minRating });
+    }
+    if (exclude !== 'inStock' && filters.inStock) {
+      qb.andWhere(ProductFilterHelper.inStockSql);
+    }
+    if (exclude !== 'discounted' && filters.discounted) {
+      qb.andWhere(ProductFilterHelper.discountedSql);
+    }
+
+    // One variant has to match every selected attribute, e.g. red in size M
+    const attributeNames = Object.keys(filters.attributes)
+      .filter((name) => exclude !== 'attributes' || (excludeAttribute !== undefined && name !== excludeAttribute));
+    if (attributeNames.length) {
+      const conditions = attributeNames.map((name, index) => {
+        qb.setParameter(`attributeName${index}`, name);
+        qb.setParameter(`attributeValues${index}`, filters.attributes[name]);
+        return `LOWER(v."attributes" ->> :attributeName${index}) IN (:...attributeValues${index})`;
+      });
+      qb.andWhere(`EXISTS (SELECT 1 FROM "variants" v WHERE v."product_id" = "product"."id" AND ${conditions.join(' AND ')})`);
+    }
+
+    return qb;
+  }
+}
@@ -0,0 +1,114 @@
+import { EntityManager, ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { Product } from '../../entities/product.entity';
+import { PRODUCT_SEARCH } from '../../config/constants';
+
+/**
+ * ProductSearchHelper utility class
+ * Full-text product search shared by the product listings.
+ *
+ * Products match on their search vector (name, brand, category and subcategory names,
+ * variant attributes and description, weighted in that order), or on a trigram word
+ * similarity with the name of at least PRODUCT_SEARCH.TRIGRAM_THRESHOLD, so misspelled terms
+ * still find the product.
+ */
+export class ProductSearchHelper {
+  private static readonly config = PRODUCT_SEARCH.TEXT_SEARCH_CONFIG;
+
+  /**
+   * Restricts a product query to products matching the search term and selects their relevance.
+   * The query must use the `product` alias and be grouped by `product.id`.
+   *
+   * @param qb - Product query
+   * @param search - Search term as typed; quotes, `or` and `-` are understood
+   * @returns The same query
+   */
+  static applySearch(qb: SelectQueryBuilder<Product>, search: string): SelectQueryBuilder<Product> {
+    return ProductSearchHelper.selectRelevance(ProductSearchHelper.whereMatches(qb, search), search);
+  }
+
+  /**
+   * Selects the relevance of each product to the search term as `relevance`, without filtering.
+   *
+   * @param qb - Product query
+   * @param search - Search term
+   * @returns The same query
+   */
+  static selectRelevance(qb: SelectQueryBuilder<Product>, search: string): SelectQueryBuilder<Product> {
+    const query = `websearch_to_tsquery('${ProductSearchHelper.config}', :search)`;
+
+    return qb.addSelect(
+      `ts_rank_cd(COALESCE("product"."searchVector", ''::tsvector), ${query}, 32) + word_similarity(:search, "product"."name")`,
+      'relevance'
+    ).setParameter('search', search);
+  }
+
+  /**
+   * Restricts a product query to products matching the search term, without selecting relevance.
+   * The query must use the `product` alias.
+   *
+   * @param qb - Product query
+   * @param search - Search term
+   * @returns The same query
+   */
+  static whereMatches<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, search: string): SelectQueryBuilder<T> {
+    // `<%` can use the trigram index on the name; its threshold is set on every connection (see db.config)
+    return qb.andWhere(
+      `("product"."searchVector" @@ websearch_to_tsquery('${ProductSearchHelper.config}', :search)
+        OR :search <% "product"."name")`,
+      { search }
+    );
+  }
+
+  /**
+   * Orders a query prepared by applySearch by relevance, newest first among equals.
+   *
+   * @param qb - Product query
+   * @returns The same query
+   */
+  static orderByRelevance(qb: SelectQueryBuilder<Product>): SelectQueryBuilder<Product> {
+    return qb.orderBy('relevance', 'DESC').addOrderBy('product.created_at', 'DESC');
+  }
+
+  /**
+   * Sets `searchHighlight` on search results: the name with matched words marked, and the
+   * best matching fragments of the description. The text is HTML-escaped before highlighting,
+   * so the highlight tags are the only markup in the result.
+   *
+   * @param manager - Entity manager to query with
+   * @param products - Products returned for the search
+   * @param search - Search term
+   * @returns The same products
+   */
+  static async attachHighlights(manager: EntityManager, products: Product[], search: string): Promise<Product[]> {
+    if (!products.length) return products;
+
+    const { HIGHLIGHT_START: start, HIGHLIGHT_END: end } = PRODUCT_SEARCH;
+    const rows: { id: number; name: string; description: string }[] = await manager.query(
+      `SELECT "product"."id",
+              ts_headline('${ProductSearchHelper.config}', ${ProductSearchHelper.escapeHtml('"product"."name"')}, query,
+                'HighlightAll=true, StartSel=${start}, StopSel=${end}') AS "name",
+              ts_headline('${ProductSearchHelper.config}', ${ProductSearchHelper.escapeHtml(`COALESCE("product"."description", '')`)}, query,
+                'MaxFragments=2, MinWords=5, MaxWords=20, FragmentDelimiter=" … ", StartSel=${start}, StopSel=${end}') AS "description"
+       FROM "products" "product", websearch_to_tsquery('${ProductSearchHelper.config}', $1) query
+       WHERE "product"."id" = ANY($2)`,
+      [search, products.map((product) => product.id)]
+    );
+
+    const highlights = new Map(rows.map((row) => [Number(row.id), { name: row.name, description: row.description }]));
+    for (const product of products) {
+      product.searchHighlight = highlights.get(product.id);
+    }
+
+    return products;
+  }
+
+  /**
+   * SQL expression escaping the HTML special characters of a text column.
+   *
+   * @param column - Text column or expression
+   * @returns The escaping expression
+   */
+  private static escapeHtml(column: string): string {
+    return `replace(replace(replace(replace(replace(${column}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+  }
+}
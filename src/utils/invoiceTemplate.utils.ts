@@ -0,0 +1,129 @@
+import { IInvoiceDocument, IInvoiceSeller } from "../interface/invoice.interface";
+import { InvoiceType } from "../entities/invoice.entity";
+
+const escapeHtml = (value: unknown): string =>
+    String(value ?? "")
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&#39;");
+
+const money = (value: number) => `Rs ${Number(value).toFixed(2)}`;
+
+const sellerBlock = (seller: IInvoiceSeller) => `
+    <div style="margin-bottom: 8px;">
+        <strong>${escapeHtml(seller.businessName)}</strong><br>
+        ${seller.taxNumber ? `PAN/VAT No: ${escapeHtml(seller.taxNumber)}<br>` : ""}
+        ${seller.businessRegNumber ? `Reg. No: ${escapeHtml(seller.businessRegNumber)}<br>` : ""}
+        ${seller.district ? `${escapeHtml(seller.district)}<br>` : ""}
+        ${seller.phoneNumber ? `Phone: ${escapeHtml(seller.phoneNumber)}` : ""}
+    </div>
+`;
+
+/**
+ * Renders a tax invoice as a printable, standalone HTML page.
+ * @param doc - Invoice with order, customer, seller and line details
+ */
+export const generateInvoiceHTML = (doc: IInvoiceDocument) => {
+    const { invoice, customer } = doc;
+    const vatPercent = Number(invoice.vatRate) * 100;
+
+    const rows = doc.lines.map((line, index) => `
+        <tr>
+            <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${index + 1}</td>
+            <td style="padding: 8px; border: 1px solid #ddd;">
+                ${escapeHtml(line.name)}${line.sku ? ` (${escapeHtml(line.sku)})` : ""}
+                ${line.variantAttributes
+            ? `<br><small>${Object.entries(line.variantAttributes)
+                .map(([key, val]) => `${escapeHtml(key)}: ${escapeHtml(val)}`)
+                .join(", ")}</small>`
+            : ""}
+            </td>
+            <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${line.quantity}</td>
+            <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${money(line.unitPrice)}</td>
+            <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">${money(line.amount)}</td>
+        </tr>
+    `).join("");
+
+    const totalRow = (label: string, value: string, bold = false) => `
+        <tr>
+            <td colspan="4" style="padding: 8px; border: 1px solid #ddd; text-align: right;${bold ? " font-weight: bold;" : ""}">${label}</td>
+            <td style="padding: 8px; border: 1px solid #ddd; text-align: right;${bold ? " font-weight: bold;" : ""}">${value}</td>
+        </tr>
+    `;
+
+    return `
+        <!DOCTYPE html>
+        <html lang="en">
+        <head>
+            <meta charset="UTF-8">
+            <title>Tax Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+        </head>
+        <body style="font-family: Arial, sans-serif; margin: 0; padding: 0; color: #333333;">
+            <div style="max-width: 800px; margin: 20px auto; padding: 20px; border: 1px solid #e0e0e0;">
+
+                <header style="display: flex; justify-content: space-between; border-bottom: 2px solid #333; padding-bottom: 10px;">
+                    <div>
+                        <h1 style="margin: 0; font-size: 24px;">Tax Invoice</h1>
+                        <p style="margin: 4px 0;">${invoice.type === InvoiceType.VENDOR ? "Vendor sub-order invoice" : "Dajuvai"}</p>
+                    </div>
+                    <div style="text-align: right;">
+                        <p style="margin: 4px 0;"><strong>Invoice No:</strong> ${escapeHtml(invoice.invoiceNumber)}</p>
+                        <p style="margin: 4px 0;"><strong>Invoice Date:</strong> ${new Date(invoice.issuedAt).toLocaleDateString("en-GB")}</p>
+                        <p style="margin: 4px 0;"><strong>Order No:</strong> #${doc.orderId}</p>
+                        <p style="margin: 4px 0;"><strong>Order Date:</strong> ${new Date(doc.orderDate).toLocaleDateString("en-GB")}</p>
+                    </div>
+                </header>
+
+                <section style="display: flex; justify-content: space-between; margin: 20px 0;">
+                    <div style="width: 48%;">
+                        <h3 style="margin: 0 0 8px;">Sold By</h3>
+                        ${doc.sellers.map(sellerBlock).join("")}
+                    </div>
+                    <div style="width: 48%;">
+                        <h3 style="margin: 0 0 8px;">Bill To</h3>
+                        <strong>${escapeHtml(customer.name)}</strong><br>
+                        ${customer.address ? `${escapeHtml(customer.address)}<br>` : ""}
+                        ${customer.phoneNumber ? `Phone: ${escapeHtml(customer.phoneNumber)}<br>` : ""}
+                        ${customer.email ? `Email: ${escapeHtml(customer.email)}` : ""}
+                    </div>
+                </section>
+
+                <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse: collapse;">
+                    <thead>
+                        <tr style="background-color: #f0f0f0;">
+                            <th style="padding: 8px; border: 1px solid #ddd;">S.N.</th>
+                            <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Description</th>
+                            <th style="padding: 8px; border: 1px solid #ddd;">Qty</th>
+                            <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Rate</th>
+                            <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        ${rows}
+                    </tbody>
+                    <tfoot>
+                        ${totalRow("Subtotal", money(invoice.subtotal))}
+                        ${Number(invoice.discount) > 0
+            ? totalRow(`Discount${doc.appliedPromoCode ? ` (${escapeHtml(doc.appliedPromoCode)})` : ""}`, `- ${money(invoice.discount)}`)
+            : ""}
+                        ${totalRow("Shipping Fee", money(invoice.shippingFee))}
+                        ${Number(invoice.serviceCharge) > 0 ? totalRow("Service Charge", money(invoice.serviceCharge)) : ""}
+                        ${totalRow("Taxable Amount", money(invoice.taxableAmount))}
+                        ${totalRow(`VAT (${vatPercent}%)`, money(invoice.vatAmount))}
+                        ${totalRow("Grand Total", money(invoice.total), true)}
+                    </tfoot>
+                </table>
+
+                <p style="margin-top: 20px; font-size: 14px;">
+                    Payment: ${escapeHtml(doc.paymentMethod)} (${escapeHtml(doc.paymentStatus)})
+                </p>
+                <p style="font-size: 12px; color: #888888;">
+                    All prices are inclusive of ${vatPercent}% VAT. This is a computer generated invoice.
+                </p>
+            </div>
+        </body>
+        </html>
+    `;
+};
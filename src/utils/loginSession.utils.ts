@@ -0,0 +1,88 @@
+import { Response } from "express";
+import jwt from "jsonwebtoken";
+import { User } from "../entities/user.entity";
+import { Vendor } from "../entities/vendor.entity";
+
+/**
+ * Login endpoint a session is started for; each has its own token lifetime, cookie and response body.
+ * - admin: POST /api/auth/admin/login
+ * - user: POST /api/auth/login (customers and staff)
+ * - vendor: POST /api/vendors/login
+ */
+export type LoginSession = "admin" | "user" | "vendor";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Signs the login JWT, sets its cookie and sends the login response.
+ * Shared by the password logins and the two-factor step that completes them,
+ * so both respond the same way.
+ *
+ * @param res - Express response
+ * @param session - Login endpoint the session is for
+ * @param account - User for admin and user sessions, vendor for vendor sessions
+ * @param extra - Additional response fields, e.g. recovery codes issued during login
+ */
+export const sendLoginSession = (
+    res: Response,
+    session: LoginSession,
+    account: User | Vendor,
+    extra: Record<string, unknown> = {}
+): void => {
+    const secret = process.env.JWT_SECRET || "your_jwt_secret";
+
+    if (session === "vendor") {
+        const vendor = account as Vendor;
+        const token = jwt.sign(
+            { id: vendor.id, email: vendor.email, businessName: vendor.businessName },
+            secret,
+            { expiresIn: "2h" }
+        );
+        res.cookie("vendorToken", token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            sameSite: "strict",
+            maxAge: 2 * HOUR_MS,
+        });
+        res.status(200).json({
+            success: true,
+            vendor: { id: vendor.id, email: vendor.email, businessName: vendor.businessName },
+            token,
+            ...extra,
+        });
+        return;
+    }
+
+    const user = account as User;
+
+    if (session === "admin") {
+        const token = jwt.sign({ id: user.id, email: user.email, role: user.role }, secret, { expiresIn: "7d" });
+        res.cookie("token", token, {
+            httpOnly: true,
+            secure: process.env.NODE_ENV === "production",
+            maxAge: 7 * 24 * HOUR_MS,
+        });
+        res.status(200).json({
+            success: true,
+            message: "Admin logged in successfully",
+            token,
+            data: { id: user.id, username: user.username, email: user.email, role: user.role, token },
+            ...extra,
+        });
+        return;
+    }
+
+    const token = jwt.sign({ id: user.id, email: user.email, role: user.role }, secret, { expiresIn: "2h" });
+    res.cookie("token", token, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === "production",
+        sameSite: "strict",
+        maxAge: 2 * HOUR_MS,
+    });
+    res.status(200).json({
+        success: true,
+        token,
+        data: { userId: user.id, email: user.email, role: user.role },
+        ...extra,
+    });
+};
@@ -1,18 +1,9 @@
-import nodemailer from "nodemailer";
-import { config } from "dotenv";
 import { ContactInput } from "./zod_validations/contact.zod";
 import { generateContactEmailHTML } from "./emailTemplate.utils";
-
-config(); // Load environment variables from .env
-
-// Configure nodemailer transporter with Gmail SMTP using credentials from env
-const transporter = nodemailer.createTransport({
-  service: "Gmail",
-  auth: {
-    user: process.env.USER_EMAIL, // Your Gmail email address
-    pass: process.env.PASS_EMAIL  // App password or actual password (prefer app password for security)
-  }
-});
+import { IInvoiceAttachment } from "../interface/invoice.interface";
+import { MAIL_FROM, transporter } from "../config/mailer.config";
+import { EMAIL_TEMPLATES } from "../config/constants";
+import { EmailService } from "../services/email/EmailService";
 
 /**
  * Sends an email when the contact form is submitted.
@@ -32,48 +23,177 @@ export const sendContactEmail = async (dto: ContactInput) => {
 };
 
 /**
- * Sends a verification email containing a 6-digit token to the specified recipient.
+ * Queues a verification email containing a 6-digit token to the specified recipient.
  * @param to - Recipient email address
  * @param sub - Subject line for the verification email
  * @param token - Verification code to include in the email body
  */
-export const sendVerificationEmail = async (to: string, sub: string, token?: string) => {
-  const loginUrl = "https://dev.api.dajuvai.com/api/vendors/login"
+export const sendVerificationEmail = async (to: string, sub: string, token: string) => {
+  await EmailService.getInstance().send(EMAIL_TEMPLATES.VERIFICATION, to, { token }, { subject: sub });
+};
+
+/**
+ * Queues a password reset email containing a 6-digit reset code.
+ * @param to - Recipient email address
+ * @param token - Reset code to include in the email body
+ */
+export const sendPasswordResetEmail = async (to: string, token: string) => {
+  await EmailService.getInstance().send(EMAIL_TEMPLATES.PASSWORD_RESET, to, { token });
+};
+
+/**
+ * Tells a vendor their account has been approved.
+ * @param to - Vendor email address
+ */
+export const sendVendorApprovedEmail = async (to: string) => {
+  const mailOptions = {
+    from: MAIL_FROM,
+    to,
+    subject: "Your account has been approved",
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.5; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #f9f9f9;">
+        <h2 style="color: #2E7D32; text-align: center;">Vendor Approved ✅</h2>
+        <p style="font-size: 16px; text-align: center;">
+          Congratulations! Your account has been successfully approved as a vendor.
+        </p>
+        <p style="font-size: 16px; text-align: center;">
+          You can now log in to your account via the app and start using your vendor features.
+        </p>
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+        <p style="font-size: 12px; color: #888; text-align: center;">
+          If you did not expect this email, please contact our support team immediately.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Tells a vendor which KYC documents were rejected and why, with the link to re-upload them.
+ * @param to - Vendor email address
+ * @param businessName - Vendor business name
+ * @param rejections - Rejected documents with the reviewer's reason
+ * @param resubmitUrl - Link to the re-upload page, including the resubmission token
+ */
+export const sendKycDocumentsRejectedEmail = async (
+  to: string,
+  businessName: string,
+  rejections: { document: string; reason: string }[],
+  resubmitUrl: string
+) => {
   const mailOptions = {
-    from: `<${process.env.USER_EMAIL}>`,
+    from: MAIL_FROM,
     to,
-    subject: sub,
+    subject: "Action required: please re-upload your documents",
     html: `
-        <div>
-            ${token ? `
-                <h2>Email Verification</h2>
-                <p>Your 6-digit verification code is:</p>
-                <h3>${token}</h3>
-                <p>This code will expire in 2 minutes</p>
-            ` : `
-                <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.5; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #f9f9f9;">
-                    <h2 style="color: #2E7D32; text-align: center;">Vendor Approved ✅</h2>
-                    <p style="font-size: 16px; text-align: center;">
-                        Congratulations! Your account has been successfully approved as a vendor.
-                    </p>
-                    <p style="font-size: 16px; text-align: center;">
-                        You can now log in to your account via the app and start using your vendor features.
-                    </p>
-                    <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
-                    <p style="font-size: 12px; color: #888; text-align: center;">
-                        If you did not expect this email, please contact our support team immediately.
-                    </p>
-                </div>
-            `}
+      <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.5; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #f9f9f9;">
+        <h2 style="color: #c62828; text-align: center;">Documents Rejected</h2>
+        <p style="font-size: 16px;">Hi <strong>${businessName}</strong>,</p>
+        <p style="font-size: 16px;">We could not verify the following documents you submitted:</p>
+        <ul style="font-size: 16px;">
+          ${rejections.map((rejection) => `<li><strong>${rejection.document}</strong>: ${rejection.reason}</li>`).join("")}
+        </ul>
+        <p style="font-size: 16px;">Please upload new copies so we can continue reviewing your vendor account.</p>
+        <div style="text-align: center; margin: 20px 0;">
+          <a href="${resubmitUrl}" style="display: inline-block; padding: 10px 20px; border-radius: 6px; background-color: #2E7D32; color: white; text-decoration: none; font-weight: bold;">
+            Re-upload documents
+          </a>
         </div>
+        <p style="font-size: 12px; color: #888; text-align: center;">This link expires in 7 days.</p>
+      </div>
     `
   };
 
+  await transporter.sendMail(mailOptions);
+};
+
+/**
+ * Tells a vendor their account was suspended or reinstated.
+ * @param to - Vendor email address
+ * @param businessName - Vendor business name
+ * @param suspended - True for a suspension, false for a reinstatement
+ * @param reason - Suspension reason shown to the vendor
+ */
+export const sendVendorSuspensionEmail = async (
+  to: string,
+  businessName: string,
+  suspended: boolean,
+  reason?: string | null
+) => {
+  const mailOptions = {
+    from: MAIL_FROM,
+    to,
+    subject: suspended ? "Your vendor account has been suspended" : "Your vendor account has been reinstated",
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.5; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #f9f9f9;">
+        <h2 style="color: ${suspended ? "#c62828" : "#2E7D32"}; text-align: center;">
+          ${suspended ? "Account Suspended" : "Account Reinstated ✅"}
+        </h2>
+        <p style="font-size: 16px;">Hi <strong>${businessName}</strong>,</p>
+        ${suspended ? `
+          <p style="font-size: 16px;">Your vendor account has been suspended and your products are hidden from the store.</p>
+          ${reason ? `<p style="font-size: 16px;"><strong>Reason:</strong> ${reason}</p>` : ""}
+        ` : `
+          <p style="font-size: 16px;">Your vendor account is active again and your products are back in the store. You can log in as usual.</p>
+        `}
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+        <p style="font-size: 12px; color: #888; text-align: center;">
+          If you have any questions, please contact our support team.
+        </p>
+      </div>
+    `
+  };
 
-  // Send the verification email
   await transporter.sendMail(mailOptions);
 };
 
+/**
+ * Tells a customer the seller replied to their product review.
+ * @param to - Customer email address
+ * @param productName - Reviewed product
+ * @param reply - The seller's reply
+ */
+export const sendReviewReplyEmail = async (to: string, productName: string, reply: string) => {
+  const mailOptions = {
+    from: MAIL_FROM,
+    to,
+    subject: `The seller replied to your review of ${productName}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.5; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #f9f9f9;">
+        <h2 style="color: #1976d2; text-align: center;">New Reply to Your Review</h2>
+        <p style="font-size: 16px;">The seller of <strong>${productName}</strong> replied to your review:</p>
+        <blockquote style="font-size: 16px; margin: 20px 0; padding: 10px 20px; border-left: 4px solid #1976d2; background-color: #fff;">
+          ${reply}
+        </blockquote>
+        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
+        <p style="font-size: 12px; color: #888; text-align: center;">
+          You can change which emails you receive in your notification settings.
+        </p>
+      </div>
+    `
+  };
+
+  await transporter.sendMail(mailOptions);
+};
+
+// "Color: Red, Size: M" for a variant's attributes
+const formatAttributes = (attributes?: Record<string, string> | null) =>
+  attributes
+    ? Object.entries(attributes).map(([key, val]) => `${key}: ${val}`).join(", ")
+    : "";
+
+/**
+ * Queues the order confirmation for the customer, with items grouped by vendor district
+ * and a delivery estimate per item.
+ * @param to - Customer email address
+ * @param orderId - Order ID
+ * @param items - Ordered items with their vendor's district
+ * @param userDistrict - Delivery district, for the delivery estimates
+ * @param subject - Subject line
+ * @param invoice - Tax invoice to attach
+ */
 export const sendCustomerOrderEmail = async (
   to: string,
   orderId: number,
@@ -87,7 +207,8 @@ export const sendCustomerOrderEmail = async (
     vendorName?: string | null; // optional if you want vendor name
   }[],
   userDistrict?: string | null,
-  subject = "Your Order Has Been Placed"
+  subject = "Your Order Has Been Placed",
+  invoice?: IInvoiceAttachment | null
 ) => {
   const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
@@ -101,135 +222,31 @@ export const sendCustomerOrderEmail = async (
     groupedByVendor[vendorKey].push(item);
   }
 
-  // Generate vendor sections
-  const vendorSections = Object.entries(groupedByVendor).map(
-    ([vendorDistrict, vendorItems]) => {
-      const rows = vendorItems.map((item) => {
-        console.log("Comparing districts ->", {
-          userDistrict,
-          vendorDistrict: item.vendorDistrict,
-        });
-
-        let deliveryEstimate = "3-5 days";
-        if (userDistrict && item.vendorDistrict) {
-          if (
-            userDistrict.trim().toLowerCase() ===
-            item.vendorDistrict.trim().toLowerCase()
-          ) {
-            deliveryEstimate = "2-3 days";
-          }
-        }
-
-        return `
-          <tr>
-            <td style="padding:8px; border:1px solid #ddd;">
-              <strong>${item.name}</strong>${item.sku ? ` (${item.sku})` : ""}
-              ${item.variantAttributes
-            ? `<br>${Object.entries(item.variantAttributes)
-              .map(([key, val]) => `${key}: ${val}`)
-              .join(", ")}`
-            : ""
-          }
-            </td>
-            <td style="padding:8px; border:1px solid #ddd; text-align:center;">${item.quantity
-          }</td>
-            <td style="padding:8px; border:1px solid #ddd; text-align:right;">Rs ${item.price
-          }</td>
-            <td style="padding:8px; border:1px solid #ddd; text-align:right;">Rs ${(
-            item.price * item.quantity
-          ).toFixed(2)}</td>
-            <td style="padding:8px; border:1px solid #ddd; text-align:center;">${deliveryEstimate}</td>
-          </tr>
-        `;
-      });
-
-      const vendorSubtotal = vendorItems.reduce(
-        (sum, i) => sum + i.price * i.quantity,
-        0
-      );
-
-      return `
-        <h4 style="margin-top:20px;">Vendor District: ${vendorDistrict}</h4>
-        <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse; margin-bottom:20px;">
-          <thead>
-            <tr style="background-color:#f0f0f0;">
-              <th style="padding:8px; border:1px solid #ddd; text-align:left;">Product</th>
-              <th style="padding:8px; border:1px solid #ddd; text-align:center;">Qty</th>
-              <th style="padding:8px; border:1px solid #ddd; text-align:right;">Price</th>
-              <th style="padding:8px; border:1px solid #ddd; text-align:right;">Subtotal</th>
-              <th style="padding:8px; border:1px solid #ddd; text-align:center;">Delivery</th>
-            </tr>
-          </thead>
-          <tbody>
-            ${rows.join("")}
-          </tbody>
-          <tfoot>
-            <tr>
-              <td colspan="4" style="padding:8px; border:1px solid #ddd; text-align:right; font-weight:bold;">Vendor Subtotal:</td>
-              <td style="padding:8px; border:1px solid #ddd; text-align:right; font-weight:bold;">Rs ${vendorSubtotal.toFixed(
-        2
-      )}</td>
-            </tr>
-          </tfoot>
-        </table>
-      `;
-    }
-  );
-
-  const mailOptions = {
-    from: `<${process.env.USER_EMAIL}>`,
+  const sections = Object.entries(groupedByVendor).map(([district, vendorItems]) => ({
+    district,
+    subtotal: vendorItems.reduce((sum, item) => sum + item.price * item.quantity, 0).toFixed(2),
+    items: vendorItems.map((item) => {
+      const sameDistrict = !!userDistrict && !!item.vendorDistrict &&
+        userDistrict.trim().toLowerCase() === item.vendorDistrict.trim().toLowerCase();
+
+      return {
+        name: item.name,
+        sku: item.sku || null,
+        attributes: formatAttributes(item.variantAttributes),
+        quantity: item.quantity,
+        price: item.price,
+        subtotal: (item.price * item.quantity).toFixed(2),
+        deliveryEstimate: sameDistrict ? "2-3 days" : "3-5 days",
+      };
+    }),
+  }));
+
+  await EmailService.getInstance().send(
+    EMAIL_TEMPLATES.ORDER_CONFIRMATION,
     to,
-    subject,
-    html: `
-      <body style="margin:0; padding:0; font-family: Arial, sans-serif; background-color:#f9f9f9;">
-        <table width="100%" cellpadding="0" cellspacing="0" border="0">
-          <tr>
-            <td align="center">
-              <table width="700" cellpadding="0" cellspacing="0" border="0" style="max-width:95%; background-color:#fff; border:1px solid #e0e0e0; border-radius:8px; padding:20px;">
-                <tr>
-                  <td style="text-align:center;">
-                    <h2 style="color:#2E7D32; margin:0;">Order Confirmation ✅</h2>
-                    <p style="font-size:16px; margin:10px 0;">
-                      Thank you for your order! Your order <strong>#${orderId}</strong> has been successfully placed.
-                    </p>
-                  </td>
-                </tr>
-
-                <tr>
-                  <td>
-                    <h3 style="margin-top:20px; margin-bottom:10px;">Order Summary</h3>
-                    ${vendorSections.join("")}
-                    <table width="100%" cellpadding="0" cellspacing="0" border="0" style="border-collapse:collapse;">
-                      <tfoot>
-                        <tr>
-                          <td colspan="4" style="padding:8px; border:1px solid #ddd; text-align:right; font-weight:bold;">Total:</td>
-                          <td style="padding:8px; border:1px solid #ddd; text-align:right; font-weight:bold;">Rs ${total.toFixed(2)}</td>
-                        </tr>
-                      </tfoot>
-                    </table>
-                  </td>
-                </tr>
-
-                <tr>
-                  <td style="padding-top:20px; font-size:14px;">
-                    We are processing your order and will notify you once it has been shipped.
-                  </td>
-                </tr>
-
-                <tr>
-                  <td style="padding-top:20px; border-top:1px solid #e0e0e0; font-size:12px; color:#888; text-align:center;">
-                    If you did not place this order or have any concerns, please contact our support team immediately.
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-        </table>
-      </body>
-    `,
-  };
-
-  await transporter.sendMail(mailOptions);
+    { orderId, sections, total: total.toFixed(2), hasInvoice: !!invoice },
+    { subject, attachments: invoice ? [invoice] : [] }
+  );
 };
 
 
@@ -251,6 +268,15 @@ interface CustomerInfo {
   landmark?: string;
 }
 
+/**
+ * Queues the new order email for a vendor, with the customer's contact details and the vendor's items.
+ * @param to - Vendor email address
+ * @param paymentMethod - Payment method of the order
+ * @param orderId - Order ID
+ * @param products - The vendor's items in the order
+ * @param customer - Customer contact and delivery details
+ * @param subject - Subject line
+ */
 export const sendVendorOrderEmail = async (
   to: string,
   paymentMethod: string,
@@ -259,33 +285,10 @@ export const sendVendorOrderEmail = async (
   customer: CustomerInfo,
   subject = "New Order Received"
 ) => {
-  // Generate HTML rows for each product
-  const productList = products.map(item => {
-    let variantAttributes = "";
-    if (item.variantAttributes) {
-      variantAttributes =
-        " (" +
-        Object.entries(item.variantAttributes)
-          .map(([key, val]) => `${key}: ${val}`)
-          .join(", ") +
-        ")";
-    }
-
-    return `
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;">${item.name}${variantAttributes}</td>
-        <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${item.sku || "-"}</td>
-        <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${item.quantity}</td>
-        <td style="padding: 8px; border: 1px solid #ddd; text-align: right;">Rs ${item.price}</td>
-      </tr>
-    `;
-  }).join("");
-
-  // Calculate total price
-  const totalPrice = products.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const total = products.reduce((sum, item) => sum + item.price * item.quantity, 0);
 
   // Combine address fields into a single string
-  const fullAddress = [
+  const address = [
     customer.localAddress,
     customer.landmark,
     customer.city,
@@ -294,114 +297,66 @@ export const sendVendorOrderEmail = async (
     .filter(Boolean)
     .join(", ");
 
-  // Email HTML
-  const mailHtml = `
-    <div style="font-family: Arial, sans-serif; max-width: 650px; margin: auto; padding: 20px; background: #ffffff; border-radius: 8px; border: 1px solid #e0e0e0;">
-      
-      <!-- Header -->
-      <h2 style="color: #333; text-align: center;">🛒 New Order Received</h2>
-      <p style="text-align: center; font-size: 16px;">
-        Order <strong>#${orderId}</strong> has been placed. Please review and fulfill it promptly.
-      </p>
-
-      <!-- Customer Info -->
-      <div style="margin-bottom: 20px;">
-        <h3>Customer Details</h3>
-        <p><strong>Name:</strong> ${customer.name}</p>
-        ${customer.email ? `<p><strong>Email:</strong> ${customer.email}</p>` : ""}
-        <p><strong>Phone:</strong> ${customer.phone}</p>
-        ${fullAddress ? `<p><strong>Address:</strong> ${fullAddress}</p>` : ""}
-        <p><strong>Payment Method:</strong> ${paymentMethod}</p>
-      </div>
-
-      <!-- Products Table -->
-      <h3>Order Items</h3>
-      <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px;">
-        <thead>
-          <tr style="background-color: #f5f5f5;">
-            <th style="padding: 8px; border: 1px solid #ddd;">Product</th>
-            <th style="padding: 8px; border: 1px solid #ddd;">SKU</th>
-            <th style="padding: 8px; border: 1px solid #ddd;">Qty</th>
-            <th style="padding: 8px; border: 1px solid #ddd; text-align: right;">Price</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${productList}
-        </tbody>
-      </table>
-
-      <!-- Total -->
-      <p style="text-align: right; font-size: 16px; margin-bottom: 30px;">
-        <strong>Total: Rs ${totalPrice.toFixed(2)}</strong>
-      </p>
-
-      <!-- Footer -->
-      <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
-      <p style="font-size: 13px; text-align: center; color: #666;">
-        This is an automated notification. Contact support if there are any issues with this order.
-      </p>
-    </div>
-  `;
-
-  // Send email
-  await transporter.sendMail({
-    from: `<${process.env.USER_EMAIL}>`,
+  await EmailService.getInstance().send(
+    EMAIL_TEMPLATES.VENDOR_NEW_ORDER,
     to,
-    subject,
-    html: mailHtml
-  });
+    {
+      orderId,
+      paymentMethod,
+      customer: { name: customer.name, email: customer.email || null, phone: customer.phone, address },
+      products: products.map((item) => ({
+        name: item.name,
+        sku: item.sku || null,
+        attributes: formatAttributes(item.variantAttributes),
+        quantity: item.quantity,
+        price: item.price,
+      })),
+      total: total.toFixed(2),
+    },
+    { subject }
+  );
 };
 
-
+/**
+ * Queues an order status update email.
+ * @param to - Customer or vendor email address
+ * @param orderId - Order ID
+ * @param status - New order status
+ * @param subject - Subject line
+ */
 export const sendOrderStatusEmail = async (
   to: string,
   orderId: number,
   status: string,
   subject = "Your Order Status Has Been Updated"
 ) => {
-  const mailOptions = {
-    from: `<${process.env.USER_EMAIL}>`,
+  await EmailService.getInstance().send(
+    EMAIL_TEMPLATES.ORDER_STATUS_UPDATE,
     to,
-    subject,
-    html: `
-      <div style="font-family: Arial, sans-serif; color: #333; line-height: 1.6; max-width: 600px; margin: auto; padding: 20px; border: 1px solid #e0e0e0; border-radius: 8px; background-color: #e3f2fd;">
-        <h2 style="color: #1976d2; text-align: center;">Order Update 📦</h2>
-        
-        <p style="font-size: 16px; text-align: center;">
-          The status of your order <strong>#${orderId}</strong> has been updated to:.
-        </p>
-        
-        <div style="text-align: center; margin: 20px 0;">
-          <span style="display: inline-block; padding: 10px 20px; border-radius: 6px; background-color: #1976d2; color: white; font-size: 16px; font-weight: bold;">
-            ${status.toUpperCase()}
-          </span>
-        </div>
-
-        <p style="font-size: 16px; text-align: center;">
-          You can track your order in your account for more details.
-        </p>
-        
-        <hr style="border: none; border-top: 1px solid #e0e0e0; margin: 20px 0;">
-        
-        <p style="font-size: 12px; color: #888; text-align: center;">
-          If you have any questions, please contact our support team.
-        </p>
-      </div>
-    `
-  };
-
-  await transporter.sendMail(mailOptions);
+    { orderId, status: status.toUpperCase() },
+    { subject }
+  );
 };
 
+/**
+ * Queues an order cancellation email.
+ * @param to - Customer or vendor email address
+ * @param orderId - Order ID
+ * @param reason - Why the order was cancelled, shown in the email body
+ * @param options - Subject line, the recipient's name, and whether to suggest placing the order again
+ */
+export const sendOrderCancelledEmail = async (
+  to: string,
+  orderId: number,
+  reason: string,
+  options: { subject?: string; name?: string | null; canReorder?: boolean } = {}
+) => {
+  const { subject, name = null, canReorder = false } = options;
 
-
-export const userOrderCancelledEmail = (userName: string, orderId: number) => `
-  <div style="font-family: Arial, sans-serif; padding: 20px; color: #333;">
-    <h2 style="color: #e63946;">Order Cancelled</h2>
-    <p>Hi <strong>${userName}</strong>,</p>
-    <p>Your order <strong>#${orderId}</strong> has been automatically cancelled because the payment wasn’t completed within 15 minutes.</p>
-    <p>If this was a mistake, please place your order again.</p>
-    <br/>
-    <p>Best regards,<br/><strong>Your Shop Team</strong></p>
-  </div>
-`;
\ No newline at end of file
+  await EmailService.getInstance().send(
+    EMAIL_TEMPLATES.ORDER_CANCELLED,
+    to,
+    { orderId, reason, name, canReorder },
+    { subject }
+  );
+};
@@ -0,0 +1,136 @@
+import { Readable } from 'stream';
+import { APIError } from './ApiError.utils';
+
+/**
+ * Column layout shared by the vendor product export and the bulk import.
+ *
+ * A product row has a Name. Rows below it without a Name but with a SKU are its variants.
+ * Columns marked export-only are written on export and ignored on import.
+ */
+export const PRODUCT_SHEET_COLUMNS = [
+    { header: 'ID', key: 'id', width: 10 },
+    { header: 'Name', key: 'name', width: 30 },
+    { header: 'Description', key: 'description', width: 50 },
+    { header: 'Base Price', key: 'basePrice', width: 15 },
+    { header: 'Discount', key: 'discount', width: 12 },
+    { header: 'Discount Type', key: 'discountType', width: 15 },
+    { header: 'Final Price', key: 'finalPrice', width: 15 }, // export-only
+    { header: 'Stock', key: 'stock', width: 10 },
+    { header: 'Status', key: 'status', width: 15 }, // export-only
+    { header: 'Has Variants', key: 'hasVariants', width: 15 },
+    { header: 'Vendor', key: 'vendor', width: 25 }, // export-only
+    { header: 'Brand', key: 'brand', width: 20 },
+    { header: 'Created At', key: 'createdAt', width: 20 }, // export-only
+    { header: 'Subcategory ID', key: 'subcategoryId', width: 15 },
+    { header: 'Weight', key: 'weight', width: 10 },
+    { header: 'Images', key: 'images', width: 50 },
+    { header: 'SKU', key: 'sku', width: 20 },
+    { header: 'Attributes', key: 'attributes', width: 30 },
+    { header: 'Variant Price', key: 'variantPrice', width: 15 },
+    { header: 'Variant Stock', key: 'variantStock', width: 15 },
+    { header: 'Variant Images', key: 'variantImages', width: 50 },
+] as const;
+
+export type ProductSheetKey = typeof PRODUCT_SHEET_COLUMNS[number]['key'];
+
+/**
+ * One non-empty sheet row as text, keyed by column, with its 1-based sheet row number
+ */
+export type ProductSheetRow = { row: number } & Partial<Record<ProductSheetKey, string>>;
+
+/**
+ * Formats variant attributes for a sheet cell, e.g. "color: White; size: L"
+ */
+export const formatSheetAttributes = (attributes?: { [key: string]: string } | null): string =>
+    Object.entries(attributes || {}).map(([name, value]) => `${name}: ${value}`).join('; ');
+
+/**
+ * Parses a sheet attributes cell ("color: White; size: L") into an attributes object.
+ * Returns null when a pair is missing its name or value.
+ */
+export const parseSheetAttributes = (value?: string): { [key: string]: string } | null => {
+    const attributes: { [key: string]: string } = {};
+    for (const pair of (value || '').split(';').map((part) => part.trim()).filter(Boolean)) {
+        const separator = pair.indexOf(':');
+        const name = pair.slice(0, separator).trim();
+        const attributeValue = pair.slice(separator + 1).trim();
+        if (separator < 1 || !attributeValue) return null;
+        attributes[name] = attributeValue;
+    }
+    return attributes;
+};
+
+/**
+ * Splits a cell holding several image URLs separated by commas or new lines
+ */
+export const parseSheetList = (value?: string): string[] =>
+    (value || '').split(/[,\n]/).map((item) => item.trim()).filter(Boolean);
+
+/**
+ * Text of an ExcelJS cell value (formula results, rich text and hyperlinks included)
+ */
+const cellText = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') {
+        if ('result' in value) return cellText(value.result);
+        if ('richText' in value) return value.richText.map((part: { text: string }) => part.text).join('');
+        if ('text' in value) return cellText(value.text);
+        if ('hyperlink' in value) return String(value.hyperlink);
+    }
+    return String(value).trim();
+};
+
+/**
+ * Reads the first worksheet of an .xlsx or .csv file into rows keyed by the product sheet columns.
+ * Headers are matched case-insensitively; unknown columns are ignored and blank rows are skipped.
+ *
+ * @param buffer - Uploaded file contents
+ * @param fileName - Original file name, used to tell CSV from Excel
+ * @throws {APIError} 400 if the file cannot be read or has no Name column
+ */
+export const readProductSheet = async (buffer: Buffer, fileName: string): Promise<ProductSheetRow[]> => {
+    const ExcelJS = require('exceljs');
+    const workbook = new ExcelJS.Workbook();
+
+    let worksheet;
+    try {
+        if (fileName.toLowerCase().endsWith('.csv')) {
+            worksheet = await workbook.csv.read(Readable.from(buffer));
+        } else {
+            await workbook.xlsx.load(buffer);
+            worksheet = workbook.worksheets[0];
+        }
+    } catch {
+        throw new APIError(400, 'Could not read the uploaded file');
+    }
+    if (!worksheet) {
+        throw new APIError(400, 'The uploaded file has no worksheet');
+    }
+
+    const keysByHeader = new Map<string, ProductSheetKey>(
+        PRODUCT_SHEET_COLUMNS.map((column) => [column.header.toLowerCase(), column.key])
+    );
+    const columnKeys = new Map<number, ProductSheetKey>();
+    worksheet.getRow(1).eachCell((cell: any, columnNumber: number) => {
+        const key = keysByHeader.get(cellText(cell.value).toLowerCase());
+        if (key) columnKeys.set(columnNumber, key);
+    });
+    if (![...columnKeys.values()].includes('name')) {
+        throw new APIError(400, 'The first row must contain the column headers, including "Name"');
+    }
+
+    const rows: ProductSheetRow[] = [];
+    worksheet.eachRow((sheetRow: any, rowNumber: number) => {
+        if (rowNumber === 1) return;
+        const row: ProductSheetRow = { row: rowNumber };
+        sheetRow.eachCell((cell: any, columnNumber: number) => {
+            const key = columnKeys.get(columnNumber);
+            const text = cellText(cell.value);
+            if (key && text) row[key] = text;
+        });
+        if (Object.keys(row).length > 1) rows.push(row);
+    });
+
+    return rows;
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { BrandStatus } from '../../entities/brand.entity';
+
+// Multipart form fields arrive as strings
+const formBoolean = z.union([z.boolean(), z.enum(['true', 'false']).transform((val) => val === 'true')]);
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+const brandFields = z.object({
+    name: z.string().trim().min(1, 'Brand name is required').max(100, 'Brand name cannot exceed 100 characters'),
+    description: z.string().max(1000, 'Description cannot exceed 1000 characters').optional().nullable(),
+});
+
+/**
+ * Schema for an admin creating a brand (multipart; the logo is the "logo" file field).
+ */
+export const createBrandSchema = brandFields.extend({
+    isVerified: formBoolean.optional(),
+});
+
+/**
+ * Schema for an admin updating or renaming a brand. The slug is regenerated from a new name unless given.
+ */
+export const updateBrandSchema = createBrandSchema.partial().extend({
+    slug: z
+        .string()
+        .min(1, 'Slug is required')
+        .max(120, 'Slug cannot exceed 120 characters')
+        .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug may only contain lowercase letters, numbers and hyphens')
+        .optional(),
+});
+
+/**
+ * Schema for a vendor requesting a new brand.
+ */
+export const requestBrandSchema = brandFields;
+
+/**
+ * Schema for an admin approving or rejecting a requested brand.
+ */
+export const reviewBrandSchema = z.object({
+    status: z.enum([BrandStatus.APPROVED, BrandStatus.REJECTED]),
+    note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for merging a brand into another; its products move to the target brand.
+ */
+export const mergeBrandSchema = z.object({
+    targetBrandId: z.number().int().positive('Target brand ID must be a positive integer'),
+});
+
+/**
+ * Schema for the public brand listing query string.
+ */
+export const brandQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    search: z.string().trim().max(100).optional(),
+    verified: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+});
+
+/**
+ * Schema for the admin brand listing query string; also filters by status.
+ */
+export const adminBrandQuerySchema = brandQuerySchema.extend({
+    status: z.nativeEnum(BrandStatus).optional(),
+});
+
+export type CreateBrandInput = z.infer<typeof createBrandSchema>;
+export type UpdateBrandInput = z.infer<typeof updateBrandSchema>;
+export type RequestBrandInput = z.infer<typeof requestBrandSchema>;
+export type ReviewBrandInput = z.infer<typeof reviewBrandSchema>;
+export type MergeBrandInput = z.infer<typeof mergeBrandSchema>;
+export type BrandQueryInput = z.infer<typeof brandQuerySchema>;
+export type AdminBrandQueryInput = z.infer<typeof adminBrandQuerySchema>;
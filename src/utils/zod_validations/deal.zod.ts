@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { DealStatus } from '../../entities/deal.entity';
 
-export const createDealSchema = z.object({
+const dealFields = z.object({
     // Deal name is required, max 100 chars
     name: z
         .string()
@@ -14,13 +14,38 @@ export const createDealSchema = z.object({
         .min(1, 'Discount percentage must be at least 1%')
         .max(100, 'Discount percentage cannot exceed 100%'),
 
-    // Status must be ENABLED or DISABLED
+    // Status must be ENABLED or DISABLED; SCHEDULED and EXPIRED follow from startsAt/endsAt
     status: z
         .enum([DealStatus.ENABLED, DealStatus.DISABLED], { errorMap: () => ({ message: 'Invalid deal status' }) }),
+
+    // Optional time box; an open end means the deal runs until disabled
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+
+    // Units of each deal product one customer may buy at the deal price
+    perCustomerLimit: z.number().int().positive('Per-customer limit must be at least 1').nullable().optional(),
+
+    // Per-product caps on units sold at the deal price; replaces the existing caps
+    productLimits: z
+        .array(z.object({
+            productId: z.number().int().positive(),
+            stockLimit: z.number().int().min(0, 'Stock limit cannot be negative'),
+        }))
+        .optional(),
 });
 
+const checkDates = (data: { startsAt?: Date | null; endsAt?: Date | null }) =>
+    !data.startsAt || !data.endsAt || data.startsAt < data.endsAt;
+
+// Products join a deal after it is created, so caps are set on update
+export const createDealSchema = dealFields
+    .omit({ productLimits: true })
+    .refine(checkDates, { message: 'endsAt must be after startsAt', path: ['endsAt'] });
+
 // Partial schema for updating deals (all fields optional)
-export const updateDealSchema = createDealSchema.partial();
+export const updateDealSchema = dealFields
+    .partial()
+    .refine(checkDates, { message: 'endsAt must be after startsAt', path: ['endsAt'] });
 
 // Types inferred from schemas
 export type CreateDealInput = z.infer<typeof createDealSchema>;
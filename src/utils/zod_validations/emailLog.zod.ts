@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { EmailStatus } from '../../entities/emailLog.entity';
+import { EMAIL_TEMPLATES } from '../../config/constants';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+const templates = Object.values(EMAIL_TEMPLATES) as [
+    (typeof EMAIL_TEMPLATES)[keyof typeof EMAIL_TEMPLATES],
+    ...(typeof EMAIL_TEMPLATES)[keyof typeof EMAIL_TEMPLATES][]
+];
+
+/**
+ * Schema for browsing the email log, newest first.
+ */
+export const emailLogQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    status: z.nativeEnum(EmailStatus).optional(),
+    template: z.enum(templates).optional(),
+    recipient: z.string().trim().min(1, 'Recipient cannot be empty').max(255).optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+}).refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+});
+
+export type EmailLogQueryInput = z.infer<typeof emailLogQuerySchema>;
@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { NotificationTarget, NotificationType } from "../../entities/notification.entity";
+import { NotificationEvent } from "../../entities/notificationPreference.enum";
 
 // Common base schema
 const baseNotificationSchema = z.object({
@@ -17,8 +18,6 @@ const baseNotificationSchema = z.object({
         required_error: "Notification target is required",
     }),
 
-    isRead: z.boolean().optional().default(false),
-
     link: z.string().url("Invalid URL format").optional().nullable(),
 
     vendorId: z.number().optional().nullable(),
@@ -31,5 +30,42 @@ export const createNotificationSchema = baseNotificationSchema;
 
 export const updateNotificationSchema = baseNotificationSchema.partial(); 
 
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+// Schema for the inbox: archived notifications are listed only with archived=true
+export const notificationInboxQuerySchema = z.object({
+    page: positiveInt("Page").optional().default("1"),
+    limit: positiveInt("Limit")
+        .refine((val) => val <= 100, { message: "Limit must not exceed 100" })
+        .optional()
+        .default("20"),
+    type: z.nativeEnum(NotificationType).optional(),
+    status: z.enum(["read", "unread"]).optional(),
+    archived: z.enum(["true", "false"]).transform((val) => val === "true").optional().default("false"),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+}).refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: "from must be before to",
+    path: ["from"],
+});
+
+// Schema for changing channels per event; channels left out keep their current setting
+export const updateNotificationPreferencesSchema = z.object({
+    preferences: z.array(z.object({
+        event: z.nativeEnum(NotificationEvent),
+        email: z.boolean().optional(),
+        inApp: z.boolean().optional(),
+        sms: z.boolean().optional(),
+    })).min(1, "At least one preference is required"),
+}).refine((data) => new Set(data.preferences.map((preference) => preference.event)).size === data.preferences.length, {
+    message: "Each event can only be listed once",
+    path: ["preferences"],
+});
+
 export type CreateNotificationInput = z.infer<typeof createNotificationSchema>;
 export type UpdateNotificationInput = z.infer<typeof updateNotificationSchema>;
+export type NotificationInboxQueryInput = z.infer<typeof notificationInboxQuerySchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
@@ -83,4 +83,42 @@ export const createOrderSchema = z.object({
  */
 export const updateOrderStatusSchema = z.object({
     status: OrderStatusEnum,
-});
\ No newline at end of file
+});
+
+/**
+ * Schema for validating a vendor's update to their own sub-order.
+ *
+ * - status: vendors can only move fulfilment forward (cancellations stay with admins).
+ * - trackingNumber / courier: optional shipment tracking details.
+ */
+export const updateVendorOrderStatusSchema = z.object({
+    status: z.enum(['DELAYED', 'SHIPPED', 'DELIVERED']),
+    trackingNumber: z.string().min(1, 'Tracking number cannot be empty').max(100, 'Tracking number must not exceed 100 characters').optional(),
+    courier: z.string().min(1, 'Courier cannot be empty').max(100, 'Courier must not exceed 100 characters').optional(),
+});
+
+/**
+ * Schema for validating an admin refund request.
+ *
+ * - amount: optional; omit to refund the remaining refundable balance.
+ * - reason: required explanation stored with the refund.
+ * - reference: optional settlement reference for manual (cash on delivery) refunds.
+ */
+export const refundOrderSchema = z.object({
+    amount: z.number().positive('Refund amount must be greater than zero').optional(),
+    reason: z.string().min(3, 'Reason must be at least 3 characters long').max(500, 'Reason must not exceed 500 characters'),
+    reference: z.string().max(100, 'Reference must not exceed 100 characters').optional(),
+});
+
+/**
+ * Schema for validating the reconciliation of a refund whose gateway outcome was unknown.
+ *
+ * - status: the outcome confirmed with the gateway.
+ * - reference: optional gateway reference of the refund.
+ * - note: optional explanation stored as the failure reason of a refund the gateway did not pay.
+ */
+export const reconcileRefundSchema = z.object({
+    status: z.enum(['COMPLETED', 'FAILED']),
+    reference: z.string().max(100, 'Reference must not exceed 100 characters').optional(),
+    note: z.string().max(500, 'Note must not exceed 500 characters').optional(),
+});
@@ -36,6 +36,7 @@ export interface ProductInterface {
     discount?: string; // Optional, defaults to "0"
     discountType?: DiscountType; // Optional, defaults to PERCENTAGE
     stock?: string; // Required for non-variant products
+    weight?: string; // Optional shipping weight in kg
     status?: InventoryStatus; // Optional, defaults to AVAILABLE
     hasVariants: boolean | 'true' | 'false'; // String from form
     subcategoryId?: string; // From req.params.subcategoryId
@@ -55,6 +56,7 @@ const ProductBaseSchema = z.object({
     discountType: z.enum([DiscountType.PERCENTAGE, DiscountType.FLAT]).optional(),
     status: z.enum([InventoryStatus.AVAILABLE, InventoryStatus.OUT_OF_STOCK, InventoryStatus.LOW_STOCK]).optional(),
     stock: z.number().int().min(0, "Stock must be non-negative").optional(),
+    weight: z.number().min(0, "Weight must be non-negative").optional(),
     hasVariants: z.boolean().optional(),
     variants: z.array(
         z.object({
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+const formBoolean = z.enum(['true', 'false']).transform((val) => val === 'true');
+
+/**
+ * Schema for the form fields sent with a product import file.
+ *
+ * - dryRun: "true" to only validate the file and report what would be created or updated.
+ * - upsert: "true" to update existing products matched by ID or variant SKU instead of rejecting them.
+ */
+export const productImportSchema = z.object({
+    dryRun: formBoolean.default('false'),
+    upsert: formBoolean.default('false'),
+});
+
+export type ProductImportInput = z.infer<typeof productImportSchema>;
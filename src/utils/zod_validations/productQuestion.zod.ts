@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { QuestionStatus } from '../../entities/productQuestion.enum';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+/**
+ * Schema for a customer asking a question about a product.
+ */
+export const askQuestionSchema = z.object({
+    productId: z.number().int().positive('Product ID must be a positive integer'),
+    question: z.string().trim().min(5, 'Question must be at least 5 characters').max(500, 'Question cannot exceed 500 characters'),
+});
+
+/**
+ * Schema for an answer from the vendor or a customer who bought the product.
+ */
+export const answerQuestionSchema = z.object({
+    answer: z.string().trim().min(1, 'Answer is required').max(1000, 'Answer cannot exceed 1000 characters'),
+});
+
+/**
+ * Schema for an admin publishing or hiding a question or an answer.
+ */
+export const moderateQuestionSchema = z.object({
+    status: z.nativeEnum(QuestionStatus),
+    note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for the public questions listing of a product.
+ */
+export const questionQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 50, { message: 'Limit must not exceed 50' })
+        .optional()
+        .default('10'),
+    sort: z.enum(['helpful', 'newest']).optional().default('helpful'),
+});
+
+/**
+ * Schema for the admin moderation queue; filters by status and product.
+ */
+export const adminQuestionQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    status: z.nativeEnum(QuestionStatus).optional(),
+    productId: positiveInt('Product ID').optional(),
+});
+
+export type AskQuestionInput = z.infer<typeof askQuestionSchema>;
+export type AnswerQuestionInput = z.infer<typeof answerQuestionSchema>;
+export type ModerateQuestionInput = z.infer<typeof moderateQuestionSchema>;
+export type QuestionQueryInput = z.infer<typeof questionQuerySchema>;
+export type AdminQuestionQueryInput = z.infer<typeof adminQuestionQuerySchema>;
@@ -1,22 +1,70 @@
 import { z } from "zod";
 import { PromoType } from "../../entities/promo.entity";
+import { DiscountType } from "../../entities/product.enum";
 
+const idList = z.array(z.number().int().positive()).optional();
 
-export const createPromoSchema = z.object({
+const promoFields = z.object({
     promoCode: z
         .string()
         .min(1, "Promo code is required"),
+
+    discountType: z.nativeEnum(DiscountType).default(DiscountType.PERCENTAGE),
+
     discountPercentage: z
         .number()
         .min(1, "Discount must be at least 1%")
-        .max(100, "Discount cannot exceed 100%"),
+        .max(100, "Discount cannot exceed 100%")
+        .optional(),
+
+    discountAmount: z
+        .number()
+        .positive("Flat discount must be greater than 0")
+        .optional(),
 
     applyOn: z.nativeEnum(PromoType).default(PromoType.LINE_TOTAL),
 
     isValid: z
         .boolean()
         .optional(),
-})
+
+    startsAt: z.coerce.date().nullable().optional(),
+    endsAt: z.coerce.date().nullable().optional(),
+
+    usageLimit: z.number().int().positive("Usage limit must be at least 1").nullable().optional(),
+    perUserLimit: z.number().int().positive("Per-user limit must be at least 1").nullable().optional(),
+
+    minOrderValue: z.number().min(0, "Minimum order value cannot be negative").nullable().optional(),
+    maxDiscount: z.number().positive("Maximum discount must be greater than 0").nullable().optional(),
+
+    firstOrderOnly: z.boolean().optional(),
+
+    // Scope; leave empty to apply to every item
+    categoryIds: idList,
+    vendorIds: idList,
+    productIds: idList,
+});
+
+const checkDates = (data: { startsAt?: Date | null; endsAt?: Date | null }) =>
+    !data.startsAt || !data.endsAt || data.startsAt < data.endsAt;
+
+export const createPromoSchema = promoFields
+    .refine((data) => data.discountType === DiscountType.FLAT
+        ? data.discountAmount !== undefined
+        : data.discountPercentage !== undefined, {
+        message: "discountPercentage is required for PERCENTAGE promos and discountAmount for FLAT promos",
+        path: ["discountType"],
+    })
+    .refine(checkDates, { message: "endsAt must be after startsAt", path: ["endsAt"] });
+
+export const updatePromoSchema = promoFields
+    .partial()
+    // Drop the create defaults so omitted fields stay unchanged
+    .extend({
+        discountType: z.nativeEnum(DiscountType).optional(),
+        applyOn: z.nativeEnum(PromoType).optional(),
+    })
+    .refine(checkDates, { message: "endsAt must be after startsAt", path: ["endsAt"] });
 
 export const deletePromoSchema = z.object({
     id: z
@@ -25,4 +73,5 @@ export const deletePromoSchema = z.object({
         .pipe(z.number().int().positive())
 })
 export type CreatePromoCodeInput = z.infer<typeof createPromoSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoSchema>;
 export type DeletePromoCodeInput = z.infer<typeof deletePromoSchema>;
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { ReturnStatus } from '../../entities/returnRequest.entity';
+
+/**
+ * Schema for validating a customer return request.
+ *
+ * - orderId: delivered order the items belong to.
+ * - reason: required short reason shown to the vendor.
+ * - comments: optional extra detail from the customer.
+ * - items: at least one order item with the quantity being returned.
+ */
+export const createReturnSchema = z.object({
+    orderId: z.number().int().positive('Order ID must be a positive integer'),
+    reason: z.string().min(3, 'Reason must be at least 3 characters long').max(255, 'Reason must not exceed 255 characters'),
+    comments: z.string().max(1000, 'Comments must not exceed 1000 characters').optional(),
+    items: z.array(z.object({
+        orderItemId: z.number().int().positive('Order item ID must be a positive integer'),
+        quantity: z.number().int().positive('Quantity must be at least 1'),
+    })).min(1, 'At least one item must be returned'),
+});
+
+/**
+ * Schema for validating a vendor/admin decision on a return request.
+ */
+export const reviewReturnSchema = z.object({
+    status: z.enum([ReturnStatus.APPROVED, ReturnStatus.REJECTED]),
+    note: z.string().max(1000, 'Note must not exceed 1000 characters').optional(),
+});
+
+/**
+ * Schema for validating a refund of received return goods.
+ *
+ * - reference: optional settlement reference for manual (cash on delivery) refunds.
+ */
+export const refundReturnSchema = z.object({
+    reference: z.string().max(100, 'Reference must not exceed 100 characters').optional(),
+});
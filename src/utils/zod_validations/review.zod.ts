@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { ReviewStatus } from '../../entities/reviews.entity';
+import { ReviewDisputeReason, ReviewDisputeStatus } from '../../entities/reviewDispute.entity';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
 
 /**
  * Schema to validate review creation input.
@@ -8,13 +15,16 @@ import { z } from 'zod';
  * - rating: Required number between 1.0 and 5.0 inclusive,
  *   with exactly one decimal place (e.g., 1.0, 1.1, ..., 5.0).
  * - comment: Required string, length between 1 and 500 characters.
+ *
+ * Numbers are coerced because reviews with photos are sent as multipart form data
+ * (photos in the "photos" file field).
  */
 export const createReviewSchema = z.object({
-    productId: z.number()
+    productId: z.coerce.number()
         .int()
         .positive()
         .min(1, 'Product ID is required'),
-    rating: z.number()
+    rating: z.coerce.number()
         .min(1.0, 'Rating must be at least 1.0')
         .max(5.0, 'Rating cannot exceed 5.0')
         .refine((val) => Number(val.toFixed(1)) === val, {
@@ -27,5 +37,80 @@ export const createReviewSchema = z.object({
 
 export const updateReviewSchema = createReviewSchema.partial()
 
+/**
+ * Schema for the public reviews listing of a product.
+ */
+export const reviewQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 50, { message: 'Limit must not exceed 50' })
+        .optional()
+        .default('4'),
+    sort: z.enum(['newest', 'helpful', 'rating-high', 'rating-low']).optional().default('newest'),
+});
+
+/**
+ * Schema for the admin moderation queue; pending reviews unless another status is given.
+ */
+export const adminReviewQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    status: z.nativeEnum(ReviewStatus).optional().default(ReviewStatus.PENDING),
+    productId: positiveInt('Product ID').optional(),
+});
+
+/**
+ * Schema for an admin approving or rejecting a review.
+ */
+export const moderateReviewSchema = z.object({
+    status: z.enum([ReviewStatus.APPROVED, ReviewStatus.REJECTED]),
+    note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for the vendor's public reply to a review of their product.
+ */
+export const vendorReplySchema = z.object({
+    reply: z.string().trim().min(1, 'Reply is required').max(1000, 'Reply cannot exceed 1000 characters'),
+});
+
+/**
+ * Schema for a vendor reporting a review of their product.
+ */
+export const reportReviewSchema = z.object({
+    reason: z.nativeEnum(ReviewDisputeReason),
+    details: z.string().trim().max(1000, 'Details cannot exceed 1000 characters').optional(),
+});
+
+/**
+ * Schema for an admin upholding (review is rejected) or dismissing a dispute.
+ */
+export const resolveDisputeSchema = z.object({
+    status: z.enum([ReviewDisputeStatus.UPHELD, ReviewDisputeStatus.DISMISSED]),
+    note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for listing disputes, in the admin queue or the vendor's own.
+ */
+export const disputeQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    status: z.nativeEnum(ReviewDisputeStatus).optional(),
+});
+
 export type CreateReviewInput = z.infer<typeof createReviewSchema>;
 export type UpdateReviewInput = z.infer<typeof updateReviewSchema>;
+export type ReviewQueryInput = z.infer<typeof reviewQuerySchema>;
+export type AdminReviewQueryInput = z.infer<typeof adminReviewQuerySchema>;
+export type ModerateReviewInput = z.infer<typeof moderateReviewSchema>;
+export type VendorReplyInput = z.infer<typeof vendorReplySchema>;
+export type ReportReviewInput = z.infer<typeof reportReviewSchema>;
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
+export type DisputeQueryInput = z.infer<typeof disputeQuerySchema>;
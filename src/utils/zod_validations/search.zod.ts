@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { SEARCH_SUGGESTIONS } from '../../config/constants';
+
+/**
+ * Schema for the autocomplete query string.
+ *
+ * - q: partial query as typed, at least SEARCH_SUGGESTIONS.MIN_QUERY_LENGTH characters.
+ * - limit: suggestions per section, defaults to SEARCH_SUGGESTIONS.DEFAULT_LIMIT.
+ */
+export const searchSuggestionQuerySchema = z.object({
+    q: z
+        .string()
+        .trim()
+        .min(SEARCH_SUGGESTIONS.MIN_QUERY_LENGTH, {
+            message: `Query must be at least ${SEARCH_SUGGESTIONS.MIN_QUERY_LENGTH} characters`,
+        })
+        .max(100, { message: 'Query must not exceed 100 characters' }),
+    limit: z
+        .string()
+        .transform(Number)
+        .refine((val) => Number.isInteger(val) && val >= 1 && val <= SEARCH_SUGGESTIONS.MAX_LIMIT, {
+            message: `Limit must be between 1 and ${SEARCH_SUGGESTIONS.MAX_LIMIT}`,
+        })
+        .optional(),
+});
+
+export type SearchSuggestionQueryInput = z.infer<typeof searchSuggestionQuerySchema>;
@@ -0,0 +1,79 @@
+import { z } from 'zod';
+import { LedgerEntryType, PayoutStatus } from '../../entities/settlement.enum';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+const pagination = {
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+};
+
+const rate = z.number()
+    .min(0, 'Rate cannot be negative')
+    .max(100, 'Rate cannot exceed 100');
+
+/**
+ * Schema for a commission rate for a vendor, a category, or a vendor within a category.
+ */
+export const createCommissionRateSchema = z.object({
+    vendorId: z.number().int().positive().nullable().optional(),
+    categoryId: z.number().int().positive().nullable().optional(),
+    rate,
+}).refine((data) => data.vendorId || data.categoryId, {
+    message: 'A vendor, a category or both are required',
+    path: ['vendorId'],
+});
+
+export const updateCommissionRateSchema = z.object({
+    rate,
+});
+
+/**
+ * Schema for listing payout batches.
+ */
+export const payoutBatchQuerySchema = z.object({
+    ...pagination,
+    status: z.nativeEnum(PayoutStatus).optional(),
+});
+
+/**
+ * Schema for an admin marking a payout as paid.
+ */
+export const markPayoutPaidSchema = z.object({
+    reference: z.string().trim().min(1, 'Reference is required').max(100, 'Reference cannot exceed 100 characters'),
+    note: z.string().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for a vendor's statement: ledger entries in a date range.
+ */
+export const statementQuerySchema = z.object({
+    ...pagination,
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    type: z.nativeEnum(LedgerEntryType).optional(),
+}).refine((data) => !data.from || !data.to || data.from <= data.to, {
+    message: '"from" must be before "to"',
+    path: ['from'],
+});
+
+/**
+ * Schema for a vendor's payout history.
+ */
+export const vendorPayoutQuerySchema = z.object({
+    ...pagination,
+    status: z.nativeEnum(PayoutStatus).optional(),
+});
+
+export type CreateCommissionRateInput = z.infer<typeof createCommissionRateSchema>;
+export type UpdateCommissionRateInput = z.infer<typeof updateCommissionRateSchema>;
+export type PayoutBatchQueryInput = z.infer<typeof payoutBatchQuerySchema>;
+export type MarkPayoutPaidInput = z.infer<typeof markPayoutPaidSchema>;
+export type StatementQueryInput = z.infer<typeof statementQuerySchema>;
+export type VendorPayoutQueryInput = z.infer<typeof vendorPayoutQuerySchema>;
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { Province } from '../../entities/address.entity';
+
+const fee = z.number().min(0, 'Fee cannot be negative');
+
+/**
+ * Schema for validating a shipping zone.
+ *
+ * - districtIds/provinces: destinations covered by the zone (district match wins over province).
+ * - baseFee: fee per vendor shipment into the zone.
+ * - localFee: optional fee when the vendor is itself inside the zone.
+ * - perKgFee/perItemFee: optional surcharges by weight and by each item after the first.
+ * - freeShippingThreshold: optional vendor subtotal from which shipping is free.
+ */
+export const createShippingZoneSchema = z.object({
+    name: z.string().min(1, 'Zone name is required').max(100, 'Zone name must not exceed 100 characters'),
+    description: z.string().max(500, 'Description must not exceed 500 characters').optional(),
+    districtIds: z.array(z.number().int().positive('District ID must be a positive integer')).optional(),
+    provinces: z.array(z.nativeEnum(Province)).optional(),
+    baseFee: fee,
+    localFee: fee.nullable().optional(),
+    perKgFee: fee.optional(),
+    perItemFee: fee.optional(),
+    freeShippingThreshold: fee.nullable().optional(),
+    isActive: z.boolean().optional(),
+});
+
+export const updateShippingZoneSchema = createShippingZoneSchema.partial();
+
+/**
+ * Schema for validating a per-vendor shipping override.
+ *
+ * - zoneId: zone to override; omit or null to override every destination.
+ * - fees: null (or omitted) falls back to the zone value.
+ */
+export const createShippingVendorRateSchema = z.object({
+    vendorId: z.number().int().positive('Vendor ID must be a positive integer'),
+    zoneId: z.number().int().positive('Zone ID must be a positive integer').nullable().optional(),
+    baseFee: fee.nullable().optional(),
+    localFee: fee.nullable().optional(),
+    perKgFee: fee.nullable().optional(),
+    perItemFee: fee.nullable().optional(),
+    freeShippingThreshold: fee.nullable().optional(),
+});
+
+export const updateShippingVendorRateSchema = createShippingVendorRateSchema
+    .omit({ vendorId: true, zoneId: true })
+    .partial();
+
+/**
+ * Schema for validating a shipping quote request before checkout.
+ */
+export const shippingQuoteSchema = z.object({
+    address: z.object({
+        district: z.string().min(1, 'District is required'),
+        province: z.nativeEnum(Province).optional(),
+    }),
+    items: z.array(z.object({
+        productId: z.number().int().positive('Product ID must be a positive integer'),
+        variantId: z.number().int().positive('Variant ID must be a positive integer').optional(),
+        quantity: z.number().int().positive('Quantity must be at least 1'),
+    })).min(1, 'At least one item is required'),
+});
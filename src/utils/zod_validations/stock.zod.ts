@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { StockMovementReason } from '../../entities/stockMovement.entity';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+/**
+ * Schema for the stock movement history query string.
+ *
+ * - page/limit: pagination, defaults to page 1 with 20 movements.
+ * - variantId: only movements of this variant.
+ * - reason: only movements with this reason.
+ */
+export const stockMovementQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+    variantId: positiveInt('Variant ID').optional(),
+    reason: z.nativeEnum(StockMovementReason).optional(),
+});
+
+/**
+ * Schema for the stock reconciliation query string.
+ *
+ * - vendorId: admin-only filter; vendors always get their own products.
+ * - productId: only this product and its variants.
+ * - mismatchedOnly: "true" to return only rows where stock and ledger differ.
+ */
+export const stockReconciliationQuerySchema = z.object({
+    vendorId: positiveInt('Vendor ID').optional(),
+    productId: positiveInt('Product ID').optional(),
+    mismatchedOnly: z.enum(['true', 'false']).transform((val) => val === 'true').optional(),
+});
+
+export type StockMovementQueryInput = z.infer<typeof stockMovementQuerySchema>;
+export type StockReconciliationQueryInput = z.infer<typeof stockReconciliationQuerySchema>;
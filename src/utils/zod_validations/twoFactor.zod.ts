@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+const totpCode = z.string().trim().regex(/^\d{6}$/, 'Code must be 6 digits');
+
+/**
+ * Schema for a second factor: a code from the authenticator app, a recovery code or a code sent by email.
+ */
+export const twoFactorCodeSchema = z.discriminatedUnion('method', [
+    z.object({ method: z.literal('totp'), code: totpCode }),
+    z.object({ method: z.literal('email'), code: totpCode }),
+    z.object({
+        method: z.literal('recovery'),
+        code: z.string().trim().regex(/^[A-Za-z2-7]{5}-?[A-Za-z2-7]{5}$/, 'Invalid recovery code format'),
+    }),
+]);
+
+/**
+ * Schema for confirming enrollment with the first code from the authenticator app.
+ */
+export const twoFactorConfirmSchema = z.object({
+    code: totpCode,
+});
+
+/**
+ * Schema for the login steps after the password was accepted.
+ */
+export const twoFactorChallengeSchema = z.object({
+    challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
+/**
+ * Schema for completing a login with a second factor.
+ */
+export const twoFactorLoginSchema = twoFactorChallengeSchema.and(twoFactorCodeSchema);
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorConfirmInput = z.infer<typeof twoFactorConfirmSchema>;
+export type TwoFactorChallengeInput = z.infer<typeof twoFactorChallengeSchema>;
+export type TwoFactorLoginInput = z.infer<typeof twoFactorLoginSchema>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { KycDocumentStatus } from '../../entities/vendorKyc.enum';
+
+const positiveInt = (label: string) => z
+    .string()
+    .transform(Number)
+    .refine((val) => Number.isInteger(val) && val >= 1, { message: `${label} must be a positive integer` });
+
+/**
+ * Schema for the KYC review queue: pending documents, oldest submission first.
+ */
+export const kycQueueQuerySchema = z.object({
+    page: positiveInt('Page').optional().default('1'),
+    limit: positiveInt('Limit')
+        .refine((val) => val <= 100, { message: 'Limit must not exceed 100' })
+        .optional()
+        .default('20'),
+});
+
+/**
+ * Schema for a reviewer approving or rejecting one KYC document.
+ * A rejection needs a reason; it is emailed to the vendor with the link to re-upload.
+ */
+export const reviewKycDocumentSchema = z.object({
+    status: z.enum([KycDocumentStatus.APPROVED, KycDocumentStatus.REJECTED]),
+    reviewerNote: z.string().trim().max(500, 'Reviewer note cannot exceed 500 characters').optional(),
+    rejectionReason: z.string().trim().max(500, 'Rejection reason cannot exceed 500 characters').optional(),
+}).refine((data) => data.status !== KycDocumentStatus.REJECTED || !!data.rejectionReason, {
+    message: 'A rejection reason is required',
+    path: ['rejectionReason'],
+});
+
+export const suspendVendorSchema = z.object({
+    reason: z.string().trim().min(1, 'Suspension reason is required').max(500, 'Suspension reason cannot exceed 500 characters'),
+});
+
+export const reinstateVendorSchema = z.object({
+    note: z.string().trim().max(500, 'Note cannot exceed 500 characters').optional(),
+});
+
+/**
+ * Schema for a vendor re-uploading rejected documents with the token from the rejection email.
+ */
+export const resubmitKycDocumentsSchema = z.object({
+    token: z.string().min(1, 'Token is required'),
+    taxDocuments: z.array(z.string().url('Invalid tax document URL')).min(1, 'At least one tax document is required').optional(),
+    citizenshipDocuments: z.array(z.string().url('Invalid citizenship document URL')).min(1, 'At least one citizenship document is required').optional(),
+    chequePhoto: z.string().url('Invalid cheque photo URL').optional(),
+}).refine((data) => data.taxDocuments || data.citizenshipDocuments || data.chequePhoto, {
+    message: 'Upload at least one document',
+    path: ['taxDocuments'],
+});
+
+export type KycQueueQueryInput = z.infer<typeof kycQueueQuerySchema>;
+export type ReviewKycDocumentInput = z.infer<typeof reviewKycDocumentSchema>;
+export type SuspendVendorInput = z.infer<typeof suspendVendorSchema>;
+export type ReinstateVendorInput = z.infer<typeof reinstateVendorSchema>;
+export type ResubmitKycDocumentsInput = z.infer<typeof resubmitKycDocumentsSchema>;